@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/auth";
 import { riskManager, RISK_PROFILES, RiskProfileType } from "@/lib/risk-manager";
+import { proxyRequest } from "@/lib/proxy";
 import { paperTradingEngine } from "@/lib/trading";
 
 // GET /api/risk - Get risk metrics and profile
@@ -115,31 +116,21 @@ export async function POST(request: NextRequest) {
       }
 
       case "check-position": {
-        // Check if a position is allowed
-        const { positionValue, portfolioValue, currentOpenPositions, leverage } = data;
+        // Dry run through the backend pre-trade risk gate, the same
+        // pipeline every order passes through
+        const { symbol, side, quantity } = data;
 
-        if (positionValue === undefined || portfolioValue === undefined) {
+        if (!symbol || !side || quantity === undefined) {
           return NextResponse.json(
-            { error: "Missing positionValue or portfolioValue" },
+            { error: "Missing symbol, side or quantity" },
             { status: 400 }
           );
         }
 
-        // Get actual values if not provided
-        const actualPortfolioValue =
-          portfolioValue || paperTradingEngine.getPortfolioValue(userId);
-        const actualOpenPositions =
-          currentOpenPositions ?? paperTradingEngine.getPositions(userId).length;
-
-        const check = riskManager.checkPosition(
-          userId,
-          positionValue,
-          actualPortfolioValue,
-          actualOpenPositions,
-          leverage
-        );
-
-        return NextResponse.json(check);
+        return proxyRequest("/api/risk/pre-trade", request, {
+          method: "POST",
+          body: data,
+        });
       }
 
       case "calculate-size": {
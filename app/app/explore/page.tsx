@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Link from 'next/link';
 import { Moon, Sparkles, RefreshCw, TrendingUp, ArrowRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PriceTicker, PriceData } from './components/PriceTicker';
 import { PriceChart, Candle } from './components/PriceChart';
 import { OrderBookDisplay, OrderBookData } from './components/OrderBookDisplay';
+import { useMarketStream } from '@/hooks/use-market-stream';
 
 // TradeZZZ Logo Component
 function TradeZZZLogo({ size = 'md' }: { size?: 'sm' | 'md' | 'lg' }) {
@@ -43,6 +44,32 @@ export default function ExplorePage() {
   const [isLoadingChart, setIsLoadingChart] = useState(false);
   const [isLoadingOrderBook, setIsLoadingOrderBook] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const selectedSymbolRef = useRef(selectedSymbol);
+  selectedSymbolRef.current = selectedSymbol;
+
+  // Live tickers for every listed market plus the selected order book
+  const symbolKey = prices.map((p) => p.symbol).join(',');
+  const channels = useMemo(() => {
+    const symbols = symbolKey ? symbolKey.split(',') : [];
+    const list = symbols.map((symbol) => `ticker:${symbol}`);
+    if (selectedSymbol) list.push(`orderbook:${selectedSymbol}`);
+    return list;
+  }, [symbolKey, selectedSymbol]);
+
+  const handleStreamUpdate = useCallback((channel: string, data: any) => {
+    if (channel.startsWith('ticker:')) {
+      setPrices((current) =>
+        current.map((p) => (p.symbol === data.symbol ? { ...p, ...data } : p))
+      );
+      setLastUpdate(new Date());
+    } else if (channel.startsWith('orderbook:') && data.symbol === selectedSymbolRef.current) {
+      setOrderBook({ symbol: data.symbol, bids: data.bids, asks: data.asks });
+      setIsLoadingOrderBook(false);
+    }
+  }, []);
+
+  const streamStatus = useMarketStream(channels, handleStreamUpdate);
+  const isStreaming = streamStatus === 'open';
 
   // Fetch prices
   const fetchPrices = useCallback(async () => {
@@ -91,8 +118,8 @@ export default function ExplorePage() {
   }, []);
 
   // Fetch order book for selected symbol
-  const fetchOrderBook = useCallback(async (symbol: string) => {
-    setIsLoadingOrderBook(true);
+  const fetchOrderBook = useCallback(async (symbol: string, showLoading = true) => {
+    if (showLoading) setIsLoadingOrderBook(true);
     try {
       const symbolParam = symbol.replace('/', '-');
       const response = await fetch(`${API_BASE}/api/public/orderbook/${symbolParam}`);
@@ -113,22 +140,35 @@ export default function ExplorePage() {
     }
   }, []);
 
-  // Initial fetch and auto-refresh
+  // Initial fetch; refresh every 5 seconds only while the stream is down
   useEffect(() => {
     fetchPrices();
+    if (isStreaming) return;
 
-    // Refresh prices every 5 seconds
     const interval = setInterval(fetchPrices, 5000);
     return () => clearInterval(interval);
-  }, [fetchPrices]);
+  }, [fetchPrices, isStreaming]);
 
-  // Fetch chart and order book when symbol changes
+  // Fetch chart when symbol changes
   useEffect(() => {
     if (selectedSymbol) {
       fetchCandles(selectedSymbol);
+    }
+  }, [selectedSymbol, fetchCandles]);
+
+  // Order book snapshot when symbol changes; the stream keeps it current
+  useEffect(() => {
+    if (selectedSymbol) {
       fetchOrderBook(selectedSymbol);
     }
-  }, [selectedSymbol, fetchCandles, fetchOrderBook]);
+  }, [selectedSymbol, fetchOrderBook]);
+
+  useEffect(() => {
+    if (!selectedSymbol || isStreaming) return;
+
+    const interval = setInterval(() => fetchOrderBook(selectedSymbol, false), 5000);
+    return () => clearInterval(interval);
+  }, [selectedSymbol, fetchOrderBook, isStreaming]);
 
   const handleSymbolSelect = (symbol: string) => {
     setSelectedSymbol(symbol);
@@ -147,7 +187,7 @@ export default function ExplorePage() {
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <RefreshCw className="h-3 w-3 animate-spin" />
                 <span>
-                  Updated {lastUpdate.toLocaleTimeString()}
+                  {isStreaming ? 'Live' : 'Updated'} {lastUpdate.toLocaleTimeString()}
                 </span>
               </div>
             )}
@@ -254,7 +294,7 @@ export default function ExplorePage() {
         <div className="max-w-7xl mx-auto px-6">
           <div className="flex flex-col md:flex-row items-center justify-between gap-4 text-sm text-muted-foreground">
             <p>
-              Data provided by Coinbase. Prices update every 5 seconds.
+              Data provided by Coinbase. {isStreaming ? 'Prices stream in real time.' : 'Prices update every 5 seconds.'}
             </p>
             <p>
               Trading cryptocurrency involves substantial risk of loss.
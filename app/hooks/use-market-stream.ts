@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || API_BASE.replace(/^http/, 'ws');
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export type MarketStreamStatus = 'connecting' | 'open' | 'closed';
+
+interface MarketStreamOptions {
+  /** Clerk session token; required for the orders and positions channels */
+  token?: string | null;
+}
+
+/**
+ * Subscribe to API WebSocket channels such as `ticker:BTC/USD` or
+ * `orderbook:BTC/USD`. Reconnects with backoff and resubscribes; channel
+ * changes are applied to the open socket without reconnecting.
+ */
+export function useMarketStream(
+  channels: string[],
+  onUpdate: (channel: string, data: any) => void,
+  options: MarketStreamOptions = {}
+): MarketStreamStatus {
+  const [status, setStatus] = useState<MarketStreamStatus>('connecting');
+  const socketRef = useRef<WebSocket | null>(null);
+  const subscribedRef = useRef<Set<string>>(new Set());
+  const channelsRef = useRef(channels);
+  const onUpdateRef = useRef(onUpdate);
+
+  channelsRef.current = channels;
+  onUpdateRef.current = onUpdate;
+
+  const channelKey = channels.join('|');
+  const { token } = options;
+
+  // Connection lifecycle
+  useEffect(() => {
+    let disposed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      setStatus('connecting');
+      const url = token ? `${WS_URL}?token=${encodeURIComponent(token)}` : WS_URL;
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setStatus('open');
+        subscribedRef.current = new Set(channelsRef.current);
+        if (channelsRef.current.length > 0) {
+          socket.send(JSON.stringify({ type: 'subscribe', channels: channelsRef.current }));
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type === 'update') {
+            onUpdateRef.current(message.channel, message.data);
+          } else if (message.type === 'error') {
+            console.error('Market stream error:', message.channel ?? '', message.error);
+          }
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (disposed) return;
+        setStatus('closed');
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [token]);
+
+  // Apply channel changes to the open socket
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+    const next = new Set(channelsRef.current);
+    const added = Array.from(next).filter((c) => !subscribedRef.current.has(c));
+    const removed = Array.from(subscribedRef.current).filter((c) => !next.has(c));
+
+    if (removed.length > 0) {
+      socket.send(JSON.stringify({ type: 'unsubscribe', channels: removed }));
+    }
+    if (added.length > 0) {
+      socket.send(JSON.stringify({ type: 'subscribe', channels: added }));
+    }
+    subscribedRef.current = next;
+  }, [channelKey, status]);
+
+  return status;
+}
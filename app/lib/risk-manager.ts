@@ -1,6 +1,8 @@
 /**
  * Risk Management Service for TradeZZZ
- * Handles position sizing, risk limits, and portfolio risk assessment
+ * Handles position sizing, risk limits, and portfolio risk assessment.
+ * Whether an order may be placed is decided by the backend pre-trade risk
+ * gate, not here.
  */
 
 // ============================================
@@ -34,13 +36,6 @@ export interface RiskWarning {
   timestamp: Date;
 }
 
-export interface PositionRiskCheck {
-  allowed: boolean;
-  warnings: RiskWarning[];
-  suggestedSize?: number;
-  reason?: string;
-}
-
 export interface UserRiskProfile {
   userId: string;
   limits: RiskLimits;
@@ -164,83 +159,6 @@ class RiskManager {
     return this.updateLimits(userId, limits);
   }
 
-  /**
-   * Check if a new position is allowed based on risk limits
-   */
-  checkPosition(
-    userId: string,
-    positionValue: number,
-    portfolioValue: number,
-    currentOpenPositions: number,
-    leverage: number = 1
-  ): PositionRiskCheck {
-    const profile = this.getUserProfile(userId);
-    const warnings: RiskWarning[] = [];
-    let allowed = true;
-
-    // Check position size
-    const positionPercent = (positionValue / portfolioValue) * 100;
-    if (positionPercent > profile.limits.maxPositionSize) {
-      warnings.push({
-        type: "position_size",
-        severity: "warning",
-        message: `Position size ${positionPercent.toFixed(1)}% exceeds limit of ${profile.limits.maxPositionSize}%`,
-        timestamp: new Date(),
-      });
-      allowed = false;
-    }
-
-    // Check open positions count
-    if (currentOpenPositions >= profile.limits.maxOpenPositions) {
-      warnings.push({
-        type: "concentration",
-        severity: "warning",
-        message: `Maximum open positions (${profile.limits.maxOpenPositions}) reached`,
-        timestamp: new Date(),
-      });
-      allowed = false;
-    }
-
-    // Check leverage
-    if (leverage > profile.limits.maxLeverage) {
-      warnings.push({
-        type: "leverage",
-        severity: "critical",
-        message: `Leverage ${leverage}x exceeds limit of ${profile.limits.maxLeverage}x`,
-        timestamp: new Date(),
-      });
-      allowed = false;
-    }
-
-    // Check daily loss limit
-    const dailyPnLPercent = this.getDailyPnLPercent(profile);
-    if (dailyPnLPercent < -profile.limits.maxDailyLoss) {
-      warnings.push({
-        type: "daily_loss",
-        severity: "critical",
-        message: `Daily loss ${Math.abs(dailyPnLPercent).toFixed(1)}% exceeds limit of ${profile.limits.maxDailyLoss}%`,
-        timestamp: new Date(),
-      });
-      allowed = false;
-    }
-
-    // Calculate suggested size if over limit
-    let suggestedSize: number | undefined;
-    if (positionPercent > profile.limits.maxPositionSize) {
-      suggestedSize = (portfolioValue * profile.limits.maxPositionSize) / 100;
-    }
-
-    // Store warnings
-    this.addWarnings(userId, warnings);
-
-    return {
-      allowed,
-      warnings,
-      suggestedSize,
-      reason: !allowed ? warnings[0]?.message : undefined,
-    };
-  }
-
   /**
    * Record a completed trade for risk tracking
    */
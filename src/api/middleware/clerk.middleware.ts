@@ -123,6 +123,21 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
   }
 }
 
+/**
+ * Resolve a Clerk session token to an active user outside of an HTTP request
+ * (e.g. WebSocket connections). Unlike requireAuth, users are not created here.
+ */
+export async function authenticateToken(token: string): Promise<User | null> {
+  try {
+    const verifiedToken = await clerk.verifyToken(token);
+    const user = await getDatabase().users.findByClerkId(verifiedToken.sub);
+    return user && user.is_active ? user : null;
+  } catch (error) {
+    console.error('Token verification failed:', error);
+    return null;
+  }
+}
+
 /**
  * Check if user has required tier
  */
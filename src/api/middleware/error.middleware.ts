@@ -8,6 +8,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface ApiError extends Error {
   statusCode?: number;
   code?: string;
+  decision?: unknown; // Pre-trade risk decision explaining a rejected order
 }
 
 export class ValidationError extends Error {
@@ -83,7 +84,21 @@ function getStatusCodeFromError(error: Error): number {
     message.includes('invalid timeframe') ||
     message.includes('stop loss must be') ||
     message.includes('cannot change strategy type') ||
-    message.includes('cannot modify config of active')
+    message.includes('cannot modify config of active') ||
+    message.includes('bracket') ||
+    message.includes('oco ') ||
+    message.includes('trailing') ||
+    message.includes('time in force') ||
+    message.includes('expiry time') ||
+    message.includes('liquidity') ||
+    message.includes('smart routing') ||
+    message.includes('post-only') ||
+    message.includes('perpetual symbol') ||
+    message.includes('perpetual contracts') ||
+    message.includes('perpetual futures are not supported') ||
+    message.includes('contract size') ||
+    message.includes('risk rule') ||
+    message.includes('risk override')
   ) {
     return 400;
   }
@@ -144,6 +159,9 @@ export function errorHandler(
     } else if (err.name === 'NotFoundError') {
       statusCode = 404;
       code = 'NOT_FOUND';
+    } else if (err.name === 'PreTradeRiskError') {
+      statusCode = 400;
+      code = 'RISK_REJECTED';
     } else {
       statusCode = getStatusCodeFromError(err);
     }
@@ -155,6 +173,7 @@ export function errorHandler(
     success: false,
     error: message,
     code,
+    ...(err.decision !== undefined && { riskCheck: err.decision }),
   });
 }
 
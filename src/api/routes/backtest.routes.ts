@@ -4,11 +4,14 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { BacktestService, BacktestConfig } from '../../backtesting/BacktestService';
+import { BacktestService, BacktestConfig, OHLCV } from '../../backtesting/BacktestService';
+import { DatasetService } from '../../backtesting/DatasetService';
+import { OptimizationService } from '../../backtesting/OptimizationService';
+import { PortfolioBacktestService } from '../../backtesting/PortfolioBacktestService';
 import { StrategyService } from '../../strategies/StrategyService';
 import { AuthService } from '../../users/AuthService';
 import { createAuthMiddleware } from '../middleware/auth.middleware';
-import { asyncHandler, NotFoundError } from '../middleware/error.middleware';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/error.middleware';
 import { validate } from '../middleware/validation.middleware';
 import { z } from 'zod';
 
@@ -16,6 +19,50 @@ import { z } from 'zod';
 // Validation Schemas
 // ============================================================================
 
+const executionSchema = z.object({
+  positionSizing: z.object({
+    method: z.enum(['fixed_percentage', 'kelly_criterion', 'fixed_amount', 'volatility_adjusted']),
+    riskPercentage: z.number().positive().max(1).optional(),
+    fixedAmount: z.number().positive().optional(),
+    volatilityPeriod: z.number().int().min(2).optional(),
+    winRate: z.number().min(0).max(1).optional(),
+    avgWin: z.number().positive().optional(),
+    avgLoss: z.number().positive().optional(),
+  }).optional(),
+  stopLoss: z.union([
+    z.literal(false),
+    z.object({
+      riskPercentage: z.number().positive().max(1).optional(),
+      atrPeriod: z.number().int().min(1).optional(),
+      atrMultiplier: z.number().positive().optional(),
+    }),
+  ]).optional(),
+  takeProfit: z.union([
+    z.literal(false),
+    z.array(z.object({
+      riskRewardRatio: z.number().positive(),
+      closeFraction: z.number().positive().max(1),
+    })).min(1),
+  ]).optional(),
+  pyramiding: z.object({
+    maxEntries: z.number().int().min(1).max(10),
+    scaleInPercent: z.number().positive().optional(),
+  }).optional(),
+});
+
+const sentimentPointSchema = z.object({
+  timestamp: z.number().int().nonnegative(),
+  sentiment: z.enum(['bullish', 'bearish', 'neutral']),
+  score: z.number().min(-1).max(1),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().default(''),
+});
+
+const fundingPointSchema = z.object({
+  timestamp: z.number().int().nonnegative(),
+  rate: z.number().gt(-1).lt(1),
+});
+
 const runBacktestSchema = z.object({
   strategyId: z.string().uuid('Invalid strategy ID'),
   symbol: z.string().min(1, 'Symbol is required'),
@@ -24,6 +71,101 @@ const runBacktestSchema = z.object({
   initialCapital: z.number().positive('Initial capital must be positive'),
   slippage: z.number().min(0).max(10).optional(),
   commission: z.number().min(0).max(10).optional(),
+  execution: executionSchema.optional(),
+  sentiment: z.array(sentimentPointSchema).optional(),
+  fundingRates: z.array(fundingPointSchema).optional(),
+  datasetId: z.string().uuid('Invalid dataset ID').optional(),
+  venueDatasetIds: z.record(z.string(), z.string().uuid('Invalid dataset ID')).optional(),
+});
+
+const parameterValueSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+const optimizeBacktestSchema = runBacktestSchema.extend({
+  parameters: z.record(
+    z.string(),
+    z.union([
+      z.array(parameterValueSchema).min(1),
+      z.object({
+        min: z.number(),
+        max: z.number(),
+        step: z.number().positive().optional(),
+        integer: z.boolean().optional(),
+      }),
+    ])
+  ).refine(val => Object.keys(val).length > 0, 'At least one parameter is required'),
+  search: z.enum(['grid', 'random']).optional(),
+  samples: z.number().int().min(1).max(500).optional(),
+  seed: z.number().int().optional(),
+  objective: z.enum(['sharpeRatio', 'totalReturn', 'winRate']).optional(),
+  walkForward: z.object({
+    windows: z.number().int().min(1).max(20),
+    inSampleRatio: z.number().gt(0).lt(1).optional(),
+  }).optional(),
+});
+
+const portfolioBacktestSchema = z.object({
+  strategyIds: z.array(z.string().uuid('Invalid strategy ID')).min(1, 'At least one strategy is required'),
+  symbols: z.array(z.string().min(1)).min(1).optional(),
+  startDate: z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid start date'),
+  endDate: z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid end date'),
+  initialCapital: z.number().positive('Initial capital must be positive'),
+  slippage: z.number().min(0).max(10).optional(),
+  commission: z.number().min(0).max(10).optional(),
+  allocation: z.object({
+    rule: z.enum(['equal_weight', 'fixed_weights', 'inverse_volatility']),
+    weights: z.record(z.string(), z.number().min(0)).optional(),
+    volatilityLookback: z.number().int().min(2).optional(),
+  }).optional(),
+  datasetIds: z.record(z.string(), z.string().uuid('Invalid dataset ID')).optional(),
+  riskLimits: z.object({
+    maxPositionSize: z.number().positive().max(1).optional(),
+    maxTotalExposure: z.number().positive().max(10).optional(),
+    maxOpenPositions: z.number().int().min(1).optional(),
+    maxDrawdown: z.number().positive().max(1).optional(),
+  }).optional(),
+});
+
+const dateQuerySchema = z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date').transform(val => new Date(val));
+
+const historyQuerySchema = z.object({
+  strategyId: z.string().uuid('Invalid strategy ID').optional(),
+  symbol: z.string().min(1).optional(),
+  from: dateQuerySchema.optional(),
+  to: dateQuerySchema.optional(),
+  minTotalReturn: z.coerce.number().optional(),
+  minSharpeRatio: z.coerce.number().optional(),
+  maxDrawdown: z.coerce.number().min(0).optional(),
+  minWinRate: z.coerce.number().min(0).max(100).optional(),
+  minTrades: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const compareBacktestsSchema = z.object({
+  backtestIds: z.array(z.string().uuid('Invalid backtest ID'))
+    .min(2, 'At least 2 backtest IDs required for comparison')
+    .max(20, 'At most 20 backtests can be compared'),
+});
+
+const candleFieldSchema = z.union([z.string().min(1), z.number().int().min(0)]);
+
+const importDatasetSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  symbol: z.string().min(1, 'Symbol is required'),
+  timeframe: z.string().min(1).optional(),
+  csv: z.string().min(1, 'CSV content is required'),
+  columns: z.object({
+    timestamp: candleFieldSchema.optional(),
+    open: candleFieldSchema.optional(),
+    high: candleFieldSchema.optional(),
+    low: candleFieldSchema.optional(),
+    close: candleFieldSchema.optional(),
+    volume: candleFieldSchema.optional(),
+  }).optional(),
+  delimiter: z.string().min(1).max(3).optional(),
+  hasHeader: z.boolean().optional(),
+  timestampUnit: z.enum(['s', 'ms', 'us', 'ns']).optional(),
+  timezone: z.string().min(1).optional(),
 });
 
 // ============================================================================
@@ -33,10 +175,117 @@ const runBacktestSchema = z.object({
 export function createBacktestRouter(
   backtestService: BacktestService,
   strategyService: StrategyService,
-  authService: AuthService
+  authService: AuthService,
+  datasetService: DatasetService
 ): Router {
   const router = Router();
   const requireAuth = createAuthMiddleware(authService);
+  const optimizationService = new OptimizationService({ backtestService });
+  const portfolioBacktestService = new PortfolioBacktestService({ backtestService });
+
+  /**
+   * Candles from an uploaded dataset, limited to the backtest range.
+   */
+  async function loadDataset(userId: string, datasetId: string, startDate: Date, endDate: Date): Promise<OHLCV[]> {
+    try {
+      return await datasetService.loadCandles(datasetId, userId, { start: startDate, end: endDate });
+    } catch (error: any) {
+      if (/dataset not found/i.test(error.message)) {
+        throw new NotFoundError('Dataset not found');
+      }
+      if (/dataset has no candles/i.test(error.message)) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Primary and venue candles for a single-symbol backtest: uploaded
+   * datasets when referenced, sample data otherwise.
+   */
+  async function loadBacktestData(userId: string, strategy: any, body: any) {
+    const startDate = new Date(body.startDate);
+    const endDate = new Date(body.endDate);
+
+    const data = body.datasetId
+      ? await loadDataset(userId, body.datasetId, startDate, endDate)
+      : generateSampleData(startDate, endDate);
+
+    let venues: Record<string, OHLCV[]> | undefined;
+    if (body.venueDatasetIds) {
+      venues = {};
+      for (const [exchange, datasetId] of Object.entries(body.venueDatasetIds as Record<string, string>)) {
+        venues[exchange] = await loadDataset(userId, datasetId, startDate, endDate);
+      }
+    } else if (strategy.type === 'arbitrage') {
+      venues = generateSampleVenues(data, (strategy.config as any).exchanges || []);
+    }
+
+    return { data, venues };
+  }
+
+  // ============================================================================
+  // POST /datasets - Import CSV Candles
+  // ============================================================================
+
+  router.post(
+    '/datasets',
+    requireAuth,
+    validate(importDatasetSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      try {
+        const dataset = await datasetService.importCsv(req.userId!, req.body);
+
+        res.status(201).json({
+          success: true,
+          data: dataset,
+        });
+      } catch (error: any) {
+        if (/csv|timezone/i.test(error.message)) {
+          throw new ValidationError(error.message);
+        }
+        throw error;
+      }
+    })
+  );
+
+  // ============================================================================
+  // GET /datasets - List Uploaded Datasets
+  // ============================================================================
+
+  router.get(
+    '/datasets',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const datasets = await datasetService.listDatasets(req.userId!);
+
+      res.json({
+        success: true,
+        data: datasets,
+      });
+    })
+  );
+
+  // ============================================================================
+  // DELETE /datasets/:datasetId - Delete Uploaded Dataset
+  // ============================================================================
+
+  router.delete(
+    '/datasets/:datasetId',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const deleted = await datasetService.deleteDataset(req.params.datasetId, req.userId!);
+      if (!deleted) {
+        throw new NotFoundError('Dataset not found');
+      }
+
+      res.json({
+        success: true,
+        message: 'Dataset deleted',
+      });
+    })
+  );
 
   // ============================================================================
   // POST / - Run Backtest
@@ -48,7 +297,9 @@ export function createBacktestRouter(
     validate(runBacktestSchema),
     asyncHandler(async (req: Request, res: Response) => {
       const userId = req.userId!;
-      const { strategyId, symbol, startDate, endDate, initialCapital, slippage, commission } = req.body;
+      const {
+        strategyId, symbol, startDate, endDate, initialCapital, slippage, commission, execution, sentiment, fundingRates,
+      } = req.body;
 
       // Verify strategy ownership
       const strategy = await strategyService.getStrategy(strategyId);
@@ -63,8 +314,8 @@ export function createBacktestRouter(
         return;
       }
 
-      // For now, generate sample data (in production, would fetch from exchange)
-      const sampleData = generateSampleData(new Date(startDate), new Date(endDate));
+      // Uploaded dataset when given, otherwise sample data
+      const { data, venues } = await loadBacktestData(userId, strategy, req.body);
 
       const config: BacktestConfig = {
         strategyId,
@@ -74,15 +325,179 @@ export function createBacktestRouter(
         initialCapital,
         slippage,
         commission,
-        data: sampleData,
+        execution,
+        sentiment,
+        fundingRates,
+        venues,
+        data,
       };
 
-      const result = await backtestService.runBacktest(config);
+      try {
+        const result = await backtestService.runBacktest(config);
 
-      res.status(201).json({
-        success: true,
-        data: result,
-      });
+        res.status(201).json({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (/unsupported strategy type|require|perpetual/i.test(error.message)) {
+          throw new ValidationError(error.message);
+        }
+        throw error;
+      }
+    })
+  );
+
+  // ============================================================================
+  // POST /optimize - Parameter Sweep with Walk-Forward Validation
+  // ============================================================================
+
+  router.post(
+    '/optimize',
+    requireAuth,
+    validate(optimizeBacktestSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const {
+        strategyId,
+        symbol,
+        startDate,
+        endDate,
+        initialCapital,
+        slippage,
+        commission,
+        execution,
+        sentiment,
+        parameters,
+        search,
+        samples,
+        seed,
+        objective,
+        walkForward,
+      } = req.body;
+
+      // Verify strategy ownership
+      const strategy = await strategyService.getStrategy(strategyId);
+      if (!strategy) {
+        throw new NotFoundError('Strategy not found');
+      }
+      if (strategy.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const { data, venues } = await loadBacktestData(userId, strategy, req.body);
+
+      try {
+        const result = await optimizationService.optimize({
+          strategyId,
+          symbol,
+          startDate: new Date(startDate),
+          endDate: new Date(endDate),
+          initialCapital,
+          slippage,
+          commission,
+          execution,
+          sentiment,
+          venues,
+          data,
+          parameters,
+          search,
+          samples,
+          seed,
+          objective,
+          walkForward,
+        });
+
+        res.json({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (/parameter|not enough data|in-sample ratio|tier limit|unsupported strategy type|require/i.test(error.message)) {
+          throw new ValidationError(error.message);
+        }
+        throw error;
+      }
+    })
+  );
+
+  // ============================================================================
+  // POST /portfolio - Multi-Symbol Portfolio Backtest
+  // ============================================================================
+
+  router.post(
+    '/portfolio',
+    requireAuth,
+    validate(portfolioBacktestSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const {
+        strategyIds,
+        symbols,
+        startDate,
+        endDate,
+        initialCapital,
+        slippage,
+        commission,
+        allocation,
+        riskLimits,
+        datasetIds,
+      } = req.body;
+
+      // Verify ownership of every strategy and collect the symbols they trade
+      const tradedSymbols = new Set<string>(symbols || []);
+      for (const strategyId of strategyIds as string[]) {
+        const strategy = await strategyService.getStrategy(strategyId);
+        if (!strategy) {
+          throw new NotFoundError('Strategy not found');
+        }
+        if (strategy.userId !== userId) {
+          res.status(403).json({
+            success: false,
+            error: 'Access denied',
+          });
+          return;
+        }
+        if (!symbols) {
+          ((strategy.config as any).symbols || []).forEach((symbol: string) => tradedSymbols.add(symbol));
+        }
+      }
+
+      const data: Record<string, any[]> = {};
+      for (const symbol of tradedSymbols) {
+        data[symbol] = datasetIds?.[symbol]
+          ? await loadDataset(userId, datasetIds[symbol], new Date(startDate), new Date(endDate))
+          : generateSampleData(new Date(startDate), new Date(endDate));
+      }
+
+      try {
+        const result = await portfolioBacktestService.runPortfolioBacktest({
+          strategyIds,
+          symbols,
+          startDate: new Date(startDate),
+          endDate: new Date(endDate),
+          initialCapital,
+          slippage,
+          commission,
+          allocation,
+          riskLimits,
+          data,
+        });
+
+        res.status(201).json({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (/no symbols|no data|weight|same user|tier limit/i.test(error.message)) {
+          throw new ValidationError(error.message);
+        }
+        throw error;
+      }
     })
   );
 
@@ -120,29 +535,97 @@ export function createBacktestRouter(
   );
 
   // ============================================================================
-  // POST /compare - Compare Multiple Backtests
+  // GET /:backtestId/export - Export Trades or Equity Curve as CSV
+  // ============================================================================
+
+  router.get(
+    '/:backtestId/export',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const type = req.query.type || 'trades';
+      if (type !== 'trades' && type !== 'equity') {
+        throw new ValidationError('Export type must be trades or equity');
+      }
+
+      const result = await backtestService.getBacktestResult(req.params.backtestId, userId);
+      if (!result) {
+        throw new NotFoundError('Backtest not found');
+      }
+
+      const csv = type === 'trades'
+        ? datasetService.exportTradesCsv(result)
+        : datasetService.exportEquityCurveCsv(result);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="backtest-${result.id}-${type}.csv"`);
+      res.send(csv);
+    })
+  );
+
+  // ============================================================================
+  // POST /compare - Compare Stored Backtests
   // ============================================================================
 
   router.post(
     '/compare',
     requireAuth,
+    validate(compareBacktestsSchema),
     asyncHandler(async (req: Request, res: Response) => {
-      const { backtestIds } = req.body;
+      try {
+        const comparison = await backtestService.compareStoredBacktests(req.userId!, req.body.backtestIds);
 
-      if (!Array.isArray(backtestIds) || backtestIds.length < 2) {
-        res.status(400).json({
-          success: false,
-          error: 'At least 2 backtest IDs required for comparison',
+        res.json({
+          success: true,
+          data: comparison,
         });
-        return;
+      } catch (error: any) {
+        if (/backtest not found/i.test(error.message)) {
+          throw new NotFoundError(error.message);
+        }
+        throw error;
+      }
+    })
+  );
+
+  // ============================================================================
+  // GET / - Query Stored Backtests
+  // ============================================================================
+
+  router.get(
+    '/',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const parsed = historyQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.issues.map(issue => issue.message).join(', '));
+      }
+
+      const page = await backtestService.queryBacktests(req.userId!, parsed.data);
+
+      res.json({
+        success: true,
+        data: page,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /:backtestId - Get Stored Backtest
+  // ============================================================================
+
+  router.get(
+    '/:backtestId',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await backtestService.getBacktestResult(req.params.backtestId, req.userId!);
+      if (!result) {
+        throw new NotFoundError('Backtest not found');
       }
 
-      // Get all backtest results (simplified - would need proper storage in production)
-      // For now, return empty comparison
       res.json({
         success: true,
-        data: [],
-        message: 'Comparison requires stored backtest results',
+        data: result,
       });
     })
   );
@@ -184,3 +667,26 @@ function generateSampleData(startDate: Date, endDate: Date): any[] {
 
   return data;
 }
+
+/**
+ * Sample candles for the other exchanges an arbitrage strategy watches,
+ * tracking the primary series with a small venue-specific deviation.
+ */
+function generateSampleVenues(data: any[], exchanges: string[]): Record<string, any[]> {
+  const venues: Record<string, any[]> = {};
+
+  for (const exchange of exchanges.slice(1)) {
+    venues[exchange] = data.map(bar => {
+      const deviation = 1 + (Math.random() - 0.5) * 0.02;
+      return {
+        ...bar,
+        open: bar.open * deviation,
+        high: bar.high * deviation,
+        low: bar.low * deviation,
+        close: bar.close * deviation,
+      };
+    });
+  }
+
+  return venues;
+}
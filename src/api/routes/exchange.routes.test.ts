@@ -477,6 +477,50 @@ describe('Exchange Routes', () => {
     });
   });
 
+  // ============================================================================
+  // Perpetual Futures Market Data
+  // ============================================================================
+
+  describe('GET /api/exchanges/connections/:id/{contracts,funding,mark-price}/:symbol', () => {
+    let connectionId: string;
+
+    beforeEach(async () => {
+      const connection = await exchangeService.createConnection({
+        userId,
+        exchange: 'bybit',
+        name: 'Perp Connection',
+        apiKey: 'key',
+        apiSecret: 'secret',
+      });
+      connectionId = connection.id;
+    });
+
+    it('should_get_contract_spec_funding_and_mark_price', async () => {
+      const auth = { Authorization: `Bearer ${accessToken}` };
+
+      const spec = await request(app).get(`/api/exchanges/connections/${connectionId}/contracts/BTC-USDT:USDT`).set(auth);
+      expect(spec.status).toBe(200);
+      expect(spec.body.data).toMatchObject({ symbol: 'BTC/USDT:USDT', type: 'perpetual', settle: 'USDT' });
+
+      const funding = await request(app).get(`/api/exchanges/connections/${connectionId}/funding/BTC-USDT:USDT?limit=5`).set(auth);
+      expect(funding.status).toBe(200);
+      expect(funding.body.data).toHaveLength(5);
+
+      const mark = await request(app).get(`/api/exchanges/connections/${connectionId}/mark-price/BTC-USDT:USDT`).set(auth);
+      expect(mark.status).toBe(200);
+      expect(mark.body.data).toMatchObject({ markPrice: 50000, indexPrice: 50000 });
+    });
+
+    it('should_reject_spot_symbols', async () => {
+      const response = await request(app)
+        .get(`/api/exchanges/connections/${connectionId}/mark-price/BTC-USDT`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid perpetual symbol BTC/USDT; expected BASE/QUOTE:SETTLE');
+    });
+  });
+
   // ============================================================================
   // GET /api/exchanges/connections/:id/balance - Get Balance
   // ============================================================================
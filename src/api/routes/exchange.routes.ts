@@ -418,6 +418,112 @@ export function createExchangeRouter(
     })
   );
 
+  // ============================================================================
+  // GET /connections/:id/contracts/:symbol - Get Perpetual Contract Spec
+  // ============================================================================
+
+  router.get(
+    '/connections/:id/contracts/:symbol',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { id, symbol } = req.params;
+
+      const connection = await exchangeService.getConnection(id);
+      if (!connection) {
+        throw new NotFoundError('Connection not found');
+      }
+
+      if (connection.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      // BTC-USDT:USDT -> BTC/USDT:USDT
+      const spec = await exchangeService.getContractSpec(id, symbol.replace('-', '/'));
+
+      res.json({
+        success: true,
+        data: spec,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /connections/:id/funding/:symbol - Get Funding Rate History
+  // ============================================================================
+
+  router.get(
+    '/connections/:id/funding/:symbol',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { id, symbol } = req.params;
+      const { limit = '100', since } = req.query;
+
+      const connection = await exchangeService.getConnection(id);
+      if (!connection) {
+        throw new NotFoundError('Connection not found');
+      }
+
+      if (connection.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const funding = await exchangeService.getFundingRateHistory(
+        id,
+        symbol.replace('-', '/'),
+        parseInt(limit as string, 10),
+        since !== undefined ? parseInt(since as string, 10) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: funding,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /connections/:id/mark-price/:symbol - Get Mark and Index Price
+  // ============================================================================
+
+  router.get(
+    '/connections/:id/mark-price/:symbol',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { id, symbol } = req.params;
+
+      const connection = await exchangeService.getConnection(id);
+      if (!connection) {
+        throw new NotFoundError('Connection not found');
+      }
+
+      if (connection.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const markPrice = await exchangeService.getMarkPrice(id, symbol.replace('-', '/'));
+
+      res.json({
+        success: true,
+        data: markPrice,
+      });
+    })
+  );
+
   // ============================================================================
   // GET /connections/:id/symbols - Get Available Symbols
   // ============================================================================
@@ -8,6 +8,8 @@ import express, { Express } from 'express';
 import request from 'supertest';
 import { createOrderRouter } from './order.routes';
 import { OrderService } from '../../execution/OrderService';
+import { SmartOrderRouter } from '../../execution/SmartOrderRouter';
+import type { ExchangeService } from '../../exchanges/ExchangeService';
 import { StrategyService } from '../../strategies/StrategyService';
 import { AuthService } from '../../users/AuthService';
 import { ConfigService } from '../../config/ConfigService';
@@ -153,6 +155,36 @@ describe('Order Routes', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should_create_good_till_date_order', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const order = {
+        strategyId,
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        type: 'limit',
+        quantity: 0.1,
+        price: 40000,
+        mode: 'paper',
+        timeInForce: 'GTD',
+      };
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ ...order, expiresAt });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ timeInForce: 'GTD', expiresAt });
+
+      const missingExpiry = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(order);
+
+      expect(missingExpiry.status).toBe(400);
+      expect(missingExpiry.body.error).toContain('Good-till-date orders require an expiry time');
+    });
   });
 
   // ============================================================================
@@ -408,6 +440,262 @@ describe('Order Routes', () => {
     });
   });
 
+  // ============================================================================
+  // POST /api/orders/oco and /bracket - Linked Orders
+  // ============================================================================
+
+  describe('Linked orders', () => {
+    it('should_create_oco_pair', async () => {
+      const response = await request(app)
+        .post('/api/orders/oco')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'sell',
+          quantity: 0.1,
+          mode: 'paper',
+          legs: [
+            { type: 'limit', price: 55000 },
+            { type: 'trailing_stop', trailingOffset: 2 },
+          ],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0].ocoGroupId).toBe(response.body.data[1].ocoGroupId);
+    });
+
+    it('should_create_bracket_and_fill_exits_on_evaluate', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          type: 'limit',
+          quantity: 0.1,
+          price: 50000,
+          mode: 'paper',
+          stopLoss: { stopPrice: 48000 },
+          takeProfit: { price: 55000 },
+        });
+
+      expect(response.status).toBe(201);
+      const { entry, stopLoss } = response.body.data;
+      expect(stopLoss.parentOrderId).toBe(entry.id);
+
+      await request(app)
+        .post('/api/orders/evaluate')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ symbol: 'BTC/USDT', currentPrice: 50000 });
+
+      const evaluated = await request(app)
+        .post('/api/orders/evaluate')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ symbol: 'BTC/USDT', currentPrice: 47000 });
+
+      expect(evaluated.body.data.map((o: any) => o.id)).toEqual([stopLoss.id]);
+
+      const linked = await request(app)
+        .get(`/api/orders/${entry.id}/linked`)
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(linked.body.data.map((o: any) => o.status).sort()).toEqual(['cancelled', 'filled']);
+    });
+
+    it('should_reject_inverted_bracket', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          type: 'market',
+          quantity: 0.1,
+          mode: 'paper',
+          stopLoss: { stopPrice: 56000 },
+          takeProfit: { price: 55000 },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Bracket stop loss must be below the take profit');
+    });
+  });
+
+  // ============================================================================
+  // POST /api/orders with route: best - Smart Order Routing
+  // ============================================================================
+
+  describe('Smart routing', () => {
+    let routedApp: Express;
+
+    beforeEach(() => {
+      const exchangeService = {
+        getUserConnections: async () => [
+          { id: 'conn-binance', exchange: 'binance', status: 'active' },
+          { id: 'conn-kraken', exchange: 'kraken', status: 'active' },
+        ],
+        getOrderBook: async (connectionId: string) => ({
+          symbol: 'BTC/USDT',
+          bids: [],
+          asks: connectionId === 'conn-kraken'
+            ? [{ price: 49900, quantity: 1 }]
+            : [{ price: 50000, quantity: 1 }],
+          timestamp: 1,
+        }),
+        getTradingFees: async () => ({ maker: 0.001, taker: 0.001 }),
+      };
+      const smartOrderRouter = new SmartOrderRouter({
+        exchangeService: exchangeService as unknown as ExchangeService,
+        orderService,
+      });
+
+      routedApp = express();
+      routedApp.use(express.json());
+      routedApp.use('/api/orders', createOrderRouter(orderService, strategyService, authService, smartOrderRouter));
+      routedApp.use(errorHandler);
+    });
+
+    it('should_route_to_best_venue_and_expose_the_route', async () => {
+      const response = await request(routedApp)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          type: 'market',
+          quantity: 0.5,
+          mode: 'paper',
+          route: 'best',
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.children).toHaveLength(1);
+      expect(response.body.data.children[0]).toMatchObject({ exchange: 'kraken', quantity: 0.5, expectedPrice: 49900 });
+
+      const routed = await request(routedApp)
+        .get(`/api/orders/routes/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(routed.status).toBe(200);
+      expect(routed.body.data.children[0].status).toBe('pending');
+
+      const routes = await request(routedApp)
+        .get('/api/orders/routes')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(routes.body.data.map((r: any) => r.id)).toEqual([response.body.data.id]);
+    });
+
+    it('should_reject_routing_without_enough_liquidity', async () => {
+      const response = await request(routedApp)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          type: 'market',
+          quantity: 1.5,
+          mode: 'paper',
+          route: 'best',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('enable split routing');
+    });
+
+    it('should_reject_route_when_router_is_not_configured', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          strategyId,
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          type: 'market',
+          quantity: 0.5,
+          mode: 'paper',
+          route: 'best',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Smart order routing is not enabled');
+    });
+  });
+
+  // ============================================================================
+  // Pre-Trade Risk
+  // ============================================================================
+
+  describe('Pre-trade risk', () => {
+    const limitOrder = () => ({
+      strategyId,
+      symbol: 'BTC/USDT',
+      side: 'buy',
+      type: 'limit',
+      quantity: 1,
+      price: 50000,
+      mode: 'paper',
+    });
+
+    it('should_dry_run_an_order_against_the_users_overrides', async () => {
+      const update = await request(app)
+        .put('/api/orders/risk-overrides')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ limits: { maxOrderNotional: 25000 } });
+      expect(update.status).toBe(200);
+
+      const response = await request(app)
+        .post('/api/orders/risk-check')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(limitOrder());
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        allowed: false,
+        dryRun: true,
+        rejectedBy: 'order_notional',
+        reason: 'Order notional 50000 exceeds maximum 25000',
+      });
+      expect(await orderService.getUserOrders(userId)).toHaveLength(0);
+    });
+
+    it('should_return_the_risk_decision_when_an_order_is_rejected', async () => {
+      orderService.getRiskGate().setUserOverrides(userId, { limits: { maxOrderNotional: 25000 } });
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(limitOrder());
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Order notional 50000 exceeds maximum 25000',
+        code: 'RISK_REJECTED',
+        riskCheck: { rejectedBy: 'order_notional' },
+      });
+    });
+
+    it('should_refuse_to_disable_mandatory_rules', async () => {
+      const response = await request(app)
+        .put('/api/orders/risk-overrides')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ disabledRules: ['daily_loss'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Risk rule daily_loss cannot be disabled');
+
+      const rules = await request(app)
+        .get('/api/orders/risk-overrides')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(rules.body.data.rules.find((r: any) => r.id === 'graph_risk')).toMatchObject({ optional: true });
+      expect(rules.body.data.overrides).toEqual({ disabledRules: [], limits: {} });
+    });
+  });
+
   // ============================================================================
   // GET /api/orders/positions/open - Get Open Positions
   // ============================================================================
@@ -5,10 +5,11 @@
 
 import { Router, Request, Response } from 'express';
 import { OrderService, OrderFilters } from '../../execution/OrderService';
+import type { SmartOrderRouter } from '../../execution/SmartOrderRouter';
 import { StrategyService } from '../../strategies/StrategyService';
 import { AuthService } from '../../users/AuthService';
 import { createAuthMiddleware } from '../middleware/auth.middleware';
-import { asyncHandler, NotFoundError } from '../middleware/error.middleware';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/error.middleware';
 import { validate } from '../middleware/validation.middleware';
 import { z } from 'zod';
 
@@ -16,22 +17,81 @@ import { z } from 'zod';
 // Validation Schemas
 // ============================================================================
 
-const createOrderSchema = z.object({
+const orderTypeSchema = z.enum(['market', 'limit', 'stop_loss', 'take_profit', 'trailing_stop'], { message: 'Invalid order type' });
+const trailingOffsetSchema = z.number().positive('Trailing offset must be positive');
+const trailingOffsetTypeSchema = z.enum(['percent', 'absolute'], { message: 'Trailing offset type must be percent or absolute' });
+const timeInForceSchema = z.enum(['GTC', 'IOC', 'FOK', 'GTD', 'DAY'], { message: 'Time in force must be GTC, IOC, FOK, GTD or DAY' });
+
+const orderBaseSchema = z.object({
   strategyId: z.string().uuid('Invalid strategy ID'),
   symbol: z.string().min(1, 'Symbol is required'),
   side: z.enum(['buy', 'sell'], { message: 'Side must be buy or sell' }),
-  type: z.enum(['market', 'limit', 'stop_loss', 'take_profit'], { message: 'Invalid order type' }),
   quantity: z.number().positive('Quantity must be positive'),
-  price: z.number().positive('Price must be positive').optional(),
-  stopPrice: z.number().positive('Stop price must be positive').optional(),
   mode: z.enum(['paper', 'live'], { message: 'Mode must be paper or live' }),
   exchangeId: z.string().optional(),
+  timeInForce: timeInForceSchema.optional(),
+  expiresAt: z.string().datetime({ message: 'Expiry must be an ISO 8601 timestamp' }).optional(),
+  postOnly: z.boolean().optional(),
+  reduceOnly: z.boolean().optional(),
+  contractSize: z.number().positive('Contract size must be positive').optional(),
+});
+
+const orderLegSchema = z.object({
+  type: orderTypeSchema,
+  price: z.number().positive('Price must be positive').optional(),
+  stopPrice: z.number().positive('Stop price must be positive').optional(),
+  trailingOffset: trailingOffsetSchema.optional(),
+  trailingOffsetType: trailingOffsetTypeSchema.optional(),
+});
+
+const createOrderSchema = orderBaseSchema.merge(orderLegSchema);
+
+// `route: 'best'` hands the order to the smart router instead of a single exchange
+const createRoutableOrderSchema = createOrderSchema.extend({
+  route: z.enum(['best'], { message: 'Route must be best' }).optional(),
+  split: z.boolean().optional(),
+});
+
+const createOcoOrderSchema = orderBaseSchema.extend({
+  legs: z.array(orderLegSchema).length(2, 'OCO orders require exactly two legs'),
+});
+
+const createBracketOrderSchema = createOrderSchema.extend({
+  type: z.enum(['market', 'limit'], { message: 'Bracket entries must be market or limit orders' }),
+  stopLoss: z.object({
+    stopPrice: z.number().positive('Stop price must be positive').optional(),
+    trailingOffset: trailingOffsetSchema.optional(),
+    trailingOffsetType: trailingOffsetTypeSchema.optional(),
+  }),
+  takeProfit: z.object({
+    price: z.number().positive('Take profit price must be positive'),
+  }),
 });
 
 const modifyOrderSchema = z.object({
   price: z.number().positive('Price must be positive').optional(),
   quantity: z.number().positive('Quantity must be positive').optional(),
   stopPrice: z.number().positive('Stop price must be positive').optional(),
+  trailingOffset: trailingOffsetSchema.optional(),
+});
+
+const evaluateOrdersSchema = z.object({
+  symbol: z.string().min(1, 'Symbol is required'),
+  currentPrice: z.number().positive('Current price must be positive'),
+});
+
+const riskOverridesSchema = z.object({
+  disabledRules: z.array(z.string()).optional(),
+  limits: z.object({
+    maxOpenOrders: z.number().int().min(0, 'Max open orders cannot be negative').optional(),
+    maxDailyLoss: z.number().min(0, 'Max daily loss cannot be negative').optional(),
+    maxPositionSize: z.number().positive('Max position size must be positive').optional(),
+    maxOrderNotional: z.number().positive('Max order notional must be positive').optional(),
+    maxStrategyNotional: z.number().positive('Max strategy notional must be positive').optional(),
+    maxLeverage: z.number().min(1, 'Max leverage must be at least 1').optional(),
+    graphRiskMode: z.enum(['off', 'warn', 'block'], { message: 'Graph risk mode must be off, warn or block' }).optional(),
+    graphRiskThreshold: z.number().min(0).max(100).optional(),
+  }).strict().optional(),
 });
 
 const executePaperOrderSchema = z.object({
@@ -39,6 +99,10 @@ const executePaperOrderSchema = z.object({
   slippage: z.number().min(0).max(10).optional(),
 });
 
+function parseExpiry(value?: string): Date | undefined {
+  return value === undefined ? undefined : new Date(value);
+}
+
 // ============================================================================
 // Router Factory
 // ============================================================================
@@ -46,11 +110,39 @@ const executePaperOrderSchema = z.object({
 export function createOrderRouter(
   orderService: OrderService,
   strategyService: StrategyService,
-  authService: AuthService
+  authService: AuthService,
+  smartOrderRouter?: SmartOrderRouter
 ): Router {
   const router = Router();
   const requireAuth = createAuthMiddleware(authService);
 
+  /**
+   * Strategy ownership check for OCO and bracket orders. Linked orders cannot
+   * go through the single-order approval flow, so manual live strategies are refused.
+   */
+  async function ensureLinkedOrdersAllowed(
+    userId: string,
+    strategyId: string,
+    mode: string,
+    res: Response
+  ): Promise<boolean> {
+    const strategy = await strategyService.getStrategy(strategyId);
+    if (!strategy) {
+      throw new NotFoundError('Strategy not found');
+    }
+    if (strategy.userId !== userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+      return false;
+    }
+    if (mode === 'live' && strategy.executionMode !== 'auto') {
+      throw new ValidationError('Linked orders require autonomous execution for live trading');
+    }
+    return true;
+  }
+
   // ============================================================================
   // POST / - Create Order
   // ============================================================================
@@ -58,10 +150,14 @@ export function createOrderRouter(
   router.post(
     '/',
     requireAuth,
-    validate(createOrderSchema),
+    validate(createRoutableOrderSchema),
     asyncHandler(async (req: Request, res: Response) => {
       const userId = req.userId!;
-      const { strategyId, symbol, side, type, quantity, price, stopPrice, mode, exchangeId } = req.body;
+      const {
+        strategyId, symbol, side, type, quantity, price, stopPrice, trailingOffset, trailingOffsetType, mode, exchangeId,
+        timeInForce, postOnly, reduceOnly, contractSize, route, split,
+      } = req.body;
+      const expiresAt = parseExpiry(req.body.expiresAt);
 
       // Verify strategy ownership
       const strategy = await strategyService.getStrategy(strategyId);
@@ -76,6 +172,45 @@ export function createOrderRouter(
         return;
       }
 
+      // Smart routing: the router picks the venue(s) and places one child order per venue
+      if (route === 'best') {
+        if (!smartOrderRouter) {
+          throw new ValidationError('Smart order routing is not enabled');
+        }
+        if (type !== 'market' && type !== 'limit') {
+          throw new ValidationError('Smart routing supports market and limit orders only');
+        }
+        if (exchangeId) {
+          throw new ValidationError('Routed orders choose their own exchange; omit exchangeId');
+        }
+        if (postOnly || reduceOnly || contractSize !== undefined) {
+          throw new ValidationError('Smart routing supports spot orders only');
+        }
+        if (mode === 'live' && strategy.executionMode !== 'auto') {
+          throw new ValidationError('Routed orders require autonomous execution for live trading');
+        }
+
+        const routed = await smartOrderRouter.routeOrder({
+          userId,
+          strategyId,
+          symbol,
+          side,
+          type,
+          quantity,
+          price,
+          timeInForce,
+          expiresAt,
+          mode,
+          split,
+        });
+
+        res.status(201).json({
+          success: true,
+          data: routed,
+        });
+        return;
+      }
+
       // Manual strategies: create approval request instead of immediate live order
       if (mode === 'live' && strategy.executionMode !== 'auto') {
         const approval = await orderService.createApprovalRequest({
@@ -87,6 +222,13 @@ export function createOrderRouter(
           quantity,
           price,
           stopPrice,
+          trailingOffset,
+          trailingOffsetType,
+          timeInForce,
+          expiresAt,
+          postOnly,
+          reduceOnly,
+          contractSize,
           mode,
           exchangeId,
         });
@@ -110,6 +252,13 @@ export function createOrderRouter(
         quantity,
         price,
         stopPrice,
+        trailingOffset,
+        trailingOffsetType,
+        timeInForce,
+        expiresAt,
+        postOnly,
+        reduceOnly,
+        contractSize,
         mode,
         exchangeId,
       });
@@ -121,6 +270,192 @@ export function createOrderRouter(
     })
   );
 
+  // ============================================================================
+  // POST /oco - Create One-Cancels-Other Pair
+  // ============================================================================
+
+  router.post(
+    '/oco',
+    requireAuth,
+    validate(createOcoOrderSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { strategyId, mode } = req.body;
+
+      if (!(await ensureLinkedOrdersAllowed(userId, strategyId, mode, res))) return;
+
+      const orders = await orderService.createOcoOrder({ ...req.body, expiresAt: parseExpiry(req.body.expiresAt), userId });
+
+      res.status(201).json({
+        success: true,
+        data: orders,
+      });
+    })
+  );
+
+  // ============================================================================
+  // POST /bracket - Create Bracket Order
+  // ============================================================================
+
+  router.post(
+    '/bracket',
+    requireAuth,
+    validate(createBracketOrderSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { strategyId, mode } = req.body;
+
+      if (!(await ensureLinkedOrdersAllowed(userId, strategyId, mode, res))) return;
+
+      const bracket = await orderService.createBracketOrder({ ...req.body, expiresAt: parseExpiry(req.body.expiresAt), userId });
+
+      res.status(201).json({
+        success: true,
+        data: bracket,
+      });
+    })
+  );
+
+  // ============================================================================
+  // POST /evaluate - Evaluate Paper Orders at a Price
+  // ============================================================================
+
+  router.post(
+    '/evaluate',
+    requireAuth,
+    validate(evaluateOrdersSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { symbol, currentPrice } = req.body;
+
+      const filled = await orderService.evaluateOrders(symbol, currentPrice, userId);
+
+      res.json({
+        success: true,
+        data: filled,
+      });
+    })
+  );
+
+  // ============================================================================
+  // POST /risk-check - Dry Run the Pre-Trade Risk Pipeline
+  // ============================================================================
+
+  router.post(
+    '/risk-check',
+    requireAuth,
+    validate(createOrderSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+
+      const strategy = await strategyService.getStrategy(req.body.strategyId);
+      if (!strategy) {
+        throw new NotFoundError('Strategy not found');
+      }
+      if (strategy.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const decision = await orderService.checkOrderRisk({ ...req.body, expiresAt: parseExpiry(req.body.expiresAt), userId });
+
+      res.json({
+        success: true,
+        data: decision,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /risk-overrides - Risk Rules and the User's Overrides
+  // ============================================================================
+
+  router.get(
+    '/risk-overrides',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const gate = orderService.getRiskGate();
+
+      res.json({
+        success: true,
+        data: {
+          rules: gate.getRules(),
+          overrides: gate.getUserOverrides(req.userId!),
+        },
+      });
+    })
+  );
+
+  // ============================================================================
+  // PUT /risk-overrides - Tighten Limits or Disable Optional Rules
+  // ============================================================================
+
+  router.put(
+    '/risk-overrides',
+    requireAuth,
+    validate(riskOverridesSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const overrides = orderService.getRiskGate().setUserOverrides(req.userId!, req.body);
+
+      res.json({
+        success: true,
+        data: overrides,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /routes - List Smart-Routed Orders
+  // ============================================================================
+
+  router.get(
+    '/routes',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const routes = smartOrderRouter ? await smartOrderRouter.getUserRoutes(userId) : [];
+
+      res.json({
+        success: true,
+        data: routes,
+      });
+    })
+  );
+
+  // ============================================================================
+  // GET /routes/:id - Get Routed Order with Per-Venue Fills
+  // ============================================================================
+
+  router.get(
+    '/routes/:id',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { id } = req.params;
+
+      const routed = await smartOrderRouter?.getRoute(id);
+      if (!routed) {
+        throw new NotFoundError('Routed order not found');
+      }
+
+      if (routed.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: routed,
+      });
+    })
+  );
+
   // ============================================================================
   // GET / - List User Orders
   // ============================================================================
@@ -264,7 +599,7 @@ export function createOrderRouter(
     asyncHandler(async (req: Request, res: Response) => {
       const userId = req.userId!;
       const { id } = req.params;
-      const { price, quantity, stopPrice } = req.body;
+      const { price, quantity, stopPrice, trailingOffset } = req.body;
 
       const order = await orderService.getOrder(id);
       if (!order) {
@@ -279,7 +614,7 @@ export function createOrderRouter(
         return;
       }
 
-      const modified = await orderService.modifyOrder(id, { price, quantity, stopPrice });
+      const modified = await orderService.modifyOrder(id, { price, quantity, stopPrice, trailingOffset });
 
       res.json({
         success: true,
@@ -288,6 +623,39 @@ export function createOrderRouter(
     })
   );
 
+  // ============================================================================
+  // GET /:id/linked - Get Bracket and OCO Linked Orders
+  // ============================================================================
+
+  router.get(
+    '/:id/linked',
+    requireAuth,
+    asyncHandler(async (req: Request, res: Response) => {
+      const userId = req.userId!;
+      const { id } = req.params;
+
+      const order = await orderService.getOrder(id);
+      if (!order) {
+        throw new NotFoundError('Order not found');
+      }
+
+      if (order.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const linked = await orderService.getLinkedOrders(id);
+
+      res.json({
+        success: true,
+        data: linked,
+      });
+    })
+  );
+
   // ============================================================================
   // DELETE /cancel-all/:symbol - Cancel All Orders for Symbol
   // ============================================================================
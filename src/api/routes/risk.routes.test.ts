@@ -0,0 +1,305 @@
+/**
+ * Risk Routes Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRiskRouter } from './risk.routes';
+import { PortfolioCorrelationService } from '../../risk/PortfolioCorrelationService';
+import { PortfolioVaRService } from '../../risk/PortfolioVaRService';
+import { APIServer } from '../server';
+import { BinanceAdapter } from '../../exchanges/adapters/BinanceAdapter';
+import type { Ticker } from '../../exchanges/ExchangeService';
+import type { CandleQuery } from '../../backtesting/CandleStoreService';
+import type { OHLCV } from '../../backtesting/BacktestService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Daily closes: BTC alternates between 100 and 80 (-20% / +25%), ETH never moves
+const alternatingCandles = {
+  getCandles: async (query: CandleQuery): Promise<OHLCV[]> => {
+    const candles: OHLCV[] = [];
+    for (let t = Math.ceil(Number(query.start) / DAY) * DAY; t <= Number(query.end); t += DAY) {
+      const close = query.symbol === 'BTC/USDT' ? (t / DAY) % 2 === 0 ? 100 : 80 : 2000;
+      candles.push({ timestamp: t, open: close, high: close, low: close, close, volume: 1 });
+    }
+    return candles;
+  },
+};
+
+describe('Risk Routes', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    const candleStore = { getCandles: async () => [] };
+    const correlationService = new PortfolioCorrelationService({ candleStore });
+    const varService = new PortfolioVaRService({ correlationService, candleStore });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/risk', createRiskRouter({ correlationService, varService }));
+  });
+
+  it('should_include_the_correlation_breakdown_in_metrics', async () => {
+    const res = await request(app).get('/api/risk/metrics');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.totalEquity).toBe(10000);
+    expect(res.body.data.correlation).toMatchObject({ clusters: [], bySector: [], netBeta: 0, breaches: [] });
+  });
+
+  it('should_analyze_the_open_positions_in_metrics', async () => {
+    const candleStore = { getCandles: async () => [] };
+    const withPositions = express().use('/api/risk', createRiskRouter({
+      correlationService: new PortfolioCorrelationService({ candleStore }),
+      openPositions: {
+        getOpenPositions: async () => [
+          { id: 'pos-1', symbol: 'BTC/USDT', direction: 'long' as const, size: 0.1, currentPrice: 50000 },
+          { id: 'pos-2', symbol: 'ETH/USDT', direction: 'short' as const, size: 1, currentPrice: 2000 },
+        ],
+      },
+    }));
+
+    const res = await request(withPositions).get('/api/risk/metrics');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.correlation.byBaseAsset).toEqual([
+      { key: 'BTC', symbols: ['BTC/USDT'], exposure: 5000, exposurePercent: 0.5 },
+      { key: 'ETH', symbols: ['ETH/USDT'], exposure: 2000, exposurePercent: 0.2 },
+    ]);
+    expect(res.body.data.correlation.breaches).toContainEqual(
+      expect.objectContaining({ limit: 'maxAssetConcentration', key: 'BTC', actual: 0.5 })
+    );
+  });
+
+  it('should_build_the_equity_curve_from_stored_snapshots', async () => {
+    const now = Date.now();
+    const points = [
+      { timestamp: new Date(now - 2 * 24 * 60 * 60 * 1000), equity: 10000 },
+      { timestamp: new Date(now), equity: 9000 },
+    ];
+    const withHistory = express().use(
+      '/api/risk',
+      createRiskRouter({ equityHistory: { getEquityHistory: async () => points } })
+    );
+
+    expect((await request(withHistory).get('/api/risk/equity')).body.data).toEqual([10000, 9000]);
+
+    const res = await request(withHistory).get('/api/risk/equity/history');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      points: [{ equity: 10000 }, { equity: 9000 }],
+      drawdown: { currentDrawdownPercent: 0.1 },
+      dailyPnl: -1000,
+    });
+  });
+
+  // BTC long worth 5000 and ETH short worth 2000 against 10000 equity
+  function portfolioApp(): Express {
+    const correlationService = new PortfolioCorrelationService({ candleStore: alternatingCandles });
+    const varService = new PortfolioVaRService({ correlationService, candleStore: alternatingCandles });
+
+    return express().use(express.json()).use('/api/risk', createRiskRouter({
+      // Its own user, so equity history loaded by other tests does not apply
+      auth: (req, _res, next) => {
+        req.userId = 'portfolio-user';
+        next();
+      },
+      correlationService,
+      varService,
+      openPositions: {
+        getOpenPositions: async () => [
+          { id: 'pos-1', symbol: 'BTC/USDT', direction: 'long' as const, size: 0.1, currentPrice: 50000 },
+          { id: 'pos-2', symbol: 'ETH/USDT', direction: 'short' as const, size: 1, currentPrice: 2000 },
+        ],
+      },
+    }));
+  }
+
+  describe('GET /api/risk/var', () => {
+    it('should_project_each_open_position_and_flag_limit_breaches', async () => {
+      const res = await request(portfolioApp()).get('/api/risk/var?method=historical');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data[0]).toMatchObject({
+        method: 'historical',
+        observations: 30,
+        var: 1000,
+        varPercent: 0.1,
+        positions: [
+          { positionId: 'pos-1', symbol: 'BTC/USDT', direction: 'long', notional: 5000, pnl: -1000 },
+          { positionId: 'pos-2', symbol: 'ETH/USDT', direction: 'short', notional: 2000, pnl: 0 },
+        ],
+        breaches: [{ limit: 'maxDailyLoss', actual: 0.1, max: 0.05 }],
+      });
+    });
+
+    it('should_return_every_method_by_default', async () => {
+      const res = await request(app).get('/api/risk/var?confidence=0.99');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((r: any) => [r.method, r.confidence])).toEqual([
+        ['historical', 0.99],
+        ['parametric', 0.99],
+        ['monte_carlo', 0.99],
+      ]);
+    });
+
+    it('should_validate_method_and_confidence', async () => {
+      expect((await request(app).get('/api/risk/var?method=historical,delta')).body.error).toBe(
+        'Unknown VaR method: delta. Use historical, parametric, monte_carlo'
+      );
+      expect((await request(app).get('/api/risk/var?confidence=95')).status).toBe(400);
+    });
+
+    it('should_return_503_without_a_var_engine', async () => {
+      const bare = express().use('/api/risk', createRiskRouter());
+
+      const res = await request(bare).get('/api/risk/var');
+
+      expect(res.status).toBe(503);
+      expect(res.body).toEqual({ success: false, error: 'VaR engine is not configured' });
+    });
+  });
+
+  describe('POST /api/risk/stress', () => {
+    it('should_list_and_run_built_in_scenarios', async () => {
+      const scenarios = await request(app).get('/api/risk/stress/scenarios');
+      expect(scenarios.body.data.map((s: any) => s.id)).toContain('btc_crash_30');
+
+      // ETH has no beta to BTC in this history, so only the BTC position moves
+      const res = await request(portfolioApp()).post('/api/risk/stress').send({ scenarioId: 'btc_crash_30' });
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({
+        scenario: { name: 'BTC -30% in 24h' },
+        pnl: -1500,
+        equityAfter: 8500,
+        positions: [
+          { positionId: 'pos-1', shock: -0.3, pnl: -1500 },
+          { positionId: 'pos-2', shock: 0, pnl: 0 },
+        ],
+        breaches: [{ limit: 'maxDailyLoss', actual: 0.15, max: 0.05 }],
+      });
+
+      expect((await request(app).post('/api/risk/stress').send({ scenarioId: 'nope' })).status).toBe(404);
+    });
+
+    it('should_run_user_defined_shocks', async () => {
+      const res = await request(app)
+        .post('/api/risk/stress')
+        .send({ name: 'SOL outage', shocks: { 'SOL/USDT': -0.25 } });
+      expect(res.status).toBe(200);
+      expect(res.body.data.scenario).toEqual({ id: 'custom', name: 'SOL outage' });
+
+      const invalid = await request(app).post('/api/risk/stress').send({ shocks: { SOL: -2 } });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('Shocks must be price moves of at least -1 (-100%)');
+    });
+  });
+});
+
+describe('Risk Routes mounted in APIServer', () => {
+  let server: APIServer;
+  let app: Express;
+  let token: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    // Exchanges have no candles to serve, keeping the benchmark download offline
+    vi.spyOn(global, 'fetch').mockResolvedValue(new Response('[]'));
+
+    server = new APIServer();
+    app = server.getApp() as Express;
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'risk@example.com', password: 'SecurePassword123!' });
+    token = res.body.data.accessToken;
+    userId = res.body.data.user.id;
+  });
+
+  // Fill a paper order so the user holds an open position
+  async function openPosition(symbol: string, side: 'buy' | 'sell', quantity: number, fillPrice: number) {
+    const strategy = await server.strategyService.createStrategy({
+      userId,
+      name: `${symbol} ${side}`,
+      type: 'momentum',
+      config: { symbols: [symbol] },
+    });
+    const order = await server.orderService.createOrder({
+      userId,
+      strategyId: strategy.id,
+      symbol,
+      side,
+      type: 'market',
+      quantity,
+      mode: 'paper',
+    });
+    await server.orderService.executePaperOrder(order.id, fillPrice, { slippage: 0 });
+  }
+
+  function markAt(prices: Record<string, number>) {
+    vi.spyOn(BinanceAdapter.prototype, 'getTicker').mockImplementation(
+      async (_ctx, symbol) => ({ symbol, last: prices[symbol] }) as Ticker
+    );
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should_require_authentication', async () => {
+    const res = await request(app).get('/api/risk/metrics');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should_include_the_correlation_breakdown_in_metrics', async () => {
+    const res = await request(app).get('/api/risk/metrics').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.correlation).toMatchObject({ clusters: [], bySector: [], netBeta: 0, breaches: [] });
+  });
+
+  it('should_analyze_open_positions_at_current_marks', async () => {
+    await openPosition('BTC/USDT', 'buy', 0.1, 50000);
+    markAt({ 'BTC/USDT': 40000 });
+
+    const res = await request(app).get('/api/risk/metrics').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.correlation.byBaseAsset).toEqual([
+      { key: 'BTC', symbols: ['BTC/USDT'], exposure: 4000, exposurePercent: 0.4 },
+    ]);
+    expect(res.body.data.correlation.breaches).toContainEqual(
+      expect.objectContaining({ limit: 'maxAssetConcentration', key: 'BTC', actual: 0.4, max: 0.3 })
+    );
+  });
+
+  it('should_run_value_at_risk_and_stress_tests_on_open_positions', async () => {
+    await openPosition('BTC/USDT', 'buy', 0.1, 50000);
+    markAt({ 'BTC/USDT': 40000 });
+
+    const varRes = await request(app).get('/api/risk/var?method=historical').set('Authorization', `Bearer ${token}`);
+    expect(varRes.status).toBe(200);
+    expect(varRes.body.data).toHaveLength(1);
+    expect(varRes.body.data[0]).toMatchObject({
+      method: 'historical',
+      positions: [{ symbol: 'BTC/USDT', direction: 'long', notional: 4000 }],
+      missingHistory: ['BTC/USDT'],
+    });
+
+    const stress = await request(app)
+      .post('/api/risk/stress')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ scenarioId: 'btc_crash_30' });
+    expect(stress.status).toBe(200);
+    expect(stress.body.data).toMatchObject({
+      scenario: { name: 'BTC -30% in 24h' },
+      pnl: -1200,
+      equityAfter: 8800,
+      positions: [{ symbol: 'BTC/USDT', shock: -0.3, pnl: -1200 }],
+      breaches: [{ limit: 'maxDailyLoss', actual: 0.12, max: 0.05 }],
+    });
+  });
+});
@@ -2,11 +2,35 @@
  * Risk Management API Routes
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, RequestHandler } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { RiskManager } from '../../risk/RiskManager';
+import type { EquityPoint } from '../../risk/RiskManager';
+import type { PortfolioCorrelationService } from '../../risk/PortfolioCorrelationService';
+import {
+  STRESS_SCENARIOS,
+  VAR_METHODS,
+  getStressScenario,
+  snapshotOf,
+} from '../../risk/PortfolioVaRService';
+import type {
+  PortfolioSnapshot,
+  PortfolioVaRService,
+  StressScenario,
+  VaRMethod,
+  VaRPosition,
+} from '../../risk/PortfolioVaRService';
 
-const router = Router();
+export interface RiskRouterOptions {
+  /** Authentication that sets req.userId (defaults to the development authMiddleware) */
+  auth?: RequestHandler | RequestHandler[];
+  correlationService?: PortfolioCorrelationService;
+  varService?: PortfolioVaRService;
+  /** Persisted mark-to-market equity (NeonMarkToMarketService) behind drawdown and daily PnL */
+  equityHistory?: { getEquityHistory(userId: string): Promise<EquityPoint[]> };
+  /** The user's open positions priced at current marks, behind correlation, VaR and stress results */
+  openPositions?: { getOpenPositions(userId: string): Promise<VaRPosition[]> };
+}
 
 // Per-user risk managers (in production, persist to database)
 const userManagers = new Map<string, RiskManager>();
@@ -18,185 +42,350 @@ function getManager(userId: string, initialEquity?: number): RiskManager {
   return userManagers.get(userId)!;
 }
 
-/**
- * GET /api/risk/metrics
- * Get risk metrics for user
- */
-router.get('/metrics', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    const metrics = manager.getMetrics();
-
-    res.json({ success: true, data: metrics });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+export function createRiskRouter(options: RiskRouterOptions = {}): Router {
+  const router = Router();
+  const { auth = authMiddleware, correlationService, varService, equityHistory, openPositions } = options;
 
-/**
- * GET /api/risk/limits
- * Get risk limits
- */
-router.get('/limits', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    res.json({ success: true, data: manager.getLimits() });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  // Refresh the manager's equity history from stored snapshots, when available
+  async function loadManager(userId: string): Promise<RiskManager> {
+    const manager = getManager(userId);
+    if (equityHistory) {
+      manager.loadEquityHistory(await equityHistory.getEquityHistory(userId));
+    }
+    return manager;
   }
-});
 
-/**
- * PUT /api/risk/limits
- * Update risk limits
- */
-router.put('/limits', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    manager.updateLimits(req.body);
-    res.json({ success: true, data: manager.getLimits() });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  // Open positions with the latest stored equity as the base, falling back to the manager's own
+  async function loadPortfolio(userId: string): Promise<PortfolioSnapshot> {
+    const manager = await loadManager(userId);
+    const snapshot = snapshotOf(manager);
+    if (!openPositions) return snapshot;
+
+    const history = manager.getEquityHistory();
+    const equity = history.length > 0 ? history[history.length - 1].equity : snapshot.equity;
+    return {
+      positions: await openPositions.getOpenPositions(userId),
+      equity,
+      peakEquity: history.length > 0 ? Math.max(...history.map(p => p.equity)) : snapshot.peakEquity,
+      limits: snapshot.limits,
+    };
   }
-});
 
-/**
- * POST /api/risk/check
- * Check if trade is allowed
- */
-router.post('/check', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const { symbol, direction, size, entryPrice, stopLoss, takeProfit } = req.body;
-
-    if (!symbol || !direction || !size || !entryPrice || !stopLoss || !takeProfit) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: symbol, direction, size, entryPrice, stopLoss, takeProfit',
-      });
+  /**
+   * GET /api/risk/metrics
+   * Get risk metrics for user
+   */
+  router.get('/metrics', auth, async (req: Request, res: Response) => {
+    try {
+      const manager = await loadManager(req.userId!);
+      const metrics = manager.getMetrics();
+
+      // Correlation clusters, concentration and net beta of the open positions
+      let correlation;
+      if (correlationService) {
+        const portfolio = await loadPortfolio(req.userId!);
+        correlation = await correlationService.analyze(portfolio.positions, portfolio.equity, portfolio.limits);
+      }
+
+      res.json({ success: true, data: { ...metrics, ...(correlation && { correlation }) } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
     }
+  });
 
-    const manager = getManager(req.user!.id);
-    const result = manager.checkTradeRisk(
-      symbol,
-      direction,
-      size,
-      entryPrice,
-      stopLoss,
-      takeProfit
-    );
-
-    res.json({ success: true, data: result });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+  /**
+   * GET /api/risk/limits
+   * Get risk limits
+   */
+  router.get('/limits', auth, (req: Request, res: Response) => {
+    try {
+      const manager = getManager(req.userId!);
+      res.json({ success: true, data: manager.getLimits() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
 
-/**
- * POST /api/risk/calculate/position
- * Calculate position size
- */
-router.post('/calculate/position', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const { method = 'fixed_percentage', riskPercentage = 0.02 } = req.body;
-    const manager = getManager(req.user!.id);
-    const result = manager.calculatePosition(method, riskPercentage);
-
-    res.json({ success: true, data: result });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+  /**
+   * PUT /api/risk/limits
+   * Update risk limits
+   */
+  router.put('/limits', auth, (req: Request, res: Response) => {
+    try {
+      const manager = getManager(req.userId!);
+      manager.updateLimits(req.body);
+      res.json({ success: true, data: manager.getLimits() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
 
-/**
- * POST /api/risk/calculate/stoploss
- * Calculate stop loss price
- */
-router.post('/calculate/stoploss', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const { entryPrice, direction, riskPercent = 0.02, atr } = req.body;
-
-    if (!entryPrice || !direction) {
-      return res.status(400).json({
-        success: false,
-        error: 'entryPrice and direction required',
-      });
+  /**
+   * POST /api/risk/check
+   * Check if trade is allowed
+   */
+  router.post('/check', auth, async (req: Request, res: Response) => {
+    try {
+      const { symbol, direction, size, entryPrice, stopLoss, takeProfit, leverage = 1 } = req.body;
+
+      if (!symbol || !direction || !size || !entryPrice || !stopLoss || !takeProfit) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: symbol, direction, size, entryPrice, stopLoss, takeProfit',
+        });
+      }
+
+      const manager = await loadManager(req.userId!);
+      const result = manager.checkTradeRisk(
+        symbol,
+        direction,
+        size,
+        entryPrice,
+        stopLoss,
+        takeProfit,
+        leverage
+      );
+
+      if (result.allowed && correlationService) {
+        const portfolio = await loadPortfolio(req.userId!);
+        const correlated = await correlationService.checkTradeRisk(
+          portfolio.positions,
+          { symbol, direction, size: result.adjustedSize ?? size, price: entryPrice },
+          portfolio.equity,
+          portfolio.limits
+        );
+
+        return res.json({
+          success: true,
+          data: {
+            ...result,
+            allowed: correlated.allowed,
+            reason: correlated.reason,
+            warnings: [...result.warnings, ...correlated.warnings],
+            correlation: correlated.report,
+          },
+        });
+      }
+
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
     }
+  });
 
-    const manager = getManager(req.user!.id);
-    const stopLoss = manager.calculateStopLoss(entryPrice, direction, riskPercent, atr);
+  /**
+   * POST /api/risk/calculate/position
+   * Calculate position size
+   */
+  router.post('/calculate/position', auth, (req: Request, res: Response) => {
+    try {
+      const { method = 'fixed_percentage', riskPercentage = 0.02 } = req.body;
+      const manager = getManager(req.userId!);
+      const result = manager.calculatePosition(method, riskPercentage);
 
-    res.json({ success: true, data: { stopLoss } });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
 
-/**
- * POST /api/risk/calculate/takeprofit
- * Calculate take profit price
- */
-router.post('/calculate/takeprofit', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const { entryPrice, stopLoss, direction, riskRewardRatio = 2 } = req.body;
-
-    if (!entryPrice || !stopLoss || !direction) {
-      return res.status(400).json({
-        success: false,
-        error: 'entryPrice, stopLoss, and direction required',
-      });
+  /**
+   * POST /api/risk/calculate/stoploss
+   * Calculate stop loss price
+   */
+  router.post('/calculate/stoploss', auth, (req: Request, res: Response) => {
+    try {
+      const { entryPrice, direction, riskPercent = 0.02, atr } = req.body;
+
+      if (!entryPrice || !direction) {
+        return res.status(400).json({
+          success: false,
+          error: 'entryPrice and direction required',
+        });
+      }
+
+      const manager = getManager(req.userId!);
+      const stopLoss = manager.calculateStopLoss(entryPrice, direction, riskPercent, atr);
+
+      res.json({ success: true, data: { stopLoss } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
     }
+  });
 
-    const manager = getManager(req.user!.id);
-    const takeProfit = manager.calculateTakeProfit(
-      entryPrice,
-      stopLoss,
-      direction,
-      riskRewardRatio
-    );
-
-    res.json({ success: true, data: { takeProfit } });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+  /**
+   * POST /api/risk/calculate/takeprofit
+   * Calculate take profit price
+   */
+  router.post('/calculate/takeprofit', auth, (req: Request, res: Response) => {
+    try {
+      const { entryPrice, stopLoss, direction, riskRewardRatio = 2 } = req.body;
 
-/**
- * GET /api/risk/positions
- * Get open positions
- */
-router.get('/positions', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    res.json({ success: true, data: manager.getPositions() });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+      if (!entryPrice || !stopLoss || !direction) {
+        return res.status(400).json({
+          success: false,
+          error: 'entryPrice, stopLoss, and direction required',
+        });
+      }
 
-/**
- * GET /api/risk/trades
- * Get trade history
- */
-router.get('/trades', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    res.json({ success: true, data: manager.getTrades() });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+      const manager = getManager(req.userId!);
+      const takeProfit = manager.calculateTakeProfit(
+        entryPrice,
+        stopLoss,
+        direction,
+        riskRewardRatio
+      );
 
-/**
- * GET /api/risk/equity
- * Get equity curve
- */
-router.get('/equity', authMiddleware, (req: Request, res: Response) => {
-  try {
-    const manager = getManager(req.user!.id);
-    res.json({ success: true, data: manager.getEquityCurve() });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+      res.json({ success: true, data: { takeProfit } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/risk/positions
+   * Get open positions
+   */
+  router.get('/positions', auth, (req: Request, res: Response) => {
+    try {
+      const manager = getManager(req.userId!);
+      res.json({ success: true, data: manager.getPositions() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/risk/trades
+   * Get trade history
+   */
+  router.get('/trades', auth, (req: Request, res: Response) => {
+    try {
+      const manager = getManager(req.userId!);
+      res.json({ success: true, data: manager.getTrades() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/risk/equity
+   * Get equity curve
+   */
+  router.get('/equity', auth, async (req: Request, res: Response) => {
+    try {
+      const manager = await loadManager(req.userId!);
+      res.json({ success: true, data: manager.getEquityCurve() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
 
-export default router;
+  /**
+   * GET /api/risk/equity/history
+   * Timestamped equity curve with drawdown and daily PnL
+   */
+  router.get('/equity/history', auth, async (req: Request, res: Response) => {
+    try {
+      const manager = await loadManager(req.userId!);
+      const { drawdown, dailyPnl, dailyPnlPercent } = manager.getMetrics();
+      res.json({ success: true, data: { points: manager.getEquityHistory(), drawdown, dailyPnl, dailyPnlPercent } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/risk/var
+   * Portfolio VaR of the open positions by historical simulation, parametric
+   * and Monte Carlo methods (?method=historical,parametric&confidence=0.99)
+   */
+  router.get('/var', auth, async (req: Request, res: Response) => {
+    try {
+      if (!varService) {
+        return res.status(503).json({ success: false, error: 'VaR engine is not configured' });
+      }
+
+      const methods = req.query.method
+        ? String(req.query.method).split(',') as VaRMethod[]
+        : VAR_METHODS;
+      const unknown = methods.find(m => !VAR_METHODS.includes(m));
+      if (unknown) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown VaR method: ${unknown}. Use ${VAR_METHODS.join(', ')}`,
+        });
+      }
+
+      const confidence = req.query.confidence ? Number(req.query.confidence) : 0.95;
+      if (!(confidence > 0 && confidence < 1)) {
+        return res.status(400).json({ success: false, error: 'confidence must be between 0 and 1' });
+      }
+
+      const portfolio = await loadPortfolio(req.userId!);
+      const results = [];
+      for (const method of methods) {
+        results.push(await varService.calculateVaR(portfolio, method, confidence));
+      }
+
+      res.json({ success: true, data: results });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/risk/stress/scenarios
+   * Built-in stress scenarios
+   */
+  router.get('/stress/scenarios', auth, (req: Request, res: Response) => {
+    res.json({ success: true, data: STRESS_SCENARIOS });
+  });
+
+  /**
+   * POST /api/risk/stress
+   * Project open positions through a built-in scenario ({ scenarioId }) or
+   * user-defined shocks ({ name, shocks: { 'SOL/USDT': -0.25 } })
+   */
+  router.post('/stress', auth, async (req: Request, res: Response) => {
+    try {
+      if (!varService) {
+        return res.status(503).json({ success: false, error: 'VaR engine is not configured' });
+      }
+
+      const { scenarioId, name, shocks, benchmarkShock, defaultShock } = req.body;
+      let scenario: StressScenario | undefined;
+
+      if (scenarioId) {
+        scenario = getStressScenario(scenarioId);
+        if (!scenario) {
+          return res.status(404).json({ success: false, error: `Unknown stress scenario: ${scenarioId}` });
+        }
+      } else {
+        if (!shocks || typeof shocks !== 'object' || Object.keys(shocks).length === 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'scenarioId or shocks required',
+          });
+        }
+
+        const moves = [...Object.values(shocks), benchmarkShock, defaultShock].filter(v => v !== undefined);
+        if (moves.some(v => typeof v !== 'number' || !(v >= -1))) {
+          return res.status(400).json({
+            success: false,
+            error: 'Shocks must be price moves of at least -1 (-100%)',
+          });
+        }
+
+        scenario = { id: 'custom', name: name || 'Custom shock', shocks, benchmarkShock, defaultShock };
+      }
+
+      const result = await varService.runScenario(await loadPortfolio(req.userId!), scenario);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -6,7 +6,10 @@
 
 import { Router, Request, Response } from 'express';
 import { TradingModeManager, TradingMode } from '../../trading/TradingModeManager';
-import { PaperTradingEngine } from '../../trading/PaperTradingEngine';
+import { PaperTradingEngine, getMaxMarginLeverage } from '../../trading/PaperTradingEngine';
+import { ExecutionAlgorithmService, paperVenue } from '../../execution/ExecutionAlgorithmService';
+import { CoinbaseAdapter } from '../../exchanges/adapters/CoinbaseAdapter';
+import { preTradeRiskGate } from '../../risk/PreTradeRiskGate';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -14,6 +17,10 @@ const router = Router();
 // Singleton instances (in production, inject via DI)
 const modeManager = new TradingModeManager();
 const paperEngines = new Map<string, PaperTradingEngine>();
+const paperAlgorithms = new ExecutionAlgorithmService();
+
+// Public candles for paper VWAP volume profiles
+const publicMarketData = new CoinbaseAdapter();
 
 /**
  * Get user's paper trading engine, creating if needed
@@ -22,7 +29,8 @@ function getPaperEngine(userId: string): PaperTradingEngine {
   let engine = paperEngines.get(userId);
   if (!engine) {
     engine = new PaperTradingEngine({
-      initialBalance: { USDT: 100000 } // Default 100k USDT for paper trading
+      initialBalance: { USDT: 100000 }, // Default 100k USDT for paper trading
+      risk: { gate: preTradeRiskGate, userId }
     });
     paperEngines.set(userId, engine);
   }
@@ -156,7 +164,9 @@ router.post('/paper/orders', authMiddleware, async (req: Request, res: Response)
       });
     }
 
-    const { symbol, side, type, quantity, price } = req.body;
+    const {
+      symbol, side, type, quantity, price, stopPrice, trailingOffset, trailingOffsetType, timeInForce, expiresAt
+    } = req.body;
 
     if (!symbol || !side || !type || !quantity) {
       return res.status(400).json({
@@ -177,10 +187,125 @@ router.post('/paper/orders', authMiddleware, async (req: Request, res: Response)
       side,
       type,
       quantity,
-      price
+      price,
+      stopPrice,
+      trailingOffset,
+      trailingOffsetType,
+      timeInForce,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: order
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      ...(error.decision && { riskCheck: error.decision })
+    });
+  }
+});
+
+/**
+ * POST /api/trading/paper/orders/oco
+ * Create a one-cancels-other pair of paper orders
+ */
+router.post('/paper/orders/oco', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (modeManager.getCurrentMode(userId) !== TradingMode.PAPER) {
+      return res.status(400).json({
+        success: false,
+        error: 'Must be in paper trading mode to create paper orders'
+      });
+    }
+
+    const { symbol, side, quantity, legs } = req.body;
+
+    if (!symbol || !side || !quantity || !Array.isArray(legs)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: symbol, side, quantity, legs'
+      });
+    }
+
+    const engine = getPaperEngine(userId);
+    const orders = await engine.createOcoOrder({ symbol, side, quantity, legs });
+
+    res.status(201).json({
+      success: true,
+      data: orders
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      ...(error.decision && { riskCheck: error.decision })
     });
+  }
+});
+
+/**
+ * POST /api/trading/paper/orders/bracket
+ * Create a paper entry order with linked stop loss and take profit
+ */
+router.post('/paper/orders/bracket', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (modeManager.getCurrentMode(userId) !== TradingMode.PAPER) {
+      return res.status(400).json({
+        success: false,
+        error: 'Must be in paper trading mode to create paper orders'
+      });
+    }
+
+    const { symbol, side, type, quantity, price, stopLoss, takeProfit } = req.body;
+
+    if (!symbol || !side || !type || !quantity || !stopLoss || !takeProfit) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: symbol, side, type, quantity, stopLoss, takeProfit'
+      });
+    }
+
+    const engine = getPaperEngine(userId);
+
+    // Same simplified pricing as single paper orders
+    engine.setMockPrice(symbol, price || 50000);
+
+    const bracket = await engine.createBracketOrder({ symbol, side, type, quantity, price, stopLoss, takeProfit });
 
     res.status(201).json({
+      success: true,
+      data: bracket
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      ...(error.decision && { riskCheck: error.decision })
+    });
+  }
+});
+
+/**
+ * PUT /api/trading/paper/orders/:orderId
+ * Modify a pending paper order
+ */
+router.put('/paper/orders/:orderId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { orderId } = req.params;
+    const { price, quantity, stopPrice, trailingOffset } = req.body;
+
+    const engine = getPaperEngine(userId);
+    const order = await engine.modifyOrder(orderId, { price, quantity, stopPrice, trailingOffset });
+
+    res.json({
       success: true,
       data: order
     });
@@ -299,16 +424,21 @@ router.get('/paper/portfolio', authMiddleware, async (req: Request, res: Respons
     const userId = req.user!.id;
     const engine = getPaperEngine(userId);
 
+    // Liquidates the account if interest or prices have eaten through its margin
+    engine.checkMargin();
+
     const balances = engine.getBalances();
     const positions = engine.getPositions();
     const totalValue = engine.getPortfolioValue();
+    const margin = engine.getMarginAccount();
 
     res.json({
       success: true,
       data: {
         totalValue,
         balances,
-        positions
+        positions,
+        margin
       }
     });
   } catch (error: any) {
@@ -319,18 +449,176 @@ router.get('/paper/portfolio', authMiddleware, async (req: Request, res: Respons
   }
 });
 
+// ============================================
+// Paper Execution Algorithms
+// ============================================
+
+/**
+ * POST /api/trading/paper/algos
+ * Work a paper order as TWAP, VWAP or iceberg slices
+ */
+router.post('/paper/algos', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (modeManager.getCurrentMode(userId) !== TradingMode.PAPER) {
+      return res.status(400).json({
+        success: false,
+        error: 'Must be in paper trading mode to create paper orders'
+      });
+    }
+
+    const { type, symbol, side, quantity, limitPrice, durationMs, slices, visibleQuantity } = req.body;
+
+    if (!type || !symbol || !side || !quantity) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: type, symbol, side, quantity'
+      });
+    }
+
+    if (!['twap', 'vwap', 'iceberg'].includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid algorithm. Must be "twap", "vwap" or "iceberg"'
+      });
+    }
+
+    const engine = getPaperEngine(userId);
+
+    // Same simplified pricing as single paper orders
+    engine.setMockPrice(symbol, limitPrice || 50000);
+
+    const venue = paperVenue(engine, (sym, timeframe, limit) =>
+      publicMarketData.getOHLCV({ connectionId: 'public', userId: 'anonymous', exchange: 'coinbase' }, sym, timeframe, limit)
+    );
+    const algorithm = await paperAlgorithms.submit(
+      { userId, mode: 'paper', type, symbol, side, quantity, limitPrice, durationMs, slices, visibleQuantity },
+      venue
+    );
+
+    res.status(201).json({
+      success: true,
+      data: algorithm
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/trading/paper/algos
+ * List paper execution algorithms
+ */
+router.get('/paper/algos', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const algorithms = await paperAlgorithms.getUserAlgorithms(req.user!.id);
+
+    res.json({
+      success: true,
+      data: algorithms
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/trading/paper/algos/:id
+ * Progress of a paper execution algorithm
+ */
+router.get('/paper/algos/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const progress = await paperAlgorithms.getProgress(req.user!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: progress
+    });
+  } catch (error: any) {
+    res.status(404).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/trading/paper/algos/:id/:action
+ * Pause, resume or cancel a paper execution algorithm
+ */
+router.post('/paper/algos/:id/:action', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id, action } = req.params;
+
+    let algorithm;
+    if (action === 'pause') {
+      algorithm = await paperAlgorithms.pause(userId, id);
+    } else if (action === 'resume') {
+      algorithm = await paperAlgorithms.resume(userId, id);
+    } else if (action === 'cancel') {
+      algorithm = await paperAlgorithms.cancel(userId, id);
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action. Must be "pause", "resume" or "cancel"'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: algorithm
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * POST /api/trading/paper/reset
- * Reset paper trading account
+ * Reset paper trading account, optionally as a margin account
  */
 router.post('/paper/reset', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
-    const { initialBalance } = req.body;
+    const { initialBalance, accountType = 'cash', leverage, maintenanceMarginRate } = req.body;
+
+    if (!['cash', 'margin'].includes(accountType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid account type. Must be "cash" or "margin"'
+      });
+    }
+
+    // Margin accounts default to, and may not exceed, the tier's leverage limit
+    const maxLeverage = getMaxMarginLeverage(req.user!.tier);
+    if (accountType === 'margin' && leverage !== undefined && leverage > maxLeverage) {
+      return res.status(403).json({
+        success: false,
+        error: `Leverage ${leverage}x exceeds the ${maxLeverage}x limit for your tier`
+      });
+    }
+
+    // Algorithms still working the old account would keep trading on it
+    await paperAlgorithms.cancelUserAlgorithms(userId);
 
     // Create new paper engine
     const engine = new PaperTradingEngine({
-      initialBalance: initialBalance || { USDT: 100000 }
+      initialBalance: initialBalance || { USDT: 100000 },
+      risk: { gate: preTradeRiskGate, userId },
+      ...(accountType === 'margin' && {
+        margin: { maxLeverage: leverage ?? maxLeverage, maintenanceMarginRate }
+      })
     });
     paperEngines.set(userId, engine);
 
@@ -338,11 +626,12 @@ router.post('/paper/reset', authMiddleware, async (req: Request, res: Response)
       success: true,
       message: 'Paper trading account reset',
       data: {
-        balances: engine.getBalances()
+        balances: engine.getBalances(),
+        margin: engine.getMarginAccount()
       }
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(400).json({
       success: false,
       error: error.message
     });
@@ -7,18 +7,27 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocketServer } from 'ws';
 import { NeonDatabase, initializeDatabase } from '../database/NeonDatabase';
-import { requireAuth, optionalAuth, getTierLimits } from './middleware/clerk.middleware';
+import { requireAuth, optionalAuth, getTierLimits, authenticateToken } from './middleware/clerk.middleware';
 import { ConfigService } from '../config/ConfigService';
 import { StrategyService } from '../strategies/StrategyService';
-import { BacktestService, BacktestConfig } from '../backtesting/BacktestService';
+import { RuleStrategyService, RuleStrategyDefinition } from '../strategies/RuleStrategyService';
+import { BacktestService, BacktestRequest } from '../backtesting/BacktestService';
+import { CandleStoreService, CandleQuery } from '../backtesting/CandleStoreService';
+import { DatasetService } from '../backtesting/DatasetService';
 import { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+import { MarketDataStreamService } from '../exchanges/MarketDataStreamService';
+import { CoinbaseMarketStream } from '../exchanges/adapters/CoinbaseMarketStream';
 import { NeonLiveTradingService } from '../execution/NeonLiveTradingService';
+import { NeonOrderReconciliationService } from '../execution/NeonOrderReconciliationService';
+import { ExecutionAlgorithmService, exchangeVenue } from '../execution/ExecutionAlgorithmService';
 import { NeonSwarmService } from '../swarm/NeonSwarmService';
 import { BinanceAdapter } from '../exchanges/adapters/BinanceAdapter';
 import { CoinbaseAdapter } from '../exchanges/adapters/CoinbaseAdapter';
 import { KrakenAdapter } from '../exchanges/adapters/KrakenAdapter';
+import { BybitAdapter } from '../exchanges/adapters/BybitAdapter';
+import { OKXAdapter } from '../exchanges/adapters/OKXAdapter';
 import tradingRoutes from './routes/trading.routes';
 import onboardingRoutes from './routes/onboarding.routes';
 import { rateLimit, getRateLimitStatus } from './middleware/ratelimit.middleware';
@@ -27,6 +36,7 @@ import monitoringRoutes from './routes/monitoring.routes';
 import exchangesRoutes from './routes/exchanges.routes';
 import userSettingsRoutes from './routes/user-settings.routes';
 import { createUsageRouter } from './routes/usage.routes';
+import { createRiskRouter } from './routes/risk.routes';
 import { UsageTrackingService } from '../usage/UsageTrackingService';
 import { NeonAIAdapterService, NeonAIProviderRepository } from '../ai/NeonAIAdapterService';
 import { createAdapter, SupportedProvider } from '../ai/adapters';
@@ -34,6 +44,15 @@ import { decryptApiKey, encryptApiKey, maskApiKey } from '../../app/lib/encrypti
 import { v4 as uuidv4 } from 'uuid';
 import { StrategyRiskService } from '../backtesting/StrategyRiskService';
 import { NeonMarkToMarketService } from '../risk/NeonMarkToMarketService';
+import { NeonPreTradeRiskService } from '../risk/NeonPreTradeRiskService';
+import { PortfolioCorrelationService } from '../risk/PortfolioCorrelationService';
+import { PortfolioVaRService } from '../risk/PortfolioVaRService';
+import { PreTradeRiskError, preTradeRiskGate } from '../risk/PreTradeRiskGate';
+import { KillSwitchService, createKillSwitchRule } from '../risk/KillSwitchService';
+import { NeonKillSwitchActions } from '../risk/NeonKillSwitchActions';
+import { NeonKillSwitchStore } from '../risk/NeonKillSwitchStore';
+import { NeonRiskOverrideStore } from '../risk/NeonRiskOverrideStore';
+import { TradingModeManager, TradingMode, UserExchanges } from '../trading/TradingModeManager';
 import { PatternIngestionService } from '../patterns/PatternIngestionService';
 import { RuVectorClient } from '../patterns/RuVectorClient';
 import { StrategyRecommendationService } from '../patterns/StrategyRecommendationService';
@@ -45,6 +64,15 @@ import { SwarmMemoryService } from '../swarm/SwarmMemoryService';
 
 const PORT = process.env.API_PORT || 3001;
 
+// Exchanges with a concrete adapter in the exchange adapter factory
+const SUPPORTED_EXCHANGES = [
+  { id: 'binance', name: 'Binance', features: ['spot', 'futures', 'margin'], requiresPassphrase: false },
+  { id: 'coinbase', name: 'Coinbase', features: ['spot'], requiresPassphrase: false },
+  { id: 'kraken', name: 'Kraken', features: ['spot', 'futures'], requiresPassphrase: false },
+  { id: 'bybit', name: 'Bybit', features: ['spot', 'derivatives'], requiresPassphrase: false },
+  { id: 'okx', name: 'OKX', features: ['spot', 'futures', 'options'], requiresPassphrase: true },
+];
+
 /**
  * Generate synthetic OHLCV data for backtesting when real historical
  * market data is not yet wired in on the Neon path. This mirrors the
@@ -90,12 +118,21 @@ export class NeuralTradingServer {
   private aiAdapterService!: NeonAIAdapterService;
   private configService!: ConfigService;
   private exchangeAdapterService!: NeonExchangeAdapterService;
+  private marketDataStream!: MarketDataStreamService;
+  private coinbaseMarketStream = new CoinbaseMarketStream();
   private strategyService!: StrategyService;
   private backtestService!: BacktestService;
+  private candleStoreService!: CandleStoreService;
+  private datasetService!: DatasetService;
   private liveTradingService!: NeonLiveTradingService;
+  private orderReconciliationService!: NeonOrderReconciliationService;
+  private executionAlgorithmService = new ExecutionAlgorithmService();
   private swarmService!: NeonSwarmService;
   private markToMarketService!: NeonMarkToMarketService;
+  private killSwitch!: KillSwitchService;
+  private preTradeRiskService!: NeonPreTradeRiskService;
   private strategyRiskService!: StrategyRiskService;
+  private ruleStrategyService = new RuleStrategyService();
   private patternClient: RuVectorClient | null = null;
   private patternIngestionService: import('../patterns/PatternIngestionService').PatternIngestionService | null =
     null;
@@ -105,6 +142,7 @@ export class NeuralTradingServer {
   private strategyGenerationService: StrategyGenerationService | null = null;
   private aiRoutingService!: AIRoutingService;
   private swarmMemoryService!: SwarmMemoryService;
+  private tradingModes = new TradingModeManager();
 
   constructor() {
     this.app = express();
@@ -121,6 +159,8 @@ export class NeuralTradingServer {
       origin: ['http://localhost:3000'],
       credentials: true,
     }));
+    // CSV dataset uploads carry whole files, so they get a larger body limit
+    this.app.use('/api/backtests/datasets', express.json({ limit: '50mb' }));
     this.app.use(express.json());
 
     // Simple structured request logging with latency and optional user context.
@@ -532,13 +572,7 @@ export class NeuralTradingServer {
 
     // Get supported exchanges
     this.app.get('/api/exchanges/supported', (req, res) => {
-      res.json([
-        { id: 'binance', name: 'Binance', features: ['spot', 'futures', 'margin'] },
-        { id: 'coinbase', name: 'Coinbase', features: ['spot'] },
-        { id: 'kraken', name: 'Kraken', features: ['spot', 'futures'] },
-        { id: 'bybit', name: 'Bybit', features: ['derivatives'] },
-        { id: 'okx', name: 'OKX', features: ['spot', 'futures', 'options'] },
-      ]);
+      res.json(SUPPORTED_EXCHANGES);
     });
 
     // Connect exchange (placeholder - will add real integration)
@@ -546,6 +580,18 @@ export class NeuralTradingServer {
       try {
         const { exchange, name, apiKey, apiSecret, passphrase } = req.body;
 
+        if (!exchange || !apiKey || !apiSecret) {
+          return res.status(400).json({ error: 'Missing required fields' });
+        }
+
+        const exchangeInfo = SUPPORTED_EXCHANGES.find((e) => e.id === exchange);
+        if (!exchangeInfo) {
+          return res.status(400).json({ error: 'Unsupported exchange' });
+        }
+        if (exchangeInfo.requiresPassphrase && !passphrase) {
+          return res.status(400).json({ error: `${exchangeInfo.name} requires an API passphrase` });
+        }
+
         // Check tier limits
         const limits = getTierLimits(req.auth!.user.tier);
         const existing = await this.db.exchangeConnections.findByUserId(req.auth!.userId);
@@ -1101,6 +1147,14 @@ export class NeuralTradingServer {
       try {
         const { name, description, type, config } = req.body;
 
+        if (type === 'custom') {
+          try {
+            this.ruleStrategyService.validate(config?.rules);
+          } catch (validationError: any) {
+            return res.status(400).json({ error: validationError.message });
+          }
+        }
+
         // Check tier limits
         const limits = getTierLimits(req.auth!.user.tier);
         const count = await this.db.strategies.countByUserId(req.auth!.userId);
@@ -1165,6 +1219,14 @@ export class NeuralTradingServer {
           return res.status(404).json({ error: 'Strategy not found' });
         }
 
+        if (strategy.type === 'custom' && req.body.config !== undefined) {
+          try {
+            this.ruleStrategyService.validate(req.body.config?.rules);
+          } catch (validationError: any) {
+            return res.status(400).json({ error: validationError.message });
+          }
+        }
+
         const payload: any = {
           name: req.body.name,
           description: req.body.description,
@@ -1220,25 +1282,18 @@ export class NeuralTradingServer {
         const userId = req.auth!.userId;
         const { id } = req.params;
 
-        const strategy = await this.db.strategies.findById(id);
-        if (!strategy || strategy.user_id !== userId) {
+        const strategy = await this.db.queryOne<any>(
+          'SELECT id FROM strategies WHERE id = $1 AND user_id = $2',
+          [id, userId]
+        );
+        if (!strategy) {
           return res.status(404).json({ error: 'Strategy not found' });
         }
 
-        if (!this.db.backtests || typeof this.db.backtests.findByStrategyId !== 'function') {
-          return res.json({
-            success: true,
-            data: {
-              eligible: false,
-              reason: 'Backtest service unavailable; eligibility unknown',
-            },
-          });
-        }
-
-        const rows = await this.db.backtests.findByStrategyId(id);
-        const completed = rows.filter((row: any) => row.status === 'completed');
+        // Latest completed run from persisted history (merged with this process's runs)
+        const latest = await this.backtestService.getLatestCompletedBacktest(id);
 
-        if (completed.length === 0) {
+        if (!latest) {
           return res.json({
             success: true,
             data: {
@@ -1248,7 +1303,6 @@ export class NeuralTradingServer {
           });
         }
 
-        const latest = completed[completed.length - 1];
         const metrics = (latest.metrics || {}) as any;
         const totalReturn = metrics.totalReturn;
         const maxDrawdown = metrics.maxDrawdown;
@@ -1274,7 +1328,7 @@ export class NeuralTradingServer {
             reason,
             latestBacktest: {
               id: latest.id,
-              completedAt: latest.completed_at || latest.end_date || latest.created_at,
+              completedAt: latest.createdAt,
               metrics: {
                 totalReturn,
                 maxDrawdown,
@@ -1292,6 +1346,8 @@ export class NeuralTradingServer {
      * GET /api/strategies/:id/risk
      * Returns a structured risk summary for a strategy based on its latest
      * completed backtest in Neon, including VaR and other risk metrics.
+     * Pass ?monteCarlo=true (optionally &method=bootstrap&iterations=N) to
+     * include trade-resampling robustness analysis.
      */
     this.app.get('/api/strategies/:id/risk', requireAuth, async (req, res) => {
       try {
@@ -1305,7 +1361,15 @@ export class NeuralTradingServer {
         const userId = req.auth!.userId;
         const { id } = req.params;
 
-        const summary = await this.strategyRiskService.getStrategyRisk(userId, id);
+        // ?monteCarlo=true gates on resampled drawdowns instead of the single historical path
+        const monteCarlo = req.query.monteCarlo === 'true'
+          ? {
+              method: req.query.method === 'bootstrap' ? 'bootstrap' as const : 'shuffle' as const,
+              iterations: req.query.iterations ? Number(req.query.iterations) : undefined,
+            }
+          : undefined;
+
+        const summary = await this.strategyRiskService.getStrategyRisk(userId, id, { monteCarlo });
 
         if (!summary) {
           return res.status(404).json({ success: false, error: 'Strategy not found' });
@@ -1321,6 +1385,59 @@ export class NeuralTradingServer {
       }
     });
 
+    /**
+     * POST /api/strategies/:id/evaluate
+     * Evaluates a custom strategy's rules on the latest candle. Candles come
+     * from the body or are fetched through the given exchange connection.
+     * Pass the open position ({ side, entryPrice }) to check exits and stops.
+     */
+    this.app.post('/api/strategies/:id/evaluate', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const strategy = await this.db.strategies.findById(req.params.id);
+
+        if (!strategy || strategy.user_id !== userId) {
+          return res.status(404).json({ error: 'Strategy not found' });
+        }
+        if (strategy.type !== 'custom' || !strategy.config?.rules) {
+          return res.status(400).json({ error: 'Only custom strategies with rules can be evaluated' });
+        }
+
+        const { connectionId, symbol, timeframe, limit, candles, position } = req.body;
+        let data = candles;
+
+        if (!Array.isArray(data)) {
+          if (!connectionId) {
+            return res.status(400).json({ error: 'Provide candles or an exchange connectionId' });
+          }
+          const targetSymbol = symbol || strategy.config.symbols?.[0];
+          if (!targetSymbol) {
+            return res.status(400).json({ error: 'symbol is required' });
+          }
+          data = await this.exchangeAdapterService.getOHLCV(
+            connectionId,
+            userId,
+            targetSymbol,
+            timeframe || strategy.config.timeframe || '1h',
+            Math.min(Number(limit) || 200, 1000)
+          );
+        }
+
+        const evaluation = this.ruleStrategyService.evaluate(strategy.config.rules as RuleStrategyDefinition, data, position || null);
+
+        res.json({
+          success: true,
+          data: evaluation,
+        });
+      } catch (error: any) {
+        if (/invalid custom strategy rules|at least two candles|connection not found/i.test(error?.message || '')) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Evaluate strategy error:', error);
+        res.status(500).json({ error: 'Failed to evaluate strategy' });
+      }
+    });
+
     // ============================================
     // ORDER ROUTES
     // ============================================
@@ -1345,8 +1462,6 @@ export class NeuralTradingServer {
     // TRADING MODE ROUTES (Neon/Clerk)
     // ============================================
 
-    const tradingModes = new Map<string, { mode: 'paper' | 'live'; modeStartedAt: Date }>();
-
     this.app.get('/api/trading/mode', requireAuth, async (req, res) => {
       try {
         const userId = req.auth!.userId;
@@ -1354,20 +1469,18 @@ export class NeuralTradingServer {
         const limits = getTierLimits(tier);
         const killSwitchEnabled = process.env.LIVE_TRADING_DISABLED === 'true';
 
-        const state = tradingModes.get(userId) || {
-          mode: 'paper' as const,
-          modeStartedAt: new Date(),
-        };
-
         const exchanges = await this.db.exchangeConnections.findByUserId(userId);
         const hasExchange = exchanges.length > 0;
 
-        const canSwitchToLive = !!(limits.liveTrading && hasExchange && !killSwitchEnabled);
+        const accountKillSwitch = this.killSwitch?.getState(userId);
+        const halted = accountKillSwitch?.status === 'tripped';
+
+        const canSwitchToLive = !!(limits.liveTrading && hasExchange && !killSwitchEnabled && !halted);
 
         res.json({
           success: true,
           data: {
-            mode: state.mode,
+            mode: this.tradingModes.getCurrentMode(userId),
             canSwitchToLive,
             requirements: {
               hasExchange,
@@ -1375,6 +1488,9 @@ export class NeuralTradingServer {
               // treat it as satisfied on the Neon path.
               hasAcceptedDisclaimer: true,
             },
+            ...(halted && {
+              halt: { reason: accountKillSwitch.reason, haltedAt: accountKillSwitch.trippedAt },
+            }),
           },
         });
       } catch (error) {
@@ -1414,6 +1530,13 @@ export class NeuralTradingServer {
             });
           }
 
+          if (this.killSwitch?.isTripped(userId)) {
+            return res.status(403).json({
+              success: false,
+              error: `Live trading is halted: ${this.killSwitch.getState(userId).reason}`,
+            });
+          }
+
           if (!limits.liveTrading || !hasExchange) {
             return res.status(400).json({
               success: false,
@@ -1436,9 +1559,13 @@ export class NeuralTradingServer {
           }
         }
 
-        tradingModes.set(userId, {
-          mode,
-          modeStartedAt: new Date(),
+        if (mode === 'live') {
+          this.tradingModes.setExchanges(userId, this.modeExchanges(userId, exchanges[0].id));
+        }
+        await this.tradingModes.switchMode(userId, mode as TradingMode, {
+          confirmed: true,
+          password: password ?? '',
+          acknowledgement: acknowledgement ?? '',
         });
 
         res.json({
@@ -1518,6 +1645,241 @@ export class NeuralTradingServer {
       }
     });
 
+    /**
+     * POST /api/orders/reconcile
+     * Reconcile the current user's live orders against their connected
+     * exchanges now, instead of waiting for the background job.
+     */
+    this.app.post('/api/orders/reconcile', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const report = await this.orderReconciliationService.reconcileUser(userId);
+
+        res.json({
+          success: true,
+          data: report,
+        });
+      } catch (error: any) {
+        console.error('Reconcile orders error:', error);
+        res.status(500).json({ error: error.message || 'Failed to reconcile orders' });
+      }
+    });
+
+    /**
+     * GET /api/orders/reconciliation
+     * Latest reconciliation report for the current user plus audited runs
+     * that recorded fills, closed orders or flagged mismatches.
+     */
+    this.app.get('/api/orders/reconciliation', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const limit = Math.min(parseInt((req.query.limit as string) || '20', 10) || 20, 100);
+        const history = await this.orderReconciliationService.getHistory(userId, limit);
+
+        res.json({
+          success: true,
+          data: {
+            lastReport: this.orderReconciliationService.getLastReport(userId) ?? null,
+            history,
+          },
+        });
+      } catch (error: any) {
+        console.error('Get reconciliation error:', error);
+        res.status(500).json({ error: error.message || 'Failed to load reconciliation history' });
+      }
+    });
+
+    /**
+     * POST /api/execution/algos
+     * Work a live order as TWAP, VWAP or iceberg child orders on one
+     * exchange connection. Each child passes the pre-trade risk checks and is
+     * recorded as a live order first so reconciliation picks up its fills.
+     */
+    this.app.post('/api/execution/algos', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const {
+          type,
+          symbol,
+          side,
+          quantity,
+          limitPrice,
+          durationMs,
+          slices,
+          visibleQuantity,
+          strategyId,
+          exchangeConnectionId,
+        } = req.body;
+
+        if (!type || !symbol || !side || !quantity || !exchangeConnectionId) {
+          return res.status(400).json({
+            error: 'type, symbol, side, quantity, and exchangeConnectionId are required',
+          });
+        }
+
+        if (!['twap', 'vwap', 'iceberg'].includes(type)) {
+          return res.status(400).json({ error: 'type must be "twap", "vwap" or "iceberg"' });
+        }
+
+        if (process.env.LIVE_TRADING_DISABLED === 'true') {
+          return res.status(503).json({
+            error: 'Live trading is temporarily disabled',
+          });
+        }
+
+        if (!getTierLimits(req.auth!.user.tier).liveTrading) {
+          return res.status(403).json({
+            error: 'Live trading is not enabled for your current tier',
+          });
+        }
+
+        // The parent order is checked up front and every child slice again before it is sent
+        const riskCheck = await this.preTradeRiskService.evaluate(
+          { userId, source: 'neon_api', mode: 'live', symbol, side, type, quantity, price: limitPrice, strategyId },
+          req.auth!.user.tier,
+        );
+        if (!riskCheck.allowed) {
+          return res.status(400).json({ error: riskCheck.reason, riskCheck });
+        }
+
+        const { adapter, ctx } = await this.exchangeAdapterService.getOrderAdapter(exchangeConnectionId, userId);
+        const venue = exchangeVenue(adapter, ctx, {
+          checkOrder: async (child) => {
+            const childCheck = await this.preTradeRiskService.evaluate(
+              {
+                userId,
+                source: 'neon_api',
+                mode: 'live',
+                symbol: child.symbol,
+                side: child.side,
+                type: child.type,
+                quantity: child.quantity,
+                price: child.price,
+                strategyId,
+              },
+              req.auth!.user.tier,
+            );
+            if (!childCheck.allowed) {
+              throw new PreTradeRiskError(childCheck);
+            }
+          },
+          clientOrderId: async (child) => {
+            const order = await this.db.orders.create({
+              userId,
+              strategyId,
+              exchangeConnectionId,
+              symbol: child.symbol,
+              side: child.side,
+              type: child.type,
+              quantity: child.quantity,
+              price: child.price,
+              mode: 'live',
+            });
+            return order?.id;
+          },
+          onPlaced: async (orderId, exchangeOrderId) => {
+            if (orderId) {
+              await this.db.orders.update(orderId, { exchangeOrderId } as any);
+            }
+          },
+        });
+
+        const algorithm = await this.executionAlgorithmService.submit(
+          { userId, mode: 'live', type, symbol, side, quantity, limitPrice, durationMs, slices, visibleQuantity },
+          venue,
+        );
+
+        await this.db.auditLog.log({
+          userId,
+          action: 'execution_algo.create',
+          resourceType: 'execution_algorithm',
+          resourceId: algorithm.id,
+          details: { type, symbol, side, quantity, exchangeConnectionId },
+        });
+
+        res.status(201).json({
+          success: true,
+          data: algorithm,
+        });
+      } catch (error: any) {
+        console.error('Create execution algorithm error:', error);
+        res.status(400).json({ error: error.message || 'Failed to start execution algorithm' });
+      }
+    });
+
+    /**
+     * GET /api/execution/algos
+     * Live execution algorithms for the current user
+     */
+    this.app.get('/api/execution/algos', requireAuth, async (req, res) => {
+      try {
+        const algorithms = await this.executionAlgorithmService.getUserAlgorithms(req.auth!.userId);
+
+        res.json({
+          success: true,
+          data: algorithms,
+        });
+      } catch (error: any) {
+        console.error('List execution algorithms error:', error);
+        res.status(500).json({ error: error.message || 'Failed to list execution algorithms' });
+      }
+    });
+
+    /**
+     * GET /api/execution/algos/:id
+     * Progress of a live execution algorithm
+     */
+    this.app.get('/api/execution/algos/:id', requireAuth, async (req, res) => {
+      try {
+        const progress = await this.executionAlgorithmService.getProgress(req.auth!.userId, req.params.id);
+
+        res.json({
+          success: true,
+          data: progress,
+        });
+      } catch (error: any) {
+        res.status(404).json({ error: error.message || 'Execution algorithm not found' });
+      }
+    });
+
+    /**
+     * POST /api/execution/algos/:id/:action
+     * Pause, resume or cancel a live execution algorithm
+     */
+    this.app.post('/api/execution/algos/:id/:action', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const { id, action } = req.params;
+
+        let algorithm;
+        if (action === 'pause') {
+          algorithm = await this.executionAlgorithmService.pause(userId, id);
+        } else if (action === 'resume') {
+          algorithm = await this.executionAlgorithmService.resume(userId, id);
+        } else if (action === 'cancel') {
+          algorithm = await this.executionAlgorithmService.cancel(userId, id);
+        } else {
+          return res.status(400).json({ error: 'action must be "pause", "resume" or "cancel"' });
+        }
+
+        await this.db.auditLog.log({
+          userId,
+          action: `execution_algo.${action}`,
+          resourceType: 'execution_algorithm',
+          resourceId: id,
+          details: { status: algorithm.status, filledQuantity: algorithm.filledQuantity },
+        });
+
+        res.json({
+          success: true,
+          data: algorithm,
+        });
+      } catch (error: any) {
+        console.error('Update execution algorithm error:', error);
+        res.status(400).json({ error: error.message || 'Failed to update execution algorithm' });
+      }
+    });
+
     /**
      * GET /api/risk/status
      * Lightweight risk snapshot for the current user on Neon.
@@ -1732,6 +2094,9 @@ export class NeuralTradingServer {
             updatedPositions: result.updatedPositions,
             totalUnrealizedPnl: result.totalUnrealizedPnl,
             lastMarkedAt: result.lastMarkedAt,
+            positionValue: result.positionValue,
+            equity: result.equity,
+            killSwitch: result.killSwitch,
           },
         });
       } catch (error: any) {
@@ -1747,6 +2112,176 @@ export class NeuralTradingServer {
       }
     });
 
+    /**
+     * GET /api/risk/kill-switch
+     * Current kill switch state for the user: limits, high-water mark and,
+     * once tripped, the trigger and the actions taken.
+     */
+    this.app.get('/api/risk/kill-switch', requireAuth, async (req, res) => {
+      if (!this.killSwitch) {
+        return res.status(503).json({ success: false, error: 'Kill switch not initialized' });
+      }
+
+      res.json({ success: true, data: this.killSwitch.getState(req.auth!.userId) });
+    });
+
+    /**
+     * PUT /api/risk/kill-switch/settings
+     * Body: { maxDrawdown?, maxDailyLoss?, flattenPositions? }
+     */
+    this.app.put('/api/risk/kill-switch/settings', requireAuth, async (req, res) => {
+      try {
+        if (!this.killSwitch) {
+          return res.status(503).json({ success: false, error: 'Kill switch not initialized' });
+        }
+
+        const { maxDrawdown, maxDailyLoss, flattenPositions } = req.body || {};
+        if (flattenPositions !== undefined && typeof flattenPositions !== 'boolean') {
+          return res.status(400).json({ success: false, error: 'flattenPositions must be a boolean' });
+        }
+
+        const state = await this.killSwitch.configure(req.auth!.userId, { maxDrawdown, maxDailyLoss, flattenPositions });
+        res.json({ success: true, data: state });
+      } catch (error: any) {
+        res.status(400).json({ success: false, error: error.message || 'Failed to update kill switch' });
+      }
+    });
+
+    /**
+     * POST /api/risk/kill-switch/trip
+     * Halt the account manually. Body: { reason? }
+     */
+    this.app.post('/api/risk/kill-switch/trip', requireAuth, async (req, res) => {
+      try {
+        if (!this.killSwitch) {
+          return res.status(503).json({ success: false, error: 'Kill switch not initialized' });
+        }
+
+        const userId = req.auth!.userId;
+        if (this.killSwitch.isTripped(userId)) {
+          return res.status(409).json({ success: false, error: 'Kill switch is already tripped' });
+        }
+
+        const reason = typeof req.body?.reason === 'string' && req.body.reason.trim()
+          ? req.body.reason.trim()
+          : 'Tripped manually';
+        const state = await this.killSwitch.trip(userId, 'manual', reason);
+        res.json({ success: true, data: state });
+      } catch (error: any) {
+        console.error('Kill switch trip error:', error);
+        res.status(500).json({ success: false, error: error.message || 'Failed to trip kill switch' });
+      }
+    });
+
+    /**
+     * POST /api/risk/kill-switch/rearm
+     * Lift a tripped kill switch. Body: { reason, acknowledgement }. The
+     * account stays in paper mode until the user switches back to live.
+     */
+    this.app.post('/api/risk/kill-switch/rearm', requireAuth, async (req, res) => {
+      try {
+        if (!this.killSwitch) {
+          return res.status(503).json({ success: false, error: 'Kill switch not initialized' });
+        }
+
+        const userId = req.auth!.userId;
+        const { reason, acknowledgement } = req.body || {};
+        const state = await this.killSwitch.rearm(userId, { by: userId, reason, acknowledgement });
+        res.json({ success: true, data: state });
+      } catch (error: any) {
+        res.status(400).json({ success: false, error: error.message || 'Failed to re-arm kill switch' });
+      }
+    });
+
+    /**
+     * POST /api/risk/pre-trade
+     * Dry run an order through the pre-trade risk pipeline. Returns every
+     * rule's outcome and the effective limits without placing anything.
+     */
+    this.app.post('/api/risk/pre-trade', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const { strategyId, symbol, side, type = 'market', quantity, price, stopPrice, mode = 'live', leverage } = req.body;
+
+        if (!symbol || !side || !quantity) {
+          return res.status(400).json({ success: false, error: 'symbol, side and quantity are required' });
+        }
+        if (!['paper', 'live'].includes(mode)) {
+          return res.status(400).json({ success: false, error: 'mode must be "paper" or "live"' });
+        }
+
+        if (strategyId) {
+          const strategy = await this.db.strategies.findById(strategyId);
+          if (!strategy || strategy.user_id !== userId) {
+            return res.status(404).json({ success: false, error: 'Strategy not found' });
+          }
+        }
+
+        const decision = await this.preTradeRiskService.evaluate(
+          {
+            userId,
+            source: 'neon_api',
+            mode,
+            symbol,
+            side,
+            type,
+            quantity: Number(quantity),
+            price: price ?? stopPrice,
+            strategyId,
+            leverage,
+          },
+          req.auth!.user.tier,
+          { dryRun: true },
+        );
+
+        res.json({ success: true, data: decision });
+      } catch (error: any) {
+        console.error('Pre-trade risk check error:', error);
+        res.status(500).json({ success: false, error: 'Failed to run pre-trade risk check' });
+      }
+    });
+
+    /**
+     * GET /api/risk/pre-trade/overrides
+     * Pre-trade risk rules in pipeline order and the user's overrides
+     */
+    this.app.get('/api/risk/pre-trade/overrides', requireAuth, async (req, res) => {
+      const gate = this.preTradeRiskService.getGate();
+      res.json({
+        success: true,
+        data: {
+          rules: gate.getRules(),
+          overrides: gate.getUserOverrides(req.auth!.userId),
+        },
+      });
+    });
+
+    /**
+     * PUT /api/risk/pre-trade/overrides
+     * Replace the user's overrides: tighter limits and disabled optional rules
+     */
+    this.app.put('/api/risk/pre-trade/overrides', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const overrides = await this.preTradeRiskService.getGate().saveUserOverrides(userId, {
+          disabledRules: req.body.disabledRules,
+          limits: req.body.limits,
+        });
+
+        await this.db.auditLog.log({
+          userId,
+          action: 'risk.overrides.update',
+          resourceType: 'risk_overrides',
+          resourceId: userId,
+          details: { disabledRules: overrides.disabledRules, limits: overrides.limits },
+        });
+
+        res.json({ success: true, data: overrides });
+      } catch (error: any) {
+        res.status(400).json({ success: false, error: error.message || 'Invalid risk overrides' });
+      }
+    });
+
     // ============================================
     // SWARM PREVIEW ROUTE (Phase 8)
     // ============================================
@@ -1761,7 +2296,7 @@ export class NeuralTradingServer {
       try {
         const userId = req.auth!.userId;
         const mode: 'paper' | 'live' = 'paper';
-        const decisions = await this.swarmService.preview(userId, mode);
+        const decisions = await this.swarmService.preview(userId, mode, req.auth!.user.tier);
 
         res.json({
           success: true,
@@ -1856,33 +2391,28 @@ export class NeuralTradingServer {
             return res.status(400).json({ error: 'Strategy must be active for live trading' });
           }
 
-          // Check there is at least one completed, acceptable backtest
-          if (this.db.backtests && typeof this.db.backtests.findByStrategyId === 'function') {
-            const rows = await this.db.backtests.findByStrategyId(strategyId);
-            const completed = rows.filter((row: any) => row.status === 'completed');
+          // Check the latest completed backtest is acceptable
+          const latest = await this.backtestService.getLatestCompletedBacktest(strategyId);
+          if (!latest) {
+            return res.status(400).json({
+              error: 'Live trading requires at least one completed backtest',
+            });
+          }
 
-            if (completed.length === 0) {
-              return res.status(400).json({
-                error: 'Live trading requires at least one completed backtest',
-              });
-            }
+          const metrics = (latest.metrics || {}) as any;
+          const totalReturn = metrics.totalReturn;
+          const maxDrawdown = metrics.maxDrawdown;
 
-            const latest = completed[completed.length - 1];
-            const metrics = (latest.metrics || {}) as any;
-            const totalReturn = metrics.totalReturn;
-            const maxDrawdown = metrics.maxDrawdown;
-
-            if (
-              typeof totalReturn !== 'number' ||
-              typeof maxDrawdown !== 'number' ||
-              totalReturn < 0 ||
-              maxDrawdown > 30
-            ) {
-              return res.status(400).json({
-                error:
-                  'Latest backtest does not meet live trading criteria (non-negative return, max 30% drawdown)',
-              });
-            }
+          if (
+            typeof totalReturn !== 'number' ||
+            typeof maxDrawdown !== 'number' ||
+            totalReturn < 0 ||
+            maxDrawdown > 30
+          ) {
+            return res.status(400).json({
+              error:
+                'Latest backtest does not meet live trading criteria (non-negative return, max 30% drawdown)',
+            });
           }
 
           // Ensure user has at least one exchange connection
@@ -1892,129 +2422,28 @@ export class NeuralTradingServer {
               error: 'Exchange connection required for live trading',
             });
           }
+        }
 
-          // Enforce simple per-tier cap on open live orders using Neon orders
-          const limits = getTierLimits(userTier);
-          if (typeof limits.maxOpenLiveOrders === 'number' && limits.maxOpenLiveOrders >= 0) {
-            const openLiveOrders = await this.db.orders.findByUserId(userId, {
-              status: 'pending',
-              mode: 'live',
-            });
-            if (openLiveOrders.length >= limits.maxOpenLiveOrders) {
-              return res.status(400).json({
-                error: `Live order limit reached for your tier (max ${limits.maxOpenLiveOrders} open live orders)`,
-              });
-            }
-          }
-
-          // Enforce daily loss limit based on realized PnL from trades table.
-          if (typeof limits.maxDailyLoss === 'number' && limits.maxDailyLoss >= 0) {
-            const allTrades = await this.db.trades.findByUserId(userId, { mode: 'live' });
-            const today = new Date();
-            const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-
-            let dailyLoss = 0;
-            for (const trade of allTrades) {
-              const executedAt = new Date(trade.executed_at || trade.created_at);
-              if (executedAt >= startOfDay) {
-                const pnl = typeof trade.pnl === 'number' ? trade.pnl : 0;
-                if (pnl < 0) {
-                  dailyLoss += Math.abs(pnl);
-                }
-              }
-            }
-
-            if (dailyLoss >= limits.maxDailyLoss) {
-              return res.status(400).json({
-                error: `Daily loss limit reached for your tier (max ${limits.maxDailyLoss} in realized losses)`,
-              });
-            }
-          }
-
-          // Enforce per-strategy notional exposure limit if configured.
-          const strategyLimits: any = limits as any;
-          if (typeof strategyLimits.maxStrategyNotional === 'number') {
-            const maxNotional = strategyLimits.maxStrategyNotional as number;
-            if (Number.isFinite(maxNotional) && maxNotional > 0) {
-              const basePrice = typeof price === 'number' ? price : stopPrice;
-              if (typeof basePrice !== 'number') {
-                return res.status(400).json({
-                  error: 'Price is required to evaluate notional exposure for live orders',
-                });
-              }
-
-              const newNotional = quantity * basePrice;
-
-              const existingPositions = await this.db.positions.findOpen(userId);
-              const strategyPositions = existingPositions.filter(
-                (p: any) => p.mode === 'live' && p.strategy_id === strategyId,
-              );
-
-              let currentNotional = 0;
-              for (const pos of strategyPositions) {
-                const posPrice = pos.current_price || pos.entry_price;
-                currentNotional += Math.abs(pos.quantity * posPrice);
-              }
-
-              const existingOrders = await this.db.orders.findByUserId(userId, {
-                status: 'pending',
-                mode: 'live',
-              });
-              const strategyOrders = existingOrders.filter(
-                (o: any) => o.strategy_id === strategyId,
-              );
-
-              for (const o of strategyOrders) {
-                const oPrice = o.price ?? o.stop_price;
-                if (typeof oPrice === 'number') {
-                  currentNotional += Math.abs(o.quantity * oPrice);
-                }
-              }
-
-              if (currentNotional + newNotional > maxNotional) {
-                return res.status(400).json({
-                  error: `Strategy exposure limit reached for your tier (max ${maxNotional} notional per strategy)`,
-                });
-              }
-            }
-          }
-
-          // Optional RuVector/graph-based risk gating when enabled in user settings.
-          try {
-            const settings = await this.db.userSettings.findByUserId(userId);
-            const graphRiskMode =
-              (settings && (settings as any).graph_risk_mode) ||
-              (settings && (settings as any).graphRiskMode) ||
-              'warn';
-
-            if (graphRiskMode && graphRiskMode !== 'off' && this.riskGraphService) {
-              const graphSummary = await this.riskGraphService.getGraphRisk(userId);
-              const threshold = 70;
-
-              if (graphSummary.score >= threshold) {
-                if (graphRiskMode === 'block') {
-                  return res.status(403).json({
-                    error:
-                      'Graph-based risk is too high to place this live order right now. Reduce exposure or diversify before trying again.',
-                    graphRisk: {
-                      score: graphSummary.score,
-                      factors: graphSummary.factors,
-                    },
-                  });
-                }
-
-                if (graphRiskMode === 'warn') {
-                  // Attach a non-blocking warning in the response meta when we create the order below.
-                  (req as any).graphRiskWarning = {
-                    score: graphSummary.score,
-                    factors: graphSummary.factors,
-                  };
-                }
-              }
-            }
-          } catch (graphError) {
-            console.error('Graph risk gating error (non-blocking):', graphError);
-          }
+        // Pre-trade risk pipeline: tier limits, strategy exposure, graph risk and user overrides
+        const riskCheck = await this.preTradeRiskService.evaluate(
+          {
+            userId,
+            source: 'neon_api',
+            mode,
+            symbol,
+            side,
+            type,
+            quantity,
+            price: price ?? stopPrice,
+            strategyId,
+          },
+          userTier,
+        );
+        if (!riskCheck.allowed) {
+          return res.status(riskCheck.rejectedBy === 'graph_risk' ? 403 : 400).json({
+            error: riskCheck.reason,
+            riskCheck,
+          });
         }
 
         const executionMode = (strategy.execution_mode as string) || 'manual';
@@ -2059,8 +2488,8 @@ export class NeuralTradingServer {
         });
 
         const meta: any = {};
-        if ((req as any).graphRiskWarning) {
-          meta.graphRiskWarning = (req as any).graphRiskWarning;
+        if (riskCheck.warnings.length > 0) {
+          meta.riskWarnings = riskCheck.warnings;
         }
 
         return res.status(201).json({
@@ -2130,6 +2559,26 @@ export class NeuralTradingServer {
           return res.status(400).json({ error: 'Approval is not pending' });
         }
 
+        // Re-run the pre-trade risk pipeline; limits may have been reached since the request
+        const referencePrice = approval.price ?? approval.stop_price;
+        const riskCheck = await this.preTradeRiskService.evaluate(
+          {
+            userId,
+            source: 'neon_api',
+            mode: approval.mode as 'paper' | 'live',
+            symbol: approval.symbol,
+            side: approval.side as 'buy' | 'sell',
+            type: approval.type,
+            quantity: Number(approval.quantity),
+            price: referencePrice !== null && referencePrice !== undefined ? Number(referencePrice) : undefined,
+            strategyId: approval.strategy_id,
+          },
+          req.auth!.user.tier,
+        );
+        if (!riskCheck.allowed) {
+          return res.status(400).json({ error: riskCheck.reason, riskCheck });
+        }
+
         // Create a live order from the approval payload
         const order = await this.db.orders.create({
           userId,
@@ -2311,9 +2760,12 @@ export class NeuralTradingServer {
      * POST /api/backtests
      * Run a backtest for a strategy using exchange-style OHLCV data.
      *
-     * When a real exchange connection is available, this uses the
-     * adapter-backed market data pipeline (via ExchangeService semantics)
-     * to construct candles. Otherwise it falls back to a deterministic
+     * When a datasetId is given, candles come from an uploaded CSV dataset.
+     * When a timeframe is given, historical candles come from the candle
+     * store (downloaded from the exchange and cached on first use).
+     * Otherwise, when a real exchange connection is available, this uses
+     * the adapter-backed market data pipeline (via ExchangeService
+     * semantics) to construct candles, falling back to a deterministic
      * simulated feed.
      */
     this.app.post('/api/backtests', requireAuth, async (req, res) => {
@@ -2327,6 +2779,13 @@ export class NeuralTradingServer {
           initialCapital,
           slippage,
           commission,
+          execution,
+          venues,
+          sentiment,
+          timeframe,
+          exchange,
+          datasetId,
+          venueDatasetIds,
         } = req.body;
 
         if (!strategyId || !symbol || !startDate || !endDate || initialCapital === undefined) {
@@ -2353,48 +2812,61 @@ export class NeuralTradingServer {
         const hours = Math.max(1, Math.floor(durationMs / (60 * 60 * 1000)));
         const limit = Math.min(2000, hours);
 
+        // With a timeframe, BacktestService loads candles from the candle store
         let data;
-        try {
-          // Attempt to use a real exchange connection if we have one
-          const connections = await this.db.exchangeConnections.findByUserId(userId);
-          if (connections && connections.length > 0) {
-            const conn = connections[0];
-            const ticker = await this.exchangeAdapterService.getTicker(conn.id, userId, symbol);
-
-            const candles: any[] = [];
-            const hourMs = 60 * 60 * 1000;
-            let currentTime = start.getTime();
-            let price = ticker.last;
-
-            for (let i = 0; i < limit && currentTime < end.getTime(); i++) {
-              const change = (Math.random() - 0.5) * 0.02;
-              price = price * (1 + change);
-
-              const high = price * (1 + Math.random() * 0.01);
-              const low = price * (1 - Math.random() * 0.01);
-              const open = price * (1 + (Math.random() - 0.5) * 0.005);
-
-              candles.push({
-                timestamp: currentTime,
-                open,
-                high,
-                low,
-                close: price,
-                volume: Math.random() * 1000 + 100,
-              });
-
-              currentTime += hourMs;
-            }
+        if (datasetId) {
+          data = await this.datasetService.loadCandles(datasetId, userId, { start, end });
+        } else if (!timeframe) {
+          try {
+            // Attempt to use a real exchange connection if we have one
+            const connections = await this.db.exchangeConnections.findByUserId(userId);
+            if (connections && connections.length > 0) {
+              const conn = connections[0];
+              const ticker = await this.exchangeAdapterService.getTicker(conn.id, userId, symbol);
+
+              const candles: any[] = [];
+              const hourMs = 60 * 60 * 1000;
+              let currentTime = start.getTime();
+              let price = ticker.last;
+
+              for (let i = 0; i < limit && currentTime < end.getTime(); i++) {
+                const change = (Math.random() - 0.5) * 0.02;
+                price = price * (1 + change);
+
+                const high = price * (1 + Math.random() * 0.01);
+                const low = price * (1 - Math.random() * 0.01);
+                const open = price * (1 + (Math.random() - 0.5) * 0.005);
+
+                candles.push({
+                  timestamp: currentTime,
+                  open,
+                  high,
+                  low,
+                  close: price,
+                  volume: Math.random() * 1000 + 100,
+                });
+
+                currentTime += hourMs;
+              }
 
-            data = candles;
-          } else {
+              data = candles;
+            } else {
+              data = generateSampleBacktestData(start, end);
+            }
+          } catch {
             data = generateSampleBacktestData(start, end);
           }
-        } catch {
-          data = generateSampleBacktestData(start, end);
         }
 
-        const config: BacktestConfig = {
+        let venueData = venues;
+        if (venueDatasetIds && typeof venueDatasetIds === 'object') {
+          venueData = {};
+          for (const [venue, venueDatasetId] of Object.entries(venueDatasetIds as Record<string, string>)) {
+            venueData[venue] = await this.datasetService.loadCandles(venueDatasetId, userId, { start, end });
+          }
+        }
+
+        const config: BacktestRequest = {
           strategyId,
           symbol,
           startDate: start,
@@ -2402,6 +2874,11 @@ export class NeuralTradingServer {
           initialCapital,
           slippage,
           commission,
+          execution,
+          venues: venueData,
+          sentiment,
+          timeframe,
+          exchange,
           data,
         };
 
@@ -2419,12 +2896,110 @@ export class NeuralTradingServer {
           success: true,
           data: result,
         });
-      } catch (error) {
+      } catch (error: any) {
+        if (/dataset not found/i.test(error?.message || '')) {
+          return res.status(404).json({ error: 'Dataset not found' });
+        }
+        if (/unsupported strategy type|require|unsupported timeframe|no data provided|tier limit|dataset has no candles/i.test(error?.message || '')) {
+          return res.status(400).json({ error: error.message });
+        }
         console.error('Run backtest error:', error);
         res.status(500).json({ error: 'Failed to run backtest' });
       }
     });
 
+    // ============================================
+    // BACKTEST DATASET ROUTES
+    // ============================================
+
+    /**
+     * POST /api/backtests/datasets
+     * Import a CSV candle file. Body: name, symbol, csv and optional
+     * timeframe, columns, delimiter, hasHeader, timestampUnit, timezone.
+     */
+    this.app.post('/api/backtests/datasets', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const { name, symbol, csv } = req.body;
+
+        if (!name || !symbol || typeof csv !== 'string' || !csv) {
+          return res.status(400).json({ error: 'name, symbol, and csv are required' });
+        }
+
+        const dataset = await this.datasetService.importCsv(userId, req.body);
+
+        res.status(201).json({
+          success: true,
+          data: dataset,
+        });
+      } catch (error: any) {
+        if (/csv|timezone/i.test(error?.message || '')) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Import dataset error:', error);
+        res.status(500).json({ error: 'Failed to import dataset' });
+      }
+    });
+
+    // List uploaded datasets (without candles)
+    this.app.get('/api/backtests/datasets', requireAuth, async (req, res) => {
+      try {
+        const datasets = await this.datasetService.listDatasets(req.auth!.userId);
+
+        res.json({
+          success: true,
+          data: datasets,
+        });
+      } catch (error) {
+        console.error('List datasets error:', error);
+        res.status(500).json({ error: 'Failed to list datasets' });
+      }
+    });
+
+    this.app.delete('/api/backtests/datasets/:datasetId', requireAuth, async (req, res) => {
+      try {
+        const deleted = await this.datasetService.deleteDataset(req.params.datasetId, req.auth!.userId);
+        if (!deleted) {
+          return res.status(404).json({ error: 'Dataset not found' });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error('Delete dataset error:', error);
+        res.status(500).json({ error: 'Failed to delete dataset' });
+      }
+    });
+
+    /**
+     * GET /api/backtests/:backtestId/export?type=trades|equity
+     * Download a backtest's trades or equity curve as CSV.
+     */
+    this.app.get('/api/backtests/:backtestId/export', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const type = req.query.type || 'trades';
+        if (type !== 'trades' && type !== 'equity') {
+          return res.status(400).json({ error: 'Export type must be trades or equity' });
+        }
+
+        const result = await this.backtestService.getBacktestResult(req.params.backtestId, userId);
+        if (!result) {
+          return res.status(404).json({ error: 'Backtest not found' });
+        }
+
+        const csv = type === 'trades'
+          ? this.datasetService.exportTradesCsv(result)
+          : this.datasetService.exportEquityCurveCsv(result);
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="backtest-${result.id}-${type}.csv"`);
+        res.send(csv);
+      } catch (error) {
+        console.error('Export backtest error:', error);
+        res.status(500).json({ error: 'Failed to export backtest' });
+      }
+    });
+
     // ============================================
     // BACKTEST HISTORY ROUTES
     // ============================================
@@ -2445,31 +3020,26 @@ export class NeuralTradingServer {
           return res.status(404).json({ error: 'Strategy not found' });
         }
 
-        if (!this.db.backtests || typeof this.db.backtests.findByStrategyId !== 'function') {
-          return res.json({ success: true, data: [] });
-        }
-
-        const rows = await this.db.backtests.findByStrategyId(strategyId);
-
-        const history = rows
-          .filter((row: any) => row.status === 'completed')
-          .map((row: any) => {
-            const metrics = row.metrics || {};
-            return {
-              id: row.id,
-              strategyId: row.strategy_id,
-              symbol: row.symbol,
-              startDate: row.start_date,
-              endDate: row.end_date,
-              status: row.status,
-              metrics: {
-                totalReturn: metrics.totalReturn ?? null,
-                maxDrawdown: metrics.maxDrawdown ?? null,
-              },
-              createdAt: row.created_at,
-              completedAt: row.completed_at,
-            };
-          });
+        const results = await this.backtestService.getBacktestHistory(strategyId);
+
+        // Newest first
+        const history = results
+          .slice()
+          .reverse()
+          .map(result => ({
+            id: result.id,
+            strategyId: result.strategyId,
+            symbol: result.symbol,
+            startDate: result.startDate,
+            endDate: result.endDate,
+            status: result.status,
+            metrics: {
+              totalReturn: result.metrics?.totalReturn ?? null,
+              maxDrawdown: result.metrics?.maxDrawdown ?? null,
+            },
+            createdAt: result.createdAt,
+            completedAt: result.createdAt,
+          }));
 
         res.json({
           success: true,
@@ -2481,6 +3051,114 @@ export class NeuralTradingServer {
       }
     });
 
+    /**
+     * GET /api/backtests
+     * Page through the user's completed backtests, newest first. Filters:
+     * strategyId, symbol, from/to (backtested period), minTotalReturn,
+     * minSharpeRatio, maxDrawdown, minWinRate, minTrades, limit, offset.
+     */
+    this.app.get('/api/backtests', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const q = req.query as Record<string, string | undefined>;
+
+        const numberParam = (name: string): number | undefined => {
+          if (q[name] === undefined || q[name] === '') return undefined;
+          const value = Number(q[name]);
+          if (!Number.isFinite(value)) {
+            throw new Error(`Invalid ${name}`);
+          }
+          return value;
+        };
+        const dateParam = (name: string): Date | undefined => {
+          if (!q[name]) return undefined;
+          const value = new Date(q[name]!);
+          if (Number.isNaN(value.getTime())) {
+            throw new Error(`Invalid ${name}`);
+          }
+          return value;
+        };
+
+        let query;
+        try {
+          query = {
+            strategyId: q.strategyId || undefined,
+            symbol: q.symbol || undefined,
+            from: dateParam('from'),
+            to: dateParam('to'),
+            minTotalReturn: numberParam('minTotalReturn'),
+            minSharpeRatio: numberParam('minSharpeRatio'),
+            maxDrawdown: numberParam('maxDrawdown'),
+            minWinRate: numberParam('minWinRate'),
+            minTrades: numberParam('minTrades'),
+            limit: numberParam('limit'),
+            offset: numberParam('offset'),
+          };
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+
+        const page = await this.backtestService.queryBacktests(userId, query);
+
+        res.json({
+          success: true,
+          data: page,
+        });
+      } catch (error) {
+        console.error('Query backtests error:', error);
+        res.status(500).json({ error: 'Failed to query backtests' });
+      }
+    });
+
+    /**
+     * POST /api/backtests/compare
+     * Compare stored backtests side by side. Body: { backtestIds: string[] }.
+     */
+    this.app.post('/api/backtests/compare', requireAuth, async (req, res) => {
+      try {
+        const userId = req.auth!.userId;
+        const { backtestIds } = req.body;
+
+        if (!Array.isArray(backtestIds) || backtestIds.length < 2) {
+          return res.status(400).json({ error: 'At least 2 backtest IDs required for comparison' });
+        }
+        if (backtestIds.length > 20) {
+          return res.status(400).json({ error: 'At most 20 backtests can be compared' });
+        }
+
+        const comparison = await this.backtestService.compareStoredBacktests(userId, backtestIds);
+
+        res.json({
+          success: true,
+          data: comparison,
+        });
+      } catch (error: any) {
+        if (/backtest not found/i.test(error?.message || '')) {
+          return res.status(404).json({ error: error.message });
+        }
+        console.error('Compare backtests error:', error);
+        res.status(500).json({ error: 'Failed to compare backtests' });
+      }
+    });
+
+    // Full stored result, including trades and equity curve
+    this.app.get('/api/backtests/:backtestId', requireAuth, async (req, res) => {
+      try {
+        const result = await this.backtestService.getBacktestResult(req.params.backtestId, req.auth!.userId);
+        if (!result) {
+          return res.status(404).json({ error: 'Backtest not found' });
+        }
+
+        res.json({
+          success: true,
+          data: result,
+        });
+      } catch (error) {
+        console.error('Get backtest error:', error);
+        res.status(500).json({ error: 'Failed to get backtest' });
+      }
+    });
+
     // ============================================
     // TRADING MODE & PAPER TRADING ROUTES (Phase 10)
     // ============================================
@@ -2520,6 +3198,24 @@ export class NeuralTradingServer {
     // ============================================
     this.app.use('/api/settings', userSettingsRoutes);
 
+    // ============================================
+    // PORTFOLIO RISK ROUTES
+    // ============================================
+    // The candle store and mark-to-market are created in start(), after the routes are mounted
+    const candleStore = { getCandles: (query: CandleQuery) => this.candleStoreService.getCandles(query) };
+    const correlationService = new PortfolioCorrelationService({ candleStore });
+    const varService = new PortfolioVaRService({ correlationService, candleStore });
+    this.app.use('/api/risk', createRiskRouter({
+      auth: [requireAuth, (req, _res, next) => {
+        req.userId = req.auth!.userId;
+        next();
+      }],
+      correlationService,
+      varService,
+      equityHistory: { getEquityHistory: (userId) => this.markToMarketService.getEquityHistory(userId) },
+      openPositions: { getOpenPositions: (userId) => this.markToMarketService.getOpenPositions(userId) },
+    }));
+
     // ============================================
     // USAGE TRACKING ROUTES (Phase 19)
     // ============================================
@@ -2536,37 +3232,49 @@ export class NeuralTradingServer {
   }
 
   private setupWebSocket(): void {
-    this.wss.on('connection', (ws) => {
+    this.wss.on('connection', (ws, request) => {
       console.log('✓ WebSocket client connected');
 
-      ws.on('message', (message) => {
-        try {
-          const data = JSON.parse(message.toString());
-          this.handleWebSocketMessage(ws, data);
-        } catch {
-          ws.send(JSON.stringify({ error: 'Invalid message format' }));
-        }
-      });
-
       ws.on('close', () => {
         console.log('✗ WebSocket client disconnected');
       });
 
-      ws.send(JSON.stringify({ type: 'connected', timestamp: Date.now() }));
+      this.marketDataStream.handleConnection(ws, request);
     });
   }
 
-  private handleWebSocketMessage(ws: WebSocket, data: any): void {
-    switch (data.type) {
-      case 'ping':
-        ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
-        break;
-      case 'subscribe':
-        ws.send(JSON.stringify({ type: 'subscribed', channel: data.channel }));
-        break;
-      default:
-        ws.send(JSON.stringify({ type: 'unknown', received: data.type }));
-    }
+  /**
+   * The user's exchange connection as TradingModeManager venues. Orders on
+   * this server are placed through /api/orders; the manager holds the mode
+   * and kill switch halts and validates a switch to live against the venue.
+   */
+  private modeExchanges(userId: string, connectionId: string): UserExchanges {
+    return {
+      live: {
+        createOrder: async (order) => {
+          const { adapter, ctx } = await this.exchangeAdapterService.getOrderAdapter(connectionId, userId);
+          const result = await adapter.createOrder(ctx, order);
+          if (!result.success || !result.orderId) {
+            throw new Error(result.error || 'Order rejected by exchange');
+          }
+          return { id: result.orderId, status: 'pending' };
+        },
+        getBalances: async () => {
+          const balance = await this.exchangeAdapterService.getBalance(connectionId, userId);
+          return Object.fromEntries(
+            balance.assets.map((asset) => [asset.asset, { available: asset.free, locked: asset.used }])
+          );
+        },
+        isTestnet: () => false,
+      },
+      paper: {
+        createOrder: async () => {
+          throw new Error('Paper orders are placed through /api/orders');
+        },
+        getBalances: async () => ({}),
+        isTestnet: () => true,
+      },
+    };
   }
 
   async start(): Promise<void> {
@@ -2579,14 +3287,37 @@ export class NeuralTradingServer {
       db: this.db,
       configService: this.configService,
     });
+    const exchangeAdapterFactory = (exchange: string) => {
+      switch (exchange) {
+        case 'binance':
+          return new BinanceAdapter();
+        case 'coinbase':
+          return new CoinbaseAdapter();
+        case 'kraken':
+          return new KrakenAdapter();
+        case 'bybit':
+          return new BybitAdapter();
+        case 'okx':
+          return new OKXAdapter();
+        default:
+          return null;
+      }
+    };
+
+    // Historical candles for backtests are cached in Neon and fetched from public endpoints
+    this.candleStoreService = new CandleStoreService({
+      db: this.db,
+      adapterFactory: exchangeAdapterFactory,
+    });
     this.backtestService = new BacktestService({
       db: this.db,
       configService: this.configService,
       strategyService: this.strategyService,
+      candleStore: this.candleStoreService,
     });
+    this.datasetService = new DatasetService({ db: this.db });
 
     this.liveTradingService = new NeonLiveTradingService(this.db);
-    this.swarmService = new NeonSwarmService(this.db);
     this.swarmMemoryService = new SwarmMemoryService(this.db);
 
     // Initialize AI adapter service backed by Neon ai_providers and real adapters
@@ -2611,21 +3342,57 @@ export class NeuralTradingServer {
 
     this.exchangeAdapterService = new NeonExchangeAdapterService({
       db: this.db,
-      adapterFactory: (exchange: string) => {
-        switch (exchange) {
-          case 'binance':
-            return new BinanceAdapter();
-          case 'coinbase':
-            return new CoinbaseAdapter();
-          case 'kraken':
-            return new KrakenAdapter();
-          default:
-            return null;
-        }
-      },
+      adapterFactory: exchangeAdapterFactory,
+      decryptCredentials: (conn) => ({
+        apiKey: decryptApiKey(conn.encryptedApiKey),
+        apiSecret: decryptApiKey(conn.encryptedApiSecret),
+        passphrase: conn.encryptedPassphrase ? decryptApiKey(conn.encryptedPassphrase) : undefined,
+      }),
+    });
+
+    // Market data and account channels over the WebSocket server
+    this.marketDataStream = new MarketDataStreamService({
+      db: this.db,
+      exchangeService: this.exchangeAdapterService,
+      upstream: this.coinbaseMarketStream,
+      authenticate: async (token) => (await authenticateToken(token))?.id ?? null,
     });
 
-    this.markToMarketService = new NeonMarkToMarketService(this.db, this.exchangeAdapterService);
+    // Poll connected exchanges so live orders pick up fills without manual /fill calls
+    this.orderReconciliationService = new NeonOrderReconciliationService({
+      db: this.db,
+      exchangeService: this.exchangeAdapterService,
+      liveTradingService: this.liveTradingService,
+    });
+
+    // Account-level kill switch, fed by mark-to-market equity readings
+    const killSwitchActions = new NeonKillSwitchActions(this.db, this.exchangeAdapterService);
+    this.killSwitch = new KillSwitchService({
+      orders: killSwitchActions,
+      flattenPositions: (userId) => killSwitchActions.flattenPositions(userId),
+      algorithms: this.executionAlgorithmService,
+      strategies: this.strategyService,
+      // Re-arming lifts the halt; the account stays in paper until the user switches to live
+      tradingHalt: this.tradingModes,
+      store: new NeonKillSwitchStore(this.db),
+      audit: (entry) =>
+        this.db.auditLog.log({
+          userId: entry.userId,
+          action: entry.action,
+          resourceType: 'kill_switch',
+          resourceId: entry.userId,
+          details: entry.details,
+        }),
+    });
+    // Tripped accounts must stay halted across restarts, so a failed load stops startup
+    await this.killSwitch.load();
+    preTradeRiskGate.registerRule(createKillSwitchRule(this.killSwitch), { before: 'max_open_orders' });
+    preTradeRiskGate.setStore(new NeonRiskOverrideStore(this.db));
+    await preTradeRiskGate.load();
+
+    this.markToMarketService = new NeonMarkToMarketService(this.db, this.exchangeAdapterService, {
+      killSwitch: this.killSwitch,
+    });
     this.strategyRiskService = new StrategyRiskService({
       db: this.db,
       backtestService: this.backtestService,
@@ -2702,6 +3469,13 @@ export class NeuralTradingServer {
       });
     }
 
+    // Neon order routes, paper engines and swarm proposals share one pre-trade risk gate
+    this.preTradeRiskService = new NeonPreTradeRiskService(this.db, preTradeRiskGate, {
+      tierLimits: getTierLimits,
+      riskGraphService: this.riskGraphService,
+    });
+    this.swarmService = new NeonSwarmService(this.db, this.preTradeRiskService);
+
     return new Promise((resolve) => {
       this.httpServer.listen(PORT, () => {
         console.log('');
@@ -2716,12 +3490,20 @@ export class NeuralTradingServer {
         console.log('║                                                            ║');
         console.log('╚════════════════════════════════════════════════════════════╝');
         console.log('');
+        this.orderReconciliationService.start();
+        this.markToMarketService.start();
+        this.marketDataStream.start();
         resolve();
       });
     });
   }
 
   async stop(): Promise<void> {
+    this.orderReconciliationService?.stop();
+    this.markToMarketService?.stop();
+    this.executionAlgorithmService.stop();
+    this.marketDataStream?.stop();
+    this.coinbaseMarketStream.close();
     this.wss.close();
     this.httpServer.close();
     await this.db.close();
@@ -12,9 +12,15 @@ import { AuthService } from '../users/AuthService';
 import { ConfigService } from '../config/ConfigService';
 import { StrategyService } from '../strategies/StrategyService';
 import { BacktestService } from '../backtesting/BacktestService';
+import { DatasetService } from '../backtesting/DatasetService';
+import { CandleStoreService } from '../backtesting/CandleStoreService';
 import { OrderService } from '../execution/OrderService';
+import { SmartOrderRouter } from '../execution/SmartOrderRouter';
 import { ExchangeService, ExchangeType } from '../exchanges/ExchangeService';
 import { AIProviderService, AIProviderType } from '../ai/AIProviderService';
+import { PortfolioCorrelationService } from '../risk/PortfolioCorrelationService';
+import { PortfolioVaRService } from '../risk/PortfolioVaRService';
+import type { VaRPosition } from '../risk/PortfolioVaRService';
 import { createAdapter, SupportedProvider } from '../ai/adapters';
 import { createAuthRouter } from './routes/auth.routes';
 import { createStrategyRouter } from './routes/strategy.routes';
@@ -23,10 +29,14 @@ import { createOrderRouter } from './routes/order.routes';
 import { createExchangeRouter } from './routes/exchange.routes';
 import { createAIRouter } from './routes/ai.routes';
 import { createPublicMarketRouter } from './routes/public-market.routes';
+import { createRiskRouter } from './routes/risk.routes';
+import { createAuthMiddleware } from './middleware/auth.middleware';
 import { errorHandler } from './middleware/error.middleware';
 import { BinanceAdapter } from '../exchanges/adapters/BinanceAdapter';
 import { CoinbaseAdapter } from '../exchanges/adapters/CoinbaseAdapter';
 import { KrakenAdapter } from '../exchanges/adapters/KrakenAdapter';
+import { BybitAdapter } from '../exchanges/adapters/BybitAdapter';
+import { OKXAdapter } from '../exchanges/adapters/OKXAdapter';
 
 const PORT = process.env.API_PORT || 3001;
 const JWT_SECRET = process.env.JWT_SECRET || 'neural-trading-jwt-secret-min-32-chars!!';
@@ -44,9 +54,15 @@ export class APIServer {
   public configService!: ConfigService;
   public strategyService!: StrategyService;
   public backtestService!: BacktestService;
+  public datasetService!: DatasetService;
   public orderService!: OrderService;
   public exchangeService!: ExchangeService;
+  public smartOrderRouter!: SmartOrderRouter;
   public aiService!: AIProviderService;
+  public candleStoreService!: CandleStoreService;
+  public correlationService!: PortfolioCorrelationService;
+  public varService!: PortfolioVaRService;
+  private getMarkPrice!: (symbol: string) => Promise<number>;
 
   constructor(port: number = 3001) {
     this.port = port;
@@ -85,6 +101,8 @@ export class APIServer {
       strategyService: this.strategyService
     });
 
+    this.datasetService = new DatasetService({ db: this.db });
+
     this.orderService = new OrderService({
       db: this.db,
       configService: this.configService,
@@ -92,24 +110,57 @@ export class APIServer {
       backtestService: this.backtestService,
     });
 
+    const exchangeAdapterFactory = (exchange: ExchangeType) => {
+      if (exchange === 'binance') {
+        return new BinanceAdapter();
+      }
+      if (exchange === 'coinbase') {
+        return new CoinbaseAdapter();
+      }
+      if (exchange === 'kraken') {
+        return new KrakenAdapter();
+      }
+      if (exchange === 'bybit') {
+        return new BybitAdapter();
+      }
+      if (exchange === 'okx') {
+        return new OKXAdapter();
+      }
+      // For exchanges without a concrete adapter, fall back to the simulated
+      // implementation by returning null.
+      return null as any;
+    };
+
     this.exchangeService = new ExchangeService({
       db: this.db,
       configService: this.configService,
       encryptionKey: ENCRYPTION_KEY,
-      adapterFactory: (exchange: ExchangeType) => {
-        if (exchange === 'binance') {
-          return new BinanceAdapter();
-        }
-        if (exchange === 'coinbase') {
-          return new CoinbaseAdapter();
-        }
-        if (exchange === 'kraken') {
-          return new KrakenAdapter();
-        }
-        // For exchanges without a concrete adapter, fall back to the simulated
-        // implementation by returning null.
-        return null as any;
-      },
+      adapterFactory: exchangeAdapterFactory,
+    });
+
+    // Candles behind the correlation analysis and VaR come from public exchange endpoints
+    this.candleStoreService = new CandleStoreService({
+      db: this.db,
+      adapterFactory: (exchange: string) => exchangeAdapterFactory(exchange as ExchangeType),
+    });
+
+    this.correlationService = new PortfolioCorrelationService({
+      candleStore: this.candleStoreService,
+    });
+
+    this.varService = new PortfolioVaRService({
+      correlationService: this.correlationService,
+      candleStore: this.candleStoreService,
+    });
+
+    // Open positions are marked at the public ticker of the exchange VaR candles come from
+    const markAdapter = exchangeAdapterFactory('binance');
+    this.getMarkPrice = async (symbol) =>
+      (await markAdapter.getTicker({ connectionId: 'public', userId: 'anonymous', exchange: 'binance' }, symbol)).last;
+
+    this.smartOrderRouter = new SmartOrderRouter({
+      exchangeService: this.exchangeService,
+      orderService: this.orderService,
     });
 
     this.aiService = new AIProviderService({
@@ -138,6 +189,8 @@ export class APIServer {
       origin: ['http://localhost:3000', 'http://localhost:5173'],
       credentials: true,
     }));
+    // CSV dataset uploads carry whole files, so they get a larger body limit
+    this.app.use('/api/backtests/datasets', express.json({ limit: '50mb' }));
     this.app.use(express.json());
   }
 
@@ -165,15 +218,44 @@ export class APIServer {
     // API Routes (Authentication Required)
     this.app.use('/api/auth', createAuthRouter(this.authService));
     this.app.use('/api/strategies', createStrategyRouter(this.strategyService, this.authService, this.backtestService));
-    this.app.use('/api/backtests', createBacktestRouter(this.backtestService, this.strategyService, this.authService));
-    this.app.use('/api/orders', createOrderRouter(this.orderService, this.strategyService, this.authService));
+    this.app.use('/api/backtests', createBacktestRouter(this.backtestService, this.strategyService, this.authService, this.datasetService));
+    this.app.use('/api/orders', createOrderRouter(this.orderService, this.strategyService, this.authService, this.smartOrderRouter));
     this.app.use('/api/exchanges', createExchangeRouter(this.exchangeService, this.authService));
     this.app.use('/api/ai', createAIRouter(this.aiService, this.authService));
+    this.app.use('/api/risk', createRiskRouter({
+      auth: createAuthMiddleware(this.authService),
+      correlationService: this.correlationService,
+      varService: this.varService,
+      openPositions: { getOpenPositions: (userId) => this.getMarkedPositions(userId) },
+    }));
 
     // Error handler
     this.app.use(errorHandler);
   }
 
+  /**
+   * Open positions at current marks, for the risk routes
+   */
+  private async getMarkedPositions(userId: string): Promise<VaRPosition[]> {
+    const positions = await this.orderService.getOpenPositions(userId);
+    const prices = new Map<string, number>();
+
+    const marked: VaRPosition[] = [];
+    for (const position of positions) {
+      if (!prices.has(position.symbol)) {
+        prices.set(position.symbol, await this.getMarkPrice(position.symbol));
+      }
+      marked.push({
+        id: position.id,
+        symbol: position.symbol,
+        direction: position.side,
+        size: position.quantity * (position.contractSize ?? 1),
+        currentPrice: prices.get(position.symbol)!,
+      });
+    }
+    return marked;
+  }
+
   private setupWebSocket(): void {
     this.wss.on('connection', (ws) => {
       console.log('✓ WebSocket client connected');
@@ -252,12 +334,14 @@ export class APIServer {
         console.log('║                                                            ║');
         console.log('╚════════════════════════════════════════════════════════════╝');
         console.log('');
+        this.orderService.startExpirySweep();
         resolve();
       });
     });
   }
 
   async stop(): Promise<void> {
+    this.orderService.stopExpirySweep();
     this.wss.close();
     this.httpServer.close();
     console.log('\n⏸ API Server stopped');
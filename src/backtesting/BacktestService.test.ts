@@ -4,10 +4,11 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { BacktestService, BacktestConfig, BacktestResult, OHLCV } from './BacktestService';
+import { BacktestService, BacktestConfig, BacktestResult, OHLCV, SentimentPoint } from './BacktestService';
 import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
 import { ConfigService } from '../config/ConfigService';
 import { StrategyService } from '../strategies/StrategyService';
+import type { StrategyType } from '../database/types';
 
 describe('BacktestService', () => {
   let backtestService: BacktestService;
@@ -324,6 +325,261 @@ describe('BacktestService', () => {
 
       expect(Array.isArray(signals)).toBe(true);
     });
+
+    it('should_follow_sentiment_readings', async () => {
+      const sentiment: SentimentPoint[] = [
+        { timestamp: 1500, sentiment: 'bullish', score: 0.6, confidence: 0.9, reasoning: '' },
+        { timestamp: 4500, sentiment: 'neutral', score: 0, confidence: 0.9, reasoning: '' },
+        { timestamp: 6500, sentiment: 'bearish', score: -0.5, confidence: 0.8, reasoning: '' },
+      ];
+
+      const signals = backtestService.generateSignals('sentiment', sampleData, {}, { sentiment });
+
+      expect(signals.map(s => [s.timestamp, s.type, s.side])).toEqual([
+        [2000, 'entry', 'long'],
+        [5000, 'exit', 'long'],
+        [7000, 'entry', 'short'],
+      ]);
+    });
+
+    it('should_ignore_low_confidence_and_stale_sentiment', async () => {
+      const sentiment: SentimentPoint[] = [
+        { timestamp: 1000, sentiment: 'bullish', score: 0.9, confidence: 0.2, reasoning: '' },
+        { timestamp: 3000, sentiment: 'bullish', score: 0.9, confidence: 0.9, reasoning: '' },
+      ];
+
+      const signals = backtestService.generateSignals(
+        'sentiment',
+        sampleData,
+        { maxSentimentAgeHours: 2000 / 3_600_000 },
+        { sentiment }
+      );
+
+      expect(signals[0]).toMatchObject({ timestamp: 3000, type: 'entry', side: 'long' });
+      expect(signals[1]).toMatchObject({ timestamp: 6000, type: 'exit' });
+    });
+
+    it('should_trade_cross_exchange_spreads', async () => {
+      // Reference venue matches the primary except for a discount at 3000 and a premium at 7000
+      const reference = sampleData.map(bar => ({ ...bar }));
+      reference[2] = { ...reference[2], close: 110 };
+      reference[6] = { ...reference[6], close: 103 };
+
+      const signals = backtestService.generateSignals(
+        'arbitrage',
+        sampleData,
+        { minSpreadPercent: 0.5, exitSpreadPercent: 0.1 },
+        { venues: { coinbase: reference } }
+      );
+
+      expect(signals.map(s => [s.timestamp, s.type, s.side])).toEqual([
+        [3000, 'entry', 'long'],
+        [4000, 'exit', 'long'],
+        [7000, 'entry', 'short'],
+        [8000, 'exit', 'short'],
+      ]);
+    });
+
+    it('should_require_inputs_for_sentiment_and_arbitrage', async () => {
+      expect(() => backtestService.generateSignals('sentiment', sampleData, {}))
+        .toThrow('Sentiment backtests require a sentiment score series');
+      expect(() => backtestService.generateSignals('arbitrage', sampleData, {}))
+        .toThrow('Arbitrage backtests require OHLCV from at least one other exchange');
+    });
+
+    it('should_reject_unsupported_strategy_types', async () => {
+      expect(() => backtestService.generateSignals('grid' as StrategyType, sampleData, {}))
+        .toThrow('Unsupported strategy type for backtesting: grid');
+    });
+
+    it('should_run_custom_rule_strategies', async () => {
+      const signals = backtestService.generateSignals('custom', sampleData, {
+        rules: {
+          entry: { long: { left: { indicator: 'price', field: 'close' }, op: '>', right: { indicator: 'sma', period: 3 } } },
+          exit: { long: { left: { indicator: 'price', field: 'close' }, op: '<', right: { indicator: 'sma', period: 3 } } },
+        },
+      });
+
+      expect(signals[0]).toMatchObject({ type: 'entry', side: 'long', timestamp: 3000 });
+      expect(signals[1]).toMatchObject({ type: 'exit', side: 'long', timestamp: 5000 });
+    });
+
+    it('should_require_rules_for_custom_strategies', async () => {
+      expect(() => backtestService.generateSignals('custom', sampleData, {}))
+        .toThrow('Custom strategies require a rules definition');
+    });
+  });
+
+  // ============================================================================
+  // Event-Driven Execution Tests
+  // ============================================================================
+
+  describe('event-driven execution', () => {
+    // Momentum (lookback 3, threshold 2%) enters long on the close of bar 4
+    const breakoutBars: OHLCV[] = [
+      { timestamp: 1000, open: 100, high: 101, low: 99, close: 100, volume: 1000 },
+      { timestamp: 2000, open: 100, high: 102, low: 99, close: 101, volume: 1000 },
+      { timestamp: 3000, open: 101, high: 103, low: 100, close: 102, volume: 1000 },
+      { timestamp: 4000, open: 102, high: 105, low: 101, close: 104, volume: 1000 },
+    ];
+
+    const runWith = (data: OHLCV[], execution?: BacktestConfig['execution']) =>
+      backtestService.runBacktest({
+        strategyId,
+        symbol: 'BTC/USDT',
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-31'),
+        initialCapital: 10000,
+        slippage: 0,
+        commission: 0,
+        data,
+        execution,
+      });
+
+    it('should_hit_stop_loss_inside_the_bar', async () => {
+      const data = [
+        ...breakoutBars,
+        // Closes flat, but the low trades through the 2% stop
+        { timestamp: 5000, open: 104, high: 105, low: 95, close: 104, volume: 1000 },
+      ];
+
+      const result = await runWith(data, { stopLoss: { riskPercentage: 0.02 }, takeProfit: false });
+
+      expect(result.trades[0].exitReason).toBe('stop_loss');
+      expect(result.trades[0].exitPrice).toBeCloseTo(104 * 0.98, 6);
+      expect(result.trades[0].pnl).toBeLessThan(0);
+    });
+
+    it('should_fill_gapped_stops_at_the_open', async () => {
+      const data = [
+        ...breakoutBars,
+        { timestamp: 5000, open: 90, high: 91, low: 88, close: 90, volume: 1000 },
+      ];
+
+      const result = await runWith(data, { stopLoss: { riskPercentage: 0.02 }, takeProfit: false });
+
+      expect(result.trades[0].exitReason).toBe('stop_loss');
+      expect(result.trades[0].exitPrice).toBe(90);
+    });
+
+    it('should_use_strategy_stop_loss_by_default', async () => {
+      const data = [
+        ...breakoutBars,
+        { timestamp: 5000, open: 104, high: 105, low: 95, close: 104, volume: 1000 },
+      ];
+
+      const result = await runWith(data);
+
+      // Strategy defaults to a 2% stop loss
+      expect(result.trades[0].exitReason).toBe('stop_loss');
+    });
+
+    it('should_take_partial_profits_at_each_target', async () => {
+      const data = [
+        ...breakoutBars,
+        // 1R target (entry 104, stop 101.92) is 106.08; 3R is 110.24
+        { timestamp: 5000, open: 104, high: 107, low: 103, close: 106, volume: 1000 },
+        { timestamp: 6000, open: 106, high: 107, low: 105, close: 106.5, volume: 1000 },
+      ];
+
+      const result = await runWith(data, {
+        stopLoss: { riskPercentage: 0.02 },
+        takeProfit: [
+          { riskRewardRatio: 1, closeFraction: 0.5 },
+          { riskRewardRatio: 3, closeFraction: 1 },
+        ],
+      });
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[0].exitReason).toBe('take_profit');
+      expect(result.trades[0].exitPrice).toBeCloseTo(106.08, 6);
+      expect(result.trades[0].quantity).toBeCloseTo(result.trades[1].quantity, 6);
+      expect(result.trades[1].exitReason).toBe('end_of_data');
+    });
+
+    it('should_size_entries_from_risk_and_stop_distance', async () => {
+      const result = await runWith(breakoutBars, {
+        positionSizing: { method: 'fixed_percentage', riskPercentage: 0.01 },
+        stopLoss: { riskPercentage: 0.02 },
+        takeProfit: false,
+      });
+
+      // Risking 1% of 10,000 with a 2% stop gives a 5,000 notional position
+      const trade = result.trades[0];
+      expect(trade.quantity * trade.entryPrice).toBeCloseTo(5000, 6);
+    });
+
+    it('should_pyramid_into_winning_positions', async () => {
+      const data = [
+        ...breakoutBars,
+        { timestamp: 5000, open: 104, high: 107, low: 104, close: 106.5, volume: 1000 },
+        { timestamp: 6000, open: 106.5, high: 110, low: 106, close: 109, volume: 1000 },
+      ];
+
+      const single = await runWith(data, { stopLoss: false, takeProfit: false });
+      const pyramided = await runWith(data, {
+        stopLoss: false,
+        takeProfit: false,
+        pyramiding: { maxEntries: 3, scaleInPercent: 2 },
+      });
+
+      expect(pyramided.trades).toHaveLength(1);
+      expect(pyramided.trades[0].entryPrice).toBeGreaterThan(104);
+      expect(pyramided.trades[0].quantity).toBeGreaterThan(single.trades[0].quantity / 3);
+    });
+
+    it('should_mark_open_positions_to_market_each_bar', async () => {
+      const data = [
+        ...breakoutBars,
+        { timestamp: 5000, open: 104, high: 105, low: 103, close: 103, volume: 1000 },
+        { timestamp: 6000, open: 103, high: 104, low: 102.5, close: 103.5, volume: 1000 },
+      ];
+
+      const result = await runWith(data, { stopLoss: false, takeProfit: false });
+
+      expect(result.equityCurve).toHaveLength(data.length + 1);
+      expect(result.equityCurve[5].equity).toBeLessThan(10000);
+      expect(result.metrics.maxDrawdown).toBeGreaterThan(0);
+    });
+
+    it('should_charge_funding_on_open_perpetual_positions', async () => {
+      const data = [
+        ...breakoutBars,
+        { timestamp: 5000, open: 104, high: 105, low: 103, close: 104, volume: 1000 },
+        { timestamp: 6000, open: 104, high: 105, low: 103, close: 104, volume: 1000 },
+      ];
+      const config = {
+        strategyId,
+        symbol: 'BTC/USDT:USDT',
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-31'),
+        initialCapital: 10000,
+        slippage: 0,
+        commission: 0,
+        data,
+        execution: { stopLoss: false as const, takeProfit: false as const },
+        fundingRates: [
+          { timestamp: 3500, rate: 0.01 }, // Before the entry; nothing to charge
+          { timestamp: 4500, rate: 0.001 },
+          { timestamp: 5500, rate: -0.0005 },
+        ],
+      };
+
+      const result = await backtestService.runBacktest(config);
+
+      // Long 9,500 notional pays 0.1% (9.5), then receives 0.05% (4.75)
+      const [trade] = result.trades;
+      expect(trade.quantity * trade.entryPrice).toBeCloseTo(9500, 6);
+      expect(trade.fundingPnl).toBeCloseTo(-4.75, 6);
+      expect(trade.pnl).toBeCloseTo(-4.75, 6);
+      expect(result.metrics.totalFunding).toBeCloseTo(-4.75, 6);
+      expect(result.metrics.finalCapital).toBeCloseTo(9995.25, 6);
+      expect(result.equityCurve[5].equity).toBeCloseTo(9990.5, 6);
+
+      await expect(backtestService.runBacktest({ ...config, symbol: 'BTC/USDT' })).rejects.toThrow(
+        'Funding rates only apply to perpetual symbols'
+      );
+    });
   });
 
   // ============================================================================
@@ -413,6 +669,145 @@ describe('BacktestService', () => {
     });
   });
 
+  // ============================================================================
+  // Stored History Tests
+  // ============================================================================
+
+  describe('stored history', () => {
+    /** Mimics the Neon backtests repository, including camelCase rows. */
+    function createBacktestRepository() {
+      const rows = new Map<string, any>();
+      return {
+        rows,
+        create: vi.fn(async (input: any) => {
+          const row = { ...input, status: 'pending', createdAt: new Date() };
+          rows.set(input.id, row);
+          return row;
+        }),
+        update: vi.fn(async (id: string, data: any) => {
+          const row = { ...rows.get(id), ...JSON.parse(JSON.stringify(data)) };
+          rows.set(id, row);
+          return row;
+        }),
+        findById: async (id: string) => rows.get(id) || null,
+        findByStrategyId: async (id: string) =>
+          Array.from(rows.values()).filter(row => row.strategyId === id).reverse(),
+      };
+    }
+
+    const config = (overrides: Partial<BacktestConfig> = {}): BacktestConfig => ({
+      strategyId,
+      symbol: 'BTC/USDT',
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-01-31'),
+      initialCapital: 10000,
+      data: sampleData,
+      ...overrides,
+    });
+
+    it('should_persist_full_results_and_reload_them_after_restart', async () => {
+      const repo = createBacktestRepository();
+      (db as any).backtests = repo;
+
+      const first = await backtestService.runBacktest(config());
+      const second = await backtestService.runBacktest(config());
+
+      expect(repo.update).toHaveBeenCalledWith(first.id, expect.objectContaining({
+        status: 'completed',
+        equityCurve: first.equityCurve,
+        trades: first.trades,
+      }));
+
+      const restarted = new BacktestService({ db, configService, strategyService });
+      const history = await restarted.getBacktestHistory(strategyId);
+
+      expect(history.map(h => h.id)).toEqual([first.id, second.id]);
+      expect(history[1].equityCurve).toEqual(second.equityCurve);
+      expect(history[1].startDate).toEqual(new Date('2024-01-01'));
+      expect((await restarted.getLatestCompletedBacktest(strategyId))!.id).toBe(second.id);
+    });
+
+    it('should_read_stored_results_back_from_the_repository', async () => {
+      const repo = createBacktestRepository();
+      (db as any).backtests = repo;
+
+      const result = await backtestService.runBacktest(config());
+      repo.rows.delete(result.id);
+
+      expect(await backtestService.getBacktestHistory(strategyId)).toEqual([]);
+      expect(await backtestService.getBacktestResult(result.id, userId)).toBeNull();
+    });
+
+    it('should_keep_results_when_persistence_fails', async () => {
+      (db as any).backtests = {
+        ...createBacktestRepository(),
+        update: async () => { throw new Error('column "updated_at" does not exist'); },
+      };
+
+      const result = await backtestService.runBacktest(config());
+
+      expect((await backtestService.getBacktestHistory(strategyId)).map(h => h.id)).toEqual([result.id]);
+    });
+
+    it('should_query_with_filters_and_pagination', async () => {
+      const btc = await backtestService.runBacktest(config());
+      const eth = await backtestService.runBacktest(config({ symbol: 'ETH/USDT' }));
+      await backtestService.runBacktest(config({ symbol: 'ETH/USDT', startDate: new Date('2023-06-01') }));
+
+      const page = await backtestService.queryBacktests(userId, { symbol: 'ETH/USDT', from: new Date('2024-01-01') });
+      expect(page.total).toBe(1);
+      expect(page.items[0].id).toBe(eth.id);
+      expect(page.items[0]).not.toHaveProperty('trades');
+
+      const paged = await backtestService.queryBacktests(userId, { limit: 2, offset: 2 });
+      expect(paged).toMatchObject({ total: 3, limit: 2, offset: 2 });
+      expect(paged.items.map(item => item.id)).toEqual([btc.id]);
+
+      const strict = await backtestService.queryBacktests(userId, { minTotalReturn: btc.metrics.totalReturn + 1 });
+      expect(strict.total).toBe(0);
+
+      expect((await backtestService.queryBacktests('someone-else')).total).toBe(0);
+    });
+
+    it('should_delegate_queries_to_the_repository', async () => {
+      const search = vi.fn(async () => ({
+        rows: [{
+          id: 'bt-1',
+          strategyId,
+          symbol: 'BTC/USDT',
+          startDate: '2024-01-01T00:00:00.000Z',
+          endDate: '2024-01-31T00:00:00.000Z',
+          status: 'completed',
+          metrics: { totalReturn: 5 },
+          createdAt: '2024-02-01T00:00:00.000Z',
+        }],
+        total: 41,
+      }));
+      (db as any).backtests = { search };
+
+      const page = await backtestService.queryBacktests(userId, { minSharpeRatio: 1, limit: 500, offset: 40 });
+
+      expect(search).toHaveBeenCalledWith({ minSharpeRatio: 1, userId, limit: 100, offset: 40 });
+      expect(page.total).toBe(41);
+      expect(page.items[0]).toMatchObject({ id: 'bt-1', metrics: { totalReturn: 5 } });
+      expect(page.items[0].createdAt).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+    });
+
+    it('should_compare_stored_backtests_owned_by_the_user', async () => {
+      const first = await backtestService.runBacktest(config());
+      const second = await backtestService.runBacktest(config({ symbol: 'ETH/USDT' }));
+
+      const comparison = await backtestService.compareStoredBacktests(userId, [first.id, second.id]);
+
+      expect(comparison.map(c => [c.backtestId, c.strategyName, c.symbol])).toEqual([
+        [first.id, 'Test Momentum', 'BTC/USDT'],
+        [second.id, 'Test Momentum', 'ETH/USDT'],
+      ]);
+      await expect(backtestService.compareStoredBacktests('someone-else', [first.id, second.id]))
+        .rejects.toThrow(`Backtest not found: ${first.id}`);
+    });
+  });
+
   // ============================================================================
   // Risk Analysis Tests
   // ============================================================================
@@ -468,6 +863,89 @@ describe('BacktestService', () => {
     });
   });
 
+  // ============================================================================
+  // Monte Carlo Tests
+  // ============================================================================
+
+  describe('runMonteCarlo', () => {
+    const resultWithTrades = (pnls: number[]): BacktestResult => ({
+      id: 'bt-mc',
+      strategyId,
+      symbol: 'BTC/USDT',
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-01-31'),
+      status: 'completed',
+      metrics: {
+        initialCapital: 10000,
+        finalCapital: 10000 + pnls.reduce((a, b) => a + b, 0),
+      } as BacktestResult['metrics'],
+      trades: pnls.map((pnl, i) => ({
+        id: `t-${i}`,
+        entryTime: i * 1000,
+        exitTime: i * 1000 + 500,
+        entryPrice: 100,
+        exitPrice: 100,
+        side: 'long' as const,
+        quantity: 1,
+        pnl,
+      })),
+      equityCurve: [{ timestamp: 0, equity: 10000, drawdown: 0 }],
+      createdAt: new Date(),
+    });
+
+    const pnls = [500, -300, 800, -1200, 400, -200, 900, -600, 300, -100];
+
+    it('should_keep_final_equity_fixed_when_shuffling', () => {
+      const mc = backtestService.runMonteCarlo(resultWithTrades(pnls), { iterations: 200 })!;
+
+      expect(mc.finalEquity.p5).toBeCloseTo(10500, 6);
+      expect(mc.finalEquity.p95).toBeCloseTo(10500, 6);
+      expect(mc.maxDrawdown.p95).toBeGreaterThanOrEqual(mc.maxDrawdown.p5);
+    });
+
+    it('should_spread_final_equity_when_bootstrapping', () => {
+      const mc = backtestService.runMonteCarlo(resultWithTrades(pnls), {
+        method: 'bootstrap',
+        iterations: 500,
+      })!;
+
+      expect(mc.finalEquity.p5).toBeLessThan(mc.finalEquity.p50);
+      expect(mc.finalEquity.p95).toBeGreaterThan(mc.finalEquity.p50);
+      expect(mc.equityBands).toHaveLength(pnls.length + 1);
+      mc.equityBands.forEach(band => {
+        expect(band.p5).toBeLessThanOrEqual(band.p95);
+      });
+    });
+
+    it('should_be_reproducible_for_a_seed', () => {
+      const first = backtestService.runMonteCarlo(resultWithTrades(pnls), { method: 'bootstrap', seed: 9 });
+      const second = backtestService.runMonteCarlo(resultWithTrades(pnls), { method: 'bootstrap', seed: 9 });
+
+      expect(first).toEqual(second);
+    });
+
+    it('should_estimate_ruin_probability', () => {
+      const safe = backtestService.runMonteCarlo(resultWithTrades(pnls), { ruinThreshold: 50 })!;
+      const fragile = backtestService.runMonteCarlo(resultWithTrades(pnls), { ruinThreshold: 1 })!;
+
+      expect(safe.ruinProbability).toBe(0);
+      expect(fragile.ruinProbability).toBe(1);
+    });
+
+    it('should_return_null_without_closed_trades', () => {
+      expect(backtestService.runMonteCarlo(resultWithTrades([]))).toBeNull();
+    });
+
+    it('should_attach_monte_carlo_to_risk_analysis_when_requested', async () => {
+      const riskAnalysis = backtestService.analyzeRisk(resultWithTrades(pnls), {
+        monteCarlo: { iterations: 100 },
+      });
+
+      expect(riskAnalysis.monteCarlo?.iterations).toBe(100);
+      expect(backtestService.analyzeRisk(resultWithTrades(pnls)).monteCarlo).toBeUndefined();
+    });
+  });
+
   // ============================================================================
   // Tier Limits Tests
   // ============================================================================
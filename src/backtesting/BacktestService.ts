@@ -6,7 +6,21 @@
 import { v4 as uuidv4 } from 'uuid';
 import { StrategyService } from '../strategies/StrategyService';
 import { ConfigService } from '../config/ConfigService';
-import { StrategyType } from '../database/types';
+import { Strategy, StrategyType } from '../database/types';
+import type { Backtest } from '../database/DatabaseFactory';
+import type { SentimentResult } from '../ai/adapters/types';
+import {
+  calculatePositionSize,
+  calculateStopLoss,
+  calculateTakeProfit,
+  calculateTradeStats,
+  PositionSizingMethod,
+} from '../risk/calculations';
+import { RuleStrategyService } from '../strategies/RuleStrategyService';
+import { createRandom } from './random';
+import type { CandleStoreService } from './CandleStoreService';
+import { isPerpetualSymbol } from '../exchanges/ExchangeService';
+import type { FundingRate } from '../exchanges/ExchangeService';
 
 // ============================================================================
 // Types
@@ -30,8 +44,78 @@ export interface BacktestConfig {
   data: OHLCV[];
   slippage?: number; // Percentage
   commission?: number; // Percentage per trade
+  execution?: BacktestExecutionOptions;
+  venues?: Record<string, OHLCV[]>; // Arbitrage: other exchanges' candles keyed by exchange
+  sentiment?: SentimentPoint[]; // Sentiment: scored readings over the backtest period
+  fundingRates?: FundingPoint[]; // Perpetuals: funding settlements charged on open positions
 }
 
+/**
+ * A backtest request whose candles may be loaded from the candle store
+ * instead of being passed inline.
+ */
+export type BacktestRequest = Omit<BacktestConfig, 'data'> & {
+  data?: OHLCV[];
+  timeframe?: string; // Defaults to the strategy's configured timeframe, then 1h
+  exchange?: string; // Defaults to binance
+};
+
+export interface SentimentPoint extends SentimentResult {
+  timestamp: number;
+}
+
+export type FundingPoint = Pick<FundingRate, 'timestamp' | 'rate'>;
+
+/**
+ * Auxiliary series consumed by strategy types that need more than the
+ * traded symbol's own candles.
+ */
+export interface SignalInputs {
+  venues?: Record<string, OHLCV[]>;
+  sentiment?: SentimentPoint[];
+}
+
+export interface PositionSizingOptions {
+  method: PositionSizingMethod;
+  riskPercentage?: number; // Fraction of equity risked per entry (0.02 = 2%)
+  fixedAmount?: number;
+  volatilityPeriod?: number; // ATR period for volatility_adjusted sizing
+  // Kelly priors, used until the backtest has closed trades of its own
+  winRate?: number;
+  avgWin?: number;
+  avgLoss?: number;
+}
+
+export interface StopLossOptions {
+  riskPercentage?: number; // Fraction of entry price (0.02 = 2%)
+  atrPeriod?: number; // When set, stops are ATR-based
+  atrMultiplier?: number;
+}
+
+export interface TakeProfitTarget {
+  riskRewardRatio: number;
+  closeFraction: number; // Fraction of the remaining quantity closed at this target
+}
+
+export interface PyramidingOptions {
+  maxEntries: number;
+  scaleInPercent?: number; // Favourable move (%) from the last fill that adds a layer
+}
+
+/**
+ * Execution options for the event-driven simulator. Omitted stop/target
+ * settings fall back to the strategy's stopLossPercent/takeProfitPercent;
+ * pass `false` to disable them explicitly.
+ */
+export interface BacktestExecutionOptions {
+  positionSizing?: PositionSizingOptions;
+  stopLoss?: StopLossOptions | false;
+  takeProfit?: TakeProfitTarget[] | false;
+  pyramiding?: PyramidingOptions;
+}
+
+export type TradeExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'end_of_data';
+
 export interface TradeRecord {
   id: string;
   entryTime: number;
@@ -40,8 +124,10 @@ export interface TradeRecord {
   exitPrice?: number;
   side: 'long' | 'short';
   quantity: number;
-  pnl?: number;
+  pnl?: number; // Net of fees and funding
   pnlPercent?: number;
+  fundingPnl?: number; // Perpetuals: funding received (positive) or paid while open
+  exitReason?: TradeExitReason;
 }
 
 export interface EquityPoint {
@@ -64,6 +150,7 @@ export interface BacktestMetrics {
   sharpeRatio: number;
   profitFactor: number;
   avgTradeDuration: number;
+  totalFunding?: number; // Perpetuals: net funding across all trades
 }
 
 export interface BacktestResult {
@@ -94,21 +181,124 @@ export interface RiskAnalysis {
   calmarRatio: number;
   maxConsecutiveLosses: number;
   avgDrawdownDuration: number;
+  monteCarlo?: MonteCarloAnalysis;
+}
+
+export interface MonteCarloOptions {
+  iterations?: number; // Default 1000, capped at 10,000
+  method?: 'shuffle' | 'bootstrap';
+  ruinThreshold?: number; // Drawdown % treated as ruin (default 50)
+  seed?: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface EquityBand {
+  trade: number; // Number of trades taken
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Distributions are percentiles of the raw value, so the bad tail of
+ * maxDrawdown is p95 (the drawdown exceeded in only 5% of paths) while
+ * the bad tail of finalEquity is p5.
+ */
+export interface MonteCarloAnalysis {
+  method: 'shuffle' | 'bootstrap';
+  iterations: number;
+  ruinThreshold: number;
+  finalEquity: DistributionSummary;
+  totalReturn: DistributionSummary;
+  maxDrawdown: DistributionSummary;
+  ruinProbability: number; // 0-1
+  equityBands: EquityBand[];
 }
 
 export interface BacktestComparison {
   backtestId: string;
+  strategyId: string;
   strategyName: string;
+  symbol: string;
   totalReturn: number;
   sharpeRatio: number;
   maxDrawdown: number;
   winRate: number;
+  profitFactor: number;
+  totalTrades: number;
+}
+
+export type BacktestSummary = Omit<BacktestResult, 'trades' | 'equityCurve'>;
+
+/**
+ * Filters for stored backtest history. `from`/`to` bound the backtested
+ * period; metric thresholds use the same units as BacktestMetrics.
+ */
+export interface BacktestHistoryQuery {
+  strategyId?: string;
+  symbol?: string;
+  from?: Date;
+  to?: Date;
+  minTotalReturn?: number;
+  minSharpeRatio?: number;
+  maxDrawdown?: number;
+  minWinRate?: number;
+  minTrades?: number;
+  limit?: number; // Default 20, capped at 100
+  offset?: number;
+}
+
+export interface BacktestHistoryPage {
+  items: BacktestSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface ResolvedExecution {
+  positionSizing?: PositionSizingOptions;
+  stopLoss?: StopLossOptions;
+  takeProfit: TakeProfitTarget[];
+  maxEntries: number;
+  scaleInPercent?: number;
+}
+
+interface SimulationContext {
+  data: OHLCV[];
+  trades: TradeRecord[];
+  execution: ResolvedExecution;
+  slippage: number;
+  commission: number;
+}
+
+interface OpenPosition {
+  id: string;
+  side: 'long' | 'short';
+  entryTime: number;
+  entryPrice: number; // Volume-weighted average across layers
+  quantity: number;
+  entryFees: number; // Entry commission not yet attributed to a closed trade
+  fundingPnl: number; // Funding not yet attributed to a closed trade
+  entries: number;
+  lastFillPrice: number;
+  openedIndex: number;
+  stopPrice?: number;
+  nextTarget: number;
 }
 
 export interface BacktestServiceOptions {
   db: any;
   configService: ConfigService;
   strategyService: StrategyService;
+  candleStore?: CandleStoreService;
 }
 
 // ============================================================================
@@ -122,6 +312,9 @@ const TIER_BACKTEST_LIMITS: Record<string, number> = {
   institutional: -1, // Unlimited
 };
 
+// Results kept in memory when they could not be stored; oldest are evicted first
+const MAX_UNSTORED_RESULTS = 200;
+
 // ============================================================================
 // BacktestService Implementation
 // ============================================================================
@@ -130,19 +323,70 @@ export class BacktestService {
   private db: any;
   private configService: ConfigService;
   private strategyService: StrategyService;
+  private candleStore?: CandleStoreService;
   private backtestResults: Map<string, BacktestResult[]> = new Map();
+  private backtestOwners: Map<string, string> = new Map(); // Backtest ID -> user ID
+  private ruleStrategyService = new RuleStrategyService();
 
   constructor(options: BacktestServiceOptions) {
     this.db = options.db;
     this.configService = options.configService;
     this.strategyService = options.strategyService;
+    this.candleStore = options.candleStore;
   }
 
   // ============================================================================
   // Main Backtest Execution
   // ============================================================================
 
-  async runBacktest(config: BacktestConfig): Promise<BacktestResult> {
+  async runBacktest(request: BacktestRequest): Promise<BacktestResult> {
+    const config = await this.resolveData(request);
+    const strategy = await this.prepareBacktest(config);
+
+    // Run backtest simulation
+    const result = await this.executeBacktest(config, strategy);
+
+    // Persist and cache result
+    await this.saveResult(strategy.userId, result);
+
+    return result;
+  }
+
+  /**
+   * Load candles from the candle store when none were passed inline.
+   * Tier limits are checked before downloading so oversized ranges fail
+   * without hitting the exchange.
+   */
+  private async resolveData(request: BacktestRequest): Promise<BacktestConfig> {
+    const { timeframe, exchange, ...config } = request;
+
+    if ((config.data && config.data.length > 0) || !this.candleStore || config.endDate <= config.startDate) {
+      return { ...config, data: config.data || [] };
+    }
+
+    const strategy = await this.strategyService.getStrategy(config.strategyId);
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+    await this.checkTierLimits(strategy.userId, config);
+
+    const data = await this.candleStore.getCandles({
+      exchange: exchange || 'binance',
+      symbol: config.symbol,
+      timeframe: timeframe || (strategy.config as Record<string, any>).timeframe || '1h',
+      start: config.startDate,
+      end: config.endDate,
+    });
+
+    return { ...config, data };
+  }
+
+  /**
+   * Validate a backtest config and resolve its strategy, enforcing tier
+   * limits. Callers that run many trial simulations (e.g. the optimizer)
+   * prepare once and then call simulateBacktest.
+   */
+  async prepareBacktest(config: BacktestConfig): Promise<Strategy> {
     // Validate inputs
     await this.validateBacktestConfig(config);
 
@@ -155,13 +399,24 @@ export class BacktestService {
     // Check tier limits
     await this.checkTierLimits(strategy.userId, config);
 
-    // Run backtest simulation
-    const result = await this.executeBacktest(config, strategy);
+    return strategy;
+  }
 
-    // Persist and cache result
-    await this.saveResult(strategy.userId, result);
+  /**
+   * Run a simulation without persisting it to history. Strategy config
+   * overrides are merged over the stored config for this run only.
+   */
+  async simulateBacktest(
+    config: BacktestConfig,
+    strategy: Strategy,
+    configOverrides: Record<string, any> = {}
+  ): Promise<BacktestResult> {
+    await this.validateBacktestConfig(config);
 
-    return result;
+    return this.executeBacktest(config, {
+      ...strategy,
+      config: { ...strategy.config, ...configOverrides },
+    });
   }
 
   private async validateBacktestConfig(config: BacktestConfig): Promise<void> {
@@ -176,9 +431,13 @@ export class BacktestService {
     if (!config.data || config.data.length === 0) {
       throw new Error('No data provided for backtest');
     }
+
+    if (config.fundingRates?.length && !isPerpetualSymbol(config.symbol)) {
+      throw new Error('Funding rates only apply to perpetual symbols');
+    }
   }
 
-  private async checkTierLimits(userId: string, config: BacktestConfig): Promise<void> {
+  private async checkTierLimits(userId: string, config: Pick<BacktestConfig, 'startDate' | 'endDate'>): Promise<void> {
     const user = await this.db.users.findById(userId);
     if (!user) {
       throw new Error('User not found');
@@ -201,7 +460,10 @@ export class BacktestService {
     const commission = config.commission ?? 0.1; // 0.1% default
 
     // Generate signals based on strategy type
-    const signals = this.generateSignals(strategy.type, config.data, strategy.config);
+    const signals = this.generateSignals(strategy.type, config.data, strategy.config, {
+      venues: config.venues,
+      sentiment: config.sentiment,
+    });
 
     // Simulate trades
     const { trades, equityCurve } = this.simulateTrades(
@@ -209,11 +471,16 @@ export class BacktestService {
       signals,
       config.initialCapital,
       slippage,
-      commission
+      commission,
+      this.resolveExecution(config.execution, this.riskConfig(strategy)),
+      config.fundingRates
     );
 
     // Calculate metrics
     const metrics = this.calculateMetrics(trades, equityCurve, config.initialCapital);
+    if (config.fundingRates?.length) {
+      metrics.totalFunding = trades.reduce((sum, t) => sum + (t.fundingPnl || 0), 0);
+    }
 
     return {
       id: uuidv4(),
@@ -229,11 +496,27 @@ export class BacktestService {
     };
   }
 
+  /**
+   * Strategy config used for stops and targets. A custom strategy's stop
+   * clause takes precedence over the default risk parameters.
+   */
+  private riskConfig(strategy: Strategy): Record<string, any> {
+    const config = (strategy.config || {}) as Record<string, any>;
+    return strategy.type === 'custom' && config.rules?.stop
+      ? { ...config, ...config.rules.stop }
+      : config;
+  }
+
   // ============================================================================
   // Signal Generation
   // ============================================================================
 
-  generateSignals(type: StrategyType, data: OHLCV[], config: Record<string, any>): Signal[] {
+  generateSignals(
+    type: StrategyType,
+    data: OHLCV[],
+    config: Record<string, any>,
+    inputs: SignalInputs = {}
+  ): Signal[] {
     switch (type) {
       case 'momentum':
         return this.generateMomentumSignals(data, config);
@@ -241,8 +524,17 @@ export class BacktestService {
         return this.generateMeanReversionSignals(data, config);
       case 'trend_following':
         return this.generateTrendFollowingSignals(data, config);
+      case 'sentiment':
+        return this.generateSentimentSignals(data, config, inputs.sentiment);
+      case 'arbitrage':
+        return this.generateArbitrageSignals(data, config, inputs.venues);
+      case 'custom':
+        if (!config.rules) {
+          throw new Error('Custom strategies require a rules definition');
+        }
+        return this.ruleStrategyService.generateSignals(data, config.rules);
       default:
-        return this.generateMomentumSignals(data, config);
+        throw new Error(`Unsupported strategy type for backtesting: ${type}`);
     }
   }
 
@@ -418,99 +710,568 @@ export class BacktestService {
     return signals;
   }
 
+  /**
+   * Trade in the direction of the latest sentiment reading. Scores (-1..1)
+   * are normalized to 0..1 so thresholds match the strategy config
+   * convention (bullishThreshold 0.6, bearishThreshold 0.4). Readings below
+   * minConfidence or older than maxSentimentAgeHours count as neutral.
+   */
+  private generateSentimentSignals(
+    data: OHLCV[],
+    config: Record<string, any>,
+    sentiment: SentimentPoint[] | undefined
+  ): Signal[] {
+    if (!sentiment || sentiment.length === 0) {
+      throw new Error('Sentiment backtests require a sentiment score series');
+    }
+
+    const signals: Signal[] = [];
+    const bullishThreshold = config.bullishThreshold ?? 0.6;
+    const bearishThreshold = config.bearishThreshold ?? 0.4;
+    const minConfidence = config.minConfidence ?? 0.5;
+    const maxAgeMs = (config.maxSentimentAgeHours ?? 24) * 60 * 60 * 1000;
+
+    const readings = [...sentiment].sort((a, b) => a.timestamp - b.timestamp);
+    let cursor = -1;
+
+    let inPosition = false;
+    let positionSide: 'long' | 'short' = 'long';
+
+    for (let i = 0; i < data.length; i++) {
+      // Advance to the latest reading published at or before this bar
+      while (cursor + 1 < readings.length && readings[cursor + 1].timestamp <= data[i].timestamp) {
+        cursor++;
+      }
+
+      const reading = cursor >= 0 ? readings[cursor] : undefined;
+      const usable = reading !== undefined
+        && reading.confidence >= minConfidence
+        && data[i].timestamp - reading.timestamp <= maxAgeMs;
+      const level = usable ? (reading!.score + 1) / 2 : 0.5;
+
+      const bias: 'long' | 'short' | null = level >= bullishThreshold
+        ? 'long'
+        : level <= bearishThreshold ? 'short' : null;
+
+      if (inPosition && bias !== positionSide) {
+        signals.push({
+          timestamp: data[i].timestamp,
+          type: 'exit',
+          side: positionSide,
+          price: data[i].close,
+        });
+        inPosition = false;
+      }
+
+      if (!inPosition && bias) {
+        signals.push({
+          timestamp: data[i].timestamp,
+          type: 'entry',
+          side: bias,
+          price: data[i].close,
+          strength: Math.abs(reading!.score) * reading!.confidence,
+        });
+        inPosition = true;
+        positionSide = bias;
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Cross-exchange spread arbitrage on the traded venue. The spread is
+   * measured against the median close of the other venues at the same
+   * timestamp: a discount beyond minSpreadPercent buys, a premium sells,
+   * and the position closes once the spread narrows to exitSpreadPercent.
+   */
+  private generateArbitrageSignals(
+    data: OHLCV[],
+    config: Record<string, any>,
+    venues: Record<string, OHLCV[]> | undefined
+  ): Signal[] {
+    const references = Object.values(venues || {}).filter(series => series.length > 0);
+    if (references.length === 0) {
+      throw new Error('Arbitrage backtests require OHLCV from at least one other exchange');
+    }
+
+    const signals: Signal[] = [];
+    const entrySpread = config.minSpreadPercent ?? 0.5;
+    const exitSpread = config.exitSpreadPercent ?? entrySpread / 5;
+    const closesByVenue = references.map(series => new Map(series.map(bar => [bar.timestamp, bar.close])));
+
+    let inPosition = false;
+    let positionSide: 'long' | 'short' = 'long';
+
+    for (const bar of data) {
+      const aligned = closesByVenue
+        .map(closes => closes.get(bar.timestamp))
+        .filter((close): close is number => close !== undefined)
+        .sort((a, b) => a - b);
+      if (aligned.length === 0) continue;
+
+      const mid = Math.floor(aligned.length / 2);
+      const reference = aligned.length % 2 === 0 ? (aligned[mid - 1] + aligned[mid]) / 2 : aligned[mid];
+      const spread = ((bar.close - reference) / reference) * 100;
+
+      if (!inPosition) {
+        if (spread <= -entrySpread || spread >= entrySpread) {
+          positionSide = spread < 0 ? 'long' : 'short';
+          signals.push({
+            timestamp: bar.timestamp,
+            type: 'entry',
+            side: positionSide,
+            price: bar.close,
+            strength: Math.abs(spread),
+          });
+          inPosition = true;
+        }
+      } else {
+        const converged = positionSide === 'long' ? spread >= -exitSpread : spread <= exitSpread;
+        if (converged) {
+          signals.push({
+            timestamp: bar.timestamp,
+            type: 'exit',
+            side: positionSide,
+            price: bar.close,
+          });
+          inPosition = false;
+        }
+      }
+    }
+
+    return signals;
+  }
+
   // ============================================================================
   // Trade Simulation
   // ============================================================================
 
+  private resolveExecution(
+    options: BacktestExecutionOptions | undefined,
+    strategyConfig: Record<string, any>
+  ): ResolvedExecution {
+    const strategyStopPercent = Number(strategyConfig.stopLossPercent) || 0;
+    const strategyTargetPercent = Number(strategyConfig.takeProfitPercent) || 0;
+
+    let stopLoss: StopLossOptions | undefined;
+    if (options?.stopLoss !== undefined) {
+      stopLoss = options.stopLoss || undefined;
+    } else if (strategyStopPercent > 0) {
+      stopLoss = { riskPercentage: strategyStopPercent / 100 };
+    }
+
+    let takeProfit: TakeProfitTarget[] = [];
+    if (options?.takeProfit !== undefined) {
+      takeProfit = options.takeProfit || [];
+    } else if (stopLoss && strategyStopPercent > 0 && strategyTargetPercent > 0) {
+      takeProfit = [{ riskRewardRatio: strategyTargetPercent / strategyStopPercent, closeFraction: 1 }];
+    }
+
+    if (takeProfit.length > 0 && !stopLoss) {
+      throw new Error('Take-profit targets require a stop loss to measure risk');
+    }
+
+    const maxEntries = Math.max(1, Math.floor(options?.pyramiding?.maxEntries ?? 1));
+
+    return {
+      positionSizing: options?.positionSizing,
+      stopLoss,
+      takeProfit,
+      maxEntries,
+      scaleInPercent: options?.pyramiding?.scaleInPercent,
+    };
+  }
+
+  /**
+   * Event-driven simulation: walks the bars in order, checking each bar's
+   * high/low against open stop and target levels before acting on that
+   * bar's close signals, then marks the position to market at the close.
+   * When a stop and a target are both inside the same bar the stop is
+   * assumed to fill first, since intrabar ordering is unknown.
+   */
   private simulateTrades(
     data: OHLCV[],
     signals: Signal[],
     initialCapital: number,
     slippage: number,
-    commission: number
+    commission: number,
+    execution: ResolvedExecution,
+    fundingRates: FundingPoint[] = []
   ): { trades: TradeRecord[]; equityCurve: EquityPoint[] } {
     const trades: TradeRecord[] = [];
     const equityCurve: EquityPoint[] = [];
 
-    let capital = initialCapital;
-    let position: TradeRecord | null = null;
+    const signalsByTime = new Map<number, Signal[]>();
+    for (const signal of signals) {
+      const existing = signalsByTime.get(signal.timestamp) || [];
+      existing.push(signal);
+      signalsByTime.set(signal.timestamp, existing);
+    }
+
+    // Cash holds realized equity; open P&L is added when marking to market.
+    let cash = initialCapital;
+    let position: OpenPosition | null = null;
     let peakEquity = initialCapital;
+    const ctx: SimulationContext = { data, trades, execution, slippage, commission };
+
+    const funding = [...fundingRates].sort((a, b) => a.timestamp - b.timestamp);
+    let nextFunding = 0;
+
+    const closeQuantity = (
+      open: OpenPosition,
+      quantity: number,
+      rawPrice: number,
+      timestamp: number,
+      reason: TradeExitReason
+    ): void => {
+      const exitPrice = this.applySlippage(rawPrice, open.side, false, slippage);
+      const grossPnl = open.side === 'long'
+        ? (exitPrice - open.entryPrice) * quantity
+        : (open.entryPrice - exitPrice) * quantity;
+      const exitFee = quantity * exitPrice * (commission / 100);
+      const entryFee = open.entryFees * (quantity / open.quantity);
+      const fundingPnl = open.fundingPnl * (quantity / open.quantity);
+      const pnl = grossPnl - exitFee - entryFee + fundingPnl;
+
+      // Funding was settled into cash as it accrued
+      cash += grossPnl - exitFee;
+      open.entryFees -= entryFee;
+      open.fundingPnl -= fundingPnl;
+      open.quantity -= quantity;
+
+      trades.push({
+        id: uuidv4(),
+        entryTime: open.entryTime,
+        entryPrice: open.entryPrice,
+        exitTime: timestamp,
+        exitPrice,
+        side: open.side,
+        quantity,
+        pnl,
+        pnlPercent: (pnl / (open.entryPrice * quantity)) * 100,
+        ...(funding.length > 0 && { fundingPnl }),
+        exitReason: reason,
+      });
+    };
+
+    const markEquity = (price: number): number => {
+      if (!position) return cash;
+      const unrealized = position.side === 'long'
+        ? (price - position.entryPrice) * position.quantity
+        : (position.entryPrice - price) * position.quantity;
+      return cash + unrealized;
+    };
 
     // Initialize equity curve with starting point
     equityCurve.push({
       timestamp: data[0]?.timestamp || 0,
-      equity: capital,
+      equity: cash,
       drawdown: 0,
     });
 
-    for (const signal of signals) {
-      if (signal.type === 'entry' && !position) {
-        // Apply slippage to entry
-        const entryPrice = signal.side === 'long'
-          ? signal.price * (1 + slippage / 100)
-          : signal.price * (1 - slippage / 100);
-
-        // Calculate position size (use 95% of capital to account for commission)
-        const positionValue = capital * 0.95;
-        const quantity = positionValue / entryPrice;
-
-        // Apply commission
-        capital -= positionValue * (commission / 100);
-
-        position = {
-          id: uuidv4(),
-          entryTime: signal.timestamp,
-          entryPrice,
-          side: signal.side,
-          quantity,
-        };
-      } else if (signal.type === 'exit' && position) {
-        // Apply slippage to exit
-        const exitPrice = position.side === 'long'
-          ? signal.price * (1 - slippage / 100)
-          : signal.price * (1 + slippage / 100);
-
-        // Calculate P&L
-        const pnl = position.side === 'long'
-          ? (exitPrice - position.entryPrice) * position.quantity
-          : (position.entryPrice - exitPrice) * position.quantity;
-
-        // Apply commission
-        const commissionCost = position.quantity * exitPrice * (commission / 100);
-        capital += position.quantity * exitPrice - commissionCost;
-
-        // Complete trade record
-        const completedTrade: TradeRecord = {
-          ...position,
-          exitTime: signal.timestamp,
-          exitPrice,
-          pnl: pnl - commissionCost,
-          pnlPercent: ((pnl - commissionCost) / (position.entryPrice * position.quantity)) * 100,
-        };
-
-        trades.push(completedTrade);
-        position = null;
-
-        // Update equity curve
-        peakEquity = Math.max(peakEquity, capital);
-        const drawdown = ((peakEquity - capital) / peakEquity) * 100;
-
-        equityCurve.push({
-          timestamp: signal.timestamp,
-          equity: capital,
-          drawdown,
-        });
+    for (let i = 0; i < data.length; i++) {
+      const bar = data[i];
+
+      // 0. Funding settled since the previous close, at this bar's open. Longs
+      // pay shorts when the rate is positive.
+      while (nextFunding < funding.length && funding[nextFunding].timestamp <= bar.timestamp) {
+        const { timestamp, rate } = funding[nextFunding++];
+        if (!position || i === 0 || timestamp <= data[i - 1].timestamp) continue;
+
+        const payment = position.quantity * bar.open * rate;
+        const amount = position.side === 'long' ? -payment : payment;
+        position.fundingPnl += amount;
+        cash += amount;
+      }
+
+      // 1. Intrabar stop-loss / take-profit checks for positions opened on earlier bars
+      if (position && i > position.openedIndex) {
+        if (this.applyIntrabarExits(position, bar, execution, closeQuantity)) {
+          position = null;
+        }
       }
+
+      // 2. Close-of-bar signals
+      let addedThisBar = false;
+      for (const signal of signalsByTime.get(bar.timestamp) || []) {
+        if (signal.type === 'exit') {
+          if (position && position.side === signal.side) {
+            closeQuantity(position, position.quantity, signal.price, bar.timestamp, 'signal');
+            position = null;
+          }
+          continue;
+        }
+
+        if (!position) {
+          position = this.openLayer(ctx, null, signal.side, signal.price, i, cash);
+          if (position) cash -= position.entryFees;
+          addedThisBar = true;
+        } else if (position.side === signal.side && position.entries < execution.maxEntries) {
+          const feesBefore = position.entryFees;
+          this.openLayer(ctx, position, signal.side, signal.price, i, markEquity(bar.close));
+          cash -= position.entryFees - feesBefore;
+          addedThisBar = true;
+        }
+      }
+
+      // 3. Scale into winners once price has moved far enough from the last fill
+      if (position && !addedThisBar && execution.scaleInPercent && position.entries < execution.maxEntries) {
+        const move = position.side === 'long'
+          ? (bar.close - position.lastFillPrice) / position.lastFillPrice
+          : (position.lastFillPrice - bar.close) / position.lastFillPrice;
+
+        if (move * 100 >= execution.scaleInPercent) {
+          const feesBefore = position.entryFees;
+          this.openLayer(ctx, position, position.side, bar.close, i, markEquity(bar.close));
+          cash -= position.entryFees - feesBefore;
+        }
+      }
+
+      // 4. Mark to market at the close
+      const equity = markEquity(bar.close);
+      peakEquity = Math.max(peakEquity, equity);
+
+      equityCurve.push({
+        timestamp: bar.timestamp,
+        equity,
+        drawdown: peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0,
+      });
+    }
+
+    // Close anything still open on the final bar so metrics reflect realized equity
+    if (position && data.length > 0) {
+      const lastBar = data[data.length - 1];
+      closeQuantity(position, position.quantity, lastBar.close, lastBar.timestamp, 'end_of_data');
+      position = null;
+
+      peakEquity = Math.max(peakEquity, cash);
+      equityCurve[equityCurve.length - 1] = {
+        timestamp: lastBar.timestamp,
+        equity: cash,
+        drawdown: peakEquity > 0 ? ((peakEquity - cash) / peakEquity) * 100 : 0,
+      };
     }
 
     return { trades, equityCurve };
   }
 
+  /**
+   * Open a new position or add a pyramid layer to an existing one. Returns
+   * null when the sizing rules produce no tradable quantity.
+   */
+  private openLayer(
+    ctx: SimulationContext,
+    position: OpenPosition | null,
+    side: 'long' | 'short',
+    rawPrice: number,
+    index: number,
+    equity: number
+  ): OpenPosition | null {
+    const { data, execution, commission } = ctx;
+    const fillPrice = this.applySlippage(rawPrice, side, true, ctx.slippage);
+    const stopPrice = this.computeStopPrice(fillPrice, side, data, index, execution.stopLoss);
+
+    let quantity = this.computeEntryQuantity(ctx, fillPrice, stopPrice, index, equity);
+
+    // Never exceed available equity in notional terms (no leverage in backtests)
+    const currentNotional = position ? position.quantity * position.entryPrice : 0;
+    const maxNotional = Math.max(0, equity * 0.95 - currentNotional);
+    quantity = Math.min(quantity, maxNotional / fillPrice);
+
+    if (!(quantity > 0)) {
+      return position;
+    }
+
+    const fee = quantity * fillPrice * (commission / 100);
+
+    if (!position) {
+      return {
+        id: uuidv4(),
+        side,
+        entryTime: data[index].timestamp,
+        entryPrice: fillPrice,
+        quantity,
+        entryFees: fee,
+        fundingPnl: 0,
+        entries: 1,
+        lastFillPrice: fillPrice,
+        openedIndex: index,
+        stopPrice,
+        nextTarget: 0,
+      };
+    }
+
+    const totalQuantity = position.quantity + quantity;
+    position.entryPrice = (position.entryPrice * position.quantity + fillPrice * quantity) / totalQuantity;
+    position.quantity = totalQuantity;
+    position.entryFees += fee;
+    position.entries += 1;
+    position.lastFillPrice = fillPrice;
+    // Re-anchor the stop on the blended entry so targets stay R-multiples of the whole position
+    position.stopPrice = this.computeStopPrice(position.entryPrice, side, data, index, execution.stopLoss);
+
+    return position;
+  }
+
+  private applySlippage(price: number, side: 'long' | 'short', opening: boolean, slippage: number): number {
+    // Buying (long entry, short exit) pays up; selling receives less
+    const adverse = (side === 'long') === opening ? 1 : -1;
+    return price * (1 + adverse * (slippage / 100));
+  }
+
+  private computeStopPrice(
+    entryPrice: number,
+    side: 'long' | 'short',
+    data: OHLCV[],
+    index: number,
+    stopLoss?: StopLossOptions
+  ): number | undefined {
+    if (!stopLoss) return undefined;
+
+    const atr = stopLoss.atrPeriod ? this.calculateAtr(data, index, stopLoss.atrPeriod) : undefined;
+
+    return calculateStopLoss({
+      entryPrice,
+      riskPercentage: stopLoss.riskPercentage ?? 0.02,
+      direction: side,
+      atr,
+      atrMultiplier: stopLoss.atrMultiplier,
+    });
+  }
+
+  private computeEntryQuantity(
+    ctx: SimulationContext,
+    entryPrice: number,
+    stopPrice: number | undefined,
+    index: number,
+    equity: number
+  ): number {
+    const { data, trades, execution } = ctx;
+    const sizing = execution.positionSizing;
+
+    // Default: split 95% of equity evenly across the allowed pyramid layers
+    if (!sizing) {
+      return (equity * 0.95) / execution.maxEntries / entryPrice;
+    }
+
+    const closed = trades.map(t => ({ pnl: t.pnl || 0 }));
+    const stats = closed.length > 0 ? calculateTradeStats(closed) : null;
+
+    let volatility: number | undefined;
+    let avgVolatility: number | undefined;
+    if (sizing.method === 'volatility_adjusted') {
+      const period = sizing.volatilityPeriod ?? 14;
+      const atr = this.calculateAtr(data, index, period);
+      if (atr !== undefined) {
+        volatility = atr / data[index].close;
+        const history: number[] = [];
+        for (let j = period; j <= index; j++) {
+          const pastAtr = this.calculateAtr(data, j, period);
+          if (pastAtr !== undefined) history.push(pastAtr / data[j].close);
+        }
+        avgVolatility = history.reduce((a, b) => a + b, 0) / history.length;
+      }
+    }
+
+    const { riskAmount } = calculatePositionSize({
+      method: sizing.method,
+      accountBalance: equity,
+      riskPercentage: sizing.riskPercentage,
+      fixedAmount: sizing.fixedAmount,
+      winRate: stats && stats.winningTrades + stats.losingTrades > 0 ? stats.winRate : sizing.winRate,
+      avgWin: stats && stats.avgWin > 0 ? stats.avgWin : sizing.avgWin,
+      avgLoss: stats && stats.avgLoss > 0 ? stats.avgLoss : sizing.avgLoss,
+      volatility,
+      avgVolatility,
+    });
+
+    // With a stop, the risk amount is what is lost if the stop fills;
+    // without one it is treated as the position's notional value.
+    const riskPerUnit = stopPrice !== undefined ? Math.abs(entryPrice - stopPrice) : entryPrice;
+    return riskPerUnit > 0 ? riskAmount / riskPerUnit : 0;
+  }
+
+  /**
+   * Check a bar's range against the position's stop and targets. Returns
+   * true when the position has been fully closed.
+   */
+  private applyIntrabarExits(
+    position: OpenPosition,
+    bar: OHLCV,
+    execution: ResolvedExecution,
+    closeQuantity: (
+      open: OpenPosition,
+      quantity: number,
+      rawPrice: number,
+      timestamp: number,
+      reason: TradeExitReason
+    ) => void
+  ): boolean {
+    const isLong = position.side === 'long';
+
+    if (position.stopPrice !== undefined) {
+      const stopHit = isLong ? bar.low <= position.stopPrice : bar.high >= position.stopPrice;
+      if (stopHit) {
+        // A gap through the stop fills at the open, not the stop price
+        const fill = isLong ? Math.min(bar.open, position.stopPrice) : Math.max(bar.open, position.stopPrice);
+        closeQuantity(position, position.quantity, fill, bar.timestamp, 'stop_loss');
+        return true;
+      }
+    }
+
+    while (position.stopPrice !== undefined && position.nextTarget < execution.takeProfit.length) {
+      const target = execution.takeProfit[position.nextTarget];
+      const targetPrice = calculateTakeProfit({
+        entryPrice: position.entryPrice,
+        stopLoss: position.stopPrice,
+        riskRewardRatio: target.riskRewardRatio,
+        direction: position.side,
+      });
+
+      const targetHit = isLong ? bar.high >= targetPrice : bar.low <= targetPrice;
+      if (!targetHit) break;
+
+      const fill = isLong ? Math.max(bar.open, targetPrice) : Math.min(bar.open, targetPrice);
+      const isLast = position.nextTarget === execution.takeProfit.length - 1;
+      const fraction = isLast ? 1 : Math.min(1, Math.max(0, target.closeFraction));
+      position.nextTarget += 1;
+
+      if (fraction >= 1) {
+        closeQuantity(position, position.quantity, fill, bar.timestamp, 'take_profit');
+        return true;
+      }
+      if (fraction > 0) {
+        closeQuantity(position, position.quantity * fraction, fill, bar.timestamp, 'take_profit');
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Simple-average true range over the `period` bars ending at `index`.
+   */
+  private calculateAtr(data: OHLCV[], index: number, period: number): number | undefined {
+    if (index < period) return undefined;
+
+    let sum = 0;
+    for (let j = index - period + 1; j <= index; j++) {
+      const prevClose = data[j - 1].close;
+      sum += Math.max(
+        data[j].high - data[j].low,
+        Math.abs(data[j].high - prevClose),
+        Math.abs(data[j].low - prevClose)
+      );
+    }
+    return sum / period;
+  }
+
   // ============================================================================
   // Metrics Calculation
   // ============================================================================
 
-  private calculateMetrics(
+  calculateMetrics(
     trades: TradeRecord[],
     equityCurve: EquityPoint[],
     initialCapital: number
@@ -570,12 +1331,17 @@ export class BacktestService {
   // History & Comparison
   // ============================================================================
 
+  /**
+   * Persist a completed run. Runs are only kept in memory when there is no
+   * repository or the write fails, so stored runs are always read back from
+   * the database.
+   */
   private async saveResult(userId: string, result: BacktestResult): Promise<void> {
-    // Persist to DB if a backtest repository is available
     const repo = this.db?.backtests;
     if (repo && typeof repo.create === 'function' && typeof repo.update === 'function') {
       try {
         const created = await repo.create({
+          id: result.id,
           userId,
           strategyId: result.strategyId,
           symbol: result.symbol,
@@ -589,35 +1355,161 @@ export class BacktestService {
           finalCapital: result.metrics.finalCapital,
           metrics: result.metrics,
           trades: result.trades,
-          equityCurve: result.equityCurve.map(point => point.equity),
-          completedAt: result.endDate,
+          equityCurve: result.equityCurve,
+          completedAt: result.createdAt,
         });
+        return;
       } catch {
         // If persistence fails, continue with in-memory storage only
       }
     }
 
-    this.storeResult(result.strategyId, result);
+    this.storeResult(userId, result);
   }
 
-  private storeResult(strategyId: string, result: BacktestResult): void {
-    const existing = this.backtestResults.get(strategyId) || [];
+  private storeResult(userId: string, result: BacktestResult): void {
+    const existing = this.backtestResults.get(result.strategyId) || [];
     existing.push(result);
-    this.backtestResults.set(strategyId, existing);
+    this.backtestResults.set(result.strategyId, existing);
+    this.backtestOwners.set(result.id, userId);
+
+    // Maps keep insertion order, so the first owner entry is the oldest run
+    while (this.backtestOwners.size > MAX_UNSTORED_RESULTS) {
+      const oldestId = this.backtestOwners.keys().next().value as string;
+      this.backtestOwners.delete(oldestId);
+      for (const [strategyId, results] of this.backtestResults) {
+        const remaining = results.filter(r => r.id !== oldestId);
+        if (remaining.length === results.length) continue;
+        if (remaining.length > 0) {
+          this.backtestResults.set(strategyId, remaining);
+        } else {
+          this.backtestResults.delete(strategyId);
+        }
+        break;
+      }
+    }
   }
 
+  /**
+   * Completed backtests for a strategy, oldest first. Stored runs are
+   * merged with this process's results, so history survives restarts and
+   * a failed write does not hide a run.
+   */
   async getBacktestHistory(strategyId: string): Promise<BacktestResult[]> {
-    return this.backtestResults.get(strategyId) || [];
+    const results = new Map<string, BacktestResult>();
+
+    const repo = this.db?.backtests;
+    if (repo && typeof repo.findByStrategyId === 'function') {
+      try {
+        // Rows come back newest first
+        const rows: Backtest[] = await repo.findByStrategyId(strategyId);
+        rows
+          .filter(row => row.status === 'completed')
+          .reverse()
+          .forEach(row => results.set(row.id, rowToResult(row)));
+      } catch {
+        // Fall back to results from this process
+      }
+    }
+
+    for (const result of this.backtestResults.get(strategyId) || []) {
+      results.set(result.id, result);
+    }
+
+    return Array.from(results.values())
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getLatestCompletedBacktest(strategyId: string): Promise<BacktestResult | null> {
+    const history = await this.getBacktestHistory(strategyId);
+    return history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  /**
+   * A completed backtest owned by the user, or null.
+   */
+  async getBacktestResult(backtestId: string, userId: string): Promise<BacktestResult | null> {
+    const owner = this.backtestOwners.get(backtestId);
+    if (owner !== undefined) {
+      if (owner !== userId) return null;
+      for (const results of this.backtestResults.values()) {
+        const result = results.find(r => r.id === backtestId);
+        if (result) return result;
+      }
+    }
+
+    const repo = this.db?.backtests;
+    if (!repo || typeof repo.findById !== 'function') return null;
+
+    const row: Backtest | null = await repo.findById(backtestId);
+    if (!row || row.status !== 'completed' || row.userId !== userId) return null;
+    return rowToResult(row);
+  }
+
+  /**
+   * Page through a user's completed backtests, newest first.
+   */
+  async queryBacktests(userId: string, query: BacktestHistoryQuery = {}): Promise<BacktestHistoryPage> {
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? 20), 1), 100);
+    const offset = Math.max(Math.floor(query.offset ?? 0), 0);
+
+    const repo = this.db?.backtests;
+    if (repo && typeof repo.search === 'function') {
+      const { rows, total }: { rows: Backtest[]; total: number } = await repo.search({ ...query, userId, limit, offset });
+      return { items: rows.map(row => toSummary(rowToResult(row))), total, limit, offset };
+    }
+
+    // Reversed first so runs created in the same millisecond stay newest first
+    const matches = Array.from(this.backtestResults.values())
+      .flatMap(results => results.slice().reverse())
+      .filter(result => this.backtestOwners.get(result.id) === userId && matchesQuery(result, query))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return {
+      items: matches.slice(offset, offset + limit).map(toSummary),
+      total: matches.length,
+      limit,
+      offset,
+    };
   }
 
   compareBacktests(results: BacktestResult[]): BacktestComparison[] {
     return results.map(result => ({
       backtestId: result.id,
-      strategyName: result.strategyId, // Would resolve to actual name in production
+      strategyId: result.strategyId,
+      strategyName: result.strategyId,
+      symbol: result.symbol,
       totalReturn: result.metrics.totalReturn,
       sharpeRatio: result.metrics.sharpeRatio,
       maxDrawdown: result.metrics.maxDrawdown,
       winRate: result.metrics.winRate,
+      profitFactor: result.metrics.profitFactor,
+      totalTrades: result.metrics.totalTrades,
+    }));
+  }
+
+  /**
+   * Compare stored runs the user owns, resolving strategy names.
+   */
+  async compareStoredBacktests(userId: string, backtestIds: string[]): Promise<BacktestComparison[]> {
+    const results: BacktestResult[] = [];
+    for (const backtestId of backtestIds) {
+      const result = await this.getBacktestResult(backtestId, userId);
+      if (!result) {
+        throw new Error(`Backtest not found: ${backtestId}`);
+      }
+      results.push(result);
+    }
+
+    const names = new Map<string, string>();
+    for (const strategyId of new Set(results.map(result => result.strategyId))) {
+      const strategy = await this.strategyService.getStrategy(strategyId);
+      if (strategy) names.set(strategyId, strategy.name);
+    }
+
+    return this.compareBacktests(results).map(comparison => ({
+      ...comparison,
+      strategyName: names.get(comparison.strategyId) ?? comparison.strategyName,
     }));
   }
 
@@ -625,7 +1517,7 @@ export class BacktestService {
   // Risk Analysis
   // ============================================================================
 
-  analyzeRisk(result: BacktestResult): RiskAnalysis {
+  analyzeRisk(result: BacktestResult, options: { monteCarlo?: MonteCarloOptions } = {}): RiskAnalysis {
     const returns = result.equityCurve.map((point, i) => {
       if (i === 0) return 0;
       return (point.equity - result.equityCurve[i - 1].equity) / result.equityCurve[i - 1].equity;
@@ -668,7 +1560,7 @@ export class BacktestService {
       }
     }
 
-    return {
+    const analysis: RiskAnalysis = {
       valueAtRisk95: valueAtRisk95 * 100,
       valueAtRisk99: valueAtRisk99 * 100,
       sortinoRatio,
@@ -676,5 +1568,174 @@ export class BacktestService {
       maxConsecutiveLosses,
       avgDrawdownDuration: 0, // Would need more complex calculation
     };
+
+    if (options.monteCarlo) {
+      const monteCarlo = this.runMonteCarlo(result, options.monteCarlo);
+      if (monteCarlo) {
+        analysis.monteCarlo = monteCarlo;
+      }
+    }
+
+    return analysis;
+  }
+
+  // ============================================================================
+  // Monte Carlo Robustness
+  // ============================================================================
+
+  /**
+   * Resample a backtest's closed trades to see how much of its result came
+   * from trade ordering (shuffle) or from the particular trades drawn
+   * (bootstrap, sampling with replacement). Each trade is replayed as a
+   * return on the equity it was taken with, so paths compound the same way
+   * the original run did. Shuffling leaves final equity unchanged and only
+   * moves the drawdown distribution. Returns null when there are no closed
+   * trades or no starting capital to anchor the paths.
+   */
+  runMonteCarlo(result: BacktestResult, options: MonteCarloOptions = {}): MonteCarloAnalysis | null {
+    const method = options.method ?? 'shuffle';
+    const requested = Number.isFinite(options.iterations) ? (options.iterations as number) : 1000;
+    const iterations = Math.min(10000, Math.max(1, Math.floor(requested)));
+    const ruinThreshold = options.ruinThreshold ?? 50;
+    const random = createRandom(options.seed ?? 1);
+
+    const initialCapital = result.metrics?.initialCapital ?? result.equityCurve[0]?.equity;
+    const closed = result.trades.filter(t => typeof t.pnl === 'number');
+
+    if (!initialCapital || initialCapital <= 0 || closed.length === 0) {
+      return null;
+    }
+
+    // Convert P&L to returns on the equity available when each trade closed
+    const tradeReturns: number[] = [];
+    let realized = initialCapital;
+    for (const trade of closed) {
+      tradeReturns.push(realized > 0 ? (trade.pnl as number) / realized : 0);
+      realized += trade.pnl as number;
+    }
+
+    const finalEquities: number[] = [];
+    const maxDrawdowns: number[] = [];
+    const pathEquity: number[][] = tradeReturns.map(() => []);
+    let ruined = 0;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const path = method === 'bootstrap'
+        ? tradeReturns.map(() => tradeReturns[Math.floor(random() * tradeReturns.length)])
+        : this.shuffle(tradeReturns, random);
+
+      let equity = initialCapital;
+      let peak = initialCapital;
+      let maxDrawdown = 0;
+
+      path.forEach((tradeReturn, step) => {
+        equity = Math.max(0, equity * (1 + tradeReturn));
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+        pathEquity[step].push(equity);
+      });
+
+      finalEquities.push(equity);
+      maxDrawdowns.push(maxDrawdown);
+      if (maxDrawdown >= ruinThreshold) {
+        ruined++;
+      }
+    }
+
+    const equityBands: EquityBand[] = [{ trade: 0, p5: initialCapital, p50: initialCapital, p95: initialCapital }];
+    pathEquity.forEach((values, step) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      equityBands.push({
+        trade: step + 1,
+        p5: this.percentile(sorted, 5),
+        p50: this.percentile(sorted, 50),
+        p95: this.percentile(sorted, 95),
+      });
+    });
+
+    return {
+      method,
+      iterations,
+      ruinThreshold,
+      finalEquity: this.summarizeDistribution(finalEquities),
+      totalReturn: this.summarizeDistribution(
+        finalEquities.map(equity => ((equity - initialCapital) / initialCapital) * 100)
+      ),
+      maxDrawdown: this.summarizeDistribution(maxDrawdowns),
+      ruinProbability: ruined / iterations,
+      equityBands,
+    };
   }
+
+  private shuffle<T>(values: T[], random: () => number): T[] {
+    const shuffled = [...values];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private summarizeDistribution(values: number[]): DistributionSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      mean: values.reduce((a, b) => a + b, 0) / values.length,
+      p5: this.percentile(sorted, 5),
+      p25: this.percentile(sorted, 25),
+      p50: this.percentile(sorted, 50),
+      p75: this.percentile(sorted, 75),
+      p95: this.percentile(sorted, 95),
+    };
+  }
+
+  /**
+   * Linear-interpolated percentile of an ascending-sorted array.
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+}
+
+// ============================================================================
+// Stored Backtest Helpers
+// ============================================================================
+
+function rowToResult(row: Backtest): BacktestResult {
+  // Metrics, trades and the equity curve are stored as the JSON of a BacktestResult
+  return {
+    id: row.id,
+    strategyId: row.strategyId,
+    symbol: row.symbol,
+    startDate: new Date(row.startDate),
+    endDate: new Date(row.endDate),
+    status: row.status === 'failed' ? 'failed' : 'completed',
+    metrics: (row.metrics || {}) as unknown as BacktestMetrics,
+    trades: (row.trades || []) as unknown as TradeRecord[],
+    equityCurve: (row.equityCurve || []) as unknown as EquityPoint[],
+    createdAt: new Date(row.createdAt),
+  };
+}
+
+function toSummary(result: BacktestResult): BacktestSummary {
+  const { trades, equityCurve, ...summary } = result;
+  return summary;
+}
+
+function matchesQuery(result: BacktestResult, query: BacktestHistoryQuery): boolean {
+  const { metrics } = result;
+  return (
+    (!query.strategyId || result.strategyId === query.strategyId) &&
+    (!query.symbol || result.symbol === query.symbol) &&
+    (!query.from || new Date(result.startDate) >= query.from) &&
+    (!query.to || new Date(result.endDate) <= query.to) &&
+    (query.minTotalReturn === undefined || metrics.totalReturn >= query.minTotalReturn) &&
+    (query.minSharpeRatio === undefined || metrics.sharpeRatio >= query.minSharpeRatio) &&
+    (query.maxDrawdown === undefined || metrics.maxDrawdown <= query.maxDrawdown) &&
+    (query.minWinRate === undefined || metrics.winRate >= query.minWinRate) &&
+    (query.minTrades === undefined || metrics.totalTrades >= query.minTrades)
+  );
 }
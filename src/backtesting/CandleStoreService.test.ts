@@ -0,0 +1,324 @@
+/**
+ * CandleStoreService Tests
+ * Tests for candle download, caching, gap backfill and resampling
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CandleStoreService, CandleRepository, CandleGapRepository, StoredCandle, timeframeToMs } from './CandleStoreService';
+import { BacktestService, OHLCV } from './BacktestService';
+import type { ExchangeAdapter } from '../exchanges/ExchangeService';
+import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
+import { ConfigService } from '../config/ConfigService';
+import { StrategyService } from '../strategies/StrategyService';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function createMemoryRepository(): CandleRepository & { rows: Map<string, StoredCandle> } {
+  const rows = new Map<string, StoredCandle>();
+  return {
+    rows,
+    upsertMany: async (candles: StoredCandle[]) => {
+      candles.forEach(c => rows.set(`${c.exchange}|${c.symbol}|${c.timeframe}|${c.timestamp}`, c));
+      return candles.length;
+    },
+    findRange: async (exchange, symbol, timeframe, start, end) =>
+      Array.from(rows.values())
+        .filter(c => c.exchange === exchange && c.symbol === symbol && c.timeframe === timeframe)
+        .filter(c => c.timestamp >= start && c.timestamp <= end)
+        .sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
+function createMemoryGapRepository(): CandleGapRepository & { rows: any[] } {
+  const rows: any[] = [];
+  return {
+    rows,
+    insertMany: async gaps => {
+      rows.push(...gaps);
+      return gaps.length;
+    },
+    findOverlapping: async (exchange, symbol, timeframe, start, end) =>
+      rows.filter(g => g.exchange === exchange && g.symbol === symbol && g.timeframe === timeframe)
+        .filter(g => g.startTime <= end && g.endTime >= start),
+  };
+}
+
+/**
+ * Serves hourly candles from START onward, honouring limit and since like
+ * the real adapters. Hours listed in `missing` are never returned.
+ */
+function createFakeAdapter(missing: number[] = []) {
+  const getOHLCV = vi.fn(async (_ctx: any, _symbol: string, timeframe: string, limit: number, since?: number) => {
+    const step = timeframeToMs(timeframe);
+    const candles: OHLCV[] = [];
+    for (let t = since ?? START; candles.length < limit && t < START + 1000 * HOUR; t += step) {
+      const hour = (t - START) / HOUR;
+      if (missing.includes(hour)) continue;
+      candles.push({ timestamp: t, open: 100 + hour, high: 101 + hour, low: 99 + hour, close: 100.5 + hour, volume: 10 });
+    }
+    return candles;
+  });
+
+  return { getOHLCV } as unknown as ExchangeAdapter & { getOHLCV: typeof getOHLCV };
+}
+
+describe('CandleStoreService', () => {
+  let repository: ReturnType<typeof createMemoryRepository>;
+  let adapter: ReturnType<typeof createFakeAdapter>;
+  let store: CandleStoreService;
+
+  const query = (hours: number) => ({
+    exchange: 'binance',
+    symbol: 'BTC/USDT',
+    timeframe: '1h',
+    start: START,
+    end: START + (hours - 1) * HOUR,
+  });
+
+  beforeEach(() => {
+    repository = createMemoryRepository();
+    adapter = createFakeAdapter();
+    store = new CandleStoreService({
+      db: { candles: repository },
+      adapterFactory: exchange => (exchange === 'binance' ? adapter : null),
+      pageSize: 10,
+      now: () => START + 10_000 * HOUR,
+    });
+  });
+
+  describe('getCandles', () => {
+    it('should_download_with_pagination_and_cache', async () => {
+      const candles = await store.getCandles(query(25));
+
+      expect(candles).toHaveLength(25);
+      expect(adapter.getOHLCV).toHaveBeenCalledTimes(3);
+      expect(adapter.getOHLCV.mock.calls[1][4]).toBe(START + 10 * HOUR);
+      expect(repository.rows.size).toBe(25);
+
+      const again = await store.getCandles(query(25));
+      expect(again).toEqual(candles);
+      expect(adapter.getOHLCV).toHaveBeenCalledTimes(3);
+    });
+
+    it('should_only_fetch_missing_ranges', async () => {
+      await store.getCandles(query(5));
+      adapter.getOHLCV.mockClear();
+
+      await store.getCandles(query(8));
+
+      expect(adapter.getOHLCV).toHaveBeenCalledTimes(1);
+      expect(adapter.getOHLCV.mock.calls[0][4]).toBe(START + 5 * HOUR);
+    });
+
+    it('should_reject_unknown_exchanges', async () => {
+      await expect(store.getCandles({ ...query(5), exchange: 'unknown' }))
+        .rejects.toThrow('No adapter configured for exchange: unknown');
+    });
+
+    it('should_not_request_candles_that_have_not_closed', async () => {
+      store = new CandleStoreService({
+        db: { candles: repository },
+        adapterFactory: () => adapter,
+        now: () => START + 3.5 * HOUR,
+      });
+
+      const candles = await store.getCandles(query(10));
+
+      expect(candles.map(c => c.timestamp)).toEqual([START, START + HOUR, START + 2 * HOUR]);
+    });
+  });
+
+  describe('sync', () => {
+    it('should_detect_and_backfill_interior_gaps', async () => {
+      await repository.upsertMany([0, 1, 4, 5].map(hour => ({
+        exchange: 'binance',
+        symbol: 'BTC/USDT',
+        timeframe: '1h',
+        timestamp: START + hour * HOUR,
+        open: 1, high: 1, low: 1, close: 1, volume: 1,
+      })));
+
+      const result = await store.sync(query(6));
+
+      expect(result.gapsFound).toEqual([{ start: START + 2 * HOUR, end: START + 3 * HOUR }]);
+      expect(result.fetched).toBe(2);
+      expect(result.remainingGaps).toEqual([]);
+    });
+
+    it('should_report_gaps_the_exchange_cannot_fill', async () => {
+      adapter = createFakeAdapter([3]);
+      store = new CandleStoreService({
+        db: { candles: repository },
+        adapterFactory: () => adapter,
+        now: () => START + 10_000 * HOUR,
+      });
+
+      const result = await store.sync(query(6));
+
+      expect(result.remainingGaps).toEqual([{ start: START + 3 * HOUR, end: START + 3 * HOUR }]);
+      expect(result.unfillableGaps).toEqual([{ start: START + 3 * HOUR, end: START + 3 * HOUR }]);
+    });
+
+    it('should_report_history_beyond_the_exchange_limit_as_unfillable', async () => {
+      // Like Kraken: only the latest 5 candles are served, whatever `since` is
+      const latest = START + 12 * HOUR;
+      const getOHLCV = vi.fn(async () =>
+        [4, 3, 2, 1, 0].map(back => ({
+          timestamp: latest - back * HOUR, open: 1, high: 1, low: 1, close: 1, volume: 1,
+        }))
+      );
+      store = new CandleStoreService({
+        db: { candles: repository },
+        adapterFactory: () => ({ getOHLCV }) as unknown as ExchangeAdapter,
+        now: () => latest + HOUR,
+      });
+
+      const result = await store.sync(query(13));
+
+      expect(result.fetched).toBe(5);
+      expect(result.unfillableGaps).toEqual([{ start: START, end: START + 7 * HOUR }]);
+      expect(result.remainingGaps).toEqual(result.unfillableGaps);
+      expect(getOHLCV).toHaveBeenCalledTimes(1);
+    });
+
+    it('should_not_request_recorded_unfillable_ranges_again', async () => {
+      const gaps = createMemoryGapRepository();
+      adapter = createFakeAdapter([3]);
+      store = new CandleStoreService({
+        db: { candles: repository, candleGaps: gaps },
+        adapterFactory: () => adapter,
+        now: () => START + 10_000 * HOUR,
+      });
+
+      await store.sync(query(6));
+      expect(gaps.rows).toEqual([
+        { exchange: 'binance', symbol: 'BTC/USDT', timeframe: '1h', startTime: START + 3 * HOUR, endTime: START + 3 * HOUR },
+      ]);
+      adapter.getOHLCV.mockClear();
+
+      const again = await store.sync(query(6));
+
+      expect(adapter.getOHLCV).not.toHaveBeenCalled();
+      expect(again).toMatchObject({
+        fetched: 0,
+        remainingGaps: [{ start: START + 3 * HOUR, end: START + 3 * HOUR }],
+        unfillableGaps: [{ start: START + 3 * HOUR, end: START + 3 * HOUR }],
+      });
+
+      // Only the part of a wider gap that was never checked is requested
+      await store.sync(query(8));
+      expect(adapter.getOHLCV).toHaveBeenCalledTimes(1);
+      expect(adapter.getOHLCV.mock.calls[0][4]).toBe(START + 6 * HOUR);
+    });
+
+    it('should_retry_recent_unfillable_ranges', async () => {
+      const gaps = createMemoryGapRepository();
+      adapter = createFakeAdapter([3]);
+      store = new CandleStoreService({
+        db: { candles: repository, candleGaps: gaps },
+        adapterFactory: () => adapter,
+        now: () => START + 6 * HOUR,
+      });
+
+      const result = await store.sync(query(6));
+
+      expect(result.unfillableGaps).toEqual([{ start: START + 3 * HOUR, end: START + 3 * HOUR }]);
+      expect(gaps.rows).toEqual([]);
+    });
+  });
+
+  describe('resample', () => {
+    it('should_aggregate_ohlcv_into_higher_timeframes', () => {
+      const hourly: OHLCV[] = [
+        { timestamp: START, open: 10, high: 12, low: 9, close: 11, volume: 1 },
+        { timestamp: START + HOUR, open: 11, high: 15, low: 10, close: 14, volume: 2 },
+        { timestamp: START + 2 * HOUR, open: 14, high: 14, low: 8, close: 9, volume: 3 },
+        { timestamp: START + 3 * HOUR, open: 9, high: 10, low: 7, close: 8, volume: 4 },
+      ];
+
+      expect(store.resample(hourly, '1h', '2h')).toEqual([
+        { timestamp: START, open: 10, high: 15, low: 9, close: 14, volume: 3 },
+        { timestamp: START + 2 * HOUR, open: 14, high: 14, low: 7, close: 8, volume: 7 },
+      ]);
+    });
+
+    it('should_drop_partial_buckets_at_the_edges', () => {
+      const hourly: OHLCV[] = [1, 2, 3, 4, 5].map(hour => ({
+        timestamp: START + hour * HOUR, open: 1, high: 1, low: 1, close: 1, volume: 1,
+      }));
+
+      expect(store.resample(hourly, '1h', '2h').map(c => c.timestamp))
+        .toEqual([START + 2 * HOUR, START + 4 * HOUR]);
+    });
+
+    it('should_drop_buckets_with_missing_source_candles', () => {
+      const hourly: OHLCV[] = [0, 1, 2, 4, 5].map(hour => ({
+        timestamp: START + hour * HOUR, open: 1, high: 1, low: 1, close: 1, volume: 1,
+      }));
+
+      expect(store.resample(hourly, '1h', '2h').map(c => c.timestamp))
+        .toEqual([START, START + 4 * HOUR]);
+    });
+
+    it('should_serve_resampled_candles_from_a_source_timeframe', async () => {
+      const candles = await store.getCandles({ ...query(8), timeframe: '4h', sourceTimeframe: '1h' });
+
+      expect(candles).toHaveLength(2);
+      expect(candles[0]).toMatchObject({ timestamp: START, open: 100, close: 103.5, volume: 40 });
+    });
+
+    it('should_reject_finer_target_timeframes', () => {
+      expect(() => store.resample([], '4h', '1h')).toThrow('Cannot resample 4h candles to 1h');
+    });
+  });
+
+  describe('BacktestService integration', () => {
+    let db: MockDatabase;
+    let backtestService: BacktestService;
+    let strategyId: string;
+
+    beforeEach(async () => {
+      vi.stubEnv('NODE_ENV', 'test');
+      db = createMockDatabase();
+      const configService = new ConfigService({ db });
+      const strategyService = new StrategyService({ db, configService });
+      backtestService = new BacktestService({ db, configService, strategyService, candleStore: store });
+
+      const user = await db.users.create({ email: 'candles@example.com', passwordHash: 'hash', tier: 'pro' });
+      const strategy = await strategyService.createStrategy({
+        userId: user.id,
+        name: 'Stored Momentum',
+        type: 'momentum',
+        config: { symbols: ['BTC/USDT'], timeframe: '1h', lookbackPeriod: 3 },
+      });
+      strategyId = strategy.id;
+    });
+
+    it('should_run_a_backtest_from_symbol_timeframe_and_range', async () => {
+      const result = await backtestService.runBacktest({
+        strategyId,
+        symbol: 'BTC/USDT',
+        timeframe: '1h',
+        startDate: new Date(START),
+        endDate: new Date(START + 47 * HOUR),
+        initialCapital: 10000,
+      });
+
+      expect(result.status).toBe('completed');
+      expect(result.equityCurve).toHaveLength(49);
+      expect(repository.rows.size).toBe(48);
+    });
+
+    it('should_check_tier_limits_before_downloading', async () => {
+      await expect(backtestService.runBacktest({
+        strategyId,
+        symbol: 'BTC/USDT',
+        startDate: new Date(START),
+        endDate: new Date(START + 400 * 24 * HOUR),
+        initialCapital: 10000,
+      })).rejects.toThrow('tier limit');
+      expect(adapter.getOHLCV).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * CandleStoreService - Historical OHLCV Data Store
+ * Downloads exchange candles with pagination, caches them in the
+ * ohlcv_candles table, backfills gaps and resamples to higher timeframes.
+ */
+
+import type { ExchangeAdapter, ExchangeAdapterContext } from '../exchanges/ExchangeService';
+import type { OHLCV } from './BacktestService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredCandle extends OHLCV {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+}
+
+export interface CandleRepository {
+  upsertMany(rows: StoredCandle[]): Promise<number>;
+  findRange(exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<any[]>;
+}
+
+/** Ranges the exchange returned no candles for, so they are not requested again */
+export interface CandleGapRepository {
+  insertMany(rows: Array<{ exchange: string; symbol: string; timeframe: string; startTime: number; endTime: number }>): Promise<number>;
+  findOverlapping(exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<any[]>;
+}
+
+export interface CandleStoreServiceOptions {
+  db: { candles: CandleRepository; candleGaps?: CandleGapRepository };
+  adapterFactory: (exchange: string) => ExchangeAdapter | null;
+  pageSize?: number; // Candles requested per adapter call (default 500)
+  now?: () => number;
+}
+
+export interface CandleQuery {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  start: Date | number;
+  end: Date | number;
+  /**
+   * Download this finer timeframe and resample it, for timeframes an
+   * exchange does not serve natively (e.g. 1h candles resampled to 2h).
+   */
+  sourceTimeframe?: string;
+}
+
+export interface CandleGap {
+  start: number; // First missing candle open time (epoch ms)
+  end: number; // Last missing candle open time (epoch ms)
+}
+
+export interface CandleSyncResult {
+  fetched: number;
+  gapsFound: CandleGap[];
+  remainingGaps: CandleGap[]; // Still missing after backfill, e.g. exchange downtime
+  /**
+   * Ranges the exchange returned no candles for when asked, e.g. older than
+   * the history it serves (Kraken only returns its latest 720 candles)
+   */
+  unfillableGaps: CandleGap[];
+}
+
+// ============================================================================
+// Timeframes
+// ============================================================================
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Exchanges open weekly candles on Monday; the epoch fell on a Thursday
+const WEEK_OFFSET_MS = 4 * UNIT_MS.d;
+
+const MAX_PAGES_PER_GAP = 1000;
+
+// Exchanges can publish their latest candles late, so recent unfillable
+// ranges are retried rather than recorded
+const UNFILLABLE_SETTLE_MS = UNIT_MS.d;
+
+export function timeframeToMs(timeframe: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(timeframe);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Unsupported timeframe for candle store: ${timeframe}`);
+  }
+  return Number(match[1]) * UNIT_MS[match[2]];
+}
+
+function timeframeOffset(timeframe: string): number {
+  return timeframe.endsWith('w') ? WEEK_OFFSET_MS : 0;
+}
+
+/** Open time of the candle containing `timestamp`. */
+function alignDown(timestamp: number, step: number, offset: number): number {
+  return Math.floor((timestamp - offset) / step) * step + offset;
+}
+
+// ============================================================================
+// CandleStoreService Implementation
+// ============================================================================
+
+export class CandleStoreService {
+  private repository: CandleRepository;
+  private gapRepository?: CandleGapRepository;
+  private adapterFactory: (exchange: string) => ExchangeAdapter | null;
+  private pageSize: number;
+  private now: () => number;
+
+  constructor(options: CandleStoreServiceOptions) {
+    this.repository = options.db.candles;
+    this.gapRepository = options.db.candleGaps;
+    this.adapterFactory = options.adapterFactory;
+    this.pageSize = options.pageSize ?? 500;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Candles for a range, downloading whatever the store is missing first.
+   */
+  async getCandles(query: CandleQuery): Promise<OHLCV[]> {
+    const start = toMs(query.start);
+    const end = toMs(query.end);
+
+    if (query.sourceTimeframe && query.sourceTimeframe !== query.timeframe) {
+      const targetStep = timeframeToMs(query.timeframe);
+      const offset = timeframeOffset(query.timeframe);
+      const bucketStart = alignDown(start, targetStep, offset);
+      const bucketEnd = alignDown(end, targetStep, offset) + targetStep - 1;
+
+      const source = await this.getCandles({
+        ...query,
+        timeframe: query.sourceTimeframe,
+        sourceTimeframe: undefined,
+        start: bucketStart,
+        end: bucketEnd,
+      });
+
+      return this.resample(source, query.sourceTimeframe, query.timeframe)
+        .filter(candle => candle.timestamp >= start && candle.timestamp <= end);
+    }
+
+    await this.sync(query);
+    return this.readRange(query.exchange, query.symbol, query.timeframe, start, end);
+  }
+
+  /**
+   * Detect gaps in the stored range and backfill each one page by page.
+   * Ranges an earlier sync found the exchange cannot serve are skipped.
+   */
+  async sync(query: CandleQuery): Promise<CandleSyncResult> {
+    const step = timeframeToMs(query.timeframe);
+    const start = toMs(query.start);
+    // Only closed candles can be cached
+    const end = Math.min(toMs(query.end), this.now() - step);
+
+    const stored = await this.readRange(query.exchange, query.symbol, query.timeframe, start, end);
+    const gapsFound = this.detectGaps(stored, query.timeframe, start, end);
+
+    if (gapsFound.length === 0) {
+      return { fetched: 0, gapsFound, remainingGaps: [], unfillableGaps: [] };
+    }
+
+    const known = await this.readUnfillable(query, start, end);
+    const toFetch = subtractRanges(gapsFound, known, step);
+    const knownUnfillable = subtractRanges(gapsFound, toFetch, step);
+
+    if (toFetch.length === 0) {
+      return { fetched: 0, gapsFound, remainingGaps: gapsFound, unfillableGaps: knownUnfillable };
+    }
+
+    const adapter = this.adapterFactory(query.exchange);
+    if (!adapter) {
+      throw new Error(`No adapter configured for exchange: ${query.exchange}`);
+    }
+
+    const ctx: ExchangeAdapterContext = {
+      connectionId: 'candle-store',
+      userId: 'system',
+      exchange: query.exchange as ExchangeAdapterContext['exchange'],
+    };
+
+    let fetched = 0;
+    const unfillableGaps: CandleGap[] = [];
+    for (const gap of toFetch) {
+      const result = await this.backfill(adapter, ctx, query, gap, step);
+      fetched += result.fetched;
+      unfillableGaps.push(...result.unfillable);
+    }
+    await this.recordUnfillable(query, unfillableGaps);
+
+    const refreshed = await this.readRange(query.exchange, query.symbol, query.timeframe, start, end);
+
+    return {
+      fetched,
+      gapsFound,
+      remainingGaps: this.detectGaps(refreshed, query.timeframe, start, end),
+      unfillableGaps: [...knownUnfillable, ...unfillableGaps].sort((a, b) => a.start - b.start),
+    };
+  }
+
+  /**
+   * Page through a gap. Exchanges that ignore `since` past their history
+   * limit answer with later candles; the span they skipped is reported as
+   * unfillable instead of being retried or mistaken for filled.
+   */
+  private async backfill(
+    adapter: ExchangeAdapter,
+    ctx: ExchangeAdapterContext,
+    query: CandleQuery,
+    gap: CandleGap,
+    step: number
+  ): Promise<{ fetched: number; unfillable: CandleGap[] }> {
+    let since = gap.start;
+    let fetched = 0;
+    const unfillable: CandleGap[] = [];
+
+    for (let page = 0; page < MAX_PAGES_PER_GAP && since <= gap.end; page++) {
+      const batch = await adapter.getOHLCV(ctx, query.symbol, query.timeframe, this.pageSize, since);
+      const inRange = batch
+        .filter(candle => candle.timestamp >= since && candle.timestamp <= gap.end)
+        .filter(candle => [candle.open, candle.high, candle.low, candle.close].every(Number.isFinite));
+
+      if (inRange.length === 0) {
+        unfillable.push({ start: since, end: gap.end });
+        break;
+      }
+
+      const latest = Math.max(...inRange.map(candle => candle.timestamp));
+      unfillable.push(...this.detectGaps(inRange, query.timeframe, since, latest));
+
+      await this.repository.upsertMany(inRange.map(candle => ({
+        exchange: query.exchange,
+        symbol: query.symbol,
+        timeframe: query.timeframe,
+        timestamp: candle.timestamp,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: Number.isFinite(candle.volume) ? candle.volume : 0,
+      })));
+
+      fetched += inRange.length;
+      since = latest + step;
+    }
+
+    return { fetched, unfillable };
+  }
+
+  // ============================================================================
+  // Gap Detection & Resampling
+  // ============================================================================
+
+  /**
+   * Missing candle ranges between start and end, given sorted candles.
+   */
+  detectGaps(candles: OHLCV[], timeframe: string, start: number, end: number): CandleGap[] {
+    const step = timeframeToMs(timeframe);
+    const offset = timeframeOffset(timeframe);
+    const aligned = alignDown(start, step, offset);
+    const first = aligned < start ? aligned + step : aligned;
+    const last = alignDown(end, step, offset);
+
+    if (first > last) return [];
+
+    const present = new Set(candles.map(candle => candle.timestamp));
+    const gaps: CandleGap[] = [];
+    let gapStart: number | null = null;
+
+    for (let timestamp = first; timestamp <= last; timestamp += step) {
+      if (!present.has(timestamp)) {
+        if (gapStart === null) gapStart = timestamp;
+      } else if (gapStart !== null) {
+        gaps.push({ start: gapStart, end: timestamp - step });
+        gapStart = null;
+      }
+    }
+
+    if (gapStart !== null) {
+      gaps.push({ start: gapStart, end: last });
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Aggregate candles into a coarser timeframe. Buckets missing any source
+   * candle, whether cut off by the edges of the range or by a gap inside
+   * it, are dropped rather than reported as full candles.
+   */
+  resample(candles: OHLCV[], fromTimeframe: string, toTimeframe: string): OHLCV[] {
+    const fromStep = timeframeToMs(fromTimeframe);
+    const toStep = timeframeToMs(toTimeframe);
+    if (toStep < fromStep || toStep % fromStep !== 0) {
+      throw new Error(`Cannot resample ${fromTimeframe} candles to ${toTimeframe}`);
+    }
+    if (candles.length === 0) return [];
+
+    const offset = timeframeOffset(toTimeframe);
+    const perBucket = toStep / fromStep;
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+
+    const buckets = new Map<number, OHLCV>();
+    const counts = new Map<number, number>();
+    for (const candle of sorted) {
+      const bucket = alignDown(candle.timestamp, toStep, offset);
+      const existing = buckets.get(bucket);
+      counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+      if (!existing) {
+        buckets.set(bucket, { ...candle, timestamp: bucket });
+      } else {
+        existing.high = Math.max(existing.high, candle.high);
+        existing.low = Math.min(existing.low, candle.low);
+        existing.close = candle.close;
+        existing.volume += candle.volume;
+      }
+    }
+
+    return Array.from(buckets.values()).filter(bucket => counts.get(bucket.timestamp) === perBucket);
+  }
+
+  private async readUnfillable(query: CandleQuery, start: number, end: number): Promise<CandleGap[]> {
+    if (!this.gapRepository) return [];
+
+    const rows = await this.gapRepository.findOverlapping(query.exchange, query.symbol, query.timeframe, start, end);
+    return rows.map(row => ({ start: Number(row.startTime), end: Number(row.endTime) }));
+  }
+
+  private async recordUnfillable(query: CandleQuery, gaps: CandleGap[]): Promise<void> {
+    const settled = gaps.filter(gap => gap.end <= this.now() - UNFILLABLE_SETTLE_MS);
+    if (!this.gapRepository || settled.length === 0) return;
+
+    await this.gapRepository.insertMany(settled.map(gap => ({
+      exchange: query.exchange,
+      symbol: query.symbol,
+      timeframe: query.timeframe,
+      startTime: gap.start,
+      endTime: gap.end,
+    })));
+  }
+
+  private async readRange(exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<OHLCV[]> {
+    if (end < start) return [];
+
+    const rows = await this.repository.findRange(exchange, symbol, timeframe, start, end);
+    return rows.map(row => ({
+      timestamp: Number(row.timestamp),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume),
+    }));
+  }
+}
+
+/** Candle ranges minus the parts covered by `remove`, both on the same candle grid. */
+function subtractRanges(ranges: CandleGap[], remove: CandleGap[], step: number): CandleGap[] {
+  let result = ranges;
+  for (const cut of remove) {
+    result = result.flatMap(range => {
+      if (cut.end < range.start || cut.start > range.end) return [range];
+      const pieces: CandleGap[] = [];
+      if (cut.start > range.start) pieces.push({ start: range.start, end: cut.start - step });
+      if (cut.end < range.end) pieces.push({ start: cut.end + step, end: range.end });
+      return pieces;
+    });
+  }
+  return result;
+}
+
+function toMs(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
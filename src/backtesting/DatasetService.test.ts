@@ -0,0 +1,187 @@
+/**
+ * DatasetService Tests
+ * Tests for CSV candle import, uploaded datasets and CSV export
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatasetService } from './DatasetService';
+import type { BacktestResult } from './BacktestService';
+import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+describe('DatasetService', () => {
+  let db: MockDatabase;
+  let service: DatasetService;
+
+  const csv = [
+    'Date,Open,High,Low,Close,Volume',
+    '2024-01-01T00:00:00Z,100,105,99,104,10',
+    '2024-01-01T01:00:00Z,104,106,103,105,12',
+    '2024-01-01T02:00:00Z,105,107,101,102,8',
+  ].join('\n');
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    service = new DatasetService({ db });
+  });
+
+  // ============================================================================
+  // CSV Import
+  // ============================================================================
+
+  describe('parseCsv', () => {
+    it('should_parse_common_headers', () => {
+      const candles = service.parseCsv(csv);
+
+      expect(candles).toHaveLength(3);
+      expect(candles[0]).toEqual({ timestamp: START, open: 100, high: 105, low: 99, close: 104, volume: 10 });
+      expect(candles[2].timestamp).toBe(START + 2 * HOUR);
+    });
+
+    it('should_apply_column_mappings_and_timestamp_units', () => {
+      const file = [
+        'px_close;px_high;px_low;px_open;epoch',
+        `104;105;99;100;${START / 1000}`,
+        `105;106;103;104;${(START + HOUR) / 1000}`,
+      ].join('\r\n');
+
+      const candles = service.parseCsv(file, {
+        delimiter: ';',
+        timestampUnit: 's',
+        columns: { timestamp: 'epoch', open: 'px_open', high: 'px_high', low: 'px_low', close: 'px_close' },
+      });
+
+      expect(candles.map(c => [c.timestamp, c.open, c.close, c.volume])).toEqual([
+        [START, 100, 104, 0],
+        [START + HOUR, 104, 105, 0],
+      ]);
+    });
+
+    it('should_use_column_order_without_a_header', () => {
+      const candles = service.parseCsv(`"${START * 1000}",100,105,99,104,10`, {
+        hasHeader: false,
+        timestampUnit: 'us',
+      });
+
+      expect(candles).toEqual([{ timestamp: START, open: 100, high: 105, low: 99, close: 104, volume: 10 }]);
+    });
+
+    it('should_interpret_local_times_in_the_configured_timezone', () => {
+      const file = [
+        'time,open,high,low,close',
+        '2024-01-15 09:30,1,1,1,1',
+        '2024-07-01 09:30,1,1,1,1',
+        '2024-07-02T09:30:00+02:00,1,1,1,1',
+      ].join('\n');
+
+      const candles = service.parseCsv(file, { timezone: 'America/New_York' });
+
+      expect(candles.map(c => new Date(c.timestamp).toISOString())).toEqual([
+        '2024-01-15T14:30:00.000Z',
+        '2024-07-01T13:30:00.000Z',
+        '2024-07-02T07:30:00.000Z',
+      ]);
+    });
+
+    it('should_reject_unknown_timezones_and_columns', () => {
+      expect(() => service.parseCsv(csv, { timezone: 'Mars/Olympus' })).toThrow('Unsupported timezone: Mars/Olympus');
+      expect(() => service.parseCsv(csv, { columns: { close: 'Last' } })).toThrow('CSV column not found for close: Last');
+      expect(() => service.parseCsv('time,open,high,low\n1,1,1,1')).toThrow('CSV is missing a close column');
+    });
+
+    it('should_reject_non_monotonic_timestamps', () => {
+      const file = [
+        'timestamp,open,high,low,close',
+        `${START},1,1,1,1`,
+        `${START + HOUR},1,1,1,1`,
+        `${START + HOUR},1,1,1,1`,
+      ].join('\n');
+
+      expect(() => service.parseCsv(file)).toThrow('Invalid CSV at line 4: timestamps must be strictly increasing');
+    });
+
+    it('should_reject_inconsistent_ohlc_values', () => {
+      const header = 'timestamp,open,high,low,close\n';
+
+      expect(() => service.parseCsv(`${header}${START},100,99,98,99.5`)).toThrow('line 2: high is below open, close or low');
+      expect(() => service.parseCsv(`${header}${START},100,101,100.5,101`)).toThrow('line 2: low is above open or close');
+      expect(() => service.parseCsv(`${header}${START},abc,101,99,100`)).toThrow('line 2: open is not a number');
+      expect(() => service.parseCsv(`${header}yesterday,100,101,99,100`)).toThrow('line 2: invalid timestamp "yesterday"');
+    });
+  });
+
+  // ============================================================================
+  // Datasets
+  // ============================================================================
+
+  describe('datasets', () => {
+    it('should_import_and_load_candles_for_the_owner_only', async () => {
+      const dataset = await service.importCsv('user-1', { name: 'Legacy BTC', symbol: 'BTC/USDT', timeframe: '1h', csv });
+
+      expect(dataset).toMatchObject({
+        userId: 'user-1',
+        symbol: 'BTC/USDT',
+        candleCount: 3,
+        startTime: START,
+        endTime: START + 2 * HOUR,
+      });
+      expect(await service.listDatasets('user-1')).toHaveLength(1);
+
+      const candles = await service.loadCandles(dataset.id, 'user-1', { start: START + HOUR, end: new Date(START + 5 * HOUR) });
+      expect(candles.map(c => c.close)).toEqual([105, 102]);
+
+      await expect(service.loadCandles(dataset.id, 'user-2')).rejects.toThrow('Dataset not found');
+      expect(await service.deleteDataset(dataset.id, 'user-2')).toBe(false);
+    });
+
+    it('should_reject_ranges_outside_the_dataset', async () => {
+      const dataset = await service.importCsv('user-1', { name: 'Legacy BTC', symbol: 'BTC/USDT', csv });
+
+      await expect(service.loadCandles(dataset.id, 'user-1', { start: START + 10 * HOUR, end: START + 20 * HOUR }))
+        .rejects.toThrow('Dataset has no candles between');
+    });
+
+    it('should_reject_empty_files', async () => {
+      await expect(service.importCsv('user-1', { name: 'Empty', symbol: 'BTC/USDT', csv: 'timestamp,open,high,low,close\n' }))
+        .rejects.toThrow('CSV contains no candles');
+    });
+  });
+
+  // ============================================================================
+  // CSV Export
+  // ============================================================================
+
+  describe('export', () => {
+    const result = {
+      symbol: 'BTC/USDT',
+      trades: [
+        { id: 't1', entryTime: START, entryPrice: 100, exitTime: START + HOUR, exitPrice: 110, side: 'long', quantity: 2, pnl: 20, pnlPercent: 10, exitReason: 'take_profit' },
+        { id: 't,2', entryTime: START + 2 * HOUR, entryPrice: 110, side: 'short', quantity: 1 },
+      ],
+      equityCurve: [
+        { timestamp: START, equity: 10000, drawdown: 0 },
+        { timestamp: START + HOUR, equity: 10020, drawdown: 0 },
+      ],
+    } as unknown as BacktestResult;
+
+    it('should_export_trades', () => {
+      expect(service.exportTradesCsv(result).split('\n')).toEqual([
+        'id,symbol,side,entry_time,entry_price,exit_time,exit_price,quantity,pnl,pnl_percent,exit_reason',
+        't1,BTC/USDT,long,2024-01-01T00:00:00.000Z,100,2024-01-01T01:00:00.000Z,110,2,20,10,take_profit',
+        '"t,2",BTC/USDT,short,2024-01-01T02:00:00.000Z,110,,,1,,,',
+        '',
+      ]);
+    });
+
+    it('should_export_the_equity_curve', () => {
+      expect(service.exportEquityCurveCsv(result).split('\n')).toEqual([
+        'timestamp,datetime,equity,drawdown',
+        `${START},2024-01-01T00:00:00.000Z,10000,0`,
+        `${START + HOUR},2024-01-01T01:00:00.000Z,10020,0`,
+        '',
+      ]);
+    });
+  });
+});
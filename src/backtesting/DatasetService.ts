@@ -0,0 +1,476 @@
+/**
+ * DatasetService - CSV Import/Export for Backtests
+ * Parses candle files from other tools into OHLCV datasets that backtests
+ * can reference by ID, and exports backtest trades and equity curves as CSV.
+ */
+
+import type { BacktestResult, EquityPoint, OHLCV, TradeRecord } from './BacktestService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CandleField = 'timestamp' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export type TimestampUnit = 's' | 'ms' | 'us' | 'ns';
+
+export interface CsvImportOptions {
+  /** Header name or zero-based column index for each field */
+  columns?: Partial<Record<CandleField, string | number>>;
+  delimiter?: string; // Default ','
+  hasHeader?: boolean; // Default true
+  timestampUnit?: TimestampUnit; // Unit of numeric timestamps (default 'ms')
+  timezone?: string; // IANA zone for date strings without an offset (default 'UTC')
+}
+
+export interface DatasetImportInput extends CsvImportOptions {
+  name: string;
+  symbol: string;
+  timeframe?: string;
+  csv: string;
+}
+
+export interface DatasetSummary {
+  id: string;
+  userId: string;
+  name: string;
+  symbol: string;
+  timeframe: string | null;
+  candleCount: number;
+  startTime: number;
+  endTime: number;
+  createdAt: Date;
+}
+
+export interface DatasetRepository {
+  create(input: {
+    userId: string;
+    name: string;
+    symbol: string;
+    timeframe?: string;
+    startTime: number;
+    endTime: number;
+    candles: OHLCV[];
+  }): Promise<any>;
+  findById(id: string): Promise<any | null>;
+  findByUserId(userId: string): Promise<any[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface DatasetServiceOptions {
+  db: { datasets: DatasetRepository };
+  maxRows?: number; // Default 500,000 candles per file
+}
+
+export interface CandleRange {
+  start: Date | number;
+  end: Date | number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FIELDS: CandleField[] = ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+
+// Header names recognised when no explicit mapping is given
+const HEADER_ALIASES: Record<CandleField, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'open_time', 'unix'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v'],
+};
+
+const UNIT_TO_MS: Record<TimestampUnit, number> = {
+  s: 1000,
+  ms: 1,
+  us: 1e-3,
+  ns: 1e-6,
+};
+
+const DATE_PATTERN =
+  /^(\d{4})[-/](\d{2})[-/](\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const TRADE_COLUMNS = [
+  'id', 'symbol', 'side', 'entry_time', 'entry_price', 'exit_time', 'exit_price',
+  'quantity', 'pnl', 'pnl_percent', 'exit_reason',
+];
+
+const EQUITY_COLUMNS = ['timestamp', 'datetime', 'equity', 'drawdown'];
+
+// ============================================================================
+// DatasetService Implementation
+// ============================================================================
+
+export class DatasetService {
+  private repository: DatasetRepository;
+  private maxRows: number;
+  private zoneFormatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+  constructor(options: DatasetServiceOptions) {
+    this.repository = options.db.datasets;
+    this.maxRows = options.maxRows ?? 500_000;
+  }
+
+  // ============================================================================
+  // Datasets
+  // ============================================================================
+
+  async importCsv(userId: string, input: DatasetImportInput): Promise<DatasetSummary> {
+    const candles = this.parseCsv(input.csv, input);
+    if (candles.length === 0) {
+      throw new Error('CSV contains no candles');
+    }
+
+    const row = await this.repository.create({
+      userId,
+      name: input.name,
+      symbol: input.symbol,
+      timeframe: input.timeframe,
+      startTime: candles[0].timestamp,
+      endTime: candles[candles.length - 1].timestamp,
+      candles,
+    });
+
+    return toSummary(row);
+  }
+
+  async listDatasets(userId: string): Promise<DatasetSummary[]> {
+    const rows = await this.repository.findByUserId(userId);
+    return rows.map(toSummary);
+  }
+
+  async getDataset(datasetId: string, userId: string): Promise<DatasetSummary | null> {
+    const row = await this.repository.findById(datasetId);
+    if (!row || row.userId !== userId) return null;
+    return toSummary(row);
+  }
+
+  async deleteDataset(datasetId: string, userId: string): Promise<boolean> {
+    const row = await this.repository.findById(datasetId);
+    if (!row || row.userId !== userId) return false;
+
+    await this.repository.delete(datasetId);
+    return true;
+  }
+
+  /**
+   * Candles of a dataset the user owns, optionally limited to a date range.
+   */
+  async loadCandles(datasetId: string, userId: string, range?: CandleRange): Promise<OHLCV[]> {
+    const row = await this.repository.findById(datasetId);
+    if (!row || row.userId !== userId) {
+      throw new Error('Dataset not found');
+    }
+
+    const candles: OHLCV[] = (row.candles || []).map((candle: any) => ({
+      timestamp: Number(candle.timestamp),
+      open: Number(candle.open),
+      high: Number(candle.high),
+      low: Number(candle.low),
+      close: Number(candle.close),
+      volume: Number(candle.volume),
+    }));
+
+    if (!range) return candles;
+
+    const start = toMs(range.start);
+    const end = toMs(range.end);
+    const inRange = candles.filter(candle => candle.timestamp >= start && candle.timestamp <= end);
+    if (inRange.length === 0) {
+      throw new Error(
+        `Dataset has no candles between ${new Date(start).toISOString()} and ${new Date(end).toISOString()}`
+      );
+    }
+
+    return inRange;
+  }
+
+  // ============================================================================
+  // CSV Import
+  // ============================================================================
+
+  /**
+   * Parse CSV rows into OHLCV candles. Rejects files whose timestamps are
+   * not strictly increasing or whose prices are inconsistent, reporting
+   * the offending line.
+   */
+  parseCsv(csv: string, options: CsvImportOptions = {}): OHLCV[] {
+    const delimiter = options.delimiter ?? ',';
+    const hasHeader = options.hasHeader ?? true;
+    const unit = options.timestampUnit ?? 'ms';
+    const timezone = options.timezone ?? 'UTC';
+
+    if (!UNIT_TO_MS[unit]) {
+      throw new Error(`Unsupported CSV timestamp unit: ${unit}`);
+    }
+    this.zoneFormatter(timezone);
+
+    const lines = csv
+      .split(/\r?\n/)
+      .map((text, i) => ({ text, lineNumber: i + 1 }))
+      .filter(line => line.text.trim() !== '');
+
+    if (lines.length === 0) return [];
+
+    const header = hasHeader ? splitCsvLine(lines[0].text, delimiter) : null;
+    const columns = resolveColumns(header, options.columns);
+    const rows = hasHeader ? lines.slice(1) : lines;
+
+    if (rows.length > this.maxRows) {
+      throw new Error(`CSV exceeds the maximum of ${this.maxRows} rows`);
+    }
+
+    const candles: OHLCV[] = [];
+
+    for (const { text, lineNumber } of rows) {
+      const cells = splitCsvLine(text, delimiter);
+      const fail = (problem: string): never => {
+        throw new Error(`Invalid CSV at line ${lineNumber}: ${problem}`);
+      };
+
+      const cell = (field: CandleField): string | undefined => {
+        const index = columns[field];
+        return index === undefined ? undefined : cells[index]?.trim();
+      };
+
+      const rawTimestamp = cell('timestamp');
+      if (!rawTimestamp) fail('missing timestamp');
+
+      const timestamp = this.parseTimestamp(rawTimestamp!, unit, timezone);
+      if (!Number.isFinite(timestamp)) fail(`invalid timestamp "${rawTimestamp}"`);
+
+      const values: Record<string, number> = {};
+      for (const field of ['open', 'high', 'low', 'close', 'volume'] as const) {
+        const raw = cell(field);
+        if (field === 'volume' && (raw === undefined || raw === '')) {
+          values.volume = 0;
+          continue;
+        }
+        const value = raw === undefined || raw === '' ? NaN : Number(raw);
+        if (!Number.isFinite(value)) fail(`${field} is not a number`);
+        values[field] = value;
+      }
+
+      const { open, high, low, close, volume } = values;
+      if (open <= 0 || high <= 0 || low <= 0 || close <= 0) fail('prices must be positive');
+      if (volume < 0) fail('volume must not be negative');
+      if (high < Math.max(open, close, low)) fail('high is below open, close or low');
+      if (low > Math.min(open, close)) fail('low is above open or close');
+
+      const previous = candles[candles.length - 1];
+      if (previous && timestamp <= previous.timestamp) {
+        fail('timestamps must be strictly increasing');
+      }
+
+      candles.push({ timestamp, open, high, low, close, volume });
+    }
+
+    return candles;
+  }
+
+  private parseTimestamp(raw: string, unit: TimestampUnit, timezone: string): number {
+    if (/^-?\d+(\.\d+)?$/.test(raw)) {
+      return Math.round(Number(raw) * UNIT_TO_MS[unit]);
+    }
+
+    const match = DATE_PATTERN.exec(raw);
+    if (!match) return NaN;
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', millis = '0', offset] = match;
+    const wallClock = Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+      Number(millis.padEnd(3, '0'))
+    );
+
+    if (offset) {
+      if (offset.toUpperCase() === 'Z') return wallClock;
+      const sign = offset.startsWith('-') ? -1 : 1;
+      const digits = offset.slice(1).replace(':', '');
+      const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+      return wallClock - sign * minutes * 60 * 1000;
+    }
+
+    // Interpret the wall clock in the configured zone; the second pass
+    // corrects times near a DST transition
+    const guess = wallClock - this.zoneOffset(wallClock, timezone);
+    return wallClock - this.zoneOffset(guess, timezone);
+  }
+
+  /** Offset of `timezone` from UTC at the given instant, in ms. */
+  private zoneOffset(timestamp: number, timezone: string): number {
+    const parts: Record<string, number> = {};
+    for (const part of this.zoneFormatter(timezone).formatToParts(new Date(timestamp))) {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    }
+
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+    return asUtc - (timestamp - (timestamp % 1000));
+  }
+
+  private zoneFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.zoneFormatters.get(timezone);
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        });
+      } catch {
+        throw new Error(`Unsupported timezone: ${timezone}`);
+      }
+      this.zoneFormatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+
+  // ============================================================================
+  // CSV Export
+  // ============================================================================
+
+  /**
+   * One row per trade. Portfolio trades keep their own symbol.
+   */
+  exportTradesCsv(result: Pick<BacktestResult, 'trades'> & { symbol?: string }): string {
+    const rows = result.trades.map((trade: TradeRecord & { symbol?: string }) => [
+      trade.id,
+      trade.symbol ?? result.symbol,
+      trade.side,
+      toIso(trade.entryTime),
+      trade.entryPrice,
+      toIso(trade.exitTime),
+      trade.exitPrice,
+      trade.quantity,
+      trade.pnl,
+      trade.pnlPercent,
+      trade.exitReason,
+    ]);
+
+    return toCsv(TRADE_COLUMNS, rows);
+  }
+
+  exportEquityCurveCsv(result: { equityCurve: EquityPoint[] }): string {
+    const rows = result.equityCurve.map(point => [
+      point.timestamp,
+      toIso(point.timestamp),
+      point.equity,
+      point.drawdown,
+    ]);
+
+    return toCsv(EQUITY_COLUMNS, rows);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function resolveColumns(
+  header: string[] | null,
+  mapping: CsvImportOptions['columns'] = {}
+): Partial<Record<CandleField, number>> {
+  const normalized = header?.map(name => name.trim().toLowerCase());
+  const columns: Partial<Record<CandleField, number>> = {};
+
+  FIELDS.forEach((field, position) => {
+    const mapped = mapping[field];
+
+    if (typeof mapped === 'number') {
+      columns[field] = mapped;
+    } else if (typeof mapped === 'string') {
+      const index = normalized ? normalized.indexOf(mapped.trim().toLowerCase()) : -1;
+      if (index === -1) {
+        throw new Error(`CSV column not found for ${field}: ${mapped}`);
+      }
+      columns[field] = index;
+    } else if (normalized) {
+      const index = normalized.findIndex(name => HEADER_ALIASES[field].includes(name));
+      if (index !== -1) columns[field] = index;
+    } else {
+      columns[field] = position;
+    }
+
+    if (columns[field] === undefined && field !== 'volume') {
+      throw new Error(`CSV is missing a ${field} column`);
+    }
+  });
+
+  return columns;
+}
+
+/** Split one CSV line, honouring double-quoted cells. */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (line.startsWith(delimiter, i)) {
+      cells.push(current);
+      current = '';
+      i += delimiter.length - 1;
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current);
+  return cells;
+}
+
+function toCsv(columns: string[], rows: unknown[][]): string {
+  const escape = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns, ...rows].map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+function toSummary(row: any): DatasetSummary {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    symbol: row.symbol,
+    timeframe: row.timeframe ?? null,
+    candleCount: Number(row.candleCount),
+    startTime: Number(row.startTime),
+    endTime: Number(row.endTime),
+    createdAt: row.createdAt,
+  };
+}
+
+function toIso(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
+
+function toMs(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
@@ -0,0 +1,179 @@
+/**
+ * OptimizationService Tests
+ * Tests for parameter sweeps and walk-forward validation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BacktestService, OHLCV } from './BacktestService';
+import { OptimizationService, OptimizationConfig } from './OptimizationService';
+import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
+import { ConfigService } from '../config/ConfigService';
+import { StrategyService } from '../strategies/StrategyService';
+
+describe('OptimizationService', () => {
+  let optimizationService: OptimizationService;
+  let backtestService: BacktestService;
+  let strategyService: StrategyService;
+  let db: MockDatabase;
+  let strategyId: string;
+
+  // Deterministic oscillating series with a gentle trend
+  const data: OHLCV[] = Array.from({ length: 200 }, (_, i) => {
+    const close = 100 + i * 0.1 + Math.sin(i / 4) * 5;
+    return {
+      timestamp: 1_700_000_000_000 + i * 3_600_000,
+      open: close - 0.5,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+    };
+  });
+
+  const baseConfig = (): OptimizationConfig => ({
+    strategyId,
+    symbol: 'BTC/USDT',
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-01-31'),
+    initialCapital: 10000,
+    data,
+    execution: { stopLoss: false, takeProfit: false },
+    parameters: {
+      lookbackPeriod: [3, 5, 8],
+      entryThreshold: { min: 0.01, max: 0.03, step: 0.01 },
+    },
+    walkForward: { windows: 3, inSampleRatio: 0.7 },
+  });
+
+  beforeEach(async () => {
+    vi.stubEnv('NODE_ENV', 'test');
+    db = createMockDatabase();
+    const configService = new ConfigService({ db });
+    strategyService = new StrategyService({ db, configService });
+    backtestService = new BacktestService({ db, configService, strategyService });
+    optimizationService = new OptimizationService({ backtestService });
+
+    const user = await db.users.create({
+      email: 'optimizer@example.com',
+      passwordHash: 'hash',
+      tier: 'pro',
+    });
+
+    const strategy = await strategyService.createStrategy({
+      userId: user.id,
+      name: 'Optimizable Momentum',
+      type: 'momentum',
+      config: { symbols: ['BTC/USDT'], lookbackPeriod: 14, entryThreshold: 0.02 },
+    });
+    strategyId = strategy.id;
+  });
+
+  describe('expandGrid', () => {
+    it('should_build_cartesian_product_of_values_and_ranges', () => {
+      const grid = optimizationService.expandGrid({
+        lookbackPeriod: [5, 10],
+        entryThreshold: { min: 0.01, max: 0.03, step: 0.01 },
+      });
+
+      expect(grid).toHaveLength(6);
+      expect(grid).toContainEqual({ lookbackPeriod: 10, entryThreshold: 0.03 });
+    });
+
+    it('should_round_integer_ranges', () => {
+      const grid = optimizationService.expandGrid({
+        bollingerPeriod: { min: 10, max: 20, integer: true },
+      });
+
+      grid.forEach(candidate => expect(Number.isInteger(candidate.bollingerPeriod)).toBe(true));
+    });
+  });
+
+  describe('sampleRandom', () => {
+    it('should_be_reproducible_for_a_seed', () => {
+      const space = { lookbackPeriod: { min: 2, max: 30, integer: true }, entryThreshold: [0.01, 0.02] };
+
+      const first = optimizationService.sampleRandom(space, 10, 42);
+      const second = optimizationService.sampleRandom(space, 10, 42);
+
+      expect(first).toEqual(second);
+      first.forEach(candidate => {
+        expect(candidate.lookbackPeriod).toBeGreaterThanOrEqual(2);
+        expect(candidate.lookbackPeriod).toBeLessThanOrEqual(30);
+      });
+    });
+  });
+
+  describe('optimize', () => {
+    it('should_rank_candidates_by_out_of_sample_objective', async () => {
+      const result = await optimizationService.optimize(baseConfig());
+
+      expect(result.candidatesEvaluated).toBe(9);
+      expect(result.results).toHaveLength(9);
+      expect(result.results[0].rank).toBe(1);
+
+      for (let i = 1; i < result.results.length; i++) {
+        expect(result.results[i - 1].outOfSample.objective)
+          .toBeGreaterThanOrEqual(result.results[i].outOfSample.objective);
+      }
+    });
+
+    it('should_report_per_window_metrics_and_overfitting_score', async () => {
+      const result = await optimizationService.optimize(baseConfig());
+
+      result.results.forEach(candidate => {
+        expect(candidate.windows).toHaveLength(3);
+        expect(candidate.overfittingScore).toBeGreaterThanOrEqual(0);
+        expect(candidate.overfittingScore).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('should_roll_out_of_sample_windows_forward_without_overlap', async () => {
+      const result = await optimizationService.optimize(baseConfig());
+      const windows = result.walkForward.windows;
+
+      expect(windows).toHaveLength(3);
+      for (let i = 0; i < windows.length; i++) {
+        expect(windows[i].inSampleEnd).toBeLessThan(windows[i].outOfSampleStart);
+        if (i > 0) {
+          expect(windows[i].outOfSampleStart).toBeGreaterThan(windows[i - 1].outOfSampleEnd);
+        }
+      }
+    });
+
+    it('should_not_persist_trial_runs_to_history', async () => {
+      await optimizationService.optimize(baseConfig());
+
+      const history = await backtestService.getBacktestHistory(strategyId);
+      expect(history).toEqual([]);
+    });
+
+    it('should_support_random_search', async () => {
+      const result = await optimizationService.optimize({
+        ...baseConfig(),
+        search: 'random',
+        samples: 4,
+        seed: 7,
+      });
+
+      expect(result.search).toBe('random');
+      expect(result.results).toHaveLength(4);
+    });
+
+    it('should_reject_oversized_parameter_spaces', async () => {
+      await expect(optimizationService.optimize({
+        ...baseConfig(),
+        parameters: {
+          lookbackPeriod: { min: 1, max: 100, step: 1 },
+          entryThreshold: { min: 0.01, max: 0.1, step: 0.01 },
+        },
+      })).rejects.toThrow('Parameter space too large');
+    });
+
+    it('should_reject_too_many_windows_for_the_data', async () => {
+      await expect(optimizationService.optimize({
+        ...baseConfig(),
+        walkForward: { windows: 20 },
+      })).rejects.toThrow('Not enough data');
+    });
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * OptimizationService - Parameter Sweeps and Walk-Forward Analysis
+ * Searches a strategy's config space over rolling in-sample/out-of-sample
+ * windows and ranks candidates by out-of-sample performance.
+ */
+
+import type { BacktestService, BacktestConfig, BacktestMetrics, OHLCV } from './BacktestService';
+import { createRandom } from './random';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParameterValue = number | string | boolean;
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step?: number; // Grid step; ranges without one are split into 5 points
+  integer?: boolean;
+}
+
+export type ParameterSpace = Record<string, ParameterValue[] | ParameterRange>;
+
+export type OptimizationObjective = 'sharpeRatio' | 'totalReturn' | 'winRate';
+
+export interface WalkForwardOptions {
+  windows: number;
+  inSampleRatio?: number; // Share of each window used for fitting (default 0.7)
+}
+
+export interface OptimizationConfig extends Omit<BacktestConfig, 'execution'> {
+  execution?: BacktestConfig['execution'];
+  parameters: ParameterSpace;
+  search?: 'grid' | 'random';
+  samples?: number; // Random search only
+  seed?: number; // Random search only
+  objective?: OptimizationObjective;
+  walkForward?: WalkForwardOptions;
+}
+
+export interface WindowMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface WindowResult {
+  index: number;
+  inSample: WindowMetrics;
+  outOfSample: WindowMetrics;
+}
+
+export interface AggregateMetrics extends WindowMetrics {
+  objective: number; // Mean objective across windows
+}
+
+export interface OptimizationCandidate {
+  rank: number;
+  parameters: Record<string, ParameterValue>;
+  inSample: AggregateMetrics;
+  outOfSample: AggregateMetrics;
+  overfittingScore: number; // 0 = robust, 1 = curve-fit
+  windows: WindowResult[];
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+  bestParameters: Record<string, ParameterValue>;
+  inSampleObjective: number;
+  outOfSampleObjective: number;
+}
+
+export interface OptimizationResult {
+  strategyId: string;
+  symbol: string;
+  objective: OptimizationObjective;
+  search: 'grid' | 'random';
+  candidatesEvaluated: number;
+  results: OptimizationCandidate[];
+  walkForward: {
+    windows: WalkForwardWindow[];
+    efficiency: number; // Mean OOS objective / mean IS objective of the per-window winners
+  };
+}
+
+export interface OptimizationServiceOptions {
+  backtestService: BacktestService;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+const MAX_CANDIDATES = 500;
+const MIN_SEGMENT_BARS = 10;
+const DEFAULT_RANGE_POINTS = 5;
+const DEFAULT_RANDOM_SAMPLES = 50;
+
+// ============================================================================
+// OptimizationService Implementation
+// ============================================================================
+
+export class OptimizationService {
+  private backtestService: BacktestService;
+
+  constructor(options: OptimizationServiceOptions) {
+    this.backtestService = options.backtestService;
+  }
+
+  // ============================================================================
+  // Optimization
+  // ============================================================================
+
+  async optimize(config: OptimizationConfig): Promise<OptimizationResult> {
+    const objective = config.objective ?? 'sharpeRatio';
+    const search = config.search ?? 'grid';
+
+    const candidates = search === 'random'
+      ? this.sampleRandom(config.parameters, config.samples ?? DEFAULT_RANDOM_SAMPLES, config.seed ?? 1)
+      : this.expandGrid(config.parameters);
+
+    if (candidates.length === 0) {
+      throw new Error('Parameter space is empty');
+    }
+    if (candidates.length > MAX_CANDIDATES) {
+      throw new Error(`Parameter space too large: ${candidates.length} combinations (max ${MAX_CANDIDATES})`);
+    }
+
+    // Validates dates, capital and tier limits once for the whole sweep
+    const strategy = await this.backtestService.prepareBacktest(config);
+    const windows = this.buildWindows(config.data, config.walkForward);
+
+    const evaluated: Omit<OptimizationCandidate, 'rank'>[] = [];
+
+    for (const parameters of candidates) {
+      const windowResults: WindowResult[] = [];
+
+      for (const window of windows) {
+        const inSample = await this.backtestService.simulateBacktest(
+          this.sliceConfig(config, window.inSample),
+          strategy,
+          parameters
+        );
+        const outOfSample = await this.backtestService.simulateBacktest(
+          this.sliceConfig(config, window.outOfSample),
+          strategy,
+          parameters
+        );
+
+        windowResults.push({
+          index: window.index,
+          inSample: this.toWindowMetrics(inSample.metrics),
+          outOfSample: this.toWindowMetrics(outOfSample.metrics),
+        });
+      }
+
+      const inSample = this.aggregate(windowResults.map(w => w.inSample), objective);
+      const outOfSample = this.aggregate(windowResults.map(w => w.outOfSample), objective);
+
+      evaluated.push({
+        parameters,
+        inSample,
+        outOfSample,
+        overfittingScore: this.overfittingScore(windowResults, objective),
+        windows: windowResults,
+      });
+    }
+
+    const ranked = [...evaluated]
+      .sort((a, b) =>
+        b.outOfSample.objective - a.outOfSample.objective || a.overfittingScore - b.overfittingScore
+      )
+      .map((candidate, i) => ({ rank: i + 1, ...candidate }));
+
+    return {
+      strategyId: config.strategyId,
+      symbol: config.symbol,
+      objective,
+      search,
+      candidatesEvaluated: candidates.length,
+      results: ranked,
+      walkForward: this.summarizeWalkForward(evaluated, windows, objective),
+    };
+  }
+
+  // ============================================================================
+  // Search Space
+  // ============================================================================
+
+  expandGrid(space: ParameterSpace): Record<string, ParameterValue>[] {
+    let combinations: Record<string, ParameterValue>[] = [{}];
+
+    for (const [name, spec] of Object.entries(space)) {
+      const values = Array.isArray(spec) ? spec : this.rangeValues(name, spec);
+      if (values.length === 0) {
+        throw new Error(`Parameter ${name} has no values`);
+      }
+
+      const next: Record<string, ParameterValue>[] = [];
+      for (const combination of combinations) {
+        for (const value of values) {
+          next.push({ ...combination, [name]: value });
+        }
+        if (next.length > MAX_CANDIDATES) {
+          throw new Error(`Parameter space too large (max ${MAX_CANDIDATES} combinations)`);
+        }
+      }
+      combinations = next;
+    }
+
+    return combinations;
+  }
+
+  sampleRandom(space: ParameterSpace, samples: number, seed: number): Record<string, ParameterValue>[] {
+    const random = createRandom(seed);
+    const results: Record<string, ParameterValue>[] = [];
+
+    for (let i = 0; i < samples; i++) {
+      const candidate: Record<string, ParameterValue> = {};
+      for (const [name, spec] of Object.entries(space)) {
+        if (Array.isArray(spec)) {
+          if (spec.length === 0) {
+            throw new Error(`Parameter ${name} has no values`);
+          }
+          candidate[name] = spec[Math.floor(random() * spec.length)];
+        } else {
+          this.assertRange(name, spec);
+          const value = spec.min + random() * (spec.max - spec.min);
+          candidate[name] = spec.integer ? Math.round(value) : value;
+        }
+      }
+      results.push(candidate);
+    }
+
+    return results;
+  }
+
+  private rangeValues(name: string, range: ParameterRange): number[] {
+    this.assertRange(name, range);
+
+    const step = range.step ?? (range.max - range.min) / (DEFAULT_RANGE_POINTS - 1);
+    if (step <= 0) {
+      return [range.min];
+    }
+
+    const values: number[] = [];
+    // Small epsilon keeps max inclusive despite floating-point accumulation
+    for (let value = range.min; value <= range.max + step * 1e-9; value += step) {
+      values.push(range.integer ? Math.round(value) : Number(value.toFixed(10)));
+      if (values.length > MAX_CANDIDATES) {
+        throw new Error(`Parameter ${name} range has too many steps`);
+      }
+    }
+
+    return Array.from(new Set(values));
+  }
+
+  private assertRange(name: string, range: ParameterRange): void {
+    if (!Number.isFinite(range.min) || !Number.isFinite(range.max) || range.max < range.min) {
+      throw new Error(`Invalid range for parameter ${name}`);
+    }
+  }
+
+  // ============================================================================
+  // Walk-Forward Windows
+  // ============================================================================
+
+  /**
+   * Split data into rolling windows whose out-of-sample segments tile the
+   * tail of the series: window k fits on the bars just before its OOS
+   * segment, and the next window slides forward by one OOS length.
+   */
+  private buildWindows(
+    data: OHLCV[],
+    options?: WalkForwardOptions
+  ): { index: number; inSample: OHLCV[]; outOfSample: OHLCV[] }[] {
+    const count = Math.max(1, Math.floor(options?.windows ?? 1));
+    const ratio = options?.inSampleRatio ?? 0.7;
+
+    if (ratio <= 0 || ratio >= 1) {
+      throw new Error('In-sample ratio must be between 0 and 1');
+    }
+
+    // n = inSampleLength + count * outOfSampleLength, with OOS = window * (1 - ratio)
+    const windowLength = data.length / (ratio + count * (1 - ratio));
+    const inSampleLength = Math.floor(windowLength * ratio);
+    const outOfSampleLength = Math.floor((data.length - inSampleLength) / count);
+
+    if (inSampleLength < MIN_SEGMENT_BARS || outOfSampleLength < MIN_SEGMENT_BARS) {
+      throw new Error(
+        `Not enough data for ${count} walk-forward windows; each segment needs at least ${MIN_SEGMENT_BARS} bars`
+      );
+    }
+
+    const windows = [];
+    for (let k = 0; k < count; k++) {
+      const oosStart = inSampleLength + k * outOfSampleLength;
+      windows.push({
+        index: k,
+        inSample: data.slice(oosStart - inSampleLength, oosStart),
+        outOfSample: data.slice(oosStart, oosStart + outOfSampleLength),
+      });
+    }
+
+    return windows;
+  }
+
+  private sliceConfig(config: OptimizationConfig, data: OHLCV[]): BacktestConfig {
+    return {
+      strategyId: config.strategyId,
+      symbol: config.symbol,
+      startDate: new Date(data[0].timestamp),
+      endDate: new Date(data[data.length - 1].timestamp),
+      initialCapital: config.initialCapital,
+      slippage: config.slippage,
+      commission: config.commission,
+      execution: config.execution,
+      venues: config.venues,
+      sentiment: config.sentiment,
+      data,
+    };
+  }
+
+  // ============================================================================
+  // Scoring
+  // ============================================================================
+
+  private toWindowMetrics(metrics: BacktestMetrics): WindowMetrics {
+    return {
+      totalReturn: metrics.totalReturn,
+      sharpeRatio: metrics.sharpeRatio,
+      maxDrawdown: metrics.maxDrawdown,
+      winRate: metrics.winRate,
+      totalTrades: metrics.totalTrades,
+    };
+  }
+
+  private aggregate(windows: WindowMetrics[], objective: OptimizationObjective): AggregateMetrics {
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+    // Out-of-sample segments are consecutive, so returns compound
+    const compounded = windows.reduce((equity, w) => equity * (1 + w.totalReturn / 100), 1);
+
+    return {
+      objective: mean(windows.map(w => w[objective])),
+      totalReturn: (compounded - 1) * 100,
+      sharpeRatio: mean(windows.map(w => w.sharpeRatio)),
+      maxDrawdown: Math.max(0, ...windows.map(w => w.maxDrawdown)),
+      winRate: mean(windows.map(w => w.winRate)),
+      totalTrades: windows.reduce((sum, w) => sum + w.totalTrades, 0),
+    };
+  }
+
+  /**
+   * Blend of performance decay (how much of the in-sample objective is
+   * lost out of sample) and inconsistency (share of windows that fail out
+   * of sample). Candidates with no in-sample edge score as fully overfit.
+   */
+  private overfittingScore(windows: WindowResult[], objective: OptimizationObjective): number {
+    const inSample = windows.reduce((sum, w) => sum + w.inSample[objective], 0) / windows.length;
+    const outOfSample = windows.reduce((sum, w) => sum + w.outOfSample[objective], 0) / windows.length;
+
+    const decay = inSample > 0 ? clamp(1 - outOfSample / inSample, 0, 1) : 1;
+    const failedWindows = windows.filter(w => w.outOfSample[objective] <= 0).length / windows.length;
+
+    return (decay + failedWindows) / 2;
+  }
+
+  private summarizeWalkForward(
+    evaluated: Omit<OptimizationCandidate, 'rank'>[],
+    windows: { index: number; inSample: OHLCV[]; outOfSample: OHLCV[] }[],
+    objective: OptimizationObjective
+  ): OptimizationResult['walkForward'] {
+    const summary: WalkForwardWindow[] = windows.map(window => {
+      // Pick the candidate a trader would have chosen using only in-sample data
+      let best = evaluated[0];
+      for (const candidate of evaluated) {
+        if (candidate.windows[window.index].inSample[objective] > best.windows[window.index].inSample[objective]) {
+          best = candidate;
+        }
+      }
+
+      return {
+        index: window.index,
+        inSampleStart: window.inSample[0].timestamp,
+        inSampleEnd: window.inSample[window.inSample.length - 1].timestamp,
+        outOfSampleStart: window.outOfSample[0].timestamp,
+        outOfSampleEnd: window.outOfSample[window.outOfSample.length - 1].timestamp,
+        bestParameters: best.parameters,
+        inSampleObjective: best.windows[window.index].inSample[objective],
+        outOfSampleObjective: best.windows[window.index].outOfSample[objective],
+      };
+    });
+
+    const meanIs = summary.reduce((sum, w) => sum + w.inSampleObjective, 0) / summary.length;
+    const meanOos = summary.reduce((sum, w) => sum + w.outOfSampleObjective, 0) / summary.length;
+
+    return {
+      windows: summary,
+      efficiency: meanIs !== 0 ? meanOos / meanIs : 0,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,199 @@
+/**
+ * PortfolioBacktestService Tests
+ * Tests for shared-capital multi-symbol backtests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BacktestService, OHLCV } from './BacktestService';
+import { PortfolioBacktestService, PortfolioBacktestConfig } from './PortfolioBacktestService';
+import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
+import { ConfigService } from '../config/ConfigService';
+import { StrategyService } from '../strategies/StrategyService';
+
+function series(length: number, priceAt: (i: number) => number): OHLCV[] {
+  return Array.from({ length }, (_, i) => {
+    const close = priceAt(i);
+    return {
+      timestamp: 1_700_000_000_000 + i * 3_600_000,
+      open: close,
+      high: close * 1.001,
+      low: close * 0.999,
+      close,
+      volume: 1000,
+    };
+  });
+}
+
+describe('PortfolioBacktestService', () => {
+  let portfolioService: PortfolioBacktestService;
+  let backtestService: BacktestService;
+  let strategyService: StrategyService;
+  let db: MockDatabase;
+  let userId: string;
+  let strategyId: string;
+
+  // Two trending symbols that move together, one that oscillates
+  const data: Record<string, OHLCV[]> = {
+    'BTC/USDT': series(120, i => 100 + i * 0.5),
+    'ETH/USDT': series(120, i => 50 + i * 0.25),
+    'SOL/USDT': series(120, i => 20 + Math.sin(i / 3) * 2),
+  };
+
+  const baseConfig = (): PortfolioBacktestConfig => ({
+    strategyIds: [strategyId],
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-01-10'),
+    initialCapital: 10000,
+    data,
+    slippage: 0,
+    commission: 0,
+  });
+
+  beforeEach(async () => {
+    vi.stubEnv('NODE_ENV', 'test');
+    db = createMockDatabase();
+    const configService = new ConfigService({ db });
+    strategyService = new StrategyService({ db, configService });
+    backtestService = new BacktestService({ db, configService, strategyService });
+    portfolioService = new PortfolioBacktestService({ backtestService });
+
+    const user = await db.users.create({
+      email: 'portfolio@example.com',
+      passwordHash: 'hash',
+      tier: 'pro',
+    });
+    userId = user.id;
+
+    const strategy = await strategyService.createStrategy({
+      userId,
+      name: 'Portfolio Momentum',
+      type: 'momentum',
+      config: {
+        symbols: ['BTC/USDT', 'ETH/USDT', 'SOL/USDT'],
+        lookbackPeriod: 5,
+        entryThreshold: 0.01,
+        stopLossPercent: 0,
+      },
+    });
+    strategyId = strategy.id;
+  });
+
+  describe('runPortfolioBacktest', () => {
+    it('should_trade_every_symbol_from_one_capital_pool', async () => {
+      const result = await portfolioService.runPortfolioBacktest(baseConfig());
+
+      expect(result.symbols).toEqual(['BTC/USDT', 'ETH/USDT', 'SOL/USDT']);
+      expect(new Set(result.trades.map(t => t.symbol))).toContain('BTC/USDT');
+      expect(new Set(result.trades.map(t => t.symbol))).toContain('ETH/USDT');
+
+      const realized = result.trades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const finalEquity = result.equityCurve[result.equityCurve.length - 1].equity;
+      expect(finalEquity).toBeCloseTo(10000 + realized, 6);
+    });
+
+    it('should_attribute_pnl_per_symbol_and_strategy', async () => {
+      const result = await portfolioService.runPortfolioBacktest(baseConfig());
+
+      const symbolPnl = result.attribution.bySymbol.reduce((sum, a) => sum + a.pnl, 0);
+      expect(symbolPnl).toBeCloseTo(result.metrics.finalCapital - result.metrics.initialCapital, 6);
+      expect(result.attribution.byStrategy[0].strategyId).toBe(strategyId);
+
+      for (const symbol of result.symbols) {
+        const curve = result.symbolEquityCurves[symbol];
+        const attribution = result.attribution.bySymbol.find(a => a.symbol === symbol)!;
+        expect(curve[curve.length - 1].pnl).toBeCloseTo(attribution.pnl, 6);
+      }
+    });
+
+    it('should_cap_per_symbol_exposure', async () => {
+      const result = await portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        allocation: { rule: 'fixed_weights', weights: { 'BTC/USDT': 1 } },
+        riskLimits: { maxPositionSize: 0.1 },
+      });
+
+      result.trades.forEach(trade => {
+        expect(trade.symbol).toBe('BTC/USDT');
+        expect(trade.entryPrice * trade.quantity).toBeLessThanOrEqual(10000 * 0.1 * 1.05);
+      });
+    });
+
+    it('should_reject_entries_past_total_exposure_cap', async () => {
+      const result = await portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        riskLimits: { maxPositionSize: 0.5, maxTotalExposure: 0.3 },
+        allocation: { rule: 'fixed_weights', weights: { 'BTC/USDT': 1, 'ETH/USDT': 1, 'SOL/USDT': 1 } },
+      });
+
+      let peakExposure = 0;
+      for (const point of result.equityCurve) {
+        const open = result.trades.filter(t => t.entryTime <= point.timestamp && t.exitTime! > point.timestamp);
+        const exposure = open.reduce((sum, t) => sum + t.entryPrice * t.quantity, 0);
+        peakExposure = Math.max(peakExposure, exposure);
+      }
+      expect(peakExposure).toBeLessThanOrEqual(10000 * 0.3 * 1.05);
+    });
+
+    it('should_limit_open_positions', async () => {
+      const result = await portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        riskLimits: { maxOpenPositions: 1 },
+      });
+
+      expect(result.rejectedEntries.some(r => r.reason.includes('Max open positions'))).toBe(true);
+    });
+
+    it('should_weight_calmer_symbols_more_under_inverse_volatility', async () => {
+      const calm = series(120, i => 100 + i * 0.5);
+      const wild = series(120, i => 100 + i * 0.2 + (i % 2 === 0 ? 4 : -4));
+
+      const result = await portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        symbols: ['CALM/USDT', 'WILD/USDT'],
+        data: { 'CALM/USDT': calm, 'WILD/USDT': wild },
+        allocation: { rule: 'inverse_volatility', volatilityLookback: 10 },
+        riskLimits: { maxPositionSize: 1 },
+      });
+
+      const calmTrade = result.trades.find(t => t.symbol === 'CALM/USDT');
+      const wildTrade = result.trades.find(t => t.symbol === 'WILD/USDT');
+      expect(calmTrade).toBeDefined();
+      expect(wildTrade).toBeDefined();
+      expect(calmTrade!.entryPrice * calmTrade!.quantity)
+        .toBeGreaterThan(wildTrade!.entryPrice * wildTrade!.quantity);
+    });
+
+    it('should_report_cross_asset_correlation', async () => {
+      const result = await portfolioService.runPortfolioBacktest(baseConfig());
+      const { symbols, matrix } = result.correlation;
+
+      const btc = symbols.indexOf('BTC/USDT');
+      const sol = symbols.indexOf('SOL/USDT');
+      expect(matrix[btc][btc]).toBe(1);
+      expect(matrix[btc][sol]).toBeCloseTo(matrix[sol][btc], 10);
+      expect(Math.abs(matrix[btc][sol])).toBeLessThanOrEqual(1);
+    });
+
+    it('should_reject_strategies_owned_by_different_users', async () => {
+      const other = await db.users.create({ email: 'other@example.com', passwordHash: 'hash', tier: 'pro' });
+      const foreign = await strategyService.createStrategy({
+        userId: other.id,
+        name: 'Foreign',
+        type: 'momentum',
+        config: { symbols: ['BTC/USDT'] },
+      });
+
+      await expect(portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        strategyIds: [strategyId, foreign.id],
+      })).rejects.toThrow('same user');
+    });
+
+    it('should_require_data_for_every_symbol', async () => {
+      await expect(portfolioService.runPortfolioBacktest({
+        ...baseConfig(),
+        data: { 'BTC/USDT': data['BTC/USDT'] },
+      })).rejects.toThrow('No data provided for ETH/USDT');
+    });
+  });
+});
@@ -0,0 +1,647 @@
+/**
+ * PortfolioBacktestService - Multi-Symbol Portfolio Backtesting
+ * Runs one or more strategies across several symbols against a single
+ * shared capital pool with allocation rules and exposure caps.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  BacktestService,
+  BacktestMetrics,
+  EquityPoint,
+  OHLCV,
+  Signal,
+  TradeRecord,
+} from './BacktestService';
+import type { Strategy } from '../database/types';
+import type { RiskLimits } from '../risk/RiskManager';
+import { calculateCorrelation, calculateStopLoss, calculateTakeProfit } from '../risk/calculations';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CapitalAllocationRule = 'equal_weight' | 'fixed_weights' | 'inverse_volatility';
+
+export interface CapitalAllocation {
+  rule: CapitalAllocationRule;
+  weights?: Record<string, number>; // fixed_weights: keyed by symbol
+  volatilityLookback?: number; // inverse_volatility: bars of trailing returns (default 20)
+}
+
+export type PortfolioRiskLimits = Pick<
+  RiskLimits,
+  'maxPositionSize' | 'maxTotalExposure' | 'maxOpenPositions' | 'maxDrawdown'
+>;
+
+export interface PortfolioBacktestConfig {
+  strategyIds: string[];
+  symbols?: string[]; // Defaults to each strategy's config.symbols
+  startDate: Date;
+  endDate: Date;
+  initialCapital: number;
+  data: Record<string, OHLCV[]>; // Candles keyed by symbol
+  allocation?: CapitalAllocation;
+  riskLimits?: Partial<PortfolioRiskLimits>;
+  slippage?: number; // Percentage
+  commission?: number; // Percentage per trade
+}
+
+export interface PortfolioTradeRecord extends TradeRecord {
+  symbol: string;
+  strategyId: string;
+}
+
+export interface SymbolAttribution {
+  symbol: string;
+  pnl: number;
+  contribution: number; // Share of portfolio return, in percentage points
+  trades: number;
+  winRate: number;
+}
+
+export interface StrategyAttribution {
+  strategyId: string;
+  pnl: number;
+  contribution: number;
+  trades: number;
+}
+
+export interface RejectedEntry {
+  timestamp: number;
+  symbol: string;
+  strategyId: string;
+  reason: string;
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  matrix: number[][];
+}
+
+export interface PortfolioBacktestResult {
+  id: string;
+  strategyIds: string[];
+  symbols: string[];
+  startDate: Date;
+  endDate: Date;
+  status: 'completed';
+  metrics: BacktestMetrics;
+  trades: PortfolioTradeRecord[];
+  equityCurve: EquityPoint[];
+  symbolEquityCurves: Record<string, { timestamp: number; pnl: number }[]>;
+  attribution: {
+    bySymbol: SymbolAttribution[];
+    byStrategy: StrategyAttribution[];
+  };
+  correlation: CorrelationMatrix;
+  rejectedEntries: RejectedEntry[];
+  createdAt: Date;
+}
+
+export interface PortfolioBacktestServiceOptions {
+  backtestService: BacktestService;
+}
+
+interface Sleeve {
+  key: string;
+  strategy: Strategy;
+  symbol: string;
+  signals: Map<number, Signal[]>;
+}
+
+interface SleevePosition {
+  side: 'long' | 'short';
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  entryFee: number;
+  stopPrice?: number;
+  targetPrice?: number;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+const DEFAULT_PORTFOLIO_LIMITS: PortfolioRiskLimits = {
+  maxPositionSize: 0.25, // 25% of equity per symbol
+  maxTotalExposure: 1, // No leverage
+  maxOpenPositions: 10,
+  maxDrawdown: 1, // Never halts new entries unless configured
+};
+
+// ============================================================================
+// PortfolioBacktestService Implementation
+// ============================================================================
+
+export class PortfolioBacktestService {
+  private backtestService: BacktestService;
+
+  constructor(options: PortfolioBacktestServiceOptions) {
+    this.backtestService = options.backtestService;
+  }
+
+  async runPortfolioBacktest(config: PortfolioBacktestConfig): Promise<PortfolioBacktestResult> {
+    if (!config.strategyIds || config.strategyIds.length === 0) {
+      throw new Error('At least one strategy is required');
+    }
+
+    const strategies = await this.loadStrategies(config);
+    const sleeves = this.buildSleeves(config, strategies);
+    const symbols = Array.from(new Set(sleeves.map(s => s.symbol)));
+    const limits: PortfolioRiskLimits = { ...DEFAULT_PORTFOLIO_LIMITS, ...config.riskLimits };
+    const weights = this.resolveStaticWeights(config.allocation, sleeves);
+
+    const slippage = config.slippage ?? 0.1;
+    const commission = config.commission ?? 0.1;
+
+    // Shared timeline across all symbols
+    const timeline = Array.from(
+      new Set(symbols.flatMap(symbol => config.data[symbol].map(bar => bar.timestamp)))
+    ).sort((a, b) => a - b);
+    const barsBySymbol = new Map(
+      symbols.map(symbol => [symbol, new Map(config.data[symbol].map((bar, i) => [bar.timestamp, i]))])
+    );
+
+    const trades: PortfolioTradeRecord[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const rejectedEntries: RejectedEntry[] = [];
+    const positions = new Map<string, SleevePosition>();
+    const lastPrice = new Map<string, number>();
+    const realizedBySymbol = new Map<string, number>(symbols.map(symbol => [symbol, 0]));
+    const symbolEquityCurves: PortfolioBacktestResult['symbolEquityCurves'] = Object.fromEntries(
+      symbols.map(symbol => [symbol, [] as { timestamp: number; pnl: number }[]])
+    );
+
+    let cash = config.initialCapital;
+    let peakEquity = config.initialCapital;
+
+    const unrealized = (sleeve: Sleeve, position: SleevePosition): number => {
+      const price = lastPrice.get(sleeve.symbol) ?? position.entryPrice;
+      return position.side === 'long'
+        ? (price - position.entryPrice) * position.quantity
+        : (position.entryPrice - price) * position.quantity;
+    };
+
+    const markEquity = (): number => {
+      let equity = cash;
+      for (const sleeve of sleeves) {
+        const position = positions.get(sleeve.key);
+        if (position) equity += unrealized(sleeve, position);
+      }
+      return equity;
+    };
+
+    const close = (sleeve: Sleeve, rawPrice: number, timestamp: number, reason: TradeRecord['exitReason']) => {
+      const position = positions.get(sleeve.key)!;
+      const exitPrice = position.side === 'long'
+        ? rawPrice * (1 - slippage / 100)
+        : rawPrice * (1 + slippage / 100);
+      const grossPnl = position.side === 'long'
+        ? (exitPrice - position.entryPrice) * position.quantity
+        : (position.entryPrice - exitPrice) * position.quantity;
+      const exitFee = position.quantity * exitPrice * (commission / 100);
+      const pnl = grossPnl - exitFee - position.entryFee;
+
+      cash += grossPnl - exitFee;
+      realizedBySymbol.set(sleeve.symbol, (realizedBySymbol.get(sleeve.symbol) || 0) + pnl);
+      positions.delete(sleeve.key);
+
+      trades.push({
+        id: uuidv4(),
+        symbol: sleeve.symbol,
+        strategyId: sleeve.strategy.id,
+        entryTime: position.entryTime,
+        entryPrice: position.entryPrice,
+        exitTime: timestamp,
+        exitPrice,
+        side: position.side,
+        quantity: position.quantity,
+        pnl,
+        pnlPercent: (pnl / (position.entryPrice * position.quantity)) * 100,
+        exitReason: reason,
+      });
+    };
+
+    equityCurve.push({ timestamp: timeline[0] ?? 0, equity: cash, drawdown: 0 });
+
+    for (const timestamp of timeline) {
+      const active = sleeves.filter(sleeve => barsBySymbol.get(sleeve.symbol)!.has(timestamp));
+
+      // 1. Intrabar stop-loss / take-profit on sleeves with a bar at this time
+      for (const sleeve of active) {
+        const position = positions.get(sleeve.key);
+        if (!position || position.entryTime >= timestamp) continue;
+
+        const bar = config.data[sleeve.symbol][barsBySymbol.get(sleeve.symbol)!.get(timestamp)!];
+        const exit = this.checkIntrabarExit(position, bar);
+        if (exit) {
+          close(sleeve, exit.price, timestamp, exit.reason);
+        }
+      }
+
+      for (const symbol of symbols) {
+        const index = barsBySymbol.get(symbol)!.get(timestamp);
+        if (index !== undefined) lastPrice.set(symbol, config.data[symbol][index].close);
+      }
+
+      // 2. Exit signals free capital before new entries are sized
+      for (const sleeve of active) {
+        for (const signal of sleeve.signals.get(timestamp) || []) {
+          const position = positions.get(sleeve.key);
+          if (signal.type === 'exit' && position && position.side === signal.side) {
+            close(sleeve, signal.price, timestamp, 'signal');
+          }
+        }
+      }
+
+      // 3. Entry signals, subject to allocation and exposure caps
+      for (const sleeve of active) {
+        for (const signal of sleeve.signals.get(timestamp) || []) {
+          if (signal.type !== 'entry' || positions.has(sleeve.key)) continue;
+
+          const equity = markEquity();
+          const reject = (reason: string) =>
+            rejectedEntries.push({ timestamp, symbol: sleeve.symbol, strategyId: sleeve.strategy.id, reason });
+
+          const drawdown = peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0;
+          if (drawdown >= limits.maxDrawdown) {
+            reject(`Portfolio drawdown ${(drawdown * 100).toFixed(1)}% at or above limit`);
+            continue;
+          }
+          if (positions.size >= limits.maxOpenPositions) {
+            reject(`Max open positions (${limits.maxOpenPositions}) reached`);
+            continue;
+          }
+
+          const weight = config.allocation?.rule === 'inverse_volatility'
+            ? this.inverseVolatilityWeight(sleeve, sleeves, config, barsBySymbol, timestamp)
+            : weights.get(sleeve.key) || 0;
+
+          let notional = equity * weight;
+
+          const symbolExposure = this.exposure(sleeves, positions, lastPrice, s => s.symbol === sleeve.symbol);
+          const symbolHeadroom = limits.maxPositionSize * equity - symbolExposure;
+          const totalHeadroom = limits.maxTotalExposure * equity - this.exposure(sleeves, positions, lastPrice);
+          notional = Math.min(notional, symbolHeadroom, totalHeadroom);
+
+          if (!(notional > 0)) {
+            reject(symbolHeadroom <= totalHeadroom
+              ? `Per-symbol exposure cap (${limits.maxPositionSize * 100}%) reached for ${sleeve.symbol}`
+              : `Total exposure cap (${limits.maxTotalExposure * 100}%) reached`);
+            continue;
+          }
+
+          const entryPrice = signal.side === 'long'
+            ? signal.price * (1 + slippage / 100)
+            : signal.price * (1 - slippage / 100);
+          const quantity = notional / entryPrice;
+          const entryFee = notional * (commission / 100);
+          cash -= entryFee;
+
+          positions.set(sleeve.key, {
+            side: signal.side,
+            entryTime: timestamp,
+            entryPrice,
+            quantity,
+            entryFee,
+            ...this.stopAndTarget(sleeve.strategy.config as Record<string, any>, entryPrice, signal.side),
+          });
+        }
+      }
+
+      // 4. Mark the whole book to market
+      const equity = markEquity();
+      peakEquity = Math.max(peakEquity, equity);
+      equityCurve.push({
+        timestamp,
+        equity,
+        drawdown: peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0,
+      });
+
+      for (const symbol of symbols) {
+        let pnl = realizedBySymbol.get(symbol) || 0;
+        for (const sleeve of sleeves) {
+          const position = positions.get(sleeve.key);
+          if (sleeve.symbol === symbol && position) pnl += unrealized(sleeve, position) - position.entryFee;
+        }
+        symbolEquityCurves[symbol].push({ timestamp, pnl });
+      }
+    }
+
+    // Close remaining positions at the final prices
+    const lastTimestamp = timeline[timeline.length - 1];
+    for (const sleeve of sleeves) {
+      if (positions.has(sleeve.key)) {
+        close(sleeve, lastPrice.get(sleeve.symbol)!, lastTimestamp, 'end_of_data');
+      }
+    }
+    if (timeline.length > 0) {
+      peakEquity = Math.max(peakEquity, cash);
+      equityCurve[equityCurve.length - 1] = {
+        timestamp: lastTimestamp,
+        equity: cash,
+        drawdown: peakEquity > 0 ? ((peakEquity - cash) / peakEquity) * 100 : 0,
+      };
+      for (const symbol of symbols) {
+        const curve = symbolEquityCurves[symbol];
+        curve[curve.length - 1] = { timestamp: lastTimestamp, pnl: realizedBySymbol.get(symbol) || 0 };
+      }
+    }
+
+    const metrics = this.backtestService.calculateMetrics(trades, equityCurve, config.initialCapital);
+
+    return {
+      id: uuidv4(),
+      strategyIds: strategies.map(s => s.id),
+      symbols,
+      startDate: config.startDate,
+      endDate: config.endDate,
+      status: 'completed',
+      metrics,
+      trades,
+      equityCurve,
+      symbolEquityCurves,
+      attribution: this.attribute(trades, symbols, strategies, config.initialCapital),
+      correlation: this.correlationMatrix(symbols, config.data),
+      rejectedEntries,
+      createdAt: new Date(),
+    };
+  }
+
+  // ============================================================================
+  // Setup
+  // ============================================================================
+
+  private async loadStrategies(config: PortfolioBacktestConfig): Promise<Strategy[]> {
+    const strategies: Strategy[] = [];
+
+    for (const strategyId of config.strategyIds) {
+      const symbol = config.symbols?.[0] ?? Object.keys(config.data)[0];
+      // Reuses single-symbol validation and tier limits for each strategy
+      const strategy = await this.backtestService.prepareBacktest({
+        strategyId,
+        symbol,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        initialCapital: config.initialCapital,
+        data: config.data[symbol] || [],
+      });
+      strategies.push(strategy);
+    }
+
+    if (new Set(strategies.map(s => s.userId)).size > 1) {
+      throw new Error('Portfolio strategies must belong to the same user');
+    }
+
+    return strategies;
+  }
+
+  private buildSleeves(config: PortfolioBacktestConfig, strategies: Strategy[]): Sleeve[] {
+    const sleeves: Sleeve[] = [];
+
+    for (const strategy of strategies) {
+      const strategyConfig = strategy.config as Record<string, any>;
+      const symbols: string[] = config.symbols ?? strategyConfig.symbols ?? [];
+
+      if (symbols.length === 0) {
+        throw new Error(`Strategy ${strategy.id} has no symbols to backtest`);
+      }
+
+      for (const symbol of symbols) {
+        const data = config.data[symbol];
+        if (!data || data.length === 0) {
+          throw new Error(`No data provided for ${symbol}`);
+        }
+
+        const signals = new Map<number, Signal[]>();
+        for (const signal of this.backtestService.generateSignals(strategy.type, data, strategyConfig)) {
+          const existing = signals.get(signal.timestamp) || [];
+          existing.push(signal);
+          signals.set(signal.timestamp, existing);
+        }
+
+        sleeves.push({ key: `${strategy.id}:${symbol}`, strategy, symbol, signals });
+      }
+    }
+
+    return sleeves;
+  }
+
+  // ============================================================================
+  // Allocation & Exposure
+  // ============================================================================
+
+  private resolveStaticWeights(allocation: CapitalAllocation | undefined, sleeves: Sleeve[]): Map<string, number> {
+    const weights = new Map<string, number>();
+
+    if (allocation?.rule === 'fixed_weights') {
+      const raw = allocation.weights || {};
+      const total = sleeves.reduce((sum, sleeve) => sum + Math.max(0, raw[sleeve.symbol] ?? 0), 0);
+      if (total <= 0) {
+        throw new Error('Fixed weights must assign a positive weight to at least one symbol');
+      }
+      // Symbols traded by several strategies split their weight evenly
+      for (const sleeve of sleeves) {
+        weights.set(sleeve.key, Math.max(0, raw[sleeve.symbol] ?? 0) / total);
+      }
+      return weights;
+    }
+
+    for (const sleeve of sleeves) {
+      weights.set(sleeve.key, 1 / sleeves.length);
+    }
+    return weights;
+  }
+
+  /**
+   * Weight a sleeve by the inverse of its symbol's trailing return
+   * volatility relative to every other sleeve, using only bars up to now.
+   */
+  private inverseVolatilityWeight(
+    target: Sleeve,
+    sleeves: Sleeve[],
+    config: PortfolioBacktestConfig,
+    barsBySymbol: Map<string, Map<number, number>>,
+    timestamp: number
+  ): number {
+    const lookback = config.allocation?.volatilityLookback ?? 20;
+    const inverseVol = new Map<string, number>();
+
+    for (const sleeve of sleeves) {
+      if (inverseVol.has(sleeve.symbol)) continue;
+
+      const data = config.data[sleeve.symbol];
+      // Latest bar at or before this timestamp
+      let end = barsBySymbol.get(sleeve.symbol)!.get(timestamp);
+      if (end === undefined) {
+        end = data.findIndex(bar => bar.timestamp > timestamp) - 1;
+        if (end < 0) end = data[data.length - 1].timestamp <= timestamp ? data.length - 1 : -1;
+      }
+
+      const returns = this.closeReturns(data.slice(Math.max(0, end - lookback), end + 1));
+      const vol = this.standardDeviation(returns);
+      inverseVol.set(sleeve.symbol, vol > 0 ? 1 / vol : 0);
+    }
+
+    const total = sleeves.reduce((sum, sleeve) => sum + (inverseVol.get(sleeve.symbol) || 0), 0);
+    if (total <= 0) {
+      return 1 / sleeves.length;
+    }
+    return (inverseVol.get(target.symbol) || 0) / total;
+  }
+
+  private exposure(
+    sleeves: Sleeve[],
+    positions: Map<string, SleevePosition>,
+    lastPrice: Map<string, number>,
+    filter: (sleeve: Sleeve) => boolean = () => true
+  ): number {
+    let exposure = 0;
+    for (const sleeve of sleeves) {
+      const position = positions.get(sleeve.key);
+      if (position && filter(sleeve)) {
+        exposure += position.quantity * (lastPrice.get(sleeve.symbol) ?? position.entryPrice);
+      }
+    }
+    return exposure;
+  }
+
+  // ============================================================================
+  // Exits
+  // ============================================================================
+
+  private stopAndTarget(
+    strategyConfig: Record<string, any>,
+    entryPrice: number,
+    side: 'long' | 'short'
+  ): Pick<SleevePosition, 'stopPrice' | 'targetPrice'> {
+    const stopPercent = Number(strategyConfig.stopLossPercent) || 0;
+    const targetPercent = Number(strategyConfig.takeProfitPercent) || 0;
+    if (stopPercent <= 0) return {};
+
+    const stopPrice = calculateStopLoss({ entryPrice, riskPercentage: stopPercent / 100, direction: side });
+    const targetPrice = targetPercent > 0
+      ? calculateTakeProfit({
+          entryPrice,
+          stopLoss: stopPrice,
+          riskRewardRatio: targetPercent / stopPercent,
+          direction: side,
+        })
+      : undefined;
+
+    return { stopPrice, targetPrice };
+  }
+
+  /**
+   * Stop first when both levels sit inside the same bar, matching the
+   * single-symbol engine's conservative assumption.
+   */
+  private checkIntrabarExit(
+    position: SleevePosition,
+    bar: OHLCV
+  ): { price: number; reason: 'stop_loss' | 'take_profit' } | null {
+    const isLong = position.side === 'long';
+
+    if (position.stopPrice !== undefined && (isLong ? bar.low <= position.stopPrice : bar.high >= position.stopPrice)) {
+      return {
+        price: isLong ? Math.min(bar.open, position.stopPrice) : Math.max(bar.open, position.stopPrice),
+        reason: 'stop_loss',
+      };
+    }
+
+    if (position.targetPrice !== undefined && (isLong ? bar.high >= position.targetPrice : bar.low <= position.targetPrice)) {
+      return {
+        price: isLong ? Math.max(bar.open, position.targetPrice) : Math.min(bar.open, position.targetPrice),
+        reason: 'take_profit',
+      };
+    }
+
+    return null;
+  }
+
+  // ============================================================================
+  // Reporting
+  // ============================================================================
+
+  private attribute(
+    trades: PortfolioTradeRecord[],
+    symbols: string[],
+    strategies: Strategy[],
+    initialCapital: number
+  ): PortfolioBacktestResult['attribution'] {
+    const bySymbol = symbols.map(symbol => {
+      const symbolTrades = trades.filter(t => t.symbol === symbol);
+      const pnl = symbolTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const wins = symbolTrades.filter(t => (t.pnl || 0) > 0).length;
+      return {
+        symbol,
+        pnl,
+        contribution: (pnl / initialCapital) * 100,
+        trades: symbolTrades.length,
+        winRate: symbolTrades.length > 0 ? (wins / symbolTrades.length) * 100 : 0,
+      };
+    });
+
+    const byStrategy = strategies.map(strategy => {
+      const strategyTrades = trades.filter(t => t.strategyId === strategy.id);
+      const pnl = strategyTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      return {
+        strategyId: strategy.id,
+        pnl,
+        contribution: (pnl / initialCapital) * 100,
+        trades: strategyTrades.length,
+      };
+    });
+
+    return { bySymbol, byStrategy };
+  }
+
+  /**
+   * Pairwise correlation of close-to-close returns over the timestamps
+   * both symbols share.
+   */
+  correlationMatrix(symbols: string[], data: Record<string, OHLCV[]>): CorrelationMatrix {
+    const closes = new Map(
+      symbols.map(symbol => [symbol, new Map(data[symbol].map(bar => [bar.timestamp, bar.close]))])
+    );
+
+    const matrix = symbols.map((a, i) =>
+      symbols.map((b, j) => {
+        if (i === j) return 1;
+
+        const seriesA = closes.get(a)!;
+        const seriesB = closes.get(b)!;
+        const shared = Array.from(seriesA.keys()).filter(t => seriesB.has(t)).sort((x, y) => x - y);
+
+        const returnsA: number[] = [];
+        const returnsB: number[] = [];
+        for (let k = 1; k < shared.length; k++) {
+          const prev = shared[k - 1];
+          const curr = shared[k];
+          returnsA.push((seriesA.get(curr)! - seriesA.get(prev)!) / seriesA.get(prev)!);
+          returnsB.push((seriesB.get(curr)! - seriesB.get(prev)!) / seriesB.get(prev)!);
+        }
+
+        return calculateCorrelation(returnsA, returnsB);
+      })
+    );
+
+    return { symbols, matrix };
+  }
+
+  private closeReturns(bars: OHLCV[]): number[] {
+    const returns: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      returns.push((bars[i].close - bars[i - 1].close) / bars[i - 1].close);
+    }
+    return returns;
+  }
+
+  private standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length);
+  }
+}
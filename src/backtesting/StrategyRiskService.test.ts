@@ -18,7 +18,9 @@ function createStubDb() {
 }
 
 class StubBacktestService {
-  analyzeRisk(result: any) {
+  monteCarloDrawdownP95 = 12;
+
+  analyzeRisk(result: any, options: { monteCarlo?: any } = {}) {
     const hasTrades = Array.isArray(result.trades) && result.trades.length > 0;
     return {
       valueAtRisk95: hasTrades ? 5 : 0,
@@ -27,6 +29,18 @@ class StubBacktestService {
       calmarRatio: 1.5,
       maxConsecutiveLosses: 3,
       avgDrawdownDuration: 0,
+      ...(options.monteCarlo && hasTrades && {
+        monteCarlo: {
+          method: 'shuffle',
+          iterations: 1000,
+          ruinThreshold: 50,
+          finalEquity: { mean: 12000, p5: 11000, p25: 11500, p50: 12000, p75: 12500, p95: 13000 },
+          totalReturn: { mean: 20, p5: 10, p25: 15, p50: 20, p75: 25, p95: 30 },
+          maxDrawdown: { mean: 8, p5: 4, p25: 6, p50: 8, p75: 10, p95: this.monteCarloDrawdownP95 },
+          ruinProbability: 0,
+          equityBands: [],
+        },
+      }),
     };
   }
 }
@@ -34,11 +48,12 @@ class StubBacktestService {
 describe('StrategyRiskService', () => {
   let db: ReturnType<typeof createStubDb>;
   let service: StrategyRiskService;
+  let backtestService: StubBacktestService;
 
   beforeEach(() => {
     db = createStubDb();
-    const backtestService = new StubBacktestService() as any;
-    service = new StrategyRiskService({ db: db as unknown as NeonDatabase, backtestService });
+    backtestService = new StubBacktestService();
+    service = new StrategyRiskService({ db: db as unknown as NeonDatabase, backtestService: backtestService as any });
   });
 
   it('returns null when strategy does not belong to user', async () => {
@@ -125,5 +140,46 @@ describe('StrategyRiskService', () => {
     expect(summary!.reasons.join(' ')).toMatch(/negative return/i);
     expect(summary!.reasons.join(' ')).toMatch(/max drawdown exceeds 30/i);
   });
-});
 
+  describe('monte carlo gating', () => {
+    beforeEach(() => {
+      db._strategies.push({ id: 'strat-1', user_id: 'user-1' });
+      db._backtests.push({
+        id: 'bt-1',
+        strategy_id: 'strat-1',
+        symbol: 'BTC/USDT',
+        status: 'completed',
+        metrics: { totalReturn: 20, maxDrawdown: 10, winRate: 55, sharpeRatio: 0.8 },
+        trades: [{ pnl: 10 }, { pnl: -5 }],
+        created_at: new Date('2024-01-01'),
+      });
+    });
+
+    it('includes monte carlo summary when requested', async () => {
+      const summary = await service.getStrategyRisk('user-1', 'strat-1', { monteCarlo: true });
+
+      expect(summary!.status).toBe('ok');
+      expect(summary!.monteCarlo?.maxDrawdownP95).toBe(12);
+    });
+
+    it('blocks when the 5th-percentile drawdown exceeds the limit even if history does not', async () => {
+      backtestService.monteCarloDrawdownP95 = 42;
+
+      const historical = await service.getStrategyRisk('user-1', 'strat-1');
+      const resampled = await service.getStrategyRisk('user-1', 'strat-1', { monteCarlo: true });
+
+      expect(historical!.status).toBe('ok');
+      expect(resampled!.status).toBe('blocked');
+      expect(resampled!.reasons.join(' ')).toMatch(/Monte Carlo 5th-percentile drawdown exceeds 30/i);
+    });
+
+    it('warns when there are no trades to resample', async () => {
+      db._backtests[0].trades = [];
+
+      const summary = await service.getStrategyRisk('user-1', 'strat-1', { monteCarlo: true });
+
+      expect(summary!.status).toBe('warning');
+      expect(summary!.reasons.join(' ')).toMatch(/Monte Carlo analysis unavailable/i);
+    });
+  });
+});
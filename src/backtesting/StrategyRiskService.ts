@@ -1,5 +1,5 @@
 import type { NeonDatabase } from '../database/NeonDatabase';
-import type { BacktestService, BacktestResult } from './BacktestService';
+import type { BacktestService, BacktestResult, MonteCarloOptions } from './BacktestService';
 
 export interface StrategyRiskSummary {
   strategyId: string;
@@ -19,10 +19,28 @@ export interface StrategyRiskSummary {
     calmarRatio: number;
     maxConsecutiveLosses: number;
   };
+  monteCarlo?: {
+    method: 'shuffle' | 'bootstrap';
+    iterations: number;
+    maxDrawdownP95: number;
+    finalEquityP5: number;
+    finalEquityP50: number;
+    ruinProbability: number;
+  };
   status: 'ok' | 'warning' | 'blocked';
   reasons: string[];
 }
 
+export interface StrategyRiskOptions {
+  /**
+   * When set, drawdown gating uses the Monte Carlo drawdown exceeded in
+   * only 5% of resampled paths instead of the single historical path.
+   */
+  monteCarlo?: boolean | MonteCarloOptions;
+}
+
+const MAX_LIVE_DRAWDOWN = 30;
+
 export class StrategyRiskService {
   private db: NeonDatabase;
   private backtestService: BacktestService;
@@ -37,7 +55,11 @@ export class StrategyRiskService {
    * completed backtest stored in Neon. This is read-only and does not
    * modify strategy state or live-eligibility flags.
    */
-  async getStrategyRisk(userId: string, strategyId: string): Promise<StrategyRiskSummary | null> {
+  async getStrategyRisk(
+    userId: string,
+    strategyId: string,
+    options: StrategyRiskOptions = {}
+  ): Promise<StrategyRiskSummary | null> {
     const strategy = await this.db.strategies.findById(strategyId);
     if (!strategy || strategy.user_id !== userId) {
       return null;
@@ -73,12 +95,14 @@ export class StrategyRiskService {
       endDate: latest.end_date,
       status: latest.status,
       metrics: metrics,
-      trades: metrics.trades || [],
+      trades: latest.trades || metrics.trades || [],
       equityCurve: metrics.equityCurve || [],
       createdAt: latest.created_at,
     };
 
-    const riskAnalysis = this.backtestService.analyzeRisk(backtestResult);
+    const monteCarloOptions = options.monteCarlo === true ? {} : options.monteCarlo || undefined;
+    const riskAnalysis = this.backtestService.analyzeRisk(backtestResult, { monteCarlo: monteCarloOptions });
+    const monteCarlo = riskAnalysis.monteCarlo;
 
     const reasons: string[] = [];
     let status: StrategyRiskSummary['status'] = 'ok';
@@ -96,9 +120,12 @@ export class StrategyRiskService {
         status = 'blocked';
         reasons.push('Latest backtest has negative return');
       }
-      if (maxDrawdown > 30) {
+      if (maxDrawdown > MAX_LIVE_DRAWDOWN) {
+        status = 'blocked';
+        reasons.push(`Latest backtest max drawdown exceeds ${MAX_LIVE_DRAWDOWN}%`);
+      } else if (monteCarlo && monteCarlo.maxDrawdown.p95 > MAX_LIVE_DRAWDOWN) {
         status = 'blocked';
-        reasons.push('Latest backtest max drawdown exceeds 30%');
+        reasons.push(`Monte Carlo 5th-percentile drawdown exceeds ${MAX_LIVE_DRAWDOWN}%`);
       }
       if (winRate !== undefined && winRate < 40) {
         status = status === 'ok' ? 'warning' : status;
@@ -110,6 +137,11 @@ export class StrategyRiskService {
       }
     }
 
+    if (monteCarloOptions && !monteCarlo) {
+      status = status === 'ok' ? 'warning' : status;
+      reasons.push('Monte Carlo analysis unavailable; no closed trades to resample');
+    }
+
     if (reasons.length === 0) {
       reasons.push('Backtest metrics within configured thresholds');
     }
@@ -132,6 +164,16 @@ export class StrategyRiskService {
         calmarRatio: riskAnalysis.calmarRatio,
         maxConsecutiveLosses: riskAnalysis.maxConsecutiveLosses,
       },
+      ...(monteCarlo && {
+        monteCarlo: {
+          method: monteCarlo.method,
+          iterations: monteCarlo.iterations,
+          maxDrawdownP95: monteCarlo.maxDrawdown.p95,
+          finalEquityP5: monteCarlo.finalEquity.p5,
+          finalEquityP50: monteCarlo.finalEquity.p50,
+          ruinProbability: monteCarlo.ruinProbability,
+        },
+      }),
       status,
       reasons,
     };
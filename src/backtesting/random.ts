@@ -0,0 +1,18 @@
+/**
+ * Seeded random helpers shared by the optimizer and Monte Carlo analysis,
+ * so that sampled results are reproducible for a given seed.
+ */
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
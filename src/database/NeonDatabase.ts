@@ -352,6 +352,13 @@ export class NeonDatabase {
       `, [userId]);
     },
 
+    findActiveUserIds: async (): Promise<string[]> => {
+      const rows = await this.query<{ userId: string }>(`
+        SELECT DISTINCT user_id FROM exchange_connections WHERE status = 'active'
+      `);
+      return rows.map((row) => row.userId);
+    },
+
     update: async (id: string, data: Partial<ExchangeConnection>) => {
       const fields: string[] = [];
       const values: any[] = [];
@@ -553,6 +560,12 @@ export class NeonDatabase {
       return this.query<Order>(query, values);
     },
 
+    findPending: async (mode: string) => {
+      return this.query<Order>(`
+        SELECT * FROM orders WHERE status = 'pending' AND mode = $1 ORDER BY created_at
+      `, [mode]);
+    },
+
     update: async (id: string, data: Partial<Order>) => {
       const fields: string[] = [];
       const values: any[] = [];
@@ -715,6 +728,32 @@ export class NeonDatabase {
       return this.query<Position>(query, values);
     },
 
+    findOpenUserIds: async (mode?: string): Promise<string[]> => {
+      const rows = await this.query<{ userId: string }>(`
+        SELECT DISTINCT user_id FROM positions
+        WHERE closed_at IS NULL${mode ? ' AND mode = $1' : ''}
+      `, mode ? [mode] : []);
+      return rows.map((row) => row.userId);
+    },
+
+    /**
+     * Users who have ever held a position in the mode, open or closed
+     */
+    findUserIds: async (mode: string): Promise<string[]> => {
+      const rows = await this.query<{ userId: string }>(`
+        SELECT DISTINCT user_id FROM positions WHERE mode = $1
+      `, [mode]);
+      return rows.map((row) => row.userId);
+    },
+
+    sumRealizedPnl: async (userId: string, mode: string): Promise<number> => {
+      const row = await this.queryOne<{ realizedPnl: string | number }>(`
+        SELECT COALESCE(SUM(realized_pnl), 0) AS realized_pnl FROM positions
+        WHERE user_id = $1 AND mode = $2 AND closed_at IS NOT NULL
+      `, [userId, mode]);
+      return Number(row?.realizedPnl ?? 0);
+    },
+
     update: async (id: string, data: Partial<Position>) => {
       const fields: string[] = [];
       const values: any[] = [];
@@ -924,6 +963,7 @@ export class NeonDatabase {
 
   backtests = {
     create: async (data: {
+      id?: string;
       userId: string;
       strategyId: string;
       symbol: string;
@@ -932,10 +972,10 @@ export class NeonDatabase {
       initialCapital: number;
     }) => {
       return this.queryOne(`
-        INSERT INTO backtests (user_id, strategy_id, symbol, start_date, end_date, initial_capital)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO backtests (id, user_id, strategy_id, symbol, start_date, end_date, initial_capital)
+        VALUES (COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7)
         RETURNING *
-      `, [data.userId, data.strategyId, data.symbol, data.startDate, data.endDate, data.initialCapital]);
+      `, [data.id || null, data.userId, data.strategyId, data.symbol, data.startDate, data.endDate, data.initialCapital]);
     },
 
     findById: async (id: string) => {
@@ -956,6 +996,60 @@ export class NeonDatabase {
       `, [strategyId]);
     },
 
+    /**
+     * Completed backtests for a user, newest first, without trades or
+     * equity curves. Metric thresholds filter on the stored metrics JSON.
+     */
+    search: async (filters: {
+      userId: string;
+      strategyId?: string;
+      symbol?: string;
+      from?: Date;
+      to?: Date;
+      minTotalReturn?: number;
+      minSharpeRatio?: number;
+      maxDrawdown?: number;
+      minWinRate?: number;
+      minTrades?: number;
+      limit: number;
+      offset: number;
+    }) => {
+      const conditions = [`user_id = $1`, `status = 'completed'`];
+      const values: any[] = [filters.userId];
+
+      const add = (sql: string, value: unknown) => {
+        values.push(value);
+        conditions.push(sql.replace('?', `$${values.length}`));
+      };
+
+      if (filters.strategyId) add('strategy_id = ?', filters.strategyId);
+      if (filters.symbol) add('symbol = ?', filters.symbol);
+      if (filters.from) add('start_date >= ?', filters.from);
+      if (filters.to) add('end_date <= ?', filters.to);
+      if (filters.minTotalReturn !== undefined) add(`(metrics->>'totalReturn')::numeric >= ?`, filters.minTotalReturn);
+      if (filters.minSharpeRatio !== undefined) add(`(metrics->>'sharpeRatio')::numeric >= ?`, filters.minSharpeRatio);
+      if (filters.maxDrawdown !== undefined) add(`(metrics->>'maxDrawdown')::numeric <= ?`, filters.maxDrawdown);
+      if (filters.minWinRate !== undefined) add(`(metrics->>'winRate')::numeric >= ?`, filters.minWinRate);
+      if (filters.minTrades !== undefined) add(`(metrics->>'totalTrades')::numeric >= ?`, filters.minTrades);
+
+      const where = conditions.join(' AND ');
+
+      const countRow = await this.queryOne<{ count: string }>(`
+        SELECT COUNT(*) AS count FROM backtests WHERE ${where}
+      `, values);
+
+      const rows = await this.query(`
+        SELECT id, user_id, strategy_id, symbol, start_date, end_date, initial_capital, final_capital,
+               status, metrics, created_at, completed_at
+        FROM backtests
+        WHERE ${where}
+        ORDER BY created_at DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `, [...values, filters.limit, filters.offset]);
+
+      return { rows, total: Number(countRow?.count || 0) };
+    },
+
     update: async (id: string, data: {
       status?: 'pending' | 'running' | 'completed' | 'failed';
       finalCapital?: number;
@@ -1012,6 +1106,294 @@ export class NeonDatabase {
       `, values);
     },
   };
+
+  // ============================================
+  // OHLCV CANDLES REPOSITORY
+  // ============================================
+
+  candles = {
+    upsertMany: async (rows: Array<{
+      exchange: string;
+      symbol: string;
+      timeframe: string;
+      timestamp: number;
+      open: number;
+      high: number;
+      low: number;
+      close: number;
+      volume: number;
+    }>) => {
+      if (rows.length === 0) return 0;
+
+      const values: any[] = [];
+      const tuples = rows.map((row, i) => {
+        const base = i * 9;
+        values.push(row.exchange, row.symbol, row.timeframe, row.timestamp, row.open, row.high, row.low, row.close, row.volume);
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9})`;
+      });
+
+      await this.query(`
+        INSERT INTO ohlcv_candles (exchange, symbol, timeframe, timestamp, open, high, low, close, volume)
+        VALUES ${tuples.join(', ')}
+        ON CONFLICT (exchange, symbol, timeframe, timestamp) DO UPDATE SET
+          open = EXCLUDED.open,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          close = EXCLUDED.close,
+          volume = EXCLUDED.volume
+      `, values);
+
+      return rows.length;
+    },
+
+    findRange: async (exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<OHLCVCandle[]> => {
+      return this.query(`
+        SELECT * FROM ohlcv_candles
+        WHERE exchange = $1 AND symbol = $2 AND timeframe = $3 AND timestamp >= $4 AND timestamp <= $5
+        ORDER BY timestamp ASC
+      `, [exchange, symbol, timeframe, start, end]);
+    },
+  };
+
+  // ============================================
+  // UNFILLABLE CANDLE RANGES REPOSITORY
+  // ============================================
+
+  candleGaps = {
+    insertMany: async (rows: Array<{
+      exchange: string;
+      symbol: string;
+      timeframe: string;
+      startTime: number;
+      endTime: number;
+    }>) => {
+      if (rows.length === 0) return 0;
+
+      const values: any[] = [];
+      const tuples = rows.map((row, i) => {
+        const base = i * 5;
+        values.push(row.exchange, row.symbol, row.timeframe, row.startTime, row.endTime);
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`;
+      });
+
+      await this.query(`
+        INSERT INTO ohlcv_candle_gaps (exchange, symbol, timeframe, start_time, end_time)
+        VALUES ${tuples.join(', ')}
+        ON CONFLICT (exchange, symbol, timeframe, start_time) DO UPDATE SET
+          end_time = GREATEST(ohlcv_candle_gaps.end_time, EXCLUDED.end_time)
+      `, values);
+
+      return rows.length;
+    },
+
+    findOverlapping: async (exchange: string, symbol: string, timeframe: string, start: number, end: number) => {
+      return this.query<{ startTime: string | number; endTime: string | number }>(`
+        SELECT start_time, end_time FROM ohlcv_candle_gaps
+        WHERE exchange = $1 AND symbol = $2 AND timeframe = $3 AND start_time <= $5 AND end_time >= $4
+        ORDER BY start_time ASC
+      `, [exchange, symbol, timeframe, start, end]);
+    },
+  };
+
+  // ============================================
+  // BACKTEST DATASETS REPOSITORY
+  // ============================================
+
+  datasets = {
+    create: async (data: {
+      userId: string;
+      name: string;
+      symbol: string;
+      timeframe?: string;
+      startTime: number;
+      endTime: number;
+      candles: Array<{ timestamp: number; open: number; high: number; low: number; close: number; volume: number }>;
+    }) => {
+      return this.queryOne<BacktestDataset>(`
+        INSERT INTO backtest_datasets (user_id, name, symbol, timeframe, candle_count, start_time, end_time, candles)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id, user_id, name, symbol, timeframe, candle_count, start_time, end_time, created_at
+      `, [
+        data.userId,
+        data.name,
+        data.symbol,
+        data.timeframe || null,
+        data.candles.length,
+        data.startTime,
+        data.endTime,
+        JSON.stringify(data.candles),
+      ]);
+    },
+
+    findById: async (id: string) => {
+      return this.queryOne<BacktestDataset>(`
+        SELECT * FROM backtest_datasets WHERE id = $1
+      `, [id]);
+    },
+
+    findByUserId: async (userId: string) => {
+      return this.query<BacktestDataset>(`
+        SELECT id, user_id, name, symbol, timeframe, candle_count, start_time, end_time, created_at
+        FROM backtest_datasets WHERE user_id = $1 ORDER BY created_at DESC
+      `, [userId]);
+    },
+
+    delete: async (id: string): Promise<void> => {
+      await this.query(`
+        DELETE FROM backtest_datasets WHERE id = $1
+      `, [id]);
+    },
+  };
+
+  // ============================================
+  // EQUITY SNAPSHOTS REPOSITORY
+  // ============================================
+
+  equitySnapshots = {
+    create: async (data: {
+      userId: string;
+      mode: string;
+      equity: number | null;
+      positionValue: number;
+      unrealizedPnl: number;
+      positions: EquitySnapshotPosition[];
+      capturedAt?: Date;
+    }) => {
+      return this.queryOne<EquitySnapshot>(`
+        INSERT INTO equity_snapshots (user_id, mode, equity, position_value, unrealized_pnl, positions, captured_at)
+        VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, NOW()))
+        RETURNING *
+      `, [
+        data.userId,
+        data.mode,
+        data.equity,
+        data.positionValue,
+        data.unrealizedPnl,
+        JSON.stringify(data.positions),
+        data.capturedAt || null,
+      ]);
+    },
+
+    /**
+     * Snapshots in chronological order. With a limit, the most recent ones.
+     */
+    findByUserId: async (userId: string, options?: { mode?: string; since?: Date; until?: Date; limit?: number }) => {
+      let query = `SELECT * FROM equity_snapshots WHERE user_id = $1`;
+      const values: any[] = [userId];
+      let paramIndex = 2;
+
+      if (options?.mode) {
+        query += ` AND mode = $${paramIndex++}`;
+        values.push(options.mode);
+      }
+      if (options?.since) {
+        query += ` AND captured_at >= $${paramIndex++}`;
+        values.push(options.since);
+      }
+      if (options?.until) {
+        query += ` AND captured_at <= $${paramIndex++}`;
+        values.push(options.until);
+      }
+
+      query += ` ORDER BY captured_at DESC`;
+
+      if (options?.limit) {
+        query += ` LIMIT $${paramIndex}`;
+        values.push(options.limit);
+      }
+
+      const rows = await this.query<EquitySnapshot>(query, values);
+      return rows.reverse();
+    },
+  };
+
+  // ============================================
+  // KILL SWITCH STATES REPOSITORY
+  // ============================================
+
+  killSwitchStates = {
+    findAll: async () => {
+      return this.query<KillSwitchStateRow>(`SELECT * FROM kill_switch_states`);
+    },
+
+    upsert: async (data: {
+      userId: string;
+      status: string;
+      maxDrawdown: number;
+      maxDailyLoss: number;
+      flattenPositions: boolean;
+      peakEquity: number | null;
+      dayStartEquity: number | null;
+      day: string | null;
+      trippedAt?: Date | null;
+      trigger?: string | null;
+      reason?: string | null;
+      actions?: unknown;
+      rearmedAt?: Date | null;
+      rearmedBy?: string | null;
+    }) => {
+      return this.queryOne<KillSwitchStateRow>(`
+        INSERT INTO kill_switch_states (
+          user_id, status, max_drawdown, max_daily_loss, flatten_positions, peak_equity,
+          day_start_equity, day, tripped_at, trigger, reason, actions, rearmed_at, rearmed_by
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        ON CONFLICT (user_id) DO UPDATE SET
+          status = $2,
+          max_drawdown = $3,
+          max_daily_loss = $4,
+          flatten_positions = $5,
+          peak_equity = $6,
+          day_start_equity = $7,
+          day = $8,
+          tripped_at = $9,
+          trigger = $10,
+          reason = $11,
+          actions = $12,
+          rearmed_at = $13,
+          rearmed_by = $14,
+          updated_at = NOW()
+        RETURNING *
+      `, [
+        data.userId,
+        data.status,
+        data.maxDrawdown,
+        data.maxDailyLoss,
+        data.flattenPositions,
+        data.peakEquity,
+        data.dayStartEquity,
+        data.day,
+        data.trippedAt || null,
+        data.trigger || null,
+        data.reason || null,
+        data.actions === undefined ? null : JSON.stringify(data.actions),
+        data.rearmedAt || null,
+        data.rearmedBy || null,
+      ]);
+    },
+  };
+
+  // ============================================
+  // RISK OVERRIDES REPOSITORY
+  // ============================================
+
+  riskOverrides = {
+    findAll: async () => {
+      return this.query<RiskOverridesRow>(`SELECT * FROM risk_overrides`);
+    },
+
+    upsert: async (data: { userId: string; disabledRules: string[]; limits: Record<string, unknown> }) => {
+      return this.queryOne<RiskOverridesRow>(`
+        INSERT INTO risk_overrides (user_id, disabled_rules, limits)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (user_id) DO UPDATE SET
+          disabled_rules = $2,
+          limits = $3,
+          updated_at = NOW()
+        RETURNING *
+      `, [data.userId, JSON.stringify(data.disabledRules), JSON.stringify(data.limits)]);
+    },
+  };
 }
 
 // Type definitions
@@ -1176,3 +1558,75 @@ export async function initializeDatabase(): Promise<NeonDatabase> {
    await db.runMigrations();
   return db;
 }
+
+export interface OHLCVCandle {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  timestamp: string | number; // BIGINT epoch ms; pg returns it as a string
+  open: string | number;
+  high: string | number;
+  low: string | number;
+  close: string | number;
+  volume: string | number;
+  created_at: Date;
+}
+
+export interface BacktestDataset {
+  id: string;
+  userId: string;
+  name: string;
+  symbol: string;
+  timeframe: string | null;
+  candleCount: number;
+  startTime: string | number; // BIGINT epoch ms; pg returns it as a string
+  endTime: string | number;
+  candles?: Array<{ timestamp: number; open: number; high: number; low: number; close: number; volume: number }>;
+  createdAt: Date;
+}
+
+export interface EquitySnapshotPosition {
+  positionId: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  price: number;
+  value: number;
+  unrealizedPnl: number;
+}
+
+export interface EquitySnapshot {
+  id: string;
+  userId: string;
+  mode: string;
+  equity: string | number | null; // DECIMAL; pg returns it as a string
+  positionValue: string | number;
+  unrealizedPnl: string | number;
+  positions: EquitySnapshotPosition[];
+  capturedAt: Date;
+}
+
+export interface KillSwitchStateRow {
+  userId: string;
+  status: string;
+  maxDrawdown: string | number; // DECIMAL; pg returns it as a string
+  maxDailyLoss: string | number;
+  flattenPositions: boolean;
+  peakEquity: string | number | null;
+  dayStartEquity: string | number | null;
+  day: string | null;
+  trippedAt: Date | null;
+  trigger: string | null;
+  reason: string | null;
+  actions: unknown;
+  rearmedAt: Date | null;
+  rearmedBy: string | null;
+  updatedAt: Date;
+}
+
+export interface RiskOverridesRow {
+  userId: string;
+  disabledRules: string[];
+  limits: Record<string, unknown>;
+  updatedAt: Date;
+}
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration 008 - Historical OHLCV Candle Store
+-- Description: Caches exchange candles for backtests, keyed by exchange,
+--              symbol and timeframe. Timestamps are candle open times in
+--              epoch milliseconds.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ohlcv_candles (
+  exchange VARCHAR(50) NOT NULL,
+  symbol VARCHAR(50) NOT NULL,
+  timeframe VARCHAR(10) NOT NULL,
+  timestamp BIGINT NOT NULL,
+  open DECIMAL(30, 12) NOT NULL,
+  high DECIMAL(30, 12) NOT NULL,
+  low DECIMAL(30, 12) NOT NULL,
+  close DECIMAL(30, 12) NOT NULL,
+  volume DECIMAL(30, 12) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (exchange, symbol, timeframe, timestamp)
+);
+
+INSERT INTO migrations (name) VALUES ('008_add_ohlcv_candles');
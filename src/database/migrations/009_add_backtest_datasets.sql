@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration 009 - Uploaded Backtest Datasets
+-- Description: Stores OHLCV candles imported from CSV files so backtests can
+--              reference them by dataset ID. Timestamps are candle open
+--              times in epoch milliseconds.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS backtest_datasets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  symbol VARCHAR(50) NOT NULL,
+  timeframe VARCHAR(10),
+  candle_count INTEGER NOT NULL,
+  start_time BIGINT NOT NULL,
+  end_time BIGINT NOT NULL,
+  candles JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_datasets_user_id ON backtest_datasets(user_id);
+
+INSERT INTO migrations (name) VALUES ('009_add_backtest_datasets');
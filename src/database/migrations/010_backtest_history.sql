@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration 010 - Backtest History
+-- Description: Adds the updated_at column the backtests repository writes on
+--              completion, plus indexes for paginated history queries.
+-- ============================================================================
+
+ALTER TABLE backtests ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_backtests_user_created ON backtests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_backtests_strategy_created ON backtests(strategy_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_backtests_user_symbol ON backtests(user_id, symbol);
+
+INSERT INTO migrations (name) VALUES ('010_backtest_history');
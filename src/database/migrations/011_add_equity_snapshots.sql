@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration 011 - Equity Snapshots
+-- Description: Timestamped account marks written by the scheduled
+--              mark-to-market run. Each row holds the account's equity, the
+--              market value and unrealized PnL of its open positions, and a
+--              per-position breakdown, so equity curves, daily PnL and
+--              drawdown can be rebuilt from history.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS equity_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  mode VARCHAR(10) NOT NULL CHECK (mode IN ('paper', 'live')),
+  equity DECIMAL(20,8), -- NULL when the exchange balance could not be read
+  position_value DECIMAL(20,8) NOT NULL,
+  unrealized_pnl DECIMAL(20,8) NOT NULL,
+  positions JSONB NOT NULL DEFAULT '[]',
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_equity_snapshots_user_captured ON equity_snapshots(user_id, mode, captured_at DESC);
+
+INSERT INTO migrations (name) VALUES ('011_add_equity_snapshots');
@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Migration 012 - Kill Switch States
+-- Description: Per-account kill switch status, limits, equity high-water mark
+--              and start-of-day equity. Loaded on startup so a restart does
+--              not re-arm a tripped account or reset its drawdown baseline.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS kill_switch_states (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'armed' CHECK (status IN ('armed', 'tripped')),
+  max_drawdown DECIMAL(10,6) NOT NULL,
+  max_daily_loss DECIMAL(10,6) NOT NULL,
+  flatten_positions BOOLEAN NOT NULL DEFAULT false,
+  peak_equity DECIMAL(20,8),
+  day_start_equity DECIMAL(20,8),
+  day VARCHAR(10), -- UTC date (YYYY-MM-DD) of day_start_equity
+  tripped_at TIMESTAMPTZ,
+  trigger VARCHAR(20),
+  reason TEXT,
+  actions JSONB,
+  rearmed_at TIMESTAMPTZ,
+  rearmed_by VARCHAR(255),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO migrations (name) VALUES ('012_add_kill_switch_states');
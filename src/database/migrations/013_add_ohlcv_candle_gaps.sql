@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Migration 013 - Unfillable Candle Ranges
+-- Description: Ranges of the candle store an exchange returned no candles
+--              for, e.g. downtime or history older than it serves, so later
+--              backfills skip them instead of asking the exchange again.
+--              Times are candle open times in epoch milliseconds, inclusive.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ohlcv_candle_gaps (
+  exchange VARCHAR(50) NOT NULL,
+  symbol VARCHAR(50) NOT NULL,
+  timeframe VARCHAR(10) NOT NULL,
+  start_time BIGINT NOT NULL,
+  end_time BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (exchange, symbol, timeframe, start_time)
+);
+
+INSERT INTO migrations (name) VALUES ('013_add_ohlcv_candle_gaps');
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Migration 014 - Risk Overrides
+-- Description: Per-user pre-trade risk overrides (tightened limits and
+--              disabled optional rules), loaded into the risk gate on startup.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS risk_overrides (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  disabled_rules JSONB NOT NULL DEFAULT '[]',
+  limits JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO migrations (name) VALUES ('014_add_risk_overrides');
@@ -202,6 +202,7 @@ export type AuditAction =
   | 'strategy_created'
   | 'strategy_activated'
   | 'trade_executed'
+  | 'order_expired'
   | 'live_trading_enabled'
   | 'live_trading_disabled';
 
@@ -395,6 +395,64 @@ describe('ExchangeService', () => {
     });
   });
 
+  // ============================================================================
+  // Perpetual Futures
+  // ============================================================================
+
+  describe('Perpetual Futures', () => {
+    let connectionId: string;
+
+    beforeEach(async () => {
+      const connection = await exchangeService.createConnection({
+        userId,
+        exchange: 'bybit',
+        name: 'Perp Connection',
+        apiKey: 'key',
+        apiSecret: 'secret',
+      });
+      connectionId = connection.id;
+    });
+
+    it('should_get_simulated_contract_spec_mark_price_and_funding', async () => {
+      const spec = await exchangeService.getContractSpec(connectionId, 'BTC/USDT:USDT');
+      expect(spec).toMatchObject({ type: 'perpetual', base: 'BTC', quote: 'USDT', settle: 'USDT', fundingIntervalHours: 8 });
+
+      const mark = await exchangeService.getMarkPrice(connectionId, 'BTC/USDT:USDT');
+      expect(mark.markPrice).toBe(50000);
+      expect(mark.nextFundingTime).toBeGreaterThan(Date.now());
+
+      const funding = await exchangeService.getFundingRateHistory(connectionId, 'BTC/USDT:USDT', 3);
+      expect(funding).toHaveLength(3);
+      expect(funding[1].timestamp - funding[0].timestamp).toBe(8 * 60 * 60 * 1000);
+      expect(exchangeService.isValidSymbol('BTC/USDT:USDT')).toBe(true);
+    });
+
+    it('should_reject_spot_symbols_and_adapters_without_perpetual_support', async () => {
+      await expect(exchangeService.getContractSpec(connectionId, 'BTC/USDT')).rejects.toThrow(
+        'Invalid perpetual symbol BTC/USDT; expected BASE/QUOTE:SETTLE'
+      );
+
+      const spotOnly = new ExchangeService({
+        db,
+        configService,
+        encryptionKey: 'test-encryption-key-32-characters!',
+        adapterFactory: () => ({ getTicker: vi.fn() }) as any,
+      });
+      const connection = await spotOnly.createConnection({
+        userId,
+        exchange: 'coinbase',
+        name: 'Spot',
+        apiKey: 'key',
+        apiSecret: 'secret',
+        passphrase: 'pass',
+      });
+
+      await expect(spotOnly.getMarkPrice(connection.id, 'BTC/USD:USD')).rejects.toThrow(
+        'Perpetual futures are not supported on Coinbase'
+      );
+    });
+  });
+
   // ============================================================================
   // Exchange-Specific Features
   // ============================================================================
@@ -161,6 +161,10 @@ export interface ExchangeAdapterContext {
   connectionId: string;
   userId: string;
   exchange: ExchangeType;
+  // Decrypted credentials, required by signed (private) endpoints
+  apiKey?: string;
+  apiSecret?: string;
+  passphrase?: string;
 }
 
 /**
@@ -178,7 +182,8 @@ export interface ExchangeAdapter {
     ctx: ExchangeAdapterContext,
     symbol: string,
     timeframe: string,
-    limit: number
+    limit: number,
+    since?: number // Epoch ms of the first candle; omitted returns the most recent candles
   ): Promise<OHLCV[]>;
   getSymbols(ctx: ExchangeAdapterContext): Promise<string[]>;
   getBalance(ctx: ExchangeAdapterContext): Promise<Balance>;
@@ -194,6 +199,131 @@ export interface ExchangeAdapter {
   ): Promise<OrderCost>;
 }
 
+export type ExchangeTimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTD' | 'DAY';
+
+export interface ExchangeOrderParams {
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop_limit';
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  clientOrderId?: string;
+  timeInForce?: ExchangeTimeInForce; // Defaults to GTC
+  expiresAt?: Date; // End time for GTD and DAY orders
+  postOnly?: boolean; // Rejected instead of filled if it would take liquidity
+  reduceOnly?: boolean; // Perpetuals only; may only shrink the open position
+}
+
+export interface ExchangeOrderResult {
+  success: boolean;
+  orderId?: string;
+  clientOrderId?: string;
+  error?: string;
+}
+
+/**
+ * An order as reported by the exchange. Statuses use the Coinbase vocabulary
+ * (PENDING, OPEN, FILLED, CANCELLED, EXPIRED, FAILED) on every exchange.
+ */
+export interface ExchangeOrder {
+  orderId: string;
+  clientOrderId: string;
+  productId: string; // Exchange-native symbol, e.g. BTC-USD, BTCUSDT or XBTUSD
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT' | 'STOP_LIMIT';
+  status: string;
+  filledSize: string;
+  filledValue: string;
+  averageFilledPrice: string;
+  totalFees?: string; // Quote currency, when the exchange reports it with the order
+  createdTime: string;
+}
+
+/**
+ * Adapter that can also place and manage orders with signed requests. Some
+ * exchanges scope order IDs to a symbol, so pass it when it is known.
+ */
+export interface OrderExecutionAdapter extends ExchangeAdapter {
+  createOrder(ctx: ExchangeAdapterContext, params: ExchangeOrderParams): Promise<ExchangeOrderResult>;
+  cancelOrder(ctx: ExchangeAdapterContext, orderId: string, symbol?: string): Promise<{ success: boolean; error?: string }>;
+  getOrder(ctx: ExchangeAdapterContext, orderId: string, symbol?: string): Promise<ExchangeOrder | null>;
+  getOpenOrders(ctx: ExchangeAdapterContext, symbol?: string): Promise<ExchangeOrder[]>;
+  getOrderHistory(ctx: ExchangeAdapterContext, symbol?: string, limit?: number): Promise<ExchangeOrder[]>;
+}
+
+// ============================================================================
+// Perpetual Futures
+// ============================================================================
+
+/**
+ * A perpetual swap. Symbols use the unified "BASE/QUOTE:SETTLE" form, e.g.
+ * "BTC/USDT:USDT" for the USDT-margined BTC perpetual. Order quantities on
+ * perpetuals are in contracts; contractSize converts them to the base asset.
+ */
+export interface ContractSpec {
+  symbol: string;
+  type: 'perpetual';
+  base: string;
+  quote: string;
+  settle: string;
+  contractSize: number; // Base units per contract
+  tickSize: number;
+  lotSize: number; // Contract quantity step
+  minQuantity: number; // In contracts
+  maxLeverage?: number;
+  fundingIntervalHours: number;
+}
+
+export interface FundingRate {
+  symbol: string;
+  rate: number; // Fraction of notional per interval; longs pay shorts when positive
+  timestamp: number; // Epoch ms of the funding settlement
+}
+
+/**
+ * Mark price drives PnL and liquidation; index price is the spot reference
+ * the mark price (and the funding rate) is anchored to.
+ */
+export interface MarkPrice {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number; // Rate for the upcoming settlement
+  nextFundingTime: number;
+  timestamp: number;
+}
+
+export interface PerpetualMarketAdapter extends ExchangeAdapter {
+  getContractSpec(ctx: ExchangeAdapterContext, symbol: string): Promise<ContractSpec>;
+  getFundingRateHistory(
+    ctx: ExchangeAdapterContext,
+    symbol: string,
+    limit: number,
+    since?: number // Epoch ms of the earliest settlement; omitted returns the most recent
+  ): Promise<FundingRate[]>;
+  getMarkPrice(ctx: ExchangeAdapterContext, symbol: string): Promise<MarkPrice>;
+}
+
+/**
+ * True for unified perpetual symbols such as "BTC/USDT:USDT"
+ */
+export function isPerpetualSymbol(symbol: string): boolean {
+  return symbol.includes(':');
+}
+
+/**
+ * Split "BTC/USDT:USDT" into its base, quote and settlement assets
+ */
+export function parsePerpetualSymbol(symbol: string): { base: string; quote: string; settle: string } {
+  const [pair, settle] = symbol.split(':');
+  const [base, quote] = pair.split('/');
+  if (!base || !quote || !settle) {
+    throw new Error(`Invalid perpetual symbol ${symbol}; expected BASE/QUOTE:SETTLE`);
+  }
+  return { base, quote, settle };
+}
+
 export interface ExchangeServiceOptions {
   db: any;
   configService: ConfigService;
@@ -778,7 +908,8 @@ export class ExchangeService {
   }
 
   isValidSymbol(symbol: string): boolean {
-    return /^[A-Z0-9]+\/[A-Z0-9]+$/.test(symbol);
+    // Spot pairs, or perpetuals with a settlement asset suffix
+    return /^[A-Z0-9]+\/[A-Z0-9]+(:[A-Z0-9]+)?$/.test(symbol);
   }
 
   async getTradingFees(connectionId: string): Promise<TradingFees> {
@@ -899,6 +1030,99 @@ export class ExchangeService {
     };
   }
 
+  // ============================================================================
+  // Perpetual Futures
+  // ============================================================================
+
+  /**
+   * Perpetual-capable adapter and context for a connection. Returns a null
+   * adapter when running simulated; throws if the exchange adapter has no
+   * perpetual support.
+   */
+  private async perpetualAdapter(
+    connectionId: string,
+    symbol: string
+  ): Promise<{ adapter: PerpetualMarketAdapter | null; ctx: ExchangeAdapterContext }> {
+    parsePerpetualSymbol(symbol);
+    const connection = await this.ensureActiveConnection(connectionId);
+    const adapter = this.getAdapter(connection.exchange);
+    const ctx: ExchangeAdapterContext = {
+      connectionId,
+      userId: connection.userId,
+      exchange: connection.exchange,
+    };
+
+    if (adapter && !('getFundingRateHistory' in adapter)) {
+      throw new Error(`Perpetual futures are not supported on ${EXCHANGE_INFO[connection.exchange].name}`);
+    }
+    return { adapter: adapter as PerpetualMarketAdapter | null, ctx };
+  }
+
+  async getContractSpec(connectionId: string, symbol: string): Promise<ContractSpec> {
+    const { adapter, ctx } = await this.perpetualAdapter(connectionId, symbol);
+    if (adapter) {
+      return adapter.getContractSpec(ctx, symbol);
+    }
+
+    // Simulated linear perpetual
+    const { base, quote, settle } = parsePerpetualSymbol(symbol);
+    const isBTC = base === 'BTC';
+    return {
+      symbol,
+      type: 'perpetual',
+      base,
+      quote,
+      settle,
+      contractSize: isBTC ? 0.001 : 0.01,
+      tickSize: 0.1,
+      lotSize: 1,
+      minQuantity: 1,
+      maxLeverage: 100,
+      fundingIntervalHours: 8,
+    };
+  }
+
+  async getFundingRateHistory(
+    connectionId: string,
+    symbol: string,
+    limit: number = 100,
+    since?: number
+  ): Promise<FundingRate[]> {
+    const { adapter, ctx } = await this.perpetualAdapter(connectionId, symbol);
+    if (adapter) {
+      return adapter.getFundingRateHistory(ctx, symbol, limit, since);
+    }
+
+    // Simulated 0.01% every 8 hours, oldest first
+    const interval = 8 * 60 * 60 * 1000;
+    const latest = Math.floor(Date.now() / interval) * interval;
+    const start = since !== undefined ? Math.ceil(since / interval) * interval : latest - (limit - 1) * interval;
+    const count = Math.max(0, Math.min(limit, Math.floor((latest - start) / interval) + 1));
+    return Array.from({ length: count }, (_, i) => ({
+      symbol,
+      rate: 0.0001,
+      timestamp: start + i * interval,
+    }));
+  }
+
+  async getMarkPrice(connectionId: string, symbol: string): Promise<MarkPrice> {
+    const { adapter, ctx } = await this.perpetualAdapter(connectionId, symbol);
+    if (adapter) {
+      return adapter.getMarkPrice(ctx, symbol);
+    }
+
+    const ticker = await this.getTicker(connectionId, symbol);
+    const interval = 8 * 60 * 60 * 1000;
+    return {
+      symbol,
+      markPrice: ticker.last,
+      indexPrice: ticker.last,
+      fundingRate: 0.0001,
+      nextFundingTime: Math.ceil(Date.now() / interval) * interval,
+      timestamp: Date.now(),
+    };
+  }
+
   // ============================================================================
   // Stats & Rate Limiting
   // ============================================================================
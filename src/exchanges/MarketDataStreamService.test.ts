@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { NeonExchangeAdapterService } from './NeonExchangeAdapterService';
+import { MarketDataStreamService, MarketDataStreamHandlers, MarketDataUpstream, parseChannel } from './MarketDataStreamService';
+
+class FakeSocket extends EventEmitter {
+  readyState = 1;
+  bufferedAmount = 0;
+  sent: any[] = [];
+  send = vi.fn((data: string) => {
+    this.sent.push(JSON.parse(data));
+  });
+  ping = vi.fn();
+  terminate = vi.fn(() => {
+    this.readyState = 3;
+  });
+  close = vi.fn(() => {
+    this.readyState = 3;
+  });
+
+  message(data: unknown) {
+    this.emit('message', Buffer.from(JSON.stringify(data)));
+  }
+
+  updates(channel?: string) {
+    return this.sent.filter((m) => m.type === 'update' && (!channel || m.channel === channel));
+  }
+}
+
+function ticker(last: number) {
+  return { symbol: 'BTC/USD', bid: last - 1, ask: last + 1, last, high: 110, low: 90, volume: 5, timestamp: 1 };
+}
+
+describe('MarketDataStreamService', () => {
+  let exchangeService: { getPublicTicker: ReturnType<typeof vi.fn>; getPublicOrderBook: ReturnType<typeof vi.fn>; getPublicOHLCV: ReturnType<typeof vi.fn> };
+  let db: any;
+  let service: MarketDataStreamService;
+
+  function connect(url = '/') {
+    const ws = new FakeSocket();
+    service.handleConnection(ws as unknown as WebSocket, { url } as IncomingMessage);
+    return ws;
+  }
+
+  function createService(options: Partial<ConstructorParameters<typeof MarketDataStreamService>[0]> = {}) {
+    return new MarketDataStreamService({
+      db: db as NeonDatabase,
+      exchangeService: exchangeService as unknown as NeonExchangeAdapterService,
+      authenticate: async (token) => (token === 'good' ? 'user-1' : null),
+      throttleMs: 100,
+      pollIntervals: { ticker: 1000, orderbook: 1000, orders: 1000 },
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    exchangeService = {
+      getPublicTicker: vi.fn(async () => ticker(100)),
+      getPublicOrderBook: vi.fn(async () => ({
+        symbol: 'BTC/USD',
+        bids: [{ price: 99, quantity: 1 }, { price: 98, quantity: 2 }],
+        asks: [{ price: 101, quantity: 1 }, { price: 102, quantity: 3 }],
+        timestamp: 1,
+      })),
+      getPublicOHLCV: vi.fn(async () => []),
+    };
+    db = {
+      orders: { findByUserId: vi.fn(async (userId: string) => [{ id: 'ord-1', user_id: userId, status: 'pending' }]) },
+      positions: { findOpen: vi.fn(async () => []) },
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  it('parses channel names', () => {
+    expect(parseChannel('ticker:BTC/USDT')).toEqual({ name: 'ticker:BTC/USDT', type: 'ticker', symbol: 'BTC/USDT' });
+    expect(parseChannel('candles:1m:ETH/USD')).toMatchObject({ type: 'candles', timeframe: '1m', symbol: 'ETH/USD' });
+    expect(parseChannel('orders')).toMatchObject({ type: 'orders' });
+    expect(parseChannel('candles:3m:ETH/USD')).toBeNull();
+    expect(parseChannel('ticker:btc-usd')).toBeNull();
+    expect(parseChannel('trades:BTC/USD')).toBeNull();
+  });
+
+  it('shares one polling feed per channel and only pushes changes', async () => {
+    const a = connect();
+    const b = connect();
+    a.message({ type: 'subscribe', channel: 'ticker:BTC/USD' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.sent.map((m) => m.type)).toEqual(['connected', 'subscribed', 'update']);
+    expect(a.updates()[0].data).toMatchObject({ symbol: 'BTC/USD', price: 100, bid: 99, ask: 101, changePercent24h: 0 });
+
+    // Late subscriber gets the cached snapshot without another request
+    b.message({ type: 'subscribe', channels: ['ticker:BTC/USD'] });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(b.updates()).toHaveLength(1);
+    expect(exchangeService.getPublicTicker).toHaveBeenCalledTimes(1);
+
+    // Unchanged poll is not pushed; a changed one is
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(a.updates()).toHaveLength(1);
+    exchangeService.getPublicTicker.mockResolvedValue(ticker(105));
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(a.updates().map((m) => m.data.price)).toEqual([100, 105]);
+    expect(service.getStats().feeds).toEqual([{ channel: 'ticker:BTC/USD', userId: undefined, subscribers: 2, source: 'polling' }]);
+
+    a.message({ type: 'unsubscribe', channel: 'ticker:BTC/USD' });
+    b.emit('close');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(service.getStats()).toEqual({ clients: 1, feeds: [] });
+    expect(exchangeService.getPublicTicker).toHaveBeenCalledTimes(3);
+  });
+
+  it('throttles updates per client and conflates them while the socket buffer is full', async () => {
+    const upstreamHandlers: MarketDataStreamHandlers[] = [];
+    const upstream: MarketDataUpstream = {
+      supports: (channel) => channel.type === 'ticker',
+      subscribe: (_channel, handlers) => {
+        upstreamHandlers.push(handlers);
+        return () => {};
+      },
+    };
+    service = createService({ upstream });
+    const ws = connect();
+    ws.message({ type: 'subscribe', channel: 'ticker:BTC/USD' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    upstreamHandlers[0].onData({ price: 1 });
+    await vi.advanceTimersByTimeAsync(0);
+    upstreamHandlers[0].onData({ price: 2 });
+    upstreamHandlers[0].onData({ price: 3 });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ws.updates().map((m) => m.data.price)).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ws.updates().map((m) => m.data.price)).toEqual([1, 3]);
+
+    ws.bufferedAmount = 2 * 1024 * 1024;
+    upstreamHandlers[0].onData({ price: 4 });
+    upstreamHandlers[0].onData({ price: 5 });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(ws.updates()).toHaveLength(2);
+
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(ws.updates().map((m) => m.data.price)).toEqual([1, 3, 5]);
+    expect(exchangeService.getPublicTicker).not.toHaveBeenCalled();
+  });
+
+  it('falls back to polling when the upstream stream fails', async () => {
+    let onError!: (error: Error) => void;
+    const unsubscribe = vi.fn();
+    service = createService({
+      upstream: {
+        supports: () => true,
+        subscribe: (_channel, handlers) => {
+          onError = handlers.onError;
+          return unsubscribe;
+        },
+      },
+    });
+    const ws = connect();
+    ws.message({ type: 'subscribe', channel: 'orderbook:BTC/USD' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(service.getStats().feeds[0].source).toBe('upstream');
+
+    onError(new Error('socket closed'));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(service.getStats().feeds[0].source).toBe('polling');
+    expect(ws.updates('orderbook:BTC/USD')[0].data).toMatchObject({ symbol: 'BTC/USD', bids: [{ price: 99, quantity: 1 }, { price: 98, quantity: 2 }] });
+  });
+
+  it('authenticates on connect and scopes private channels to the user', async () => {
+    const anonymous = connect();
+    anonymous.message({ type: 'subscribe', channel: 'orders' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(anonymous.sent[1]).toEqual({ type: 'error', channel: 'orders', error: 'Authentication required for orders' });
+
+    const user = connect('/?token=good');
+    user.message({ type: 'subscribe', channel: 'orders' });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(user.sent[0]).toMatchObject({ type: 'connected', authenticated: true });
+    expect(user.updates('orders')[0].data).toEqual([{ id: 'ord-1', user_id: 'user-1', status: 'pending' }]);
+    expect(db.orders.findByUserId).toHaveBeenCalledWith('user-1', { limit: 50 });
+    expect(service.getStats().feeds).toMatchObject([{ channel: 'orders', userId: 'user-1' }]);
+
+    const intruder = connect('/?token=stolen');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(intruder.sent).toEqual([{ type: 'error', error: 'Invalid or expired token' }]);
+    expect(intruder.close).toHaveBeenCalledWith(4401, 'Unauthorized');
+  });
+
+  it('rejects unknown channels and message types', async () => {
+    const ws = connect();
+    ws.message({ type: 'subscribe', channel: 'ticker:nope' });
+    ws.message({ type: 'trade' });
+    ws.emit('message', Buffer.from('not json'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ws.sent.slice(1)).toEqual([
+      { type: 'error', channel: 'ticker:nope', error: 'Unknown channel: ticker:nope' },
+      { type: 'unknown', received: 'trade' },
+      { type: 'error', error: 'Invalid message format' },
+    ]);
+  });
+
+  it('drops clients that miss a heartbeat', async () => {
+    service = createService({ heartbeatIntervalMs: 1000 });
+    service.start();
+    const healthy = connect();
+    const stale = connect();
+    stale.message({ type: 'subscribe', channel: 'ticker:BTC/USD' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(healthy.ping).toHaveBeenCalledTimes(1);
+    healthy.emit('pong');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(healthy.terminate).not.toHaveBeenCalled();
+    expect(stale.terminate).toHaveBeenCalled();
+    expect(service.getStats()).toEqual({ clients: 1, feeds: [] });
+  });
+});
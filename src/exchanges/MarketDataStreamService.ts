@@ -0,0 +1,529 @@
+import type { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Ticker } from './ExchangeService';
+import type { NeonExchangeAdapterService } from './NeonExchangeAdapterService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StreamChannelType = 'ticker' | 'orderbook' | 'candles' | 'orders' | 'positions';
+
+export interface StreamChannel {
+  name: string; // e.g. ticker:BTC/USD, candles:1m:BTC/USD, orders
+  type: StreamChannelType;
+  symbol?: string;
+  timeframe?: string;
+}
+
+export interface MarketTickerUpdate {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  change24h: number;
+  changePercent24h: number;
+  high24h: number;
+  low24h: number;
+  volume24h: number;
+  timestamp: number;
+}
+
+export interface MarketDataStreamHandlers {
+  onData: (data: unknown) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Upstream exchange stream. Channels it does not support, or whose stream
+ * fails, fall back to polling through NeonExchangeAdapterService.
+ */
+export interface MarketDataUpstream {
+  supports(channel: StreamChannel): boolean;
+  subscribe(channel: StreamChannel, handlers: MarketDataStreamHandlers): () => void;
+}
+
+export interface MarketDataStreamServiceOptions {
+  db: NeonDatabase;
+  exchangeService: NeonExchangeAdapterService;
+  /** Resolves a session token to a user ID, or null when it is invalid */
+  authenticate?: (token: string) => Promise<string | null>;
+  upstream?: MarketDataUpstream;
+  /** Exchange used for public market data */
+  exchange?: string;
+  pollIntervals?: Partial<Record<StreamChannelType, number>>;
+  /** Minimum time between messages to one client; updates in between are coalesced */
+  throttleMs?: number;
+  heartbeatIntervalMs?: number;
+  /** Socket buffer size above which updates are held back and conflated */
+  maxBufferedBytes?: number;
+  maxSubscriptions?: number;
+  orderBookDepth?: number;
+}
+
+interface ClientState {
+  ws: WebSocket;
+  userId?: string;
+  ready: Promise<boolean>;
+  subscriptions: Set<string>;
+  alive: boolean;
+  pending: Map<string, unknown>;
+  flushTimer?: ReturnType<typeof setTimeout>;
+  lastFlushAt: number;
+}
+
+interface Feed {
+  key: string;
+  channel: StreamChannel;
+  userId?: string;
+  subscribers: Set<ClientState>;
+  source: 'upstream' | 'polling';
+  last?: unknown;
+  lastJson?: string;
+  stop: () => void;
+}
+
+const DEFAULT_POLL_INTERVALS: Record<StreamChannelType, number> = {
+  ticker: 2000,
+  orderbook: 1000,
+  candles: 5000,
+  orders: 3000,
+  positions: 3000,
+};
+
+// Same timeframes and symbol format as the public market routes, with a slash
+const VALID_TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '2h', '6h', '1d'];
+const SYMBOL_REGEX = /^[A-Z0-9]+\/[A-Z0-9]+$/;
+const PRIVATE_CHANNELS: StreamChannelType[] = ['orders', 'positions'];
+
+/**
+ * Parse a channel name; returns null for unknown or malformed channels
+ */
+export function parseChannel(name: string): StreamChannel | null {
+  const parts = typeof name === 'string' ? name.split(':') : [];
+
+  switch (parts[0]) {
+    case 'ticker':
+    case 'orderbook':
+      if (parts.length !== 2 || !SYMBOL_REGEX.test(parts[1])) return null;
+      return { name, type: parts[0], symbol: parts[1] };
+    case 'candles':
+      if (parts.length !== 3 || !VALID_TIMEFRAMES.includes(parts[1]) || !SYMBOL_REGEX.test(parts[2])) return null;
+      return { name, type: 'candles', timeframe: parts[1], symbol: parts[2] };
+    case 'orders':
+    case 'positions':
+      if (parts.length !== 1) return null;
+      return { name, type: parts[0] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * 24h change from high/low, as approximated by the public prices endpoint
+ */
+export function toTickerUpdate(ticker: Ticker): MarketTickerUpdate {
+  const midPoint = (ticker.high + ticker.low) / 2;
+  const change24h = ticker.last - midPoint;
+  const changePercent24h = midPoint > 0 ? (change24h / midPoint) * 100 : 0;
+
+  return {
+    symbol: ticker.symbol,
+    price: ticker.last,
+    bid: ticker.bid,
+    ask: ticker.ask,
+    change24h: parseFloat(change24h.toFixed(2)),
+    changePercent24h: parseFloat(changePercent24h.toFixed(2)),
+    high24h: ticker.high,
+    low24h: ticker.low,
+    volume24h: ticker.volume,
+    timestamp: ticker.timestamp,
+  };
+}
+
+/**
+ * MarketDataStreamService
+ *
+ * Channel subscriptions over the API WebSocket server:
+ * - ticker:<SYMBOL>, orderbook:<SYMBOL>, candles:<TIMEFRAME>:<SYMBOL> are public
+ * - orders and positions require a session token on connect (?token=...)
+ *
+ * Each channel has one feed shared by all subscribers, fed by the upstream
+ * exchange stream when available and by polling otherwise. Updates to a
+ * client are throttled and conflated (latest value per channel wins), and
+ * held back while the client's socket buffer is full. Clients that miss a
+ * heartbeat ping are dropped.
+ */
+export class MarketDataStreamService {
+  private db: NeonDatabase;
+  private exchangeService: NeonExchangeAdapterService;
+  private authenticate?: (token: string) => Promise<string | null>;
+  private upstream?: MarketDataUpstream;
+  private exchange: string;
+  private pollIntervals: Record<StreamChannelType, number>;
+  private throttleMs: number;
+  private heartbeatIntervalMs: number;
+  private maxBufferedBytes: number;
+  private maxSubscriptions: number;
+  private orderBookDepth: number;
+  private clients: Set<ClientState> = new Set();
+  private feeds: Map<string, Feed> = new Map();
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: MarketDataStreamServiceOptions) {
+    this.db = options.db;
+    this.exchangeService = options.exchangeService;
+    this.authenticate = options.authenticate;
+    this.upstream = options.upstream;
+    this.exchange = options.exchange ?? 'coinbase';
+    this.pollIntervals = { ...DEFAULT_POLL_INTERVALS, ...options.pollIntervals };
+    this.throttleMs = options.throttleMs ?? 250;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30_000;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 1024 * 1024;
+    this.maxSubscriptions = options.maxSubscriptions ?? 50;
+    this.orderBookDepth = options.orderBookDepth ?? 25;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatIntervalMs);
+    this.heartbeatTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    for (const client of Array.from(this.clients)) {
+      this.removeClient(client);
+    }
+  }
+
+  getStats(): { clients: number; feeds: Array<{ channel: string; userId?: string; subscribers: number; source: Feed['source'] }> } {
+    return {
+      clients: this.clients.size,
+      feeds: Array.from(this.feeds.values()).map((feed) => ({
+        channel: feed.channel.name,
+        userId: feed.userId,
+        subscribers: feed.subscribers.size,
+        source: feed.source,
+      })),
+    };
+  }
+
+  // ============================================================================
+  // Connections
+  // ============================================================================
+
+  handleConnection(ws: WebSocket, request?: IncomingMessage): void {
+    const client: ClientState = {
+      ws,
+      ready: Promise.resolve(true),
+      subscriptions: new Set(),
+      alive: true,
+      pending: new Map(),
+      lastFlushAt: 0,
+    };
+    this.clients.add(client);
+
+    // Browsers cannot set headers on WebSocket requests, so the token comes in the query
+    const token = request?.url ? new URL(request.url, 'http://localhost').searchParams.get('token') : null;
+    client.ready = token ? this.authenticateClient(client, token) : Promise.resolve(true);
+
+    ws.on('message', (message) => {
+      client.alive = true;
+      client.ready.then((authenticated) => {
+        if (!authenticated) return;
+        let data: any;
+        try {
+          data = JSON.parse(message.toString());
+        } catch {
+          this.send(client, { type: 'error', error: 'Invalid message format' });
+          return;
+        }
+        this.handleMessage(client, data);
+      });
+    });
+
+    ws.on('pong', () => {
+      client.alive = true;
+    });
+
+    ws.on('close', () => {
+      this.removeClient(client);
+    });
+
+    client.ready.then((authenticated) => {
+      if (authenticated) {
+        this.send(client, { type: 'connected', authenticated: !!client.userId, timestamp: Date.now() });
+      }
+    });
+  }
+
+  private async authenticateClient(client: ClientState, token: string): Promise<boolean> {
+    const userId = this.authenticate ? await this.authenticate(token).catch(() => null) : null;
+
+    if (!userId) {
+      this.send(client, { type: 'error', error: 'Invalid or expired token' });
+      client.ws.close(4401, 'Unauthorized');
+      this.removeClient(client);
+      return false;
+    }
+
+    client.userId = userId;
+    return true;
+  }
+
+  private handleMessage(client: ClientState, data: any): void {
+    switch (data?.type) {
+      case 'ping':
+        this.send(client, { type: 'pong', timestamp: Date.now() });
+        break;
+      case 'subscribe':
+        for (const name of this.channelNames(data)) {
+          this.subscribe(client, name);
+        }
+        break;
+      case 'unsubscribe':
+        for (const name of this.channelNames(data)) {
+          this.unsubscribe(client, name);
+          this.send(client, { type: 'unsubscribed', channel: name });
+        }
+        break;
+      default:
+        this.send(client, { type: 'unknown', received: data?.type });
+    }
+  }
+
+  private channelNames(data: any): string[] {
+    if (Array.isArray(data.channels)) return data.channels;
+    return data.channel !== undefined ? [data.channel] : [];
+  }
+
+  private removeClient(client: ClientState): void {
+    if (!this.clients.delete(client)) return;
+
+    if (client.flushTimer) clearTimeout(client.flushTimer);
+    for (const name of Array.from(client.subscriptions)) {
+      this.unsubscribe(client, name);
+    }
+  }
+
+  private heartbeat(): void {
+    for (const client of Array.from(this.clients)) {
+      if (!client.alive) {
+        client.ws.terminate();
+        this.removeClient(client);
+        continue;
+      }
+      client.alive = false;
+      client.ws.ping();
+    }
+  }
+
+  // ============================================================================
+  // Subscriptions
+  // ============================================================================
+
+  private subscribe(client: ClientState, name: string): void {
+    const channel = parseChannel(name);
+    if (!channel) {
+      this.send(client, { type: 'error', channel: name, error: `Unknown channel: ${name}` });
+      return;
+    }
+
+    const isPrivate = PRIVATE_CHANNELS.includes(channel.type);
+    if (isPrivate && !client.userId) {
+      this.send(client, { type: 'error', channel: name, error: `Authentication required for ${name}` });
+      return;
+    }
+    if (client.subscriptions.has(name)) {
+      this.send(client, { type: 'subscribed', channel: name });
+      return;
+    }
+    if (client.subscriptions.size >= this.maxSubscriptions) {
+      this.send(client, { type: 'error', channel: name, error: `Subscription limit of ${this.maxSubscriptions} reached` });
+      return;
+    }
+
+    const userId = isPrivate ? client.userId : undefined;
+    const key = userId ? `${name}:${userId}` : name;
+    let feed = this.feeds.get(key);
+    if (!feed) {
+      feed = this.createFeed(key, channel, userId);
+      this.feeds.set(key, feed);
+    }
+
+    feed.subscribers.add(client);
+    client.subscriptions.add(name);
+    this.send(client, { type: 'subscribed', channel: name });
+
+    // Late subscribers get the latest snapshot straight away
+    if (feed.last !== undefined) {
+      this.queue(client, name, feed.last);
+    }
+  }
+
+  private unsubscribe(client: ClientState, name: string): void {
+    if (!client.subscriptions.delete(name)) return;
+    client.pending.delete(name);
+
+    const key = client.userId && PRIVATE_CHANNELS.includes(parseChannel(name)!.type) ? `${name}:${client.userId}` : name;
+    const feed = this.feeds.get(key);
+    if (!feed) return;
+
+    feed.subscribers.delete(client);
+    if (feed.subscribers.size === 0) {
+      feed.stop();
+      this.feeds.delete(key);
+    }
+  }
+
+  // ============================================================================
+  // Feeds
+  // ============================================================================
+
+  private createFeed(key: string, channel: StreamChannel, userId?: string): Feed {
+    const feed: Feed = {
+      key,
+      channel,
+      userId,
+      subscribers: new Set(),
+      source: 'polling',
+      stop: () => {},
+    };
+
+    if (this.upstream?.supports(channel)) {
+      try {
+        feed.source = 'upstream';
+        feed.stop = this.upstream.subscribe(channel, {
+          onData: (data) => this.publish(feed, data),
+          onError: (error) => {
+            if (this.feeds.get(key) !== feed) return;
+            // Keep subscribers served when the exchange stream drops
+            console.error(`Upstream stream failed for ${channel.name}, polling instead:`, error.message);
+            feed.stop();
+            this.startPolling(feed);
+          },
+        });
+        return feed;
+      } catch (error: any) {
+        console.error(`Upstream subscribe failed for ${channel.name}:`, error.message);
+      }
+    }
+
+    this.startPolling(feed);
+    return feed;
+  }
+
+  private startPolling(feed: Feed): void {
+    let inFlight = false;
+    let stopped = false;
+
+    const poll = async () => {
+      if (inFlight || stopped) return;
+      inFlight = true;
+      try {
+        const data = await this.fetchSnapshot(feed.channel, feed.userId);
+        if (!stopped) this.publish(feed, data);
+      } catch (error: any) {
+        if (!stopped) {
+          for (const client of feed.subscribers) {
+            this.send(client, { type: 'error', channel: feed.channel.name, error: error.message || 'Update failed' });
+          }
+        }
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    const timer = setInterval(poll, this.pollIntervals[feed.channel.type]);
+    timer.unref?.();
+    void poll();
+
+    feed.source = 'polling';
+    feed.stop = () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }
+
+  private async fetchSnapshot(channel: StreamChannel, userId?: string): Promise<unknown> {
+    switch (channel.type) {
+      case 'ticker':
+        return toTickerUpdate(await this.exchangeService.getPublicTicker(this.exchange, channel.symbol!));
+      case 'orderbook': {
+        const book = await this.exchangeService.getPublicOrderBook(this.exchange, channel.symbol!);
+        return {
+          symbol: channel.symbol,
+          bids: book.bids.slice(0, this.orderBookDepth),
+          asks: book.asks.slice(0, this.orderBookDepth),
+          timestamp: book.timestamp,
+        };
+      }
+      case 'candles': {
+        const candles = await this.exchangeService.getPublicOHLCV(this.exchange, channel.symbol!, channel.timeframe!, 2);
+        return { symbol: channel.symbol, timeframe: channel.timeframe, candle: candles[candles.length - 1] ?? null };
+      }
+      case 'orders':
+        return this.db.orders.findByUserId(userId!, { limit: 50 });
+      case 'positions':
+        return this.db.positions.findOpen(userId!);
+    }
+  }
+
+  private publish(feed: Feed, data: unknown): void {
+    // Polled snapshots repeat; only push changes
+    const json = JSON.stringify(data);
+    if (json === feed.lastJson) return;
+
+    feed.last = data;
+    feed.lastJson = json;
+    for (const client of feed.subscribers) {
+      this.queue(client, feed.channel.name, data);
+    }
+  }
+
+  // ============================================================================
+  // Delivery
+  // ============================================================================
+
+  private queue(client: ClientState, channel: string, data: unknown): void {
+    client.pending.set(channel, data);
+    if (client.flushTimer) return;
+
+    const delay = Math.max(0, client.lastFlushAt + this.throttleMs - Date.now());
+    client.flushTimer = setTimeout(() => this.flush(client), delay);
+  }
+
+  private flush(client: ClientState): void {
+    client.flushTimer = undefined;
+    if (client.ws.readyState !== WebSocket.OPEN || client.pending.size === 0) return;
+
+    // Slow consumer: keep only the latest value per channel until the buffer drains
+    if (client.ws.bufferedAmount > this.maxBufferedBytes) {
+      client.flushTimer = setTimeout(() => this.flush(client), this.throttleMs);
+      return;
+    }
+
+    const timestamp = Date.now();
+    for (const [channel, data] of client.pending) {
+      this.send(client, { type: 'update', channel, data, timestamp });
+    }
+    client.pending.clear();
+    client.lastFlushAt = timestamp;
+  }
+
+  private send(client: ClientState, message: Record<string, unknown>): void {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(message));
+    }
+  }
+}
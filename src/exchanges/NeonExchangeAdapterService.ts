@@ -1,10 +1,15 @@
 import type {
   ExchangeAdapter,
   ExchangeAdapterContext,
+  OrderExecutionAdapter,
   Balance,
   Ticker,
+  OrderBook,
+  OHLCV,
 } from './ExchangeService';
-import type { NeonDatabase, ExchangeConnection as NeonExchangeConnection } from '../database/NeonDatabase';
+import type { NeonDatabase } from '../database/NeonDatabase';
+// Neon rows come back camelCase, matching the DatabaseFactory row type
+import type { ExchangeConnection as NeonExchangeConnection } from '../database/DatabaseFactory';
 
 export interface NeonExchangeAdapterServiceOptions {
   db: NeonDatabase;
@@ -30,8 +35,8 @@ export class NeonExchangeAdapterService {
   }
 
   private async getConnectionForUser(id: string, userId: string): Promise<NeonExchangeConnection> {
-    const conn = await this.db.exchangeConnections.findById(id);
-    if (!conn || conn.user_id !== userId) {
+    const conn = (await this.db.exchangeConnections.findById(id)) as unknown as NeonExchangeConnection | null;
+    if (!conn || conn.userId !== userId) {
       throw new Error('Exchange connection not found');
     }
     return conn;
@@ -45,13 +50,47 @@ export class NeonExchangeAdapterService {
 
     const ctx: ExchangeAdapterContext = {
       connectionId: conn.id,
-      userId: conn.user_id,
+      userId: conn.userId,
       exchange: conn.exchange as any,
+      ...this.decryptCredentials?.(conn),
     };
 
     return { adapter, ctx };
   }
 
+  private getPublicAdapter(exchange: string): { adapter: ExchangeAdapter; ctx: ExchangeAdapterContext } {
+    const adapter = this.adapterFactory(exchange);
+    if (!adapter) {
+      throw new Error('No adapter configured for this exchange');
+    }
+
+    // Public market data endpoints need no connection or credentials
+    const ctx: ExchangeAdapterContext = {
+      connectionId: 'public',
+      userId: 'anonymous',
+      exchange: exchange as any,
+    };
+
+    return { adapter, ctx };
+  }
+
+  /**
+   * Adapter and signed context for placing and querying orders on a connection
+   */
+  async getOrderAdapter(id: string, userId: string): Promise<{ adapter: OrderExecutionAdapter; ctx: ExchangeAdapterContext }> {
+    const conn = await this.getConnectionForUser(id, userId);
+    const { adapter, ctx } = this.getAdapterForConnection(conn);
+
+    if (!('getOpenOrders' in adapter)) {
+      throw new Error('Order management is not supported for this exchange');
+    }
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      throw new Error('Exchange credentials are not available');
+    }
+
+    return { adapter: adapter as OrderExecutionAdapter, ctx };
+  }
+
   async testConnection(id: string, userId: string): Promise<{ valid: boolean; balance?: Balance }> {
     const conn = await this.getConnectionForUser(id, userId);
     const { adapter, ctx } = this.getAdapterForConnection(conn);
@@ -75,5 +114,29 @@ export class NeonExchangeAdapterService {
     const { adapter, ctx } = this.getAdapterForConnection(conn);
     return adapter.getTicker(ctx, symbol);
   }
-}
 
+  async getOHLCV(id: string, userId: string, symbol: string, timeframe: string, limit: number): Promise<OHLCV[]> {
+    const conn = await this.getConnectionForUser(id, userId);
+    const { adapter, ctx } = this.getAdapterForConnection(conn);
+    return adapter.getOHLCV(ctx, symbol, timeframe, limit);
+  }
+
+  // ============================================================================
+  // Public Market Data
+  // ============================================================================
+
+  async getPublicTicker(exchange: string, symbol: string): Promise<Ticker> {
+    const { adapter, ctx } = this.getPublicAdapter(exchange);
+    return adapter.getTicker(ctx, symbol);
+  }
+
+  async getPublicOrderBook(exchange: string, symbol: string): Promise<OrderBook> {
+    const { adapter, ctx } = this.getPublicAdapter(exchange);
+    return adapter.getOrderBook(ctx, symbol);
+  }
+
+  async getPublicOHLCV(exchange: string, symbol: string, timeframe: string, limit: number): Promise<OHLCV[]> {
+    const { adapter, ctx } = this.getPublicAdapter(exchange);
+    return adapter.getOHLCV(ctx, symbol, timeframe, limit);
+  }
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as crypto from 'crypto';
 import { BinanceAdapter } from './BinanceAdapter';
 import type { ExchangeAdapterContext } from '../ExchangeService';
+import * as fixtures from '../../../tests/fixtures/exchanges/binance';
 
 describe('BinanceAdapter', () => {
   const originalFetch = globalThis.fetch;
@@ -63,6 +65,158 @@ describe('BinanceAdapter', () => {
     expect(ticker.volume).toBe(1234.56);
   });
 
+  describe('signed order endpoints', () => {
+    const apiSecret = 'NhqPtmdSJYdKjVHjA7PZj4Mge3R5YNiP1e3UZjInClVN65XAbvqqM6A7H5fATj0j';
+    const ctx: ExchangeAdapterContext = {
+      connectionId: 'conn-1',
+      userId: 'user-1',
+      exchange: 'binance',
+      apiKey: 'vmPUZE6mv9SD5VNHk4HlWFsOr6aKE2zvsw0MuIgwCIPy6utIco14y7Ju91duEh8A',
+      apiSecret,
+    };
+
+    const respond = (body: unknown, ok = true) => ({
+      ok,
+      status: ok ? 200 : 400,
+      statusText: ok ? 'OK' : 'Bad Request',
+      json: async () => body,
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_sign_limit_orders_with_timestamp_and_recv_window', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1499827319559);
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.newOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+      const result = await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, timeInForce: 'IOC',
+      });
+
+      expect(result).toEqual({ success: true, orderId: '28', clientOrderId: '6gCrw2kRUAF9CvJDGP16IP' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const query = 'symbol=BTCUSDT&side=BUY&type=LIMIT&timeInForce=IOC&quantity=0.1&price=50000'
+        + '&recvWindow=5000&timestamp=1499827319559';
+      const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
+      expect(url).toBe(`https://api.binance.com/api/v3/order?${query}&signature=${signature}`);
+      expect(init).toMatchObject({ method: 'POST', headers: { 'X-MBX-APIKEY': ctx.apiKey } });
+    });
+
+    it('should_map_stop_limit_orders_and_reject_unsupported_time_in_force', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.newOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+      await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'sell', type: 'stop_limit', quantity: 0.1, price: 47900, stopPrice: 48000, clientOrderId: 'my-order',
+      });
+
+      const params = new URL(fetchMock.mock.calls[0][0] as string).searchParams;
+      expect(params.get('type')).toBe('STOP_LOSS_LIMIT');
+      expect(params.get('stopPrice')).toBe('48000');
+      expect(params.get('newClientOrderId')).toBe('my-order');
+
+      expect(await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, timeInForce: 'GTD', expiresAt: new Date(),
+      })).toEqual({ success: false, error: 'Binance spot orders do not support GTD' });
+      expect(await adapter.createOrder({ ...ctx, apiSecret: undefined }, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.1,
+      })).toEqual({ success: false, error: 'API credentials required for trading' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should_send_post_only_orders_as_limit_maker_and_reject_reduce_only', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.newOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+      await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, postOnly: true,
+      });
+
+      const params = new URL(fetchMock.mock.calls[0][0] as string).searchParams;
+      expect(params.get('type')).toBe('LIMIT_MAKER');
+      expect(params.has('timeInForce')).toBe(false);
+
+      expect(await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.1, postOnly: true,
+      })).toEqual({ success: false, error: 'Binance post-only orders must be GTC limit orders' });
+      expect(await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.1, reduceOnly: true,
+      })).toEqual({ success: false, error: 'Binance spot orders do not support reduce-only' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should_surface_exchange_rejections', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.insufficientBalanceResponse, false)) as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+      const result = await adapter.createOrder(ctx, {
+        symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.1,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Binance API error: Account has insufficient balance for requested action.',
+      });
+    });
+
+    it('should_throw_when_listing_orders_fails', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(respond(fixtures.insufficientBalanceResponse, false)) as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+
+      await expect(adapter.getOpenOrders(ctx)).rejects.toThrow('Binance API error');
+      await expect(adapter.getOrderHistory(ctx, 'BTC/USDT')).rejects.toThrow('Binance API error');
+    });
+
+    it('should_query_cancel_and_list_orders', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(respond(fixtures.queryOrderResponse))
+        .mockResolvedValueOnce(respond(fixtures.openOrdersResponse))
+        .mockResolvedValueOnce(respond(fixtures.allOrdersResponse))
+        .mockResolvedValueOnce(respond(fixtures.cancelOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new BinanceAdapter({ baseUrl: 'https://api.binance.com' });
+
+      const order = await adapter.getOrder(ctx, '28', 'BTC/USDT');
+      expect(order).toEqual({
+        orderId: '28',
+        clientOrderId: '6gCrw2kRUAF9CvJDGP16IP',
+        productId: 'BTCUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        status: 'OPEN',
+        filledSize: '0.04',
+        filledValue: '2000',
+        averageFilledPrice: '50000',
+        createdTime: new Date(1507725176595).toISOString(),
+      });
+
+      expect(await adapter.getOpenOrders(ctx)).toHaveLength(1);
+      expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.has('symbol')).toBe(false);
+
+      const history = await adapter.getOrderHistory(ctx, 'BTC/USDT', 10);
+      expect(history.map(o => [o.orderId, o.type, o.status])).toEqual([
+        ['28', 'LIMIT', 'OPEN'],
+        ['27', 'MARKET', 'FILLED'],
+      ]);
+
+      expect(await adapter.cancelOrder(ctx, '28', 'BTC/USDT')).toEqual({ success: true });
+      expect(fetchMock.mock.calls[3][1]).toMatchObject({ method: 'DELETE' });
+      expect(await adapter.cancelOrder(ctx, '28')).toEqual({
+        success: false,
+        error: 'Symbol is required to cancel a Binance order',
+      });
+    });
+  });
+
   afterAll(() => {
     globalThis.fetch = originalFetch;
   });
@@ -1,14 +1,21 @@
 /**
  * BinanceAdapter - ExchangeAdapter implementation for Binance (spot)
  *
- * This adapter is designed to work against Binance's public REST API. For now
- * it focuses on read-only operations (tickers, order books, candles, etc.).
- * Private endpoints and signing can be added later when we wire in live
- * trading with real credentials.
+ * Market data uses Binance's public REST API. Order endpoints are signed:
+ * the query string (including a millisecond timestamp and recvWindow) is
+ * signed with HMAC-SHA256 using the API secret, and the key is sent in the
+ * X-MBX-APIKEY header.
+ *
+ * SIGNED ENDPOINTS:
+ * - POST /api/v3/order - Place orders
+ * - DELETE /api/v3/order - Cancel an order
+ * - GET /api/v3/order - Query an order
+ * - GET /api/v3/openOrders - Open orders
+ * - GET /api/v3/allOrders - Order history (per symbol)
  */
 
+import * as crypto from 'crypto';
 import {
-  ExchangeAdapter,
   ExchangeAdapterContext,
   Ticker,
   OrderBook,
@@ -19,6 +26,10 @@ import {
   SymbolLimits,
   OrderValidation,
   OrderCost,
+  OrderExecutionAdapter,
+  ExchangeOrder,
+  ExchangeOrderParams,
+  ExchangeOrderResult,
 } from '../ExchangeService';
 
 export interface BinanceAdapterOptions {
@@ -38,11 +49,28 @@ export interface BinanceAdapterOptions {
    * Request timeout in milliseconds.
    */
   timeoutMs?: number;
+
+  /**
+   * How long (ms) a signed request stays valid after its timestamp.
+   */
+  recvWindow?: number;
 }
 
-export class BinanceAdapter implements ExchangeAdapter {
+const ORDER_STATUSES: Record<string, string> = {
+  NEW: 'OPEN',
+  PARTIALLY_FILLED: 'OPEN',
+  FILLED: 'FILLED',
+  CANCELED: 'CANCELLED',
+  PENDING_CANCEL: 'CANCEL_QUEUED',
+  REJECTED: 'FAILED',
+  EXPIRED: 'EXPIRED',
+  EXPIRED_IN_MATCH: 'EXPIRED',
+};
+
+export class BinanceAdapter implements OrderExecutionAdapter {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
+  private readonly recvWindow: number;
 
   constructor(options: BinanceAdapterOptions = {}) {
     const testnet =
@@ -56,6 +84,7 @@ export class BinanceAdapter implements ExchangeAdapter {
         : process.env.BINANCE_BASE_URL || 'https://api.binance.com');
 
     this.timeoutMs = options.timeoutMs ?? 15_000;
+    this.recvWindow = options.recvWindow ?? 5_000;
   }
 
   private toBinanceSymbol(symbol: string): string {
@@ -93,6 +122,66 @@ export class BinanceAdapter implements ExchangeAdapter {
     }
   }
 
+  /**
+   * Make a signed request. Parameters are sent in the query string, followed
+   * by recvWindow, timestamp and the HMAC-SHA256 signature of all of them.
+   */
+  private async signedRequest(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    ctx: ExchangeAdapterContext,
+    params: Record<string, string> = {},
+  ): Promise<any> {
+    const query = new URLSearchParams({
+      ...params,
+      recvWindow: String(this.recvWindow),
+      timestamp: String(Date.now()),
+    }).toString();
+    const signature = crypto.createHmac('sha256', ctx.apiSecret!).update(query).digest('hex');
+    const url = new URL(`${path}?${query}&signature=${signature}`, this.baseUrl);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url.toString(), {
+        method,
+        headers: { 'X-MBX-APIKEY': ctx.apiKey! },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        // Binance returns { code, msg } for rejected requests
+        const error = await response.json().catch(() => null);
+        throw new Error(
+          `Binance API error: ${error?.msg || `HTTP ${response.status} ${response.statusText}`}`,
+        );
+      }
+
+      return await response.json();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private toExchangeOrder(order: any): ExchangeOrder {
+    const filledSize = parseFloat(order.executedQty || '0');
+    const filledValue = parseFloat(order.cummulativeQuoteQty || '0');
+
+    return {
+      orderId: String(order.orderId),
+      clientOrderId: order.clientOrderId,
+      productId: order.symbol,
+      side: order.side,
+      type: order.type === 'MARKET' ? 'MARKET' : order.type === 'LIMIT' ? 'LIMIT' : 'STOP_LIMIT',
+      status: ORDER_STATUSES[order.status] || order.status,
+      filledSize: String(filledSize),
+      filledValue: String(filledValue),
+      averageFilledPrice: String(filledSize > 0 ? filledValue / filledSize : 0),
+      createdTime: new Date(order.time ?? order.transactTime).toISOString(),
+    };
+  }
+
   async getTicker(ctx: ExchangeAdapterContext, symbol: string): Promise<Ticker> {
     const binanceSymbol = this.toBinanceSymbol(symbol);
 
@@ -151,13 +240,18 @@ export class BinanceAdapter implements ExchangeAdapter {
     symbol: string,
     timeframe: string,
     limit: number,
+    since?: number,
   ): Promise<OHLCV[]> {
     const binanceSymbol = this.toBinanceSymbol(symbol);
-    const candles = await this.getJson('/api/v3/klines', {
+    const params: Record<string, string> = {
       symbol: binanceSymbol,
       interval: timeframe,
       limit: String(limit),
-    });
+    };
+    if (since !== undefined) {
+      params.startTime = String(since);
+    }
+    const candles = await this.getJson('/api/v3/klines', params);
 
     return candles.map((candle: any[]): OHLCV => ({
       timestamp: candle[0],
@@ -252,5 +346,174 @@ export class BinanceAdapter implements ExchangeAdapter {
       total: params.side === 'buy' ? subtotal + fee : subtotal - fee,
     };
   }
+
+  /**
+   * Place an order
+   * SIGNED ENDPOINT - Requires API key and secret
+   */
+  async createOrder(
+    ctx: ExchangeAdapterContext,
+    params: ExchangeOrderParams,
+  ): Promise<ExchangeOrderResult> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return { success: false, error: 'API credentials required for trading' };
+    }
+
+    const validation = await this.validateOrderParams(ctx, params);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+
+    const timeInForce = params.timeInForce ?? 'GTC';
+    if (timeInForce === 'GTD' || timeInForce === 'DAY') {
+      return { success: false, error: `Binance spot orders do not support ${timeInForce}` };
+    }
+    if (params.reduceOnly) {
+      return { success: false, error: 'Binance spot orders do not support reduce-only' };
+    }
+    if (params.postOnly && (params.type !== 'limit' || timeInForce !== 'GTC')) {
+      return { success: false, error: 'Binance post-only orders must be GTC limit orders' };
+    }
+
+    const orderParams: Record<string, string> = {
+      symbol: this.toBinanceSymbol(params.symbol),
+      side: params.side.toUpperCase(),
+    };
+
+    if (params.type === 'market') {
+      if (timeInForce !== 'GTC') {
+        return { success: false, error: `Binance market orders do not support ${timeInForce}` };
+      }
+      orderParams.type = 'MARKET';
+      orderParams.quantity = params.quantity.toString();
+    } else if (params.type === 'limit' || params.type === 'stop_limit') {
+      if (params.postOnly) {
+        // LIMIT_MAKER is rejected if it would match immediately and takes no timeInForce
+        orderParams.type = 'LIMIT_MAKER';
+      } else {
+        orderParams.type = params.type === 'limit' ? 'LIMIT' : 'STOP_LOSS_LIMIT';
+        orderParams.timeInForce = timeInForce;
+      }
+      orderParams.quantity = params.quantity.toString();
+      orderParams.price = params.price!.toString();
+      if (params.type === 'stop_limit') {
+        orderParams.stopPrice = params.stopPrice!.toString();
+      }
+    } else {
+      return { success: false, error: `Unsupported order type: ${params.type}` };
+    }
+
+    if (params.clientOrderId) {
+      orderParams.newClientOrderId = params.clientOrderId;
+    }
+
+    try {
+      const response = await this.signedRequest('POST', '/api/v3/order', ctx, orderParams);
+
+      return {
+        success: true,
+        orderId: String(response.orderId),
+        clientOrderId: response.clientOrderId,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to create order',
+      };
+    }
+  }
+
+  /**
+   * Cancel an order. Binance order IDs are scoped to a symbol, so it is required.
+   * SIGNED ENDPOINT - Requires API key and secret
+   */
+  async cancelOrder(
+    ctx: ExchangeAdapterContext,
+    orderId: string,
+    symbol?: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return { success: false, error: 'API credentials required' };
+    }
+    if (!symbol) {
+      return { success: false, error: 'Symbol is required to cancel a Binance order' };
+    }
+
+    try {
+      await this.signedRequest('DELETE', '/api/v3/order', ctx, {
+        symbol: this.toBinanceSymbol(symbol),
+        orderId,
+      });
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel order',
+      };
+    }
+  }
+
+  /**
+   * Get order by ID
+   * SIGNED ENDPOINT - Requires API key and secret
+   */
+  async getOrder(
+    ctx: ExchangeAdapterContext,
+    orderId: string,
+    symbol?: string,
+  ): Promise<ExchangeOrder | null> {
+    if (!ctx.apiKey || !ctx.apiSecret || !symbol) {
+      return null;
+    }
+
+    try {
+      const order = await this.signedRequest('GET', '/api/v3/order', ctx, {
+        symbol: this.toBinanceSymbol(symbol),
+        orderId,
+      });
+      return this.toExchangeOrder(order);
+    } catch (error) {
+      console.error('Failed to get order:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get open orders, across all symbols when none is given
+   * SIGNED ENDPOINT - Requires API key and secret
+   */
+  async getOpenOrders(
+    ctx: ExchangeAdapterContext,
+    symbol?: string,
+  ): Promise<ExchangeOrder[]> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return [];
+    }
+
+    const params: Record<string, string> = symbol ? { symbol: this.toBinanceSymbol(symbol) } : {};
+    const orders = await this.signedRequest('GET', '/api/v3/openOrders', ctx, params);
+    return orders.map((order: any) => this.toExchangeOrder(order));
+  }
+
+  /**
+   * Get order history. Binance only lists history per symbol.
+   * SIGNED ENDPOINT - Requires API key and secret
+   */
+  async getOrderHistory(
+    ctx: ExchangeAdapterContext,
+    symbol?: string,
+    limit: number = 100,
+  ): Promise<ExchangeOrder[]> {
+    if (!ctx.apiKey || !ctx.apiSecret || !symbol) {
+      return [];
+    }
+
+    const orders = await this.signedRequest('GET', '/api/v3/allOrders', ctx, {
+      symbol: this.toBinanceSymbol(symbol),
+      limit: Math.min(limit, 1000).toString(),
+    });
+    // Oldest first from Binance; newest first like the other adapters
+    return orders.map((order: any) => this.toExchangeOrder(order)).reverse();
+  }
 }
 
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import * as crypto from 'crypto';
+import { BybitAdapter } from './BybitAdapter';
+import type { ExchangeAdapterContext } from '../ExchangeService';
+import * as fixtures from '../../../tests/fixtures/exchanges/bybit';
+
+describe('BybitAdapter', () => {
+  const originalFetch = globalThis.fetch;
+  const ctx: ExchangeAdapterContext = {
+    connectionId: 'conn-1',
+    userId: 'user-1',
+    exchange: 'bybit',
+  };
+
+  const respond = (body: unknown) => ({ ok: true, json: async () => body });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should_map_spot_tickers_to_Ticker', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.tickersResponse));
+    globalThis.fetch = fetchMock as any;
+
+    const ticker = await new BybitAdapter().getTicker(ctx, 'BTC/USDT');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.bybit.com/v5/market/tickers?category=spot&symbol=BTCUSDT');
+    expect(ticker).toMatchObject({
+      symbol: 'BTC/USDT',
+      bid: 20517.96,
+      ask: 20527.77,
+      last: 20533.13,
+      high: 21128.12,
+      low: 20318.89,
+      volume: 11801.27771,
+    });
+  });
+
+  it('should_map_the_order_book_and_oldest_first_candles', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(fixtures.orderbookResponse))
+      .mockResolvedValueOnce(respond(fixtures.klineResponse));
+    globalThis.fetch = fetchMock as any;
+
+    const adapter = new BybitAdapter({ baseUrl: 'https://api-testnet.bybit.com' });
+    const book = await adapter.getOrderBook(ctx, 'BTC/USDT');
+
+    expect(book).toEqual({
+      symbol: 'BTC/USDT',
+      bids: [{ price: 16638.27, quantity: 0.305749 }, { price: 16638, quantity: 1.2 }],
+      asks: [{ price: 16638.64, quantity: 0.008479 }, { price: 16640, quantity: 0.5 }],
+      timestamp: 1672765737733,
+    });
+
+    const since = 1670605200000;
+    const candles = await adapter.getOHLCV(ctx, 'BTC/USDT', '1h', 2, since);
+
+    const url = new URL(fetchMock.mock.calls[1][0]);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      category: 'spot',
+      symbol: 'BTCUSDT',
+      interval: '60',
+      limit: '2',
+      start: String(since),
+      end: String(since + 2 * 3_600_000 - 1),
+    });
+    expect(candles.map(c => [c.timestamp, c.open, c.close, c.volume])).toEqual([
+      [1670605200000, 17071.5, 17071, 4177],
+      [1670608800000, 17071, 17055.5, 268611],
+    ]);
+  });
+
+  it('should_list_trading_symbols_and_derive_symbol_limits', async () => {
+    globalThis.fetch = vi.fn()
+      .mockResolvedValueOnce(respond(fixtures.instrumentsResponse))
+      .mockResolvedValueOnce(respond(fixtures.instrumentsResponse)) as any;
+
+    const adapter = new BybitAdapter();
+
+    expect(await adapter.getSymbols(ctx)).toEqual(['BTC/USDT']);
+    expect(await adapter.getSymbolLimits(ctx, 'BTC/USDT')).toEqual({
+      minQuantity: 0.000048,
+      maxQuantity: 71.73956243,
+      minPrice: 0.01,
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      minNotional: 1,
+      quantityPrecision: 6,
+      pricePrecision: 2,
+    });
+  });
+
+  describe('perpetuals', () => {
+    it('should_map_linear_contract_specs_and_reject_inverse_contracts', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.linearInstrumentsResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new BybitAdapter();
+
+      expect(await adapter.getContractSpec(ctx, 'BTC/USDT:USDT')).toEqual({
+        symbol: 'BTC/USDT:USDT',
+        type: 'perpetual',
+        base: 'BTC',
+        quote: 'USDT',
+        settle: 'USDT',
+        contractSize: 1,
+        tickSize: 0.1,
+        lotSize: 0.001,
+        minQuantity: 0.001,
+        maxLeverage: 100,
+        fundingIntervalHours: 8,
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://api.bybit.com/v5/market/instruments-info?category=linear&symbol=BTCUSDT',
+      );
+      await expect(adapter.getContractSpec(ctx, 'BTC/USD:BTC')).rejects.toThrow(
+        'Only quote-settled perpetuals are supported on Bybit, got BTC/USD:BTC',
+      );
+    });
+
+    it('should_return_funding_history_oldest_first_within_a_bounded_window', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.fundingHistoryResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const funding = await new BybitAdapter().getFundingRateHistory(ctx, 'BTC/USDT:USDT', 2, 1672012800000);
+
+      expect(funding).toEqual([
+        { symbol: 'BTC/USDT:USDT', rate: -0.00005, timestamp: 1672012800000 },
+        { symbol: 'BTC/USDT:USDT', rate: 0.0001, timestamp: 1672041600000 },
+      ]);
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe('/v5/market/funding/history');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        category: 'linear',
+        symbol: 'BTCUSDT',
+        limit: '2',
+        startTime: '1672012800000',
+        endTime: String(1672012800000 + 2 * 8 * 3_600_000),
+      });
+    });
+
+    it('should_read_mark_and_index_price_from_the_linear_ticker', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.linearTickersResponse)) as any;
+
+      const mark = await new BybitAdapter().getMarkPrice(ctx, 'BTC/USDT:USDT');
+
+      expect(mark).toMatchObject({
+        symbol: 'BTC/USDT:USDT',
+        markPrice: 16596,
+        indexPrice: 16598.54,
+        fundingRate: -0.0001,
+        nextFundingTime: 1673280000000,
+      });
+    });
+  });
+
+  describe('signed account endpoints', () => {
+    const signedCtx: ExchangeAdapterContext = {
+      ...ctx,
+      apiKey: 'bybit-key',
+      apiSecret: 'bybit-secret',
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_sign_wallet_balance_and_skip_empty_coins', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1658384314791);
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.walletBalanceResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const balance = await new BybitAdapter().getBalance(signedCtx);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.bybit.com/v5/account/wallet-balance?accountType=UNIFIED');
+      expect(init.headers).toEqual({
+        'X-BAPI-API-KEY': 'bybit-key',
+        'X-BAPI-TIMESTAMP': '1658384314791',
+        'X-BAPI-RECV-WINDOW': '5000',
+        'X-BAPI-SIGN': crypto
+          .createHmac('sha256', 'bybit-secret')
+          .update('1658384314791bybit-key5000accountType=UNIFIED')
+          .digest('hex'),
+      });
+
+      expect(balance.assets).toEqual([
+        { asset: 'BTC', total: 0.5, free: 0.4, used: 0.1 },
+        { asset: 'USDT', total: 1200, free: 1200, used: 0 },
+      ]);
+      expect(balance.free).toEqual({ BTC: 0.4, USDT: 1200 });
+    });
+
+    it('should_read_account_fee_rates_with_keys_and_default_without', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.feeRateResponse)) as any;
+
+      const adapter = new BybitAdapter();
+
+      expect(await adapter.getTradingFees(signedCtx)).toEqual({ maker: 0.0001, taker: 0.0006 });
+      expect(await adapter.getTradingFees(ctx)).toEqual({ maker: 0.001, taker: 0.001 });
+    });
+
+    it('should_surface_api_errors_returned_with_http_200', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.invalidKeyResponse)) as any;
+
+      await expect(new BybitAdapter().getBalance(signedCtx)).rejects.toThrow('Bybit API error: API key is invalid.');
+      await expect(new BybitAdapter().getBalance(ctx)).rejects.toThrow('API credentials required');
+    });
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * BybitAdapter - ExchangeAdapter implementation for Bybit (spot and USDT
+ * perpetuals, V5 API)
+ *
+ * Market data uses Bybit's public V5 market endpoints with category=spot.
+ * Perpetual symbols ("BTC/USDT:USDT") use category=linear, where order
+ * quantities are in the base asset, so one contract is one base unit.
+ * Account endpoints are signed: HMAC-SHA256 of
+ * timestamp + apiKey + recvWindow + queryString, hex encoded, sent in the
+ * X-BAPI-SIGN header alongside the key, timestamp and recvWindow.
+ *
+ * SIGNED ENDPOINTS:
+ * - GET /v5/account/wallet-balance - Balances
+ * - GET /v5/account/fee-rate - Maker/taker fee rates
+ */
+
+import * as crypto from 'crypto';
+import {
+  PerpetualMarketAdapter,
+  ExchangeAdapterContext,
+  Ticker,
+  OrderBook,
+  OrderBookEntry,
+  OHLCV,
+  Balance,
+  TradingFees,
+  SymbolLimits,
+  OrderValidation,
+  OrderCost,
+  ContractSpec,
+  FundingRate,
+  MarkPrice,
+  parsePerpetualSymbol,
+} from '../ExchangeService';
+
+export interface BybitAdapterOptions {
+  /**
+   * When true, uses the Bybit testnet endpoints.
+   */
+  testnet?: boolean;
+
+  /**
+   * Optional base URL override. If not provided, the adapter chooses based on
+   * the `testnet` flag.
+   */
+  baseUrl?: string;
+
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeoutMs?: number;
+
+  /**
+   * How long (ms) a signed request stays valid after its timestamp.
+   */
+  recvWindow?: number;
+
+  /**
+   * Wallet to read balances from; UNIFIED for unified trading accounts.
+   */
+  accountType?: 'UNIFIED' | 'SPOT';
+}
+
+// Bybit kline intervals are minutes, or D/W for days and weeks
+const INTERVALS: Record<string, string> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+};
+
+const INTERVAL_MS: Record<string, number> = {
+  D: 86_400_000,
+  W: 604_800_000,
+};
+
+/**
+ * Number of decimals in a step size such as "0.000001"
+ */
+function decimals(step: string): number {
+  const [, fraction = ''] = step.split('.');
+  return fraction.replace(/0+$/, '').length;
+}
+
+export class BybitAdapter implements PerpetualMarketAdapter {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly recvWindow: number;
+  private readonly accountType: string;
+
+  constructor(options: BybitAdapterOptions = {}) {
+    const testnet =
+      options.testnet ??
+      (process.env.BYBIT_TESTNET === '1' || process.env.BYBIT_TESTNET === 'true');
+
+    this.baseUrl =
+      options.baseUrl ||
+      (testnet
+        ? process.env.BYBIT_TESTNET_BASE_URL || 'https://api-testnet.bybit.com'
+        : process.env.BYBIT_BASE_URL || 'https://api.bybit.com');
+
+    this.timeoutMs = options.timeoutMs ?? 15_000;
+    this.recvWindow = options.recvWindow ?? 5_000;
+    this.accountType = options.accountType ?? 'UNIFIED';
+  }
+
+  private toBybitSymbol(symbol: string): string {
+    // Convert "BTC/USDT" -> "BTCUSDT"
+    return symbol.replace('/', '');
+  }
+
+  /**
+   * Bybit symbol for a linear perpetual: "BTC/USDT:USDT" -> "BTCUSDT"
+   */
+  private toLinearSymbol(symbol: string): string {
+    const { base, quote, settle } = parsePerpetualSymbol(symbol);
+    if (settle !== quote) {
+      throw new Error(`Only quote-settled perpetuals are supported on Bybit, got ${symbol}`);
+    }
+    return `${base}${quote}`;
+  }
+
+  private async getJson(
+    path: string,
+    params: Record<string, string> = {},
+    headers: Record<string, string> = {},
+  ): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const url = new URL(query ? `${path}?${query}` : path, this.baseUrl);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(
+          `Bybit API error: HTTP ${response.status} ${response.statusText} ${errorText}`,
+        );
+      }
+
+      // Bybit reports request errors in the body with HTTP 200
+      const json = await response.json();
+      if (json.retCode !== 0) {
+        throw new Error(`Bybit API error: ${json.retMsg || `retCode ${json.retCode}`}`);
+      }
+      return json.result;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Make a signed GET request to an account endpoint
+   */
+  private async signedGet(
+    path: string,
+    ctx: ExchangeAdapterContext,
+    params: Record<string, string> = {},
+  ): Promise<any> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      throw new Error('API credentials required');
+    }
+
+    const timestamp = String(Date.now());
+    const recvWindow = String(this.recvWindow);
+    const query = new URLSearchParams(params).toString();
+    const signature = crypto
+      .createHmac('sha256', ctx.apiSecret)
+      .update(timestamp + ctx.apiKey + recvWindow + query)
+      .digest('hex');
+
+    return this.getJson(path, params, {
+      'X-BAPI-API-KEY': ctx.apiKey,
+      'X-BAPI-TIMESTAMP': timestamp,
+      'X-BAPI-RECV-WINDOW': recvWindow,
+      'X-BAPI-SIGN': signature,
+    });
+  }
+
+  async getTicker(ctx: ExchangeAdapterContext, symbol: string): Promise<Ticker> {
+    const data = await this.getJson('/v5/market/tickers', {
+      category: 'spot',
+      symbol: this.toBybitSymbol(symbol),
+    });
+    const ticker = data.list?.[0];
+    if (!ticker) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+
+    return {
+      symbol,
+      bid: parseFloat(ticker.bid1Price),
+      ask: parseFloat(ticker.ask1Price),
+      last: parseFloat(ticker.lastPrice),
+      high: parseFloat(ticker.highPrice24h),
+      low: parseFloat(ticker.lowPrice24h),
+      volume: parseFloat(ticker.volume24h),
+      timestamp: Date.now(),
+    };
+  }
+
+  async getOrderBook(ctx: ExchangeAdapterContext, symbol: string): Promise<OrderBook> {
+    const depth = await this.getJson('/v5/market/orderbook', {
+      category: 'spot',
+      symbol: this.toBybitSymbol(symbol),
+      limit: '50',
+    });
+
+    const bids: OrderBookEntry[] = depth.b.map((entry: [string, string]) => ({
+      price: parseFloat(entry[0]),
+      quantity: parseFloat(entry[1]),
+    }));
+
+    const asks: OrderBookEntry[] = depth.a.map((entry: [string, string]) => ({
+      price: parseFloat(entry[0]),
+      quantity: parseFloat(entry[1]),
+    }));
+
+    return {
+      symbol,
+      bids,
+      asks,
+      timestamp: depth.ts ?? Date.now(),
+    };
+  }
+
+  async getOHLCV(
+    ctx: ExchangeAdapterContext,
+    symbol: string,
+    timeframe: string,
+    limit: number,
+    since?: number,
+  ): Promise<OHLCV[]> {
+    const interval = INTERVALS[timeframe] || '60';
+    const params: Record<string, string> = {
+      category: 'spot',
+      symbol: this.toBybitSymbol(symbol),
+      interval,
+      limit: String(Math.min(limit, 1000)),
+    };
+    if (since !== undefined) {
+      // Bybit returns the newest candles in [start, end], so bound the window
+      const intervalMs = INTERVAL_MS[interval] ?? Number(interval) * 60_000;
+      params.start = String(since);
+      params.end = String(since + limit * intervalMs - 1);
+    }
+    const data = await this.getJson('/v5/market/kline', params);
+
+    // Bybit lists candles newest first
+    return data.list
+      .map((candle: string[]): OHLCV => ({
+        timestamp: Number(candle[0]),
+        open: parseFloat(candle[1]),
+        high: parseFloat(candle[2]),
+        low: parseFloat(candle[3]),
+        close: parseFloat(candle[4]),
+        volume: parseFloat(candle[5]),
+      }))
+      .reverse();
+  }
+
+  async getSymbols(ctx: ExchangeAdapterContext): Promise<string[]> {
+    const data = await this.getJson('/v5/market/instruments-info', { category: 'spot' });
+    return data.list
+      .filter((s: any) => s.status === 'Trading')
+      .map((s: any) => `${s.baseCoin}/${s.quoteCoin}`);
+  }
+
+  async getBalance(ctx: ExchangeAdapterContext): Promise<Balance> {
+    const data = await this.signedGet('/v5/account/wallet-balance', ctx, {
+      accountType: this.accountType,
+    });
+
+    const balance: Balance = { total: {}, free: {}, used: {}, assets: [] };
+    for (const coin of data.list?.[0]?.coin ?? []) {
+      const total = parseFloat(coin.walletBalance || '0');
+      const used = parseFloat(coin.locked || '0');
+      if (total === 0) continue;
+
+      balance.total[coin.coin] = total;
+      balance.free[coin.coin] = total - used;
+      balance.used[coin.coin] = used;
+      balance.assets.push({ asset: coin.coin, total, free: total - used, used });
+    }
+    return balance;
+  }
+
+  async getTradingFees(ctx: ExchangeAdapterContext): Promise<TradingFees> {
+    // Without keys, fall back to Bybit's base spot tier
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return { maker: 0.001, taker: 0.001 };
+    }
+
+    const data = await this.signedGet('/v5/account/fee-rate', ctx, { category: 'spot' });
+    const rate = data.list?.[0];
+    return {
+      maker: parseFloat(rate?.makerFeeRate ?? '0.001'),
+      taker: parseFloat(rate?.takerFeeRate ?? '0.001'),
+    };
+  }
+
+  async getSymbolLimits(ctx: ExchangeAdapterContext, symbol: string): Promise<SymbolLimits> {
+    const data = await this.getJson('/v5/market/instruments-info', {
+      category: 'spot',
+      symbol: this.toBybitSymbol(symbol),
+    });
+    const instrument = data.list?.[0];
+    if (!instrument) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+
+    const lot = instrument.lotSizeFilter;
+    return {
+      minQuantity: parseFloat(lot.minOrderQty),
+      maxQuantity: parseFloat(lot.maxOrderQty),
+      minPrice: parseFloat(instrument.priceFilter.tickSize),
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      minNotional: parseFloat(lot.minOrderAmt || '0'),
+      quantityPrecision: decimals(lot.basePrecision),
+      pricePrecision: decimals(instrument.priceFilter.tickSize),
+    };
+  }
+
+  async validateOrderParams(
+    ctx: ExchangeAdapterContext,
+    params: { symbol: string; side: string; type: string; quantity: number; price?: number },
+  ): Promise<OrderValidation> {
+    const limits = await this.getSymbolLimits(ctx, params.symbol);
+
+    if (params.quantity < limits.minQuantity) {
+      return { valid: false, error: `Quantity below minimum (${limits.minQuantity})` };
+    }
+
+    if (params.quantity > limits.maxQuantity) {
+      return { valid: false, error: `Quantity above maximum (${limits.maxQuantity})` };
+    }
+
+    if (params.price && params.price < limits.minPrice) {
+      return { valid: false, error: `Price below minimum (${limits.minPrice})` };
+    }
+
+    if (params.price) {
+      const notional = params.quantity * params.price;
+      if (notional < limits.minNotional) {
+        return { valid: false, error: `Order value below minimum (${limits.minNotional})` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  async calculateOrderCost(
+    ctx: ExchangeAdapterContext,
+    params: { symbol: string; side: string; quantity: number; price: number },
+  ): Promise<OrderCost> {
+    const fees = await this.getTradingFees(ctx);
+    const subtotal = params.quantity * params.price;
+    const fee = subtotal * fees.taker;
+
+    return {
+      subtotal,
+      fee,
+      total: params.side === 'buy' ? subtotal + fee : subtotal - fee,
+    };
+  }
+
+  // ============================================================================
+  // Perpetual Futures (category=linear)
+  // ============================================================================
+
+  async getContractSpec(ctx: ExchangeAdapterContext, symbol: string): Promise<ContractSpec> {
+    const data = await this.getJson('/v5/market/instruments-info', {
+      category: 'linear',
+      symbol: this.toLinearSymbol(symbol),
+    });
+    const instrument = data.list?.[0];
+    if (!instrument || instrument.contractType !== 'LinearPerpetual') {
+      throw new Error(`Perpetual ${symbol} not found`);
+    }
+
+    return {
+      symbol,
+      type: 'perpetual',
+      base: instrument.baseCoin,
+      quote: instrument.quoteCoin,
+      settle: instrument.settleCoin,
+      contractSize: 1,
+      tickSize: parseFloat(instrument.priceFilter.tickSize),
+      lotSize: parseFloat(instrument.lotSizeFilter.qtyStep),
+      minQuantity: parseFloat(instrument.lotSizeFilter.minOrderQty),
+      maxLeverage: parseFloat(instrument.leverageFilter.maxLeverage),
+      // Bybit reports the funding interval in minutes
+      fundingIntervalHours: Number(instrument.fundingInterval) / 60,
+    };
+  }
+
+  async getFundingRateHistory(
+    ctx: ExchangeAdapterContext,
+    symbol: string,
+    limit: number,
+    since?: number,
+  ): Promise<FundingRate[]> {
+    const params: Record<string, string> = {
+      category: 'linear',
+      symbol: this.toLinearSymbol(symbol),
+      limit: String(Math.min(limit, 200)),
+    };
+    if (since !== undefined) {
+      // Bybit rejects a start time without an end time; assume 8 hour funding
+      params.startTime = String(since);
+      params.endTime = String(since + limit * 8 * 3_600_000);
+    }
+    const data = await this.getJson('/v5/market/funding/history', params);
+
+    // Newest first, like klines
+    return data.list
+      .map((entry: any): FundingRate => ({
+        symbol,
+        rate: parseFloat(entry.fundingRate),
+        timestamp: Number(entry.fundingRateTimestamp),
+      }))
+      .reverse();
+  }
+
+  async getMarkPrice(ctx: ExchangeAdapterContext, symbol: string): Promise<MarkPrice> {
+    const data = await this.getJson('/v5/market/tickers', {
+      category: 'linear',
+      symbol: this.toLinearSymbol(symbol),
+    });
+    const ticker = data.list?.[0];
+    if (!ticker) {
+      throw new Error(`Perpetual ${symbol} not found`);
+    }
+
+    return {
+      symbol,
+      markPrice: parseFloat(ticker.markPrice),
+      indexPrice: parseFloat(ticker.indexPrice),
+      fundingRate: parseFloat(ticker.fundingRate),
+      nextFundingTime: Number(ticker.nextFundingTime),
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -374,6 +374,52 @@ describe('CoinbaseAdapter', () => {
       expect(body.order_configuration.limit_limit_gtc.limit_price).toBe('50000');
     });
 
+    it('should_pass_time_in_force_to_the_order_configuration', async () => {
+      const limitsResponse = {
+        ok: true,
+        json: async () => ({ base_min_size: '0.0001', base_max_size: '10000', min_market_funds: '1' }),
+      };
+      const orderResponse = {
+        ok: true,
+        json: async () => ({ success: true, success_response: { order_id: 'order-789' } }),
+      };
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(limitsResponse)
+        .mockResolvedValueOnce(orderResponse)
+        .mockResolvedValueOnce(limitsResponse)
+        .mockResolvedValueOnce(orderResponse);
+
+      globalThis.fetch = fetchMock;
+
+      const adapter = createMockedAdapter();
+
+      const ctx: ExchangeAdapterContext = {
+        connectionId: 'conn-1',
+        userId: 'user-1',
+        exchange: 'coinbase',
+        apiKey: testApiKey,
+        apiSecret: testApiSecret,
+      };
+      const expiresAt = new Date('2030-01-01T00:00:00.000Z');
+
+      await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, timeInForce: 'DAY', expiresAt,
+      });
+      await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, timeInForce: 'FOK',
+      });
+
+      const gtd = JSON.parse(fetchMock.mock.calls[1][1].body as string).order_configuration;
+      const fok = JSON.parse(fetchMock.mock.calls[3][1].body as string).order_configuration;
+      expect(gtd.limit_limit_gtd).toMatchObject({ limit_price: '50000', end_time: '2030-01-01T00:00:00.000Z' });
+      expect(fok.limit_limit_fok).toMatchObject({ base_size: '0.1' });
+
+      const unsupported = await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'market', quantity: 0.1, timeInForce: 'FOK',
+      });
+      expect(unsupported).toEqual({ success: false, error: 'Coinbase market orders do not support FOK' });
+    });
+
     it('should_fail_order_without_auth', async () => {
       const adapter = new CoinbaseAdapter({
         baseUrl: 'https://api.coinbase.com',
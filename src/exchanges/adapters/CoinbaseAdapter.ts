@@ -26,7 +26,6 @@
 import * as crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import {
-  ExchangeAdapter,
   ExchangeAdapterContext,
   Ticker,
   OrderBook,
@@ -37,6 +36,10 @@ import {
   SymbolLimits,
   OrderValidation,
   OrderCost,
+  OrderExecutionAdapter,
+  ExchangeOrder,
+  ExchangeOrderParams,
+  ExchangeOrderResult,
 } from '../ExchangeService';
 
 export interface CoinbaseAdapterOptions {
@@ -44,37 +47,11 @@ export interface CoinbaseAdapterOptions {
   timeoutMs?: number;
 }
 
-export interface CoinbaseOrder {
-  orderId: string;
-  clientOrderId: string;
-  productId: string;
-  side: 'BUY' | 'SELL';
-  type: 'MARKET' | 'LIMIT' | 'STOP_LIMIT';
-  status: string;
-  filledSize: string;
-  filledValue: string;
-  averageFilledPrice: string;
-  createdTime: string;
-}
-
-export interface CreateOrderParams {
-  symbol: string;
-  side: 'buy' | 'sell';
-  type: 'market' | 'limit' | 'stop_limit';
-  quantity: number;
-  price?: number;
-  stopPrice?: number;
-  clientOrderId?: string;
-}
-
-export interface CreateOrderResult {
-  success: boolean;
-  orderId?: string;
-  clientOrderId?: string;
-  error?: string;
-}
+export type CoinbaseOrder = ExchangeOrder;
+export type CreateOrderParams = ExchangeOrderParams;
+export type CreateOrderResult = ExchangeOrderResult;
 
-export class CoinbaseAdapter implements ExchangeAdapter {
+export class CoinbaseAdapter implements OrderExecutionAdapter {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
 
@@ -295,12 +272,14 @@ export class CoinbaseAdapter implements ExchangeAdapter {
     symbol: string,
     timeframe: string,
     limit: number,
+    since?: number,
   ): Promise<OHLCV[]> {
     const productId = this.toCoinbaseProductId(symbol);
     const granularity = this.timeframeToGranularity(timeframe);
+    const span = this.granularityToSeconds(granularity) * limit;
 
-    const end = Math.floor(Date.now() / 1000);
-    const start = end - this.granularityToSeconds(granularity) * limit;
+    const start = since !== undefined ? Math.floor(since / 1000) : Math.floor(Date.now() / 1000) - span;
+    const end = start + span;
 
     const response = await this.getJson(
       `/api/v3/brokerage/market/products/${productId}/candles`,
@@ -556,31 +535,60 @@ export class CoinbaseAdapter implements ExchangeAdapter {
 
     const productId = this.toCoinbaseProductId(params.symbol);
     const clientOrderId = params.clientOrderId || crypto.randomUUID();
+    const timeInForce = params.timeInForce ?? 'GTC';
 
-    // Build order configuration based on order type
+    // Coinbase has no day orders; they are sent as GTD with the day's end time
+    const expiring = timeInForce === 'GTD' || timeInForce === 'DAY';
+    if (expiring && !params.expiresAt) {
+      return { success: false, error: `${timeInForce} orders require an expiry time` };
+    }
+    const endTime = expiring ? { end_time: params.expiresAt!.toISOString() } : {};
+
+    if (params.reduceOnly) {
+      return { success: false, error: 'Coinbase spot orders do not support reduce-only' };
+    }
+    if (params.postOnly && (params.type !== 'limit' || timeInForce === 'IOC' || timeInForce === 'FOK')) {
+      return { success: false, error: 'Coinbase post-only orders must be GTC or GTD limit orders' };
+    }
+    const postOnly = params.postOnly ?? false;
+
+    // Build order configuration based on order type and time in force
     let orderConfiguration: Record<string, unknown>;
 
     if (params.type === 'market') {
+      if (timeInForce !== 'GTC' && timeInForce !== 'IOC') {
+        return { success: false, error: `Coinbase market orders do not support ${timeInForce}` };
+      }
       orderConfiguration = {
         market_market_ioc: {
           base_size: params.quantity.toString(),
         },
       };
     } else if (params.type === 'limit') {
-      orderConfiguration = {
-        limit_limit_gtc: {
-          base_size: params.quantity.toString(),
-          limit_price: params.price!.toString(),
-          post_only: false,
-        },
+      const limit = {
+        base_size: params.quantity.toString(),
+        limit_price: params.price!.toString(),
       };
+      if (timeInForce === 'IOC') {
+        orderConfiguration = { sor_limit_ioc: limit };
+      } else if (timeInForce === 'FOK') {
+        orderConfiguration = { limit_limit_fok: limit };
+      } else if (expiring) {
+        orderConfiguration = { limit_limit_gtd: { ...limit, ...endTime, post_only: postOnly } };
+      } else {
+        orderConfiguration = { limit_limit_gtc: { ...limit, post_only: postOnly } };
+      }
     } else if (params.type === 'stop_limit') {
+      if (timeInForce === 'IOC' || timeInForce === 'FOK') {
+        return { success: false, error: `Coinbase stop limit orders do not support ${timeInForce}` };
+      }
       orderConfiguration = {
-        stop_limit_stop_limit_gtc: {
+        [expiring ? 'stop_limit_stop_limit_gtd' : 'stop_limit_stop_limit_gtc']: {
           base_size: params.quantity.toString(),
           limit_price: params.price!.toString(),
           stop_price: params.stopPrice!.toString(),
           stop_direction: params.side === 'buy' ? 'STOP_DIRECTION_STOP_UP' : 'STOP_DIRECTION_STOP_DOWN',
+          ...endTime,
         },
       };
     } else {
@@ -677,6 +685,7 @@ export class CoinbaseAdapter implements ExchangeAdapter {
         filledSize: order.filled_size || '0',
         filledValue: order.filled_value || '0',
         averageFilledPrice: order.average_filled_price || '0',
+        totalFees: order.total_fees,
         createdTime: order.created_time,
       };
     } catch (error) {
@@ -719,6 +728,7 @@ export class CoinbaseAdapter implements ExchangeAdapter {
         filledSize: order.filled_size || '0',
         filledValue: order.filled_value || '0',
         averageFilledPrice: order.average_filled_price || '0',
+        totalFees: order.total_fees,
         createdTime: order.created_time,
       }));
     } catch (error) {
@@ -762,6 +772,7 @@ export class CoinbaseAdapter implements ExchangeAdapter {
         filledSize: order.filled_size || '0',
         filledValue: order.filled_value || '0',
         averageFilledPrice: order.average_filled_price || '0',
+        totalFees: order.total_fees,
         createdTime: order.created_time,
       }));
     } catch (error) {
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import { parseChannel } from '../MarketDataStreamService';
+import { CoinbaseMarketStream } from './CoinbaseMarketStream';
+
+class FakeSocket extends EventEmitter {
+  readyState = 0;
+  sent: any[] = [];
+  send = vi.fn((data: string) => {
+    this.sent.push(JSON.parse(data));
+  });
+  close = vi.fn();
+
+  open() {
+    this.readyState = 1;
+    this.emit('open');
+  }
+}
+
+const tickerMessage = {
+  channel: 'ticker',
+  timestamp: '2024-01-01T00:00:00Z',
+  events: [
+    {
+      type: 'update',
+      tickers: [
+        {
+          type: 'ticker',
+          product_id: 'BTC-USD',
+          price: '44000',
+          volume_24_h: '1234.5',
+          low_24_h: '40000',
+          high_24_h: '45000',
+          price_percent_chg_24_h: '10',
+          best_bid: '43999.5',
+          best_ask: '44000.5',
+        },
+      ],
+    },
+  ],
+};
+
+describe('CoinbaseMarketStream', () => {
+  let sockets: FakeSocket[];
+  let stream: CoinbaseMarketStream;
+
+  beforeEach(() => {
+    sockets = [];
+    stream = new CoinbaseMarketStream({
+      url: 'wss://example.test',
+      createSocket: () => {
+        const socket = new FakeSocket();
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+    });
+  });
+
+  it('only streams tickers', () => {
+    expect(stream.supports(parseChannel('ticker:BTC/USD')!)).toBe(true);
+    expect(stream.supports(parseChannel('orderbook:BTC/USD')!)).toBe(false);
+  });
+
+  it('subscribes products on one socket and maps ticker events', () => {
+    const onData = vi.fn();
+    stream.subscribe(parseChannel('ticker:BTC/USD')!, { onData, onError: vi.fn() });
+    stream.subscribe(parseChannel('ticker:ETH/USD')!, { onData: vi.fn(), onError: vi.fn() });
+    sockets[0].open();
+
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].sent).toEqual([
+      { type: 'subscribe', channel: 'heartbeats' },
+      { type: 'subscribe', product_ids: ['BTC-USD'], channel: 'ticker' },
+      { type: 'subscribe', product_ids: ['ETH-USD'], channel: 'ticker' },
+    ]);
+
+    sockets[0].emit('message', Buffer.from(JSON.stringify(tickerMessage)));
+    sockets[0].emit('message', Buffer.from(JSON.stringify({ channel: 'heartbeats', events: [] })));
+
+    expect(onData).toHaveBeenCalledTimes(1);
+    expect(onData).toHaveBeenCalledWith({
+      symbol: 'BTC/USD',
+      price: 44000,
+      bid: 43999.5,
+      ask: 44000.5,
+      change24h: 4000,
+      changePercent24h: 10,
+      high24h: 45000,
+      low24h: 40000,
+      volume24h: 1234.5,
+      timestamp: Date.parse('2024-01-01T00:00:00Z'),
+    });
+  });
+
+  it('unsubscribes idle products and closes after the last one', () => {
+    const stopBtc = stream.subscribe(parseChannel('ticker:BTC/USD')!, { onData: vi.fn(), onError: vi.fn() });
+    const stopEth = stream.subscribe(parseChannel('ticker:ETH/USD')!, { onData: vi.fn(), onError: vi.fn() });
+    sockets[0].open();
+
+    stopBtc();
+    expect(sockets[0].sent.at(-1)).toEqual({ type: 'unsubscribe', product_ids: ['BTC-USD'], channel: 'ticker' });
+
+    stopEth();
+    expect(sockets[0].close).toHaveBeenCalled();
+  });
+
+  it('reports a dropped connection to every subscriber', () => {
+    const onError = vi.fn();
+    stream.subscribe(parseChannel('ticker:BTC/USD')!, { onData: vi.fn(), onError });
+    sockets[0].open();
+
+    sockets[0].emit('close');
+
+    expect(onError).toHaveBeenCalledWith(new Error('Coinbase stream closed'));
+
+    // Next subscription opens a fresh socket
+    stream.subscribe(parseChannel('ticker:BTC/USD')!, { onData: vi.fn(), onError: vi.fn() });
+    expect(sockets).toHaveLength(2);
+  });
+});
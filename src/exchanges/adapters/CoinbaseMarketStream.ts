@@ -0,0 +1,158 @@
+/**
+ * CoinbaseMarketStream - upstream ticker stream from the Coinbase Advanced
+ * Trade WebSocket feed (advanced-trade-ws.coinbase.com).
+ *
+ * Public market data channels need no API keys. One socket is shared by all
+ * subscribed products and is opened on the first subscription and closed
+ * after the last. When the socket drops, every subscriber gets onError and
+ * MarketDataStreamService falls back to polling for those channels.
+ *
+ * Order books and candles are not streamed here and are always polled.
+ */
+
+import { WebSocket } from 'ws';
+import type {
+  MarketDataStreamHandlers,
+  MarketDataUpstream,
+  MarketTickerUpdate,
+  StreamChannel,
+} from '../MarketDataStreamService';
+
+export interface CoinbaseMarketStreamOptions {
+  url?: string;
+  createSocket?: (url: string) => WebSocket;
+}
+
+export class CoinbaseMarketStream implements MarketDataUpstream {
+  private readonly url: string;
+  private readonly createSocket: (url: string) => WebSocket;
+  private socket?: WebSocket;
+  private handlers: Map<string, Set<MarketDataStreamHandlers>> = new Map();
+
+  constructor(options: CoinbaseMarketStreamOptions = {}) {
+    this.url = options.url || process.env.COINBASE_WS_URL || 'wss://advanced-trade-ws.coinbase.com';
+    this.createSocket = options.createSocket ?? ((url) => new WebSocket(url));
+  }
+
+  supports(channel: StreamChannel): boolean {
+    return channel.type === 'ticker';
+  }
+
+  subscribe(channel: StreamChannel, handlers: MarketDataStreamHandlers): () => void {
+    const productId = channel.symbol!.replace('/', '-');
+
+    let productHandlers = this.handlers.get(productId);
+    if (!productHandlers) {
+      productHandlers = new Set();
+      this.handlers.set(productId, productHandlers);
+      this.sendSubscription('subscribe', productId);
+    }
+    productHandlers.add(handlers);
+
+    return () => {
+      const current = this.handlers.get(productId);
+      if (!current?.delete(handlers) || current.size > 0) return;
+
+      this.handlers.delete(productId);
+      if (this.handlers.size === 0) {
+        this.close();
+      } else {
+        this.sendSubscription('unsubscribe', productId);
+      }
+    };
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on('error', () => {});
+      socket.close();
+    }
+  }
+
+  private sendSubscription(type: 'subscribe' | 'unsubscribe', productId: string): void {
+    const socket = this.connect();
+    const send = () => {
+      socket.send(JSON.stringify({ type, product_ids: [productId], channel: 'ticker' }));
+    };
+
+    if (socket.readyState === WebSocket.OPEN) {
+      send();
+    } else {
+      socket.once('open', send);
+    }
+  }
+
+  private connect(): WebSocket {
+    if (this.socket) return this.socket;
+
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    // Coinbase closes idle connections; the heartbeats channel keeps this one alive
+    socket.once('open', () => {
+      socket.send(JSON.stringify({ type: 'subscribe', channel: 'heartbeats' }));
+    });
+    socket.on('message', (raw) => this.handleMessage(raw.toString()));
+    socket.on('error', (error) => this.fail(socket, error));
+    socket.on('close', () => this.fail(socket, new Error('Coinbase stream closed')));
+
+    return socket;
+  }
+
+  private fail(socket: WebSocket, error: Error): void {
+    if (this.socket !== socket) return;
+
+    const handlers = Array.from(this.handlers.values()).flatMap((set) => Array.from(set));
+    this.handlers.clear();
+    this.close();
+    for (const handler of handlers) {
+      handler.onError(error);
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (message.channel !== 'ticker' || !Array.isArray(message.events)) return;
+
+    const timestamp = message.timestamp ? new Date(message.timestamp).getTime() : Date.now();
+    for (const event of message.events) {
+      for (const ticker of event.tickers || []) {
+        const handlers = this.handlers.get(ticker.product_id);
+        if (!handlers) continue;
+
+        const update = this.toTickerUpdate(ticker, timestamp);
+        for (const handler of handlers) {
+          handler.onData(update);
+        }
+      }
+    }
+  }
+
+  private toTickerUpdate(ticker: any, timestamp: number): MarketTickerUpdate {
+    const price = parseFloat(ticker.price) || 0;
+    const changePercent24h = parseFloat(ticker.price_percent_chg_24_h) || 0;
+    // Price 24h ago from the reported percentage change
+    const open24h = price / (1 + changePercent24h / 100);
+
+    return {
+      symbol: ticker.product_id.replace('-', '/'),
+      price,
+      bid: parseFloat(ticker.best_bid) || 0,
+      ask: parseFloat(ticker.best_ask) || 0,
+      change24h: parseFloat((price - open24h).toFixed(2)),
+      changePercent24h: parseFloat(changePercent24h.toFixed(2)),
+      high24h: parseFloat(ticker.high_24_h) || 0,
+      low24h: parseFloat(ticker.low_24_h) || 0,
+      volume24h: parseFloat(ticker.volume_24_h) || 0,
+      timestamp,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { KrakenAdapter } from './KrakenAdapter';
 import type { ExchangeAdapterContext } from '../ExchangeService';
+import * as fixtures from '../../../tests/fixtures/exchanges/kraken';
 
 describe('KrakenAdapter', () => {
   const originalFetch = globalThis.fetch;
@@ -57,6 +58,143 @@ describe('KrakenAdapter', () => {
     expect(ticker.volume).toBe(1234.56);
   });
 
+  describe('private order endpoints', () => {
+    const ctx: ExchangeAdapterContext = {
+      connectionId: 'conn-1',
+      userId: 'user-1',
+      exchange: 'kraken',
+      apiKey: 'kraken-key',
+      apiSecret: 'kQH5HW/8p1uGOVjbgWA7FunAmGO8lsSUXNsu3eow76sz84Q18fWxnyRzBHCd3pd5nE9qa99HAZtuZuj6F1huXg==',
+    };
+
+    const respond = (body: unknown) => ({ ok: true, json: async () => body });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_sign_add_order_with_nonce_and_map_the_pair', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1616492376594);
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.addOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new KrakenAdapter({ baseUrl: 'https://api.kraken.com' });
+      const result = await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'limit', quantity: 1.25, price: 37500,
+      });
+
+      expect(result).toEqual({ success: true, orderId: 'OUF4EM-FRGI2-MQMWZD', clientOrderId: undefined });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.kraken.com/0/private/AddOrder');
+      expect(init.body).toBe('nonce=1616492376594&ordertype=limit&pair=XBTUSD&price=37500&type=buy&volume=1.25');
+      // Signature from the Kraken REST API documentation for this key, nonce and body
+      expect(init.headers).toMatchObject({
+        'API-Key': 'kraken-key',
+        'API-Sign': '4/dpxb3iT4tp/ZCVEwSnEsLxx0bqyhLpdfOpc6fn7OR8+UClSV5n9E6aSS8MPtnRfp32bAb0nmbRn6H8ndwLUQ==',
+      });
+    });
+
+    it('should_keep_nonces_increasing_within_the_same_millisecond', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1700000000000);
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(respond(fixtures.cancelOrderResponse))
+        .mockResolvedValueOnce(respond(fixtures.cancelOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      await new KrakenAdapter().cancelOrder(ctx, 'OUF4EM-FRGI2-MQMWZD');
+      await new KrakenAdapter().cancelOrder(ctx, 'OUF4EM-FRGI2-MQMWZD');
+
+      const nonces = fetchMock.mock.calls.map(call => new URLSearchParams(call[1].body).get('nonce'));
+      expect(nonces).toEqual(['1700000000000', '1700000000001']);
+    });
+
+    it('should_map_stop_limits_and_good_till_date_orders', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.addOrderResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new KrakenAdapter({ baseUrl: 'https://api.kraken.com' });
+      await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD',
+        side: 'sell',
+        type: 'stop_limit',
+        quantity: 0.5,
+        stopPrice: 36000,
+        price: 35900,
+        timeInForce: 'DAY',
+        expiresAt: new Date('2030-01-01T00:00:00Z'),
+        clientOrderId: 'client-1',
+      });
+
+      const body = new URLSearchParams(fetchMock.mock.calls[0][1].body);
+      expect(Object.fromEntries(body)).toMatchObject({
+        ordertype: 'stop-loss-limit',
+        price: '36000',
+        price2: '35900',
+        timeinforce: 'GTD',
+        expiretm: String(Date.UTC(2030, 0, 1) / 1000),
+        cl_ord_id: 'client-1',
+      });
+
+      expect(await adapter.createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'limit', quantity: 0.5, price: 37500, timeInForce: 'FOK',
+      })).toEqual({ success: false, error: 'Kraken spot orders do not support FOK' });
+    });
+
+    it('should_surface_exchange_errors', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.insufficientFundsResponse)) as any;
+
+      const result = await new KrakenAdapter().createOrder(ctx, {
+        symbol: 'BTC/USD', side: 'buy', type: 'market', quantity: 0.5,
+      });
+
+      expect(result).toEqual({ success: false, error: 'Kraken API error: EOrder:Insufficient funds' });
+    });
+
+    it('should_throw_when_listing_orders_fails', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(respond(fixtures.insufficientFundsResponse)) as any;
+
+      const adapter = new KrakenAdapter();
+
+      await expect(adapter.getOpenOrders(ctx)).rejects.toThrow('Kraken API error');
+      await expect(adapter.getOrderHistory(ctx)).rejects.toThrow('Kraken API error');
+    });
+
+    it('should_query_and_list_orders_for_a_symbol', async () => {
+      globalThis.fetch = vi.fn()
+        .mockResolvedValueOnce(respond(fixtures.queryOrdersResponse))
+        .mockResolvedValueOnce(respond(fixtures.openOrdersResponse))
+        .mockResolvedValueOnce(respond(fixtures.closedOrdersResponse)) as any;
+
+      const adapter = new KrakenAdapter();
+
+      expect(await adapter.getOrder(ctx, 'OUF4EM-FRGI2-MQMWZD')).toEqual({
+        orderId: 'OUF4EM-FRGI2-MQMWZD',
+        clientOrderId: 'client-1',
+        productId: 'XBTUSD',
+        side: 'BUY',
+        type: 'LIMIT',
+        status: 'OPEN',
+        filledSize: '0.375',
+        filledValue: '14062.5',
+        averageFilledPrice: '37500',
+        totalFees: '22.5',
+        createdTime: new Date(1616665496780.8).toISOString(),
+      });
+
+      const open = await adapter.getOpenOrders(ctx, 'BTC/USD');
+      expect(open.map(o => o.orderId)).toEqual(['OUF4EM-FRGI2-MQMWZD']);
+
+      const history = await adapter.getOrderHistory(ctx, undefined, 10);
+      expect(history.map(o => [o.orderId, o.type, o.status])).toEqual([
+        ['OGTT3Y-C6I3P-XRI6HX', 'MARKET', 'FILLED'],
+        ['O37652-RJWRT-IMO74O', 'LIMIT', 'CANCELLED'],
+      ]);
+    });
+  });
+
   afterAll(() => {
     globalThis.fetch = originalFetch;
   });
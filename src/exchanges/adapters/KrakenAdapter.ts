@@ -1,12 +1,20 @@
 /**
  * KrakenAdapter - ExchangeAdapter implementation for Kraken (spot)
  *
- * Read-only implementation using Kraken's public REST API. Private trading
- * endpoints can be added later.
+ * Market data uses Kraken's public REST API. Private endpoints are POSTed as
+ * form data with an increasing nonce and signed with
+ * HMAC-SHA512(path + SHA256(nonce + body)) keyed by the base64-decoded secret.
+ *
+ * PRIVATE ENDPOINTS:
+ * - POST /0/private/AddOrder - Place orders
+ * - POST /0/private/CancelOrder - Cancel an order
+ * - POST /0/private/QueryOrders - Query orders by transaction ID
+ * - POST /0/private/OpenOrders - Open orders
+ * - POST /0/private/ClosedOrders - Order history
  */
 
+import * as crypto from 'crypto';
 import {
-  ExchangeAdapter,
   ExchangeAdapterContext,
   Ticker,
   OrderBook,
@@ -17,6 +25,10 @@ import {
   SymbolLimits,
   OrderValidation,
   OrderCost,
+  OrderExecutionAdapter,
+  ExchangeOrder,
+  ExchangeOrderParams,
+  ExchangeOrderResult,
 } from '../ExchangeService';
 
 export interface KrakenAdapterOptions {
@@ -24,7 +36,24 @@ export interface KrakenAdapterOptions {
   timeoutMs?: number;
 }
 
-export class KrakenAdapter implements ExchangeAdapter {
+// Kraken's names for assets whose common ticker differs
+const KRAKEN_ASSETS: Record<string, string> = {
+  BTC: 'XBT',
+  DOGE: 'XDG',
+};
+
+const ORDER_STATUSES: Record<string, string> = {
+  pending: 'PENDING',
+  open: 'OPEN',
+  closed: 'FILLED',
+  canceled: 'CANCELLED',
+  expired: 'EXPIRED',
+};
+
+// Nonces must increase per API key, across every adapter instance using it
+const lastNonces = new Map<string, number>();
+
+export class KrakenAdapter implements OrderExecutionAdapter {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
 
@@ -37,8 +66,17 @@ export class KrakenAdapter implements ExchangeAdapter {
   }
 
   private toKrakenPair(symbol: string): string {
-    // Basic conversion: "BTC/USDT" -> "BTCUSDT". Real mapping may be more complex.
-    return symbol.replace('/', '');
+    // "BTC/USD" -> "XBTUSD"
+    return symbol
+      .split('/')
+      .map(asset => KRAKEN_ASSETS[asset] || asset)
+      .join('');
+  }
+
+  private nextNonce(apiKey: string): number {
+    const nonce = Math.max(Date.now(), (lastNonces.get(apiKey) ?? 0) + 1);
+    lastNonces.set(apiKey, nonce);
+    return nonce;
   }
 
   private async getJson(path: string, params?: Record<string, string>): Promise<any> {
@@ -75,6 +113,73 @@ export class KrakenAdapter implements ExchangeAdapter {
     }
   }
 
+  /**
+   * Make a signed request to a private endpoint
+   */
+  private async privateRequest(
+    path: string,
+    ctx: ExchangeAdapterContext,
+    params: Record<string, string> = {},
+  ): Promise<any> {
+    const nonce = String(this.nextNonce(ctx.apiKey!));
+    const body = new URLSearchParams({ nonce, ...params }).toString();
+    const hash = crypto.createHash('sha256').update(nonce + body).digest();
+    const signature = crypto
+      .createHmac('sha512', Buffer.from(ctx.apiSecret!, 'base64'))
+      .update(Buffer.concat([Buffer.from(path), hash]))
+      .digest('base64');
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(new URL(path, this.baseUrl).toString(), {
+        method: 'POST',
+        headers: {
+          'API-Key': ctx.apiKey!,
+          'API-Sign': signature,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(
+          `Kraken API error: HTTP ${response.status} ${response.statusText} ${errorText}`,
+        );
+      }
+
+      const json = await response.json();
+      if (json.error && json.error.length) {
+        throw new Error(`Kraken API error: ${json.error.join(', ')}`);
+      }
+      return json.result;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private toExchangeOrder(txid: string, order: any): ExchangeOrder {
+    const filledSize = parseFloat(order.vol_exec || '0');
+    const ordertype = order.descr.ordertype;
+
+    return {
+      orderId: txid,
+      clientOrderId: order.cl_ord_id || (order.userref ? String(order.userref) : ''),
+      productId: order.descr.pair,
+      side: order.descr.type === 'buy' ? 'BUY' : 'SELL',
+      type: ordertype === 'market' ? 'MARKET' : ordertype === 'limit' ? 'LIMIT' : 'STOP_LIMIT',
+      status: ORDER_STATUSES[order.status] || order.status,
+      filledSize: String(filledSize),
+      filledValue: String(parseFloat(order.cost || '0')),
+      averageFilledPrice: String(parseFloat(order.price || '0')),
+      totalFees: String(parseFloat(order.fee || '0')),
+      createdTime: new Date(order.opentm * 1000).toISOString(),
+    };
+  }
+
   async getTicker(ctx: ExchangeAdapterContext, symbol: string): Promise<Ticker> {
     const pair = this.toKrakenPair(symbol);
     const data = await this.getJson('/0/public/Ticker', { pair });
@@ -129,11 +234,17 @@ export class KrakenAdapter implements ExchangeAdapter {
     symbol: string,
     timeframe: string,
     limit: number,
+    since?: number,
   ): Promise<OHLCV[]> {
     const pair = this.toKrakenPair(symbol);
     const interval = this.timeframeToMinutes(timeframe);
-    const data = await this.getJson('/0/public/OHLC', { pair, interval: interval.toString() });
-    const key = Object.keys(data)[0];
+    const params: Record<string, string> = { pair, interval: interval.toString() };
+    if (since !== undefined) {
+      // Kraken's since is exclusive and in seconds
+      params.since = String(Math.floor(since / 1000) - 1);
+    }
+    const data = await this.getJson('/0/public/OHLC', params);
+    const key = Object.keys(data).filter(k => k !== 'last')[0];
     const candles = data[key];
 
     return candles.slice(0, limit).map((candle: any[]): OHLCV => ({
@@ -237,5 +348,182 @@ export class KrakenAdapter implements ExchangeAdapter {
       total: params.side === 'buy' ? subtotal + fee : subtotal - fee,
     };
   }
+
+  /**
+   * Place an order
+   * PRIVATE ENDPOINT - Requires API key and secret
+   */
+  async createOrder(
+    ctx: ExchangeAdapterContext,
+    params: ExchangeOrderParams,
+  ): Promise<ExchangeOrderResult> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return { success: false, error: 'API credentials required for trading' };
+    }
+
+    const validation = await this.validateOrderParams(ctx, params);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+
+    const timeInForce = params.timeInForce ?? 'GTC';
+    if (timeInForce === 'FOK') {
+      return { success: false, error: 'Kraken spot orders do not support FOK' };
+    }
+    if (params.reduceOnly) {
+      return { success: false, error: 'Kraken spot orders do not support reduce-only' };
+    }
+    if (params.postOnly && (params.type !== 'limit' || timeInForce === 'IOC')) {
+      return { success: false, error: 'Kraken post-only orders must be resting limit orders' };
+    }
+
+    // Kraken takes a stop-limit's trigger as price and its limit as price2
+    const prices: Record<string, string> = {};
+    let ordertype: string;
+    if (params.type === 'market') {
+      ordertype = 'market';
+    } else if (params.type === 'limit') {
+      ordertype = 'limit';
+      prices.price = params.price!.toString();
+    } else if (params.type === 'stop_limit') {
+      ordertype = 'stop-loss-limit';
+      prices.price = params.stopPrice!.toString();
+      prices.price2 = params.price!.toString();
+    } else {
+      return { success: false, error: `Unsupported order type: ${params.type}` };
+    }
+
+    const orderParams: Record<string, string> = {
+      ordertype,
+      pair: this.toKrakenPair(params.symbol),
+      ...prices,
+      type: params.side,
+      volume: params.quantity.toString(),
+    };
+
+    // Kraken has no day orders; they are sent as GTD with the day's end time
+    if (timeInForce === 'GTD' || timeInForce === 'DAY') {
+      if (!params.expiresAt) {
+        return { success: false, error: `${timeInForce} orders require an expiry time` };
+      }
+      orderParams.timeinforce = 'GTD';
+      orderParams.expiretm = String(Math.floor(params.expiresAt.getTime() / 1000));
+    } else if (timeInForce === 'IOC') {
+      orderParams.timeinforce = 'IOC';
+    }
+
+    if (params.postOnly) {
+      orderParams.oflags = 'post';
+    }
+
+    if (params.clientOrderId) {
+      orderParams.cl_ord_id = params.clientOrderId;
+    }
+
+    try {
+      const result = await this.privateRequest('/0/private/AddOrder', ctx, orderParams);
+
+      return {
+        success: true,
+        orderId: result.txid[0],
+        clientOrderId: params.clientOrderId,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to create order',
+      };
+    }
+  }
+
+  /**
+   * Cancel an order by transaction ID
+   * PRIVATE ENDPOINT - Requires API key and secret
+   */
+  async cancelOrder(
+    ctx: ExchangeAdapterContext,
+    orderId: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return { success: false, error: 'API credentials required' };
+    }
+
+    try {
+      const result = await this.privateRequest('/0/private/CancelOrder', ctx, { txid: orderId });
+      if (result.count > 0) {
+        return { success: true };
+      }
+      return { success: false, error: 'Cancel failed' };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel order',
+      };
+    }
+  }
+
+  /**
+   * Get order by transaction ID
+   * PRIVATE ENDPOINT - Requires API key and secret
+   */
+  async getOrder(
+    ctx: ExchangeAdapterContext,
+    orderId: string,
+  ): Promise<ExchangeOrder | null> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return null;
+    }
+
+    try {
+      const result = await this.privateRequest('/0/private/QueryOrders', ctx, { txid: orderId });
+      const order = result[orderId];
+      return order ? this.toExchangeOrder(orderId, order) : null;
+    } catch (error) {
+      console.error('Failed to get order:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get open orders
+   * PRIVATE ENDPOINT - Requires API key and secret
+   */
+  async getOpenOrders(
+    ctx: ExchangeAdapterContext,
+    symbol?: string,
+  ): Promise<ExchangeOrder[]> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return [];
+    }
+
+    const result = await this.privateRequest('/0/private/OpenOrders', ctx);
+    return this.toExchangeOrders(result.open, symbol);
+  }
+
+  /**
+   * Get order history, newest first
+   * PRIVATE ENDPOINT - Requires API key and secret
+   */
+  async getOrderHistory(
+    ctx: ExchangeAdapterContext,
+    symbol?: string,
+    limit: number = 100,
+  ): Promise<ExchangeOrder[]> {
+    if (!ctx.apiKey || !ctx.apiSecret) {
+      return [];
+    }
+
+    const result = await this.privateRequest('/0/private/ClosedOrders', ctx);
+    return this.toExchangeOrders(result.closed, symbol).slice(0, limit);
+  }
+
+  private toExchangeOrders(orders: Record<string, any> = {}, symbol?: string): ExchangeOrder[] {
+    // Kraken filters private order lists by time, not pair
+    const pair = symbol ? this.toKrakenPair(symbol) : undefined;
+    return Object.entries(orders)
+      .map(([txid, order]) => this.toExchangeOrder(txid, order))
+      .filter(order => !pair || order.productId === pair)
+      .sort((a, b) => b.createdTime.localeCompare(a.createdTime));
+  }
 }
 
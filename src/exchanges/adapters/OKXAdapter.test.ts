@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import * as crypto from 'crypto';
+import { OKXAdapter } from './OKXAdapter';
+import type { ExchangeAdapterContext } from '../ExchangeService';
+import * as fixtures from '../../../tests/fixtures/exchanges/okx';
+
+describe('OKXAdapter', () => {
+  const originalFetch = globalThis.fetch;
+  const ctx: ExchangeAdapterContext = {
+    connectionId: 'conn-1',
+    userId: 'user-1',
+    exchange: 'okx',
+  };
+
+  const respond = (body: unknown) => ({ ok: true, json: async () => body });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should_map_the_ticker_and_order_book', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(fixtures.tickerResponse))
+      .mockResolvedValueOnce(respond(fixtures.booksResponse));
+    globalThis.fetch = fetchMock as any;
+
+    const adapter = new OKXAdapter();
+    const ticker = await adapter.getTicker(ctx, 'BTC/USDT');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://www.okx.com/api/v5/market/ticker?instId=BTC-USDT');
+    expect(ticker).toEqual({
+      symbol: 'BTC/USDT',
+      bid: 8888.88,
+      ask: 9999.99,
+      last: 9999.99,
+      high: 10000,
+      low: 8888.88,
+      volume: 2222,
+      timestamp: 1597026383085,
+    });
+
+    const book = await adapter.getOrderBook(ctx, 'BTC/USDT');
+    expect(book.bids[0]).toEqual({ price: 41006.3, quantity: 0.30178218 });
+    expect(book.asks.map(a => a.price)).toEqual([41006.8, 41007]);
+  });
+
+  it('should_return_candles_oldest_first_and_page_history_from_a_start_time', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(fixtures.candlesResponse))
+      .mockResolvedValueOnce(respond(fixtures.candlesResponse));
+    globalThis.fetch = fetchMock as any;
+
+    const adapter = new OKXAdapter();
+    const candles = await adapter.getOHLCV(ctx, 'BTC/USDT', '1m', 2);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://www.okx.com/api/v5/market/candles?instId=BTC-USDT&bar=1m&limit=2');
+    expect(candles.map(c => [c.timestamp, c.open, c.close])).toEqual([
+      [1597026383085, 3.731, 3.72],
+      [1597026443085, 3.721, 3.708],
+    ]);
+
+    await adapter.getOHLCV(ctx, 'BTC/USDT', '1d', 5, 1597026383085);
+    const url = new URL(fetchMock.mock.calls[1][0]);
+    expect(url.pathname).toBe('/api/v5/market/history-candles');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      bar: '1Dutc',
+      after: String(1597026383085 + 5 * 86_400_000),
+      before: String(1597026383084),
+    });
+  });
+
+  it('should_list_live_symbols_and_derive_symbol_limits', async () => {
+    globalThis.fetch = vi.fn()
+      .mockResolvedValueOnce(respond(fixtures.instrumentsResponse))
+      .mockResolvedValueOnce(respond(fixtures.instrumentsResponse)) as any;
+
+    const adapter = new OKXAdapter();
+
+    expect(await adapter.getSymbols(ctx)).toEqual(['BTC/USDT']);
+    expect(await adapter.getSymbolLimits(ctx, 'BTC/USDT')).toEqual({
+      minQuantity: 0.00001,
+      maxQuantity: 9999999999,
+      minPrice: 0.1,
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      minNotional: 0,
+      quantityPrecision: 8,
+      pricePrecision: 1,
+    });
+  });
+
+  describe('perpetual swaps', () => {
+    it('should_map_swap_contract_specs_with_contract_value', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.swapInstrumentsResponse));
+      globalThis.fetch = fetchMock as any;
+
+      expect(await new OKXAdapter().getContractSpec(ctx, 'BTC/USDT:USDT')).toEqual({
+        symbol: 'BTC/USDT:USDT',
+        type: 'perpetual',
+        base: 'BTC',
+        quote: 'USDT',
+        settle: 'USDT',
+        contractSize: 0.01,
+        tickSize: 0.1,
+        lotSize: 1,
+        minQuantity: 1,
+        maxLeverage: 125,
+        fundingIntervalHours: 8,
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://www.okx.com/api/v5/public/instruments?instType=SWAP&instId=BTC-USDT-SWAP',
+      );
+    });
+
+    it('should_return_realized_funding_oldest_first', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.fundingRateHistoryResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const funding = await new OKXAdapter().getFundingRateHistory(ctx, 'BTC/USDT:USDT', 2, 1703203200000);
+
+      expect(funding).toEqual([
+        { symbol: 'BTC/USDT:USDT', rate: -0.00003, timestamp: 1703203200000 },
+        { symbol: 'BTC/USDT:USDT', rate: 0.0001, timestamp: 1703232000000 },
+      ]);
+      expect(Object.fromEntries(new URL(fetchMock.mock.calls[0][0]).searchParams)).toEqual({
+        instId: 'BTC-USDT-SWAP',
+        limit: '2',
+        after: String(1703203200000 + 2 * 8 * 3_600_000),
+        before: '1703203199999',
+      });
+    });
+
+    it('should_combine_mark_index_and_funding_rate', async () => {
+      const responses: Record<string, unknown> = {
+        '/api/v5/public/mark-price': fixtures.markPriceResponse,
+        '/api/v5/market/index-tickers': fixtures.indexTickersResponse,
+        '/api/v5/public/funding-rate': fixtures.fundingRateResponse,
+      };
+      globalThis.fetch = vi.fn(async (url: string) => respond(responses[new URL(url).pathname])) as any;
+
+      expect(await new OKXAdapter().getMarkPrice(ctx, 'BTC/USDT:USDT')).toEqual({
+        symbol: 'BTC/USDT:USDT',
+        markPrice: 43652.4,
+        indexPrice: 43650.1,
+        fundingRate: 0.00012,
+        nextFundingTime: 1703260800000,
+        timestamp: 1703236052300,
+      });
+    });
+  });
+
+  describe('signed account endpoints', () => {
+    const signedCtx: ExchangeAdapterContext = {
+      ...ctx,
+      apiKey: 'okx-key',
+      apiSecret: 'okx-secret',
+      passphrase: 'okx-passphrase',
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_sign_balance_requests_with_the_passphrase', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2020-12-08T09:08:57.715Z'));
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.balanceResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const balance = await new OKXAdapter().getBalance(signedCtx);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://www.okx.com/api/v5/account/balance');
+      expect(init.headers).toEqual({
+        'OK-ACCESS-KEY': 'okx-key',
+        'OK-ACCESS-SIGN': crypto
+          .createHmac('sha256', 'okx-secret')
+          .update('2020-12-08T09:08:57.715ZGET/api/v5/account/balance')
+          .digest('base64'),
+        'OK-ACCESS-TIMESTAMP': '2020-12-08T09:08:57.715Z',
+        'OK-ACCESS-PASSPHRASE': 'okx-passphrase',
+      });
+
+      expect(balance.assets).toEqual([
+        { asset: 'BTC', total: 1.5, free: 1.25, used: 0.25 },
+        { asset: 'USDT', total: 3000, free: 3000, used: 0 },
+      ]);
+    });
+
+    it('should_turn_negative_commission_rates_into_fees', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(respond(fixtures.tradeFeeResponse));
+      globalThis.fetch = fetchMock as any;
+
+      const adapter = new OKXAdapter();
+
+      expect(await adapter.getTradingFees(signedCtx)).toEqual({ maker: 0.0008, taker: 0.001 });
+      expect(fetchMock.mock.calls[0][0]).toBe('https://www.okx.com/api/v5/account/trade-fee?instType=SPOT');
+
+      const cost = await adapter.calculateOrderCost(ctx, { symbol: 'BTC/USDT', side: 'buy', quantity: 2, price: 100 });
+      expect(cost).toEqual({ subtotal: 200, fee: 0.2, total: 200.2 });
+    });
+
+    it('should_require_a_passphrase_and_surface_api_errors', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValueOnce(respond(fixtures.invalidSignResponse)) as any;
+
+      const adapter = new OKXAdapter();
+
+      await expect(adapter.getBalance(signedCtx)).rejects.toThrow('OKX API error: Invalid Sign');
+      await expect(adapter.getBalance({ ...signedCtx, passphrase: undefined })).rejects.toThrow(
+        'API credentials and passphrase required',
+      );
+    });
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * OKXAdapter - ExchangeAdapter implementation for OKX (spot and perpetual
+ * swaps, V5 API)
+ *
+ * Market data uses OKX's public V5 endpoints with instrument IDs such as
+ * "BTC-USDT", or "BTC-USDT-SWAP" for the perpetual "BTC/USDT:USDT". Swap
+ * quantities are in contracts of ctVal base units. Account endpoints are signed: base64 HMAC-SHA256 of
+ * timestamp + method + requestPath (with query) + body, sent in the
+ * OK-ACCESS-SIGN header with the key, ISO timestamp and API passphrase.
+ *
+ * SIGNED ENDPOINTS:
+ * - GET /api/v5/account/balance - Balances
+ * - GET /api/v5/account/trade-fee - Maker/taker fee rates
+ */
+
+import * as crypto from 'crypto';
+import {
+  PerpetualMarketAdapter,
+  ExchangeAdapterContext,
+  Ticker,
+  OrderBook,
+  OrderBookEntry,
+  OHLCV,
+  Balance,
+  TradingFees,
+  SymbolLimits,
+  OrderValidation,
+  OrderCost,
+  ContractSpec,
+  FundingRate,
+  MarkPrice,
+  parsePerpetualSymbol,
+} from '../ExchangeService';
+
+export interface OKXAdapterOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+// OKX swaps settle funding every 8 hours unless the instrument says otherwise
+const FUNDING_INTERVAL_MS = 8 * 3_600_000;
+
+// OKX bar sizes; 6h and longer use the UTC-aligned variants
+const BARS: Record<string, string> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6Hutc',
+  '12h': '12Hutc',
+  '1d': '1Dutc',
+  '1w': '1Wutc',
+};
+
+const BAR_MS: Record<string, number> = {
+  '1m': 60_000,
+  '3m': 180_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '30m': 1_800_000,
+  '1h': 3_600_000,
+  '2h': 7_200_000,
+  '4h': 14_400_000,
+  '6h': 21_600_000,
+  '12h': 43_200_000,
+  '1d': 86_400_000,
+  '1w': 604_800_000,
+};
+
+/**
+ * Number of decimals in a step size such as "0.00000001"
+ */
+function decimals(step: string): number {
+  const [, fraction = ''] = step.split('.');
+  return fraction.replace(/0+$/, '').length;
+}
+
+export class OKXAdapter implements PerpetualMarketAdapter {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: OKXAdapterOptions = {}) {
+    this.baseUrl =
+      options.baseUrl ||
+      process.env.OKX_BASE_URL ||
+      'https://www.okx.com';
+    this.timeoutMs = options.timeoutMs ?? 15_000;
+  }
+
+  private toInstId(symbol: string): string {
+    // "BTC/USDT" -> "BTC-USDT"
+    return symbol.replace('/', '-');
+  }
+
+  private toSwapInstId(symbol: string): string {
+    // "BTC/USDT:USDT" -> "BTC-USDT-SWAP", "BTC/USD:BTC" -> "BTC-USD-SWAP"
+    const { base, quote } = parsePerpetualSymbol(symbol);
+    return `${base}-${quote}-SWAP`;
+  }
+
+  private async getJson(
+    path: string,
+    params: Record<string, string> = {},
+    headers: Record<string, string> = {},
+  ): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const url = new URL(query ? `${path}?${query}` : path, this.baseUrl);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(
+          `OKX API error: HTTP ${response.status} ${response.statusText} ${errorText}`,
+        );
+      }
+
+      const json = await response.json();
+      if (json.code !== '0') {
+        throw new Error(`OKX API error: ${json.msg || `code ${json.code}`}`);
+      }
+      return json.data;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Make a signed GET request to an account endpoint
+   */
+  private async signedGet(
+    path: string,
+    ctx: ExchangeAdapterContext,
+    params: Record<string, string> = {},
+  ): Promise<any> {
+    if (!ctx.apiKey || !ctx.apiSecret || !ctx.passphrase) {
+      throw new Error('API credentials and passphrase required');
+    }
+
+    const timestamp = new Date().toISOString();
+    const query = new URLSearchParams(params).toString();
+    const requestPath = query ? `${path}?${query}` : path;
+    const signature = crypto
+      .createHmac('sha256', ctx.apiSecret)
+      .update(timestamp + 'GET' + requestPath)
+      .digest('base64');
+
+    return this.getJson(path, params, {
+      'OK-ACCESS-KEY': ctx.apiKey,
+      'OK-ACCESS-SIGN': signature,
+      'OK-ACCESS-TIMESTAMP': timestamp,
+      'OK-ACCESS-PASSPHRASE': ctx.passphrase,
+    });
+  }
+
+  async getTicker(ctx: ExchangeAdapterContext, symbol: string): Promise<Ticker> {
+    const data = await this.getJson('/api/v5/market/ticker', { instId: this.toInstId(symbol) });
+    const ticker = data[0];
+    if (!ticker) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+
+    return {
+      symbol,
+      bid: parseFloat(ticker.bidPx),
+      ask: parseFloat(ticker.askPx),
+      last: parseFloat(ticker.last),
+      high: parseFloat(ticker.high24h),
+      low: parseFloat(ticker.low24h),
+      // For spot, vol24h is in the base currency
+      volume: parseFloat(ticker.vol24h),
+      timestamp: Number(ticker.ts) || Date.now(),
+    };
+  }
+
+  async getOrderBook(ctx: ExchangeAdapterContext, symbol: string): Promise<OrderBook> {
+    const data = await this.getJson('/api/v5/market/books', {
+      instId: this.toInstId(symbol),
+      sz: '50',
+    });
+    const book = data[0];
+
+    // Levels are [price, size, deprecated, order count]
+    const bids: OrderBookEntry[] = book.bids.map((entry: string[]) => ({
+      price: parseFloat(entry[0]),
+      quantity: parseFloat(entry[1]),
+    }));
+
+    const asks: OrderBookEntry[] = book.asks.map((entry: string[]) => ({
+      price: parseFloat(entry[0]),
+      quantity: parseFloat(entry[1]),
+    }));
+
+    return {
+      symbol,
+      bids,
+      asks,
+      timestamp: Number(book.ts) || Date.now(),
+    };
+  }
+
+  async getOHLCV(
+    ctx: ExchangeAdapterContext,
+    symbol: string,
+    timeframe: string,
+    limit: number,
+    since?: number,
+  ): Promise<OHLCV[]> {
+    const params: Record<string, string> = {
+      instId: this.toInstId(symbol),
+      bar: BARS[timeframe] || '1H',
+      limit: String(Math.min(limit, 300)),
+    };
+
+    // Recent candles come from /candles; anything from a start time needs
+    // /history-candles, which pages backwards from `after` (exclusive)
+    let path = '/api/v5/market/candles';
+    if (since !== undefined) {
+      const barMs = BAR_MS[timeframe] || BAR_MS['1h'];
+      path = '/api/v5/market/history-candles';
+      params.after = String(since + limit * barMs);
+      params.before = String(since - 1);
+    }
+    const data = await this.getJson(path, params);
+
+    // OKX lists candles newest first: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+    return data
+      .map((candle: string[]): OHLCV => ({
+        timestamp: Number(candle[0]),
+        open: parseFloat(candle[1]),
+        high: parseFloat(candle[2]),
+        low: parseFloat(candle[3]),
+        close: parseFloat(candle[4]),
+        volume: parseFloat(candle[5]),
+      }))
+      .reverse();
+  }
+
+  async getSymbols(ctx: ExchangeAdapterContext): Promise<string[]> {
+    const instruments = await this.getJson('/api/v5/public/instruments', { instType: 'SPOT' });
+    return instruments
+      .filter((i: any) => i.state === 'live')
+      .map((i: any) => `${i.baseCcy}/${i.quoteCcy}`);
+  }
+
+  async getBalance(ctx: ExchangeAdapterContext): Promise<Balance> {
+    const data = await this.signedGet('/api/v5/account/balance', ctx);
+
+    const balance: Balance = { total: {}, free: {}, used: {}, assets: [] };
+    for (const detail of data[0]?.details ?? []) {
+      const total = parseFloat(detail.cashBal || detail.eq || '0');
+      const used = parseFloat(detail.frozenBal || '0');
+      const free = parseFloat(detail.availBal || String(total - used));
+      if (total === 0) continue;
+
+      balance.total[detail.ccy] = total;
+      balance.free[detail.ccy] = free;
+      balance.used[detail.ccy] = used;
+      balance.assets.push({ asset: detail.ccy, total, free, used });
+    }
+    return balance;
+  }
+
+  async getTradingFees(ctx: ExchangeAdapterContext): Promise<TradingFees> {
+    // Without keys, fall back to OKX's base spot tier
+    if (!ctx.apiKey || !ctx.apiSecret || !ctx.passphrase) {
+      return { maker: 0.0008, taker: 0.001 };
+    }
+
+    const data = await this.signedGet('/api/v5/account/trade-fee', ctx, { instType: 'SPOT' });
+    const rate = data[0];
+
+    // OKX reports commissions as negative numbers and rebates as positive ones
+    return {
+      maker: -parseFloat(rate?.maker ?? '-0.0008'),
+      taker: -parseFloat(rate?.taker ?? '-0.001'),
+    };
+  }
+
+  async getSymbolLimits(ctx: ExchangeAdapterContext, symbol: string): Promise<SymbolLimits> {
+    const data = await this.getJson('/api/v5/public/instruments', {
+      instType: 'SPOT',
+      instId: this.toInstId(symbol),
+    });
+    const instrument = data[0];
+    if (!instrument) {
+      throw new Error(`Symbol ${symbol} not found`);
+    }
+
+    return {
+      minQuantity: parseFloat(instrument.minSz),
+      maxQuantity: parseFloat(instrument.maxLmtSz),
+      minPrice: parseFloat(instrument.tickSz),
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      // OKX has no notional minimum for spot; minSz is the only floor
+      minNotional: 0,
+      quantityPrecision: decimals(instrument.lotSz),
+      pricePrecision: decimals(instrument.tickSz),
+    };
+  }
+
+  async validateOrderParams(
+    ctx: ExchangeAdapterContext,
+    params: { symbol: string; side: string; type: string; quantity: number; price?: number },
+  ): Promise<OrderValidation> {
+    const limits = await this.getSymbolLimits(ctx, params.symbol);
+
+    if (params.quantity < limits.minQuantity) {
+      return { valid: false, error: `Quantity below minimum (${limits.minQuantity})` };
+    }
+
+    if (params.quantity > limits.maxQuantity) {
+      return { valid: false, error: `Quantity above maximum (${limits.maxQuantity})` };
+    }
+
+    if (params.price && params.price < limits.minPrice) {
+      return { valid: false, error: `Price below minimum (${limits.minPrice})` };
+    }
+
+    return { valid: true };
+  }
+
+  async calculateOrderCost(
+    ctx: ExchangeAdapterContext,
+    params: { symbol: string; side: string; quantity: number; price: number },
+  ): Promise<OrderCost> {
+    const fees = await this.getTradingFees(ctx);
+    const subtotal = params.quantity * params.price;
+    const fee = subtotal * fees.taker;
+
+    return {
+      subtotal,
+      fee,
+      total: params.side === 'buy' ? subtotal + fee : subtotal - fee,
+    };
+  }
+
+  // ============================================================================
+  // Perpetual Swaps (instType=SWAP)
+  // ============================================================================
+
+  async getContractSpec(ctx: ExchangeAdapterContext, symbol: string): Promise<ContractSpec> {
+    const { base, quote, settle } = parsePerpetualSymbol(symbol);
+    const data = await this.getJson('/api/v5/public/instruments', {
+      instType: 'SWAP',
+      instId: this.toSwapInstId(symbol),
+    });
+    const instrument = data[0];
+    if (!instrument || instrument.settleCcy !== settle) {
+      throw new Error(`Perpetual ${symbol} not found`);
+    }
+    if (instrument.ctValCcy !== base) {
+      // Inverse swaps are denominated in the quote currency per contract
+      throw new Error(`Only base-denominated contracts are supported on OKX, got ${symbol}`);
+    }
+
+    return {
+      symbol,
+      type: 'perpetual',
+      base,
+      quote,
+      settle,
+      contractSize: parseFloat(instrument.ctVal),
+      tickSize: parseFloat(instrument.tickSz),
+      lotSize: parseFloat(instrument.lotSz),
+      minQuantity: parseFloat(instrument.minSz),
+      maxLeverage: parseFloat(instrument.lever),
+      fundingIntervalHours: FUNDING_INTERVAL_MS / 3_600_000,
+    };
+  }
+
+  async getFundingRateHistory(
+    ctx: ExchangeAdapterContext,
+    symbol: string,
+    limit: number,
+    since?: number,
+  ): Promise<FundingRate[]> {
+    const params: Record<string, string> = {
+      instId: this.toSwapInstId(symbol),
+      limit: String(Math.min(limit, 100)),
+    };
+    if (since !== undefined) {
+      // Same backwards paging as history-candles
+      params.after = String(since + limit * FUNDING_INTERVAL_MS);
+      params.before = String(since - 1);
+    }
+    const data = await this.getJson('/api/v5/public/funding-rate-history', params);
+
+    // Newest first; realizedRate is what was actually settled
+    return data
+      .map((entry: any): FundingRate => ({
+        symbol,
+        rate: parseFloat(entry.realizedRate || entry.fundingRate),
+        timestamp: Number(entry.fundingTime),
+      }))
+      .reverse();
+  }
+
+  async getMarkPrice(ctx: ExchangeAdapterContext, symbol: string): Promise<MarkPrice> {
+    const instId = this.toSwapInstId(symbol);
+    const { base, quote } = parsePerpetualSymbol(symbol);
+    const [mark, index, funding] = await Promise.all([
+      this.getJson('/api/v5/public/mark-price', { instType: 'SWAP', instId }),
+      this.getJson('/api/v5/market/index-tickers', { instId: `${base}-${quote}` }),
+      this.getJson('/api/v5/public/funding-rate', { instId }),
+    ]);
+    if (!mark[0]) {
+      throw new Error(`Perpetual ${symbol} not found`);
+    }
+
+    return {
+      symbol,
+      markPrice: parseFloat(mark[0].markPx),
+      indexPrice: parseFloat(index[0]?.idxPx),
+      fundingRate: parseFloat(funding[0]?.fundingRate),
+      // fundingTime is the upcoming settlement; nextFundingTime is the one after it
+      nextFundingTime: Number(funding[0]?.fundingTime),
+      timestamp: Number(mark[0].ts) || Date.now(),
+    };
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExecutionAlgorithmService, exchangeVenue, paperVenue } from './ExecutionAlgorithmService';
+import type { ChildOrderRequest } from './ExecutionAlgorithmService';
+import { PaperTradingEngine } from '../trading/PaperTradingEngine';
+import type { ExchangeAdapterContext, ExchangeOrder, OrderExecutionAdapter } from '../exchanges/ExchangeService';
+
+const T0 = new Date('2024-03-01T00:30:00Z');
+const MINUTE = 60_000;
+
+describe('ExecutionAlgorithmService', () => {
+  let service: ExecutionAlgorithmService;
+  let engine: PaperTradingEngine;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+    service = new ExecutionAlgorithmService({ tickIntervalMs: 1000 });
+    engine = new PaperTradingEngine({ initialBalance: { USDT: 100000 } });
+    engine.setMockPrice('BTC/USDT', 50000);
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  describe('TWAP', () => {
+    it('should_send_equal_slices_on_schedule_and_report_progress', async () => {
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'paper', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, durationMs: 5 * MINUTE, slices: 5 },
+        paperVenue(engine)
+      );
+
+      expect(algo.children).toHaveLength(1);
+      expect(algo.children[0]).toMatchObject({ sliceIndex: 0, quantity: 0.2, status: 'filled', filledQuantity: 0.2 });
+
+      await vi.advanceTimersByTimeAsync(2 * MINUTE);
+      expect(await service.getProgress('user-1', algo.id)).toEqual({
+        id: algo.id,
+        type: 'twap',
+        status: 'running',
+        quantity: 1,
+        filledQuantity: expect.closeTo(0.6),
+        remainingQuantity: expect.closeTo(0.4),
+        percentComplete: expect.closeTo(60),
+        averagePrice: 50000,
+        slicesSent: 3,
+        slicesTotal: 5,
+        nextSliceAt: new Date(T0.getTime() + 3 * MINUTE),
+        openOrders: 0,
+        error: undefined,
+      });
+
+      await vi.advanceTimersByTimeAsync(2 * MINUTE);
+      expect(algo.status).toBe('completed');
+      expect(algo.children.map(c => Number(c.quantity.toFixed(8)))).toEqual([0.2, 0.2, 0.2, 0.2, 0.2]);
+      expect(engine.getPositions()['BTC'].quantity).toBeCloseTo(1);
+    });
+
+    it('should_pause_and_shift_remaining_slices_by_the_paused_time', async () => {
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'paper', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 0.3, durationMs: 3 * MINUTE, slices: 3 },
+        paperVenue(engine)
+      );
+
+      await service.pause('user-1', algo.id);
+      await vi.advanceTimersByTimeAsync(5 * MINUTE);
+      expect(algo.children).toHaveLength(1);
+      await expect(service.pause('user-1', algo.id)).rejects.toThrow('Cannot pause a paused execution algorithm');
+
+      await service.resume('user-1', algo.id);
+      expect((await service.getProgress('user-1', algo.id)).nextSliceAt).toEqual(new Date(T0.getTime() + 6 * MINUTE));
+
+      await vi.advanceTimersByTimeAsync(MINUTE);
+      expect(algo.children).toHaveLength(2);
+
+      await service.cancel('user-1', algo.id);
+      expect(algo.status).toBe('cancelled');
+      expect(algo.filledQuantity).toBeCloseTo(0.2);
+      await expect(service.resume('user-1', algo.id)).rejects.toThrow('Only paused execution algorithms can be resumed');
+      await expect(service.getAlgorithm('user-2', algo.id)).rejects.toThrow('Execution algorithm not found');
+    });
+  });
+
+  describe('VWAP', () => {
+    it('should_weight_slices_by_the_hourly_volume_profile', async () => {
+      // Two days of history: 00:00 UTC trades 100 per hour, 01:00 UTC trades 300
+      const candles = [0, 1, 24, 25].map(hour => ({
+        timestamp: Date.UTC(2024, 1, 28, hour),
+        open: 50000, high: 50000, low: 50000, close: 50000,
+        volume: hour % 24 === 0 ? 100 : 300,
+      }));
+      const getOHLCV = vi.fn(async () => candles);
+
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'paper', type: 'vwap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, durationMs: 60 * MINUTE, slices: 2 },
+        paperVenue(engine, getOHLCV)
+      );
+
+      expect(getOHLCV).toHaveBeenCalledWith('BTC/USDT', '1h', 168);
+      expect(algo.schedule.map(s => [s.scheduledAt.toISOString(), s.quantity])).toEqual([
+        ['2024-03-01T00:30:00.000Z', 0.25],
+        ['2024-03-01T01:00:00.000Z', 0.75],
+      ]);
+
+      await vi.advanceTimersByTimeAsync(30 * MINUTE);
+      expect(algo.status).toBe('completed');
+    });
+
+    it('should_require_volume_history', async () => {
+      await expect(
+        service.submit(
+          { userId: 'user-1', mode: 'paper', type: 'vwap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, durationMs: MINUTE },
+          paperVenue(engine)
+        )
+      ).rejects.toThrow('VWAP requires historical volume data for this venue');
+    });
+  });
+
+  describe('Iceberg', () => {
+    it('should_show_one_visible_slice_at_a_time_until_filled', async () => {
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'paper', type: 'iceberg', symbol: 'BTC/USDT', side: 'buy', quantity: 1, limitPrice: 49000, visibleQuantity: 0.4 },
+        paperVenue(engine)
+      );
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(engine.getOpenOrders()).toHaveLength(1);
+      expect(engine.getOpenOrders()[0]).toMatchObject({ type: 'limit', price: 49000, quantity: 0.4 });
+
+      engine.setMockPrice('BTC/USDT', 48900);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(algo.status).toBe('completed');
+      expect(algo.children.map(c => c.quantity)).toEqual([0.4, 0.4, expect.closeTo(0.2)]);
+      expect(algo.averagePrice).toBe(48900);
+      expect((await service.getProgress('user-1', algo.id)).slicesTotal).toBeUndefined();
+    });
+
+    it('should_validate_iceberg_parameters', async () => {
+      const base = { userId: 'user-1', mode: 'paper' as const, type: 'iceberg' as const, symbol: 'BTC/USDT', side: 'buy' as const, quantity: 1 };
+
+      await expect(service.submit({ ...base, visibleQuantity: 0.1 }, paperVenue(engine))).rejects.toThrow(
+        'Iceberg orders require a limit price'
+      );
+      await expect(service.submit({ ...base, limitPrice: 49000, visibleQuantity: 2 }, paperVenue(engine))).rejects.toThrow(
+        'Iceberg visible quantity must be positive and no larger than the order quantity'
+      );
+    });
+  });
+
+  describe('live venue', () => {
+    const ctx: ExchangeAdapterContext = { connectionId: 'conn-1', userId: 'user-1', exchange: 'binance', apiKey: 'k', apiSecret: 's' };
+    let remote: Map<string, ExchangeOrder>;
+    let adapter: Pick<OrderExecutionAdapter, 'createOrder' | 'getOrder' | 'cancelOrder' | 'getOHLCV'>;
+
+    function fill(orderId: string, filled: number, status: string) {
+      remote.set(orderId, { ...remote.get(orderId)!, status, filledSize: String(filled), averageFilledPrice: '50010' });
+    }
+
+    beforeEach(() => {
+      remote = new Map();
+      adapter = {
+        createOrder: vi.fn(async (_ctx, params) => {
+          const orderId = `ex-${remote.size + 1}`;
+          remote.set(orderId, {
+            orderId,
+            clientOrderId: params.clientOrderId ?? '',
+            productId: 'BTCUSDT',
+            side: 'BUY',
+            type: 'LIMIT',
+            status: 'OPEN',
+            filledSize: '0',
+            filledValue: '0',
+            averageFilledPrice: '0',
+            createdTime: new Date().toISOString(),
+          });
+          return { success: true, orderId, clientOrderId: params.clientOrderId };
+        }),
+        getOrder: vi.fn(async (_ctx, orderId) => remote.get(orderId) ?? null),
+        cancelOrder: vi.fn(async () => ({ success: true })),
+        getOHLCV: vi.fn(async () => []),
+      };
+    });
+
+    it('should_place_ioc_limit_slices_and_roll_unfilled_quantity_forward', async () => {
+      const clientOrderId = vi.fn(async () => `local-${clientOrderId.mock.calls.length}`);
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'live', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, limitPrice: 50050, durationMs: 2 * MINUTE, slices: 2 },
+        exchangeVenue(adapter as OrderExecutionAdapter, ctx, { clientOrderId })
+      );
+
+      expect(adapter.createOrder).toHaveBeenCalledWith(ctx, {
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        type: 'limit',
+        quantity: 0.5,
+        price: 50050,
+        timeInForce: 'IOC',
+        clientOrderId: 'local-1',
+      });
+
+      // IOC slice only partly filled before expiring
+      fill('ex-1', 0.1, 'EXPIRED');
+      await vi.advanceTimersByTimeAsync(MINUTE);
+
+      expect(algo.children[0]).toMatchObject({ status: 'cancelled', filledQuantity: 0.1, averagePrice: 50010 });
+      expect(algo.children[1]).toMatchObject({ orderId: 'ex-2', quantity: 0.9 });
+
+      fill('ex-2', 0.5, 'EXPIRED');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(algo.status).toBe('expired');
+      expect(algo.filledQuantity).toBeCloseTo(0.6);
+    });
+
+    it('should_fail_after_repeated_rejections', async () => {
+      adapter.createOrder = vi.fn(async () => ({ success: false, error: 'Insufficient balance' }));
+
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'live', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, durationMs: 3 * MINUTE, slices: 3 },
+        exchangeVenue(adapter as OrderExecutionAdapter, ctx)
+      );
+      await vi.advanceTimersByTimeAsync(2 * MINUTE);
+
+      expect(algo.status).toBe('failed');
+      expect(algo.error).toBe('Insufficient balance');
+      expect(adapter.createOrder).toHaveBeenCalledTimes(3);
+    });
+
+    it('should_check_each_slice_and_report_the_exchange_order_id', async () => {
+      const checkOrder = vi.fn(async (_request: ChildOrderRequest) => {
+        if (checkOrder.mock.calls.length > 1) throw new Error('Daily loss limit reached');
+      });
+      const onPlaced = vi.fn(async () => {});
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'live', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, durationMs: 2 * MINUTE, slices: 2 },
+        exchangeVenue(adapter as OrderExecutionAdapter, ctx, { checkOrder, clientOrderId: async () => 'local-1', onPlaced })
+      );
+
+      expect(checkOrder).toHaveBeenCalledWith({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.5 });
+      expect(onPlaced).toHaveBeenCalledWith('local-1', 'ex-1');
+
+      fill('ex-1', 0.5, 'FILLED');
+      await vi.advanceTimersByTimeAsync(MINUTE);
+
+      // The second slice was rejected before reaching the exchange
+      expect(checkOrder).toHaveBeenCalledTimes(2);
+      expect(adapter.createOrder).toHaveBeenCalledTimes(1);
+      expect(onPlaced).toHaveBeenCalledTimes(1);
+      expect(algo.error).toBe('Daily loss limit reached');
+    });
+
+    it('should_cancel_resting_children_on_cancel', async () => {
+      const algo = await service.submit(
+        { userId: 'user-1', mode: 'live', type: 'iceberg', symbol: 'BTC/USDT', side: 'buy', quantity: 1, limitPrice: 49000, visibleQuantity: 0.5 },
+        exchangeVenue(adapter as OrderExecutionAdapter, ctx)
+      );
+
+      const cancelled = await service.cancelUserAlgorithms('user-1');
+
+      expect(cancelled.map(a => a.id)).toEqual([algo.id]);
+      expect(adapter.cancelOrder).toHaveBeenCalledWith(ctx, 'ex-1', 'BTC/USDT');
+      expect(algo.status).toBe('cancelled');
+    });
+  });
+});
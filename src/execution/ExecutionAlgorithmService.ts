@@ -0,0 +1,679 @@
+/**
+ * ExecutionAlgorithmService - Sliced Execution of Large Orders
+ *
+ * Works a parent order through child orders over time so large orders do not
+ * move thin markets:
+ * - TWAP: equal slices at a fixed interval
+ * - VWAP: slices weighted by the historical volume profile for their hour of day
+ * - Iceberg: one visible limit slice at a time, replaced as each one fills
+ *
+ * Child orders go to an ExecutionVenue: the user's PaperTradingEngine in paper
+ * mode, or an exchange adapter's createOrder in live mode.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { PaperTradingEngine, Order as PaperOrder } from '../trading/PaperTradingEngine';
+import type { ExchangeAdapterContext, ExchangeOrder, OHLCV, OrderExecutionAdapter } from '../exchanges/ExchangeService';
+import type { OrderMode, OrderSide } from './OrderService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExecutionAlgorithmType = 'twap' | 'vwap' | 'iceberg';
+export type ExecutionAlgorithmStatus = 'running' | 'paused' | 'completed' | 'expired' | 'cancelled' | 'failed';
+export type ChildOrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface ChildOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number;
+  timeInForce?: 'GTC' | 'IOC';
+}
+
+export interface ChildOrderState {
+  orderId: string;
+  status: ChildOrderStatus;
+  filledQuantity: number;
+  averagePrice: number;
+}
+
+/**
+ * Where child orders are placed and how their fills are read back
+ */
+export interface ExecutionVenue {
+  placeOrder(request: ChildOrderRequest): Promise<ChildOrderState>;
+  getOrder(orderId: string, symbol: string): Promise<ChildOrderState | null>;
+  cancelOrder(orderId: string, symbol: string): Promise<void>;
+  /** Historical candles for VWAP volume profiles; VWAP is unavailable without it */
+  getOHLCV?(symbol: string, timeframe: string, limit: number): Promise<OHLCV[]>;
+}
+
+export interface ExecutionAlgorithmParams {
+  userId: string;
+  mode: OrderMode;
+  type: ExecutionAlgorithmType;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  limitPrice?: number; // TWAP/VWAP slices become IOC limits at this price; required for iceberg
+  durationMs?: number; // TWAP/VWAP schedule length
+  slices?: number; // TWAP/VWAP child count; defaults to one per minute of duration
+  visibleQuantity?: number; // Iceberg display size
+  startAt?: Date;
+}
+
+export interface ExecutionSlice {
+  index: number;
+  scheduledAt: Date;
+  quantity: number;
+}
+
+export interface ExecutionChild extends ChildOrderState {
+  sliceIndex?: number;
+  quantity: number;
+  price?: number;
+  placedAt: Date;
+}
+
+export interface ExecutionAlgorithm {
+  id: string;
+  userId: string;
+  mode: OrderMode;
+  type: ExecutionAlgorithmType;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  limitPrice?: number;
+  visibleQuantity?: number;
+  status: ExecutionAlgorithmStatus;
+  schedule: ExecutionSlice[];
+  nextSlice: number; // Index of the first slice not yet sent
+  children: ExecutionChild[];
+  filledQuantity: number;
+  averagePrice: number;
+  error?: string; // Last child placement failure
+  createdAt: Date;
+  updatedAt: Date;
+  pausedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface ExecutionProgress {
+  id: string;
+  type: ExecutionAlgorithmType;
+  status: ExecutionAlgorithmStatus;
+  quantity: number;
+  filledQuantity: number;
+  remainingQuantity: number;
+  percentComplete: number;
+  averagePrice: number;
+  slicesSent: number;
+  slicesTotal?: number; // Unset for iceberg, which sends slices until filled
+  nextSliceAt?: Date;
+  openOrders: number;
+  error?: string;
+}
+
+export interface ExecutionAlgorithmServiceOptions {
+  tickIntervalMs?: number;
+  /** Consecutive child placement failures before the algorithm is marked failed */
+  maxChildFailures?: number;
+  /** Days of hourly candles used to build VWAP volume profiles */
+  vwapLookbackDays?: number;
+}
+
+// Quantities below this are treated as filled to absorb floating point dust
+const DUST = 1e-9;
+const MS_PER_HOUR = 3_600_000;
+const DEFAULT_SLICE_MS = 60_000;
+
+// ============================================================================
+// ExecutionAlgorithmService Implementation
+// ============================================================================
+
+export class ExecutionAlgorithmService {
+  private algorithms: Map<string, ExecutionAlgorithm> = new Map();
+  private venues: Map<string, ExecutionVenue> = new Map();
+  private failures: Map<string, number> = new Map();
+  private tickIntervalMs: number;
+  private maxChildFailures: number;
+  private vwapLookbackDays: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private ticking = false;
+
+  constructor(options: ExecutionAlgorithmServiceOptions = {}) {
+    this.tickIntervalMs = options.tickIntervalMs ?? 1000;
+    this.maxChildFailures = options.maxChildFailures ?? 3;
+    this.vwapLookbackDays = options.vwapLookbackDays ?? 7;
+  }
+
+  // ============================================================================
+  // Submission
+  // ============================================================================
+
+  /**
+   * Validate and schedule a parent order. The first slice is sent immediately
+   * when it is due; later slices go out from the scheduler.
+   */
+  async submit(params: ExecutionAlgorithmParams, venue: ExecutionVenue): Promise<ExecutionAlgorithm> {
+    if (params.quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+    if (!params.symbol.includes('/')) {
+      throw new Error('Invalid symbol format. Use BASE/QUOTE format (e.g., BTC/USDT)');
+    }
+    if (params.limitPrice !== undefined && params.limitPrice <= 0) {
+      throw new Error('Limit price must be positive');
+    }
+
+    const startAt = params.startAt ?? new Date();
+    let schedule: ExecutionSlice[] = [];
+
+    if (params.type === 'iceberg') {
+      if (params.limitPrice === undefined) {
+        throw new Error('Iceberg orders require a limit price');
+      }
+      if (!params.visibleQuantity || params.visibleQuantity <= 0 || params.visibleQuantity > params.quantity) {
+        throw new Error('Iceberg visible quantity must be positive and no larger than the order quantity');
+      }
+    } else {
+      if (!params.durationMs || params.durationMs <= 0) {
+        throw new Error(`${params.type.toUpperCase()} orders require a positive duration`);
+      }
+      const sliceCount = params.slices ?? Math.max(1, Math.round(params.durationMs / DEFAULT_SLICE_MS));
+      if (!Number.isInteger(sliceCount) || sliceCount < 1) {
+        throw new Error('Slice count must be a positive integer');
+      }
+
+      const times = Array.from({ length: sliceCount }, (_, i) =>
+        new Date(startAt.getTime() + (i * params.durationMs!) / sliceCount)
+      );
+      const weights = params.type === 'vwap'
+        ? await this.volumeWeights(params.symbol, times, venue)
+        : times.map(() => 1);
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+      schedule = times.map((scheduledAt, index) => ({
+        index,
+        scheduledAt,
+        quantity: (params.quantity * weights[index]) / totalWeight,
+      }));
+    }
+
+    const algorithm: ExecutionAlgorithm = {
+      id: uuidv4(),
+      userId: params.userId,
+      mode: params.mode,
+      type: params.type,
+      symbol: params.symbol,
+      side: params.side,
+      quantity: params.quantity,
+      limitPrice: params.limitPrice,
+      visibleQuantity: params.visibleQuantity,
+      status: 'running',
+      schedule,
+      nextSlice: 0,
+      children: [],
+      filledQuantity: 0,
+      averagePrice: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.algorithms.set(algorithm.id, algorithm);
+    this.venues.set(algorithm.id, venue);
+
+    await this.advance(algorithm, new Date());
+    this.ensureTimer();
+    return algorithm;
+  }
+
+  /**
+   * Weight each slice by the average historical volume traded in its UTC hour.
+   * Falls back to equal weights when the history has no volume for those hours.
+   */
+  private async volumeWeights(symbol: string, times: Date[], venue: ExecutionVenue): Promise<number[]> {
+    if (!venue.getOHLCV) {
+      throw new Error('VWAP requires historical volume data for this venue');
+    }
+
+    const candles = await venue.getOHLCV(symbol, '1h', this.vwapLookbackDays * 24);
+    const totals = new Array(24).fill(0);
+    const counts = new Array(24).fill(0);
+    for (const candle of candles) {
+      const hour = new Date(candle.timestamp).getUTCHours();
+      totals[hour] += candle.volume;
+      counts[hour]++;
+    }
+
+    const weights = times.map(time => {
+      const hour = time.getUTCHours();
+      return counts[hour] > 0 ? totals[hour] / counts[hour] : 0;
+    });
+
+    return weights.some(w => w > 0) ? weights : times.map(() => 1);
+  }
+
+  // ============================================================================
+  // Controls
+  // ============================================================================
+
+  /**
+   * Stop sending slices and pull resting limit slices; fills already made stand
+   */
+  async pause(userId: string, algorithmId: string): Promise<ExecutionAlgorithm> {
+    const algorithm = this.getOwned(userId, algorithmId);
+    if (algorithm.status !== 'running') {
+      throw new Error(`Cannot pause a ${algorithm.status} execution algorithm`);
+    }
+
+    algorithm.status = 'paused';
+    algorithm.pausedAt = new Date();
+    algorithm.updatedAt = new Date();
+    await this.cancelOpenChildren(algorithm, child => child.price !== undefined);
+    return algorithm;
+  }
+
+  /**
+   * Resume a paused algorithm; unsent slices shift later by the time spent paused
+   */
+  async resume(userId: string, algorithmId: string): Promise<ExecutionAlgorithm> {
+    const algorithm = this.getOwned(userId, algorithmId);
+    if (algorithm.status !== 'paused') {
+      throw new Error('Only paused execution algorithms can be resumed');
+    }
+
+    const now = new Date();
+    const pausedFor = now.getTime() - algorithm.pausedAt!.getTime();
+    for (const slice of algorithm.schedule.slice(algorithm.nextSlice)) {
+      slice.scheduledAt = new Date(slice.scheduledAt.getTime() + pausedFor);
+    }
+
+    algorithm.status = 'running';
+    algorithm.pausedAt = undefined;
+    algorithm.updatedAt = now;
+
+    await this.advance(algorithm, now);
+    this.ensureTimer();
+    return algorithm;
+  }
+
+  /**
+   * Cancel the algorithm and every open child order
+   */
+  async cancel(userId: string, algorithmId: string): Promise<ExecutionAlgorithm> {
+    const algorithm = this.getOwned(userId, algorithmId);
+    if (!this.isActive(algorithm)) {
+      throw new Error(`Cannot cancel a ${algorithm.status} execution algorithm`);
+    }
+
+    await this.cancelOpenChildren(algorithm);
+    this.finish(algorithm, 'cancelled');
+    return algorithm;
+  }
+
+  /**
+   * Cancel every running or paused algorithm the user has
+   */
+  async cancelUserAlgorithms(userId: string): Promise<ExecutionAlgorithm[]> {
+    const active = (await this.getUserAlgorithms(userId)).filter(a => this.isActive(a));
+    for (const algorithm of active) {
+      await this.cancel(userId, algorithm.id);
+    }
+    return active;
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  async getAlgorithm(userId: string, algorithmId: string): Promise<ExecutionAlgorithm> {
+    return this.getOwned(userId, algorithmId);
+  }
+
+  async getUserAlgorithms(userId: string): Promise<ExecutionAlgorithm[]> {
+    return Array.from(this.algorithms.values())
+      .filter(a => a.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getProgress(userId: string, algorithmId: string): Promise<ExecutionProgress> {
+    const algorithm = this.getOwned(userId, algorithmId);
+    const isIceberg = algorithm.type === 'iceberg';
+
+    return {
+      id: algorithm.id,
+      type: algorithm.type,
+      status: algorithm.status,
+      quantity: algorithm.quantity,
+      filledQuantity: algorithm.filledQuantity,
+      remainingQuantity: Math.max(algorithm.quantity - algorithm.filledQuantity, 0),
+      percentComplete: (algorithm.filledQuantity / algorithm.quantity) * 100,
+      averagePrice: algorithm.averagePrice,
+      slicesSent: isIceberg ? algorithm.children.length : algorithm.nextSlice,
+      slicesTotal: isIceberg ? undefined : algorithm.schedule.length,
+      nextSliceAt: algorithm.status === 'running' ? algorithm.schedule[algorithm.nextSlice]?.scheduledAt : undefined,
+      openOrders: algorithm.children.filter(c => c.status === 'open').length,
+      error: algorithm.error,
+    };
+  }
+
+  private getOwned(userId: string, algorithmId: string): ExecutionAlgorithm {
+    const algorithm = this.algorithms.get(algorithmId);
+    if (!algorithm || algorithm.userId !== userId) {
+      throw new Error('Execution algorithm not found');
+    }
+    return algorithm;
+  }
+
+  private isActive(algorithm: ExecutionAlgorithm): boolean {
+    return algorithm.status === 'running' || algorithm.status === 'paused';
+  }
+
+  // ============================================================================
+  // Scheduler
+  // ============================================================================
+
+  /**
+   * Refresh child fills and send any slices that have come due
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const algorithm of this.algorithms.values()) {
+        if (!this.isActive(algorithm)) continue;
+        try {
+          await this.advance(algorithm, now);
+        } catch (error) {
+          algorithm.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+
+    if (!Array.from(this.algorithms.values()).some(a => this.isActive(a))) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stop the scheduler. Algorithms keep their state and resume ticking on the
+   * next submit or resume.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Execution algorithm tick failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  private async advance(algorithm: ExecutionAlgorithm, now: Date): Promise<void> {
+    await this.refreshChildren(algorithm);
+
+    if (algorithm.quantity - algorithm.filledQuantity <= DUST) {
+      this.finish(algorithm, 'completed');
+      return;
+    }
+    if (algorithm.status !== 'running') return;
+
+    if (algorithm.type === 'iceberg') {
+      await this.advanceIceberg(algorithm);
+    } else {
+      await this.advanceSchedule(algorithm, now);
+    }
+  }
+
+  /**
+   * Keep exactly one visible limit slice resting until the order is filled
+   */
+  private async advanceIceberg(algorithm: ExecutionAlgorithm): Promise<void> {
+    if (algorithm.children.some(c => c.status === 'open')) return;
+
+    const remaining = algorithm.quantity - algorithm.filledQuantity;
+    await this.placeChild(algorithm, {
+      symbol: algorithm.symbol,
+      side: algorithm.side,
+      type: 'limit',
+      quantity: Math.min(algorithm.visibleQuantity!, remaining),
+      price: algorithm.limitPrice,
+      timeInForce: 'GTC',
+    });
+  }
+
+  /**
+   * Send the slices that are due. Each slice tops the order up to the
+   * cumulative scheduled quantity, so quantity a previous slice missed rolls forward.
+   */
+  private async advanceSchedule(algorithm: ExecutionAlgorithm, now: Date): Promise<void> {
+    const { schedule } = algorithm;
+    let due = algorithm.nextSlice;
+    while (due < schedule.length && schedule[due].scheduledAt.getTime() <= now.getTime()) {
+      due++;
+    }
+
+    if (due === algorithm.nextSlice) {
+      // Nothing new is due; the algorithm ends once the last slice has settled
+      const settled = !algorithm.children.some(c => c.status === 'open');
+      if (algorithm.nextSlice === schedule.length && settled) {
+        this.finish(algorithm, 'expired');
+      }
+      return;
+    }
+
+    // A limit slice still resting when the next one is due gives way to it
+    await this.cancelOpenChildren(algorithm, child => child.price !== undefined);
+    if (algorithm.children.some(c => c.status === 'open')) return;
+
+    algorithm.nextSlice = due;
+    algorithm.updatedAt = now;
+
+    const target = schedule.slice(0, due).reduce((sum, slice) => sum + slice.quantity, 0);
+    const quantity = Math.min(target, algorithm.quantity) - algorithm.filledQuantity;
+    if (quantity <= DUST) return;
+
+    await this.placeChild(
+      algorithm,
+      algorithm.limitPrice === undefined
+        ? { symbol: algorithm.symbol, side: algorithm.side, type: 'market', quantity }
+        : {
+          symbol: algorithm.symbol,
+          side: algorithm.side,
+          type: 'limit',
+          quantity,
+          price: algorithm.limitPrice,
+          timeInForce: 'IOC',
+        },
+      due - 1
+    );
+
+    if (algorithm.quantity - algorithm.filledQuantity <= DUST) {
+      this.finish(algorithm, 'completed');
+    }
+  }
+
+  private async placeChild(algorithm: ExecutionAlgorithm, request: ChildOrderRequest, sliceIndex?: number): Promise<void> {
+    const venue = this.venues.get(algorithm.id)!;
+
+    try {
+      const state = await venue.placeOrder(request);
+      algorithm.children.push({
+        ...state,
+        sliceIndex,
+        quantity: request.quantity,
+        price: request.price,
+        placedAt: new Date(),
+      });
+      this.failures.delete(algorithm.id);
+      this.updateFills(algorithm);
+    } catch (error) {
+      algorithm.error = error instanceof Error ? error.message : String(error);
+      const failures = (this.failures.get(algorithm.id) ?? 0) + 1;
+      this.failures.set(algorithm.id, failures);
+
+      if (failures >= this.maxChildFailures) {
+        await this.cancelOpenChildren(algorithm);
+        this.finish(algorithm, 'failed');
+      }
+    }
+  }
+
+  private async refreshChildren(algorithm: ExecutionAlgorithm): Promise<void> {
+    const venue = this.venues.get(algorithm.id)!;
+
+    for (const child of algorithm.children) {
+      if (child.status !== 'open') continue;
+      const state = await venue.getOrder(child.orderId, algorithm.symbol);
+      if (state) {
+        child.status = state.status;
+        child.filledQuantity = state.filledQuantity;
+        child.averagePrice = state.averagePrice;
+      }
+    }
+
+    this.updateFills(algorithm);
+  }
+
+  private async cancelOpenChildren(
+    algorithm: ExecutionAlgorithm,
+    predicate: (child: ExecutionChild) => boolean = () => true
+  ): Promise<void> {
+    const venue = this.venues.get(algorithm.id)!;
+
+    for (const child of algorithm.children) {
+      if (child.status !== 'open' || !predicate(child)) continue;
+      try {
+        await venue.cancelOrder(child.orderId, algorithm.symbol);
+        child.status = 'cancelled';
+      } catch (error) {
+        // The child may have filled in the meantime; the next refresh picks that up
+        algorithm.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    await this.refreshChildren(algorithm);
+  }
+
+  private updateFills(algorithm: ExecutionAlgorithm): void {
+    let filled = 0;
+    let notional = 0;
+    for (const child of algorithm.children) {
+      filled += child.filledQuantity;
+      notional += child.filledQuantity * child.averagePrice;
+    }
+
+    algorithm.filledQuantity = filled;
+    algorithm.averagePrice = filled > 0 ? notional / filled : 0;
+  }
+
+  private finish(algorithm: ExecutionAlgorithm, status: ExecutionAlgorithmStatus): void {
+    algorithm.status = status;
+    algorithm.completedAt = new Date();
+    algorithm.updatedAt = new Date();
+    this.failures.delete(algorithm.id);
+  }
+}
+
+// ============================================================================
+// Venues
+// ============================================================================
+
+/**
+ * Paper venue backed by the user's PaperTradingEngine. Resting limit slices
+ * fill as the engine processes pending orders against its current prices.
+ */
+export function paperVenue(
+  engine: PaperTradingEngine,
+  getOHLCV?: (symbol: string, timeframe: string, limit: number) => Promise<OHLCV[]>
+): ExecutionVenue {
+  const toState = (order: PaperOrder): ChildOrderState => ({
+    orderId: order.id,
+    status: order.status === 'pending' || order.status === 'partially_filled'
+      ? 'open'
+      : order.status === 'filled'
+        ? 'filled'
+        : order.status === 'rejected' ? 'rejected' : 'cancelled',
+    filledQuantity: order.filledQuantity,
+    averagePrice: order.averagePrice,
+  });
+
+  return {
+    placeOrder: async (request) => toState(await engine.createOrder(request)),
+    getOrder: async (orderId) => {
+      await engine.processPendingOrders();
+      const order = engine.getOrder(orderId);
+      return order ? toState(order) : null;
+    },
+    cancelOrder: async (orderId) => {
+      await engine.cancelOrder(orderId);
+    },
+    ...(getOHLCV && { getOHLCV }),
+  };
+}
+
+export interface ExchangeVenueOptions {
+  /** Runs before each child is recorded or sent; throwing rejects that slice */
+  checkOrder?: (request: ChildOrderRequest) => Promise<void>;
+  /** Records the child locally and returns its id, sent as the exchange client order id */
+  clientOrderId?: (request: ChildOrderRequest) => Promise<string | undefined>;
+  /** Called once the exchange accepts a child, with the local id and the exchange's order id */
+  onPlaced?: (clientOrderId: string | undefined, exchangeOrderId: string) => Promise<void>;
+}
+
+/**
+ * Live venue that places child orders through an exchange adapter.
+ * `clientOrderId` lets the caller record each child locally first so
+ * order reconciliation can match the exchange order back to it.
+ */
+export function exchangeVenue(
+  adapter: OrderExecutionAdapter,
+  ctx: ExchangeAdapterContext,
+  options: ExchangeVenueOptions = {}
+): ExecutionVenue {
+  const toState = (order: ExchangeOrder): ChildOrderState => ({
+    orderId: order.orderId,
+    status: order.status === 'FILLED'
+      ? 'filled'
+      : order.status === 'CANCELLED' || order.status === 'EXPIRED'
+        ? 'cancelled'
+        : order.status === 'FAILED' ? 'rejected' : 'open',
+    filledQuantity: parseFloat(order.filledSize) || 0,
+    averagePrice: parseFloat(order.averageFilledPrice) || 0,
+  });
+
+  return {
+    placeOrder: async (request) => {
+      await options.checkOrder?.(request);
+      const clientOrderId = await options.clientOrderId?.(request);
+      const result = await adapter.createOrder(ctx, { ...request, clientOrderId });
+      if (!result.success || !result.orderId) {
+        throw new Error(result.error || 'Order rejected by exchange');
+      }
+      await options.onPlaced?.(clientOrderId, result.orderId);
+      return { orderId: result.orderId, status: 'open', filledQuantity: 0, averagePrice: 0 };
+    },
+    getOrder: async (orderId, symbol) => {
+      const order = await adapter.getOrder(ctx, orderId, symbol);
+      return order ? toState(order) : null;
+    },
+    cancelOrder: async (orderId, symbol) => {
+      const result = await adapter.cancelOrder(ctx, orderId, symbol);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to cancel order');
+      }
+    },
+    getOHLCV: (symbol, timeframe, limit) => adapter.getOHLCV(ctx, symbol, timeframe, limit),
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import type { NeonDatabase, Order as NeonOrder, Position as NeonPosition, Trade as NeonTrade } from '../database/NeonDatabase';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order as NeonOrder, Position as NeonPosition, Trade as NeonTrade } from '../database/DatabaseFactory';
 import { NeonLiveTradingService } from './NeonLiveTradingService';
 
 interface StubDb extends Partial<NeonDatabase> {
@@ -26,16 +27,16 @@ function createStubDb(): StubDb {
       create: async (data: any) => {
         const pos: NeonPosition = {
           id: `pos-${db._positions.length + 1}`,
-          user_id: data.userId,
-          strategy_id: data.strategyId,
+          userId: data.userId,
+          strategyId: data.strategyId,
           symbol: data.symbol,
           side: data.side,
           quantity: data.quantity,
-          entry_price: data.entryPrice,
+          entryPrice: data.entryPrice,
           mode: data.mode,
-          opened_at: new Date(),
-          created_at: new Date(),
-          updated_at: new Date(),
+          openedAt: new Date(),
+          createdAt: new Date(),
+          updatedAt: new Date(),
         } as any;
         db._positions.push(pos);
         return pos;
@@ -43,7 +44,7 @@ function createStubDb(): StubDb {
       findOpen: async (userId: string, symbol?: string) => {
         return db._positions.filter(
           (p: NeonPosition) =>
-            p.user_id === userId && !p.closed_at && (!symbol || p.symbol === symbol),
+            p.userId === userId && !p.closedAt && (!symbol || p.symbol === symbol),
         );
       },
       update: async (id: string, patch: any) => {
@@ -57,11 +58,11 @@ function createStubDb(): StubDb {
         if (idx === -1) return null;
         db._positions[idx] = {
           ...db._positions[idx],
-          current_price: exitPrice,
-          realized_pnl: realizedPnl,
-          unrealized_pnl: 0,
-          closed_at: new Date(),
-          updated_at: new Date(),
+          currentPrice: exitPrice,
+          realizedPnl,
+          unrealizedPnl: 0,
+          closedAt: new Date(),
+          updatedAt: new Date(),
         };
         return db._positions[idx];
       },
@@ -70,10 +71,10 @@ function createStubDb(): StubDb {
       create: async (data: any) => {
         const trade: NeonTrade = {
           id: `trade-${db._trades.length + 1}`,
-          user_id: data.userId,
-          strategy_id: data.strategyId,
-          order_id: data.orderId,
-          position_id: data.positionId,
+          userId: data.userId,
+          strategyId: data.strategyId,
+          orderId: data.orderId,
+          positionId: data.positionId,
           symbol: data.symbol,
           side: data.side,
           quantity: data.quantity,
@@ -81,8 +82,8 @@ function createStubDb(): StubDb {
           fee: data.fee,
           pnl: data.pnl,
           mode: data.mode,
-          executed_at: new Date(),
-          created_at: new Date(),
+          executedAt: new Date(),
+          createdAt: new Date(),
         } as any;
         db._trades.push(trade);
         return trade;
@@ -105,16 +106,16 @@ describe('NeonLiveTradingService', () => {
   it('fills a new long position for a buy order with no existing position', async () => {
     const order: NeonOrder = {
       id: 'ord-1',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'buy',
       type: 'market',
       quantity: 0.1,
       status: 'pending',
       mode: 'live',
-      created_at: new Date(),
-      updated_at: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._orders.push(order);
 
@@ -130,39 +131,39 @@ describe('NeonLiveTradingService', () => {
   it('closes an existing long position on sell with realized PnL', async () => {
     const order: NeonOrder = {
       id: 'ord-2',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'sell',
       type: 'market',
       quantity: 0.1,
       status: 'pending',
       mode: 'live',
-      created_at: new Date(),
-      updated_at: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._orders.push(order);
 
     // Existing long: entry 40k, qty 0.1
     const existing: NeonPosition = {
       id: 'pos-1',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'long',
       quantity: 0.1,
-      entry_price: 40000,
+      entryPrice: 40000,
       mode: 'live',
-      opened_at: new Date(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._positions.push(existing);
 
     const result = await service.fillOrder({ orderId: order.id, price: 50000, feeRatePercent: 0 });
 
     expect(result.order.status).toBe('filled');
-    expect(result.position!.closed_at).toBeInstanceOf(Date);
+    expect(result.position!.closedAt).toBeInstanceOf(Date);
     // PnL = (50k - 40k) * 0.1 = 1000
     expect(result.trade.pnl).toBeCloseTo(1000, 6);
   });
@@ -170,31 +171,31 @@ describe('NeonLiveTradingService', () => {
   it('partially_closes_long_position_on_sell', async () => {
     const order: NeonOrder = {
       id: 'ord-3',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'sell',
       type: 'market',
       quantity: 0.05,
       status: 'pending',
       mode: 'live',
-      created_at: new Date(),
-      updated_at: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._orders.push(order);
 
     const existing: NeonPosition = {
       id: 'pos-1',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'long',
       quantity: 0.1,
-      entry_price: 40000,
+      entryPrice: 40000,
       mode: 'live',
-      opened_at: new Date(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._positions.push(existing);
 
@@ -1,4 +1,5 @@
-import type { NeonDatabase, Order as NeonOrder, Position as NeonPosition, Trade as NeonTrade } from '../database/NeonDatabase';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order, Position, Trade } from '../database/DatabaseFactory';
 
 export interface LiveFillParams {
   orderId: string;
@@ -6,10 +7,21 @@ export interface LiveFillParams {
   feeRatePercent?: number;
 }
 
+/**
+ * A fill reported by the exchange, possibly one of several for the order
+ */
+export interface LiveExecutionParams {
+  orderId: string;
+  quantity: number; // Newly filled quantity
+  price: number; // Average price of the newly filled quantity
+  fee?: number; // Fee for the newly filled quantity, in quote currency
+  complete: boolean; // Whether the order is now fully filled
+}
+
 export interface LiveFillResult {
-  order: NeonOrder;
-  position?: NeonPosition;
-  trade: NeonTrade;
+  order: Order;
+  position?: Position;
+  trade: Trade;
 }
 
 /**
@@ -23,6 +35,9 @@ export interface LiveFillResult {
  * This service does not talk to exchanges directly; callers are expected
  * to provide the execution price (e.g., from an exchange adapter or a
  * deterministic simulator).
+ *
+ * Neon rows come back camelCase, so they are read through the DatabaseFactory
+ * row types rather than the column-named NeonDatabase interfaces.
  */
 export class NeonLiveTradingService {
   private db: NeonDatabase;
@@ -34,7 +49,7 @@ export class NeonLiveTradingService {
   async fillOrder(params: LiveFillParams): Promise<LiveFillResult> {
     const { orderId, price, feeRatePercent = 0.1 } = params;
 
-    const order = await this.db.orders.findById(orderId);
+    const order = (await this.db.orders.findById(orderId)) as unknown as Order | null;
     if (!order) {
       throw new Error('Order not found');
     }
@@ -42,25 +57,25 @@ export class NeonLiveTradingService {
       throw new Error('Order is not pending');
     }
 
-    const userId = order.user_id;
+    const userId = order.userId;
     const symbol = order.symbol;
     const mode = order.mode;
 
     const fee = order.quantity * price * (feeRatePercent / 100);
 
-    const updatedOrder = await this.db.orders.update(order.id, {
+    const updatedOrder = (await this.db.orders.update(order.id, {
       status: 'filled',
       filledPrice: price,
       filledQuantity: order.quantity,
       fee,
       filledAt: new Date(),
-    });
+    } as any)) as unknown as Order;
 
-    const positionResult = await this.updatePositionForFill(updatedOrder, price);
+    const positionResult = await this.updatePositionForFill(updatedOrder, price, order.quantity);
 
     const trade = await this.db.trades.create({
       userId,
-      strategyId: order.strategy_id,
+      strategyId: order.strategyId,
       orderId: updatedOrder.id,
       positionId: positionResult?.position?.id,
       symbol,
@@ -70,7 +85,56 @@ export class NeonLiveTradingService {
       fee,
       pnl: positionResult?.realizedPnl ?? 0,
       mode,
-    });
+    }) as unknown as Trade;
+
+    return {
+      order: updatedOrder,
+      position: positionResult?.position,
+      trade,
+    };
+  }
+
+  /**
+   * Record an exchange execution against a pending order. Partial fills keep
+   * the order pending and accumulate filled quantity, fee and average price.
+   */
+  async recordExecution(params: LiveExecutionParams): Promise<LiveFillResult> {
+    const { orderId, quantity, price, fee = 0, complete } = params;
+
+    const order = (await this.db.orders.findById(orderId)) as unknown as Order | null;
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (order.status !== 'pending') {
+      throw new Error('Order is not pending');
+    }
+
+    const previousQuantity = Number(order.filledQuantity ?? 0);
+    const filledQuantity = previousQuantity + quantity;
+    const averagePrice = (Number(order.filledPrice ?? 0) * previousQuantity + price * quantity) / filledQuantity;
+
+    const updatedOrder = (await this.db.orders.update(order.id, {
+      ...(complete ? { status: 'filled', filledAt: new Date() } : {}),
+      filledPrice: averagePrice,
+      filledQuantity,
+      fee: Number(order.fee ?? 0) + fee,
+    } as any)) as unknown as Order;
+
+    const positionResult = await this.updatePositionForFill(updatedOrder, price, quantity);
+
+    const trade = await this.db.trades.create({
+      userId: order.userId,
+      strategyId: order.strategyId,
+      orderId: order.id,
+      positionId: positionResult?.position?.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      fee,
+      pnl: positionResult?.realizedPnl ?? 0,
+      mode: order.mode,
+    }) as unknown as Trade;
 
     return {
       order: updatedOrder,
@@ -80,29 +144,29 @@ export class NeonLiveTradingService {
   }
 
   private async updatePositionForFill(
-    order: NeonOrder,
+    order: Order,
     price: number,
-  ): Promise<{ position: NeonPosition; realizedPnl: number } | undefined> {
-    const userId = order.user_id;
+    quantity: number,
+  ): Promise<{ position: Position; realizedPnl: number } | undefined> {
+    const userId = order.userId;
     const symbol = order.symbol;
     const side = order.side;
-    const quantity = order.quantity;
     const mode = order.mode;
 
-    const openPositions = await this.db.positions.findOpen(userId, symbol);
+    const openPositions = (await this.db.positions.findOpen(userId, symbol)) as unknown as Position[];
     const existing = openPositions[0];
 
     // No existing position: open a new one
     if (!existing) {
-      const pos = await this.db.positions.create({
+      const pos = (await this.db.positions.create({
         userId,
-        strategyId: order.strategy_id,
+        strategyId: order.strategyId,
         symbol,
         side: side === 'buy' ? 'long' : 'short',
         quantity,
         entryPrice: price,
         mode,
-      });
+      })) as unknown as Position;
       return { position: pos, realizedPnl: 0 };
     }
 
@@ -112,38 +176,38 @@ export class NeonLiveTradingService {
       if (existing.side === 'long') {
         // Add to long position
         const totalCost =
-          existing.entry_price * existing.quantity + price * quantity;
+          existing.entryPrice * existing.quantity + price * quantity;
         const totalQty = existing.quantity + quantity;
         const newEntry = totalCost / totalQty;
 
-        const pos = await this.db.positions.update(existing.id, {
+        const pos = (await this.db.positions.update(existing.id, {
           entryPrice: newEntry,
           quantity: totalQty,
-        } as any);
+        } as any)) as unknown as Position;
         return { position: pos, realizedPnl: 0 };
       }
 
       // Reducing short position
       if (quantity >= existing.quantity) {
         // Close entire short
-        const realizedPnl = (existing.entry_price - price) * existing.quantity;
-        const closed = await this.db.positions.close(
+        const realizedPnl = (existing.entryPrice - price) * existing.quantity;
+        const closed = (await this.db.positions.close(
           existing.id,
           price,
           realizedPnl,
-        );
+        )) as unknown as Position;
 
         // If we bought more than we closed, open a new long
         if (quantity > existing.quantity) {
-          const newPos = await this.db.positions.create({
+          const newPos = (await this.db.positions.create({
             userId,
-            strategyId: order.strategy_id,
+            strategyId: order.strategyId,
             symbol,
             side: 'long',
             quantity: quantity - existing.quantity,
             entryPrice: price,
             mode,
-          });
+          })) as unknown as Position;
           return { position: newPos, realizedPnl };
         }
 
@@ -153,10 +217,10 @@ export class NeonLiveTradingService {
       // Partial close of short: reduce quantity, realized PnL proportional to closed size.
       const closeQty = quantity;
       const remainingQty = existing.quantity - closeQty;
-      const realizedPnl = (existing.entry_price - price) * closeQty;
-      const pos = await this.db.positions.update(existing.id, {
+      const realizedPnl = (existing.entryPrice - price) * closeQty;
+      const pos = (await this.db.positions.update(existing.id, {
         quantity: remainingQty,
-      } as any);
+      } as any)) as unknown as Position;
       return { position: pos, realizedPnl };
     }
 
@@ -164,38 +228,38 @@ export class NeonLiveTradingService {
     if (existing.side === 'short') {
       // Add to short position
       const totalCost =
-        existing.entry_price * existing.quantity + price * quantity;
+        existing.entryPrice * existing.quantity + price * quantity;
       const totalQty = existing.quantity + quantity;
       const newEntry = totalCost / totalQty;
 
-      const pos = await this.db.positions.update(existing.id, {
+      const pos = (await this.db.positions.update(existing.id, {
         entryPrice: newEntry,
         quantity: totalQty,
-      } as any);
+      } as any)) as unknown as Position;
       return { position: pos, realizedPnl: 0 };
     }
 
     // Reducing long position
     if (quantity >= existing.quantity) {
       // Close entire long
-      const realizedPnl = (price - existing.entry_price) * existing.quantity;
-      const closed = await this.db.positions.close(
+      const realizedPnl = (price - existing.entryPrice) * existing.quantity;
+      const closed = (await this.db.positions.close(
         existing.id,
         price,
         realizedPnl,
-      );
+      )) as unknown as Position;
 
       // If we sold more than we closed, open a new short
       if (quantity > existing.quantity) {
-        const newPos = await this.db.positions.create({
+        const newPos = (await this.db.positions.create({
           userId,
-          strategyId: order.strategy_id,
+          strategyId: order.strategyId,
           symbol,
           side: 'short',
           quantity: quantity - existing.quantity,
           entryPrice: price,
           mode,
-        });
+        })) as unknown as Position;
         return { position: newPos, realizedPnl };
       }
 
@@ -205,10 +269,10 @@ export class NeonLiveTradingService {
     // Partial close of long: reduce quantity, realized PnL proportional to closed size.
     const closeQty = quantity;
     const remainingQty = existing.quantity - closeQty;
-    const realizedPnl = (price - existing.entry_price) * closeQty;
-    const pos = await this.db.positions.update(existing.id, {
+    const realizedPnl = (price - existing.entryPrice) * closeQty;
+    const pos = (await this.db.positions.update(existing.id, {
       quantity: remainingQty,
-    } as any);
+    } as any)) as unknown as Position;
     return { position: pos, realizedPnl };
   }
 }
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order as NeonOrder, Position as NeonPosition, Trade as NeonTrade } from '../database/DatabaseFactory';
+import type { ExchangeOrder, OrderExecutionAdapter } from '../exchanges/ExchangeService';
+import type { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+import { NeonLiveTradingService } from './NeonLiveTradingService';
+import { NeonOrderReconciliationService } from './NeonOrderReconciliationService';
+
+// Neon repositories take camelCase patches and return camelCase rows
+function createStubDb() {
+  const db: any = {
+    _orders: [] as NeonOrder[],
+    _positions: [] as NeonPosition[],
+    _trades: [] as NeonTrade[],
+    _audit: [] as any[],
+    exchangeConnections: {
+      findByUserId: async (userId: string) => [
+        { id: 'conn-1', userId, exchange: 'binance' },
+      ],
+    },
+    orders: {
+      findById: async (id: string) => db._orders.find((o: NeonOrder) => o.id === id) || null,
+      findByUserId: async (userId: string, options?: { mode?: string }) =>
+        db._orders.filter((o: NeonOrder) => o.userId === userId && (!options?.mode || o.mode === options.mode)),
+      findPending: async (mode: string) =>
+        db._orders.filter((o: NeonOrder) => o.status === 'pending' && o.mode === mode),
+      update: async (id: string, patch: Record<string, unknown>) => {
+        const order = db._orders.find((o: NeonOrder) => o.id === id);
+        for (const [key, value] of Object.entries(patch)) {
+          order[key] = value;
+        }
+        return order;
+      },
+    },
+    positions: {
+      create: async (data: any) => {
+        const pos = {
+          id: `pos-${db._positions.length + 1}`,
+          userId: data.userId,
+          symbol: data.symbol,
+          side: data.side,
+          quantity: data.quantity,
+          entryPrice: data.entryPrice,
+          mode: data.mode,
+        } as NeonPosition;
+        db._positions.push(pos);
+        return pos;
+      },
+      findOpen: async (userId: string, symbol?: string) =>
+        db._positions.filter((p: NeonPosition) => p.userId === userId && !p.closedAt && (!symbol || p.symbol === symbol)),
+      update: async (id: string, patch: any) => {
+        const pos = db._positions.find((p: NeonPosition) => p.id === id);
+        if (patch.quantity !== undefined) pos.quantity = patch.quantity;
+        if (patch.entryPrice !== undefined) pos.entryPrice = patch.entryPrice;
+        return pos;
+      },
+      close: async (id: string) => {
+        const pos = db._positions.find((p: NeonPosition) => p.id === id);
+        pos.closedAt = new Date();
+        return pos;
+      },
+    },
+    trades: {
+      create: async (data: any) => {
+        const trade = { id: `trade-${db._trades.length + 1}`, ...data } as NeonTrade;
+        db._trades.push(trade);
+        return trade;
+      },
+    },
+    auditLog: {
+      log: async (entry: any) => {
+        db._audit.unshift({ ...entry, action: entry.action, createdAt: new Date() });
+        return entry;
+      },
+      findByUserId: async (userId: string) => db._audit.filter((e: any) => e.userId === userId),
+    },
+  };
+  return db;
+}
+
+function localOrder(overrides: Partial<NeonOrder>): NeonOrder {
+  return {
+    id: 'ord-1',
+    userId: 'user-1',
+    exchangeConnectionId: 'conn-1',
+    symbol: 'BTC/USDT',
+    side: 'buy',
+    type: 'limit',
+    quantity: 1,
+    price: 50000,
+    status: 'pending',
+    mode: 'live',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as NeonOrder;
+}
+
+function exchangeOrder(overrides: Partial<ExchangeOrder>): ExchangeOrder {
+  return {
+    orderId: '28',
+    clientOrderId: 'ord-1',
+    productId: 'BTCUSDT',
+    side: 'BUY',
+    type: 'LIMIT',
+    status: 'OPEN',
+    filledSize: '0',
+    filledValue: '0',
+    averageFilledPrice: '0',
+    createdTime: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('NeonOrderReconciliationService', () => {
+  let db: ReturnType<typeof createStubDb>;
+  let adapter: { [K in 'getOpenOrders' | 'getOrderHistory' | 'getOrder']: ReturnType<typeof vi.fn> };
+  let service: NeonOrderReconciliationService;
+
+  beforeEach(() => {
+    db = createStubDb();
+    adapter = {
+      getOpenOrders: vi.fn(async () => []),
+      getOrderHistory: vi.fn(async () => []),
+      getOrder: vi.fn(async () => null),
+    };
+    const exchangeService = {
+      getOrderAdapter: async () => ({
+        adapter: adapter as unknown as OrderExecutionAdapter,
+        ctx: { connectionId: 'conn-1', userId: 'user-1', exchange: 'binance' },
+      }),
+    } as unknown as NeonExchangeAdapterService;
+
+    service = new NeonOrderReconciliationService({
+      db: db as unknown as NeonDatabase,
+      exchangeService,
+      liveTradingService: new NeonLiveTradingService(db as unknown as NeonDatabase),
+    });
+  });
+
+  it('records partial fills by client order id and then the remainder', async () => {
+    db._orders.push(localOrder({}));
+    adapter.getOpenOrders.mockResolvedValueOnce([
+      exchangeOrder({ filledSize: '0.4', filledValue: '20000', totalFees: '20' }),
+    ]);
+
+    const first = await service.reconcileUser('user-1');
+
+    expect(first.fills).toEqual([
+      { orderId: 'ord-1', exchangeOrderId: '28', quantity: 0.4, price: 50000, fee: 20, complete: false },
+    ]);
+    expect(db._orders[0]).toMatchObject({ status: 'pending', exchangeOrderId: '28', filledQuantity: 0.4 });
+    expect(db._positions[0]).toMatchObject({ side: 'long', quantity: 0.4 });
+
+    adapter.getOrderHistory.mockResolvedValueOnce([
+      exchangeOrder({ status: 'FILLED', filledSize: '1', filledValue: '49400', totalFees: '49.4' }),
+    ]);
+
+    const second = await service.reconcileUser('user-1');
+
+    // Remaining 0.6 filled for 29400 in total
+    expect(second.fills[0]).toMatchObject({ quantity: 0.6, price: 49000, complete: true });
+    expect(second.fills[0].fee).toBeCloseTo(29.4, 9);
+    expect(db._orders[0]).toMatchObject({ status: 'filled', filledQuantity: 1 });
+    expect(db._orders[0].filledPrice).toBeCloseTo(49400, 6);
+    expect(db._positions[0].quantity).toBeCloseTo(1, 9);
+    expect(db._trades.map((t: any) => t.quantity)).toEqual([0.4, expect.closeTo(0.6, 9)]);
+  });
+
+  it('closes orders the exchange cancelled after a partial fill', async () => {
+    db._orders.push(localOrder({ exchangeOrderId: '28' }));
+    adapter.getOrderHistory.mockResolvedValueOnce([
+      exchangeOrder({ clientOrderId: 'web-1', status: 'CANCELLED', filledSize: '0.25', filledValue: '12500' }),
+    ]);
+
+    const report = await service.reconcileUser('user-1');
+
+    expect(report.fills).toHaveLength(1);
+    expect(report.closedOrders).toEqual([{ orderId: 'ord-1', exchangeOrderId: '28', status: 'cancelled' }]);
+    expect(db._orders[0]).toMatchObject({ status: 'cancelled', filledQuantity: 0.25 });
+  });
+
+  it('flags orphaned exchange orders and local orders the exchange does not know', async () => {
+    db._orders.push(
+      localOrder({ id: 'ord-1', exchangeOrderId: '99' }),
+      localOrder({ id: 'ord-2', status: 'cancelled', exchangeOrderId: '30' }),
+    );
+    adapter.getOpenOrders.mockResolvedValueOnce([
+      exchangeOrder({ orderId: '29', clientOrderId: 'placed-by-hand' }),
+      exchangeOrder({ orderId: '30', clientOrderId: 'ord-2' }),
+    ]);
+
+    const report = await service.reconcileUser('user-1');
+
+    expect(adapter.getOrder).toHaveBeenCalledWith(expect.anything(), '99', 'BTC/USDT');
+    expect(report.mismatches.map(m => [m.type, m.orderId, m.exchangeOrderId])).toEqual([
+      ['unknown_to_exchange', 'ord-1', '99'],
+      ['orphaned_exchange_order', undefined, '29'],
+      ['status_mismatch', 'ord-2', '30'],
+    ]);
+    expect(db._orders[0].status).toBe('pending');
+  });
+
+  it('refuses fills beyond the local order quantity', async () => {
+    db._orders.push(localOrder({ quantity: 0.5 }));
+    adapter.getOpenOrders.mockResolvedValueOnce([
+      exchangeOrder({ status: 'FILLED', filledSize: '1', filledValue: '50000' }),
+    ]);
+
+    const report = await service.reconcileUser('user-1');
+
+    expect(report.mismatches[0]).toMatchObject({ type: 'quantity_mismatch', orderId: 'ord-1' });
+    expect(db._trades).toHaveLength(0);
+  });
+
+  it('audits runs that changed something and reconciles every user with pending orders', async () => {
+    db._orders.push(localOrder({}), localOrder({ id: 'ord-9', userId: 'user-2', exchangeConnectionId: undefined }));
+    adapter.getOpenOrders.mockResolvedValueOnce([exchangeOrder({ status: 'FILLED', filledSize: '1', filledValue: '50000' })]);
+
+    const reports = await service.reconcileAll();
+
+    expect(reports.map(r => [r.userId, r.checkedOrders, r.fills.length])).toEqual([
+      ['user-1', 1, 1],
+      ['user-2', 0, 0],
+    ]);
+    const history = await service.getHistory('user-1');
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ action: 'orders.reconcile', details: { checkedOrders: 1 } });
+    expect(await service.getHistory('user-2')).toHaveLength(0);
+    expect(service.getLastReport('user-2')).toMatchObject({ connections: 1, mismatches: [] });
+  });
+});
@@ -0,0 +1,338 @@
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order, ExchangeConnection } from '../database/DatabaseFactory';
+import type { ExchangeOrder } from '../exchanges/ExchangeService';
+import type { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+import type { NeonLiveTradingService } from './NeonLiveTradingService';
+
+export type ReconciliationMismatchType =
+  | 'orphaned_exchange_order' // Open on the exchange with no local order
+  | 'unknown_to_exchange' // Pending locally but the exchange has no record of it
+  | 'status_mismatch' // Open on the exchange but closed locally
+  | 'quantity_mismatch'; // The exchange filled more than the local order quantity
+
+export interface ReconciliationMismatch {
+  type: ReconciliationMismatchType;
+  connectionId: string;
+  orderId?: string;
+  exchangeOrderId?: string;
+  symbol: string;
+  detail: string;
+}
+
+export interface ReconciledFill {
+  orderId: string;
+  exchangeOrderId: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  complete: boolean;
+}
+
+export interface ReconciledClosure {
+  orderId: string;
+  exchangeOrderId: string;
+  status: 'cancelled' | 'expired' | 'rejected';
+}
+
+export interface ReconciliationReport {
+  userId: string;
+  startedAt: Date;
+  completedAt: Date;
+  connections: number;
+  checkedOrders: number;
+  fills: ReconciledFill[];
+  closedOrders: ReconciledClosure[];
+  mismatches: ReconciliationMismatch[];
+  errors: Array<{ connectionId: string; error: string }>;
+}
+
+export interface NeonOrderReconciliationServiceOptions {
+  db: NeonDatabase;
+  exchangeService: NeonExchangeAdapterService;
+  liveTradingService: NeonLiveTradingService;
+  /** Orders per symbol fetched from exchange order history */
+  historyLimit?: number;
+}
+
+const RECONCILE_ACTION = 'orders.reconcile';
+const EPSILON = 1e-9;
+
+// Exchange statuses (Coinbase vocabulary) that close an order without a full fill
+const CLOSED_STATUSES: Record<string, ReconciledClosure['status']> = {
+  CANCELLED: 'cancelled',
+  EXPIRED: 'expired',
+  FAILED: 'rejected',
+};
+
+/**
+ * NeonOrderReconciliationService
+ *
+ * Brings live Neon orders in line with what connected exchanges report.
+ * Local orders are matched to exchange orders by exchangeOrderId, or by
+ * client order ID (orders are submitted with the local order ID as their
+ * client order ID). Only orders with an exchange connection are reconciled.
+ *
+ * Each run:
+ * - Records new fills and partial fills as trades and position changes
+ * - Closes orders the exchange cancelled, expired or rejected
+ * - Flags orphaned exchange orders and local orders the exchange doesn't know
+ * - Writes an audit log entry when anything changed or was flagged
+ *
+ * Neon rows come back camelCase, so they are read through the DatabaseFactory
+ * row types rather than the column-named NeonDatabase interfaces.
+ */
+export class NeonOrderReconciliationService {
+  private db: NeonDatabase;
+  private exchangeService: NeonExchangeAdapterService;
+  private liveTradingService: NeonLiveTradingService;
+  private historyLimit: number;
+  private lastReports: Map<string, ReconciliationReport> = new Map();
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(options: NeonOrderReconciliationServiceOptions) {
+    this.db = options.db;
+    this.exchangeService = options.exchangeService;
+    this.liveTradingService = options.liveTradingService;
+    this.historyLimit = options.historyLimit ?? 100;
+  }
+
+  // ============================================================================
+  // Scheduling
+  // ============================================================================
+
+  /**
+   * Reconcile every user with pending live orders on an interval
+   */
+  start(intervalMs = 60_000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.reconcileAll().catch((error) => {
+        console.error('Order reconciliation failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async reconcileAll(): Promise<ReconciliationReport[]> {
+    // Skip a tick while the previous run is still talking to exchanges
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const pending = (await this.db.orders.findPending('live')) as unknown as Order[];
+      const userIds = Array.from(new Set(pending.map((o) => o.userId)));
+
+      const reports: ReconciliationReport[] = [];
+      for (const userId of userIds) {
+        reports.push(await this.reconcileUser(userId));
+      }
+      return reports;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ============================================================================
+  // Reconciliation
+  // ============================================================================
+
+  async reconcileUser(userId: string): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      userId,
+      startedAt: new Date(),
+      completedAt: new Date(),
+      connections: 0,
+      checkedOrders: 0,
+      fills: [],
+      closedOrders: [],
+      mismatches: [],
+      errors: [],
+    };
+
+    const connections = (await this.db.exchangeConnections.findByUserId(userId)) as unknown as ExchangeConnection[];
+    const liveOrders = (await this.db.orders.findByUserId(userId, { mode: 'live', limit: 500 })) as unknown as Order[];
+
+    for (const conn of connections) {
+      report.connections++;
+      try {
+        const orders = liveOrders.filter((o) => o.exchangeConnectionId === conn.id);
+        await this.reconcileConnection(conn, orders, report);
+      } catch (error: any) {
+        report.errors.push({ connectionId: conn.id, error: error.message || 'Reconciliation failed' });
+      }
+    }
+
+    report.completedAt = new Date();
+    this.lastReports.set(userId, report);
+
+    const changed = report.fills.length + report.closedOrders.length + report.mismatches.length + report.errors.length;
+    if (changed > 0) {
+      await this.db.auditLog.log({
+        userId,
+        action: RECONCILE_ACTION,
+        resourceType: 'orders',
+        details: {
+          checkedOrders: report.checkedOrders,
+          fills: report.fills,
+          closedOrders: report.closedOrders,
+          mismatches: report.mismatches,
+          errors: report.errors,
+        },
+      });
+    }
+
+    return report;
+  }
+
+  getLastReport(userId: string): ReconciliationReport | undefined {
+    return this.lastReports.get(userId);
+  }
+
+  /**
+   * Audit entries of past runs that changed or flagged something
+   */
+  async getHistory(userId: string, limit = 20): Promise<any[]> {
+    const entries = await this.db.auditLog.findByUserId(userId, 500);
+    return entries.filter((entry: any) => entry.action === RECONCILE_ACTION).slice(0, limit);
+  }
+
+  private async reconcileConnection(
+    conn: ExchangeConnection,
+    localOrders: Order[],
+    report: ReconciliationReport,
+  ): Promise<void> {
+    const pending = localOrders.filter((o) => o.status === 'pending');
+
+    let resolved;
+    try {
+      resolved = await this.exchangeService.getOrderAdapter(conn.id, conn.userId);
+    } catch (error) {
+      // Connections we cannot query only matter when local orders depend on them
+      if (pending.length === 0) return;
+      throw error;
+    }
+    const { adapter, ctx } = resolved;
+
+    // Some exchanges only list history per symbol
+    const openOrders = await adapter.getOpenOrders(ctx);
+    const symbols = Array.from(new Set(pending.map((o) => o.symbol)));
+    const history: ExchangeOrder[] = [];
+    for (const symbol of symbols) {
+      history.push(...(await adapter.getOrderHistory(ctx, symbol, this.historyLimit)));
+    }
+
+    const remoteById = new Map<string, ExchangeOrder>();
+    const remoteByClientId = new Map<string, ExchangeOrder>();
+    for (const remote of [...history, ...openOrders]) {
+      remoteById.set(remote.orderId, remote);
+      if (remote.clientOrderId) remoteByClientId.set(remote.clientOrderId, remote);
+    }
+
+    report.checkedOrders += pending.length;
+
+    for (const local of pending) {
+      let remote = (local.exchangeOrderId && remoteById.get(local.exchangeOrderId)) || remoteByClientId.get(local.id);
+      if (!remote && local.exchangeOrderId) {
+        remote = (await adapter.getOrder(ctx, local.exchangeOrderId, local.symbol)) ?? undefined;
+      }
+
+      if (!remote) {
+        report.mismatches.push({
+          type: 'unknown_to_exchange',
+          connectionId: conn.id,
+          orderId: local.id,
+          exchangeOrderId: local.exchangeOrderId,
+          symbol: local.symbol,
+          detail: 'Pending locally but not found on the exchange',
+        });
+        continue;
+      }
+
+      await this.applyExchangeState(conn, local, remote, report);
+    }
+
+    // Open exchange orders must belong to a pending local order
+    const localByExchangeId = new Map(localOrders.filter((o) => o.exchangeOrderId).map((o) => [o.exchangeOrderId!, o]));
+    const localById = new Map(localOrders.map((o) => [o.id, o]));
+
+    for (const remote of openOrders) {
+      const local = localByExchangeId.get(remote.orderId) || localById.get(remote.clientOrderId);
+
+      if (!local) {
+        report.mismatches.push({
+          type: 'orphaned_exchange_order',
+          connectionId: conn.id,
+          exchangeOrderId: remote.orderId,
+          symbol: remote.productId,
+          detail: `Open ${remote.side} order on the exchange with no local order`,
+        });
+      } else if (local.status !== 'pending') {
+        report.mismatches.push({
+          type: 'status_mismatch',
+          connectionId: conn.id,
+          orderId: local.id,
+          exchangeOrderId: remote.orderId,
+          symbol: local.symbol,
+          detail: `Open on the exchange but ${local.status} locally`,
+        });
+      }
+    }
+  }
+
+  private async applyExchangeState(
+    conn: ExchangeConnection,
+    local: Order,
+    remote: ExchangeOrder,
+    report: ReconciliationReport,
+  ): Promise<void> {
+    if (local.exchangeOrderId !== remote.orderId) {
+      await this.db.orders.update(local.id, { exchangeOrderId: remote.orderId } as any);
+    }
+
+    const exchangeFilled = parseFloat(remote.filledSize) || 0;
+    const localFilled = Number(local.filledQuantity ?? 0);
+    const newQuantity = exchangeFilled - localFilled;
+
+    if (exchangeFilled > Number(local.quantity) + EPSILON) {
+      report.mismatches.push({
+        type: 'quantity_mismatch',
+        connectionId: conn.id,
+        orderId: local.id,
+        exchangeOrderId: remote.orderId,
+        symbol: local.symbol,
+        detail: `Exchange filled ${exchangeFilled} of a ${local.quantity} order`,
+      });
+      return;
+    }
+
+    const complete = remote.status === 'FILLED';
+
+    if (newQuantity > EPSILON) {
+      // Price and fee of just the new portion, from the exchange's running totals
+      const localValue = Number(local.filledPrice ?? 0) * localFilled;
+      const newValue = (parseFloat(remote.filledValue) || 0) - localValue;
+      const price = newValue > 0 ? newValue / newQuantity : parseFloat(remote.averageFilledPrice);
+      const fee = Math.max(0, (parseFloat(remote.totalFees ?? '0') || 0) - Number(local.fee ?? 0));
+
+      await this.liveTradingService.recordExecution({ orderId: local.id, quantity: newQuantity, price, fee, complete });
+      report.fills.push({ orderId: local.id, exchangeOrderId: remote.orderId, quantity: newQuantity, price, fee, complete });
+    } else if (complete) {
+      await this.db.orders.update(local.id, { status: 'filled', filledAt: new Date() } as any);
+    }
+
+    const closedStatus = CLOSED_STATUSES[remote.status];
+    if (closedStatus) {
+      await this.db.orders.update(local.id, { status: closedStatus } as any);
+      report.closedOrders.push({ orderId: local.id, exchangeOrderId: remote.orderId, status: closedStatus });
+    }
+  }
+}
@@ -7,6 +7,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OrderService, Order, OrderType, OrderSide, OrderStatus, Position } from './OrderService';
 import { StrategyService } from '../strategies/StrategyService';
 import { ConfigService } from '../config/ConfigService';
+import { PaperTradingEngine } from '../trading/PaperTradingEngine';
 import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
 
 describe('OrderService', () => {
@@ -525,6 +526,37 @@ describe('OrderService', () => {
       ).rejects.toThrow('Maximum open orders reached');
     });
 
+    it('should_apply_user_risk_overrides_and_explain_dry_runs', async () => {
+      orderService.getRiskGate().setUserOverrides(userId, { limits: { maxOrderNotional: 10000 } });
+      const params = {
+        userId,
+        strategyId,
+        symbol: 'BTC/USDT',
+        side: 'buy' as const,
+        type: 'limit' as const,
+        quantity: 0.5,
+        price: 45000,
+        mode: 'paper' as const,
+      };
+
+      const decision = await orderService.checkOrderRisk(params);
+
+      expect(decision).toMatchObject({
+        allowed: false,
+        dryRun: true,
+        rejectedBy: 'order_notional',
+        reason: 'Order notional 22500 exceeds maximum 10000',
+      });
+      expect(decision.limits).toMatchObject({ maxOpenOrders: 10, maxDailyLoss: 1000, maxOrderNotional: 10000 });
+      expect(await orderService.getUserOrders(userId)).toHaveLength(0);
+
+      await expect(orderService.createOrder(params)).rejects.toMatchObject({
+        name: 'PreTradeRiskError',
+        message: 'Order notional 22500 exceeds maximum 10000',
+      });
+      expect(await orderService.createOrder({ ...params, quantity: 0.2 })).toMatchObject({ status: 'pending' });
+    });
+
     it('should_require_live_trading_tier_for_live_mode', async () => {
       // Create free tier user
       const freeUser = await db.users.create({
@@ -1080,6 +1112,345 @@ describe('OrderService', () => {
     });
   });
 
+  // ============================================================================
+  // Advanced Order Types
+  // ============================================================================
+
+  describe('Advanced Order Types', () => {
+    const base = () => ({ userId, strategyId, symbol: 'BTC/USDT', quantity: 0.1, mode: 'paper' as const });
+
+    it('should_trail_sell_stop_behind_the_high_and_trigger_on_reversal', async () => {
+      const order = await orderService.createOrder({
+        ...base(),
+        side: 'sell',
+        type: 'trailing_stop',
+        trailingOffset: 5,
+        trailingOffsetType: 'percent',
+      });
+
+      await orderService.checkStopOrder(order.id, 50000);
+      expect(order.stopPrice).toBe(47500);
+
+      await orderService.checkStopOrder(order.id, 60000);
+      await orderService.checkStopOrder(order.id, 58000);
+      expect(order.stopPrice).toBe(57000);
+      expect(order.status).toBe('pending');
+
+      await orderService.checkStopOrder(order.id, 56900);
+      expect(order.status).toBe('filled');
+      expect(order.filledPrice).toBe(56900);
+    });
+
+    it('should_trail_by_absolute_offset_and_widen_on_modify', async () => {
+      const order = await orderService.createOrder({
+        ...base(),
+        side: 'buy',
+        type: 'trailing_stop',
+        trailingOffset: 500,
+        trailingOffsetType: 'absolute',
+      });
+
+      await orderService.checkStopOrder(order.id, 50000);
+      await orderService.checkStopOrder(order.id, 48000);
+      expect(order.stopPrice).toBe(48500);
+
+      await orderService.modifyOrder(order.id, { trailingOffset: 1000 });
+      expect(order.stopPrice).toBe(49000);
+
+      await expect(orderService.createOrder({ ...base(), side: 'sell', type: 'trailing_stop' }))
+        .rejects.toThrow('Trailing stops require a positive trailing offset');
+    });
+
+    it('should_cancel_the_other_oco_leg_when_one_fills', async () => {
+      const [target, stop] = await orderService.createOcoOrder({
+        ...base(),
+        side: 'sell',
+        legs: [
+          { type: 'limit', price: 55000 },
+          { type: 'stop_loss', stopPrice: 45000 },
+        ],
+      });
+
+      expect(target.ocoGroupId).toBe(stop.ocoGroupId);
+
+      const filled = await orderService.evaluateOrders('BTC/USDT', 44000);
+      expect(filled.map(o => o.id)).toEqual([stop.id]);
+      expect(target.status).toBe('cancelled');
+    });
+
+    it('should_cancel_both_oco_legs_when_one_is_cancelled', async () => {
+      const [target, stop] = await orderService.createOcoOrder({
+        ...base(),
+        side: 'sell',
+        legs: [
+          { type: 'take_profit', stopPrice: 55000 },
+          { type: 'stop_loss', stopPrice: 45000 },
+        ],
+      });
+
+      await orderService.cancelOrder(stop.id);
+      expect(target.status).toBe('cancelled');
+    });
+
+    it('should_arm_bracket_exits_only_after_the_entry_fills', async () => {
+      const { entry, stopLoss, takeProfit } = await orderService.createBracketOrder({
+        ...base(),
+        side: 'buy',
+        type: 'limit',
+        price: 50000,
+        stopLoss: { stopPrice: 48000 },
+        takeProfit: { price: 55000 },
+      });
+
+      expect(stopLoss).toMatchObject({ side: 'sell', type: 'stop_loss', parentOrderId: entry.id });
+      expect(takeProfit).toMatchObject({ side: 'sell', type: 'take_profit', stopPrice: 55000 });
+
+      // Dormant while the entry rests
+      await orderService.checkStopOrder(stopLoss.id, 47000);
+      expect(stopLoss.status).toBe('pending');
+
+      await orderService.evaluateOrders('BTC/USDT', 49900);
+      expect(entry.status).toBe('filled');
+
+      const filled = await orderService.evaluateOrders('BTC/USDT', 56000);
+      expect(filled.map(o => o.id)).toEqual([takeProfit.id]);
+      expect(stopLoss.status).toBe('cancelled');
+      expect(await orderService.getOpenPositions(userId)).toHaveLength(0);
+    });
+
+    it('should_cascade_entry_cancellation_and_quantity_changes_to_exits', async () => {
+      const { entry, stopLoss, takeProfit } = await orderService.createBracketOrder({
+        ...base(),
+        side: 'buy',
+        type: 'limit',
+        price: 50000,
+        stopLoss: { trailingOffset: 2 },
+        takeProfit: { price: 55000 },
+      });
+
+      expect(stopLoss.type).toBe('trailing_stop');
+      expect(await orderService.getLinkedOrders(entry.id)).toHaveLength(2);
+
+      await orderService.modifyOrder(entry.id, { quantity: 0.3 });
+      expect(stopLoss.quantity).toBe(0.3);
+      expect(takeProfit.quantity).toBe(0.3);
+
+      await orderService.cancelOrder(entry.id);
+      expect(stopLoss.status).toBe('cancelled');
+      expect(takeProfit.status).toBe('cancelled');
+    });
+
+    it('should_reject_inverted_brackets_without_leaving_orders_behind', async () => {
+      await expect(orderService.createBracketOrder({
+        ...base(),
+        side: 'buy',
+        type: 'limit',
+        price: 50000,
+        stopLoss: { stopPrice: 51000 },
+        takeProfit: { price: 55000 },
+      })).rejects.toThrow('Bracket stop loss must be below the entry price');
+
+      // Free tier allows 5 open orders: the exits fail after the entry was created
+      const freeUser = await db.users.create({ email: 'free@example.com', passwordHash: 'hashed', tier: 'free' });
+      for (let i = 0; i < 4; i++) {
+        await orderService.createOrder({ ...base(), userId: freeUser.id, side: 'buy', type: 'limit', price: 40000 });
+      }
+      await expect(orderService.createBracketOrder({
+        ...base(),
+        userId: freeUser.id,
+        side: 'buy',
+        type: 'market',
+        stopLoss: { stopPrice: 45000 },
+        takeProfit: { price: 55000 },
+      })).rejects.toThrow('Maximum open orders reached');
+
+      expect(await orderService.getUserOrders(freeUser.id)).toHaveLength(4);
+    });
+  });
+
+  // ============================================================================
+  // Time in Force
+  // ============================================================================
+
+  describe('Time in Force', () => {
+    const base = () => ({ userId, strategyId, symbol: 'BTC/USDT', quantity: 0.1, mode: 'paper' as const });
+
+    it('should_expire_good_till_date_orders_and_audit_them', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      const order = await orderService.createOrder({
+        ...base(), side: 'buy', type: 'limit', price: 40000, timeInForce: 'GTD', expiresAt,
+      });
+
+      expect(await orderService.expireStaleOrders()).toHaveLength(0);
+
+      const expired = await orderService.expireStaleOrders(new Date(expiresAt.getTime() + 1));
+      expect(expired.map(o => o.id)).toEqual([order.id]);
+      expect(order.status).toBe('expired');
+
+      const logs = await db.auditLogs.findByUserId(userId);
+      expect(logs[0]).toMatchObject({
+        action: 'order_expired',
+        details: { orderId: order.id, timeInForce: 'GTD', reason: 'time_in_force' },
+      });
+    });
+
+    it('should_expire_day_orders_at_the_end_of_the_utc_day', async () => {
+      const order = await orderService.createOrder({ ...base(), side: 'buy', type: 'limit', price: 40000, timeInForce: 'DAY' });
+      const now = new Date();
+
+      expect(order.expiresAt).toEqual(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)));
+      const gtc = await orderService.createOrder({ ...base(), side: 'buy', type: 'limit', price: 40000 });
+      expect(gtc).toMatchObject({ timeInForce: 'GTC', expiresAt: undefined });
+    });
+
+    it('should_expire_immediate_limit_orders_that_cannot_fill', async () => {
+      const order = await orderService.createOrder({ ...base(), side: 'buy', type: 'limit', price: 40000, timeInForce: 'IOC' });
+
+      await orderService.checkLimitOrder(order.id, 50000);
+      expect(order.status).toBe('expired');
+    });
+
+    it('should_validate_time_in_force', async () => {
+      await expect(orderService.createOrder({ ...base(), side: 'buy', type: 'limit', price: 40000, timeInForce: 'GTD' }))
+        .rejects.toThrow('Good-till-date orders require an expiry time');
+      await expect(orderService.createOrder({
+        ...base(), side: 'buy', type: 'limit', price: 40000, timeInForce: 'GTD', expiresAt: new Date(Date.now() - 1000),
+      })).rejects.toThrow('Order expiry time must be in the future');
+      await expect(orderService.createOrder({
+        ...base(), side: 'buy', type: 'limit', price: 40000, expiresAt: new Date(Date.now() + 1000),
+      })).rejects.toThrow('Expiry time is only supported for good-till-date orders');
+      await expect(orderService.createOrder({ ...base(), side: 'sell', type: 'stop_loss', stopPrice: 45000, timeInForce: 'FOK' }))
+        .rejects.toThrow('IOC and FOK time in force apply to market and limit orders only');
+    });
+
+    it('should_expire_bracket_exits_with_an_unfilled_entry', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      const { entry, stopLoss, takeProfit } = await orderService.createBracketOrder({
+        ...base(),
+        side: 'buy',
+        type: 'limit',
+        price: 50000,
+        timeInForce: 'GTD',
+        expiresAt,
+        stopLoss: { stopPrice: 48000 },
+        takeProfit: { price: 55000 },
+      });
+
+      await orderService.expireStaleOrders(new Date(expiresAt.getTime() + 1));
+
+      expect([entry.status, stopLoss.status, takeProfit.status]).toEqual(['expired', 'expired', 'expired']);
+    });
+
+    it('should_expire_paper_engine_orders_and_release_their_balances', async () => {
+      const engine = new PaperTradingEngine({ initialBalance: { USDT: 10000 } });
+      engine.setMockPrice('BTC/USDT', 50000);
+      const sweeper = new OrderService({ db, configService, strategyService, paperEngines: new Map([[userId, engine]]) });
+      const expiresAt = new Date(Date.now() + 60_000);
+
+      const order = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 40000, timeInForce: 'GTD', expiresAt,
+      });
+      expect(engine.getBalances().USDT.locked).toBe(4000);
+
+      await sweeper.expireStaleOrders(new Date(expiresAt.getTime() + 1));
+
+      expect(order.status).toBe('expired');
+      expect(engine.getBalances().USDT).toEqual({ available: 10000, locked: 0 });
+      expect((await db.auditLogs.findByUserId(userId))[0].details).toMatchObject({ orderId: order.id, mode: 'paper' });
+    });
+  });
+
+  // ============================================================================
+  // Perpetual Futures
+  // ============================================================================
+
+  describe('Perpetual Futures', () => {
+    const perp = () => ({ userId, strategyId, symbol: 'BTC/USDT:USDT', mode: 'paper' as const, contractSize: 0.01 });
+
+    it('should_track_positions_in_contracts_and_scale_pnl_and_fees_by_contract_size', async () => {
+      const entry = await orderService.createOrder({ ...perp(), side: 'buy', type: 'market', quantity: 10 });
+      await orderService.executePaperOrder(entry.id, 50000, { slippage: 0, fee: 0.05 });
+
+      expect(entry.fee).toBeCloseTo(2.5); // 10 contracts * 0.01 BTC * 50000 * 0.05%
+      const [position] = await orderService.getOpenPositions(userId);
+      expect(position).toMatchObject({ side: 'long', quantity: 10, contractSize: 0.01, entryPrice: 50000 });
+      expect(await orderService.calculateUnrealizedPnl(userId, 'BTC/USDT:USDT', 51000)).toBeCloseTo(100);
+
+      const exit = await orderService.createOrder({ ...perp(), side: 'sell', type: 'market', quantity: 10 });
+      await orderService.executePaperOrder(exit.id, 49000, { slippage: 0 });
+
+      const [closed] = await orderService.getClosedPositions(userId);
+      expect(closed.realizedPnl).toBeCloseTo(-100);
+    });
+
+    it('should_settle_funding_between_longs_and_shorts_at_the_mark_price', async () => {
+      const long = await orderService.createOrder({ ...perp(), side: 'buy', type: 'market', quantity: 10 });
+      await orderService.executePaperOrder(long.id, 50000, { slippage: 0 });
+
+      const payments = await orderService.applyFundingPayment('BTC/USDT:USDT', 0.0001, 50000);
+      expect(payments).toEqual([
+        expect.objectContaining({ userId, side: 'long', rate: 0.0001, amount: expect.closeTo(-0.5) }),
+      ]);
+      await orderService.applyFundingPayment('BTC/USDT:USDT', -0.0003, 50000);
+
+      const exit = await orderService.createOrder({ ...perp(), side: 'sell', type: 'market', quantity: 10 });
+      await orderService.executePaperOrder(exit.id, 50000, { slippage: 0 });
+
+      const [closed] = await orderService.getClosedPositions(userId);
+      expect(closed.fundingPnl).toBeCloseTo(1);
+      expect(closed.realizedPnl).toBeCloseTo(1);
+      await expect(orderService.applyFundingPayment('BTC/USDT', 0.0001, 50000)).rejects.toThrow(
+        'Funding only applies to perpetual contracts'
+      );
+    });
+
+    it('should_clip_reduce_only_orders_to_the_open_position_and_cancel_them_without_one', async () => {
+      const orphan = await orderService.createOrder({ ...perp(), side: 'sell', type: 'market', quantity: 5, reduceOnly: true });
+      await orderService.executePaperOrder(orphan.id, 50000, { slippage: 0 });
+      expect(orphan.status).toBe('cancelled');
+      expect(await orderService.getOpenPositions(userId)).toHaveLength(0);
+
+      const entry = await orderService.createOrder({ ...perp(), side: 'buy', type: 'market', quantity: 4 });
+      await orderService.executePaperOrder(entry.id, 50000, { slippage: 0 });
+
+      const reduce = await orderService.createOrder({ ...perp(), side: 'sell', type: 'market', quantity: 10, reduceOnly: true });
+      await orderService.executePaperOrder(reduce.id, 50000, { slippage: 0, fee: 0.1 });
+
+      expect(reduce).toMatchObject({ status: 'filled', quantity: 4 });
+      expect(reduce.fee).toBeCloseTo(2); // 4 contracts * 0.01 * 50000 * 0.1%
+      expect(await orderService.getOpenPositions(userId)).toHaveLength(0);
+    });
+
+    it('should_never_fill_post_only_orders_as_a_taker', async () => {
+      const order = await orderService.createOrder({ ...perp(), side: 'buy', type: 'limit', price: 49000, quantity: 1, postOnly: true });
+
+      await expect(orderService.executePaperOrder(order.id, 50000)).rejects.toThrow('Post-only orders cannot take liquidity');
+      expect(order.status).toBe('pending');
+
+      await orderService.checkLimitOrder(order.id, 48900);
+      expect(order).toMatchObject({ status: 'filled', filledPrice: 49000 });
+    });
+
+    it('should_validate_execution_flags_and_contract_terms', async () => {
+      const spot = { userId, strategyId, symbol: 'BTC/USDT', mode: 'paper' as const, side: 'sell' as const, quantity: 1 };
+
+      await expect(orderService.createOrder({ ...perp(), side: 'buy', type: 'market', quantity: 1, postOnly: true }))
+        .rejects.toThrow('Post-only orders must be limit orders');
+      await expect(orderService.createOrder({
+        ...perp(), side: 'buy', type: 'limit', price: 49000, quantity: 1, postOnly: true, timeInForce: 'IOC',
+      })).rejects.toThrow('Post-only orders cannot be IOC or FOK');
+      await expect(orderService.createOrder({ ...spot, type: 'market', reduceOnly: true }))
+        .rejects.toThrow('Reduce-only orders are only supported on perpetual contracts');
+      await expect(orderService.createOrder({ ...spot, type: 'market', contractSize: 0.01 }))
+        .rejects.toThrow('Contract size only applies to perpetual contracts');
+      await expect(orderService.createOrder({ ...perp(), side: 'buy', type: 'market', quantity: 1, contractSize: 0 }))
+        .rejects.toThrow('Contract size must be positive');
+
+      const defaulted = await orderService.createOrder({ ...perp(), contractSize: undefined, side: 'buy', type: 'market', quantity: 1 });
+      expect(defaulted.contractSize).toBe(1);
+    });
+  });
+
   // ============================================================================
   // Portfolio Summary
   // ============================================================================
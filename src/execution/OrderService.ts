@@ -8,16 +8,22 @@ import { StrategyService } from '../strategies/StrategyService';
 import { ConfigService } from '../config/ConfigService';
 import type { StrategyExecutionMode } from '../database/types';
 import type { BacktestService, BacktestResult } from '../backtesting/BacktestService';
+import type { PaperTradingEngine } from '../trading/PaperTradingEngine';
+import { isPerpetualSymbol } from '../exchanges/ExchangeService';
+import { PreTradeRiskGate, DEFAULT_PRE_TRADE_LIMITS } from '../risk/PreTradeRiskGate';
+import type { PreTradeContext, PreTradeDecision, PreTradeOrder } from '../risk/PreTradeRiskGate';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type OrderType = 'market' | 'limit' | 'stop_loss' | 'take_profit';
+export type OrderType = 'market' | 'limit' | 'stop_loss' | 'take_profit' | 'trailing_stop';
 export type OrderSide = 'buy' | 'sell';
 export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'rejected' | 'expired';
 export type OrderMode = 'paper' | 'live';
 export type PositionSide = 'long' | 'short';
+export type TrailingOffsetType = 'percent' | 'absolute';
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTD' | 'DAY';
 
 export type OrderApprovalStatus = 'pending' | 'approved' | 'rejected';
 
@@ -31,6 +37,13 @@ export interface OrderApprovalRequest {
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailingOffset?: number;
+  trailingOffsetType?: TrailingOffsetType;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  contractSize?: number;
   mode: OrderMode;
   exchangeId?: string;
   status: OrderApprovalStatus;
@@ -49,6 +62,17 @@ export interface Order {
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailingOffset?: number;
+  trailingOffsetType?: TrailingOffsetType;
+  trailingReferencePrice?: number; // Best price seen since the trailing stop was armed
+  parentOrderId?: string; // Bracket entry this order exits; inactive until the entry fills
+  ocoGroupId?: string; // Pending orders in the same group are cancelled when one fills
+  routeId?: string; // Smart-routed order this child was split from
+  timeInForce: TimeInForce;
+  expiresAt?: Date; // Set for GTD and DAY orders; the expiry sweep expires them after this
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  contractSize?: number; // Perpetuals only: base units per contract; quantity is in contracts
   status: OrderStatus;
   mode: OrderMode;
   exchangeId?: string;
@@ -69,11 +93,23 @@ export interface Position {
   entryPrice: number;
   currentPrice?: number;
   unrealizedPnl?: number;
-  realizedPnl?: number;
+  realizedPnl?: number; // Includes funding for perpetuals
+  contractSize?: number; // Perpetuals only; quantity is in contracts
+  fundingPnl?: number; // Funding received (positive) or paid (negative) while open
   openedAt: Date;
   closedAt?: Date;
 }
 
+export interface FundingPayment {
+  positionId: string;
+  userId: string;
+  symbol: string;
+  side: PositionSide;
+  rate: number;
+  markPrice: number;
+  amount: number; // Positive when received, negative when paid
+}
+
 export interface CreateOrderParams {
   userId: string;
   strategyId: string;
@@ -83,8 +119,51 @@ export interface CreateOrderParams {
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailingOffset?: number; // Percent (2 = 2%) or quote amount, see trailingOffsetType
+  trailingOffsetType?: TrailingOffsetType;
+  timeInForce?: TimeInForce; // Defaults to GTC
+  expiresAt?: Date; // Required for GTD
+  postOnly?: boolean; // Limit orders only; never fills as a taker
+  reduceOnly?: boolean; // Perpetuals only; clipped to the opposing open position
+  contractSize?: number; // Perpetuals only; defaults to 1
   mode: OrderMode;
   exchangeId?: string;
+  routeId?: string; // Set by SmartOrderRouter on the child orders it places
+}
+
+export type OrderLegParams = Pick<CreateOrderParams, 'type' | 'price' | 'stopPrice' | 'trailingOffset' | 'trailingOffsetType'>;
+
+export interface CreateOcoOrderParams extends Omit<CreateOrderParams, keyof OrderLegParams> {
+  legs: OrderLegParams[];
+}
+
+export interface CreateBracketOrderParams extends CreateOrderParams {
+  stopLoss: {
+    stopPrice?: number;
+    trailingOffset?: number;
+    trailingOffsetType?: TrailingOffsetType;
+  };
+  takeProfit: {
+    price: number;
+  };
+}
+
+export interface BracketOrder {
+  entry: Order;
+  stopLoss: Order;
+  takeProfit: Order;
+}
+
+export interface OrderModification {
+  price?: number;
+  quantity?: number;
+  stopPrice?: number;
+  trailingOffset?: number;
+}
+
+interface OrderLinks {
+  parentOrderId?: string;
+  ocoGroupId?: string;
 }
 
 export interface ExecutionOptions {
@@ -121,6 +200,10 @@ export interface OrderServiceOptions {
   configService: ConfigService;
   strategyService: StrategyService;
   backtestService?: BacktestService;
+  /** Paper engines keyed by user ID whose resting orders the expiry sweep also expires */
+  paperEngines?: { entries(): Iterable<[string, PaperTradingEngine]> };
+  /** Pre-trade risk pipeline every order passes through; defaults to the standard rules */
+  riskGate?: PreTradeRiskGate;
 }
 
 // ============================================================================
@@ -147,12 +230,17 @@ export class OrderService {
   private positions: Map<string, Position[]> = new Map();
   private dailyLosses: Map<string, number> = new Map();
   private approvals: Map<string, OrderApprovalRequest> = new Map();
+  private paperEngines?: { entries(): Iterable<[string, PaperTradingEngine]> };
+  private riskGate: PreTradeRiskGate;
+  private expiryTimer?: ReturnType<typeof setInterval>;
 
   constructor(options: OrderServiceOptions) {
     this.db = options.db;
     this.configService = options.configService;
     this.strategyService = options.strategyService;
     this.backtestService = options.backtestService;
+    this.paperEngines = options.paperEngines;
+    this.riskGate = options.riskGate ?? new PreTradeRiskGate();
   }
 
   // ============================================================================
@@ -165,7 +253,7 @@ export class OrderService {
 
   private async createOrderInternal(
     params: CreateOrderParams,
-    options?: { allowManualLive?: boolean }
+    options?: { allowManualLive?: boolean; links?: OrderLinks }
   ): Promise<Order> {
     // Validate quantity
     if (params.quantity <= 0) {
@@ -187,6 +275,35 @@ export class OrderService {
       throw new Error('Stop orders require a stop price');
     }
 
+    // Validate trailing stops
+    if (params.type === 'trailing_stop') {
+      this.validateTrailingOffset(params.trailingOffset, params.trailingOffsetType);
+    }
+
+    // Validate time in force
+    const timeInForce = params.timeInForce ?? 'GTC';
+    const expiresAt = resolveOrderExpiry(params.type, timeInForce, params.expiresAt);
+
+    // Validate execution flags and contract terms
+    if (params.postOnly) {
+      if (params.type !== 'limit') {
+        throw new Error('Post-only orders must be limit orders');
+      }
+      if (timeInForce === 'IOC' || timeInForce === 'FOK') {
+        throw new Error('Post-only orders cannot be IOC or FOK');
+      }
+    }
+    const perpetual = isPerpetualSymbol(params.symbol);
+    if (!perpetual && params.reduceOnly) {
+      throw new Error('Reduce-only orders are only supported on perpetual contracts');
+    }
+    if (!perpetual && params.contractSize !== undefined) {
+      throw new Error('Contract size only applies to perpetual contracts');
+    }
+    if (params.contractSize !== undefined && !(params.contractSize > 0)) {
+      throw new Error('Contract size must be positive');
+    }
+
     // Get user for tier checks
     const user = await this.db.users.findById(params.userId);
     if (!user) {
@@ -234,14 +351,8 @@ export class OrderService {
       await this.enforceBacktestGate(params.strategyId);
     }
 
-    // Check daily loss limit
-    await this.checkDailyLossLimit(params.userId, user.tier);
-
-    // Check max open orders
-    await this.checkMaxOpenOrders(params.userId, user.tier);
-
-    // Check position size limit
-    await this.checkPositionSizeLimit(params);
+    // Pre-trade risk pipeline: tier limits, position size and any user overrides
+    await this.riskGate.enforce(toPreTradeOrder(params), this.riskContext(params, user.tier, strategy.config));
 
     // Create order
     const order: Order = {
@@ -254,6 +365,17 @@ export class OrderService {
       quantity: params.quantity,
       price: params.price,
       stopPrice: params.stopPrice,
+      ...(params.type === 'trailing_stop' && {
+        trailingOffset: params.trailingOffset,
+        trailingOffsetType: params.trailingOffsetType ?? 'percent',
+      }),
+      ...options?.links,
+      ...(params.routeId && { routeId: params.routeId }),
+      timeInForce,
+      expiresAt,
+      ...(params.postOnly && { postOnly: true }),
+      ...(params.reduceOnly && { reduceOnly: true }),
+      ...(perpetual && { contractSize: params.contractSize ?? 1 }),
       status: 'pending',
       mode: params.mode,
       exchangeId: params.exchangeId,
@@ -265,6 +387,146 @@ export class OrderService {
     return order;
   }
 
+  private validateTrailingOffset(offset: number | undefined, offsetType: TrailingOffsetType = 'percent'): void {
+    if (offset === undefined || offset <= 0) {
+      throw new Error('Trailing stops require a positive trailing offset');
+    }
+    if (offsetType === 'percent' && offset >= 100) {
+      throw new Error('Trailing stop percent must be below 100');
+    }
+  }
+
+  // ============================================================================
+  // Linked Orders (OCO and Bracket)
+  // ============================================================================
+
+  /**
+   * Create two orders that cancel each other: whichever fills first cancels
+   * the other, and cancelling either leg cancels both.
+   */
+  async createOcoOrder(params: CreateOcoOrderParams): Promise<Order[]> {
+    const { legs, ...base } = params;
+
+    if (legs.length !== 2) {
+      throw new Error('OCO orders require exactly two legs');
+    }
+    if (legs.some(leg => leg.type === 'market')) {
+      throw new Error('OCO legs cannot be market orders');
+    }
+
+    const ocoGroupId = uuidv4();
+    return this.createLinkedOrders(legs.map(leg => ({ params: { ...base, ...leg }, links: { ocoGroupId } })));
+  }
+
+  /**
+   * Create an entry order with a stop loss and take profit that arm once the
+   * entry fills. The exits form an OCO pair; cancelling the entry cancels both.
+   */
+  async createBracketOrder(params: CreateBracketOrderParams): Promise<BracketOrder> {
+    const { stopLoss, takeProfit, ...entryParams } = params;
+    const isLong = entryParams.side === 'buy';
+
+    if (entryParams.type !== 'market' && entryParams.type !== 'limit') {
+      throw new Error('Bracket entries must be market or limit orders');
+    }
+
+    if (stopLoss.stopPrice === undefined && stopLoss.trailingOffset === undefined) {
+      throw new Error('Bracket orders require a stop loss price or trailing offset');
+    }
+
+    // Stop below and target above the entry for longs, mirrored for shorts
+    const ordered = (low: number, high: number) => (isLong ? low < high : low > high);
+    if (stopLoss.stopPrice !== undefined && !ordered(stopLoss.stopPrice, takeProfit.price)) {
+      throw new Error(`Bracket stop loss must be ${isLong ? 'below' : 'above'} the take profit`);
+    }
+    if (entryParams.type === 'limit' && entryParams.price !== undefined) {
+      if (stopLoss.stopPrice !== undefined && !ordered(stopLoss.stopPrice, entryParams.price)) {
+        throw new Error(`Bracket stop loss must be ${isLong ? 'below' : 'above'} the entry price`);
+      }
+      if (!ordered(entryParams.price, takeProfit.price)) {
+        throw new Error(`Bracket take profit must be ${isLong ? 'above' : 'below'} the entry price`);
+      }
+    }
+
+    const entry = await this.createOrderInternal(entryParams);
+    const exit = {
+      userId: entryParams.userId,
+      strategyId: entryParams.strategyId,
+      symbol: entryParams.symbol,
+      side: (isLong ? 'sell' : 'buy') as OrderSide,
+      quantity: entryParams.quantity,
+      contractSize: entryParams.contractSize,
+      mode: entryParams.mode,
+      exchangeId: entryParams.exchangeId,
+    };
+    const links = { parentOrderId: entry.id, ocoGroupId: uuidv4() };
+
+    try {
+      const [stopOrder, targetOrder] = await this.createLinkedOrders([
+        {
+          params: stopLoss.trailingOffset !== undefined
+            ? { ...exit, type: 'trailing_stop', ...stopLoss }
+            : { ...exit, type: 'stop_loss', stopPrice: stopLoss.stopPrice },
+          links,
+        },
+        { params: { ...exit, type: 'take_profit', stopPrice: takeProfit.price }, links },
+      ]);
+
+      return { entry, stopLoss: stopOrder, takeProfit: targetOrder };
+    } catch (error) {
+      this.orders.delete(entry.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders linked to this one: bracket children, its bracket parent and OCO siblings
+   */
+  async getLinkedOrders(orderId: string): Promise<Order[]> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    return Array.from(this.orders.values()).filter(o =>
+      o.id !== order.id && (
+        o.parentOrderId === order.id ||
+        o.id === order.parentOrderId ||
+        (order.ocoGroupId !== undefined && o.ocoGroupId === order.ocoGroupId)
+      )
+    );
+  }
+
+  /**
+   * Create a set of orders atomically: if any fails validation, none are kept
+   */
+  private async createLinkedOrders(
+    requests: Array<{ params: CreateOrderParams; links: OrderLinks }>
+  ): Promise<Order[]> {
+    const created: Order[] = [];
+
+    try {
+      for (const { params, links } of requests) {
+        created.push(await this.createOrderInternal(params, { links }));
+      }
+    } catch (error) {
+      for (const order of created) {
+        this.orders.delete(order.id);
+      }
+      throw error;
+    }
+
+    return created;
+  }
+
+  /**
+   * Bracket exits stay dormant until their entry has filled
+   */
+  private isArmed(order: Order): boolean {
+    if (!order.parentOrderId) return true;
+    return this.orders.get(order.parentOrderId)?.status === 'filled';
+  }
+
   // ============================================================================
   // Manual Execution Approvals
   // ============================================================================
@@ -284,6 +546,13 @@ export class OrderService {
       quantity: params.quantity,
       price: params.price,
       stopPrice: params.stopPrice,
+      trailingOffset: params.trailingOffset,
+      trailingOffsetType: params.trailingOffsetType,
+      timeInForce: params.timeInForce,
+      expiresAt: params.expiresAt,
+      postOnly: params.postOnly,
+      reduceOnly: params.reduceOnly,
+      contractSize: params.contractSize,
       mode: params.mode,
       exchangeId: params.exchangeId,
       status: 'pending',
@@ -327,6 +596,13 @@ export class OrderService {
         quantity: approval.quantity,
         price: approval.price,
         stopPrice: approval.stopPrice,
+        trailingOffset: approval.trailingOffset,
+        trailingOffsetType: approval.trailingOffsetType,
+        timeInForce: approval.timeInForce,
+        expiresAt: approval.expiresAt,
+        postOnly: approval.postOnly,
+        reduceOnly: approval.reduceOnly,
+        contractSize: approval.contractSize,
         mode: approval.mode,
         exchangeId: approval.exchangeId,
       },
@@ -359,47 +635,58 @@ export class OrderService {
     return approval;
   }
 
-  private async checkDailyLossLimit(userId: string, tier: string): Promise<void> {
-    const limits = TIER_ORDER_LIMITS[tier];
-    if (limits.maxDailyLoss === -1) return; // Unlimited
+  // ============================================================================
+  // Pre-Trade Risk
+  // ============================================================================
 
-    const dailyLoss = this.dailyLosses.get(userId) || 0;
-    if (dailyLoss >= limits.maxDailyLoss) {
-      throw new Error('Daily loss limit reached');
+  /**
+   * Run an order through the pre-trade risk pipeline without placing it
+   */
+  async checkOrderRisk(params: CreateOrderParams): Promise<PreTradeDecision> {
+    const user = await this.db.users.findById(params.userId);
+    if (!user) {
+      throw new Error('User not found');
     }
-  }
 
-  private async checkMaxOpenOrders(userId: string, tier: string): Promise<void> {
-    const limits = TIER_ORDER_LIMITS[tier];
-    if (limits.maxOpenOrders === -1) return; // Unlimited
+    const strategy = await this.strategyService.getStrategy(params.strategyId);
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
 
-    const userOrders = Array.from(this.orders.values()).filter(
-      o => o.userId === userId && o.status === 'pending'
+    return this.riskGate.evaluate(
+      toPreTradeOrder(params),
+      this.riskContext(params, user.tier, strategy.config),
+      { dryRun: true }
     );
-
-    if (userOrders.length >= limits.maxOpenOrders) {
-      throw new Error('Maximum open orders reached');
-    }
   }
 
-  private async checkPositionSizeLimit(params: CreateOrderParams): Promise<void> {
-    const strategy = await this.strategyService.getStrategy(params.strategyId);
-    if (!strategy || !strategy.config.maxPositionSize) return;
+  getRiskGate(): PreTradeRiskGate {
+    return this.riskGate;
+  }
 
-    // Get current position for this symbol
-    const userPositions = this.positions.get(params.userId) || [];
-    const existingPosition = userPositions.find(
+  private riskContext(
+    params: CreateOrderParams,
+    tier: string,
+    strategyConfig: { maxPositionSize?: number }
+  ): PreTradeContext {
+    const limits = TIER_ORDER_LIMITS[tier];
+    const position = (this.positions.get(params.userId) || []).find(
       p => p.symbol === params.symbol && !p.closedAt
     );
 
-    const currentQuantity = existingPosition?.quantity || 0;
-    const newTotal = params.side === 'buy'
-      ? currentQuantity + params.quantity
-      : currentQuantity - params.quantity;
-
-    if (Math.abs(newTotal) > strategy.config.maxPositionSize) {
-      throw new Error('Order would exceed maximum position size');
-    }
+    return {
+      limits: {
+        ...DEFAULT_PRE_TRADE_LIMITS,
+        maxOpenOrders: limits.maxOpenOrders,
+        maxDailyLoss: limits.maxDailyLoss,
+        maxPositionSize: strategyConfig.maxPositionSize || undefined,
+      },
+      openOrders: Array.from(this.orders.values()).filter(
+        o => o.userId === params.userId && o.status === 'pending'
+      ).length,
+      dailyLoss: this.dailyLosses.get(params.userId) || 0,
+      positionQuantity: position ? (position.side === 'short' ? -position.quantity : position.quantity) : 0,
+    };
   }
 
   // ============================================================================
@@ -455,6 +742,11 @@ export class OrderService {
       throw new Error('Order is not pending');
     }
 
+    // Immediate execution always takes liquidity; a post-only order keeps resting
+    if (order.postOnly) {
+      throw new Error('Post-only orders cannot take liquidity');
+    }
+
     const slippage = options.slippage ?? 0.1; // 0.1% default
     const feePercent = options.fee ?? 0.1; // 0.1% default
 
@@ -467,19 +759,9 @@ export class OrderService {
     }
 
     // Calculate fee
-    const fee = order.quantity * filledPrice * (feePercent / 100);
-
-    // Update order
-    order.status = 'filled';
-    order.filledPrice = filledPrice;
-    order.filledAt = new Date();
-    order.fee = fee;
-    order.updatedAt = new Date();
+    const fee = notional(order, filledPrice) * (feePercent / 100);
 
-    this.orders.set(orderId, order);
-
-    // Update positions
-    await this.updatePosition(order);
+    await this.fillOrder(order, filledPrice, fee);
 
     return order;
   }
@@ -494,7 +776,7 @@ export class OrderService {
       throw new Error('Not a limit order');
     }
 
-    if (order.status !== 'pending') {
+    if (order.status !== 'pending' || !this.isArmed(order)) {
       return order;
     }
 
@@ -504,14 +786,10 @@ export class OrderService {
       : currentPrice >= order.price!;
 
     if (shouldFill) {
-      order.status = 'filled';
-      order.filledPrice = order.price;
-      order.filledAt = new Date();
-      order.fee = order.quantity * order.price! * 0.001;
-      order.updatedAt = new Date();
-
-      this.orders.set(orderId, order);
-      await this.updatePosition(order);
+      await this.fillOrder(order, order.price!, notional(order, order.price!) * 0.001);
+    } else if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+      // Immediate orders never rest on the book
+      await this.expireOrder(order, 'not_immediately_fillable');
     }
 
     return order;
@@ -523,17 +801,21 @@ export class OrderService {
       throw new Error('Order not found');
     }
 
-    if (order.type !== 'stop_loss' && order.type !== 'take_profit') {
+    if (order.type !== 'stop_loss' && order.type !== 'take_profit' && order.type !== 'trailing_stop') {
       throw new Error('Not a stop order');
     }
 
-    if (order.status !== 'pending') {
+    if (order.status !== 'pending' || !this.isArmed(order)) {
       return order;
     }
 
+    if (order.type === 'trailing_stop') {
+      this.trailStop(order, currentPrice);
+    }
+
     // Check if stop price triggered
     let shouldTrigger = false;
-    if (order.type === 'stop_loss') {
+    if (order.type === 'stop_loss' || order.type === 'trailing_stop') {
       shouldTrigger = order.side === 'sell'
         ? currentPrice <= order.stopPrice!
         : currentPrice >= order.stopPrice!;
@@ -544,24 +826,200 @@ export class OrderService {
     }
 
     if (shouldTrigger) {
-      order.status = 'filled';
-      order.filledPrice = currentPrice;
-      order.filledAt = new Date();
-      order.fee = order.quantity * currentPrice * 0.001;
-      order.updatedAt = new Date();
-
-      this.orders.set(orderId, order);
-      await this.updatePosition(order);
+      await this.fillOrder(order, currentPrice, notional(order, currentPrice) * 0.001);
     }
 
     return order;
   }
 
+  /**
+   * Check every pending paper order on a symbol against a new price. Returns
+   * the orders that filled, including bracket exits armed earlier in the pass.
+   */
+  async evaluateOrders(symbol: string, currentPrice: number, userId?: string): Promise<Order[]> {
+    const candidates = Array.from(this.orders.values()).filter(o =>
+      o.symbol === symbol &&
+      o.mode === 'paper' &&
+      o.type !== 'market' &&
+      o.status === 'pending' &&
+      (userId ? o.userId === userId : true)
+    );
+
+    const filled: Order[] = [];
+    for (const order of candidates) {
+      // An OCO sibling may have filled earlier in this pass
+      if (order.status !== 'pending') continue;
+
+      const result = order.type === 'limit'
+        ? await this.checkLimitOrder(order.id, currentPrice)
+        : await this.checkStopOrder(order.id, currentPrice);
+
+      if (result.status === 'filled') {
+        filled.push(result);
+      }
+    }
+
+    return filled;
+  }
+
+  /**
+   * Move a trailing stop behind the best price seen. The stop only ratchets
+   * towards the market, never away from it.
+   */
+  private trailStop(order: Order, currentPrice: number): void {
+    const previous = order.trailingReferencePrice;
+    const reference = previous === undefined
+      ? currentPrice
+      : order.side === 'sell' ? Math.max(previous, currentPrice) : Math.min(previous, currentPrice);
+
+    const trailed = computeTrailingStopPrice(order.side, reference, order.trailingOffset!, order.trailingOffsetType);
+
+    order.trailingReferencePrice = reference;
+    order.stopPrice = order.stopPrice === undefined
+      ? trailed
+      : order.side === 'sell' ? Math.max(order.stopPrice, trailed) : Math.min(order.stopPrice, trailed);
+    order.updatedAt = new Date();
+  }
+
+  private async fillOrder(order: Order, filledPrice: number, fee: number): Promise<void> {
+    if (order.reduceOnly) {
+      // Reduce-only orders may close the opposing position but never open or flip one
+      const reducible = this.reducibleQuantity(order);
+      if (reducible <= 0) {
+        order.status = 'cancelled';
+        order.updatedAt = new Date();
+        this.cancelPendingWhere(o => o.parentOrderId === order.id);
+        return;
+      }
+      if (order.quantity > reducible) {
+        fee = fee * (reducible / order.quantity);
+        order.quantity = reducible;
+      }
+    }
+
+    order.status = 'filled';
+    order.filledPrice = filledPrice;
+    order.filledAt = new Date();
+    order.fee = fee;
+    order.updatedAt = new Date();
+
+    this.orders.set(order.id, order);
+    await this.updatePosition(order);
+
+    if (order.ocoGroupId) {
+      this.cancelPendingWhere(o => o.ocoGroupId === order.ocoGroupId && o.id !== order.id);
+    }
+  }
+
+  private reducibleQuantity(order: Order): number {
+    const position = (this.positions.get(order.userId) || []).find(
+      p => p.symbol === order.symbol && !p.closedAt
+    );
+    const opposing = order.side === 'buy' ? 'short' : 'long';
+    return position?.side === opposing ? position.quantity : 0;
+  }
+
+  // ============================================================================
+  // Order Expiry
+  // ============================================================================
+
+  /**
+   * Expire GTD and day orders past their expiry, here and in the registered
+   * paper engines (which release the balances those orders locked)
+   */
+  async expireStaleOrders(now: Date = new Date()): Promise<Order[]> {
+    const expired: Order[] = [];
+
+    for (const order of this.orders.values()) {
+      if (order.status !== 'pending' || !order.expiresAt || order.expiresAt > now) continue;
+
+      await this.expireOrder(order, 'time_in_force');
+      expired.push(order);
+    }
+
+    for (const [userId, engine] of this.paperEngines?.entries() ?? []) {
+      for (const order of engine.expireOrders(now)) {
+        await this.recordExpiry(userId, {
+          orderId: order.id,
+          symbol: order.symbol,
+          mode: 'paper',
+          timeInForce: order.timeInForce,
+          expiresAt: order.expiresAt,
+          reason: 'time_in_force',
+        });
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Run expireStaleOrders on an interval until stopExpirySweep is called
+   */
+  startExpirySweep(intervalMs = 60_000): void {
+    if (this.expiryTimer) return;
+
+    this.expiryTimer = setInterval(() => {
+      this.expireStaleOrders().catch(error => {
+        console.error('Order expiry sweep failed:', error);
+      });
+    }, intervalMs);
+    this.expiryTimer.unref?.();
+  }
+
+  stopExpirySweep(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  private async expireOrder(order: Order, reason: string): Promise<void> {
+    order.status = 'expired';
+    order.updatedAt = new Date();
+    this.orders.set(order.id, order);
+
+    await this.recordExpiry(order.userId, {
+      orderId: order.id,
+      symbol: order.symbol,
+      mode: order.mode,
+      timeInForce: order.timeInForce,
+      expiresAt: order.expiresAt,
+      reason,
+    });
+
+    // Exits of an entry that never filled, and the other OCO leg, expire with it
+    const linked = Array.from(this.orders.values()).filter(o =>
+      o.status === 'pending' && (
+        o.parentOrderId === order.id ||
+        (order.ocoGroupId !== undefined && o.ocoGroupId === order.ocoGroupId)
+      )
+    );
+    for (const other of linked) {
+      await this.expireOrder(other, 'linked_order_expired');
+    }
+  }
+
+  private async recordExpiry(userId: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      await this.db.auditLogs?.create({ userId, action: 'order_expired', details });
+    } catch (error) {
+      // Expiry must not be undone by a failed audit write
+      console.error('Failed to record order expiry:', error);
+    }
+  }
+
   // ============================================================================
   // Position Management
   // ============================================================================
 
+  /**
+   * Apply a fill to the user's open position on the symbol. Quantities are in
+   * contracts for perpetuals (base units otherwise) and PnL is scaled by the
+   * contract size.
+   */
   private async updatePosition(order: Order): Promise<void> {
+    const contract = order.contractSize !== undefined ? { contractSize: order.contractSize } : {};
     const userPositions = this.positions.get(order.userId) || [];
     const existingIndex = userPositions.findIndex(
       p => p.symbol === order.symbol && !p.closedAt
@@ -580,8 +1038,8 @@ export class OrderService {
           // Reducing short position
           if (order.quantity >= existing.quantity) {
             // Close short position
-            const pnl = (existing.entryPrice - order.filledPrice!) * existing.quantity;
-            existing.realizedPnl = pnl;
+            const pnl = (existing.entryPrice - order.filledPrice!) * existing.quantity * (existing.contractSize ?? 1);
+            existing.realizedPnl = pnl + (existing.fundingPnl ?? 0);
             existing.closedAt = new Date();
 
             // If quantity > existing, open new long
@@ -594,6 +1052,7 @@ export class OrderService {
                 side: 'long',
                 quantity: order.quantity - existing.quantity,
                 entryPrice: order.filledPrice!,
+                ...contract,
                 openedAt: new Date(),
               };
               userPositions.push(newPosition);
@@ -612,6 +1071,7 @@ export class OrderService {
           side: 'long',
           quantity: order.quantity,
           entryPrice: order.filledPrice!,
+          ...contract,
           openedAt: new Date(),
         };
         userPositions.push(position);
@@ -630,8 +1090,8 @@ export class OrderService {
           // Reducing long position
           if (order.quantity >= existing.quantity) {
             // Close long position
-            const pnl = (order.filledPrice! - existing.entryPrice) * existing.quantity;
-            existing.realizedPnl = pnl;
+            const pnl = (order.filledPrice! - existing.entryPrice) * existing.quantity * (existing.contractSize ?? 1);
+            existing.realizedPnl = pnl + (existing.fundingPnl ?? 0);
             existing.closedAt = new Date();
 
             // If quantity > existing, open new short
@@ -644,6 +1104,7 @@ export class OrderService {
                 side: 'short',
                 quantity: order.quantity - existing.quantity,
                 entryPrice: order.filledPrice!,
+                ...contract,
                 openedAt: new Date(),
               };
               userPositions.push(newPosition);
@@ -662,6 +1123,7 @@ export class OrderService {
           side: 'short',
           quantity: order.quantity,
           entryPrice: order.filledPrice!,
+          ...contract,
           openedAt: new Date(),
         };
         userPositions.push(position);
@@ -689,13 +1151,48 @@ export class OrderService {
       return 0;
     }
 
+    const size = position.quantity * (position.contractSize ?? 1);
     if (position.side === 'long') {
-      return (currentPrice - position.entryPrice) * position.quantity;
+      return (currentPrice - position.entryPrice) * size;
     } else {
-      return (position.entryPrice - currentPrice) * position.quantity;
+      return (position.entryPrice - currentPrice) * size;
     }
   }
 
+  /**
+   * Settle one funding interval on every open position in a perpetual, at the
+   * mark price. Longs pay shorts when the rate is positive and are paid when
+   * it is negative.
+   */
+  async applyFundingPayment(symbol: string, rate: number, markPrice: number): Promise<FundingPayment[]> {
+    if (!isPerpetualSymbol(symbol)) {
+      throw new Error('Funding only applies to perpetual contracts');
+    }
+
+    const payments: FundingPayment[] = [];
+    for (const userPositions of this.positions.values()) {
+      for (const position of userPositions) {
+        if (position.symbol !== symbol || position.closedAt) continue;
+
+        const value = position.quantity * (position.contractSize ?? 1) * markPrice;
+        const amount = position.side === 'long' ? -value * rate : value * rate;
+        position.fundingPnl = (position.fundingPnl ?? 0) + amount;
+
+        payments.push({
+          positionId: position.id,
+          userId: position.userId,
+          symbol,
+          side: position.side,
+          rate,
+          markPrice,
+          amount,
+        });
+      }
+    }
+
+    return payments;
+  }
+
   // ============================================================================
   // Order Retrieval
   // ============================================================================
@@ -744,9 +1241,25 @@ export class OrderService {
     order.updatedAt = new Date();
 
     this.orders.set(orderId, order);
+
+    // Cascade to bracket exits and the other OCO leg
+    this.cancelPendingWhere(o =>
+      o.parentOrderId === order.id ||
+      (order.ocoGroupId !== undefined && o.ocoGroupId === order.ocoGroupId)
+    );
+
     return order;
   }
 
+  private cancelPendingWhere(predicate: (order: Order) => boolean): void {
+    for (const order of this.orders.values()) {
+      if (order.status === 'pending' && predicate(order)) {
+        order.status = 'cancelled';
+        order.updatedAt = new Date();
+      }
+    }
+  }
+
   async cancelAllOrders(userId: string, symbol?: string): Promise<void> {
     const orders = Array.from(this.orders.values()).filter(o =>
       o.userId === userId &&
@@ -765,7 +1278,7 @@ export class OrderService {
   // Order Modification
   // ============================================================================
 
-  async modifyOrder(orderId: string, updates: { price?: number; quantity?: number; stopPrice?: number }): Promise<Order> {
+  async modifyOrder(orderId: string, updates: OrderModification): Promise<Order> {
     const order = this.orders.get(orderId);
     if (!order) {
       throw new Error('Order not found');
@@ -784,18 +1297,51 @@ export class OrderService {
         throw new Error('Quantity must be positive');
       }
       order.quantity = updates.quantity;
+
+      // Linked orders always cover the same quantity as the order they protect
+      this.updatePendingWhere(
+        o => o.parentOrderId === order.id || (order.ocoGroupId !== undefined && o.ocoGroupId === order.ocoGroupId),
+        o => { o.quantity = updates.quantity!; }
+      );
     }
 
     if (updates.stopPrice !== undefined) {
       order.stopPrice = updates.stopPrice;
     }
 
+    if (updates.trailingOffset !== undefined) {
+      if (order.type !== 'trailing_stop') {
+        throw new Error('Trailing offset can only be changed on trailing stops');
+      }
+      this.validateTrailingOffset(updates.trailingOffset, order.trailingOffsetType);
+      order.trailingOffset = updates.trailingOffset;
+
+      // Re-derive the stop from the best price seen so a wider offset takes effect
+      if (order.trailingReferencePrice !== undefined) {
+        order.stopPrice = computeTrailingStopPrice(
+          order.side,
+          order.trailingReferencePrice,
+          order.trailingOffset,
+          order.trailingOffsetType
+        );
+      }
+    }
+
     order.updatedAt = new Date();
     this.orders.set(orderId, order);
 
     return order;
   }
 
+  private updatePendingWhere(predicate: (order: Order) => boolean, update: (order: Order) => void): void {
+    for (const order of this.orders.values()) {
+      if (order.status === 'pending' && predicate(order)) {
+        update(order);
+        order.updatedAt = new Date();
+      }
+    }
+  }
+
   // ============================================================================
   // Portfolio Summary
   // ============================================================================
@@ -809,14 +1355,15 @@ export class OrderService {
 
     for (const position of openPositions) {
       const currentPrice = currentPrices[position.symbol] || position.entryPrice;
-      const currentValue = currentPrice * position.quantity;
-      const cost = position.entryPrice * position.quantity;
+      const size = position.quantity * (position.contractSize ?? 1);
+      const currentValue = currentPrice * size;
+      const cost = position.entryPrice * size;
 
       let unrealizedPnl: number;
       if (position.side === 'long') {
-        unrealizedPnl = (currentPrice - position.entryPrice) * position.quantity;
+        unrealizedPnl = (currentPrice - position.entryPrice) * size;
       } else {
-        unrealizedPnl = (position.entryPrice - currentPrice) * position.quantity;
+        unrealizedPnl = (position.entryPrice - currentPrice) * size;
       }
 
       totalValue += currentValue;
@@ -858,3 +1405,77 @@ export class OrderService {
     this.dailyLosses.clear();
   }
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toPreTradeOrder(params: CreateOrderParams): PreTradeOrder {
+  return {
+    userId: params.userId,
+    source: 'order_service',
+    mode: params.mode,
+    symbol: params.symbol,
+    side: params.side,
+    type: params.type,
+    quantity: params.quantity,
+    price: params.price ?? params.stopPrice,
+    strategyId: params.strategyId,
+  };
+}
+
+/**
+ * Quote value of an order at a price; perpetual quantities are in contracts
+ */
+function notional(order: Order, price: number): number {
+  return order.quantity * (order.contractSize ?? 1) * price;
+}
+
+/**
+ * Validate a time in force and return when the order expires, if ever. Day
+ * orders expire at the end of the current UTC day.
+ */
+export function resolveOrderExpiry(
+  type: string,
+  timeInForce: TimeInForce,
+  expiresAt?: Date,
+  now: Date = new Date()
+): Date | undefined {
+  if ((timeInForce === 'IOC' || timeInForce === 'FOK') && type !== 'market' && type !== 'limit') {
+    throw new Error('IOC and FOK time in force apply to market and limit orders only');
+  }
+
+  if (timeInForce === 'GTD') {
+    if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+      throw new Error('Good-till-date orders require an expiry time');
+    }
+    if (expiresAt.getTime() <= now.getTime()) {
+      throw new Error('Order expiry time must be in the future');
+    }
+    return expiresAt;
+  }
+
+  if (expiresAt) {
+    throw new Error('Expiry time is only supported for good-till-date orders');
+  }
+
+  if (timeInForce === 'DAY') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+
+  return undefined;
+}
+
+/**
+ * Stop price for a trailing stop given the best price seen. Sell stops trail
+ * below the high, buy stops above the low; percent offsets are in percent.
+ */
+export function computeTrailingStopPrice(
+  side: OrderSide,
+  referencePrice: number,
+  offset: number,
+  offsetType: TrailingOffsetType = 'percent'
+): number {
+  const distance = offsetType === 'percent' ? referencePrice * (offset / 100) : offset;
+  return side === 'sell' ? referencePrice - distance : referencePrice + distance;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SmartOrderRouter } from './SmartOrderRouter';
+import { OrderService } from './OrderService';
+import { StrategyService } from '../strategies/StrategyService';
+import { ConfigService } from '../config/ConfigService';
+import type { ExchangeService, OrderBook } from '../exchanges/ExchangeService';
+import { MockDatabase, createMockDatabase } from '../../tests/helpers/mock-db';
+
+const books: Record<string, OrderBook> = {
+  'conn-binance': {
+    symbol: 'BTC/USDT',
+    bids: [{ price: 99, quantity: 1 }, { price: 98, quantity: 3 }],
+    asks: [{ price: 100, quantity: 1 }, { price: 101, quantity: 2 }],
+    timestamp: 1,
+  },
+  'conn-kraken': {
+    symbol: 'BTC/USDT',
+    bids: [{ price: 99.2, quantity: 0.5 }, { price: 98.5, quantity: 5 }],
+    asks: [{ price: 100.5, quantity: 5 }, { price: 99.9, quantity: 0.5 }],
+    timestamp: 1,
+  },
+};
+
+const takerFees: Record<string, number> = {
+  'conn-binance': 0.001,
+  'conn-kraken': 0.0026,
+};
+
+describe('SmartOrderRouter', () => {
+  let db: MockDatabase;
+  let orderService: OrderService;
+  let exchangeService: {
+    getUserConnections: ReturnType<typeof vi.fn>;
+    getOrderBook: ReturnType<typeof vi.fn>;
+    getTradingFees: ReturnType<typeof vi.fn>;
+  };
+  let router: SmartOrderRouter;
+  let userId: string;
+  let strategyId: string;
+
+  beforeEach(async () => {
+    vi.stubEnv('NODE_ENV', 'test');
+    db = createMockDatabase();
+    const configService = new ConfigService({ db });
+    const strategyService = new StrategyService({ db, configService });
+
+    const user = await db.users.create({ email: 'trader@example.com', passwordHash: 'hashed', tier: 'pro' });
+    userId = user.id;
+    const strategy = await strategyService.createStrategy({
+      userId,
+      name: 'Routed Strategy',
+      type: 'momentum',
+      config: { symbols: ['BTC/USDT'] },
+    });
+    strategyId = strategy.id;
+
+    orderService = new OrderService({ db, configService, strategyService });
+    exchangeService = {
+      getUserConnections: vi.fn(async () => [
+        { id: 'conn-binance', exchange: 'binance', status: 'active' },
+        { id: 'conn-kraken', exchange: 'kraken', status: 'active' },
+        { id: 'conn-coinbase', exchange: 'coinbase', status: 'active' },
+        { id: 'conn-okx', exchange: 'okx', status: 'inactive' },
+      ]),
+      getOrderBook: vi.fn(async (connectionId: string) => {
+        if (!books[connectionId]) throw new Error('Coinbase API error: 503');
+        return books[connectionId];
+      }),
+      getTradingFees: vi.fn(async (connectionId: string) => ({ maker: 0, taker: takerFees[connectionId] ?? 0.006 })),
+    };
+    router = new SmartOrderRouter({ exchangeService: exchangeService as unknown as ExchangeService, orderService });
+  });
+
+  const base = () => ({ userId, strategyId, symbol: 'BTC/USDT', type: 'market' as const, mode: 'paper' as const });
+
+  it('should_route_whole_order_to_venue_with_best_fee_adjusted_price', async () => {
+    const route = await router.routeOrder({ ...base(), side: 'buy', quantity: 1 });
+
+    // Kraken's book averages 100.2 before its higher fee; Binance fills at 100
+    expect(route.children).toHaveLength(1);
+    expect(route.children[0]).toMatchObject({ connectionId: 'conn-binance', exchange: 'binance', quantity: 1, expectedPrice: 100 });
+    expect(route.children[0].expectedFee).toBeCloseTo(0.1);
+    expect(route.quotes).toEqual([
+      { connectionId: 'conn-binance', exchange: 'binance', takerFee: 0.001, availableQuantity: 1, averagePrice: 100, effectivePrice: expect.closeTo(100.1) },
+      { connectionId: 'conn-kraken', exchange: 'kraken', takerFee: 0.0026, availableQuantity: 1, averagePrice: expect.closeTo(100.2), effectivePrice: expect.closeTo(100.46052) },
+      { connectionId: 'conn-coinbase', exchange: 'coinbase', takerFee: 0, availableQuantity: 0, error: 'Coinbase API error: 503' },
+    ]);
+    expect(exchangeService.getOrderBook).not.toHaveBeenCalledWith('conn-okx', 'BTC/USDT');
+
+    const order = await orderService.getOrder(route.children[0].orderId);
+    expect(order).toMatchObject({ exchangeId: 'conn-binance', routeId: route.id, quantity: 1, status: 'pending' });
+  });
+
+  it('should_split_across_venues_taking_the_best_levels_first', async () => {
+    const route = await router.routeOrder({ ...base(), side: 'buy', quantity: 2, split: true });
+
+    // Binance 100 (100.1 with fees), then Kraken 99.9 (100.16), then Kraken 100.5 (100.76) before Binance 101
+    expect(route.children.map(c => [c.connectionId, c.quantity])).toEqual([
+      ['conn-binance', 1],
+      ['conn-kraken', 1],
+    ]);
+    expect(route.children[1].expectedPrice).toBeCloseTo(100.2);
+    expect(route.expectedAveragePrice).toBeCloseTo(100.1);
+    expect(await orderService.getUserOrders(userId)).toHaveLength(2);
+  });
+
+  it('should_sell_into_the_best_bids_and_respect_the_limit_price', async () => {
+    const route = await router.routeOrder({ ...base(), side: 'sell', type: 'limit', price: 98.5, quantity: 1.5, split: true });
+
+    // Kraken 99.2 (98.94 after fees) beats Binance 99 (98.90); Binance 98 is below the limit
+    expect(route.children.map(c => [c.connectionId, c.quantity])).toEqual([
+      ['conn-kraken', 0.5],
+      ['conn-binance', 1],
+    ]);
+    const orders = await orderService.getUserOrders(userId);
+    expect(orders.every(o => o.type === 'limit' && o.price === 98.5)).toBe(true);
+
+    await expect(
+      router.routeOrder({ ...base(), side: 'buy', type: 'limit', price: 100.2, quantity: 4, split: true })
+    ).rejects.toThrow('Insufficient liquidity across venues for 4 BTC/USDT');
+    await expect(
+      router.routeOrder({ ...base(), side: 'buy', type: 'limit', price: 100.2, quantity: 1.2 })
+    ).rejects.toThrow('Insufficient liquidity on any single venue for 1.2 BTC/USDT; enable split routing');
+  });
+
+  it('should_cancel_placed_children_when_a_later_child_is_rejected', async () => {
+    const createOrder = orderService.createOrder.bind(orderService);
+    vi.spyOn(orderService, 'createOrder')
+      .mockImplementationOnce(createOrder)
+      .mockRejectedValueOnce(new Error('Maximum open orders reached for pro tier'));
+
+    await expect(router.routeOrder({ ...base(), side: 'buy', quantity: 2, split: true })).rejects.toThrow(
+      'Maximum open orders reached'
+    );
+
+    const orders = await orderService.getUserOrders(userId);
+    expect(orders.map(o => o.status)).toEqual(['cancelled']);
+    expect(await router.getUserRoutes(userId)).toEqual([]);
+  });
+
+  it('should_report_which_venue_filled_each_child', async () => {
+    const route = await router.routeOrder({ ...base(), side: 'buy', quantity: 2, split: true });
+    await orderService.executePaperOrder(route.children[1].orderId, 100.4, { slippage: 0 });
+
+    const refreshed = await router.getRoute(route.id);
+    expect(refreshed!.children.map(c => [c.exchange, c.status, c.filledPrice])).toEqual([
+      ['binance', 'pending', undefined],
+      ['kraken', 'filled', 100.4],
+    ]);
+  });
+
+  it('should_require_an_active_connection', async () => {
+    exchangeService.getUserConnections.mockResolvedValue([]);
+
+    await expect(router.routeOrder({ ...base(), side: 'buy', quantity: 1 })).rejects.toThrow(
+      'Smart routing requires at least one active exchange connection'
+    );
+  });
+});
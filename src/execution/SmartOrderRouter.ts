@@ -0,0 +1,380 @@
+/**
+ * SmartOrderRouter - Cross-Exchange Order Routing
+ * Quotes an order against every active connection's order book and taker fee,
+ * then places it on the venue with the best effective price or splits it
+ * across venues level by level.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ExchangeService, ExchangeType, OrderBookEntry } from '../exchanges/ExchangeService';
+import type { OrderService, Order, OrderSide, OrderMode, OrderStatus, TimeInForce } from './OrderService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RouteStrategy = 'best';
+
+export interface RouteOrderParams {
+  userId: string;
+  strategyId: string;
+  symbol: string;
+  side: OrderSide;
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number; // Limit price; levels beyond it are not counted as liquidity
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  mode: OrderMode;
+  split?: boolean; // Allow filling across several venues
+}
+
+export interface VenueQuote {
+  connectionId: string;
+  exchange: ExchangeType;
+  takerFee: number;
+  availableQuantity: number; // Book depth within the limit price, capped at the order quantity
+  averagePrice?: number; // Volume-weighted price for the full quantity; unset if the venue cannot fill it
+  effectivePrice?: number; // averagePrice after the taker fee
+  error?: string;
+}
+
+export interface RoutedChild {
+  orderId: string;
+  connectionId: string;
+  exchange: ExchangeType;
+  quantity: number;
+  expectedPrice: number;
+  expectedFee: number;
+  status: OrderStatus;
+  filledPrice?: number;
+  filledAt?: Date;
+}
+
+export interface RoutedOrder {
+  id: string;
+  userId: string;
+  strategyId: string;
+  symbol: string;
+  side: OrderSide;
+  type: 'market' | 'limit';
+  quantity: number;
+  price?: number;
+  mode: OrderMode;
+  strategy: RouteStrategy;
+  split: boolean;
+  quotes: VenueQuote[];
+  children: RoutedChild[];
+  expectedAveragePrice: number;
+  createdAt: Date;
+}
+
+export interface SmartOrderRouterOptions {
+  exchangeService: ExchangeService;
+  orderService: OrderService;
+}
+
+interface VenueBook {
+  connectionId: string;
+  exchange: ExchangeType;
+  takerFee: number;
+  levels: OrderBookEntry[];
+}
+
+interface Allocation {
+  connectionId: string;
+  exchange: ExchangeType;
+  quantity: number;
+  cost: number; // Sum of price * quantity before fees
+  fee: number;
+}
+
+// Quantities below this are treated as filled to absorb floating point dust
+const QUANTITY_EPSILON = 1e-12;
+
+// ============================================================================
+// SmartOrderRouter Implementation
+// ============================================================================
+
+export class SmartOrderRouter {
+  private exchangeService: ExchangeService;
+  private orderService: OrderService;
+  private routes: Map<string, RoutedOrder> = new Map();
+
+  constructor(options: SmartOrderRouterOptions) {
+    this.exchangeService = options.exchangeService;
+    this.orderService = options.orderService;
+  }
+
+  // ============================================================================
+  // Quoting
+  // ============================================================================
+
+  /**
+   * Order book and taker fee from every active connection the user has. Venues
+   * that fail to respond come back as an error quote instead of failing the route.
+   */
+  private async loadBooks(params: RouteOrderParams): Promise<Array<VenueBook | VenueQuote>> {
+    const connections = (await this.exchangeService.getUserConnections(params.userId))
+      .filter(c => c.status === 'active');
+
+    if (connections.length === 0) {
+      throw new Error('Smart routing requires at least one active exchange connection');
+    }
+
+    return Promise.all(connections.map(async (connection): Promise<VenueBook | VenueQuote> => {
+      try {
+        const [book, fees] = await Promise.all([
+          this.exchangeService.getOrderBook(connection.id, params.symbol),
+          this.exchangeService.getTradingFees(connection.id),
+        ]);
+        return {
+          connectionId: connection.id,
+          exchange: connection.exchange,
+          takerFee: fees.taker,
+          levels: this.eligibleLevels(params, params.side === 'buy' ? book.asks : book.bids),
+        };
+      } catch (error) {
+        return {
+          connectionId: connection.id,
+          exchange: connection.exchange,
+          takerFee: 0,
+          availableQuantity: 0,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }));
+  }
+
+  /**
+   * Book levels on the side we take from, best first, within the limit price
+   */
+  private eligibleLevels(params: RouteOrderParams, levels: OrderBookEntry[]): OrderBookEntry[] {
+    const isBuy = params.side === 'buy';
+    return levels
+      .filter(level => level.quantity > 0)
+      .filter(level => params.price === undefined || (isBuy ? level.price <= params.price : level.price >= params.price))
+      .sort((a, b) => (isBuy ? a.price - b.price : b.price - a.price));
+  }
+
+  private quoteVenue(book: VenueBook, params: RouteOrderParams): VenueQuote {
+    let remaining = params.quantity;
+    let cost = 0;
+
+    for (const level of book.levels) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      const take = Math.min(level.quantity, remaining);
+      cost += take * level.price;
+      remaining -= take;
+    }
+
+    const quote: VenueQuote = {
+      connectionId: book.connectionId,
+      exchange: book.exchange,
+      takerFee: book.takerFee,
+      availableQuantity: params.quantity - Math.max(remaining, 0),
+    };
+
+    if (remaining <= QUANTITY_EPSILON) {
+      quote.averagePrice = cost / params.quantity;
+      quote.effectivePrice = this.applyFee(quote.averagePrice, book.takerFee, params.side);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Price per unit after the taker fee: buyers pay it on top, sellers receive less
+   */
+  private applyFee(price: number, fee: number, side: OrderSide): number {
+    return side === 'buy' ? price * (1 + fee) : price * (1 - fee);
+  }
+
+  private isBetter(a: number, b: number, side: OrderSide): boolean {
+    return side === 'buy' ? a < b : a > b;
+  }
+
+  // ============================================================================
+  // Routing
+  // ============================================================================
+
+  /**
+   * Route an order to the venue with the best effective price, or across
+   * venues when `split` is set. Each allocation becomes a child order on that
+   * connection; if any child is rejected the others are cancelled.
+   */
+  async routeOrder(params: RouteOrderParams): Promise<RoutedOrder> {
+    if (params.quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+    if (params.type === 'limit' && params.price === undefined) {
+      throw new Error('Limit orders require a price');
+    }
+
+    const books = await this.loadBooks(params);
+    const venues = books.filter((book): book is VenueBook => 'levels' in book);
+    const quotes = books.map(book => ('levels' in book ? this.quoteVenue(book, params) : book));
+
+    if (venues.length === 0) {
+      throw new Error(`No exchange returned a quote for ${params.symbol}`);
+    }
+
+    const allocations = params.split
+      ? this.allocateAcrossVenues(venues, params)
+      : [this.allocateBestVenue(venues, quotes, params)];
+
+    const routeId = uuidv4();
+    const children: RoutedChild[] = [];
+
+    try {
+      for (const allocation of allocations) {
+        const order = await this.orderService.createOrder({
+          userId: params.userId,
+          strategyId: params.strategyId,
+          symbol: params.symbol,
+          side: params.side,
+          type: params.type,
+          quantity: allocation.quantity,
+          price: params.price,
+          timeInForce: params.timeInForce,
+          expiresAt: params.expiresAt,
+          mode: params.mode,
+          exchangeId: allocation.connectionId,
+          routeId,
+        });
+        children.push({
+          orderId: order.id,
+          connectionId: allocation.connectionId,
+          exchange: allocation.exchange,
+          quantity: allocation.quantity,
+          expectedPrice: allocation.cost / allocation.quantity,
+          expectedFee: allocation.fee,
+          status: order.status,
+        });
+      }
+    } catch (error) {
+      for (const child of children) {
+        await this.orderService.cancelOrder(child.orderId).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    const totalCost = allocations.reduce((sum, a) => sum + a.cost, 0);
+    const route: RoutedOrder = {
+      id: routeId,
+      userId: params.userId,
+      strategyId: params.strategyId,
+      symbol: params.symbol,
+      side: params.side,
+      type: params.type,
+      quantity: params.quantity,
+      price: params.price,
+      mode: params.mode,
+      strategy: 'best',
+      split: params.split ?? false,
+      quotes,
+      children,
+      expectedAveragePrice: totalCost / params.quantity,
+      createdAt: new Date(),
+    };
+
+    this.routes.set(route.id, route);
+    return route;
+  }
+
+  /**
+   * Whole order on the single venue with the best fee-adjusted price
+   */
+  private allocateBestVenue(venues: VenueBook[], quotes: VenueQuote[], params: RouteOrderParams): Allocation {
+    let best: VenueQuote | undefined;
+    for (const quote of quotes) {
+      if (quote.effectivePrice === undefined) continue;
+      if (!best || this.isBetter(quote.effectivePrice, best.effectivePrice!, params.side)) {
+        best = quote;
+      }
+    }
+
+    if (!best) {
+      throw new Error(`Insufficient liquidity on any single venue for ${params.quantity} ${params.symbol}; enable split routing`);
+    }
+
+    const cost = best.averagePrice! * params.quantity;
+    const venue = venues.find(v => v.connectionId === best!.connectionId)!;
+    return {
+      connectionId: venue.connectionId,
+      exchange: venue.exchange,
+      quantity: params.quantity,
+      cost,
+      fee: cost * venue.takerFee,
+    };
+  }
+
+  /**
+   * Take the best fee-adjusted levels across all venues until the order is
+   * filled, then group the takes into one allocation per venue
+   */
+  private allocateAcrossVenues(venues: VenueBook[], params: RouteOrderParams): Allocation[] {
+    const levels = venues
+      .flatMap(venue => venue.levels.map(level => ({
+        venue,
+        level,
+        effectivePrice: this.applyFee(level.price, venue.takerFee, params.side),
+      })))
+      .sort((a, b) => (params.side === 'buy' ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice));
+
+    const allocations = new Map<string, Allocation>();
+    let remaining = params.quantity;
+
+    for (const { venue, level } of levels) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      const take = Math.min(level.quantity, remaining);
+      remaining -= take;
+
+      const allocation = allocations.get(venue.connectionId) ?? {
+        connectionId: venue.connectionId,
+        exchange: venue.exchange,
+        quantity: 0,
+        cost: 0,
+        fee: 0,
+      };
+      allocation.quantity += take;
+      allocation.cost += take * level.price;
+      allocation.fee += take * level.price * venue.takerFee;
+      allocations.set(venue.connectionId, allocation);
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+      throw new Error(`Insufficient liquidity across venues for ${params.quantity} ${params.symbol}`);
+    }
+
+    return Array.from(allocations.values());
+  }
+
+  // ============================================================================
+  // Route Queries
+  // ============================================================================
+
+  /**
+   * Routed order with each child's current status and fill from OrderService
+   */
+  async getRoute(routeId: string): Promise<RoutedOrder | undefined> {
+    const route = this.routes.get(routeId);
+    if (!route) return undefined;
+
+    for (const child of route.children) {
+      const order: Order | undefined = await this.orderService.getOrder(child.orderId);
+      if (!order) continue;
+      child.status = order.status;
+      child.filledPrice = order.filledPrice;
+      child.filledAt = order.filledAt;
+    }
+
+    return route;
+  }
+
+  async getUserRoutes(userId: string): Promise<RoutedOrder[]> {
+    const routes = Array.from(this.routes.values()).filter(r => r.userId === userId);
+    const refreshed = await Promise.all(routes.map(r => this.getRoute(r.id)));
+    return (refreshed as RoutedOrder[]).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
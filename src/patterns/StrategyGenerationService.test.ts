@@ -91,5 +91,40 @@ describe('StrategyGenerationService', () => {
       service.generateForUser('user-1', { symbols: ['ETH/USDT'] }),
     ).rejects.toThrow('AI response for strategy generation was not valid JSON');
   });
-});
 
+  it('creates custom drafts with valid rules', async () => {
+    const rules = {
+      entry: { long: { cross: 'above', left: { indicator: 'ema', period: 12 }, right: { indicator: 'ema', period: 26 } } },
+      exit: { long: { left: { indicator: 'rsi', period: 14 }, op: '>', right: 70 } },
+      stop: { stopLossPercent: 2 },
+    };
+    aiAdapterService.chat.mockResolvedValue({
+      content: JSON.stringify({ name: 'EMA Cross', type: 'custom', config: { rules } }),
+      model: 'gpt-stub',
+      usage: { totalTokens: 50 },
+    });
+
+    await service.generateForUser('user-1');
+
+    const args = (db.strategies.create as any).mock.calls[0][0];
+    expect(args.type).toBe('custom');
+    expect(args.config.rules).toEqual(rules);
+  });
+
+  it('rejects custom drafts with invalid rules', async () => {
+    aiAdapterService.chat.mockResolvedValue({
+      content: JSON.stringify({
+        name: 'Broken Rules',
+        type: 'custom',
+        config: { rules: { entry: { long: { left: { indicator: 'vwap' }, op: '>', right: 1 } } } },
+      }),
+      model: 'gpt-stub',
+      usage: { totalTokens: 50 },
+    });
+
+    await expect(service.generateForUser('user-1')).rejects.toThrow(
+      "Invalid custom strategy rules: entry.long.left.indicator unknown indicator 'vwap'",
+    );
+    expect(db.strategies.create).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import type { NeonDatabase } from '../database/NeonDatabase';
 import type { NeonAIAdapterService } from '../ai/NeonAIAdapterService';
 import type { AIRoutingService } from '../ai/AIRoutingService';
 import type { RuVectorClient } from './RuVectorClient';
+import { RuleStrategyService } from '../strategies/RuleStrategyService';
 
 export interface StrategyGenerationInput {
   symbols?: string[];
@@ -36,6 +37,7 @@ export class StrategyGenerationService {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   private readonly patternClient: RuVectorClient | null;
   private readonly aiRoutingService: AIRoutingService;
+  private readonly ruleStrategyService = new RuleStrategyService();
 
   constructor(options: StrategyGenerationServiceOptions) {
     this.db = options.db;
@@ -80,6 +82,15 @@ export class StrategyGenerationService {
     summaryLines.push(
       'The config field should be an object. Include a symbols array in config when appropriate.',
     );
+    summaryLines.push(
+      'Prefer type "custom" with config.rules: { entry: { long?, short? }, exit?: { long?, short? }, stop?: { stopLossPercent?, takeProfitPercent? } }.',
+    );
+    summaryLines.push(
+      'A rule condition is { all: [...] }, { any: [...] }, { left, op, right } with op one of > >= < <= ==, or { cross: "above"|"below", left, right }.',
+    );
+    summaryLines.push(
+      'Operands are numbers or indicators: { indicator: "sma"|"ema"|"rsi", period }, { indicator: "bollinger", period, stdDev, field: "upper"|"middle"|"lower" }, { indicator: "macd", field: "macd"|"signal"|"histogram" }, { indicator: "price", field: "close" }.',
+    );
 
     const decision = await this.aiRoutingService.selectProviderForChat(userId, 'generic');
     if (!decision.providerId || !decision.provider) {
@@ -128,6 +139,10 @@ export class StrategyGenerationService {
     }
 
     const config: Record<string, unknown> = parsed.config ? { ...parsed.config } : {};
+    if (parsed.type === 'custom') {
+      // Throws with the offending rule path so bad drafts never reach the DB
+      this.ruleStrategyService.validate((config as any).rules);
+    }
     if (input.symbols && input.symbols.length > 0 && !Array.isArray((config as any).symbols)) {
       (config as any).symbols = input.symbols;
     }
@@ -0,0 +1,306 @@
+/**
+ * KillSwitchService Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KillSwitchService, KillSwitchAuditEntry, KillSwitchState, createKillSwitchRule } from './KillSwitchService';
+import { TradingModeManager, TradingMode } from '../trading/TradingModeManager';
+import { ExecutionAlgorithmService } from '../execution/ExecutionAlgorithmService';
+import type { ChildOrderRequest } from '../execution/ExecutionAlgorithmService';
+import type { Strategy } from '../database/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 5, 3, 9);
+
+const strategy = (id: string, executionMode: 'manual' | 'auto'): Strategy =>
+  ({ id, userId: 'user_1', name: id, type: 'momentum', status: 'active', executionMode }) as Strategy;
+
+const rearmRequest = { by: 'user_1', reason: 'Reviewed losses', acknowledgement: 'I understand' };
+
+function createDependencies() {
+  return {
+    orders: { cancelAllOrders: vi.fn(async (_userId: string): Promise<unknown> => 3) },
+    strategies: {
+      getUserStrategies: vi.fn(
+        async (_userId: string, _filters?: unknown): Promise<Strategy[]> => [strategy('s1', 'auto'), strategy('s2', 'manual')]
+      ),
+      updateStatus: vi.fn(async (_id: string, _status: Strategy['status']): Promise<unknown> => undefined),
+    },
+    flattenPositions: vi.fn(async (_userId: string) => 2),
+  };
+}
+
+describe('KillSwitchService', () => {
+  let now: number;
+  let modeManager: TradingModeManager;
+  let orders: ReturnType<typeof createDependencies>['orders'];
+  let strategies: ReturnType<typeof createDependencies>['strategies'];
+  let flattenPositions: ReturnType<typeof createDependencies>['flattenPositions'];
+  let audits: KillSwitchAuditEntry[];
+  let killSwitch: KillSwitchService;
+
+  beforeEach(async () => {
+    now = START;
+    modeManager = new TradingModeManager();
+    modeManager.setExchanges('user_1', {
+      live: { createOrder: vi.fn(), getBalances: vi.fn(), isTestnet: () => false },
+      paper: { createOrder: vi.fn(), getBalances: vi.fn(), isTestnet: () => true },
+    });
+    await modeManager.switchMode('user_1', TradingMode.LIVE, {
+      confirmed: true,
+      password: 'password',
+      acknowledgement: 'I understand',
+    });
+
+    ({ orders, strategies, flattenPositions } = createDependencies());
+    audits = [];
+
+    killSwitch = new KillSwitchService({
+      orders,
+      strategies,
+      tradingHalt: modeManager,
+      flattenPositions,
+      audit: entry => {
+        audits.push(entry);
+      },
+      now: () => now,
+    });
+  });
+
+  describe('check', () => {
+    it('should_trip_on_drawdown_from_the_high_water_mark', async () => {
+      await killSwitch.check('user_1', 10000);
+      now += DAY;
+      await killSwitch.check('user_1', 12000);
+      now += DAY;
+      await killSwitch.check('user_1', 11000);
+      now += DAY;
+      const result = await killSwitch.check('user_1', 9500);
+
+      expect(result).toMatchObject({ peakEquity: 12000, tripped: true });
+      expect(result.drawdown).toBeCloseTo(2500 / 12000, 9);
+      expect(result.state).toMatchObject({
+        status: 'tripped',
+        trigger: 'max_drawdown',
+        reason: 'Drawdown 20.8% breached the 20.0% limit',
+        actions: {
+          tradingHalted: true,
+          ordersCancelled: true,
+          positionsFlattened: null,
+          strategiesPaused: ['s1'],
+          errors: [],
+        },
+      });
+
+      expect(modeManager.getCurrentMode('user_1')).toBe(TradingMode.PAPER);
+      expect(orders.cancelAllOrders).toHaveBeenCalledWith('user_1');
+      expect(flattenPositions).not.toHaveBeenCalled();
+      expect(strategies.getUserStrategies).toHaveBeenCalledWith('user_1', { status: 'active' });
+      expect(strategies.updateStatus).toHaveBeenCalledTimes(1);
+      expect(strategies.updateStatus).toHaveBeenCalledWith('s1', 'paused');
+      expect(audits.map(a => a.action)).toEqual(['kill_switch.tripped']);
+      expect(audits[0].details).toMatchObject({ trigger: 'max_drawdown', equity: 9500, peakEquity: 12000 });
+    });
+
+    it('should_measure_daily_loss_from_the_first_mark_of_the_utc_day', async () => {
+      await killSwitch.check('user_1', 10000);
+      const midday = await killSwitch.check('user_1', 9700);
+      expect(midday).toMatchObject({ tripped: false, dailyLoss: expect.closeTo(0.03, 9) });
+
+      // A new day resets the baseline to the first reading
+      now += DAY;
+      await killSwitch.check('user_1', 9700);
+      expect((await killSwitch.check('user_1', 9400)).tripped).toBe(false);
+
+      const result = await killSwitch.check('user_1', 9200);
+      expect(result.tripped).toBe(true);
+      expect(result.state.reason).toBe('Daily loss 5.2% breached the 5.0% limit');
+    });
+
+    it('should_not_trip_again_until_rearmed', async () => {
+      await killSwitch.check('user_1', 10000);
+      await killSwitch.check('user_1', 7000);
+
+      const again = await killSwitch.check('user_1', 6000);
+
+      expect(again.tripped).toBe(false);
+      expect(orders.cancelAllOrders).toHaveBeenCalledTimes(1);
+      await expect(killSwitch.trip('user_1', 'manual', 'Panic')).rejects.toThrow('Kill switch is already tripped');
+    });
+  });
+
+  describe('trip', () => {
+    it('should_flatten_positions_when_configured', async () => {
+      await killSwitch.configure('user_1', { maxDrawdown: 0.1, flattenPositions: true });
+
+      await killSwitch.check('user_1', 10000);
+      const result = await killSwitch.check('user_1', 8900);
+
+      expect(result.state.trigger).toBe('max_drawdown');
+      expect(result.state.actions?.positionsFlattened).toBe(2);
+      expect(flattenPositions).toHaveBeenCalledWith('user_1');
+      expect(audits.map(a => a.action)).toEqual(['kill_switch.settings', 'kill_switch.tripped']);
+    });
+
+    it('should_stop_running_execution_algorithms', async () => {
+      const algorithms = new ExecutionAlgorithmService({ tickIntervalMs: 60_000 });
+      const venue = {
+        placeOrder: vi.fn(async (_request: ChildOrderRequest) => ({
+          orderId: `child-${venue.placeOrder.mock.calls.length}`,
+          status: 'open' as const,
+          filledQuantity: 0,
+          averagePrice: 0,
+        })),
+        getOrder: vi.fn(async (orderId: string) => ({ orderId, status: 'open' as const, filledQuantity: 0, averagePrice: 0 })),
+        cancelOrder: vi.fn(async () => {}),
+      };
+      killSwitch = new KillSwitchService({ orders, strategies, tradingHalt: modeManager, algorithms, now: () => now });
+
+      try {
+        const algo = await algorithms.submit(
+          { userId: 'user_1', mode: 'live', type: 'twap', symbol: 'BTC/USDT', side: 'buy', quantity: 1, limitPrice: 50000, durationMs: 180_000, slices: 3 },
+          venue
+        );
+        expect(venue.placeOrder).toHaveBeenCalledTimes(1);
+
+        const state = await killSwitch.trip('user_1', 'manual', 'Halted by user');
+        await algorithms.tick(new Date(Date.now() + 300_000));
+
+        expect(state.actions?.algorithmsCancelled).toBe(1);
+        expect(algo.status).toBe('cancelled');
+        expect(venue.cancelOrder).toHaveBeenCalledWith('child-1', 'BTC/USDT');
+        expect(venue.placeOrder).toHaveBeenCalledTimes(1);
+      } finally {
+        algorithms.stop();
+      }
+    });
+
+    it('should_mark_the_account_tripped_before_acting', async () => {
+      const seen: boolean[] = [];
+      orders.cancelAllOrders.mockImplementation(async (userId: string) => seen.push(killSwitch.isTripped(userId)));
+
+      await killSwitch.trip('user_1', 'manual', 'Halted by user');
+
+      expect(seen).toEqual([true]);
+    });
+
+    it('should_attempt_every_action_when_one_fails', async () => {
+      orders.cancelAllOrders.mockRejectedValue(new Error('Exchange unavailable'));
+      strategies.getUserStrategies.mockResolvedValue([strategy('s1', 'auto'), strategy('s3', 'auto')]);
+      strategies.updateStatus.mockImplementation(async (id: string) => {
+        if (id === 's1') throw new Error('Strategy not found');
+      });
+
+      const state = await killSwitch.trip('user_1', 'manual', 'Halted by user');
+
+      expect(state.actions).toEqual({
+        tradingHalted: true,
+        ordersCancelled: false,
+        positionsFlattened: null,
+        strategiesPaused: ['s3'],
+        errors: ['cancel orders: Exchange unavailable', 'pause strategy s1: Strategy not found'],
+      });
+      expect(modeManager.isHalted('user_1')).toBe(true);
+    });
+
+    it('should_reject_invalid_limits', async () => {
+      await expect(killSwitch.configure('user_1', { maxDailyLoss: 5 })).rejects.toThrow(
+        'Kill switch maxDailyLoss must be a fraction between 0 and 1'
+      );
+      expect(killSwitch.getState('user_1').settings.limits.maxDailyLoss).toBe(0.05);
+    });
+  });
+
+  describe('rearm', () => {
+    it('should_require_a_reason_and_acknowledgement', async () => {
+      await expect(killSwitch.rearm('user_1', rearmRequest)).rejects.toThrow('Kill switch is not tripped');
+
+      await killSwitch.trip('user_1', 'manual', 'Halted by user');
+
+      await expect(killSwitch.rearm('user_1', { ...rearmRequest, reason: ' ' })).rejects.toThrow(
+        'A reason is required to re-arm the kill switch'
+      );
+      await expect(killSwitch.rearm('user_1', { ...rearmRequest, acknowledgement: '' })).rejects.toThrow(
+        'Acknowledgement required to re-arm the kill switch'
+      );
+      expect(killSwitch.isTripped('user_1')).toBe(true);
+    });
+
+    it('should_resume_trading_and_restart_the_high_water_mark', async () => {
+      await killSwitch.check('user_1', 10000);
+      await killSwitch.check('user_1', 7500);
+      now += 60 * 60 * 1000;
+
+      const state = await killSwitch.rearm('user_1', rearmRequest);
+
+      expect(state).toMatchObject({ status: 'armed', peakEquity: null, rearmedBy: 'user_1' });
+      expect(state.rearmedAt).toEqual(new Date(now));
+      expect(modeManager.isHalted('user_1')).toBe(false);
+      // Re-arming does not put the account back into live trading
+      expect(modeManager.getCurrentMode('user_1')).toBe(TradingMode.PAPER);
+      expect(audits[1]).toMatchObject({
+        action: 'kill_switch.rearmed',
+        details: {
+          by: 'user_1',
+          reason: 'Reviewed losses',
+          acknowledgement: 'I understand',
+          tripped: { trigger: 'max_drawdown' },
+        },
+      });
+
+      expect((await killSwitch.check('user_1', 7400)).tripped).toBe(false);
+    });
+  });
+
+  describe('load', () => {
+    it('should_keep_a_tripped_account_halted_after_a_restart', async () => {
+      const saved = new Map<string, KillSwitchState>();
+      const store = {
+        loadAll: async () => [...saved.values()].map(state => structuredClone(state)),
+        save: vi.fn(async (state: KillSwitchState) => {
+          saved.set(state.userId, structuredClone(state));
+        }),
+      };
+      const createService = (tradingHalt: TradingModeManager) =>
+        new KillSwitchService({ orders, strategies, tradingHalt, store, now: () => now });
+
+      const before = createService(modeManager);
+      await before.configure('user_1', { maxDrawdown: 0.1 });
+      await before.check('user_1', 10000);
+      await before.check('user_1', 11000);
+      await before.check('user_1', 9800);
+
+      const restartedModes = new TradingModeManager();
+      const restarted = createService(restartedModes);
+      expect(restarted.isTripped('user_1')).toBe(false);
+      expect(await restarted.load()).toBe(1);
+
+      expect(restarted.isTripped('user_1')).toBe(true);
+      expect(restartedModes.getModeStatus('user_1').halt?.reason).toBe('Drawdown 10.9% breached the 10.0% limit');
+      expect(restarted.getState('user_1')).toMatchObject({
+        peakEquity: 11000,
+        dayStartEquity: 10000,
+        settings: { limits: { maxDrawdown: 0.1 } },
+        trigger: 'max_drawdown',
+        actions: { ordersCancelled: true, strategiesPaused: ['s1'] },
+      });
+    });
+  });
+
+  describe('createKillSwitchRule', () => {
+    it('should_reject_live_orders_while_tripped', async () => {
+      const rule = createKillSwitchRule(killSwitch);
+      const order = { userId: 'user_1', symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 1, mode: 'live' } as any;
+
+      expect(rule.evaluate(order, {} as any, {} as any)).toEqual({ outcome: 'pass' });
+
+      await killSwitch.trip('user_1', 'manual', 'Halted by user');
+
+      expect(rule.evaluate(order, {} as any, {} as any)).toEqual({
+        outcome: 'reject',
+        reason: 'Trading halted by kill switch: Halted by user',
+      });
+      expect(rule.evaluate({ ...order, mode: 'paper' }, {} as any, {} as any)).toMatchObject({ outcome: 'skip' });
+    });
+  });
+});
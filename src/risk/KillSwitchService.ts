@@ -0,0 +1,402 @@
+/**
+ * KillSwitchService - Account-level trading halt on drawdown breach
+ * Tracks each account's equity high-water mark and start-of-day equity from
+ * mark-to-market runs. When drawdown or daily loss breaches its limit the
+ * switch trips: live trading is halted, execution algorithms and open orders
+ * are cancelled, positions are optionally flattened and auto strategies are
+ * paused. Trading resumes only after an explicit, audited re-arm.
+ */
+
+import type { Strategy } from '../database/types';
+import type { RiskRule } from './PreTradeRiskGate';
+import type { RiskLimits } from './RiskManager';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type KillSwitchLimits = Pick<RiskLimits, 'maxDrawdown' | 'maxDailyLoss'>;
+
+export type KillSwitchTrigger = 'max_drawdown' | 'max_daily_loss' | 'manual';
+
+export interface KillSwitchDependencies {
+  orders: { cancelAllOrders(userId: string): Promise<unknown> };
+  strategies: {
+    getUserStrategies(userId: string, filters?: { status?: Strategy['status'] }): Promise<Strategy[]>;
+    updateStatus(strategyId: string, status: Strategy['status']): Promise<unknown>;
+  };
+  /** Moves the account out of live trading and keeps it there until resumed (TradingModeManager) */
+  tradingHalt: {
+    haltTrading(userId: string, reason: string): unknown;
+    resumeTrading(userId: string): unknown;
+  };
+  /** Closes every open position, returning how many were closed */
+  flattenPositions?: (userId: string) => Promise<number>;
+  /** Stops running execution algorithms so they send no further child orders */
+  algorithms?: { cancelUserAlgorithms(userId: string): Promise<unknown[]> };
+  /** Persists state so a restart does not re-arm a tripped account */
+  store?: KillSwitchStore;
+  audit?: (entry: KillSwitchAuditEntry) => Promise<unknown> | void;
+  limits?: Partial<KillSwitchLimits>;
+  now?: () => number;
+}
+
+export interface KillSwitchStore {
+  loadAll(): Promise<KillSwitchState[]>;
+  save(state: KillSwitchState): Promise<unknown>;
+}
+
+export interface KillSwitchSettings {
+  limits: KillSwitchLimits;
+  flattenPositions: boolean;
+}
+
+export interface KillSwitchActions {
+  tradingHalted: boolean;
+  ordersCancelled: boolean;
+  algorithmsCancelled?: number; // Unset without an execution algorithm service
+  positionsFlattened: number | null; // Null when flattening is off
+  strategiesPaused: string[];
+  errors: string[];
+}
+
+export interface KillSwitchState {
+  userId: string;
+  status: 'armed' | 'tripped';
+  settings: KillSwitchSettings;
+  peakEquity: number | null; // High-water mark since the switch was last armed
+  dayStartEquity: number | null;
+  day: string | null; // UTC date of dayStartEquity
+  trippedAt?: Date;
+  trigger?: KillSwitchTrigger;
+  reason?: string;
+  actions?: KillSwitchActions;
+  rearmedAt?: Date;
+  rearmedBy?: string;
+}
+
+export interface KillSwitchCheck {
+  equity: number;
+  peakEquity: number;
+  drawdown: number; // From peak, as a fraction
+  dailyLoss: number; // From the day's first mark, as a fraction
+  tripped: boolean; // Tripped by this check
+  state: KillSwitchState;
+}
+
+export interface KillSwitchAuditEntry {
+  userId: string;
+  action: 'kill_switch.tripped' | 'kill_switch.rearmed' | 'kill_switch.settings';
+  timestamp: Date;
+  details: Record<string, unknown>;
+}
+
+export interface RearmRequest {
+  by: string; // Who re-armed the switch
+  reason: string;
+  acknowledgement: string;
+}
+
+const DEFAULT_LIMITS: KillSwitchLimits = {
+  maxDrawdown: 0.2,
+  maxDailyLoss: 0.05,
+};
+
+// ============================================================================
+// KillSwitchService Implementation
+// ============================================================================
+
+export class KillSwitchService {
+  private deps: KillSwitchDependencies;
+  private defaultLimits: KillSwitchLimits;
+  private now: () => number;
+  private states: Map<string, KillSwitchState> = new Map();
+
+  constructor(deps: KillSwitchDependencies) {
+    this.deps = deps;
+    this.defaultLimits = { ...DEFAULT_LIMITS, ...deps.limits };
+    this.now = deps.now ?? Date.now;
+  }
+
+  getState(userId: string): KillSwitchState {
+    let state = this.states.get(userId);
+    if (!state) {
+      state = {
+        userId,
+        status: 'armed',
+        settings: { limits: { ...this.defaultLimits }, flattenPositions: false },
+        peakEquity: null,
+        dayStartEquity: null,
+        day: null,
+      };
+      this.states.set(userId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Restore persisted states, e.g. on startup. The trading halt is not
+   * persisted, so tripped accounts are halted again. Returns how many
+   * states were loaded.
+   */
+  async load(): Promise<number> {
+    if (!this.deps.store) return 0;
+    const states = await this.deps.store.loadAll();
+    for (const state of states) {
+      this.states.set(state.userId, state);
+      if (state.status === 'tripped') {
+        await this.deps.tradingHalt.haltTrading(state.userId, state.reason ?? 'Kill switch tripped');
+      }
+    }
+    return states.length;
+  }
+
+  isTripped(userId: string): boolean {
+    return this.states.get(userId)?.status === 'tripped';
+  }
+
+  /**
+   * Tighten or loosen the account's limits and choose whether a trip
+   * flattens open positions
+   */
+  async configure(
+    userId: string,
+    updates: { maxDrawdown?: number; maxDailyLoss?: number; flattenPositions?: boolean },
+    by: string = userId
+  ): Promise<KillSwitchState> {
+    for (const key of ['maxDrawdown', 'maxDailyLoss'] as const) {
+      const value = updates[key];
+      if (value !== undefined && !(typeof value === 'number' && value > 0 && value <= 1)) {
+        throw new Error(`Kill switch ${key} must be a fraction between 0 and 1`);
+      }
+    }
+
+    const state = this.getState(userId);
+    state.settings = {
+      limits: {
+        maxDrawdown: updates.maxDrawdown ?? state.settings.limits.maxDrawdown,
+        maxDailyLoss: updates.maxDailyLoss ?? state.settings.limits.maxDailyLoss,
+      },
+      flattenPositions: updates.flattenPositions ?? state.settings.flattenPositions,
+    };
+
+    await this.persist(state);
+    await this.audit(userId, 'kill_switch.settings', { by, ...state.settings });
+    return state;
+  }
+
+  /**
+   * Record a marked-to-market equity reading and trip the switch when it
+   * breaches the drawdown or daily loss limit
+   */
+  async check(userId: string, equity: number): Promise<KillSwitchCheck> {
+    const state = this.getState(userId);
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    let changed = false;
+
+    if (state.day !== day || state.dayStartEquity === null) {
+      state.day = day;
+      state.dayStartEquity = equity;
+      changed = true;
+    }
+    if (state.peakEquity === null || equity > state.peakEquity) {
+      state.peakEquity = equity;
+      changed = true;
+    }
+    if (changed) {
+      await this.persist(state);
+    }
+
+    const peakEquity = state.peakEquity;
+    const dayStartEquity = state.dayStartEquity;
+    const drawdown = peakEquity > 0 ? Math.max(0, (peakEquity - equity) / peakEquity) : 0;
+    const dailyLoss = dayStartEquity > 0 ? Math.max(0, (dayStartEquity - equity) / dayStartEquity) : 0;
+
+    const result = { equity, peakEquity, drawdown, dailyLoss, tripped: false, state };
+    if (state.status === 'tripped') {
+      return result;
+    }
+
+    const { maxDrawdown, maxDailyLoss } = state.settings.limits;
+    const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    if (drawdown >= maxDrawdown) {
+      await this.trip(userId, 'max_drawdown', `Drawdown ${pct(drawdown)} breached the ${pct(maxDrawdown)} limit`, {
+        equity,
+        peakEquity,
+      });
+      return { ...result, tripped: true };
+    }
+    if (dailyLoss >= maxDailyLoss) {
+      await this.trip(userId, 'max_daily_loss', `Daily loss ${pct(dailyLoss)} breached the ${pct(maxDailyLoss)} limit`, {
+        equity,
+        dayStartEquity,
+      });
+      return { ...result, tripped: true };
+    }
+
+    return result;
+  }
+
+  /**
+   * Halt the account. The state is marked tripped before any action runs,
+   * so live orders are rejected while orders are cancelled. Every action is
+   * attempted even if an earlier one fails; failures are recorded on the
+   * state and in the audit entry.
+   */
+  async trip(
+    userId: string,
+    trigger: KillSwitchTrigger,
+    reason: string,
+    details: Record<string, unknown> = {}
+  ): Promise<KillSwitchState> {
+    const state = this.getState(userId);
+    if (state.status === 'tripped') {
+      throw new Error('Kill switch is already tripped');
+    }
+
+    const actions: KillSwitchActions = {
+      tradingHalted: false,
+      ordersCancelled: false,
+      positionsFlattened: null,
+      strategiesPaused: [],
+      errors: [],
+    };
+    Object.assign(state, {
+      status: 'tripped',
+      trippedAt: new Date(this.now()),
+      trigger,
+      reason,
+      actions,
+      rearmedAt: undefined,
+      rearmedBy: undefined,
+    });
+    await this.persist(state);
+
+    const attempt = async (label: string, action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (error: any) {
+        actions.errors.push(`${label}: ${error?.message ?? error}`);
+      }
+    };
+
+    // Stop new orders first so nothing slips in while orders are cancelled
+    await attempt('halt trading', async () => {
+      await this.deps.tradingHalt.haltTrading(userId, reason);
+      actions.tradingHalted = true;
+    });
+    // Algorithms go before orders so none places a child after the cancel
+    if (this.deps.algorithms) {
+      await attempt('cancel execution algorithms', async () => {
+        actions.algorithmsCancelled = (await this.deps.algorithms!.cancelUserAlgorithms(userId)).length;
+      });
+    }
+    await attempt('cancel orders', async () => {
+      await this.deps.orders.cancelAllOrders(userId);
+      actions.ordersCancelled = true;
+    });
+    if (state.settings.flattenPositions && this.deps.flattenPositions) {
+      await attempt('flatten positions', async () => {
+        actions.positionsFlattened = await this.deps.flattenPositions!(userId);
+      });
+    }
+    await attempt('pause strategies', async () => {
+      const strategies = await this.deps.strategies.getUserStrategies(userId, { status: 'active' });
+      for (const strategy of strategies.filter(isAuto)) {
+        await attempt(`pause strategy ${strategy.id}`, async () => {
+          await this.deps.strategies.updateStatus(strategy.id, 'paused');
+          actions.strategiesPaused.push(strategy.id);
+        });
+      }
+    });
+
+    await this.persist(state);
+    await this.audit(userId, 'kill_switch.tripped', { trigger, reason, ...details, actions });
+    return state;
+  }
+
+  /**
+   * Lift the halt. The high-water mark restarts from the next mark so the
+   * drawdown that tripped the switch does not trip it again. Paused
+   * strategies stay paused and the account stays in paper mode until the
+   * user resumes them.
+   */
+  async rearm(userId: string, request: RearmRequest): Promise<KillSwitchState> {
+    const state = this.getState(userId);
+    if (state.status !== 'tripped') {
+      throw new Error('Kill switch is not tripped');
+    }
+    if (!request.reason?.trim()) {
+      throw new Error('A reason is required to re-arm the kill switch');
+    }
+    if (!request.acknowledgement?.trim()) {
+      throw new Error('Acknowledgement required to re-arm the kill switch');
+    }
+
+    await this.deps.tradingHalt.resumeTrading(userId);
+
+    const tripped = { trigger: state.trigger, reason: state.reason, trippedAt: state.trippedAt };
+    Object.assign(state, {
+      status: 'armed',
+      peakEquity: null,
+      dayStartEquity: null,
+      day: null,
+      rearmedAt: new Date(this.now()),
+      rearmedBy: request.by,
+    });
+    await this.persist(state);
+
+    await this.audit(userId, 'kill_switch.rearmed', {
+      by: request.by,
+      reason: request.reason,
+      acknowledgement: request.acknowledgement,
+      tripped,
+    });
+    return state;
+  }
+
+  private async persist(state: KillSwitchState) {
+    if (!this.deps.store) return;
+    try {
+      await this.deps.store.save(state);
+    } catch (error) {
+      // Keep enforcing the in-memory state; the next change retries the write
+      console.error('Kill switch state could not be saved:', error);
+    }
+  }
+
+  private async audit(userId: string, action: KillSwitchAuditEntry['action'], details: Record<string, unknown>) {
+    if (!this.deps.audit) return;
+    try {
+      await this.deps.audit({ userId, action, timestamp: new Date(this.now()), details });
+    } catch (error) {
+      // The halt itself must not fail because the audit trail is unavailable
+      console.error('Kill switch audit log failed:', error);
+    }
+  }
+}
+
+function isAuto(strategy: Strategy): boolean {
+  return (strategy.executionMode ?? (strategy as any).execution_mode) === 'auto';
+}
+
+/**
+ * Pre-trade rule that rejects live orders while the account's kill switch
+ * is tripped
+ */
+export function createKillSwitchRule(killSwitch: KillSwitchService): RiskRule {
+  return {
+    id: 'kill_switch',
+    description: 'Blocks live orders while the account kill switch is tripped',
+    evaluate(order) {
+      if (order.mode !== 'live') {
+        return { outcome: 'skip', reason: 'Kill switch only halts live trading' };
+      }
+      const state = killSwitch.getState(order.userId);
+      return state.status === 'tripped'
+        ? { outcome: 'reject', reason: `Trading halted by kill switch: ${state.reason}` }
+        : { outcome: 'pass' };
+    },
+  };
+}
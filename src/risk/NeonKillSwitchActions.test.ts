@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order as NeonOrder, Position as NeonPosition } from '../database/DatabaseFactory';
+import type { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+import { NeonKillSwitchActions } from './NeonKillSwitchActions';
+
+// Neon repositories take camelCase patches and return camelCase rows
+function createStubDb() {
+  const db: any = {
+    _orders: [] as NeonOrder[],
+    _positions: [] as NeonPosition[],
+    exchangeConnections: {
+      findByUserId: async (userId: string) => [{ id: 'conn-1', userId, exchange: 'binance' }],
+    },
+    userSettings: {
+      findByUserId: async () => null,
+    },
+    orders: {
+      create: async (data: any) => {
+        const order = {
+          id: `ord-${db._orders.length + 1}`,
+          userId: data.userId,
+          strategyId: data.strategyId,
+          exchangeConnectionId: data.exchangeConnectionId,
+          symbol: data.symbol,
+          side: data.side,
+          type: data.type,
+          quantity: data.quantity,
+          status: 'pending',
+          mode: data.mode,
+        } as NeonOrder;
+        db._orders.push(order);
+        return order;
+      },
+      findByUserId: async (userId: string, options?: { status?: string; mode?: string }) =>
+        db._orders.filter(
+          (o: NeonOrder) =>
+            o.userId === userId &&
+            (!options?.status || o.status === options.status) &&
+            (!options?.mode || o.mode === options.mode)
+        ),
+      update: async (id: string, patch: Record<string, unknown>) => {
+        const order = db._orders.find((o: NeonOrder) => o.id === id);
+        for (const [key, value] of Object.entries(patch)) {
+          order[key] = value;
+        }
+        return order;
+      },
+    },
+    positions: {
+      findOpen: async (userId: string) =>
+        db._positions.filter((p: NeonPosition) => p.userId === userId && !p.closedAt),
+    },
+  };
+  return db;
+}
+
+const order = (overrides: Partial<NeonOrder>): NeonOrder =>
+  ({
+    id: 'ord-1',
+    userId: 'user-1',
+    symbol: 'BTC/USDT',
+    side: 'buy',
+    type: 'limit',
+    quantity: 1,
+    status: 'pending',
+    mode: 'live',
+    ...overrides,
+  }) as NeonOrder;
+
+describe('NeonKillSwitchActions', () => {
+  let db: ReturnType<typeof createStubDb>;
+  let adapter: { cancelOrder: ReturnType<typeof vi.fn>; createOrder: ReturnType<typeof vi.fn> };
+  let actions: NeonKillSwitchActions;
+
+  beforeEach(() => {
+    db = createStubDb();
+    adapter = {
+      cancelOrder: vi.fn(async () => ({ success: true })),
+      createOrder: vi.fn(async () => ({ success: true, orderId: 'ex-new' })),
+    };
+    const exchangeService = {
+      getOrderAdapter: vi.fn(async () => ({ adapter, ctx: { exchange: 'binance' } })),
+    } as unknown as NeonExchangeAdapterService;
+
+    actions = new NeonKillSwitchActions(db as unknown as NeonDatabase, exchangeService);
+  });
+
+  it('cancels pending live orders on the exchange and locally', async () => {
+    db._orders.push(
+      order({ id: 'ord-1', exchangeConnectionId: 'conn-1', exchangeOrderId: 'ex-1' }),
+      order({ id: 'ord-2' }), // Never routed to an exchange
+      order({ id: 'ord-3', mode: 'paper' }),
+      order({ id: 'ord-4', status: 'filled' })
+    );
+
+    const cancelled = await actions.cancelAllOrders('user-1');
+
+    expect(cancelled).toBe(2);
+    expect(adapter.cancelOrder).toHaveBeenCalledTimes(1);
+    expect(adapter.cancelOrder).toHaveBeenCalledWith({ exchange: 'binance' }, 'ex-1', 'BTC/USDT');
+    expect(db._orders.map((o: NeonOrder) => o.status)).toEqual(['cancelled', 'cancelled', 'pending', 'filled']);
+  });
+
+  it('reports orders the exchange would not cancel', async () => {
+    db._orders.push(order({ id: 'ord-1', exchangeConnectionId: 'conn-1', exchangeOrderId: 'ex-1' }), order({ id: 'ord-2' }));
+    adapter.cancelOrder.mockResolvedValueOnce({ success: false, error: 'Unknown order' });
+
+    await expect(actions.cancelAllOrders('user-1')).rejects.toThrow(
+      'Failed to cancel 1 of 2 orders (ord-1: Unknown order)'
+    );
+    expect(db._orders[0].status).toBe('pending');
+    expect(db._orders[1].status).toBe('cancelled');
+  });
+
+  it('closes open live positions with opposite-side market orders', async () => {
+    db._positions.push(
+      { id: 'pos-1', userId: 'user-1', strategyId: 'strat-1', symbol: 'BTC/USDT', side: 'long', quantity: 0.5, mode: 'live' },
+      { id: 'pos-2', userId: 'user-1', symbol: 'ETH/USDT:USDT', side: 'short', quantity: 3, mode: 'live' },
+      { id: 'pos-3', userId: 'user-1', symbol: 'SOL/USDT', side: 'long', quantity: 10, mode: 'paper' }
+    );
+
+    const closed = await actions.flattenPositions('user-1');
+
+    expect(closed).toBe(2);
+    expect(adapter.createOrder.mock.calls.map(([, params]: any[]) => params)).toEqual([
+      { symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.5, clientOrderId: 'ord-1', reduceOnly: undefined },
+      { symbol: 'ETH/USDT:USDT', side: 'buy', type: 'market', quantity: 3, clientOrderId: 'ord-2', reduceOnly: true },
+    ]);
+    expect(db._orders).toMatchObject([
+      { id: 'ord-1', status: 'pending', strategyId: 'strat-1', exchangeConnectionId: 'conn-1', exchangeOrderId: 'ex-new' },
+      { id: 'ord-2', status: 'pending', strategyId: undefined, exchangeConnectionId: 'conn-1', exchangeOrderId: 'ex-new' },
+    ]);
+  });
+});
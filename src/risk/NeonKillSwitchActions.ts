@@ -0,0 +1,129 @@
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order, Position, ExchangeConnection } from '../database/DatabaseFactory';
+import type { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+
+/**
+ * NeonKillSwitchActions
+ *
+ * The order-side actions a tripped kill switch takes on the Neon stack:
+ * - Cancel every pending live order, on the exchange when it was routed
+ *   there and locally in all cases
+ * - Flatten open live positions with market orders on the opposite side
+ *
+ * Closing orders are recorded locally and submitted with the local order ID
+ * as their client order ID, so the reconciliation worker picks up the fills.
+ * Neon rows come back camelCase, so they are read through the
+ * DatabaseFactory row types rather than the column-named NeonDatabase
+ * interfaces.
+ */
+export class NeonKillSwitchActions {
+  private db: NeonDatabase;
+  private exchangeService: NeonExchangeAdapterService;
+
+  constructor(db: NeonDatabase, exchangeService: NeonExchangeAdapterService) {
+    this.db = db;
+    this.exchangeService = exchangeService;
+  }
+
+  async cancelAllOrders(userId: string): Promise<number> {
+    const orders = (await this.db.orders.findByUserId(userId, { status: 'pending', mode: 'live' })) as unknown as Order[];
+
+    const failures: string[] = [];
+    let cancelled = 0;
+
+    for (const order of orders) {
+      try {
+        if (order.exchangeConnectionId && order.exchangeOrderId) {
+          const { adapter, ctx } = await this.exchangeService.getOrderAdapter(order.exchangeConnectionId, userId);
+          const result = await adapter.cancelOrder(ctx, order.exchangeOrderId, order.symbol);
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to cancel order');
+          }
+        }
+        await this.db.orders.update(order.id, { status: 'cancelled' });
+        cancelled++;
+      } catch (error: any) {
+        failures.push(`${order.id}: ${error?.message ?? error}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to cancel ${failures.length} of ${orders.length} orders (${failures.join('; ')})`);
+    }
+    return cancelled;
+  }
+
+  async flattenPositions(userId: string): Promise<number> {
+    const positions = ((await this.db.positions.findOpen(userId)) as unknown as Position[]).filter((p) => p.mode === 'live');
+    if (positions.length === 0) return 0;
+
+    const connection = await this.pickConnection(userId);
+    const { adapter, ctx } = await this.exchangeService.getOrderAdapter(connection.id, userId);
+
+    const failures: string[] = [];
+    let closed = 0;
+
+    for (const position of positions) {
+      const quantity = Number(position.quantity);
+      if (!(quantity > 0)) continue;
+
+      const side = position.side === 'long' ? 'sell' : 'buy';
+      try {
+        const order = await this.db.orders.create({
+          userId,
+          strategyId: position.strategyId,
+          exchangeConnectionId: connection.id,
+          symbol: position.symbol,
+          side,
+          type: 'market',
+          quantity,
+          mode: 'live',
+        });
+        if (!order) {
+          throw new Error('Failed to record closing order');
+        }
+
+        const result = await adapter.createOrder(ctx, {
+          symbol: position.symbol,
+          side,
+          type: 'market',
+          quantity,
+          clientOrderId: order.id,
+          reduceOnly: position.symbol.includes(':') || undefined,
+        });
+        if (!result.success || !result.orderId) {
+          await this.db.orders.update(order.id, { status: 'rejected' });
+          throw new Error(result.error || 'Order rejected by exchange');
+        }
+
+        await this.db.orders.update(order.id, { exchangeOrderId: result.orderId } as any);
+        closed++;
+      } catch (error: any) {
+        failures.push(`${position.symbol}: ${error?.message ?? error}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to close ${failures.length} of ${positions.length} positions (${failures.join('; ')})`);
+    }
+    return closed;
+  }
+
+  private async pickConnection(userId: string): Promise<ExchangeConnection> {
+    const connections = (await this.db.exchangeConnections.findByUserId(userId)) as unknown as ExchangeConnection[];
+    if (connections.length === 0) {
+      throw new Error('No exchange connections available to flatten positions');
+    }
+
+    try {
+      const settings = await this.db.userSettings.findByUserId(userId);
+      const preferredId = (settings as any)?.defaultExchange as string | undefined;
+      const preferred = preferredId && connections.find((c) => c.id === preferredId || c.exchange === preferredId);
+      if (preferred) return preferred;
+    } catch {
+      // Fall back to the first connection, as mark-to-market does
+    }
+
+    return connections[0];
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { KillSwitchState } from './KillSwitchService';
+import { NeonKillSwitchStore } from './NeonKillSwitchStore';
+
+describe('NeonKillSwitchStore', () => {
+  it('saves state as a row and reads DECIMAL columns back as numbers', async () => {
+    const upsert = vi.fn(async () => null);
+    const db = {
+      killSwitchStates: {
+        upsert,
+        // Neon rows come back camelCase, with DECIMAL columns as strings
+        findAll: async () => [
+          {
+            userId: 'user-1',
+            status: 'tripped',
+            maxDrawdown: '0.100000',
+            maxDailyLoss: '0.050000',
+            flattenPositions: true,
+            peakEquity: '11000.00000000',
+            dayStartEquity: null,
+            day: null,
+            trippedAt: new Date('2024-06-03T09:00:00Z'),
+            trigger: 'max_drawdown',
+            reason: 'Drawdown 10.9% breached the 10.0% limit',
+            actions: { tradingHalted: true, ordersCancelled: true, positionsFlattened: 1, strategiesPaused: [], errors: [] },
+            rearmedAt: null,
+            rearmedBy: null,
+            updatedAt: new Date('2024-06-03T09:00:00Z'),
+          },
+        ],
+      },
+    };
+    const store = new NeonKillSwitchStore(db as unknown as NeonDatabase);
+
+    const [state] = await store.loadAll();
+
+    expect(state).toEqual({
+      userId: 'user-1',
+      status: 'tripped',
+      settings: { limits: { maxDrawdown: 0.1, maxDailyLoss: 0.05 }, flattenPositions: true },
+      peakEquity: 11000,
+      dayStartEquity: null,
+      day: null,
+      trippedAt: new Date('2024-06-03T09:00:00Z'),
+      trigger: 'max_drawdown',
+      reason: 'Drawdown 10.9% breached the 10.0% limit',
+      actions: { tradingHalted: true, ordersCancelled: true, positionsFlattened: 1, strategiesPaused: [], errors: [] },
+      rearmedAt: undefined,
+      rearmedBy: undefined,
+    } satisfies KillSwitchState);
+
+    await store.save(state);
+
+    expect(upsert).toHaveBeenCalledWith({
+      userId: 'user-1',
+      status: 'tripped',
+      maxDrawdown: 0.1,
+      maxDailyLoss: 0.05,
+      flattenPositions: true,
+      peakEquity: 11000,
+      dayStartEquity: null,
+      day: null,
+      trippedAt: state.trippedAt,
+      trigger: 'max_drawdown',
+      reason: 'Drawdown 10.9% breached the 10.0% limit',
+      actions: state.actions,
+      rearmedAt: undefined,
+      rearmedBy: undefined,
+    });
+  });
+});
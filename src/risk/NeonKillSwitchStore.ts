@@ -0,0 +1,65 @@
+import type { NeonDatabase, KillSwitchStateRow } from '../database/NeonDatabase';
+import type { KillSwitchActions, KillSwitchState, KillSwitchStore, KillSwitchTrigger } from './KillSwitchService';
+
+/**
+ * NeonKillSwitchStore
+ *
+ * Keeps each account's kill switch state in the kill_switch_states table,
+ * one row per user, so a tripped account stays halted across restarts and
+ * drawdown keeps being measured from the persisted high-water mark.
+ */
+export class NeonKillSwitchStore implements KillSwitchStore {
+  private db: NeonDatabase;
+
+  constructor(db: NeonDatabase) {
+    this.db = db;
+  }
+
+  async loadAll(): Promise<KillSwitchState[]> {
+    const rows = await this.db.killSwitchStates.findAll();
+    return rows.map(rowToState);
+  }
+
+  async save(state: KillSwitchState): Promise<void> {
+    await this.db.killSwitchStates.upsert({
+      userId: state.userId,
+      status: state.status,
+      maxDrawdown: state.settings.limits.maxDrawdown,
+      maxDailyLoss: state.settings.limits.maxDailyLoss,
+      flattenPositions: state.settings.flattenPositions,
+      peakEquity: state.peakEquity,
+      dayStartEquity: state.dayStartEquity,
+      day: state.day,
+      trippedAt: state.trippedAt,
+      trigger: state.trigger,
+      reason: state.reason,
+      actions: state.actions,
+      rearmedAt: state.rearmedAt,
+      rearmedBy: state.rearmedBy,
+    });
+  }
+}
+
+function rowToState(row: KillSwitchStateRow): KillSwitchState {
+  return {
+    userId: row.userId,
+    status: row.status === 'tripped' ? 'tripped' : 'armed',
+    settings: {
+      limits: { maxDrawdown: Number(row.maxDrawdown), maxDailyLoss: Number(row.maxDailyLoss) },
+      flattenPositions: row.flattenPositions,
+    },
+    peakEquity: toNumberOrNull(row.peakEquity),
+    dayStartEquity: toNumberOrNull(row.dayStartEquity),
+    day: row.day,
+    trippedAt: row.trippedAt ?? undefined,
+    trigger: (row.trigger as KillSwitchTrigger | null) ?? undefined,
+    reason: row.reason ?? undefined,
+    actions: (row.actions as KillSwitchActions | null) ?? undefined,
+    rearmedAt: row.rearmedAt ?? undefined,
+    rearmedBy: row.rearmedBy ?? undefined,
+  };
+}
+
+function toNumberOrNull(value: string | number | null): number | null {
+  return value === null ? null : Number(value);
+}
@@ -1,18 +1,18 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import type {
-  NeonDatabase,
-  Position as NeonPosition,
-  ExchangeConnection as NeonExchangeConnection,
-} from '../database/NeonDatabase';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NeonDatabase, EquitySnapshot } from '../database/NeonDatabase';
+import type { Position as NeonPosition, ExchangeConnection as NeonExchangeConnection } from '../database/DatabaseFactory';
 import { NeonMarkToMarketService } from './NeonMarkToMarketService';
+import { KillSwitchService } from './KillSwitchService';
 
 interface StubDb extends Partial<NeonDatabase> {
   _positions: NeonPosition[];
   _exchangeConnections: NeonExchangeConnection[];
+  _snapshots: EquitySnapshot[];
 }
 
 class StubExchangeService {
   prices: Record<string, number> = {};
+  balances: Record<string, number> = {};
 
   setPrice(symbol: string, price: number) {
     this.prices[symbol] = price;
@@ -31,15 +31,41 @@ class StubExchangeService {
       userId,
     } as any;
   }
+
+  async getPublicTicker(exchange: string, symbol: string) {
+    return { ...(await this.getTicker('', '', symbol)), exchange };
+  }
+
+  async getBalance() {
+    return { total: this.balances, free: this.balances, used: {}, assets: [] } as any;
+  }
 }
 
+// Neon repositories take camelCase patches and return camelCase rows
 function createStubDb(): StubDb {
   const db: any = {
     _positions: [] as NeonPosition[],
     _exchangeConnections: [] as NeonExchangeConnection[],
+    _snapshots: [] as EquitySnapshot[],
     positions: {
       findOpen: async (userId: string) =>
-        db._positions.filter((p: NeonPosition) => p.user_id === userId && !p.closed_at),
+        db._positions.filter((p: NeonPosition) => p.userId === userId && !p.closedAt),
+      findOpenUserIds: async (mode?: string) =>
+        Array.from(
+          new Set(
+            db._positions
+              .filter((p: NeonPosition) => !p.closedAt && (!mode || p.mode === mode))
+              .map((p: NeonPosition) => p.userId)
+          )
+        ),
+      findUserIds: async (mode: string) =>
+        Array.from(
+          new Set(db._positions.filter((p: NeonPosition) => p.mode === mode).map((p: NeonPosition) => p.userId))
+        ),
+      sumRealizedPnl: async (userId: string, mode: string) =>
+        db._positions
+          .filter((p: NeonPosition) => p.userId === userId && p.mode === mode && p.closedAt)
+          .reduce((sum: number, p: NeonPosition) => sum + Number(p.realizedPnl ?? 0), 0),
       update: async (id: string, patch: any) => {
         const idx = db._positions.findIndex((p: NeonPosition) => p.id === id);
         if (idx === -1) {
@@ -48,18 +74,41 @@ function createStubDb(): StubDb {
         db._positions[idx] = {
           ...db._positions[idx],
           ...patch,
-          updated_at: new Date(),
+          updatedAt: new Date(),
         } as any;
         return db._positions[idx];
       },
     },
     exchangeConnections: {
       findByUserId: async (userId: string) =>
-        db._exchangeConnections.filter((c: NeonExchangeConnection) => c.user_id === userId),
+        db._exchangeConnections.filter((c: NeonExchangeConnection) => c.userId === userId),
+      findActiveUserIds: async () =>
+        Array.from(
+          new Set(
+            db._exchangeConnections
+              .filter((c: NeonExchangeConnection) => c.status === 'active')
+              .map((c: NeonExchangeConnection) => c.userId)
+          )
+        ),
     },
     userSettings: {
       findByUserId: async () => null,
     },
+    equitySnapshots: {
+      create: async (data: any) => {
+        const snapshot = {
+          id: `snap-${db._snapshots.length + 1}`,
+          ...data,
+          capturedAt: data.capturedAt ?? new Date(),
+        } as EquitySnapshot;
+        db._snapshots.push(snapshot);
+        return snapshot;
+      },
+      findByUserId: async (userId: string, options?: { mode?: string }) =>
+        db._snapshots.filter(
+          (s: EquitySnapshot) => s.userId === userId && (!options?.mode || s.mode === options.mode)
+        ),
+    },
   };
 
   return db as StubDb;
@@ -77,14 +126,14 @@ describe('NeonMarkToMarketService', () => {
     // Single Binance connection for the user
     db._exchangeConnections.push({
       id: 'conn-1',
-      user_id: 'user-1',
+      userId: 'user-1',
       exchange: 'binance',
       name: 'Binance',
       status: 'active',
-      encrypted_api_key: 'k',
-      encrypted_api_secret: 's',
-      created_at: new Date(),
-      updated_at: new Date(),
+      encryptedApiKey: 'k',
+      encryptedApiSecret: 's',
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any);
 
     service = new NeonMarkToMarketService(db as unknown as NeonDatabase, exchangeService as any);
@@ -93,16 +142,16 @@ describe('NeonMarkToMarketService', () => {
   it('updates long positions with correct unrealized PnL', async () => {
     const position: NeonPosition = {
       id: 'pos-1',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'long',
       quantity: 0.5,
-      entry_price: 40000,
+      entryPrice: 40000,
       mode: 'live',
-      opened_at: new Date(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._positions.push(position);
 
@@ -113,24 +162,23 @@ describe('NeonMarkToMarketService', () => {
 
     expect(result.updatedPositions).toBe(1);
     expect(result.totalUnrealizedPnl).toBeCloseTo(2500, 6);
-    expect(db._positions[0].currentPrice ?? (db._positions[0] as any).current_price).toBe(45000);
-    const upnl = (db._positions[0] as any).unrealizedPnl ?? (db._positions[0] as any).unrealized_pnl;
-    expect(upnl).toBeCloseTo(2500, 6);
+    expect(db._positions[0].currentPrice).toBe(45000);
+    expect(db._positions[0].unrealizedPnl).toBeCloseTo(2500, 6);
   });
 
   it('updates short positions with correct unrealized PnL', async () => {
     const position: NeonPosition = {
       id: 'pos-2',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'ETH/USDT',
       side: 'short',
       quantity: 10,
-      entry_price: 2000,
+      entryPrice: 2000,
       mode: 'live',
-      opened_at: new Date(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._positions.push(position);
 
@@ -141,8 +189,7 @@ describe('NeonMarkToMarketService', () => {
 
     expect(result.updatedPositions).toBe(1);
     expect(result.totalUnrealizedPnl).toBeCloseTo(2000, 6);
-    const upnl = (db._positions[0] as any).unrealizedPnl ?? (db._positions[0] as any).unrealized_pnl;
-    expect(upnl).toBeCloseTo(2000, 6);
+    expect(db._positions[0].unrealizedPnl).toBeCloseTo(2000, 6);
   });
 
   it('throws when positions exist but no exchange connections are available', async () => {
@@ -152,16 +199,16 @@ describe('NeonMarkToMarketService', () => {
     // Add a live position that requires pricing
     const position: NeonPosition = {
       id: 'pos-3',
-      user_id: 'user-1',
-      strategy_id: 'strat-1',
+      userId: 'user-1',
+      strategyId: 'strat-1',
       symbol: 'BTC/USDT',
       side: 'long',
       quantity: 1,
-      entry_price: 40000,
+      entryPrice: 40000,
       mode: 'live',
-      opened_at: new Date(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
     } as any;
     db._positions.push(position);
 
@@ -169,4 +216,183 @@ describe('NeonMarkToMarketService', () => {
       'No exchange connections available for mark-to-market',
     );
   });
+
+  it('trips the kill switch when account equity breaches the drawdown limit', async () => {
+    const killSwitch = new KillSwitchService({
+      orders: { cancelAllOrders: async () => 0 },
+      strategies: { getUserStrategies: async () => [], updateStatus: async () => undefined },
+      tradingHalt: { haltTrading: () => undefined, resumeTrading: () => undefined },
+    });
+    service = new NeonMarkToMarketService(db as unknown as NeonDatabase, exchangeService as any, { killSwitch });
+
+    db._positions.push({
+      id: 'pos-4',
+      userId: 'user-1',
+      strategyId: 'strat-1',
+      symbol: 'BTC/USDT',
+      side: 'long',
+      quantity: 0.5,
+      entryPrice: 40000,
+      mode: 'live',
+      openedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+    exchangeService.balances = { BTC: 0.5, USDT: 10000 };
+
+    exchangeService.setPrice('BTC/USDT', 40000);
+    const first = await service.markToMarket('user-1');
+    expect(first.equity).toBe(30000);
+    expect(first.killSwitch?.tripped).toBe(false);
+
+    // BTC -40% -> equity 22k, a 26.7% drawdown
+    exchangeService.setPrice('BTC/USDT', 24000);
+    const second = await service.markToMarket('user-1');
+    expect(second.equity).toBe(22000);
+    expect(second.killSwitch?.tripped).toBe(true);
+    expect(killSwitch.isTripped('user-1')).toBe(true);
+  });
+
+  it('skips the snapshot and kill switch when a balance cannot be priced', async () => {
+    const killSwitch = new KillSwitchService({
+      orders: { cancelAllOrders: async () => 0 },
+      strategies: { getUserStrategies: async () => [], updateStatus: async () => undefined },
+      tradingHalt: { haltTrading: () => undefined, resumeTrading: () => undefined },
+    });
+    const check = vi.spyOn(killSwitch, 'check');
+    service = new NeonMarkToMarketService(db as unknown as NeonDatabase, exchangeService as any, { killSwitch });
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // The DOGE ticker fails; leaving DOGE out would understate equity by its value
+    exchangeService.balances = { USDT: 10000, DOGE: 100000 };
+    const result = await service.markToMarket('user-1');
+
+    expect(result.equity).toBeUndefined();
+    expect(result.killSwitch).toBeUndefined();
+    expect(check).not.toHaveBeenCalled();
+    expect(db._snapshots).toEqual([]);
+    expect(errors).toHaveBeenCalledWith('Equity read failed for user user-1:', new Error('No USDT price for DOGE: No price configured for DOGE/USDT'));
+    errors.mockRestore();
+  });
+
+  it('stores a timestamped equity snapshot on every mark', async () => {
+    db._positions.push(
+      { id: 'pos-5', userId: 'user-1', symbol: 'BTC/USDT', side: 'long', quantity: 0.5, entryPrice: 40000, mode: 'live' } as any,
+      { id: 'pos-6', userId: 'user-1', symbol: 'ETH/USDT', side: 'short', quantity: 10, entryPrice: 2000, mode: 'live' } as any
+    );
+    exchangeService.balances = { BTC: 0.5, USDT: 5000 };
+    exchangeService.setPrice('BTC/USDT', 42000);
+    exchangeService.setPrice('ETH/USDT', 2100);
+
+    const result = await service.markToMarket('user-1');
+
+    expect(result).toMatchObject({ positionValue: 42000, equity: 26000 });
+    expect(db._snapshots).toHaveLength(1);
+    expect(db._snapshots[0]).toMatchObject({
+      userId: 'user-1',
+      mode: 'live',
+      equity: 26000,
+      positionValue: 42000,
+      unrealizedPnl: 0, // +1000 on BTC, -1000 on ETH
+      positions: [
+        { positionId: 'pos-5', symbol: 'BTC/USDT', side: 'long', quantity: 0.5, price: 42000, value: 21000, unrealizedPnl: 1000 },
+        { positionId: 'pos-6', symbol: 'ETH/USDT', side: 'short', quantity: 10, price: 2100, value: 21000, unrealizedPnl: -1000 },
+      ],
+    });
+    expect(result.snapshot).toBe(db._snapshots[0]);
+
+    expect(await service.getEquityHistory('user-1')).toEqual([
+      { timestamp: db._snapshots[0].capturedAt, equity: 26000 },
+    ]);
+  });
+
+  it('snapshots flat accounts with their cash as equity', async () => {
+    exchangeService.balances = { USDT: 12500 };
+
+    const result = await service.markToMarket('user-1');
+
+    expect(result).toMatchObject({ updatedPositions: 0, equity: 12500, positionValue: 0 });
+    expect(db._snapshots).toMatchObject([{ userId: 'user-1', mode: 'live', equity: 12500, positions: [] }]);
+  });
+
+  it('values paper accounts from the starting balance and public prices', async () => {
+    db._positions.push(
+      { id: 'pos-10', userId: 'user-3', symbol: 'BTC/USDT', side: 'long', quantity: 1, entryPrice: 40000, mode: 'paper' } as any,
+      {
+        id: 'pos-11',
+        userId: 'user-3',
+        symbol: 'ETH/USDT',
+        side: 'long',
+        quantity: 1,
+        entryPrice: 2000,
+        mode: 'paper',
+        realizedPnl: 300,
+        closedAt: new Date(),
+      } as any
+    );
+    exchangeService.setPrice('BTC/USDT', 41000);
+
+    const result = await service.markToMarket('user-3', { mode: 'paper' });
+
+    // No exchange connection for user-3: priced from public tickers
+    expect(result).toMatchObject({ updatedPositions: 1, totalUnrealizedPnl: 1000, equity: 101300 });
+    expect(db._snapshots).toMatchObject([{ userId: 'user-3', mode: 'paper', equity: 101300 }]);
+  });
+
+  it('prices open live positions at the current ticker for the risk engines', async () => {
+    db._positions.push(
+      { id: 'pos-20', userId: 'user-1', symbol: 'BTC/USDT', side: 'long', quantity: '0.5', entryPrice: 40000, mode: 'live', currentPrice: 41000 } as any,
+      { id: 'pos-21', userId: 'user-1', symbol: 'ETH/USDT', side: 'short', quantity: 2, entryPrice: 2000, mode: 'live' } as any,
+      { id: 'pos-22', userId: 'user-1', symbol: 'SOL/USDT', side: 'long', quantity: 10, entryPrice: 100, mode: 'paper' } as any
+    );
+    exchangeService.setPrice('BTC/USDT', 45000);
+    exchangeService.setPrice('ETH/USDT', 1800);
+
+    expect(await service.getOpenPositions('user-1')).toEqual([
+      { id: 'pos-20', symbol: 'BTC/USDT', direction: 'long', size: 0.5, currentPrice: 45000 },
+      { id: 'pos-21', symbol: 'ETH/USDT', direction: 'short', size: 2, currentPrice: 1800 },
+    ]);
+  });
+
+  it('marks every active live and paper account on each scheduled run', async () => {
+    db._exchangeConnections.push(
+      { ...db._exchangeConnections[0], id: 'conn-2', userId: 'user-2' },
+      { ...db._exchangeConnections[0], id: 'conn-4', userId: 'user-4' }
+    );
+    db._positions.push(
+      { id: 'pos-7', userId: 'user-1', symbol: 'BTC/USDT', side: 'long', quantity: 1, entryPrice: 40000, mode: 'live' } as any,
+      { id: 'pos-8', userId: 'user-2', symbol: 'SOL/USDT', side: 'long', quantity: 5, entryPrice: 100, mode: 'live' } as any,
+      { id: 'pos-9', userId: 'user-3', symbol: 'BTC/USDT', side: 'long', quantity: 1, entryPrice: 40000, mode: 'paper' } as any
+    );
+    exchangeService.balances = { USDT: 5000 };
+    exchangeService.setPrice('BTC/USDT', 41000);
+
+    const report = await service.markAll();
+
+    expect(report).toMatchObject({
+      accounts: 4,
+      updatedPositions: 2,
+      errors: [{ userId: 'user-2', mode: 'live', error: 'No price configured for SOL/USDT' }],
+    });
+    // user-4 is flat and still gets a snapshot
+    expect(db._snapshots.map((s) => [s.userId, s.mode, s.equity])).toEqual([
+      ['user-1', 'live', 5000],
+      ['user-4', 'live', 5000],
+      ['user-3', 'paper', 101000],
+    ]);
+  });
+
+  it('runs markAll on an interval until stopped', async () => {
+    vi.useFakeTimers();
+    const markAll = vi.spyOn(service, 'markAll').mockResolvedValue(null);
+
+    service.start(30_000);
+    service.start(30_000); // Already running
+    await vi.advanceTimersByTimeAsync(90_000);
+    service.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(markAll).toHaveBeenCalledTimes(3);
+    vi.useRealTimers();
+  });
 });
@@ -1,66 +1,182 @@
-import type { NeonDatabase, Position, ExchangeConnection } from '../database/NeonDatabase';
+import type { NeonDatabase, EquitySnapshot, EquitySnapshotPosition } from '../database/NeonDatabase';
+import type { Position, ExchangeConnection } from '../database/DatabaseFactory';
 import type { NeonExchangeAdapterService } from '../exchanges/NeonExchangeAdapterService';
+import type { KillSwitchCheck, KillSwitchService } from './KillSwitchService';
+import type { EquityPoint } from './RiskManager';
+import type { VaRPosition } from './PortfolioVaRService';
 
 export interface MarkToMarketResult {
   updatedPositions: number;
   totalUnrealizedPnl: number;
   lastMarkedAt: Date | null;
+  positionValue?: number; // Market value of the marked positions
+  equity?: number; // Account equity in USDT; live and paper marks
+  killSwitch?: KillSwitchCheck;
+  snapshot?: EquitySnapshot | null;
 }
 
+export interface MarkAllReport {
+  startedAt: Date;
+  completedAt: Date;
+  accounts: number; // User and mode pairs marked
+  updatedPositions: number;
+  errors: Array<{ userId: string; mode: 'live' | 'paper'; error: string }>;
+}
+
+export interface NeonMarkToMarketOptions {
+  /** Checked against account equity after every live mark */
+  killSwitch?: KillSwitchService;
+  /** Paper account cash before any realized PnL (default 100k USDT, as paper trading starts with) */
+  paperStartingBalance?: number;
+  /** Public prices for paper positions of users without an exchange connection (default binance) */
+  paperPriceExchange?: string;
+}
+
+const STABLE_ASSETS = new Set(['USDT', 'USDC', 'USD', 'BUSD', 'DAI']);
+
 export class NeonMarkToMarketService {
   private db: NeonDatabase;
   private exchangeService: NeonExchangeAdapterService;
+  private killSwitch?: KillSwitchService;
+  private paperStartingBalance: number;
+  private paperPriceExchange: string;
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
 
-  constructor(db: NeonDatabase, exchangeService: NeonExchangeAdapterService) {
+  constructor(db: NeonDatabase, exchangeService: NeonExchangeAdapterService, options: NeonMarkToMarketOptions = {}) {
     this.db = db;
     this.exchangeService = exchangeService;
+    this.killSwitch = options.killSwitch;
+    this.paperStartingBalance = options.paperStartingBalance ?? 100_000;
+    this.paperPriceExchange = options.paperPriceExchange ?? 'binance';
   }
 
+  // ============================================================================
+  // Scheduling
+  // ============================================================================
+
+  /**
+   * Mark every active live and paper account on an interval
+   */
+  start(intervalMs = 60_000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.markAll().catch((error) => {
+        console.error('Scheduled mark-to-market failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async markAll(): Promise<MarkAllReport | null> {
+    // Skip a tick while the previous run is still pricing positions
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const report: MarkAllReport = {
+        startedAt: new Date(),
+        completedAt: new Date(),
+        accounts: 0,
+        updatedPositions: 0,
+        errors: [],
+      };
+
+      // Flat accounts are marked too, so equity curves and drawdown have no gaps
+      const liveUserIds = new Set([
+        ...(await this.db.exchangeConnections.findActiveUserIds()),
+        ...(await this.db.positions.findOpenUserIds('live')),
+      ]);
+      const paperUserIds = await this.db.positions.findUserIds('paper');
+      const accounts = [
+        ...[...liveUserIds].map((userId) => ({ userId, mode: 'live' as const })),
+        ...paperUserIds.map((userId) => ({ userId, mode: 'paper' as const })),
+      ];
+
+      for (const { userId, mode } of accounts) {
+        report.accounts++;
+        try {
+          const result = await this.markToMarket(userId, { mode });
+          report.updatedPositions += result.updatedPositions;
+        } catch (error: any) {
+          report.errors.push({ userId, mode, error: error?.message || 'Mark-to-market failed' });
+        }
+      }
+
+      report.completedAt = new Date();
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ============================================================================
+  // Marking
+  // ============================================================================
+
   /**
    * Mark all open positions to market for a user.
    *
    * For now we:
-   * - Focus on live positions (mode === 'live')
+   * - Mark live positions by default (mode === 'live')
    * - Use the user's default exchange if configured, otherwise the first
-   *   available exchange connection
+   *   available exchange connection; paper positions fall back to public
+   *   prices when the user has no connection
    * - Update current_price and unrealized_pnl on each open position
+   * - Value the account's balances to get live equity, which is the cash
+   *   balance for a flat account; paper equity is the starting balance plus
+   *   realized and unrealized PnL
+   * - Feed live equity to the kill switch, if one is attached, so a
+   *   drawdown or daily loss breach halts trading
+   * - Store a timestamped equity snapshot for the equity curve; a run
+   *   whose equity could not be read stores none and skips the kill switch
+   *
+   * Neon rows come back camelCase, so they are read through the
+   * DatabaseFactory row types rather than the column-named NeonDatabase
+   * interfaces.
    */
   async markToMarket(userId: string, options?: { mode?: 'live' | 'paper' | 'both' }): Promise<MarkToMarketResult> {
     const mode = options?.mode ?? 'live';
 
-    const openPositions = await this.db.positions.findOpen(userId);
-    let positions: Position[] = openPositions as Position[];
+    const openPositions = (await this.db.positions.findOpen(userId)) as unknown as Position[];
+    const positions = mode === 'both' ? openPositions : openPositions.filter((p) => p.mode === mode);
 
-    if (mode === 'live') {
-      positions = positions.filter((p) => p.mode === 'live');
-    } else if (mode === 'paper') {
-      positions = positions.filter((p) => p.mode === 'paper');
-    }
-
-    if (positions.length === 0) {
-      return {
-        updatedPositions: 0,
-        totalUnrealizedPnl: 0,
-        lastMarkedAt: null,
-      };
-    }
+    const connections = (await this.db.exchangeConnections.findByUserId(userId)) as unknown as ExchangeConnection[];
+    const connection = connections.length > 0 ? await this.pickConnection(connections, userId) : null;
 
-    const connections = await this.db.exchangeConnections.findByUserId(userId);
-    if (!connections || connections.length === 0) {
+    if (!connection && mode !== 'paper') {
+      if (positions.length === 0) {
+        return {
+          updatedPositions: 0,
+          totalUnrealizedPnl: 0,
+          lastMarkedAt: null,
+        };
+      }
       throw new Error('No exchange connections available for mark-to-market');
     }
 
-    const connection = await this.pickConnection(connections as ExchangeConnection[], userId);
+    const getPrice = this.priceFeed(connection, userId);
 
     let totalUnrealizedPnl = 0;
+    let positionValue = 0;
     let lastMarkedAt: Date | null = null;
+    const prices = new Map<string, number>();
+    const marked: EquitySnapshotPosition[] = [];
 
     for (const pos of positions) {
-      const ticker = await this.exchangeService.getTicker(connection.id, userId, pos.symbol);
-      const currentPrice = ticker.last;
+      const currentPrice = await getPrice(pos.symbol);
+      prices.set(pos.symbol, currentPrice);
 
-      const entryPrice = Number((pos as any).entry_price ?? pos.entry_price);
-      const quantity = Number((pos as any).quantity ?? pos.quantity);
+      const entryPrice = Number(pos.entryPrice);
+      const quantity = Number(pos.quantity);
 
       if (!Number.isFinite(entryPrice) || !Number.isFinite(quantity)) {
         // Skip invalid numeric data rather than failing the whole run
@@ -79,18 +195,158 @@ export class NeonMarkToMarketService {
       } as any);
 
       totalUnrealizedPnl += unrealizedPnl;
+      positionValue += currentPrice * quantity;
+      marked.push({
+        positionId: pos.id,
+        symbol: pos.symbol,
+        side: pos.side,
+        quantity,
+        price: currentPrice,
+        value: currentPrice * quantity,
+        unrealizedPnl,
+      });
 
-      const updatedAt = new Date((updated as any).updated_at || Date.now());
+      const updatedAt = new Date((updated as unknown as Position | null)?.updatedAt || Date.now());
       if (!lastMarkedAt || updatedAt > lastMarkedAt) {
         lastMarkedAt = updatedAt;
       }
     }
 
-    return {
+    const result: MarkToMarketResult = {
       updatedPositions: positions.length,
       totalUnrealizedPnl,
       lastMarkedAt,
+      positionValue,
     };
+
+    // Positions are already marked; failures below are logged, not thrown
+    if (mode === 'live') {
+      try {
+        result.equity = await this.getAccountEquity(connection!, userId, prices);
+      } catch (error) {
+        console.error(`Equity read failed for user ${userId}:`, error);
+      }
+    } else if (mode === 'paper') {
+      try {
+        const realizedPnl = await this.db.positions.sumRealizedPnl(userId, 'paper');
+        result.equity = this.paperStartingBalance + realizedPnl + totalUnrealizedPnl;
+      } catch (error) {
+        console.error(`Paper equity read failed for user ${userId}:`, error);
+      }
+    }
+
+    // The kill switch halts live trading, so only live equity is checked
+    if (this.killSwitch && mode === 'live' && result.equity !== undefined) {
+      try {
+        result.killSwitch = await this.killSwitch.check(userId, result.equity);
+      } catch (error) {
+        console.error(`Kill switch check failed for user ${userId}:`, error);
+      }
+    }
+
+    if (mode !== 'both' && result.equity !== undefined) {
+      try {
+        result.snapshot = await this.db.equitySnapshots.create({
+          userId,
+          mode,
+          equity: result.equity,
+          positionValue,
+          unrealizedPnl: totalUnrealizedPnl,
+          positions: marked,
+        });
+      } catch (error) {
+        console.error(`Equity snapshot failed for user ${userId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Open live positions priced at the current ticker, in the shape the
+   * correlation and VaR engines take
+   */
+  async getOpenPositions(userId: string): Promise<VaRPosition[]> {
+    const positions = ((await this.db.positions.findOpen(userId)) as unknown as Position[])
+      .filter((p) => p.mode === 'live');
+    if (positions.length === 0) return [];
+
+    const connections = (await this.db.exchangeConnections.findByUserId(userId)) as unknown as ExchangeConnection[];
+    if (connections.length === 0) {
+      throw new Error('No exchange connections available for mark-to-market');
+    }
+    const getPrice = this.priceFeed(await this.pickConnection(connections, userId), userId);
+
+    const prices = new Map<string, number>();
+    const marked: VaRPosition[] = [];
+    for (const pos of positions) {
+      if (!prices.has(pos.symbol)) {
+        prices.set(pos.symbol, await getPrice(pos.symbol));
+      }
+      marked.push({
+        id: pos.id,
+        symbol: pos.symbol,
+        direction: pos.side,
+        size: Number(pos.quantity),
+        currentPrice: prices.get(pos.symbol)!,
+      });
+    }
+    return marked;
+  }
+
+  /**
+   * Account equity marks recorded by past runs, oldest first, for
+   * RiskManager.loadEquityHistory. Snapshots without equity are skipped.
+   */
+  async getEquityHistory(
+    userId: string,
+    options?: { mode?: 'live' | 'paper'; since?: Date; until?: Date; limit?: number }
+  ): Promise<EquityPoint[]> {
+    const snapshots = await this.db.equitySnapshots.findByUserId(userId, { mode: 'live', ...options });
+
+    return snapshots
+      .filter((snapshot) => snapshot.equity !== null && snapshot.equity !== undefined)
+      .map((snapshot) => ({ timestamp: new Date(snapshot.capturedAt), equity: Number(snapshot.equity) }));
+  }
+
+  /**
+   * Value every balance on the connection in USDT. Stablecoins count at par;
+   * an asset without a USDT price fails the read, since equity missing a
+   * holding would look like a loss to the kill switch.
+   */
+  private async getAccountEquity(
+    connection: ExchangeConnection,
+    userId: string,
+    prices: Map<string, number>
+  ): Promise<number> {
+    const balance = await this.exchangeService.getBalance(connection.id, userId);
+
+    let equity = 0;
+    for (const [asset, amount] of Object.entries(balance.total)) {
+      if (!amount) continue;
+      if (STABLE_ASSETS.has(asset)) {
+        equity += amount;
+        continue;
+      }
+
+      const symbol = `${asset}/USDT`;
+      if (!prices.has(symbol)) {
+        try {
+          prices.set(symbol, (await this.exchangeService.getTicker(connection.id, userId, symbol)).last);
+        } catch (error: any) {
+          throw new Error(`No USDT price for ${asset}: ${error?.message ?? error}`);
+        }
+      }
+      equity += amount * prices.get(symbol)!;
+    }
+    return equity;
+  }
+
+  private priceFeed(connection: ExchangeConnection | null, userId: string): (symbol: string) => Promise<number> {
+    return async (symbol) =>
+      connection
+        ? (await this.exchangeService.getTicker(connection.id, userId, symbol)).last
+        : (await this.exchangeService.getPublicTicker(this.paperPriceExchange, symbol)).last;
   }
 
   private async pickConnection(connections: ExchangeConnection[], userId: string): Promise<ExchangeConnection> {
@@ -98,7 +354,7 @@ export class NeonMarkToMarketService {
     // first available connection.
     try {
       const settings = await this.db.userSettings.findByUserId(userId);
-      const preferredId = (settings as any)?.default_exchange as string | undefined;
+      const preferredId = (settings as any)?.defaultExchange as string | undefined;
 
       if (preferredId) {
         const byId = connections.find((c) => c.id === preferredId);
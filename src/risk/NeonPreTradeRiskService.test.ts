@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { RiskGraphService } from '../patterns/RiskGraphService';
+import { NeonPreTradeRiskService } from './NeonPreTradeRiskService';
+import { PreTradeRiskGate } from './PreTradeRiskGate';
+
+const TIER_LIMITS = {
+  pro: { maxOpenLiveOrders: 2, maxDailyLoss: 1000, maxStrategyNotional: 50000 },
+};
+
+function createStubDb() {
+  const db: any = {
+    _orders: [] as any[],
+    _positions: [] as any[],
+    _trades: [] as any[],
+    _settings: null as any,
+    orders: {
+      findByUserId: async (userId: string, filters: { status: string; mode: string }) =>
+        db._orders.filter(
+          (o: any) => o.userId === userId && o.status === filters.status && o.mode === filters.mode,
+        ),
+    },
+    positions: {
+      findOpen: async (userId: string) => db._positions.filter((p: any) => p.userId === userId),
+    },
+    trades: {
+      findByUserId: async (userId: string, filters: { mode: string }) =>
+        db._trades.filter((t: any) => t.userId === userId && t.mode === filters.mode),
+    },
+    strategies: {
+      findById: async (id: string) =>
+        id === 'strat-1' ? { id, userId: 'user-1', config: { maxPositionSize: 2 } } : null,
+    },
+    userSettings: {
+      findByUserId: async () => db._settings,
+    },
+  };
+  return db;
+}
+
+describe('NeonPreTradeRiskService', () => {
+  let db: any;
+  let gate: PreTradeRiskGate;
+  let graphScore: number;
+  let service: NeonPreTradeRiskService;
+
+  const order = (mode: 'paper' | 'live', quantity = 0.5) => ({
+    userId: 'user-1',
+    source: 'neon_api' as const,
+    mode,
+    symbol: 'BTC/USDT',
+    side: 'buy' as const,
+    type: 'limit',
+    quantity,
+    price: 40000,
+    strategyId: 'strat-1',
+  });
+
+  beforeEach(() => {
+    db = createStubDb();
+    gate = new PreTradeRiskGate();
+    graphScore = 10;
+    const riskGraphService = {
+      getGraphRisk: async () => ({
+        score: graphScore,
+        factors: [],
+        openLivePositions: 1,
+        openLiveOrders: 1,
+        totalNotional: 20000,
+      }),
+    };
+    service = new NeonPreTradeRiskService(db as unknown as NeonDatabase, gate, {
+      tierLimits: (tier) => TIER_LIMITS[tier as keyof typeof TIER_LIMITS],
+      riskGraphService: riskGraphService as unknown as RiskGraphService,
+    });
+
+    db._positions.push({
+      id: 'pos-1', userId: 'user-1', strategyId: 'strat-1', symbol: 'BTC/USDT',
+      side: 'long', quantity: 1, entryPrice: 40000, currentPrice: 45000, mode: 'live',
+    });
+    db._orders.push({
+      id: 'ord-1', userId: 'user-1', strategyId: 'strat-1', symbol: 'ETH/USDT',
+      quantity: 2, price: 2000, status: 'pending', mode: 'live',
+    });
+    db._trades.push(
+      { userId: 'user-1', mode: 'live', pnl: -300, executedAt: new Date() },
+      { userId: 'user-1', mode: 'live', pnl: 500, executedAt: new Date() },
+      { userId: 'user-1', mode: 'live', pnl: -900, executedAt: new Date(Date.now() - 3 * 86400000) },
+    );
+  });
+
+  it('loads tier limits, daily loss, strategy exposure and graph risk for live orders', async () => {
+    const context = await service.loadContext(order('live'), 'pro');
+
+    expect(context.limits).toMatchObject({
+      maxOpenOrders: 2,
+      maxDailyLoss: 1000,
+      maxStrategyNotional: 50000,
+      maxPositionSize: 2,
+      graphRiskMode: 'warn',
+    });
+    expect(context).toMatchObject({ openOrders: 1, dailyLoss: 300, positionQuantity: 1 });
+    // 1 BTC marked at 45k plus the pending 2 ETH at 2k
+    expect(context.strategyNotional).toBe(49000);
+    expect(context.graphRisk?.score).toBe(10);
+
+    const decision = await service.evaluate(order('live'), 'pro');
+    expect(decision.rejectedBy).toBe('strategy_exposure');
+    expect(decision.reason).toBe('Strategy exposure limit reached (max 50000 notional per strategy)');
+  });
+
+  it('prices stop orders and dates trades without an execution time by creation', async () => {
+    db._orders.push({
+      id: 'ord-2', userId: 'user-1', strategyId: 'strat-1', symbol: 'BTC/USDT',
+      quantity: 0.1, stopPrice: 38000, status: 'pending', mode: 'live',
+    });
+    db._trades.push({ userId: 'user-1', mode: 'live', pnl: -200, createdAt: new Date() });
+
+    const context = await service.loadContext(order('live'), 'pro');
+
+    expect(context.strategyNotional).toBe(49000 + 3800);
+    expect(context.dailyLoss).toBe(500);
+  });
+
+  it('blocks on graph risk when the user settings ask for it', async () => {
+    db._settings = { graphRiskMode: 'block' };
+    graphScore = 85;
+
+    const decision = await service.evaluate(order('live', 0.01), 'pro', { dryRun: true });
+
+    expect(decision).toMatchObject({ allowed: false, dryRun: true, rejectedBy: 'graph_risk' });
+  });
+
+  it('holds paper orders only to position size and the users overrides', async () => {
+    db._positions[0].mode = 'paper';
+
+    const context = await service.loadContext(order('paper'), 'pro');
+    expect(context.limits).toMatchObject({ maxOpenOrders: -1, maxDailyLoss: -1, maxPositionSize: 2, graphRiskMode: 'off' });
+    expect(context.dailyLoss).toBeUndefined();
+
+    expect((await service.evaluate(order('paper', 1.5), 'pro')).reason).toBe(
+      'Order would exceed maximum position size (2.5 > 2)',
+    );
+
+    gate.setUserOverrides('user-1', { limits: { maxOpenOrders: 0 } });
+    expect((await service.evaluate(order('paper'), 'pro')).rejectedBy).toBe('max_open_orders');
+  });
+});
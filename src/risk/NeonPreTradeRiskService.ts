@@ -0,0 +1,164 @@
+import type { NeonDatabase } from '../database/NeonDatabase';
+import type { Order, Position, Trade } from '../database/DatabaseFactory';
+import type { RiskGraphService } from '../patterns/RiskGraphService';
+import { DEFAULT_PRE_TRADE_LIMITS } from './PreTradeRiskGate';
+import type {
+  GraphRiskMode,
+  PreTradeContext,
+  PreTradeDecision,
+  PreTradeOrder,
+  PreTradeRiskGate,
+} from './PreTradeRiskGate';
+
+/**
+ * Live trading limits for a subscription tier, as returned by getTierLimits
+ */
+export interface TierRiskLimits {
+  maxOpenLiveOrders: number;
+  maxDailyLoss: number;
+  maxStrategyNotional: number;
+}
+
+export interface NeonPreTradeRiskOptions {
+  tierLimits: (tier: string) => TierRiskLimits;
+  riskGraphService?: RiskGraphService | null;
+}
+
+/**
+ * NeonPreTradeRiskService
+ *
+ * Loads the account snapshot the pre-trade risk gate needs from Neon:
+ * - Pending orders and open positions in the order's mode
+ * - For live orders, the tier limits, today's realized losses, strategy
+ *   exposure and graph risk (when the user's graph risk mode is not off)
+ *
+ * Paper orders are only held to the strategy's position size and the user's
+ * own overrides. Neon rows come back camelCase, so they are read through the
+ * DatabaseFactory row types.
+ */
+export class NeonPreTradeRiskService {
+  private db: NeonDatabase;
+  private gate: PreTradeRiskGate;
+  private tierLimits: (tier: string) => TierRiskLimits;
+  private riskGraphService: RiskGraphService | null;
+
+  constructor(db: NeonDatabase, gate: PreTradeRiskGate, options: NeonPreTradeRiskOptions) {
+    this.db = db;
+    this.gate = gate;
+    this.tierLimits = options.tierLimits;
+    this.riskGraphService = options.riskGraphService ?? null;
+  }
+
+  getGate(): PreTradeRiskGate {
+    return this.gate;
+  }
+
+  async evaluate(order: PreTradeOrder, tier: string, options?: { dryRun?: boolean }): Promise<PreTradeDecision> {
+    return this.gate.evaluate(order, await this.loadContext(order, tier), options);
+  }
+
+  async loadContext(order: PreTradeOrder, tier: string): Promise<PreTradeContext> {
+    const openOrders = (await this.db.orders.findByUserId(order.userId, {
+      status: 'pending',
+      mode: order.mode,
+    })) as unknown as Order[];
+    const positions = ((await this.db.positions.findOpen(order.userId)) as unknown as Position[]).filter(
+      (p) => p.mode === order.mode,
+    );
+
+    const strategy = order.strategyId ? await this.db.strategies.findById(order.strategyId) : null;
+    const maxPositionSize = Number((strategy?.config as any)?.maxPositionSize) || undefined;
+
+    const positionQuantity = positions
+      .filter((p) => p.symbol === order.symbol)
+      .reduce((sum, p) => sum + (p.side === 'short' ? -1 : 1) * Number(p.quantity), 0);
+
+    const context: PreTradeContext = {
+      limits: { ...DEFAULT_PRE_TRADE_LIMITS, maxPositionSize },
+      openOrders: openOrders.length,
+      positionQuantity,
+    };
+
+    if (order.mode !== 'live') {
+      return context;
+    }
+
+    const limits = this.tierLimits(tier);
+    context.limits = {
+      ...context.limits,
+      maxOpenOrders: limits.maxOpenLiveOrders,
+      maxDailyLoss: limits.maxDailyLoss,
+      maxStrategyNotional: limits.maxStrategyNotional,
+      graphRiskMode: await this.loadGraphRiskMode(order.userId),
+    };
+    context.dailyLoss = await this.loadDailyLoss(order.userId);
+
+    if (order.strategyId) {
+      context.strategyNotional = strategyNotional(order.strategyId, positions, openOrders);
+    }
+
+    const effective = this.gate.effectiveLimits(order.userId, context.limits);
+    if (effective.graphRiskMode !== 'off' && this.riskGraphService) {
+      try {
+        context.graphRisk = await this.riskGraphService.getGraphRisk(order.userId);
+      } catch (error) {
+        // Graph risk is advisory; the rule is skipped when it cannot be loaded
+        console.error('Graph risk unavailable for pre-trade check:', error);
+      }
+    }
+
+    return context;
+  }
+
+  private async loadGraphRiskMode(userId: string): Promise<GraphRiskMode> {
+    try {
+      const settings = await this.db.userSettings.findByUserId(userId);
+      return (settings as any)?.graphRiskMode || 'warn';
+    } catch {
+      return 'warn';
+    }
+  }
+
+  /**
+   * Realized losses on live trades executed since local midnight
+   */
+  private async loadDailyLoss(userId: string): Promise<number> {
+    const trades = (await this.db.trades.findByUserId(userId, { mode: 'live' })) as unknown as Trade[];
+    const now = new Date();
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    let dailyLoss = 0;
+    for (const trade of trades) {
+      const executedAt = new Date(trade.executedAt || trade.createdAt);
+      const pnl = typeof trade.pnl === 'number' ? trade.pnl : 0;
+      if (executedAt >= startOfDay && pnl < 0) {
+        dailyLoss += Math.abs(pnl);
+      }
+    }
+
+    return dailyLoss;
+  }
+}
+
+/**
+ * Notional of a strategy's open positions plus its priced pending orders
+ */
+function strategyNotional(strategyId: string, positions: Position[], openOrders: Order[]): number {
+  let notional = 0;
+
+  for (const pos of positions) {
+    if (pos.strategyId !== strategyId) continue;
+    const price = pos.currentPrice || pos.entryPrice;
+    notional += Math.abs(pos.quantity * price);
+  }
+
+  for (const o of openOrders) {
+    if (o.strategyId !== strategyId) continue;
+    const price = o.price ?? o.stopPrice;
+    if (typeof price === 'number') {
+      notional += Math.abs(o.quantity * price);
+    }
+  }
+
+  return notional;
+}
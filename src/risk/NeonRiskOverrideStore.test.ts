@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NeonDatabase } from '../database/NeonDatabase';
+import { PreTradeRiskGate } from './PreTradeRiskGate';
+import { NeonRiskOverrideStore } from './NeonRiskOverrideStore';
+
+describe('NeonRiskOverrideStore', () => {
+  it('restores saved overrides into a new gate', async () => {
+    const rows = new Map<string, { userId: string; disabledRules: string[]; limits: Record<string, unknown> }>();
+    const upsert = vi.fn(async (data: { userId: string; disabledRules: string[]; limits: Record<string, unknown> }) => {
+      rows.set(data.userId, data);
+      return null;
+    });
+    const db = {
+      riskOverrides: {
+        upsert,
+        findAll: async () => [...rows.values()].map(row => ({ ...row, updatedAt: new Date() })),
+      },
+    };
+    const store = new NeonRiskOverrideStore(db as unknown as NeonDatabase);
+
+    await new PreTradeRiskGate({ store }).saveUserOverrides('user-1', {
+      disabledRules: ['graph_risk'],
+      limits: { maxOrderNotional: 25000 },
+    });
+
+    expect(upsert).toHaveBeenCalledWith({
+      userId: 'user-1',
+      disabledRules: ['graph_risk'],
+      limits: { maxOrderNotional: 25000 },
+    });
+
+    // A restarted process starts with an empty gate and reloads the stored rows
+    const restarted = new PreTradeRiskGate({ store });
+    expect(await restarted.load()).toBe(1);
+    expect(restarted.getUserOverrides('user-1')).toEqual({
+      disabledRules: ['graph_risk'],
+      limits: { maxOrderNotional: 25000 },
+    });
+  });
+});
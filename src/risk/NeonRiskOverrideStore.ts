@@ -0,0 +1,39 @@
+import type { NeonDatabase, RiskOverridesRow } from '../database/NeonDatabase';
+import type { PreTradeLimits, RiskOverrides, RiskOverrideStore } from './PreTradeRiskGate';
+
+/**
+ * NeonRiskOverrideStore
+ *
+ * Keeps each user's pre-trade risk overrides in the risk_overrides table,
+ * one row per user, so tightened limits and disabled rules survive restarts.
+ */
+export class NeonRiskOverrideStore implements RiskOverrideStore {
+  private db: NeonDatabase;
+
+  constructor(db: NeonDatabase) {
+    this.db = db;
+  }
+
+  async loadAll(): Promise<Array<{ userId: string; overrides: RiskOverrides }>> {
+    const rows = await this.db.riskOverrides.findAll();
+    return rows.map(rowToOverrides);
+  }
+
+  async save(userId: string, overrides: RiskOverrides): Promise<void> {
+    await this.db.riskOverrides.upsert({
+      userId,
+      disabledRules: overrides.disabledRules ?? [],
+      limits: { ...overrides.limits },
+    });
+  }
+}
+
+function rowToOverrides(row: RiskOverridesRow): { userId: string; overrides: RiskOverrides } {
+  return {
+    userId: row.userId,
+    overrides: {
+      disabledRules: row.disabledRules ?? [],
+      limits: (row.limits ?? {}) as Partial<PreTradeLimits>,
+    },
+  };
+}
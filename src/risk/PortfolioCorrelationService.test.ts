@@ -0,0 +1,181 @@
+/**
+ * PortfolioCorrelationService Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PortfolioCorrelationService, ExposurePosition, baseAsset } from './PortfolioCorrelationService';
+import { RiskManager, RiskLimits } from './RiskManager';
+import type { CandleQuery } from '../backtesting/CandleStoreService';
+import type { OHLCV } from '../backtesting/BacktestService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const ORIGIN = Date.UTC(2024, 0, 1);
+const NOW = ORIGIN + 60 * DAY;
+
+const market = (i: number) => 0.02 * Math.sin(i);
+
+// Daily returns by symbol; ETH moves 1.5x BTC, SOL tracks BTC with noise, DOGE alternates
+const RETURNS: Record<string, (i: number) => number> = {
+  'BTC/USDT': market,
+  'BTC/USDT:USDT': market,
+  'ETH/USDT': i => 1.5 * market(i),
+  'SOL/USDT': i => 1.2 * market(i) + 0.004 * Math.cos(3 * i),
+  'DOGE/USDT': i => (i % 2 === 0 ? 0.01 : -0.01),
+};
+
+function createCandleStore() {
+  const getCandles = vi.fn(async (query: CandleQuery): Promise<OHLCV[]> => {
+    const returns = RETURNS[query.symbol];
+    if (!returns) throw new Error(`No candles for ${query.symbol}`);
+
+    const candles: OHLCV[] = [];
+    let close = 100;
+    for (let i = 0; ORIGIN + i * DAY <= Number(query.end); i++) {
+      if (i > 0) close *= 1 + returns(i);
+      const timestamp = ORIGIN + i * DAY;
+      if (timestamp >= Number(query.start)) {
+        candles.push({ timestamp, open: close, high: close, low: close, close, volume: 1 });
+      }
+    }
+    return candles;
+  });
+  return { getCandles };
+}
+
+const position = (symbol: string, notional: number, direction: 'long' | 'short' = 'long'): ExposurePosition => ({
+  symbol,
+  direction,
+  size: notional / 100,
+  currentPrice: 100,
+});
+
+describe('PortfolioCorrelationService', () => {
+  let candleStore: ReturnType<typeof createCandleStore>;
+  let service: PortfolioCorrelationService;
+  let limits: RiskLimits;
+  let now: number;
+
+  beforeEach(() => {
+    candleStore = createCandleStore();
+    now = NOW;
+    service = new PortfolioCorrelationService({ candleStore, now: () => now });
+    limits = new RiskManager(10000).getLimits();
+  });
+
+  it('should_correlate_rolling_returns_over_the_lookback', async () => {
+    const matrix = await service.getCorrelationMatrix(['BTC/USDT', 'ETH/USDT', 'SOL/USDT', 'DOGE/USDT']);
+
+    expect(matrix['BTC/USDT']['BTC/USDT']).toBe(1);
+    expect(matrix['BTC/USDT']['ETH/USDT']).toBeCloseTo(1, 6);
+    expect(matrix['BTC/USDT']['SOL/USDT']).toBeGreaterThan(0.9);
+    expect(Math.abs(matrix['BTC/USDT']['DOGE/USDT'])).toBeLessThan(0.3);
+    expect(candleStore.getCandles).toHaveBeenCalledWith({
+      exchange: 'binance',
+      symbol: 'BTC/USDT',
+      timeframe: '1d',
+      start: NOW - 31 * DAY,
+      end: NOW,
+    });
+  });
+
+  it('should_cluster_correlated_positions_and_break_down_exposure', async () => {
+    const report = await service.analyze(
+      [position('BTC/USDT', 2000), position('ETH/USDT', 2000), position('DOGE/USDT', 1000)],
+      10000,
+      limits
+    );
+
+    expect(report.clusters).toHaveLength(1);
+    expect(report.clusters[0]).toMatchObject({
+      symbols: ['BTC/USDT', 'ETH/USDT'],
+      positions: 2,
+      exposure: 4000,
+      exposurePercent: 0.4,
+    });
+    expect(report.bySector.map(b => [b.key, b.exposurePercent])).toEqual([
+      ['store_of_value', 0.2],
+      ['smart_contract', 0.2],
+      ['meme', 0.1],
+    ]);
+    expect(report.betas['BTC/USDT']).toBe(1);
+    expect(report.betas['ETH/USDT']).toBeCloseTo(1.5, 6);
+    expect(report.netBeta).toBeCloseTo(0.5 + report.betas['DOGE/USDT'] * 0.1, 6);
+    expect(report.breaches).toEqual([]);
+  });
+
+  it('should_report_breaches_of_cluster_concentration_and_beta_limits', async () => {
+    const report = await service.analyze(
+      [
+        position('BTC/USDT', 2000),
+        position('BTC/USDT:USDT', 2000),
+        position('ETH/USDT', 3000),
+        position('SOL/USDT', 2000),
+      ],
+      10000,
+      limits
+    );
+
+    expect(baseAsset('BTC/USDT:USDT')).toBe('BTC');
+    expect(report.breaches.map(b => b.limit)).toEqual([
+      'maxCorrelatedPositions',
+      'maxClusterExposure',
+      'maxAssetConcentration',
+      'maxNetBeta',
+    ]);
+    expect(report.breaches[0].message).toBe(
+      'Correlated positions in BTC/USDT, BTC/USDT:USDT, ETH/USDT, SOL/USDT (4) exceed maximum 3'
+    );
+    expect(report.breaches[2].message).toBe('Asset BTC concentration 40.0% exceeds maximum 30.0%');
+  });
+
+  it('should_reject_only_trades_that_take_part_in_a_breach', async () => {
+    const existing = [position('BTC/USDT', 2000), position('ETH/USDT', 2000), position('SOL/USDT', 500)];
+
+    const correlated = await service.checkTradeRisk(
+      existing,
+      { symbol: 'ETH/USDT', direction: 'long', size: 5, price: 100 },
+      10000,
+      limits
+    );
+    expect(correlated.allowed).toBe(false);
+    expect(correlated.reason).toBe('Correlated positions in BTC/USDT, ETH/USDT, SOL/USDT (4) exceed maximum 3');
+
+    // A short in the cluster still counts as a position but lowers net beta
+    const hedge = await service.checkTradeRisk(
+      existing,
+      { symbol: 'DOGE/USDT', direction: 'short', size: 5, price: 100 },
+      10000,
+      { ...limits, maxClusterExposure: 0.4 }
+    );
+    expect(hedge.allowed).toBe(true);
+    expect(hedge.warnings).toEqual([
+      'Correlated exposure in BTC/USDT, ETH/USDT, SOL/USDT 45.0% exceeds maximum 40.0%',
+    ]);
+  });
+
+  it('should_treat_symbols_without_candles_as_uncorrelated_with_a_beta_of_one', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const report = await service.analyze(
+      [position('BTC/USDT', 1000), position('XYZ/USDT', 1000)],
+      10000,
+      limits
+    );
+
+    expect(report.correlations['BTC/USDT']['XYZ/USDT']).toBe(0);
+    expect(report.betas['XYZ/USDT']).toBe(1);
+    expect(report.bySector.map(b => b.key)).toEqual(['store_of_value', 'XYZ']);
+    expect(errors).toHaveBeenCalled();
+    errors.mockRestore();
+  });
+
+  it('should_reload_candles_once_a_new_candle_has_closed', async () => {
+    await service.getCorrelationMatrix(['BTC/USDT', 'ETH/USDT']);
+    await service.getCorrelationMatrix(['BTC/USDT', 'ETH/USDT']);
+    expect(candleStore.getCandles).toHaveBeenCalledTimes(2);
+
+    now += DAY;
+    await service.getCorrelationMatrix(['BTC/USDT']);
+    expect(candleStore.getCandles).toHaveBeenCalledTimes(3);
+  });
+});
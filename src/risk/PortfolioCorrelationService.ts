@@ -0,0 +1,523 @@
+/**
+ * PortfolioCorrelationService - Correlation and concentration limits
+ * Keeps rolling return series per symbol from stored candles, clusters
+ * correlated open positions and checks clustered exposure, per-asset and
+ * per-sector concentration and net beta to BTC against the risk limits.
+ */
+
+import type { OHLCV } from '../backtesting/BacktestService';
+import type { CandleQuery } from '../backtesting/CandleStoreService';
+import { timeframeToMs } from '../backtesting/CandleStoreService';
+import { calculateBeta, calculateCorrelation } from './calculations';
+import type { Position, RiskCheckResult, RiskLimits } from './RiskManager';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CorrelationServiceOptions {
+  candleStore: { getCandles(query: CandleQuery): Promise<OHLCV[]> };
+  exchange?: string; // Exchange whose candles are used (default binance)
+  timeframe?: string; // Return interval (default 1d)
+  lookback?: number; // Returns in the rolling window (default 30)
+  clusterThreshold?: number; // Correlation at which two assets cluster (default 0.7)
+  benchmark?: string; // Symbol betas are measured against (default BTC/USDT)
+  sectors?: Record<string, string>; // Base asset -> sector, merged over the defaults
+  now?: () => number;
+}
+
+export type ExposurePosition = Pick<Position, 'symbol' | 'direction' | 'size' | 'currentPrice'>;
+
+export interface CorrelationCluster {
+  symbols: string[];
+  positions: number;
+  exposure: number; // Gross notional
+  exposurePercent: number; // Of equity
+  averageCorrelation: number;
+}
+
+export interface ConcentrationBucket {
+  key: string; // Base asset or sector
+  symbols: string[];
+  exposure: number;
+  exposurePercent: number;
+}
+
+export type CorrelationLimit =
+  | 'maxCorrelatedPositions'
+  | 'maxClusterExposure'
+  | 'maxAssetConcentration'
+  | 'maxSectorConcentration'
+  | 'maxNetBeta';
+
+export interface CorrelationBreach {
+  limit: CorrelationLimit;
+  key: string;
+  symbols: string[];
+  actual: number;
+  max: number;
+  message: string;
+}
+
+export interface CorrelationRiskReport {
+  asOf: Date;
+  timeframe: string;
+  lookback: number;
+  clusterThreshold: number;
+  benchmark: string;
+  correlations: Record<string, Record<string, number>>;
+  clusters: CorrelationCluster[];
+  byBaseAsset: ConcentrationBucket[];
+  bySector: ConcentrationBucket[];
+  betas: Record<string, number>;
+  netBeta: number; // Beta-weighted signed notional as a fraction of equity
+  breaches: CorrelationBreach[];
+}
+
+export interface ReturnMatrix {
+  timeframe: string;
+  timestamps: number[]; // Candles every available symbol has a return for
+  returns: Record<string, number[]>;
+  missing: string[]; // Symbols without candle history
+}
+
+export interface CandidatePosition {
+  symbol: string;
+  direction: 'long' | 'short';
+  size: number;
+  price: number;
+}
+
+interface ReturnSeries {
+  timestamps: number[];
+  returns: number[];
+  loadedAt: number;
+}
+
+// ============================================================================
+// Sectors
+// ============================================================================
+
+export const DEFAULT_ASSET_SECTORS: Record<string, string> = {
+  BTC: 'store_of_value',
+  ETH: 'smart_contract',
+  SOL: 'smart_contract',
+  AVAX: 'smart_contract',
+  ADA: 'smart_contract',
+  DOT: 'smart_contract',
+  NEAR: 'smart_contract',
+  ATOM: 'smart_contract',
+  SUI: 'smart_contract',
+  APT: 'smart_contract',
+  TRX: 'smart_contract',
+  ARB: 'layer2',
+  OP: 'layer2',
+  MATIC: 'layer2',
+  POL: 'layer2',
+  UNI: 'defi',
+  AAVE: 'defi',
+  MKR: 'defi',
+  CRV: 'defi',
+  LINK: 'defi',
+  DOGE: 'meme',
+  SHIB: 'meme',
+  PEPE: 'meme',
+  WIF: 'meme',
+  BONK: 'meme',
+  BNB: 'exchange',
+  OKB: 'exchange',
+  CRO: 'exchange',
+  XRP: 'payments',
+  XLM: 'payments',
+  LTC: 'payments',
+  BCH: 'payments',
+};
+
+/** "BTC/USDT", "BTC/USDT:USDT" and "BTC-USD" all trade the base asset BTC. */
+export function baseAsset(symbol: string): string {
+  return symbol.split(/[/-]/)[0].toUpperCase();
+}
+
+// ============================================================================
+// PortfolioCorrelationService Implementation
+// ============================================================================
+
+export class PortfolioCorrelationService {
+  private candleStore: CorrelationServiceOptions['candleStore'];
+  private exchange: string;
+  private timeframe: string;
+  private lookback: number;
+  private clusterThreshold: number;
+  private benchmark: string;
+  private sectors: Record<string, string>;
+  private now: () => number;
+  private series: Map<string, ReturnSeries> = new Map();
+
+  constructor(options: CorrelationServiceOptions) {
+    this.candleStore = options.candleStore;
+    this.exchange = options.exchange ?? 'binance';
+    this.timeframe = options.timeframe ?? '1d';
+    this.lookback = options.lookback ?? 30;
+    this.clusterThreshold = options.clusterThreshold ?? 0.7;
+    this.benchmark = options.benchmark ?? 'BTC/USDT';
+    this.sectors = { ...DEFAULT_ASSET_SECTORS, ...options.sectors };
+    this.now = options.now ?? Date.now;
+
+    timeframeToMs(this.timeframe); // Reject unsupported timeframes up front
+  }
+
+  getBenchmark(): string {
+    return this.benchmark;
+  }
+
+  /**
+   * Sector of a symbol's base asset; unmapped assets form their own sector
+   */
+  getSector(symbol: string): string {
+    const asset = baseAsset(symbol);
+    return this.sectors[asset] ?? asset;
+  }
+
+  /**
+   * Pairwise correlation of rolling returns, over the candles both symbols share
+   */
+  async getCorrelationMatrix(symbols: string[]): Promise<Record<string, Record<string, number>>> {
+    const unique = Array.from(new Set(symbols));
+    const series = await this.loadAll(unique);
+    const matrix: Record<string, Record<string, number>> = {};
+
+    for (const a of unique) {
+      matrix[a] = {};
+      for (const b of unique) {
+        matrix[a][b] = a === b ? 1 : correlate(series.get(a)!, series.get(b)!);
+      }
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Beta of each symbol's returns to the benchmark
+   */
+  async getBetas(symbols: string[]): Promise<Record<string, number>> {
+    const benchmark = await this.loadReturns(this.benchmark);
+    const betas: Record<string, number> = {};
+
+    for (const symbol of symbols) {
+      betas[symbol] = baseAsset(symbol) === baseAsset(this.benchmark)
+        ? 1
+        : calculateBeta(...aligned(await this.loadReturns(symbol), benchmark));
+    }
+
+    return betas;
+  }
+
+  /**
+   * Returns of every symbol on the candles they all share. Symbols without
+   * any history are listed as missing and left out of the alignment.
+   */
+  async getReturnMatrix(symbols: string[]): Promise<ReturnMatrix> {
+    const unique = Array.from(new Set(symbols));
+    const series = await this.loadAll(unique);
+    const available = unique.filter(s => series.get(s)!.returns.length > 0);
+
+    const timestamps = available.length === 0
+      ? []
+      : series.get(available[0])!.timestamps.filter(t =>
+          available.every(s => series.get(s)!.timestamps.includes(t))
+        );
+
+    const returns: Record<string, number[]> = {};
+    for (const symbol of available) {
+      const byTime = new Map(series.get(symbol)!.timestamps.map((t, i) => [t, series.get(symbol)!.returns[i]]));
+      returns[symbol] = timestamps.map(t => byTime.get(t)!);
+    }
+
+    return {
+      timeframe: this.timeframe,
+      timestamps,
+      returns,
+      missing: unique.filter(s => !available.includes(s)),
+    };
+  }
+
+  /**
+   * Correlation clusters, concentration and net beta of a set of positions
+   */
+  async analyze(positions: ExposurePosition[], equity: number, limits: RiskLimits): Promise<CorrelationRiskReport> {
+    const symbols = Array.from(new Set(positions.map(p => p.symbol)));
+    const correlations = await this.getCorrelationMatrix(symbols);
+    const betas = await this.getBetas(symbols);
+
+    const exposureBySymbol = new Map<string, number>();
+    let betaNotional = 0;
+    for (const p of positions) {
+      const notional = Math.abs(p.size * p.currentPrice);
+      exposureBySymbol.set(p.symbol, (exposureBySymbol.get(p.symbol) ?? 0) + notional);
+      betaNotional += (p.direction === 'short' ? -1 : 1) * notional * betas[p.symbol];
+    }
+
+    const percent = (exposure: number) => (equity > 0 ? exposure / equity : 0);
+
+    const clusters = this.cluster(symbols, correlations)
+      .map(members => ({
+        symbols: members,
+        positions: positions.filter(p => members.includes(p.symbol)).length,
+        exposure: sum(members.map(s => exposureBySymbol.get(s) ?? 0)),
+        averageCorrelation: averagePairwise(members, correlations),
+      }))
+      .filter(c => c.positions > 1)
+      .map(c => ({ ...c, exposurePercent: percent(c.exposure) }))
+      .sort((a, b) => b.exposure - a.exposure);
+
+    const bucket = (keyOf: (symbol: string) => string): ConcentrationBucket[] => {
+      const buckets = new Map<string, ConcentrationBucket>();
+      for (const symbol of symbols) {
+        const key = keyOf(symbol);
+        const entry = buckets.get(key) ?? { key, symbols: [], exposure: 0, exposurePercent: 0 };
+        entry.symbols.push(symbol);
+        entry.exposure += exposureBySymbol.get(symbol) ?? 0;
+        entry.exposurePercent = percent(entry.exposure);
+        buckets.set(key, entry);
+      }
+      return Array.from(buckets.values()).sort((a, b) => b.exposure - a.exposure);
+    };
+
+    const report: CorrelationRiskReport = {
+      asOf: new Date(this.now()),
+      timeframe: this.timeframe,
+      lookback: this.lookback,
+      clusterThreshold: this.clusterThreshold,
+      benchmark: this.benchmark,
+      correlations,
+      clusters,
+      byBaseAsset: bucket(baseAsset),
+      bySector: bucket(symbol => this.getSector(symbol)),
+      betas,
+      netBeta: percent(betaNotional),
+      breaches: [],
+    };
+    report.breaches = findBreaches(report, limits);
+
+    return report;
+  }
+
+  /**
+   * Check whether opening a position keeps the portfolio inside its
+   * correlation and concentration limits. Only breaches the new position
+   * takes part in reject it; breaches it does not touch are warnings.
+   */
+  async checkTradeRisk(
+    positions: ExposurePosition[],
+    candidate: CandidatePosition,
+    equity: number,
+    limits: RiskLimits
+  ): Promise<RiskCheckResult & { report: CorrelationRiskReport }> {
+    const before = await this.analyze(positions, equity, limits);
+    const report = await this.analyze(
+      [
+        ...positions,
+        { symbol: candidate.symbol, direction: candidate.direction, size: candidate.size, currentPrice: candidate.price },
+      ],
+      equity,
+      limits
+    );
+
+    const caused = report.breaches.filter(breach =>
+      breach.limit === 'maxNetBeta'
+        ? Math.abs(report.netBeta) > Math.abs(before.netBeta)
+        : breach.symbols.includes(candidate.symbol)
+    );
+    const warnings = report.breaches.filter(b => !caused.includes(b)).map(b => b.message);
+
+    if (caused.length > 0) {
+      return { allowed: false, reason: caused[0].message, warnings, report };
+    }
+    return { allowed: true, warnings, report };
+  }
+
+  /**
+   * Drop cached return series so the next analysis reloads candles
+   */
+  clearCache(): void {
+    this.series.clear();
+  }
+
+  // ==========================================================================
+  // Return Series
+  // ==========================================================================
+
+  private async loadAll(symbols: string[]): Promise<Map<string, ReturnSeries>> {
+    const loaded = new Map<string, ReturnSeries>();
+    for (const symbol of symbols) {
+      loaded.set(symbol, await this.loadReturns(symbol));
+    }
+    return loaded;
+  }
+
+  /**
+   * Returns over the rolling window, reloaded once a new candle has closed
+   */
+  private async loadReturns(symbol: string): Promise<ReturnSeries> {
+    const step = timeframeToMs(this.timeframe);
+    const now = this.now();
+    const cached = this.series.get(symbol);
+    if (cached && now - cached.loadedAt < step) {
+      return cached;
+    }
+
+    let candles: OHLCV[] = [];
+    try {
+      candles = await this.candleStore.getCandles({
+        exchange: this.exchange,
+        symbol,
+        timeframe: this.timeframe,
+        start: now - (this.lookback + 1) * step,
+        end: now,
+      });
+    } catch (error) {
+      // Without history the symbol correlates with nothing and has a beta of 1
+      console.error(`Candles unavailable for correlation of ${symbol}:`, error);
+    }
+
+    const series: ReturnSeries = { timestamps: [], returns: [], loadedAt: now };
+    for (let i = 1; i < candles.length; i++) {
+      const prev = candles[i - 1].close;
+      if (prev <= 0) continue;
+      series.timestamps.push(candles[i].timestamp);
+      series.returns.push((candles[i].close - prev) / prev);
+    }
+    series.timestamps = series.timestamps.slice(-this.lookback);
+    series.returns = series.returns.slice(-this.lookback);
+
+    this.series.set(symbol, series);
+    return series;
+  }
+
+  /**
+   * Single-linkage clusters: symbols join when their correlation reaches
+   * the threshold with any member
+   */
+  private cluster(symbols: string[], correlations: Record<string, Record<string, number>>): string[][] {
+    const parent = new Map(symbols.map(s => [s, s]));
+    const find = (s: string): string => {
+      while (parent.get(s) !== s) s = parent.get(s)!;
+      return s;
+    };
+
+    for (let i = 0; i < symbols.length; i++) {
+      for (let j = i + 1; j < symbols.length; j++) {
+        if (correlations[symbols[i]][symbols[j]] >= this.clusterThreshold) {
+          parent.set(find(symbols[j]), find(symbols[i]));
+        }
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const symbol of symbols) {
+      const root = find(symbol);
+      groups.set(root, [...(groups.get(root) ?? []), symbol]);
+    }
+    return Array.from(groups.values());
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Returns of two series on the candles they have in common. */
+function aligned(a: ReturnSeries, b: ReturnSeries): [number[], number[]] {
+  const other = new Map(b.timestamps.map((t, i) => [t, b.returns[i]]));
+  const left: number[] = [];
+  const right: number[] = [];
+  a.timestamps.forEach((t, i) => {
+    if (other.has(t)) {
+      left.push(a.returns[i]);
+      right.push(other.get(t)!);
+    }
+  });
+  return [left, right];
+}
+
+function correlate(a: ReturnSeries, b: ReturnSeries): number {
+  return calculateCorrelation(...aligned(a, b));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function averagePairwise(symbols: string[], correlations: Record<string, Record<string, number>>): number {
+  const pairs: number[] = [];
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      pairs.push(correlations[symbols[i]][symbols[j]]);
+    }
+  }
+  // A cluster of one symbol is several positions in the same market
+  return pairs.length > 0 ? sum(pairs) / pairs.length : 1;
+}
+
+function findBreaches(report: CorrelationRiskReport, limits: RiskLimits): CorrelationBreach[] {
+  const breaches: CorrelationBreach[] = [];
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  for (const cluster of report.clusters) {
+    const key = cluster.symbols.join(', ');
+    if (cluster.positions > limits.maxCorrelatedPositions) {
+      breaches.push({
+        limit: 'maxCorrelatedPositions',
+        key,
+        symbols: cluster.symbols,
+        actual: cluster.positions,
+        max: limits.maxCorrelatedPositions,
+        message: `Correlated positions in ${key} (${cluster.positions}) exceed maximum ${limits.maxCorrelatedPositions}`,
+      });
+    }
+    if (cluster.exposurePercent > limits.maxClusterExposure) {
+      breaches.push({
+        limit: 'maxClusterExposure',
+        key,
+        symbols: cluster.symbols,
+        actual: cluster.exposurePercent,
+        max: limits.maxClusterExposure,
+        message: `Correlated exposure in ${key} ${pct(cluster.exposurePercent)} exceeds maximum ${pct(limits.maxClusterExposure)}`,
+      });
+    }
+  }
+
+  const concentration = (
+    buckets: ConcentrationBucket[],
+    limit: 'maxAssetConcentration' | 'maxSectorConcentration',
+    label: string
+  ) => {
+    for (const bucket of buckets) {
+      if (bucket.exposurePercent > limits[limit]) {
+        breaches.push({
+          limit,
+          key: bucket.key,
+          symbols: bucket.symbols,
+          actual: bucket.exposurePercent,
+          max: limits[limit],
+          message: `${label} ${bucket.key} concentration ${pct(bucket.exposurePercent)} exceeds maximum ${pct(limits[limit])}`,
+        });
+      }
+    }
+  };
+  concentration(report.byBaseAsset, 'maxAssetConcentration', 'Asset');
+  concentration(report.bySector, 'maxSectorConcentration', 'Sector');
+
+  if (Math.abs(report.netBeta) > limits.maxNetBeta) {
+    breaches.push({
+      limit: 'maxNetBeta',
+      key: report.benchmark,
+      symbols: Object.keys(report.betas),
+      actual: report.netBeta,
+      max: limits.maxNetBeta,
+      message: `Net beta to ${report.benchmark} ${report.netBeta.toFixed(2)} exceeds maximum ${limits.maxNetBeta}`,
+    });
+  }
+
+  return breaches;
+}
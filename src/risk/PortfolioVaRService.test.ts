@@ -0,0 +1,220 @@
+/**
+ * PortfolioVaRService Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PortfolioVaRService,
+  PortfolioSnapshot,
+  VaRPosition,
+  getStressScenario,
+  snapshotOf,
+} from './PortfolioVaRService';
+import { PortfolioCorrelationService } from './PortfolioCorrelationService';
+import { RiskManager } from './RiskManager';
+import { calculateCVaR, calculateVaR, normalQuantile } from './calculations';
+import type { CandleQuery } from '../backtesting/CandleStoreService';
+import type { OHLCV } from '../backtesting/BacktestService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const ORIGIN = Date.UTC(2024, 0, 1);
+const NOW = ORIGIN + 60 * DAY;
+
+const market = (i: number) => 0.02 * Math.sin(i) + 0.001;
+
+const RETURNS: Record<string, (i: number) => number> = {
+  'BTC/USDT': market,
+  'ETH/USDT': i => 1.5 * market(i),
+  'SOL/USDT': i => 0.8 * market(i) + 0.01 * Math.cos(2.7 * i),
+};
+
+// Daily closes on 11 and 12 March 2020
+const REPLAY: Record<string, number[]> = {
+  'BTC/USDT': [7900, 4800],
+};
+
+function createCandleStore() {
+  const getCandles = vi.fn(async (query: CandleQuery): Promise<OHLCV[]> => {
+    if (Number(query.end) < ORIGIN) {
+      return (REPLAY[query.symbol] ?? []).map((close, i) => ({
+        timestamp: Number(query.start) + i * DAY, open: close, high: close, low: close, close, volume: 1,
+      }));
+    }
+
+    const returns = RETURNS[query.symbol];
+    if (!returns) throw new Error(`No candles for ${query.symbol}`);
+
+    const candles: OHLCV[] = [];
+    let close = 100;
+    for (let i = 0; ORIGIN + i * DAY <= Number(query.end); i++) {
+      if (i > 0) close *= 1 + returns(i);
+      const timestamp = ORIGIN + i * DAY;
+      if (timestamp >= Number(query.start)) {
+        candles.push({ timestamp, open: close, high: close, low: close, close, volume: 1 });
+      }
+    }
+    return candles;
+  });
+  return { getCandles };
+}
+
+/** Deterministic uniform source (mulberry32). */
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const position = (symbol: string, notional: number, direction: 'long' | 'short' = 'long'): VaRPosition => ({
+  id: `pos-${symbol}-${direction}`,
+  symbol,
+  direction,
+  size: notional / 100,
+  currentPrice: 100,
+});
+
+describe('PortfolioVaRService', () => {
+  let candleStore: ReturnType<typeof createCandleStore>;
+  let correlationService: PortfolioCorrelationService;
+  let service: PortfolioVaRService;
+
+  const portfolio = (positions: VaRPosition[], equity = 10000): PortfolioSnapshot => ({
+    positions,
+    equity,
+    peakEquity: equity,
+    limits: new RiskManager(equity).getLimits(),
+  });
+
+  const btcReturns = async () => (await correlationService.getReturnMatrix(['BTC/USDT'])).returns['BTC/USDT'];
+
+  beforeEach(() => {
+    candleStore = createCandleStore();
+    correlationService = new PortfolioCorrelationService({ candleStore, now: () => NOW });
+    service = new PortfolioVaRService({ correlationService, candleStore, simulations: 20000, random: seeded(42) });
+  });
+
+  describe('calculateVaR', () => {
+    it('should_match_single_series_var_for_historical_simulation', async () => {
+      const returns = await btcReturns();
+
+      const result = await service.calculateVaR(portfolio([position('BTC/USDT', 5000)]), 'historical', 0.95);
+
+      expect(result).toMatchObject({ method: 'historical', timeframe: '1d', observations: 30, missingHistory: [] });
+      expect(result.var).toBeCloseTo(calculateVaR(returns, 0.95) * 5000, 6);
+      expect(result.cvar).toBeCloseTo(calculateCVaR(returns, 0.95) * 5000, 6);
+      expect(result.varPercent).toBeCloseTo(result.var / 10000, 9);
+      expect(result.positions[0]).toMatchObject({ positionId: 'pos-BTC/USDT-long', notional: 5000 });
+      expect(result.positions[0].pnl).toBeCloseTo(-result.cvar, 6);
+    });
+
+    it('should_net_hedged_positions_under_the_variance_covariance_method', async () => {
+      const returns = await btcReturns();
+      const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+      const sd = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+
+      const single = await service.calculateVaR(portfolio([position('BTC/USDT', 5000)]), 'parametric', 0.99);
+      expect(single.var).toBeCloseTo(5000 * (normalQuantile(0.99) * sd - mean), 6);
+
+      // ETH moves 1.5x BTC, so 3000 long BTC against 2000 short ETH carries no risk
+      const hedged = await service.calculateVaR(
+        portfolio([position('BTC/USDT', 3000), position('ETH/USDT', 2000, 'short')]),
+        'parametric'
+      );
+      expect(hedged.var).toBeCloseTo(0, 4);
+    });
+
+    it('should_split_the_tail_loss_across_positions', async () => {
+      const result = await service.calculateVaR(
+        portfolio([position('BTC/USDT', 3000), position('ETH/USDT', 2000), position('SOL/USDT', 1000, 'short')]),
+        'parametric'
+      );
+
+      const total = result.positions.reduce((sum, p) => sum + p.pnl, 0);
+      expect(total).toBeCloseTo(-result.cvar, 6);
+      expect(result.positions[1].pnl).toBeLessThan(result.positions[0].pnl);
+    });
+
+    it('should_converge_to_the_parametric_estimate_with_monte_carlo', async () => {
+      const positions = [position('BTC/USDT', 3000), position('SOL/USDT', 2000)];
+
+      const parametric = await service.calculateVaR(portfolio(positions), 'parametric');
+      const simulated = await service.calculateVaR(portfolio(positions), 'monte_carlo');
+
+      expect(simulated.observations).toBe(20000);
+      expect(simulated.var).toBeGreaterThan(parametric.var * 0.95);
+      expect(simulated.var).toBeLessThan(parametric.var * 1.05);
+    });
+
+    it('should_flag_limits_the_var_would_breach', async () => {
+      const result = await service.calculateVaR(portfolio([position('ETH/USDT', 30000)]), 'historical', 0.99);
+
+      expect(result.breaches.map(b => b.limit)).toEqual(['maxDailyLoss']);
+      expect(result.breaches[0].message).toMatch(/^1d 99% VaR loss \d+\.\d% exceeds daily loss limit 5\.0%$/);
+    });
+
+    it('should_reject_unknown_methods_and_report_missing_history', async () => {
+      await expect(service.calculateVaR(portfolio([]), 'delta_gamma' as any)).rejects.toThrow(
+        'Unknown VaR method: delta_gamma'
+      );
+
+      const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const result = await service.calculateVaR(portfolio([position('BTC/USDT', 1000), position('XYZ/USDT', 1000)]));
+      errors.mockRestore();
+
+      expect(result.missingHistory).toEqual(['XYZ/USDT']);
+      expect(result.positions[1].pnl).toBe(0);
+    });
+  });
+
+  describe('runScenario', () => {
+    it('should_move_assets_by_their_beta_when_btc_crashes', async () => {
+      const result = await service.runScenario(
+        portfolio([position('BTC/USDT', 2000), position('ETH/USDT', 1000, 'short')]),
+        getStressScenario('btc_crash_30')!
+      );
+
+      expect(result.shocks['BTC/USDT']).toBe(-0.3);
+      expect(result.shocks['ETH/USDT']).toBeCloseTo(-0.45, 6);
+      expect(result.positions.map(p => p.pnl)).toEqual([-600, expect.closeTo(450, 6)]);
+      expect(result.pnl).toBeCloseTo(-150, 6);
+      expect(result.equityAfter).toBeCloseTo(9850, 6);
+      expect(result.breaches).toEqual([]);
+    });
+
+    it('should_replay_march_2020_and_fall_back_to_beta_without_candles', async () => {
+      const result = await service.runScenario(
+        portfolio([position('BTC/USDT', 5000), position('ETH/USDT', 2000)]),
+        getStressScenario('march_2020')!
+      );
+
+      const btcMove = 4800 / 7900 - 1;
+      expect(result.shocks['BTC/USDT']).toBeCloseTo(btcMove, 9);
+      expect(result.shocks['ETH/USDT']).toBeCloseTo(1.5 * btcMove, 6);
+      expect(result.breaches.map(b => b.limit)).toEqual(['maxDailyLoss', 'maxDrawdown']);
+    });
+
+    it('should_apply_user_shocks_and_flag_liquidations', async () => {
+      const manager = new RiskManager(10000, { maxLeverage: 5 });
+      manager.openPosition('SOL/USDT', 'long', 10, 100, 90, 130, 5);
+      manager.openPosition('BTC/USDT', 'short', 0.1, 100, 110, 80);
+
+      const result = await service.runScenario(snapshotOf(manager), {
+        id: 'custom',
+        name: 'SOL outage',
+        shocks: { SOL: -0.25, 'BTC/USDT': -0.05 },
+      });
+
+      expect(result.positions).toMatchObject([
+        { symbol: 'SOL/USDT', shock: -0.25, pnl: -250, liquidated: true },
+        { symbol: 'BTC/USDT', shock: -0.05, liquidated: false },
+      ]);
+      expect(result.positions[1].pnl).toBeCloseTo(0.5, 9);
+      expect(result.breaches.map(b => b.message)).toEqual([
+        'SOL/USDT long position would be liquidated after a -25.0% move',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * PortfolioVaRService - Portfolio Value at Risk and stress testing
+ * Projects the P&L of every open position under historical simulation,
+ * parametric (variance-covariance) and Monte Carlo VaR, and under named
+ * stress scenarios, and flags the risk limits each outcome would breach.
+ */
+
+import type { OHLCV } from '../backtesting/BacktestService';
+import type { CandleQuery } from '../backtesting/CandleStoreService';
+import { normalPdf, normalQuantile } from './calculations';
+import { baseAsset } from './PortfolioCorrelationService';
+import type { PortfolioCorrelationService } from './PortfolioCorrelationService';
+import type { Position, RiskLimits, RiskManager } from './RiskManager';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VaRMethod = 'historical' | 'parametric' | 'monte_carlo';
+
+export const VAR_METHODS: VaRMethod[] = ['historical', 'parametric', 'monte_carlo'];
+
+export interface PortfolioVaRServiceOptions {
+  correlationService: PortfolioCorrelationService;
+  candleStore: { getCandles(query: CandleQuery): Promise<OHLCV[]> }; // For scenario replays
+  exchange?: string; // Exchange replayed candles come from (default binance)
+  simulations?: number; // Monte Carlo paths (default 10000)
+  random?: () => number; // Uniform [0, 1) source, seeded in tests
+}
+
+export type VaRPosition = Pick<Position, 'symbol' | 'direction' | 'size' | 'currentPrice'> &
+  Partial<Pick<Position, 'id' | 'liquidationPrice'>>;
+
+export interface PortfolioSnapshot {
+  positions: VaRPosition[];
+  equity: number;
+  peakEquity: number;
+  limits: RiskLimits;
+}
+
+export interface PositionRisk {
+  positionId?: string;
+  symbol: string;
+  direction: 'long' | 'short';
+  notional: number;
+  pnl: number;
+  pnlPercent: number; // Of the position's notional
+  shock?: number; // Price move applied under a stress scenario
+  liquidated?: boolean;
+}
+
+export interface LimitBreach {
+  limit: keyof RiskLimits;
+  actual: number;
+  max: number;
+  message: string;
+}
+
+export interface VaRResult {
+  method: VaRMethod;
+  confidence: number;
+  timeframe: string; // Horizon of one return, e.g. 1d
+  observations: number; // Historical returns, or simulated paths
+  var: number; // Loss not exceeded at the confidence level
+  cvar: number; // Average loss beyond VaR
+  varPercent: number; // Of equity
+  cvarPercent: number;
+  /** Average P&L of each position in the outcomes beyond VaR; sums to -cvar */
+  positions: PositionRisk[];
+  breaches: LimitBreach[];
+  missingHistory: string[]; // Symbols without candles, left out of the estimate
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  description?: string;
+  /** Price moves by symbol or base asset, e.g. { BTC: -0.3 } */
+  shocks?: Record<string, number>;
+  /** Move of the benchmark; assets without a shock move by their beta to it */
+  benchmarkShock?: number;
+  /** Replay each asset's close-to-close move over a historical window */
+  replay?: { start: number; end: number; timeframe?: string };
+  /** Move for anything no other rule covers */
+  defaultShock?: number;
+}
+
+export interface StressResult {
+  scenario: Pick<StressScenario, 'id' | 'name' | 'description'>;
+  shocks: Record<string, number>;
+  pnl: number;
+  pnlPercent: number; // Of equity
+  equityAfter: number;
+  drawdownAfter: number; // From peak equity, as a fraction
+  positions: PositionRisk[];
+  breaches: LimitBreach[];
+}
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: 'btc_crash_30',
+    name: 'BTC -30% in 24h',
+    description: 'BTC falls 30% in a day; other assets follow by their beta to BTC',
+    benchmarkShock: -0.3,
+  },
+  {
+    id: 'march_2020',
+    name: 'March 2020 crash',
+    description: 'Replays 12 March 2020, when BTC lost almost 40% in a day',
+    replay: { start: Date.UTC(2020, 2, 11), end: Date.UTC(2020, 2, 12), timeframe: '1d' },
+  },
+  {
+    id: 'altcoin_unwind',
+    name: 'Altcoin unwind',
+    description: 'BTC -15% while every other asset falls 40%',
+    shocks: { BTC: -0.15 },
+    defaultShock: -0.4,
+  },
+];
+
+export function getStressScenario(id: string): StressScenario | undefined {
+  return STRESS_SCENARIOS.find(s => s.id === id);
+}
+
+/**
+ * Open positions, equity and limits of a RiskManager
+ */
+export function snapshotOf(manager: RiskManager): PortfolioSnapshot {
+  const metrics = manager.getMetrics();
+  return {
+    positions: manager.getPositions(),
+    equity: metrics.totalEquity,
+    peakEquity: Math.max(metrics.drawdown.peakValue, metrics.totalEquity),
+    limits: manager.getLimits(),
+  };
+}
+
+// ============================================================================
+// PortfolioVaRService Implementation
+// ============================================================================
+
+export class PortfolioVaRService {
+  private correlationService: PortfolioCorrelationService;
+  private candleStore: PortfolioVaRServiceOptions['candleStore'];
+  private exchange: string;
+  private simulations: number;
+  private random: () => number;
+
+  constructor(options: PortfolioVaRServiceOptions) {
+    this.correlationService = options.correlationService;
+    this.candleStore = options.candleStore;
+    this.exchange = options.exchange ?? 'binance';
+    this.simulations = options.simulations ?? 10000;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Value at Risk of the portfolio over one return period
+   */
+  async calculateVaR(
+    portfolio: PortfolioSnapshot,
+    method: VaRMethod = 'historical',
+    confidence: number = 0.95
+  ): Promise<VaRResult> {
+    if (!VAR_METHODS.includes(method)) {
+      throw new Error(`Unknown VaR method: ${method}`);
+    }
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new Error('VaR confidence must be between 0 and 1');
+    }
+
+    const symbols = Array.from(new Set(portfolio.positions.map(p => p.symbol)));
+    const matrix = await this.correlationService.getReturnMatrix(symbols);
+    const modelled = symbols.filter(s => matrix.returns[s]);
+    const exposures = portfolio.positions.map(signedNotional);
+
+    let observations = matrix.timestamps.length;
+    let tail: { var: number; cvar: number; contributions: number[] };
+
+    if (method === 'parametric') {
+      tail = this.parametric(portfolio.positions, exposures, modelled, matrix.returns, confidence);
+    } else {
+      // Returns by symbol, one row per historical or simulated outcome
+      const scenarios = method === 'historical'
+        ? matrix.timestamps.map((_, t) => modelled.map(s => matrix.returns[s][t]))
+        : this.simulate(modelled.map(s => matrix.returns[s]));
+      observations = scenarios.length;
+      tail = tailLoss(portfolio.positions, exposures, modelled, scenarios, confidence);
+    }
+
+    const result: VaRResult = {
+      method,
+      confidence,
+      timeframe: matrix.timeframe,
+      observations,
+      var: tail.var,
+      cvar: tail.cvar,
+      varPercent: percentOf(tail.var, portfolio.equity),
+      cvarPercent: percentOf(tail.cvar, portfolio.equity),
+      positions: portfolio.positions.map((p, i) => positionRisk(p, exposures[i], tail.contributions[i])),
+      breaches: [],
+      missingHistory: matrix.missing,
+    };
+
+    const label = `${matrix.timeframe} ${(confidence * 100).toFixed(0)}% VaR`;
+    result.breaches = lossBreaches(portfolio, tail.var, label);
+    return result;
+  }
+
+  /**
+   * Project every position through a stress scenario
+   */
+  async runScenario(portfolio: PortfolioSnapshot, scenario: StressScenario): Promise<StressResult> {
+    const symbols = Array.from(new Set(portfolio.positions.map(p => p.symbol)));
+    const shocks = await this.resolveShocks(symbols, scenario);
+
+    const positions = portfolio.positions.map(p => {
+      const exposure = signedNotional(p);
+      const shock = shocks[p.symbol];
+      const shocked = p.currentPrice * (1 + shock);
+      const liquidated = p.liquidationPrice !== undefined &&
+        (p.direction === 'long' ? shocked <= p.liquidationPrice : shocked >= p.liquidationPrice);
+
+      return { ...positionRisk(p, exposure, exposure * shock), shock, liquidated };
+    });
+
+    const pnl = positions.reduce((sum, p) => sum + p.pnl, 0);
+    const equityAfter = portfolio.equity + pnl;
+    const drawdownAfter = portfolio.peakEquity > 0
+      ? Math.max(0, (portfolio.peakEquity - equityAfter) / portfolio.peakEquity)
+      : 0;
+
+    const breaches = lossBreaches(portfolio, -pnl, `Scenario ${scenario.name}`);
+    for (const p of positions.filter(p => p.liquidated)) {
+      breaches.push({
+        limit: 'maintenanceMarginRate',
+        actual: p.shock,
+        max: portfolio.limits.maintenanceMarginRate,
+        message: `${p.symbol} ${p.direction} position would be liquidated after a ${(p.shock * 100).toFixed(1)}% move`,
+      });
+    }
+
+    return {
+      scenario: { id: scenario.id, name: scenario.name, description: scenario.description },
+      shocks,
+      pnl,
+      pnlPercent: percentOf(pnl, portfolio.equity),
+      equityAfter,
+      drawdownAfter,
+      positions,
+      breaches,
+    };
+  }
+
+  // ==========================================================================
+  // Methods
+  // ==========================================================================
+
+  /**
+   * Variance-covariance VaR assuming jointly normal returns
+   */
+  private parametric(
+    positions: VaRPosition[],
+    exposures: number[],
+    symbols: string[],
+    returns: Record<string, number[]>,
+    confidence: number
+  ): { var: number; cvar: number; contributions: number[] } {
+    const means = symbols.map(s => mean(returns[s]));
+    const covariance = covarianceMatrix(symbols.map(s => returns[s]));
+    const weights = symbolWeights(positions, exposures, symbols);
+
+    const sigmaW = covariance.map(row => row.reduce((sum, c, j) => sum + c * weights[j], 0));
+    const variance = weights.reduce((sum, w, i) => sum + w * sigmaW[i], 0);
+    const sigma = Math.sqrt(Math.max(0, variance));
+    const mu = weights.reduce((sum, w, i) => sum + w * means[i], 0);
+
+    const z = normalQuantile(confidence);
+    const tailFactor = normalPdf(z) / (1 - confidence);
+
+    // Expected shortfall split by each position's share of the portfolio variance
+    const contributions = positions.map((p, k) => {
+      const i = symbols.indexOf(p.symbol);
+      if (i === -1) return 0;
+      const marginal = sigma > 0 ? sigmaW[i] / sigma : 0;
+      return exposures[k] * means[i] - exposures[k] * marginal * tailFactor;
+    });
+
+    return {
+      var: Math.max(0, z * sigma - mu),
+      cvar: Math.max(0, sigma * tailFactor - mu),
+      contributions,
+    };
+  }
+
+  /**
+   * Correlated normal return paths from the historical means and covariance
+   */
+  private simulate(series: number[][]): number[][] {
+    if (series.length === 0 || series[0].length < 2) return [];
+
+    const means = series.map(mean);
+    const cholesky = choleskyDecompose(covarianceMatrix(series));
+    const paths: number[][] = [];
+
+    for (let n = 0; n < this.simulations; n++) {
+      const normals = means.map(() => this.standardNormal());
+      paths.push(means.map((m, i) => m + cholesky[i].reduce((sum, l, j) => sum + l * normals[j], 0)));
+    }
+
+    return paths;
+  }
+
+  private standardNormal(): number {
+    // Box-Muller; 1 - random() keeps the logarithm finite
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  // ==========================================================================
+  // Scenario Shocks
+  // ==========================================================================
+
+  private async resolveShocks(symbols: string[], scenario: StressScenario): Promise<Record<string, number>> {
+    const explicit = (symbol: string) =>
+      scenario.shocks?.[symbol] ?? scenario.shocks?.[baseAsset(symbol)];
+
+    let benchmarkMove = scenario.benchmarkShock;
+    const replayed: Record<string, number | undefined> = {};
+
+    if (scenario.replay) {
+      for (const symbol of symbols) {
+        if (explicit(symbol) === undefined) {
+          replayed[symbol] = await this.replayMove(symbol, scenario.replay);
+        }
+      }
+      if (Object.values(replayed).some(move => move === undefined)) {
+        benchmarkMove ??= await this.replayMove(this.correlationService.getBenchmark(), scenario.replay);
+      }
+    }
+
+    const needsBeta = benchmarkMove !== undefined &&
+      symbols.some(s => explicit(s) === undefined && replayed[s] === undefined);
+    const betas = needsBeta ? await this.correlationService.getBetas(symbols) : {};
+
+    const shocks: Record<string, number> = {};
+    for (const symbol of symbols) {
+      shocks[symbol] =
+        explicit(symbol) ??
+        replayed[symbol] ??
+        (benchmarkMove !== undefined ? betas[symbol] * benchmarkMove : undefined) ??
+        scenario.defaultShock ??
+        0;
+    }
+    return shocks;
+  }
+
+  /**
+   * Close-to-close move of a symbol over a replay window, when candles exist
+   */
+  private async replayMove(symbol: string, replay: NonNullable<StressScenario['replay']>): Promise<number | undefined> {
+    try {
+      const candles = await this.candleStore.getCandles({
+        exchange: this.exchange,
+        symbol,
+        timeframe: replay.timeframe ?? '1d',
+        start: replay.start,
+        end: replay.end,
+      });
+      if (candles.length < 2 || candles[0].close <= 0) return undefined;
+      return candles[candles.length - 1].close / candles[0].close - 1;
+    } catch (error) {
+      console.error(`Candles unavailable to replay ${symbol}:`, error);
+      return undefined;
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function signedNotional(p: VaRPosition): number {
+  return (p.direction === 'short' ? -1 : 1) * p.size * p.currentPrice;
+}
+
+function percentOf(value: number, equity: number): number {
+  return equity > 0 ? value / equity : 0;
+}
+
+function positionRisk(p: VaRPosition, exposure: number, pnl: number): PositionRisk {
+  const notional = Math.abs(exposure);
+  return {
+    positionId: p.id,
+    symbol: p.symbol,
+    direction: p.direction,
+    notional,
+    pnl,
+    pnlPercent: notional > 0 ? pnl / notional : 0,
+  };
+}
+
+/** Net exposure to each symbol, in the order of `symbols`. */
+function symbolWeights(positions: VaRPosition[], exposures: number[], symbols: string[]): number[] {
+  return symbols.map(s => positions.reduce((sum, p, k) => sum + (p.symbol === s ? exposures[k] : 0), 0));
+}
+
+/**
+ * VaR and expected shortfall from scenario outcomes, with each position's
+ * average P&L across the tail
+ */
+function tailLoss(
+  positions: VaRPosition[],
+  exposures: number[],
+  symbols: string[],
+  scenarios: number[][],
+  confidence: number
+): { var: number; cvar: number; contributions: number[] } {
+  if (scenarios.length === 0) {
+    return { var: 0, cvar: 0, contributions: positions.map(() => 0) };
+  }
+
+  const columns = positions.map(p => symbols.indexOf(p.symbol));
+  const outcomes = scenarios.map(row => {
+    const pnl = columns.map((i, k) => (i === -1 ? 0 : exposures[k] * row[i]));
+    return { total: pnl.reduce((a, b) => a + b, 0), pnl };
+  });
+  outcomes.sort((a, b) => a.total - b.total);
+
+  // Same cut as calculateVaR / calculateCVaR on a single return series
+  const cutoff = Math.floor((1 - confidence) * outcomes.length);
+  const tail = outcomes.slice(0, Math.max(1, cutoff));
+
+  return {
+    var: Math.max(0, -outcomes[Math.max(0, cutoff)].total),
+    cvar: Math.max(0, -mean(tail.map(o => o.total))),
+    contributions: positions.map((_, k) => mean(tail.map(o => o.pnl[k]))),
+  };
+}
+
+function lossBreaches(portfolio: PortfolioSnapshot, loss: number, label: string): LimitBreach[] {
+  const { equity, peakEquity, limits } = portfolio;
+  const breaches: LimitBreach[] = [];
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const lossPercent = percentOf(loss, equity);
+  if (loss > 0 && lossPercent > limits.maxDailyLoss) {
+    breaches.push({
+      limit: 'maxDailyLoss',
+      actual: lossPercent,
+      max: limits.maxDailyLoss,
+      message: `${label} loss ${pct(lossPercent)} exceeds daily loss limit ${pct(limits.maxDailyLoss)}`,
+    });
+  }
+
+  const drawdown = peakEquity > 0 ? (peakEquity - (equity - loss)) / peakEquity : 0;
+  if (loss > 0 && drawdown > limits.maxDrawdown) {
+    breaches.push({
+      limit: 'maxDrawdown',
+      actual: drawdown,
+      max: limits.maxDrawdown,
+      message: `${label} takes drawdown to ${pct(drawdown)}, beyond the ${pct(limits.maxDrawdown)} limit`,
+    });
+  }
+
+  return breaches;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/** Sample covariance of equally long return series. */
+function covarianceMatrix(series: number[][]): number[][] {
+  const n = series.length > 0 ? series[0].length : 0;
+  const means = series.map(mean);
+
+  return series.map((a, i) =>
+    series.map((b, j) => {
+      if (n < 2) return 0;
+      let sum = 0;
+      for (let t = 0; t < n; t++) sum += (a[t] - means[i]) * (b[t] - means[j]);
+      return sum / (n - 1);
+    })
+  );
+}
+
+/**
+ * Lower-triangular L with L·Lᵀ = matrix. Perfectly correlated symbols (a spot
+ * market and its perpetual) make the matrix singular; their pivots are zeroed
+ * so they follow the earlier symbol.
+ */
+function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const L = matrix.map(() => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+
+      if (i === j) {
+        L[i][j] = sum > 1e-18 ? Math.sqrt(sum) : 0;
+      } else {
+        L[i][j] = L[j][j] > 0 ? sum / L[j][j] : 0;
+      }
+    }
+  }
+
+  return L;
+}
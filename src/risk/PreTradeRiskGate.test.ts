@@ -0,0 +1,205 @@
+/**
+ * PreTradeRiskGate Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PreTradeRiskGate,
+  PreTradeRiskError,
+  DEFAULT_PRE_TRADE_LIMITS,
+  PreTradeContext,
+  PreTradeOrder,
+  RiskRule,
+} from './PreTradeRiskGate';
+import { RiskManager } from './RiskManager';
+
+const order = (overrides: Partial<PreTradeOrder> = {}): PreTradeOrder => ({
+  userId: 'user-1',
+  source: 'order_service',
+  mode: 'live',
+  symbol: 'BTC/USDT',
+  side: 'buy',
+  type: 'limit',
+  quantity: 1,
+  price: 50000,
+  ...overrides,
+});
+
+const context = (overrides: Partial<PreTradeContext> = {}): PreTradeContext => ({
+  limits: { ...DEFAULT_PRE_TRADE_LIMITS, maxOpenOrders: 10, maxDailyLoss: 1000 },
+  openOrders: 0,
+  dailyLoss: 0,
+  positionQuantity: 0,
+  ...overrides,
+});
+
+describe('PreTradeRiskGate', () => {
+  let gate: PreTradeRiskGate;
+
+  beforeEach(() => {
+    gate = new PreTradeRiskGate();
+  });
+
+  describe('evaluate', () => {
+    it('should_report_every_rule_in_pipeline_order', async () => {
+      const decision = await gate.evaluate(order(), context({ openOrders: 3 }));
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.results.map(r => [r.ruleId, r.outcome])).toEqual([
+        ['max_open_orders', 'pass'],
+        ['daily_loss', 'pass'],
+        ['position_size', 'skip'],
+        ['order_notional', 'skip'],
+        ['strategy_exposure', 'skip'],
+        ['leverage', 'skip'],
+        ['portfolio_limits', 'skip'],
+        ['graph_risk', 'skip'],
+      ]);
+      expect(decision.results[0]).toMatchObject({ limit: 10, actual: 3 });
+    });
+
+    it('should_reject_with_the_first_breached_rule_and_still_explain_the_rest', async () => {
+      const decision = await gate.evaluate(
+        order({ quantity: 2 }),
+        context({
+          limits: { ...DEFAULT_PRE_TRADE_LIMITS, maxOpenOrders: 5, maxDailyLoss: 100, maxPositionSize: 1 },
+          openOrders: 5,
+          dailyLoss: 150,
+        })
+      );
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.rejectedBy).toBe('max_open_orders');
+      expect(decision.reason).toBe('Maximum open orders reached (5/5)');
+      expect(decision.results.filter(r => r.outcome === 'reject').map(r => r.reason)).toEqual([
+        'Maximum open orders reached (5/5)',
+        'Daily loss limit reached (150 of 100)',
+        'Order would exceed maximum position size (2 > 1)',
+      ]);
+    });
+
+    it('should_throw_the_decision_from_enforce', async () => {
+      const error = await gate
+        .enforce(order(), context({ dailyLoss: 1000 }))
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(PreTradeRiskError);
+      expect(error.message).toBe('Daily loss limit reached (1000 of 1000)');
+      expect(error.decision.rejectedBy).toBe('daily_loss');
+    });
+
+    it('should_warn_or_block_on_graph_risk_by_mode', async () => {
+      const graphRisk = {
+        score: 80,
+        factors: [{ label: 'Concentrated exposure', severity: 'high' as const }],
+        openLivePositions: 2,
+        openLiveOrders: 1,
+        totalNotional: 50000,
+      };
+
+      const warned = await gate.evaluate(
+        order(),
+        context({ limits: { ...DEFAULT_PRE_TRADE_LIMITS, graphRiskMode: 'warn' }, graphRisk })
+      );
+      expect(warned.allowed).toBe(true);
+      expect(warned.warnings).toEqual(['Graph risk score 80 is at or above 70 (Concentrated exposure)']);
+
+      const blocked = await gate.evaluate(
+        order(),
+        context({ limits: { ...DEFAULT_PRE_TRADE_LIMITS, graphRiskMode: 'block' }, graphRisk })
+      );
+      expect(blocked.rejectedBy).toBe('graph_risk');
+    });
+
+    it('should_apply_riskmanager_portfolio_limits_when_stops_are_given', async () => {
+      const riskManager = new RiskManager(10000);
+
+      const decision = await gate.evaluate(
+        order({ quantity: 0.01, price: 50000, stopLoss: 49000, takeProfit: 50500 }),
+        context({ riskManager })
+      );
+
+      expect(decision.rejectedBy).toBe('portfolio_limits');
+      expect(decision.reason).toBe('Risk/reward ratio 0.50 below minimum 1.5');
+    });
+  });
+
+  describe('overrides', () => {
+    it('should_only_tighten_caller_limits', async () => {
+      gate.setUserOverrides('user-1', {
+        limits: { maxOpenOrders: 20, maxDailyLoss: 50, maxOrderNotional: 10000, graphRiskMode: 'off' },
+      });
+
+      const limits = gate.effectiveLimits('user-1', {
+        ...DEFAULT_PRE_TRADE_LIMITS,
+        maxOpenOrders: 10,
+        maxDailyLoss: 1000,
+        graphRiskMode: 'warn',
+      });
+
+      expect(limits).toMatchObject({ maxOpenOrders: 10, maxDailyLoss: 50, maxOrderNotional: 10000, graphRiskMode: 'warn' });
+
+      const decision = await gate.evaluate(order(), context());
+      expect(decision.reason).toBe('Order notional 50000 exceeds maximum 10000');
+      expect(gate.effectiveLimits('user-2', DEFAULT_PRE_TRADE_LIMITS)).toEqual(DEFAULT_PRE_TRADE_LIMITS);
+    });
+
+    it('should_disable_only_optional_rules', async () => {
+      expect(() => gate.setUserOverrides('user-1', { disabledRules: ['daily_loss'] })).toThrow(
+        'Risk rule daily_loss cannot be disabled'
+      );
+      expect(() => gate.setUserOverrides('user-1', { disabledRules: ['nope'] })).toThrow('Unknown risk rule: nope');
+      expect(() => gate.setUserOverrides('user-1', { limits: { maxLeverage: -2 } })).toThrow(
+        'Risk override maxLeverage must be a non-negative number'
+      );
+
+      gate.setUserOverrides('user-1', { disabledRules: ['graph_risk'] });
+      const decision = await gate.evaluate(
+        order(),
+        context({
+          limits: { ...DEFAULT_PRE_TRADE_LIMITS, graphRiskMode: 'block' },
+          graphRisk: { score: 90, factors: [], openLivePositions: 1, openLiveOrders: 0, totalNotional: 1 },
+        })
+      );
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.results.find(r => r.ruleId === 'graph_risk')).toEqual({
+        ruleId: 'graph_risk',
+        outcome: 'skip',
+        reason: 'Disabled by user override',
+      });
+    });
+  });
+
+  it('should_run_registered_rules_at_their_position', async () => {
+    gate.registerRule(
+      {
+        id: 'trading_hours',
+        description: 'Blocks orders outside trading hours',
+        evaluate: () => ({ outcome: 'reject', reason: 'Outside trading hours' }),
+      },
+      { before: 'daily_loss' }
+    );
+
+    const decision = await gate.evaluate(order(), context({ dailyLoss: 5000 }));
+
+    expect(gate.getRules().map(r => r.id).slice(0, 3)).toEqual(['max_open_orders', 'trading_hours', 'daily_loss']);
+    expect(decision.rejectedBy).toBe('trading_hours');
+  });
+
+  it('should_replace_a_rule_registered_again_in_place', async () => {
+    const rule = (reason: string): RiskRule => ({
+      id: 'trading_hours',
+      description: 'Blocks orders outside trading hours',
+      evaluate: () => ({ outcome: 'reject', reason }),
+    });
+    gate.registerRule(rule('First server'), { before: 'daily_loss' });
+    gate.registerRule(rule('Second server'), { before: 'daily_loss' });
+
+    const decision = await gate.evaluate(order(), context());
+
+    expect(gate.getRules().filter(r => r.id === 'trading_hours')).toHaveLength(1);
+    expect(gate.getRules().map(r => r.id).slice(0, 3)).toEqual(['max_open_orders', 'trading_hours', 'daily_loss']);
+    expect(decision.reason).toBe('Second server');
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * PreTradeRiskGate - Pre-trade risk pipeline shared by every order path
+ * Runs each order through ordered rule modules against a snapshot of the
+ * account, applies per-user overrides and records why every rule passed,
+ * warned or rejected.
+ */
+
+import type { RiskManager } from './RiskManager';
+import type { GraphRiskSummary } from '../patterns/RiskGraphService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PreTradeOrderSource = 'order_service' | 'paper_engine' | 'neon_api' | 'swarm';
+export type GraphRiskMode = 'off' | 'warn' | 'block';
+export type RiskRuleOutcome = 'pass' | 'warn' | 'reject' | 'skip';
+
+export interface PreTradeOrder {
+  userId: string;
+  source: PreTradeOrderSource;
+  mode: 'paper' | 'live';
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: string;
+  quantity: number;
+  price?: number; // Limit, stop or reference price used for notional checks
+  strategyId?: string;
+  leverage?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+export interface PreTradeLimits {
+  maxOpenOrders: number; // -1 for unlimited
+  maxDailyLoss: number; // Realized loss in quote currency; -1 for unlimited
+  maxPositionSize?: number; // Absolute net quantity per symbol
+  maxOrderNotional?: number;
+  maxStrategyNotional?: number; // Open exposure per strategy, including pending orders
+  maxLeverage?: number;
+  graphRiskMode: GraphRiskMode;
+  graphRiskThreshold: number; // Graph risk score (0-100) at which the rule fires
+}
+
+/**
+ * Account snapshot a caller loads before asking the gate about an order.
+ * Rules whose facts are missing are skipped rather than guessed.
+ */
+export interface PreTradeContext {
+  limits: PreTradeLimits; // Tier or account limits before user overrides
+  openOrders: number;
+  dailyLoss?: number;
+  positionQuantity?: number; // Signed net position in the order's symbol
+  strategyNotional?: number;
+  riskManager?: RiskManager;
+  graphRisk?: GraphRiskSummary;
+}
+
+export interface RiskRuleVerdict {
+  outcome: RiskRuleOutcome;
+  reason?: string;
+  limit?: number;
+  actual?: number;
+}
+
+export interface RiskRuleResult extends RiskRuleVerdict {
+  ruleId: string;
+}
+
+export interface RiskRule {
+  id: string;
+  description: string;
+  optional?: boolean; // Users may disable optional rules through overrides
+  evaluate(order: PreTradeOrder, context: PreTradeContext, limits: PreTradeLimits): RiskRuleVerdict | Promise<RiskRuleVerdict>;
+}
+
+export interface RiskOverrides {
+  disabledRules?: string[];
+  limits?: Partial<PreTradeLimits>;
+}
+
+export interface PreTradeDecision {
+  allowed: boolean;
+  dryRun: boolean;
+  rejectedBy?: string;
+  reason?: string;
+  warnings: string[];
+  results: RiskRuleResult[];
+  limits: PreTradeLimits; // Effective limits after overrides
+  evaluatedAt: Date;
+}
+
+/** Persists per-user overrides so they survive a restart */
+export interface RiskOverrideStore {
+  loadAll(): Promise<Array<{ userId: string; overrides: RiskOverrides }>>;
+  save(userId: string, overrides: RiskOverrides): Promise<unknown>;
+}
+
+export interface PreTradeRiskGateOptions {
+  rules?: RiskRule[];
+  store?: RiskOverrideStore;
+}
+
+/**
+ * Thrown by enforce() so callers that surface plain error messages keep
+ * working, while routes can still return the full decision.
+ */
+export class PreTradeRiskError extends Error {
+  readonly decision: PreTradeDecision;
+
+  constructor(decision: PreTradeDecision) {
+    super(decision.reason);
+    this.name = 'PreTradeRiskError';
+    this.decision = decision;
+    Object.setPrototypeOf(this, PreTradeRiskError.prototype);
+  }
+}
+
+/** Limits for accounts without tier limits, such as paper engines */
+export const DEFAULT_PRE_TRADE_LIMITS: PreTradeLimits = {
+  maxOpenOrders: -1,
+  maxDailyLoss: -1,
+  graphRiskMode: 'off',
+  graphRiskThreshold: 70,
+};
+
+const GRAPH_RISK_MODES: GraphRiskMode[] = ['off', 'warn', 'block'];
+
+const NUMERIC_LIMITS = [
+  'maxOpenOrders',
+  'maxDailyLoss',
+  'maxPositionSize',
+  'maxOrderNotional',
+  'maxStrategyNotional',
+  'maxLeverage',
+  'graphRiskThreshold',
+] as const;
+
+// ============================================================================
+// Rule Modules
+// ============================================================================
+
+const pass = (reason?: string): RiskRuleVerdict => ({ outcome: 'pass', ...(reason && { reason }) });
+const skip = (reason: string): RiskRuleVerdict => ({ outcome: 'skip', reason });
+
+/** A limit is enforced when it is set, finite and not the -1 "unlimited" marker */
+function isEnforced(limit: number | undefined): limit is number {
+  return limit !== undefined && limit >= 0 && Number.isFinite(limit);
+}
+
+export const maxOpenOrdersRule: RiskRule = {
+  id: 'max_open_orders',
+  description: 'Caps the number of pending orders per account',
+  evaluate(_order, context, limits) {
+    if (!isEnforced(limits.maxOpenOrders)) return skip('No open order limit');
+
+    const verdict = { limit: limits.maxOpenOrders, actual: context.openOrders };
+    return context.openOrders >= limits.maxOpenOrders
+      ? { ...verdict, outcome: 'reject', reason: `Maximum open orders reached (${context.openOrders}/${limits.maxOpenOrders})` }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+export const dailyLossRule: RiskRule = {
+  id: 'daily_loss',
+  description: 'Blocks new orders once realized losses today reach the daily limit',
+  evaluate(_order, context, limits) {
+    if (!isEnforced(limits.maxDailyLoss)) return skip('No daily loss limit');
+    if (context.dailyLoss === undefined) return skip('Daily loss is not tracked for this account');
+
+    const verdict = { limit: limits.maxDailyLoss, actual: context.dailyLoss };
+    return context.dailyLoss >= limits.maxDailyLoss
+      ? { ...verdict, outcome: 'reject', reason: `Daily loss limit reached (${context.dailyLoss} of ${limits.maxDailyLoss})` }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+export const positionSizeRule: RiskRule = {
+  id: 'position_size',
+  description: 'Caps the net position quantity per symbol',
+  evaluate(order, context, limits) {
+    if (!isEnforced(limits.maxPositionSize)) return skip('No position size limit');
+    if (context.positionQuantity === undefined) return skip('Position is not known for this account');
+
+    const resulting = context.positionQuantity + (order.side === 'buy' ? order.quantity : -order.quantity);
+    const verdict = { limit: limits.maxPositionSize, actual: Math.abs(resulting) };
+    return Math.abs(resulting) > limits.maxPositionSize
+      ? {
+          ...verdict,
+          outcome: 'reject',
+          reason: `Order would exceed maximum position size (${Math.abs(resulting)} > ${limits.maxPositionSize})`,
+        }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+export const orderNotionalRule: RiskRule = {
+  id: 'order_notional',
+  description: 'Caps the notional value of a single order',
+  evaluate(order, _context, limits) {
+    if (!isEnforced(limits.maxOrderNotional)) return skip('No order notional limit');
+    if (order.price === undefined) {
+      return { outcome: 'reject', reason: 'Price is required to evaluate order notional', limit: limits.maxOrderNotional };
+    }
+
+    const notional = order.quantity * order.price;
+    const verdict = { limit: limits.maxOrderNotional, actual: notional };
+    return notional > limits.maxOrderNotional
+      ? { ...verdict, outcome: 'reject', reason: `Order notional ${notional} exceeds maximum ${limits.maxOrderNotional}` }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+export const strategyExposureRule: RiskRule = {
+  id: 'strategy_exposure',
+  description: 'Caps open notional per strategy, including pending orders',
+  evaluate(order, context, limits) {
+    if (!isEnforced(limits.maxStrategyNotional) || limits.maxStrategyNotional === 0) {
+      return skip('No strategy exposure limit');
+    }
+    if (context.strategyNotional === undefined) return skip('Strategy exposure is not known for this order');
+    if (order.price === undefined) {
+      return {
+        outcome: 'reject',
+        reason: 'Price is required to evaluate notional exposure',
+        limit: limits.maxStrategyNotional,
+      };
+    }
+
+    const exposure = context.strategyNotional + order.quantity * order.price;
+    const verdict = { limit: limits.maxStrategyNotional, actual: exposure };
+    return exposure > limits.maxStrategyNotional
+      ? {
+          ...verdict,
+          outcome: 'reject',
+          reason: `Strategy exposure limit reached (max ${limits.maxStrategyNotional} notional per strategy)`,
+        }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+export const leverageRule: RiskRule = {
+  id: 'leverage',
+  description: 'Caps leverage per order',
+  evaluate(order, _context, limits) {
+    if (!isEnforced(limits.maxLeverage)) return skip('No leverage limit');
+
+    const leverage = order.leverage ?? 1;
+    const verdict = { limit: limits.maxLeverage, actual: leverage };
+    return leverage > limits.maxLeverage
+      ? { ...verdict, outcome: 'reject', reason: `Leverage ${leverage}x exceeds maximum ${limits.maxLeverage}x` }
+      : { ...verdict, outcome: 'pass' };
+  },
+};
+
+/**
+ * Portfolio limits from RiskManager: open positions, exposure, drawdown and
+ * risk/reward. Needs stop loss and take profit to size the trade.
+ */
+export const portfolioLimitsRule: RiskRule = {
+  id: 'portfolio_limits',
+  description: 'Applies RiskManager position, exposure, drawdown and risk/reward limits',
+  optional: true,
+  evaluate(order, context) {
+    if (!context.riskManager) return skip('No portfolio risk manager for this account');
+    if (order.price === undefined || order.stopLoss === undefined || order.takeProfit === undefined) {
+      return skip('Portfolio limits need a price, stop loss and take profit');
+    }
+
+    const result = context.riskManager.checkTradeRisk(
+      order.symbol,
+      order.side === 'buy' ? 'long' : 'short',
+      order.quantity,
+      order.price,
+      order.stopLoss,
+      order.takeProfit,
+      order.leverage ?? 1
+    );
+
+    if (!result.allowed) return { outcome: 'reject', reason: result.reason };
+    return result.warnings.length > 0 ? { outcome: 'warn', reason: result.warnings.join('; ') } : pass();
+  },
+};
+
+export const graphRiskRule: RiskRule = {
+  id: 'graph_risk',
+  description: 'Warns about or blocks orders while graph-based account risk is high',
+  optional: true,
+  evaluate(_order, context, limits) {
+    if (limits.graphRiskMode === 'off') return skip('Graph risk gating is off');
+    if (!context.graphRisk) return skip('Graph risk is not available for this order');
+
+    const { score, factors } = context.graphRisk;
+    const verdict = { limit: limits.graphRiskThreshold, actual: score };
+    if (score < limits.graphRiskThreshold) return { ...verdict, outcome: 'pass' };
+
+    const detail = factors.filter(f => f.severity !== 'low').map(f => f.label).join(', ');
+    const reason = `Graph risk score ${score} is at or above ${limits.graphRiskThreshold}${detail ? ` (${detail})` : ''}`;
+    return { ...verdict, outcome: limits.graphRiskMode === 'block' ? 'reject' : 'warn', reason };
+  },
+};
+
+/** Default pipeline, cheapest and hardest limits first */
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  maxOpenOrdersRule,
+  dailyLossRule,
+  positionSizeRule,
+  orderNotionalRule,
+  strategyExposureRule,
+  leverageRule,
+  portfolioLimitsRule,
+  graphRiskRule,
+];
+
+// ============================================================================
+// PreTradeRiskGate Implementation
+// ============================================================================
+
+export class PreTradeRiskGate {
+  private rules: RiskRule[];
+  private overrides: Map<string, RiskOverrides> = new Map();
+  private store?: RiskOverrideStore;
+
+  constructor(options: PreTradeRiskGateOptions = {}) {
+    this.rules = [...(options.rules ?? DEFAULT_RISK_RULES)];
+    this.store = options.store;
+  }
+
+  // ============================================================================
+  // Rule Registry
+  // ============================================================================
+
+  /**
+   * Add a rule to the pipeline, at the end or just before an existing rule.
+   * Registering an id again replaces that rule in place, so a server started
+   * twice in one process does not stack copies on a shared gate.
+   */
+  registerRule(rule: RiskRule, options?: { before?: string }): void {
+    const existing = this.rules.findIndex(r => r.id === rule.id);
+    if (existing !== -1) {
+      this.rules[existing] = rule;
+      return;
+    }
+
+    const index = options?.before ? this.rules.findIndex(r => r.id === options.before) : -1;
+    if (options?.before && index === -1) {
+      throw new Error(`Unknown risk rule: ${options.before}`);
+    }
+
+    if (index === -1) {
+      this.rules.push(rule);
+    } else {
+      this.rules.splice(index, 0, rule);
+    }
+  }
+
+  getRules(): Array<Pick<RiskRule, 'id' | 'description' | 'optional'>> {
+    return this.rules.map(({ id, description, optional }) => ({ id, description, optional: optional ?? false }));
+  }
+
+  // ============================================================================
+  // Per-User Overrides
+  // ============================================================================
+
+  /**
+   * Replace a user's overrides. Limit overrides can only tighten the limits a
+   * caller supplies; only optional rules can be disabled.
+   */
+  setUserOverrides(userId: string, overrides: RiskOverrides): RiskOverrides {
+    const stored = this.validateOverrides(overrides);
+    this.overrides.set(userId, stored);
+    return stored;
+  }
+
+  /**
+   * Replace a user's overrides and write them to the store, if one is set
+   */
+  async saveUserOverrides(userId: string, overrides: RiskOverrides): Promise<RiskOverrides> {
+    const stored = this.setUserOverrides(userId, overrides);
+    if (this.store) {
+      try {
+        await this.store.save(userId, stored);
+      } catch (error) {
+        // Keep enforcing the in-memory overrides; the next change retries the write
+        console.error('Risk overrides could not be saved:', error);
+      }
+    }
+    return stored;
+  }
+
+  getUserOverrides(userId: string): RiskOverrides {
+    return this.overrides.get(userId) ?? { disabledRules: [], limits: {} };
+  }
+
+  clearUserOverrides(userId: string): void {
+    this.overrides.delete(userId);
+  }
+
+  /**
+   * Persist overrides through this store from now on, e.g. for the shared gate
+   */
+  setStore(store: RiskOverrideStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Restore persisted overrides, e.g. on startup. Overrides that no longer
+   * validate against the registered rules are skipped. Returns how many
+   * users' overrides were loaded.
+   */
+  async load(): Promise<number> {
+    if (!this.store) return 0;
+    let loaded = 0;
+    for (const { userId, overrides } of await this.store.loadAll()) {
+      try {
+        this.setUserOverrides(userId, overrides);
+        loaded++;
+      } catch (error) {
+        console.warn(`Skipping stored risk overrides for ${userId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return loaded;
+  }
+
+  private validateOverrides(overrides: RiskOverrides): RiskOverrides {
+    for (const ruleId of overrides.disabledRules ?? []) {
+      const rule = this.rules.find(r => r.id === ruleId);
+      if (!rule) {
+        throw new Error(`Unknown risk rule: ${ruleId}`);
+      }
+      if (!rule.optional) {
+        throw new Error(`Risk rule ${ruleId} cannot be disabled`);
+      }
+    }
+
+    const limits = overrides.limits ?? {};
+    for (const key of NUMERIC_LIMITS) {
+      const value = limits[key];
+      if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+        throw new Error(`Risk override ${key} must be a non-negative number`);
+      }
+    }
+    if (limits.graphRiskMode !== undefined && !GRAPH_RISK_MODES.includes(limits.graphRiskMode)) {
+      throw new Error('Risk override graphRiskMode must be off, warn or block');
+    }
+
+    return {
+      disabledRules: [...new Set(overrides.disabledRules ?? [])],
+      limits: { ...limits },
+    };
+  }
+
+  /**
+   * Caller limits tightened by the user's overrides
+   */
+  effectiveLimits(userId: string, base: PreTradeLimits): PreTradeLimits {
+    const override = this.overrides.get(userId)?.limits;
+    if (!override) return { ...base };
+
+    const limits: PreTradeLimits = { ...base };
+    for (const key of NUMERIC_LIMITS) {
+      const value = override[key];
+      if (value === undefined) continue;
+      const current = limits[key];
+      limits[key] = isEnforced(current) ? Math.min(current, value) : value;
+    }
+
+    if (override.graphRiskMode !== undefined) {
+      const stricter = Math.max(GRAPH_RISK_MODES.indexOf(base.graphRiskMode), GRAPH_RISK_MODES.indexOf(override.graphRiskMode));
+      limits.graphRiskMode = GRAPH_RISK_MODES[stricter];
+    }
+
+    return limits;
+  }
+
+  // ============================================================================
+  // Evaluation
+  // ============================================================================
+
+  /**
+   * Run every rule in order. The first rejection decides the outcome, but the
+   * remaining rules still run so the decision explains every breached limit.
+   */
+  async evaluate(
+    order: PreTradeOrder,
+    context: PreTradeContext,
+    options?: { dryRun?: boolean }
+  ): Promise<PreTradeDecision> {
+    const limits = this.effectiveLimits(order.userId, context.limits);
+    const disabled = new Set(this.overrides.get(order.userId)?.disabledRules ?? []);
+    const results: RiskRuleResult[] = [];
+
+    for (const rule of this.rules) {
+      const verdict = disabled.has(rule.id)
+        ? skip('Disabled by user override')
+        : await rule.evaluate(order, context, limits);
+      results.push({ ruleId: rule.id, ...verdict });
+    }
+
+    const rejection = results.find(r => r.outcome === 'reject');
+    return {
+      allowed: !rejection,
+      dryRun: options?.dryRun ?? false,
+      ...(rejection && { rejectedBy: rejection.ruleId, reason: rejection.reason }),
+      warnings: results.filter(r => r.outcome === 'warn').map(r => r.reason!),
+      results,
+      limits,
+      evaluatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Evaluate an order that is about to be placed and throw if it is rejected
+   */
+  async enforce(order: PreTradeOrder, context: PreTradeContext): Promise<PreTradeDecision> {
+    const decision = await this.evaluate(order, context);
+    if (!decision.allowed) {
+      throw new PreTradeRiskError(decision);
+    }
+    return decision;
+  }
+}
+
+/** Gate shared by the paper engines and Neon order routes in one process */
+export const preTradeRiskGate = new PreTradeRiskGate();
@@ -113,6 +113,27 @@ describe('RiskManager', () => {
       expect(result.reason).toContain('Max open positions');
     });
 
+    it('should_cap_size_at_total_exposure_limit', () => {
+      const capped = new RiskManager(10000, { maxPositionSize: 1, maxTotalExposure: 0.5 });
+      capped.openPosition('ETH/USDT', 'long', 1, 3000, 2900, 3300);
+
+      const result = capped.checkTradeRisk('BTC/USDT', 'long', 0.1, 45000, 44000, 48000);
+
+      expect(result.allowed).toBe(true);
+      expect(result.adjustedSize! * 45000).toBeCloseTo(2000, 6);
+      expect(result.warnings.some(w => w.includes('total exposure'))).toBe(true);
+    });
+
+    it('should_reject_when_total_exposure_is_used_up', () => {
+      const capped = new RiskManager(10000, { maxPositionSize: 1, maxTotalExposure: 0.5 });
+      capped.openPosition('ETH/USDT', 'long', 2, 3000, 2900, 3300);
+
+      const result = capped.checkTradeRisk('BTC/USDT', 'long', 0.01, 45000, 44000, 48000);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Max total exposure');
+    });
+
     it('should_warn_about_duplicate_symbol', () => {
       manager.openPosition('BTC/USDT', 'long', 0.1, 45000, 44000, 48000);
 
@@ -263,6 +284,28 @@ describe('RiskManager', () => {
       expect(metrics.drawdown.maxDrawdown).toBeGreaterThan(0);
     });
 
+    it('should_use_loaded_equity_history_for_drawdown_and_daily_pnl', () => {
+      const now = Date.now();
+      const day = 24 * 60 * 60 * 1000;
+      manager.loadEquityHistory([
+        { timestamp: new Date(now - day), equity: 11000 },
+        { timestamp: new Date(now - 3 * day), equity: 10000 },
+        { timestamp: new Date(now - 2 * day), equity: 12000 },
+        { timestamp: new Date(now), equity: 9500 },
+      ]);
+
+      expect(manager.getEquityCurve()).toEqual([10000, 12000, 11000, 9500]);
+
+      const metrics = manager.getMetrics();
+      expect(metrics.dailyPnl).toBe(-1500); // From the last mark before today
+      expect(metrics.dailyPnlPercent).toBeCloseTo(-1500 / 11000, 9);
+      expect(metrics.drawdown.currentDrawdownPercent).toBeCloseTo(2500 / 12000, 9);
+
+      const check = manager.checkTradeRisk('BTC/USDT', 'long', 0.01, 45000, 44000, 48000);
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toBe('Current drawdown 20.8% exceeds limit 20%');
+    });
+
     it('should_track_trade_stats', () => {
       // Win
       const pos1 = manager.openPosition('A', 'long', 1, 100, 90, 120);
@@ -322,4 +365,66 @@ describe('RiskManager', () => {
       expect(trades[1].pnl).toBe(5);
     });
   });
+
+  describe('Leverage & Margin', () => {
+    it('should_reject_leverage_above_the_limit_and_size_on_margin', () => {
+      const levered = new RiskManager(10000, { maxLeverage: 5, maxTotalExposure: 5 });
+
+      const rejected = levered.checkTradeRisk('BTC/USDT', 'long', 0.1, 50000, 49000, 53000, 10);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.reason).toBe('Leverage 10x exceeds maximum 5x');
+
+      // 10% of equity as margin at 5x buys 5000 notional
+      const result = levered.checkTradeRisk('BTC/USDT', 'long', 0.2, 50000, 49000, 53000, 5);
+      expect(result.allowed).toBe(true);
+      expect(result.adjustedSize).toBeCloseTo(0.1);
+    });
+
+    it('should_set_liquidation_prices_and_warn_about_stops_beyond_them', () => {
+      const levered = new RiskManager(10000, { maxLeverage: 10, maxTotalExposure: 10, maintenanceMarginRate: 0.05 });
+
+      expect(levered.calculateLiquidationPrice(100, 'long', 1)).toBeUndefined();
+      expect(levered.calculateLiquidationPrice(100, 'long', 5)).toBeCloseTo(84.2105);
+      expect(levered.calculateLiquidationPrice(100, 'short', 5)).toBeCloseTo(114.2857);
+
+      const result = levered.checkTradeRisk('ETH/USDT', 'long', 1, 100, 80, 140, 5);
+      expect(result.warnings).toContain('Stop loss 80 is beyond the liquidation price 84.21');
+    });
+
+    it('should_liquidate_positions_that_cross_their_liquidation_price', () => {
+      const levered = new RiskManager(10000, { maxLeverage: 5 });
+      const long = levered.openPosition('BTC', 'long', 1, 100, 80, 150, 5);
+      const short = levered.openPosition('ETH', 'short', 1, 100, 120, 50, 5);
+
+      levered.updatePosition(long.id, 84);
+      levered.updatePosition(short.id, 110);
+      const trades = levered.checkLiquidations();
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({ symbol: 'BTC', exitPrice: 84, pnl: -16, liquidated: true });
+      expect(levered.getPositions().map(p => p.symbol)).toEqual(['ETH']);
+    });
+
+    it('should_accrue_borrow_interest_and_report_margin_metrics', () => {
+      const levered = new RiskManager(10000, { maxLeverage: 4 });
+      const openedAt = new Date();
+      const long = levered.openPosition('BTC', 'long', 1, 4000, 3000, 6000, 4);
+      levered.openPosition('ETH', 'short', 1, 2000, 2500, 1500);
+
+      // A year at 10%: the long borrows 3000, the short borrows 2000
+      const charged = levered.accrueBorrowInterest(0.1, new Date(openedAt.getTime() + 365 * 24 * 60 * 60 * 1000));
+      expect(charged).toBeCloseTo(500);
+      expect(levered.getPosition(long.id)!.unrealizedPnl).toBeCloseTo(-300);
+
+      const metrics = levered.getMetrics();
+      expect(metrics.usedMargin).toBe(3000);
+      expect(metrics.grossExposure).toBe(6000);
+      expect(metrics.borrowInterest).toBeCloseTo(500);
+      expect(metrics.leverage).toBeCloseTo(6000 / 9500);
+      expect(metrics.maintenanceMargin).toBeCloseTo(300);
+
+      const trade = levered.closePosition(long.id, 4000)!;
+      expect(trade.pnl).toBeCloseTo(-300);
+    });
+  });
 });
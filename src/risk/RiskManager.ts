@@ -25,8 +25,15 @@ export interface RiskLimits {
   maxDailyLoss: number; // Max daily loss %
   maxDrawdown: number; // Max drawdown % before stopping
   maxOpenPositions: number;
-  maxCorrelatedPositions: number;
+  maxCorrelatedPositions: number; // Max positions in one cluster of correlated assets
+  maxClusterExposure: number; // Max gross exposure of a correlated cluster as a fraction of equity
+  maxAssetConcentration: number; // Max gross exposure to one base asset as a fraction of equity
+  maxSectorConcentration: number; // Max gross exposure to one sector as a fraction of equity
+  maxNetBeta: number; // Max beta-weighted net exposure to BTC as a fraction of equity
   minRiskRewardRatio: number;
+  maxTotalExposure: number; // Max gross exposure across positions as a fraction of equity
+  maxLeverage: number; // Max leverage on a single position
+  maintenanceMarginRate: number; // Margin, as a fraction of notional, below which a position is liquidated
 }
 
 export interface Position {
@@ -40,6 +47,9 @@ export interface Position {
   takeProfit: number;
   openedAt: Date;
   unrealizedPnl: number;
+  leverage: number;
+  liquidationPrice?: number; // Unset for unlevered longs, which cannot be liquidated
+  borrowInterest: number; // Interest accrued on borrowed funds or coins
 }
 
 export interface Trade {
@@ -53,6 +63,7 @@ export interface Trade {
   pnlPercent: number;
   openedAt: Date;
   closedAt: Date;
+  liquidated?: boolean;
 }
 
 export interface RiskMetrics {
@@ -60,6 +71,10 @@ export interface RiskMetrics {
   availableCapital: number;
   usedMargin: number;
   marginUsagePercent: number;
+  grossExposure: number;
+  leverage: number; // Gross exposure / equity
+  maintenanceMargin: number;
+  borrowInterest: number;
   unrealizedPnl: number;
   realizedPnl: number;
   dailyPnl: number;
@@ -73,6 +88,15 @@ export interface RiskMetrics {
   tradeStats: TradeStats;
 }
 
+/**
+ * Account equity at a point in time, either recorded as trades close or
+ * loaded from persisted mark-to-market snapshots
+ */
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
 export interface RiskCheckResult {
   allowed: boolean;
   reason?: string;
@@ -84,15 +108,16 @@ export class RiskManager {
   private limits: RiskLimits;
   private positions: Map<string, Position> = new Map();
   private trades: Trade[] = [];
-  private equityCurve: number[] = [];
+  private equityHistory: EquityPoint[] = [];
   private dailyReturns: number[] = [];
   private initialEquity: number;
   private currentEquity: number;
+  private interestAccruedAt: Date = new Date();
 
   constructor(initialEquity: number, limits?: Partial<RiskLimits>) {
     this.initialEquity = initialEquity;
     this.currentEquity = initialEquity;
-    this.equityCurve = [initialEquity];
+    this.equityHistory = [{ timestamp: new Date(), equity: initialEquity }];
 
     this.limits = {
       maxPositionSize: 0.1, // 10% max per position
@@ -100,7 +125,14 @@ export class RiskManager {
       maxDrawdown: 0.2, // 20% max drawdown
       maxOpenPositions: 10,
       maxCorrelatedPositions: 3,
+      maxClusterExposure: 0.5,
+      maxAssetConcentration: 0.3,
+      maxSectorConcentration: 0.5,
+      maxNetBeta: 1,
       minRiskRewardRatio: 1.5,
+      maxTotalExposure: 1, // No leverage by default
+      maxLeverage: 1,
+      maintenanceMarginRate: 0.05,
       ...limits,
     };
   }
@@ -133,11 +165,21 @@ export class RiskManager {
     size: number,
     entryPrice: number,
     stopLoss: number,
-    takeProfit: number
+    takeProfit: number,
+    leverage: number = 1
   ): RiskCheckResult {
     const warnings: string[] = [];
     let adjustedSize = size;
 
+    // Check leverage limit
+    if (leverage > this.limits.maxLeverage) {
+      return {
+        allowed: false,
+        reason: `Leverage ${leverage}x exceeds maximum ${this.limits.maxLeverage}x`,
+        warnings,
+      };
+    }
+
     // Check position count
     if (this.positions.size >= this.limits.maxOpenPositions) {
       return {
@@ -147,17 +189,40 @@ export class RiskManager {
       };
     }
 
-    // Check position size limit
-    const positionValue = size * entryPrice;
+    // Check position size limit against the margin the position ties up
+    const positionValue = (size * entryPrice) / leverage;
     const positionPercent = positionValue / this.currentEquity;
 
     if (positionPercent > this.limits.maxPositionSize) {
-      adjustedSize = (this.limits.maxPositionSize * this.currentEquity) / entryPrice;
+      adjustedSize = (this.limits.maxPositionSize * this.currentEquity * leverage) / entryPrice;
       warnings.push(
         `Position size reduced from ${size.toFixed(4)} to ${adjustedSize.toFixed(4)} (max ${this.limits.maxPositionSize * 100}%)`
       );
     }
 
+    // Check total exposure across open positions
+    const openExposure = Array.from(this.positions.values()).reduce(
+      (sum, p) => sum + p.size * p.currentPrice,
+      0
+    );
+    const exposureHeadroom = this.limits.maxTotalExposure * this.currentEquity - openExposure;
+
+    if (exposureHeadroom <= 0) {
+      return {
+        allowed: false,
+        reason: `Max total exposure (${this.limits.maxTotalExposure * 100}%) reached`,
+        warnings,
+      };
+    }
+
+    if (adjustedSize * entryPrice > exposureHeadroom) {
+      const cappedSize = exposureHeadroom / entryPrice;
+      warnings.push(
+        `Position size reduced from ${adjustedSize.toFixed(4)} to ${cappedSize.toFixed(4)} (max total exposure ${this.limits.maxTotalExposure * 100}%)`
+      );
+      adjustedSize = cappedSize;
+    }
+
     // Check risk/reward ratio
     const rr = calculateRiskReward({ entryPrice, stopLoss, takeProfit });
     if (rr.riskRewardRatio < this.limits.minRiskRewardRatio) {
@@ -169,7 +234,7 @@ export class RiskManager {
     }
 
     // Check drawdown limit
-    const drawdown = calculateDrawdown(this.equityCurve);
+    const drawdown = calculateDrawdown(this.getEquityCurve());
     if (drawdown.currentDrawdownPercent >= this.limits.maxDrawdown) {
       return {
         allowed: false,
@@ -188,6 +253,17 @@ export class RiskManager {
       };
     }
 
+    // Warn when the stop sits beyond the liquidation price
+    const liquidationPrice = this.calculateLiquidationPrice(entryPrice, direction, leverage);
+    if (
+      liquidationPrice !== undefined &&
+      (direction === 'long' ? stopLoss <= liquidationPrice : stopLoss >= liquidationPrice)
+    ) {
+      warnings.push(
+        `Stop loss ${stopLoss} is beyond the liquidation price ${liquidationPrice.toFixed(2)}`
+      );
+    }
+
     // Check duplicate position
     const existingPosition = Array.from(this.positions.values()).find(
       (p) => p.symbol === symbol
@@ -212,7 +288,8 @@ export class RiskManager {
     size: number,
     entryPrice: number,
     stopLoss: number,
-    takeProfit: number
+    takeProfit: number,
+    leverage: number = 1
   ): Position {
     const id = `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -227,12 +304,85 @@ export class RiskManager {
       takeProfit,
       openedAt: new Date(),
       unrealizedPnl: 0,
+      leverage,
+      liquidationPrice: this.calculateLiquidationPrice(entryPrice, direction, leverage),
+      borrowInterest: 0,
     };
 
     this.positions.set(id, position);
     return position;
   }
 
+  /**
+   * Price at which a position's margin falls to the maintenance margin.
+   * Longs without leverage borrow nothing and are never liquidated.
+   */
+  calculateLiquidationPrice(
+    entryPrice: number,
+    direction: 'long' | 'short',
+    leverage: number = 1
+  ): number | undefined {
+    const mmr = this.limits.maintenanceMarginRate;
+
+    if (direction === 'long') {
+      if (leverage <= 1) return undefined;
+      return (entryPrice * (1 - 1 / leverage)) / (1 - mmr);
+    }
+    return (entryPrice * (1 + 1 / leverage)) / (1 + mmr);
+  }
+
+  /**
+   * Charge borrow interest on every position since the last accrual. Longs
+   * borrow the part of their notional not covered by margin; shorts borrow
+   * the whole position at its current price. Returns the total charged.
+   */
+  accrueBorrowInterest(annualRate: number, now: Date = new Date()): number {
+    const yearMs = 365 * 24 * 60 * 60 * 1000;
+    let total = 0;
+
+    for (const position of this.positions.values()) {
+      const from = Math.max(position.openedAt.getTime(), this.interestAccruedAt.getTime());
+      const elapsed = now.getTime() - from;
+      if (elapsed <= 0) continue;
+
+      const borrowed =
+        position.direction === 'short'
+          ? position.size * position.currentPrice
+          : position.size * position.entryPrice * (1 - 1 / position.leverage);
+      const interest = (borrowed * annualRate * elapsed) / yearMs;
+
+      position.borrowInterest += interest;
+      this.updatePosition(position.id, position.currentPrice);
+      total += interest;
+    }
+
+    this.interestAccruedAt = now;
+    return total;
+  }
+
+  /**
+   * Close positions whose current price has crossed their liquidation price
+   */
+  checkLiquidations(): Trade[] {
+    const liquidated: Trade[] = [];
+
+    for (const position of this.getPositions()) {
+      if (position.liquidationPrice === undefined) continue;
+
+      const breached =
+        position.direction === 'long'
+          ? position.currentPrice <= position.liquidationPrice
+          : position.currentPrice >= position.liquidationPrice;
+      if (!breached) continue;
+
+      const trade = this.closePosition(position.id, position.currentPrice)!;
+      trade.liquidated = true;
+      liquidated.push(trade);
+    }
+
+    return liquidated;
+  }
+
   /**
    * Update position with current price
    */
@@ -247,7 +397,7 @@ export class RiskManager {
         ? currentPrice - position.entryPrice
         : position.entryPrice - currentPrice;
 
-    position.unrealizedPnl = priceDiff * position.size;
+    position.unrealizedPnl = priceDiff * position.size - position.borrowInterest;
     this.positions.set(id, position);
 
     return position;
@@ -265,8 +415,8 @@ export class RiskManager {
         ? exitPrice - position.entryPrice
         : position.entryPrice - exitPrice;
 
-    const pnl = priceDiff * position.size;
-    const pnlPercent = priceDiff / position.entryPrice;
+    const pnl = priceDiff * position.size - position.borrowInterest;
+    const pnlPercent = pnl / (position.size * position.entryPrice);
 
     const trade: Trade = {
       id: `trade_${Date.now()}`,
@@ -286,7 +436,7 @@ export class RiskManager {
 
     // Update equity
     this.currentEquity += pnl;
-    this.equityCurve.push(this.currentEquity);
+    this.recordEquity(this.currentEquity + this.getPositions().reduce((sum, p) => sum + p.unrealizedPnl, 0));
 
     return trade;
   }
@@ -354,22 +504,30 @@ export class RiskManager {
     const positions = this.getPositions();
     const unrealizedPnl = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
     const usedMargin = positions.reduce(
-      (sum, p) => sum + p.size * p.entryPrice,
+      (sum, p) => sum + (p.size * p.entryPrice) / p.leverage,
       0
     );
+    const grossExposure = positions.reduce((sum, p) => sum + p.size * p.currentPrice, 0);
+    const borrowInterest = positions.reduce((sum, p) => sum + p.borrowInterest, 0);
     const realizedPnl = this.currentEquity - this.initialEquity;
     const dailyPnl = this.getDailyPnl();
     const dailyPnlPercent = this.getDailyPnlPercent();
 
     const returns = this.calculateReturns();
-    const drawdown = calculateDrawdown(this.equityCurve);
+    const drawdown = calculateDrawdown(this.getEquityCurve());
     const tradeStats = calculateTradeStats(this.trades);
 
+    const totalEquity = this.currentEquity + unrealizedPnl;
+
     return {
-      totalEquity: this.currentEquity + unrealizedPnl,
+      totalEquity,
       availableCapital: this.currentEquity - usedMargin,
       usedMargin,
       marginUsagePercent: usedMargin / this.currentEquity,
+      grossExposure,
+      leverage: totalEquity > 0 ? grossExposure / totalEquity : 0,
+      maintenanceMargin: grossExposure * this.limits.maintenanceMarginRate,
+      borrowInterest,
       unrealizedPnl,
       realizedPnl,
       dailyPnl,
@@ -402,50 +560,86 @@ export class RiskManager {
    * Record daily return (call at end of day)
    */
   recordDailyReturn(): void {
-    if (this.equityCurve.length < 2) {
+    const curve = this.getEquityCurve();
+    if (curve.length < 2) {
       this.dailyReturns.push(0);
       return;
     }
 
-    const prev = this.equityCurve[this.equityCurve.length - 2];
-    const curr = this.equityCurve[this.equityCurve.length - 1];
+    const prev = curve[curve.length - 2];
+    const curr = curve[curve.length - 1];
     const dailyReturn = prev > 0 ? (curr - prev) / prev : 0;
 
     this.dailyReturns.push(dailyReturn);
   }
 
+  /**
+   * Append an equity mark, e.g. from a mark-to-market run
+   */
+  recordEquity(equity: number, timestamp: Date = new Date()): void {
+    this.equityHistory.push({ timestamp, equity });
+  }
+
+  /**
+   * Replace the equity history with persisted marks so drawdown, daily PnL
+   * and return statistics reflect the account's real history
+   */
+  loadEquityHistory(points: EquityPoint[]): void {
+    if (points.length === 0) return;
+    this.equityHistory = [...points].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
   /**
    * Get equity curve
    */
   getEquityCurve(): number[] {
-    return [...this.equityCurve];
+    return this.equityHistory.map((p) => p.equity);
+  }
+
+  getEquityHistory(): EquityPoint[] {
+    return this.equityHistory.map((p) => ({ ...p }));
   }
 
   private calculateReturns(): number[] {
-    if (this.equityCurve.length < 2) return [];
+    const curve = this.getEquityCurve();
+    if (curve.length < 2) return [];
 
     const returns: number[] = [];
-    for (let i = 1; i < this.equityCurve.length; i++) {
-      const prev = this.equityCurve[i - 1];
-      const curr = this.equityCurve[i];
+    for (let i = 1; i < curve.length; i++) {
+      const prev = curve[i - 1];
+      const curr = curve[i];
       returns.push(prev > 0 ? (curr - prev) / prev : 0);
     }
     return returns;
   }
 
+  /**
+   * Change from the last mark before today (or the first mark, if the
+   * history starts today) to the latest mark
+   */
   private getDailyPnl(): number {
-    // Simplified: sum of today's closed trades
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    return this.trades
-      .filter((t) => t.closedAt >= today)
-      .reduce((sum, t) => sum + t.pnl, 0);
+    return this.getLatestEquity() - this.getDayStartEquity();
   }
 
   private getDailyPnlPercent(): number {
-    const dailyPnl = this.getDailyPnl();
-    return this.initialEquity > 0 ? dailyPnl / this.initialEquity : 0;
+    const dayStart = this.getDayStartEquity();
+    return dayStart > 0 ? this.getDailyPnl() / dayStart : 0;
+  }
+
+  private getLatestEquity(): number {
+    return this.equityHistory[this.equityHistory.length - 1].equity;
+  }
+
+  private getDayStartEquity(): number {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    let dayStart = this.equityHistory[0].equity;
+    for (const point of this.equityHistory) {
+      if (point.timestamp >= today) break;
+      dayStart = point.equity;
+    }
+    return dayStart;
   }
 }
 
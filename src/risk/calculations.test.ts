@@ -9,6 +9,8 @@ import {
   calculateRiskReward,
   calculateVaR,
   calculateCVaR,
+  normalQuantile,
+  normalPdf,
   calculateDrawdown,
   calculateSharpeRatio,
   calculateSortinoRatio,
@@ -179,6 +181,15 @@ describe('Risk Calculations', () => {
     });
   });
 
+  describe('normalQuantile', () => {
+    it('should_invert_the_standard_normal_cdf', () => {
+      expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+      expect(normalQuantile(0.95)).toBeCloseTo(1.644854, 5);
+      expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+      expect(normalPdf(0)).toBeCloseTo(0.398942, 5);
+    });
+  });
+
   describe('calculateDrawdown', () => {
     it('should_calculate_max_drawdown', () => {
       const equity = [100, 110, 105, 90, 95, 100, 80, 90, 100];
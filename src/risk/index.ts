@@ -4,3 +4,7 @@
 
 export * from './calculations';
 export * from './RiskManager';
+export * from './PreTradeRiskGate';
+export * from './PortfolioCorrelationService';
+export * from './PortfolioVaRService';
+export * from './KillSwitchService';
@@ -0,0 +1,124 @@
+/**
+ * RuleStrategyService Tests
+ * Tests for validating and evaluating custom strategy rules
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RuleStrategyService, RuleStrategyDefinition } from './RuleStrategyService';
+import type { OHLCV } from '../backtesting/BacktestService';
+
+function candles(closes: number[]): OHLCV[] {
+  return closes.map((close, i) => ({
+    timestamp: 1000 * (i + 1),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+}
+
+describe('RuleStrategyService', () => {
+  let service: RuleStrategyService;
+
+  const close = { indicator: 'price' as const, field: 'close' };
+
+  const crossRules: RuleStrategyDefinition = {
+    entry: { long: { cross: 'above', left: close, right: { indicator: 'sma', period: 3 } } },
+    exit: { long: { cross: 'below', left: close, right: { indicator: 'sma', period: 3 } } },
+    stop: { stopLossPercent: 5, takeProfitPercent: 10 },
+  };
+
+  beforeEach(() => {
+    service = new RuleStrategyService();
+  });
+
+  describe('validate', () => {
+    it('should_accept_nested_groups_and_all_indicators', () => {
+      const rules = {
+        entry: {
+          long: {
+            all: [
+              { left: { indicator: 'rsi', period: 14 }, op: '<', right: 30 },
+              {
+                any: [
+                  { left: close, op: '<=', right: { indicator: 'bollinger', period: 20, stdDev: 2, field: 'lower' } },
+                  { left: { indicator: 'macd', field: 'histogram' }, op: '>', right: 0 },
+                ],
+              },
+              { cross: 'above', left: { indicator: 'ema', period: 12 }, right: { indicator: 'sma', period: 26 } },
+            ],
+          },
+        },
+      };
+
+      expect(service.validate(rules)).toBe(rules);
+    });
+
+    it('should_require_an_entry_clause', () => {
+      expect(() => service.validate({ exit: { long: { left: 1, op: '>', right: 0 } } }))
+        .toThrow('Invalid custom strategy rules: entry must define a long or short condition');
+    });
+
+    it('should_report_the_path_of_invalid_operands', () => {
+      expect(() => service.validate({
+        entry: { short: { all: [{ left: close, op: '>', right: { indicator: 'macd', field: 'slope' } }] } },
+      })).toThrow('entry.short.all[0].right.field must be one of macd, signal, histogram');
+    });
+
+    it('should_reject_unknown_operators_and_bad_periods', () => {
+      expect(() => service.validate({ entry: { long: { left: close, op: '!=', right: 1 } } }))
+        .toThrow('entry.long.op');
+      expect(() => service.validate({ entry: { long: { left: { indicator: 'sma', period: 1 }, op: '>', right: 1 } } }))
+        .toThrow('entry.long.left.period must be an integer between 2 and 500');
+    });
+
+    it('should_validate_stop_clause', () => {
+      expect(() => service.validate({ ...crossRules, stop: { stopLossPercent: -1 } }))
+        .toThrow('stop.stopLossPercent must be a number between 0 and 100');
+    });
+  });
+
+  describe('generateSignals', () => {
+    it('should_enter_on_crossover_and_exit_on_crossunder', () => {
+      const data = candles([10, 9, 8, 9, 11, 12, 11, 9, 8]);
+
+      const signals = service.generateSignals(data, crossRules);
+
+      expect(signals.map(s => [s.timestamp, s.type, s.side])).toEqual([
+        [4000, 'entry', 'long'],
+        [7000, 'exit', 'long'],
+      ]);
+    });
+
+    it('should_not_fire_before_indicators_have_history', () => {
+      const signals = service.generateSignals(candles([10, 20]), {
+        entry: { long: { left: { indicator: 'rsi', period: 14 }, op: '>', right: 0 } },
+      });
+
+      expect(signals).toEqual([]);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should_signal_entry_with_stop_levels', () => {
+      const result = service.evaluate(crossRules, candles([10, 9, 8, 9]));
+
+      expect(result).toMatchObject({ action: 'enter', side: 'long', reason: 'entry_rule', price: 9 });
+      expect(result.stopLossPrice).toBeCloseTo(8.55, 10);
+      expect(result.takeProfitPrice).toBeCloseTo(9.9, 10);
+    });
+
+    it('should_exit_on_stop_before_exit_rule', () => {
+      const result = service.evaluate(crossRules, candles([10, 11, 12, 9]), { side: 'long', entryPrice: 10 });
+
+      expect(result).toMatchObject({ action: 'exit', reason: 'stop_loss' });
+    });
+
+    it('should_hold_an_open_position_without_a_match', () => {
+      const result = service.evaluate(crossRules, candles([10, 11, 12, 13]), { side: 'long', entryPrice: 12.5 });
+
+      expect(result).toMatchObject({ action: 'hold', side: 'long', reason: 'no_match' });
+    });
+  });
+});
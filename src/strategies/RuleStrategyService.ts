@@ -0,0 +1,445 @@
+/**
+ * RuleStrategyService - Declarative Custom Strategy Rules
+ * Validates and evaluates the JSON rule language used by 'custom'
+ * strategies, for both backtests and live signal evaluation.
+ */
+
+import { AIAnalysisService } from '../ai/AIAnalysisService';
+import type { OHLCV, Signal } from '../backtesting/BacktestService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RuleIndicator = 'price' | 'sma' | 'ema' | 'rsi' | 'macd' | 'bollinger';
+
+export interface IndicatorOperand {
+  indicator: RuleIndicator;
+  period?: number; // sma, ema, rsi, bollinger
+  stdDev?: number; // bollinger
+  field?: string; // price: open|high|low|close|volume, macd: macd|signal|histogram, bollinger: upper|middle|lower
+}
+
+export type RuleOperand = number | IndicatorOperand;
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==';
+
+export interface ComparisonCondition {
+  left: RuleOperand;
+  op: ComparisonOperator;
+  right: RuleOperand;
+}
+
+export interface CrossCondition {
+  cross: 'above' | 'below';
+  left: RuleOperand;
+  right: RuleOperand;
+}
+
+export interface AllCondition {
+  all: RuleCondition[];
+}
+
+export interface AnyCondition {
+  any: RuleCondition[];
+}
+
+export type RuleCondition = ComparisonCondition | CrossCondition | AllCondition | AnyCondition;
+
+export interface RuleSideClauses {
+  long?: RuleCondition;
+  short?: RuleCondition;
+}
+
+export interface RuleStopClause {
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+/**
+ * Stored under `config.rules` on custom strategies.
+ */
+export interface RuleStrategyDefinition {
+  entry: RuleSideClauses;
+  exit?: RuleSideClauses;
+  stop?: RuleStopClause;
+}
+
+export interface RulePosition {
+  side: 'long' | 'short';
+  entryPrice: number;
+}
+
+export interface RuleEvaluation {
+  action: 'enter' | 'exit' | 'hold';
+  side?: 'long' | 'short';
+  reason: 'entry_rule' | 'exit_rule' | 'stop_loss' | 'take_profit' | 'no_match';
+  timestamp: number;
+  price: number;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const INDICATOR_FIELDS: Record<RuleIndicator, string[]> = {
+  price: ['open', 'high', 'low', 'close', 'volume'],
+  sma: [],
+  ema: [],
+  rsi: [],
+  macd: ['macd', 'signal', 'histogram'],
+  bollinger: ['upper', 'middle', 'lower'],
+};
+
+const DEFAULT_PERIODS: Partial<Record<RuleIndicator, number>> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  bollinger: 20,
+};
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=', '=='];
+const MAX_PERIOD = 500;
+const MAX_DEPTH = 8;
+
+// ============================================================================
+// RuleStrategyService Implementation
+// ============================================================================
+
+export class RuleStrategyService {
+  private analysis: AIAnalysisService;
+
+  constructor(options: { analysisService?: AIAnalysisService } = {}) {
+    this.analysis = options.analysisService || new AIAnalysisService();
+  }
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  /**
+   * Validate a rule definition, throwing with the path of the first
+   * problem found (e.g. "entry.long.all[1].left").
+   */
+  validate(definition: unknown): RuleStrategyDefinition {
+    if (!isObject(definition)) {
+      throw invalid('rules', 'must be an object');
+    }
+
+    const { entry, exit, stop } = definition as Record<string, unknown>;
+
+    if (!isObject(entry) || (entry.long === undefined && entry.short === undefined)) {
+      throw invalid('entry', 'must define a long or short condition');
+    }
+    this.validateSides(entry, 'entry');
+
+    if (exit !== undefined) {
+      if (!isObject(exit)) {
+        throw invalid('exit', 'must be an object');
+      }
+      this.validateSides(exit, 'exit');
+    }
+
+    if (stop !== undefined) {
+      if (!isObject(stop)) {
+        throw invalid('stop', 'must be an object');
+      }
+      for (const key of ['stopLossPercent', 'takeProfitPercent']) {
+        const value = stop[key];
+        if (value !== undefined && (typeof value !== 'number' || !(value > 0) || value > 100)) {
+          throw invalid(`stop.${key}`, 'must be a number between 0 and 100');
+        }
+      }
+    }
+
+    return definition as unknown as RuleStrategyDefinition;
+  }
+
+  private validateSides(clauses: Record<string, unknown>, path: string): void {
+    for (const key of Object.keys(clauses)) {
+      if (key !== 'long' && key !== 'short') {
+        throw invalid(`${path}.${key}`, 'unknown side; use long or short');
+      }
+      this.validateCondition(clauses[key], `${path}.${key}`, 1);
+    }
+  }
+
+  private validateCondition(condition: unknown, path: string, depth: number): void {
+    if (depth > MAX_DEPTH) {
+      throw invalid(path, `nesting exceeds ${MAX_DEPTH} levels`);
+    }
+    if (!isObject(condition)) {
+      throw invalid(path, 'must be a condition object');
+    }
+
+    if ('all' in condition || 'any' in condition) {
+      const key = 'all' in condition ? 'all' : 'any';
+      const children = condition[key];
+      if (!Array.isArray(children) || children.length === 0) {
+        throw invalid(`${path}.${key}`, 'must be a non-empty array');
+      }
+      children.forEach((child, i) => this.validateCondition(child, `${path}.${key}[${i}]`, depth + 1));
+      return;
+    }
+
+    if ('cross' in condition) {
+      if (condition.cross !== 'above' && condition.cross !== 'below') {
+        throw invalid(`${path}.cross`, 'must be above or below');
+      }
+    } else if (!COMPARISON_OPERATORS.includes(condition.op as ComparisonOperator)) {
+      throw invalid(`${path}.op`, `must be one of ${COMPARISON_OPERATORS.join(' ')}`);
+    }
+
+    this.validateOperand(condition.left, `${path}.left`);
+    this.validateOperand(condition.right, `${path}.right`);
+  }
+
+  private validateOperand(operand: unknown, path: string): void {
+    if (typeof operand === 'number') {
+      if (!Number.isFinite(operand)) {
+        throw invalid(path, 'must be a finite number');
+      }
+      return;
+    }
+    if (!isObject(operand)) {
+      throw invalid(path, 'must be a number or an indicator');
+    }
+
+    const indicator = operand.indicator as RuleIndicator;
+    if (!(indicator in INDICATOR_FIELDS)) {
+      throw invalid(`${path}.indicator`, `unknown indicator '${String(operand.indicator)}'`);
+    }
+
+    const fields = INDICATOR_FIELDS[indicator];
+    if (fields.length > 0 && !fields.includes(operand.field as string)) {
+      throw invalid(`${path}.field`, `must be one of ${fields.join(', ')}`);
+    }
+
+    if (operand.period !== undefined) {
+      if (!(indicator in DEFAULT_PERIODS)) {
+        throw invalid(`${path}.period`, `not supported for ${indicator}`);
+      }
+      const period = operand.period;
+      if (typeof period !== 'number' || !Number.isInteger(period) || period < 2 || period > MAX_PERIOD) {
+        throw invalid(`${path}.period`, `must be an integer between 2 and ${MAX_PERIOD}`);
+      }
+    }
+
+    if (operand.stdDev !== undefined && (indicator !== 'bollinger' || typeof operand.stdDev !== 'number' || !(operand.stdDev > 0))) {
+      throw invalid(`${path}.stdDev`, 'must be a positive number on bollinger');
+    }
+  }
+
+  // ============================================================================
+  // Evaluation
+  // ============================================================================
+
+  /**
+   * Backtest signals: walk the candles once, entering when an entry rule
+   * matches while flat and exiting when the open side's exit rule matches.
+   */
+  generateSignals(data: OHLCV[], definition: RuleStrategyDefinition): Signal[] {
+    const rules = this.validate(definition);
+    const context = this.createContext(data);
+    const signals: Signal[] = [];
+    let side: 'long' | 'short' | null = null;
+
+    for (let i = 1; i < data.length; i++) {
+      if (side) {
+        const exit = rules.exit?.[side];
+        if (exit && this.test(exit, context, i)) {
+          signals.push({ timestamp: data[i].timestamp, type: 'exit', side, price: data[i].close });
+          side = null;
+        }
+        continue;
+      }
+
+      const entrySide = this.matchEntry(rules, context, i);
+      if (entrySide) {
+        signals.push({ timestamp: data[i].timestamp, type: 'entry', side: entrySide, price: data[i].close });
+        side = entrySide;
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Live evaluation on the latest closed candle. With an open position the
+   * stop clause is checked before the exit rule.
+   */
+  evaluate(definition: RuleStrategyDefinition, data: OHLCV[], position: RulePosition | null = null): RuleEvaluation {
+    const rules = this.validate(definition);
+    if (data.length < 2) {
+      throw new Error('At least two candles are required to evaluate rules');
+    }
+
+    const context = this.createContext(data);
+    const i = data.length - 1;
+    const last = data[i];
+    const base = { timestamp: last.timestamp, price: last.close };
+
+    if (position) {
+      const levels = this.stopLevels(rules, position.entryPrice, position.side);
+      const isLong = position.side === 'long';
+
+      if (levels.stopLossPrice !== undefined && (isLong ? last.close <= levels.stopLossPrice : last.close >= levels.stopLossPrice)) {
+        return { ...base, ...levels, action: 'exit', side: position.side, reason: 'stop_loss' };
+      }
+      if (levels.takeProfitPrice !== undefined && (isLong ? last.close >= levels.takeProfitPrice : last.close <= levels.takeProfitPrice)) {
+        return { ...base, ...levels, action: 'exit', side: position.side, reason: 'take_profit' };
+      }
+
+      const exit = rules.exit?.[position.side];
+      if (exit && this.test(exit, context, i)) {
+        return { ...base, ...levels, action: 'exit', side: position.side, reason: 'exit_rule' };
+      }
+      return { ...base, ...levels, action: 'hold', side: position.side, reason: 'no_match' };
+    }
+
+    const side = this.matchEntry(rules, context, i);
+    if (side) {
+      return { ...base, ...this.stopLevels(rules, last.close, side), action: 'enter', side, reason: 'entry_rule' };
+    }
+    return { ...base, action: 'hold', reason: 'no_match' };
+  }
+
+  private matchEntry(rules: RuleStrategyDefinition, context: EvaluationContext, i: number): 'long' | 'short' | null {
+    if (rules.entry.long && this.test(rules.entry.long, context, i)) return 'long';
+    if (rules.entry.short && this.test(rules.entry.short, context, i)) return 'short';
+    return null;
+  }
+
+  private stopLevels(
+    rules: RuleStrategyDefinition,
+    entryPrice: number,
+    side: 'long' | 'short'
+  ): Pick<RuleEvaluation, 'stopLossPrice' | 'takeProfitPrice'> {
+    const direction = side === 'long' ? 1 : -1;
+    const levels: Pick<RuleEvaluation, 'stopLossPrice' | 'takeProfitPrice'> = {};
+
+    if (rules.stop?.stopLossPercent) {
+      levels.stopLossPrice = entryPrice * (1 - direction * rules.stop.stopLossPercent / 100);
+    }
+    if (rules.stop?.takeProfitPercent) {
+      levels.takeProfitPrice = entryPrice * (1 + direction * rules.stop.takeProfitPercent / 100);
+    }
+    return levels;
+  }
+
+  private test(condition: RuleCondition, context: EvaluationContext, i: number): boolean {
+    if ('all' in condition) {
+      return condition.all.every(child => this.test(child, context, i));
+    }
+    if ('any' in condition) {
+      return condition.any.some(child => this.test(child, context, i));
+    }
+
+    const left = this.resolve(condition.left, context);
+    const right = this.resolve(condition.right, context);
+
+    if ('cross' in condition) {
+      if (i < 1) return false;
+      const [prevLeft, prevRight, currLeft, currRight] = [left[i - 1], right[i - 1], left[i], right[i]];
+      if ([prevLeft, prevRight, currLeft, currRight].some(Number.isNaN)) return false;
+      return condition.cross === 'above'
+        ? prevLeft <= prevRight && currLeft > currRight
+        : prevLeft >= prevRight && currLeft < currRight;
+    }
+
+    const [a, b] = [left[i], right[i]];
+    if (Number.isNaN(a) || Number.isNaN(b)) return false;
+
+    switch (condition.op) {
+      case '>': return a > b;
+      case '>=': return a >= b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '==': return a === b;
+    }
+  }
+
+  // ============================================================================
+  // Indicator Series
+  // ============================================================================
+
+  private createContext(data: OHLCV[]): EvaluationContext {
+    return { data, closes: data.map(bar => bar.close), cache: new Map() };
+  }
+
+  /**
+   * Per-bar series for an operand, NaN where there is not yet enough
+   * history. Series are cached per evaluation so shared operands are
+   * computed once.
+   */
+  private resolve(operand: RuleOperand, context: EvaluationContext): number[] {
+    if (typeof operand === 'number') {
+      return context.data.map(() => operand);
+    }
+
+    const key = JSON.stringify([operand.indicator, operand.period, operand.stdDev, operand.field]);
+    const cached = context.cache.get(key);
+    if (cached) return cached;
+
+    const series = this.computeSeries(operand, context);
+    context.cache.set(key, series);
+    return series;
+  }
+
+  private computeSeries(operand: IndicatorOperand, context: EvaluationContext): number[] {
+    const { data, closes } = context;
+    const period = operand.period ?? DEFAULT_PERIODS[operand.indicator] ?? 0;
+
+    switch (operand.indicator) {
+      case 'price':
+        return data.map(bar => bar[operand.field as keyof Omit<OHLCV, 'timestamp'>]);
+
+      case 'sma':
+      case 'ema': {
+        const values = operand.indicator === 'sma'
+          ? this.analysis.calculateSMA(closes, period)
+          : this.analysis.calculateEMA(closes, period);
+        // Both series start at index period - 1 of the input
+        return closes.map((_, i) => (i >= period - 1 ? values[i - period + 1] : NaN));
+      }
+
+      case 'rsi':
+        return closes.map((_, i) => (i >= period ? this.analysis.calculateRSI(closes.slice(0, i + 1), period) : NaN));
+
+      case 'macd':
+        // MACD needs the 26-period EMA before it means anything
+        return closes.map((_, i) => {
+          if (i < 25) return NaN;
+          const macd = this.analysis.calculateMACD(closes.slice(0, i + 1));
+          return macd[operand.field as keyof typeof macd];
+        });
+
+      case 'bollinger':
+        return closes.map((_, i) => {
+          if (i < period - 1) return NaN;
+          const bands = this.analysis.calculateBollingerBands(closes.slice(0, i + 1), period, operand.stdDev ?? 2);
+          return bands[operand.field as keyof typeof bands];
+        });
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface EvaluationContext {
+  data: OHLCV[];
+  closes: number[];
+  cache: Map<string, number[]>;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, problem: string): Error {
+  return new Error(`Invalid custom strategy rules: ${path} ${problem}`);
+}
@@ -614,6 +614,47 @@ describe('StrategyService', () => {
         })
       ).rejects.toThrow('Stop loss must be between 0 and 100');
     });
+
+    it('should_accept_valid_custom_rules', async () => {
+      const strategy = await strategyService.createStrategy({
+        userId,
+        name: 'RSI Dip',
+        type: 'custom',
+        config: {
+          symbols: ['BTC/USDT'],
+          rules: {
+            entry: { long: { left: { indicator: 'rsi', period: 14 }, op: '<', right: 30 } },
+            exit: { long: { left: { indicator: 'rsi', period: 14 }, op: '>', right: 55 } },
+          },
+        },
+      });
+
+      expect(strategy.type).toBe('custom');
+      expect(strategy.config.rules.entry.long.op).toBe('<');
+    });
+
+    it('should_validate_custom_rules', async () => {
+      await expect(
+        strategyService.createStrategy({
+          userId,
+          name: 'No Rules',
+          type: 'custom',
+          config: { symbols: ['BTC/USDT'] },
+        })
+      ).rejects.toThrow('Custom strategies require a rules definition');
+
+      await expect(
+        strategyService.createStrategy({
+          userId,
+          name: 'Bad Rules',
+          type: 'custom',
+          config: {
+            symbols: ['BTC/USDT'],
+            rules: { entry: { long: { cross: 'sideways', left: 1, right: 2 } } },
+          },
+        })
+      ).rejects.toThrow('entry.long.cross must be above or below');
+    });
   });
 
   // ============================================================================
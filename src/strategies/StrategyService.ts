@@ -5,6 +5,7 @@
 
 import { Strategy, StrategyType, StrategyStatus, StrategyExecutionMode, CreateStrategyInput } from '../database/types';
 import { ConfigService } from '../config/ConfigService';
+import { RuleStrategyService } from './RuleStrategyService';
 
 // ============================================================================
 // Types
@@ -72,6 +73,7 @@ const VALID_TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h
 export class StrategyService {
   private db: any;
   private configService: ConfigService;
+  private ruleStrategyService = new RuleStrategyService();
 
   constructor(options: StrategyServiceOptions) {
     this.db = options.db;
@@ -182,6 +184,9 @@ export class StrategyService {
       case 'trend_following':
         this.validateTrendFollowingConfig(config);
         break;
+      case 'custom':
+        this.validateCustomConfig(config);
+        break;
     }
 
     return config;
@@ -230,6 +235,13 @@ export class StrategyService {
     }
   }
 
+  private validateCustomConfig(config: Record<string, any>): void {
+    if (config.rules === undefined) {
+      throw new Error('Custom strategies require a rules definition');
+    }
+    this.ruleStrategyService.validate(config.rules);
+  }
+
   private applyDefaultRiskParams(config: Record<string, any>): Record<string, any> {
     const defaults = this.configService.getDefaultTradingConfig();
 
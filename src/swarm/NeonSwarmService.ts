@@ -1,19 +1,29 @@
 import type { NeonDatabase } from '../database/NeonDatabase';
+import type { NeonPreTradeRiskService } from '../risk/NeonPreTradeRiskService';
+import type { PreTradeDecision } from '../risk/PreTradeRiskGate';
 import {
   SwarmCoordinator,
   Agent,
   AgentContext,
   AgentAction,
+  CoordinatedDecision,
 } from './SwarmCoordinator';
 
+export interface SwarmPreview extends CoordinatedDecision {
+  // Proposed orders the pre-trade risk gate would reject, with its explanation
+  rejected: { action: AgentAction; riskCheck: PreTradeDecision }[];
+}
+
 export class NeonSwarmService {
   private db: NeonDatabase;
+  private risk: NeonPreTradeRiskService | null;
 
-  constructor(db: NeonDatabase) {
+  constructor(db: NeonDatabase, risk: NeonPreTradeRiskService | null = null) {
     this.db = db;
+    this.risk = risk;
   }
 
-  async preview(userId: string, mode: 'paper' | 'live' = 'paper') {
+  async preview(userId: string, mode: 'paper' | 'live' = 'paper', tier = 'free'): Promise<SwarmPreview> {
     const coordinator = new SwarmCoordinator();
 
     // Strategy agent: proposes a single trade idea based on the user's
@@ -75,7 +85,55 @@ export class NeonSwarmService {
       portfolioValue: undefined,
     };
 
-    return coordinator.coordinate(context);
+    const decision = await coordinator.coordinate(context);
+    return this.applyRiskGate(decision, userId, mode, tier);
+  }
+
+  /**
+   * Proposed orders go through the same pre-trade risk pipeline as placed
+   * orders; rejected proposals are moved out of the actions list.
+   */
+  private async applyRiskGate(
+    decision: CoordinatedDecision,
+    userId: string,
+    mode: 'paper' | 'live',
+    tier: string,
+  ): Promise<SwarmPreview> {
+    if (!this.risk) {
+      return { ...decision, rejected: [] };
+    }
+
+    const actions: AgentAction[] = [];
+    const rejected: SwarmPreview['rejected'] = [];
+
+    for (const action of decision.actions) {
+      if (action.type !== 'order' || !action.symbol || !action.side || !action.size) {
+        actions.push(action);
+        continue;
+      }
+
+      const riskCheck = await this.risk.evaluate(
+        {
+          userId,
+          source: 'swarm',
+          mode,
+          symbol: action.symbol,
+          side: action.side,
+          type: 'market',
+          quantity: action.size,
+        },
+        tier,
+        { dryRun: true },
+      );
+
+      if (riskCheck.allowed) {
+        actions.push(action);
+      } else {
+        rejected.push({ action, riskCheck });
+      }
+    }
+
+    return { ...decision, actions, rejected };
   }
 }
 
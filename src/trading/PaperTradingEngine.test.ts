@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { PaperTradingEngine } from './PaperTradingEngine';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { PaperTradingEngine, MarketDataSource, getMaxMarginLeverage } from './PaperTradingEngine';
+import type { OrderBook } from '../exchanges/ExchangeService';
+import { PreTradeRiskGate } from '../risk/PreTradeRiskGate';
 
 describe('PaperTradingEngine', () => {
   let engine: PaperTradingEngine;
@@ -346,4 +348,416 @@ describe('PaperTradingEngine', () => {
       expect(trades[0].timestamp).toBeDefined();
     });
   });
+
+  describe('Conditional and Linked Orders', () => {
+    beforeEach(() => {
+      engine = new PaperTradingEngine({ initialBalance: { USDT: 100000, BTC: 1 } });
+      engine.setMockPrice('BTC/USDT', 50000);
+    });
+
+    it('should_trigger_stop_loss_without_reserving_funds', async () => {
+      const stop = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'sell', type: 'stop_loss', quantity: 0.5, stopPrice: 48000,
+      });
+      expect(engine.getBalances().BTC).toEqual({ available: 1, locked: 0 });
+
+      engine.setMockPrice('BTC/USDT', 47500);
+      await engine.processPendingOrders();
+
+      expect(stop.status).toBe('filled');
+      expect(stop.averagePrice).toBe(47500);
+      expect(engine.getBalances().USDT.available).toBe(100000 + 0.5 * 47500);
+    });
+
+    it('should_ratchet_a_trailing_stop_and_reject_when_funds_are_gone', async () => {
+      const stop = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'sell', type: 'trailing_stop', quantity: 2, trailingOffset: 1000, trailingOffsetType: 'absolute',
+      });
+
+      await engine.processPendingOrders();
+      engine.setMockPrice('BTC/USDT', 53000);
+      await engine.processPendingOrders();
+      expect(stop.stopPrice).toBe(52000);
+
+      engine.setMockPrice('BTC/USDT', 51900);
+      await engine.processPendingOrders();
+      expect(stop.status).toBe('rejected'); // Only 1 BTC held
+    });
+
+    it('should_release_the_limit_leg_when_the_oco_stop_triggers', async () => {
+      const [target, stop] = await engine.createOcoOrder({
+        symbol: 'BTC/USDT',
+        side: 'sell',
+        quantity: 1,
+        legs: [
+          { type: 'limit', price: 55000 },
+          { type: 'stop_loss', stopPrice: 45000 },
+        ],
+      });
+      expect(engine.getBalances().BTC.locked).toBe(1);
+
+      engine.setMockPrice('BTC/USDT', 44000);
+      await engine.processPendingOrders();
+
+      expect(target.status).toBe('cancelled');
+      expect(stop.status).toBe('filled');
+      expect(engine.getBalances().BTC).toEqual({ available: 0, locked: 0 });
+      expect(engine.getBalances().USDT.available).toBe(144000);
+    });
+
+    it('should_arm_bracket_exits_once_the_entry_fills', async () => {
+      const { entry, stopLoss, takeProfit } = await engine.createBracketOrder({
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        type: 'limit',
+        quantity: 0.1,
+        price: 49000,
+        stopLoss: { stopPrice: 47000 },
+        takeProfit: { price: 53000 },
+      });
+      expect(stopLoss.parentOrderId).toBe(entry.id);
+
+      // Trades through the target before the entry fills: nothing happens
+      engine.setMockPrice('BTC/USDT', 53500);
+      await engine.processPendingOrders();
+      expect(takeProfit.status).toBe('pending');
+
+      engine.setMockPrice('BTC/USDT', 48500);
+      await engine.processPendingOrders();
+      expect(entry.status).toBe('filled');
+      expect(stopLoss.status).toBe('pending');
+
+      engine.setMockPrice('BTC/USDT', 53500);
+      await engine.processPendingOrders();
+      expect(takeProfit.status).toBe('filled');
+      expect(stopLoss.status).toBe('cancelled');
+      expect(engine.getOpenOrders()).toHaveLength(0);
+    });
+
+    it('should_cancel_bracket_exits_with_the_entry', async () => {
+      const { entry, stopLoss, takeProfit } = await engine.createBracketOrder({
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        type: 'limit',
+        quantity: 0.1,
+        price: 45000,
+        stopLoss: { trailingOffset: 3 },
+        takeProfit: { price: 53000 },
+      });
+
+      await engine.cancelOrder(entry.id);
+
+      expect([stopLoss.status, takeProfit.status]).toEqual(['cancelled', 'cancelled']);
+      expect(engine.getBalances().USDT).toEqual({ available: 100000, locked: 0 });
+    });
+
+    it('should_modify_limit_orders_and_carry_quantity_to_exits', async () => {
+      const { entry, stopLoss } = await engine.createBracketOrder({
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        type: 'limit',
+        quantity: 0.1,
+        price: 45000,
+        stopLoss: { stopPrice: 44000 },
+        takeProfit: { price: 53000 },
+      });
+
+      await engine.modifyOrder(entry.id, { price: 46000, quantity: 0.2 });
+
+      expect(engine.getBalances().USDT.locked).toBe(9200);
+      expect(stopLoss.quantity).toBe(0.2);
+      await expect(engine.modifyOrder(entry.id, { quantity: 10 })).rejects.toThrow('Insufficient USDT balance');
+      expect(engine.getBalances().USDT.locked).toBe(9200);
+    });
+  });
+
+  describe('Time in Force', () => {
+    beforeEach(() => {
+      engine.setMockPrice('BTC/USDT', 50000);
+    });
+
+    it('should_expire_immediate_limit_orders_that_cannot_fill', async () => {
+      const ioc = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 49000, timeInForce: 'IOC',
+      });
+      const fok = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 50000, timeInForce: 'FOK',
+      });
+
+      expect(ioc.status).toBe('expired');
+      expect(fok.status).toBe('filled');
+      expect(engine.getOpenOrders()).toHaveLength(0);
+      expect(engine.getBalances().USDT.locked).toBe(0);
+    });
+
+    it('should_expire_resting_orders_and_release_their_locks', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      const gtd = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 40000, timeInForce: 'GTD', expiresAt,
+      });
+      const gtc = await engine.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 40000 });
+
+      expect(engine.expireOrders()).toHaveLength(0);
+      expect(engine.expireOrders(new Date(expiresAt.getTime() + 1)).map(o => o.id)).toEqual([gtd.id]);
+
+      expect(gtd.status).toBe('expired');
+      expect(gtc.status).toBe('pending');
+      expect(engine.getBalances().USDT).toEqual({ available: 96000, locked: 4000 });
+    });
+  });
+
+  describe('Order Book Fill Model', () => {
+    let book: OrderBook;
+    let marketData: MarketDataSource;
+
+    beforeEach(() => {
+      book = {
+        symbol: 'BTC/USDT',
+        bids: [
+          { price: 49990, quantity: 0.5 },
+          { price: 49900, quantity: 1 },
+        ],
+        asks: [
+          { price: 50010, quantity: 0.5 },
+          { price: 50100, quantity: 0.5 },
+        ],
+        timestamp: Date.now(),
+      };
+      marketData = {
+        getOrderBook: vi.fn(async () => book),
+        getTradingFees: vi.fn(async () => ({ maker: 0.001, taker: 0.002 })),
+      };
+      engine = new PaperTradingEngine({
+        initialBalance: { USDT: 100000, BTC: 1 },
+        fillModel: { marketData },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_fill_market_buy_at_volume_weighted_price_with_taker_fee', async () => {
+      const order = await engine.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.8 });
+
+      const notional = 0.5 * 50010 + 0.3 * 50100;
+      expect(order.status).toBe('filled');
+      expect(order.averagePrice).toBeCloseTo(notional / 0.8, 6);
+      expect(order.fee).toBeCloseTo(notional * 0.002, 6);
+      expect(engine.getTrades().map(t => t.price)).toEqual([50010, 50100]);
+
+      const balances = engine.getBalances();
+      expect(balances.USDT.available).toBeCloseTo(100000 - notional * 1.002, 6);
+      expect(balances.USDT.locked).toBeCloseTo(0, 6);
+      expect(balances.BTC.available).toBeCloseTo(1.8, 10);
+    });
+
+    it('should_cancel_the_market_remainder_when_the_book_is_too_thin', async () => {
+      const order = await engine.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 2 });
+
+      expect(order.status).toBe('cancelled');
+      expect(order.filledQuantity).toBe(1);
+      expect(engine.getOpenOrders()).toHaveLength(0);
+      expect(engine.getBalances().USDT.locked).toBeCloseTo(0, 6);
+    });
+
+    it('should_reject_market_orders_against_an_empty_book', async () => {
+      book.asks = [];
+
+      await expect(
+        engine.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.1 })
+      ).rejects.toThrow('No liquidity available for BTC/USDT');
+      expect(engine.getBalances().USDT.available).toBe(100000);
+    });
+
+    it('should_partially_fill_limit_orders_and_rest_the_remainder', async () => {
+      const order = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 1, price: 50050,
+      });
+
+      expect(order.status).toBe('partially_filled');
+      expect(order.filledQuantity).toBe(0.5);
+      expect(engine.getOpenOrders()).toHaveLength(1);
+      expect(engine.getBalances().USDT.locked).toBeCloseTo(0.5 * 50050 * 1.001, 6);
+
+      // The ask drops through the limit: the resting half fills as maker at its own price
+      book.asks = [{ price: 50000, quantity: 2 }];
+      await engine.processPendingOrders();
+
+      expect(order.status).toBe('filled');
+      expect(order.averagePrice).toBeCloseTo((0.5 * 50010 + 0.5 * 50050) / 1, 6);
+      expect(engine.getTrades()[1].fee).toBeCloseTo(0.5 * 50050 * 0.001, 6);
+      expect(engine.getBalances().USDT.locked).toBeCloseTo(0, 6);
+    });
+
+    it('should_release_only_the_unfilled_remainder_on_cancel', async () => {
+      const order = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 1, price: 50050,
+      });
+
+      await engine.cancelOrder(order.id);
+
+      const balances = engine.getBalances();
+      expect(order.status).toBe('cancelled');
+      expect(balances.USDT.locked).toBeCloseTo(0, 6);
+      expect(balances.USDT.available).toBeCloseTo(100000 - 0.5 * 50010 * 1.002, 6);
+    });
+
+    it('should_snapshot_the_book_after_the_configured_latency', async () => {
+      vi.useFakeTimers();
+      engine = new PaperTradingEngine({
+        initialBalance: { USDT: 100000 },
+        fillModel: { marketData, latencyMs: 250 },
+      });
+
+      const pending = engine.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.1 });
+      await vi.advanceTimersByTimeAsync(200);
+      expect(marketData.getOrderBook).not.toHaveBeenCalled();
+
+      // The book moves while the order is in flight
+      book.asks = [{ price: 51000, quantity: 1 }];
+      await vi.advanceTimersByTimeAsync(50);
+
+      const order = await pending;
+      expect(order.averagePrice).toBe(51000);
+      expect(engine.getPrice('BTC/USDT')).toBe((49990 + 51000) / 2);
+    });
+
+    it('should_fill_or_kill_against_depth_and_never_rest_ioc_remainders', async () => {
+      const fok = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 1, price: 50050, timeInForce: 'FOK',
+      });
+      expect(fok.status).toBe('expired');
+      expect(fok.filledQuantity).toBe(0);
+
+      const ioc = await engine.createOrder({
+        symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 1, price: 50050, timeInForce: 'IOC',
+      });
+      expect(ioc.status).toBe('expired');
+      expect(ioc.filledQuantity).toBe(0.5);
+      expect(engine.getOpenOrders()).toHaveLength(0);
+      expect(engine.getBalances().USDT.locked).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('Margin Accounts', () => {
+    let margin: PaperTradingEngine;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      margin = new PaperTradingEngine({
+        initialBalance: { USDT: 10000 },
+        margin: { maxLeverage: 3, maintenanceMarginRate: 0.1, borrowRates: { BTC: 0.05 } }
+      });
+      margin.setMockPrice('BTC/USDT', 50000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should_short_by_borrowing_and_repay_when_covering', async () => {
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.2 });
+
+      expect(margin.getPositions()['BTC']).toMatchObject({ side: 'short', quantity: 0.2, averageEntryPrice: 50000 });
+      expect(margin.getMarginAccount()).toMatchObject({
+        totalAssets: 20000,
+        totalLiabilities: 10000,
+        equity: 10000,
+        leverage: 2,
+        borrowed: { BTC: 0.2 },
+      });
+
+      margin.setMockPrice('BTC/USDT', 45000);
+      expect(margin.getPositions()['BTC'].unrealizedPnl).toBeCloseTo(1000);
+
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.2 });
+
+      expect(margin.getPositions()['BTC']).toBeUndefined();
+      expect(margin.getMarginAccount()!.borrowed).toEqual({});
+      expect(margin.getBalances().USDT.available).toBeCloseTo(11000);
+      expect(margin.getPortfolioValue()).toBeCloseTo(11000);
+    });
+
+    it('should_lever_longs_up_to_the_leverage_limit', async () => {
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.5 });
+
+      expect(margin.getMarginAccount()).toMatchObject({ borrowed: { USDT: 15000 }, leverage: 2.5 });
+      await expect(
+        margin.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.2 })
+      ).rejects.toThrow('would exceed 3x leverage');
+
+      // Sale proceeds repay the quote loan first
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.4 });
+      expect(margin.getMarginAccount()!.borrowed).toEqual({});
+      expect(margin.getBalances().USDT.available).toBeCloseTo(5000);
+    });
+
+    it('should_accrue_borrow_interest_into_the_loan', async () => {
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.1 });
+
+      vi.setSystemTime(new Date('2024-12-31T00:00:00Z'));
+      const charged = margin.accrueInterest();
+
+      expect(charged.BTC).toBeCloseTo(0.005, 6);
+      expect(margin.getMarginAccount()).toMatchObject({
+        borrowed: { BTC: expect.closeTo(0.105, 6) },
+        interestAccrued: { BTC: expect.closeTo(0.005, 6) },
+      });
+    });
+
+    it('should_liquidate_when_equity_falls_below_maintenance', async () => {
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.4 });
+      await margin.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 40000 });
+
+      // Equity 30000 - 0.4 * 68000 = 2800, below 10% of 30000 in assets
+      margin.setMockPrice('BTC/USDT', 68000);
+      await margin.processPendingOrders();
+
+      const account = margin.getMarginAccount()!;
+      expect(account.liquidations).toHaveLength(1);
+      expect(account.liquidations[0]).toMatchObject({ equity: expect.closeTo(2800), maintenanceMargin: 3000, remainingDebt: {} });
+      expect(account.borrowed).toEqual({});
+      expect(margin.getPositions()).toEqual({});
+      expect(margin.getOpenOrders()).toHaveLength(0);
+
+      const closeOut = margin.getOrder(account.liquidations[0].orderIds[0])!;
+      expect(closeOut).toMatchObject({ side: 'buy', quantity: 0.4, status: 'filled', liquidation: true });
+      expect(margin.getBalances().USDT.available).toBeCloseTo(2800);
+    });
+
+    it('should_keep_cash_accounts_from_selling_what_they_do_not_hold', async () => {
+      engine.setMockPrice('BTC/USDT', 50000);
+
+      await expect(
+        engine.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'market', quantity: 0.1 })
+      ).rejects.toThrow('Insufficient BTC balance');
+      expect(engine.getMarginAccount()).toBeNull();
+      expect(() => new PaperTradingEngine({ initialBalance: {}, margin: { maxLeverage: 10, maintenanceMarginRate: 0.1 } }))
+        .toThrow('Maintenance margin rate must be positive and below 1 / maxLeverage');
+      expect(getMaxMarginLeverage('elite')).toBe(5);
+      expect(getMaxMarginLeverage('unknown')).toBe(2);
+    });
+  });
+
+  describe('Pre-Trade Risk', () => {
+    it('should_reject_orders_that_breach_the_users_risk_overrides', async () => {
+      const gate = new PreTradeRiskGate();
+      gate.setUserOverrides('user-1', { limits: { maxPositionSize: 1, maxOpenOrders: 1 } });
+      const gated = new PaperTradingEngine({ initialBalance: { USDT: 100000 }, risk: { gate, userId: 'user-1' } });
+      gated.setMockPrice('BTC/USDT', 50000);
+
+      await gated.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.8 });
+      await expect(
+        gated.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'market', quantity: 0.5 })
+      ).rejects.toThrow('Order would exceed maximum position size (1.3 > 1)');
+
+      await gated.createOrder({ symbol: 'BTC/USDT', side: 'buy', type: 'limit', quantity: 0.1, price: 40000 });
+      await expect(
+        gated.createOrder({ symbol: 'BTC/USDT', side: 'sell', type: 'limit', quantity: 0.1, price: 60000 })
+      ).rejects.toMatchObject({ decision: { rejectedBy: 'max_open_orders' } });
+      expect(gated.getOpenOrders()).toHaveLength(1);
+    });
+  });
 });
@@ -6,32 +6,141 @@
  * - Executes market and limit orders
  * - Maintains position tracking with P&L
  * - Records complete trade history
+ * - Optionally fills against order book depth with latency and fees
+ * - Supports stop, trailing stop, OCO and bracket orders
+ * - Optionally runs as a margin account with borrowing, shorts and liquidation
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { computeTrailingStopPrice, resolveOrderExpiry, PositionSide, TimeInForce, TrailingOffsetType } from '../execution/OrderService';
+import type { ExchangeService, OrderBook, OrderBookEntry, TradingFees } from '../exchanges/ExchangeService';
+import { DEFAULT_PRE_TRADE_LIMITS } from '../risk/PreTradeRiskGate';
+import type { PreTradeRiskGate, PreTradeLimits } from '../risk/PreTradeRiskGate';
+
+// Quantities below this are treated as rounding noise from walking the book
+const DUST = 1e-12;
+
+// Margin accounts are valued, borrowed against and liquidated in this asset
+const MARGIN_QUOTE = 'USDT';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Maximum paper margin leverage per user tier
+const MARGIN_LEVERAGE_LIMITS: Record<string, number> = {
+  free: 2,
+  pro: 3,
+  elite: 5,
+  institutional: 10,
+};
+
+/**
+ * Source of order book snapshots and fee schedule for the depth fill model
+ */
+export interface MarketDataSource {
+  getOrderBook(symbol: string): Promise<OrderBook>;
+  getTradingFees(): Promise<TradingFees>;
+}
+
+export interface FillModelConfig {
+  marketData: MarketDataSource;
+  /** Simulated delay between order submission and the book snapshot it fills against */
+  latencyMs?: number;
+}
+
+export interface MarginConfig {
+  /** Maximum ratio of total assets to equity; 3x lets the account borrow twice its equity */
+  maxLeverage: number;
+  /** The account is liquidated once equity falls below this fraction of total assets (default 5%) */
+  maintenanceMarginRate?: number;
+  /** Annual borrow interest rate per asset */
+  borrowRates?: Record<string, number>;
+  /** Annual borrow interest rate for assets without their own rate (default 10%) */
+  defaultBorrowRate?: number;
+}
+
+/**
+ * Pre-trade risk pipeline the engine's orders pass through, evaluated as this user
+ */
+export interface PaperRiskConfig {
+  gate: PreTradeRiskGate;
+  userId: string;
+  limits?: PreTradeLimits; // Defaults to no limits beyond the user's overrides
+}
 
 export interface PaperEngineConfig {
   initialBalance: Record<string, number>;
+  /** When set, orders walk the order book instead of filling at a single mock price */
+  fillModel?: FillModelConfig;
+  /** When set, orders may borrow what the account lacks, which allows shorting and leverage */
+  margin?: MarginConfig;
+  /** When set, every order must pass the pre-trade risk pipeline before it is placed */
+  risk?: PaperRiskConfig;
 }
 
+export type PaperOrderType = 'market' | 'limit' | 'stop_loss' | 'take_profit' | 'trailing_stop';
+
 export interface OrderRequest {
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit';
+  type: PaperOrderType;
   quantity: number;
   price?: number;
+  stopPrice?: number;
+  trailingOffset?: number;
+  trailingOffsetType?: TrailingOffsetType;
+  timeInForce?: TimeInForce; // Defaults to GTC
+  expiresAt?: Date; // Required for GTD
+}
+
+export type OrderLegRequest = Pick<OrderRequest, 'type' | 'price' | 'stopPrice' | 'trailingOffset' | 'trailingOffsetType'>;
+
+export interface OcoOrderRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  legs: OrderLegRequest[];
+}
+
+export interface BracketOrderRequest extends OrderRequest {
+  stopLoss: {
+    stopPrice?: number;
+    trailingOffset?: number;
+    trailingOffsetType?: TrailingOffsetType;
+  };
+  takeProfit: {
+    price: number;
+  };
+}
+
+export interface OrderModification {
+  price?: number;
+  quantity?: number;
+  stopPrice?: number;
+  trailingOffset?: number;
 }
 
 export interface Order {
   id: string;
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit';
+  type: PaperOrderType;
   quantity: number;
   price?: number;
-  status: 'pending' | 'filled' | 'cancelled' | 'rejected';
+  stopPrice?: number;
+  trailingOffset?: number;
+  trailingOffsetType?: TrailingOffsetType;
+  trailingReferencePrice?: number;
+  parentOrderId?: string;
+  ocoGroupId?: string;
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
+  status: 'pending' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected' | 'expired';
   filledQuantity: number;
   averagePrice: number;
+  fee?: number;
+  liquidation?: boolean; // Placed by the engine to close out an under-margined account
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,6 +152,7 @@ export interface Trade {
   side: 'buy' | 'sell';
   quantity: number;
   price: number;
+  fee?: number;
   timestamp: Date;
 }
 
@@ -53,24 +163,76 @@ export interface Balance {
 
 export interface Position {
   symbol: string;
+  side: PositionSide;
   quantity: number;
   averageEntryPrice: number;
   unrealizedPnl: number;
   currentPrice: number;
 }
 
+export interface LiquidationEvent {
+  timestamp: Date;
+  equity: number;
+  maintenanceMargin: number;
+  orderIds: string[];
+  remainingDebt: Record<string, number>; // Loans the liquidation could not cover
+}
+
+export interface MarginAccount {
+  maxLeverage: number;
+  maintenanceMarginRate: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  equity: number;
+  leverage: number | null; // totalAssets / equity; null once equity is gone
+  maintenanceMargin: number; // Equity below this triggers liquidation
+  borrowed: Record<string, number>;
+  interestAccrued: Record<string, number>;
+  liquidations: LiquidationEvent[];
+}
+
 export class PaperTradingEngine {
   private balances: Map<string, Balance> = new Map();
   private orders: Map<string, Order> = new Map();
   private trades: Trade[] = [];
   private positions: Map<string, { quantity: number; totalCost: number }> = new Map();
   private mockPrices: Map<string, number> = new Map();
+  private fillModel?: FillModelConfig;
+  private fees?: Promise<TradingFees>;
+  // Quote locked per unit of remaining quantity for resting buy orders
+  private reservedPerUnit: Map<string, number> = new Map();
+  private margin?: Required<MarginConfig>;
+  // Outstanding margin loans per asset, including capitalised interest
+  private borrowed: Map<string, number> = new Map();
+  private interestAccrued: Map<string, number> = new Map();
+  private interestAccruedAt = new Date();
+  private liquidations: LiquidationEvent[] = [];
+  private risk?: PaperRiskConfig;
 
   constructor(config: PaperEngineConfig) {
     // Initialize balances
     for (const [asset, amount] of Object.entries(config.initialBalance)) {
       this.balances.set(asset, { available: amount, locked: 0 });
     }
+    this.fillModel = config.fillModel;
+    this.risk = config.risk;
+
+    if (config.margin) {
+      const { maxLeverage } = config.margin;
+      const maintenanceMarginRate = config.margin.maintenanceMarginRate ?? 0.05;
+      if (!(maxLeverage >= 1)) {
+        throw new Error('Margin leverage must be at least 1');
+      }
+      if (maintenanceMarginRate <= 0 || maintenanceMarginRate >= 1 / maxLeverage) {
+        throw new Error('Maintenance margin rate must be positive and below 1 / maxLeverage');
+      }
+      this.margin = {
+        maxLeverage,
+        maintenanceMarginRate,
+        borrowRates: config.margin.borrowRates ?? {},
+        defaultBorrowRate: config.margin.defaultBorrowRate ?? 0.1,
+      };
+    }
   }
 
   /**
@@ -112,7 +274,23 @@ export class PaperTradingEngine {
   /**
    * Create and execute an order
    */
-  async createOrder(request: OrderRequest): Promise<Order> {
+  async createOrder(orderRequest: OrderRequest): Promise<Order> {
+    const timeInForce = orderRequest.timeInForce ?? 'GTC';
+    const expiresAt = resolveOrderExpiry(orderRequest.type, timeInForce, orderRequest.expiresAt);
+    const request = { ...orderRequest, timeInForce, expiresAt };
+
+    if (this.risk) {
+      await this.enforceRisk(request, this.risk);
+    }
+
+    if (isConditional(request.type)) {
+      return this.createConditionalOrder(request);
+    }
+
+    if (this.fillModel) {
+      return this.createDepthOrder(request, this.fillModel);
+    }
+
     const { symbol, side, type, quantity, price } = request;
     const [base, quote] = symbol.split('/');
     const currentPrice = this.getPrice(symbol);
@@ -124,6 +302,8 @@ export class PaperTradingEngine {
       type,
       quantity,
       price: price ?? currentPrice,
+      timeInForce,
+      expiresAt,
       status: 'pending',
       filledQuantity: 0,
       averagePrice: 0,
@@ -161,16 +341,250 @@ export class PaperTradingEngine {
           this.executeSell(order, base, quote, quantity, currentPrice);
         }
       }
+
+      // IOC and FOK limits that cannot fill now never rest
+      if (order.status === 'pending' && isImmediate(timeInForce)) {
+        this.releaseAndClose(order, 'expired');
+      }
     }
 
     this.orders.set(order.id, order);
     return order;
   }
 
+  /**
+   * Run an order through the pre-trade risk pipeline against this account
+   */
+  private async enforceRisk(request: OrderRequest, risk: PaperRiskConfig): Promise<void> {
+    const base = request.symbol.split('/')[0];
+
+    await risk.gate.enforce(
+      {
+        userId: risk.userId,
+        source: 'paper_engine',
+        mode: 'paper',
+        symbol: request.symbol,
+        side: request.side,
+        type: request.type,
+        quantity: request.quantity,
+        price: request.price ?? request.stopPrice ?? this.mockPrices.get(request.symbol),
+      },
+      {
+        limits: risk.limits ?? DEFAULT_PRE_TRADE_LIMITS,
+        openOrders: this.getOpenOrders().length,
+        positionQuantity: this.positions.get(base)?.quantity ?? 0,
+      }
+    );
+  }
+
+  // ============================================================================
+  // Order Book Fill Model
+  // ============================================================================
+
+  /**
+   * Create an order that fills against an order book snapshot.
+   *
+   * Market orders take liquidity level by level and cancel whatever the book
+   * cannot absorb. Limit orders take the levels at or better than their price
+   * and rest the remainder, which later fills as maker via processPendingOrders.
+   * IOC orders expire the remainder instead; FOK orders fill entirely or not at all.
+   */
+  private async createDepthOrder(
+    request: OrderRequest & { timeInForce: TimeInForce },
+    fillModel: FillModelConfig
+  ): Promise<Order> {
+    const { symbol, side, type, quantity, price, timeInForce, expiresAt } = request;
+    const [base, quote] = symbol.split('/');
+
+    if (type === 'limit' && !price) {
+      throw new Error('Limit orders require a price');
+    }
+
+    const { book, fees } = await this.snapshot(symbol, fillModel);
+    const fills = walkOrderBook(book, side, quantity, price);
+    const takenQuantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+    if (type === 'market' && takenQuantity <= DUST) {
+      throw new Error(`No liquidity available for ${symbol}`);
+    }
+
+    const order: Order = {
+      id: uuidv4(),
+      symbol,
+      side,
+      type,
+      quantity,
+      price: price ?? fills[0].price,
+      timeInForce,
+      expiresAt,
+      status: 'pending',
+      filledQuantity: 0,
+      averagePrice: 0,
+      fee: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    if (timeInForce === 'FOK' && quantity - takenQuantity > DUST) {
+      order.status = 'expired';
+      this.orders.set(order.id, order);
+      return order;
+    }
+
+    const restingQuantity = type === 'limit' && !isImmediate(timeInForce) ? quantity - takenQuantity : 0;
+
+    if (side === 'buy') {
+      const takerCost = fills.reduce((sum, fill) => sum + fill.quantity * fill.price * (1 + fees.taker), 0);
+      const restingCost = restingQuantity > 0 ? restingQuantity * price! * (1 + fees.maker) : 0;
+      this.validateAndLockQuote(quote, takerCost + restingCost);
+    } else {
+      const balance = this.balances.get(base);
+      if (!this.margin && (!balance || balance.available < quantity)) {
+        throw new Error(`Insufficient ${base} balance`);
+      }
+      this.validateAndLockBase(base, takenQuantity + restingQuantity);
+    }
+
+    for (const fill of fills) {
+      this.applyFill(order, base, quote, fill.quantity, fill.price, fees.taker);
+    }
+
+    if (side === 'buy' && restingQuantity > DUST) {
+      this.reservedPerUnit.set(order.id, price! * (1 + fees.maker));
+    }
+
+    if (type === 'market' || isImmediate(timeInForce)) {
+      // Unfilled remainder of a market or IOC order is dropped, never rested
+      const remainderStatus = timeInForce === 'IOC' ? 'expired' : 'cancelled';
+      order.status = quantity - order.filledQuantity > DUST ? remainderStatus : 'filled';
+    } else {
+      this.updateFillStatus(order);
+    }
+
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /**
+   * Fill resting limit orders against a fresh snapshot of their book
+   */
+  private async processDepthOrders(fillModel: FillModelConfig): Promise<void> {
+    const open = this.getOpenOrders();
+    const symbols = [...new Set(open.filter(o => o.type === 'limit').map(o => o.symbol))];
+
+    for (const symbol of symbols) {
+      const { book, fees } = await this.snapshot(symbol, fillModel);
+
+      for (const order of open.filter(o => o.symbol === symbol && o.type === 'limit' && this.isArmed(o))) {
+        if (order.status !== 'pending' && order.status !== 'partially_filled') continue;
+
+        const [base, quote] = symbol.split('/');
+        const remaining = order.quantity - order.filledQuantity;
+
+        // A resting order is the maker: it trades at its own price once the book crosses it
+        const crossed = walkOrderBook(book, order.side, remaining, order.price);
+        const crossedQuantity = crossed.reduce((sum, fill) => sum + fill.quantity, 0);
+        if (crossedQuantity <= DUST) continue;
+
+        this.applyFill(order, base, quote, crossedQuantity, order.price!, fees.maker);
+        this.updateFillStatus(order);
+        this.cancelOcoSiblings(order);
+      }
+    }
+  }
+
+  /**
+   * Wait out the configured latency, then fetch the book and (cached) fees
+   */
+  private async snapshot(
+    symbol: string,
+    fillModel: FillModelConfig
+  ): Promise<{ book: OrderBook; fees: TradingFees }> {
+    if (fillModel.latencyMs && fillModel.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, fillModel.latencyMs));
+    }
+
+    if (!this.fees) {
+      this.fees = fillModel.marketData.getTradingFees();
+      this.fees.catch(() => { this.fees = undefined; });
+    }
+
+    const [book, fees] = await Promise.all([
+      fillModel.marketData.getOrderBook(symbol),
+      this.fees
+    ]);
+
+    // Keep valuations in line with the book we trade against
+    const bestBid = book.bids[0]?.price;
+    const bestAsk = book.asks[0]?.price;
+    if (bestBid && bestAsk) {
+      this.mockPrices.set(symbol, (bestBid + bestAsk) / 2);
+    }
+
+    return { book, fees };
+  }
+
+  /**
+   * Settle a single fill, charging the fee in the quote currency
+   */
+  private applyFill(
+    order: Order,
+    base: string,
+    quote: string,
+    quantity: number,
+    price: number,
+    feeRate: number
+  ): void {
+    const notional = quantity * price;
+    const fee = notional * feeRate;
+
+    if (order.side === 'buy') {
+      // Resting orders reserved at their limit price; taker fills are locked exactly
+      const reserved = this.reservedPerUnit.get(order.id);
+      const released = reserved !== undefined ? quantity * reserved : notional + fee;
+      const quoteBalance = this.balances.get(quote)!;
+      quoteBalance.locked -= released;
+      quoteBalance.available += released - notional - fee;
+
+      const baseBalance = this.balances.get(base) ?? { available: 0, locked: 0 };
+      baseBalance.available += quantity;
+      this.balances.set(base, baseBalance);
+      this.updatePosition(base, quantity, price);
+      this.settleDebt(quote);
+      this.settleDebt(base);
+    } else {
+      const baseBalance = this.balances.get(base)!;
+      baseBalance.locked -= quantity;
+
+      const quoteBalance = this.balances.get(quote) ?? { available: 0, locked: 0 };
+      quoteBalance.available += notional - fee;
+      this.balances.set(quote, quoteBalance);
+      this.updatePosition(base, -quantity, price);
+      this.settleDebt(quote);
+    }
+
+    this.recordTrade(order.id, order.symbol, order.side, quantity, price, fee);
+
+    order.averagePrice = (order.averagePrice * order.filledQuantity + notional) / (order.filledQuantity + quantity);
+    order.filledQuantity += quantity;
+    order.fee = (order.fee ?? 0) + fee;
+    order.updatedAt = new Date();
+  }
+
+  private updateFillStatus(order: Order): void {
+    if (order.quantity - order.filledQuantity <= DUST) {
+      order.status = 'filled';
+      this.reservedPerUnit.delete(order.id);
+    } else if (order.filledQuantity > 0) {
+      order.status = 'partially_filled';
+    }
+  }
+
   /**
    * Validate sufficient quote currency and lock it
    */
-  private validateAndLockQuote(quote: string, amount: number): void {
+  private validateAndLockQuote(quote: string, amount: number, force = false): void {
+    this.borrowShortfall(quote, amount, force);
     const balance = this.balances.get(quote);
     if (!balance || balance.available < amount) {
       throw new Error(`Insufficient ${quote} balance`);
@@ -182,7 +596,8 @@ export class PaperTradingEngine {
   /**
    * Validate sufficient base currency and lock it
    */
-  private validateAndLockBase(base: string, quantity: number): void {
+  private validateAndLockBase(base: string, quantity: number, force = false): void {
+    this.borrowShortfall(base, quantity, force);
     const balance = this.balances.get(base);
     if (!balance || balance.available < quantity) {
       throw new Error(`Insufficient ${base} balance`);
@@ -208,10 +623,11 @@ export class PaperTradingEngine {
     quoteBalance.locked -= cost;
     // Note: available was already deducted when locked
 
-    // Add base asset
+    // Add base asset, repaying any of it that was borrowed
     const baseBalance = this.balances.get(base) ?? { available: 0, locked: 0 };
     baseBalance.available += quantity;
     this.balances.set(base, baseBalance);
+    this.settleDebt(base);
 
     // Update position
     this.updatePosition(base, quantity, price);
@@ -243,10 +659,11 @@ export class PaperTradingEngine {
     baseBalance.locked -= quantity;
     // Note: available was already deducted when locked
 
-    // Add quote
+    // Add quote, repaying any of it that was borrowed
     const quoteBalance = this.balances.get(quote) ?? { available: 0, locked: 0 };
     quoteBalance.available += proceeds;
     this.balances.set(quote, quoteBalance);
+    this.settleDebt(quote);
 
     // Update position
     this.updatePosition(base, -quantity, price);
@@ -262,26 +679,34 @@ export class PaperTradingEngine {
   }
 
   /**
-   * Update position tracking
+   * Update position tracking. Quantity is signed: shorts are negative and
+   * can only be opened on a margin account.
    */
   private updatePosition(asset: string, quantityDelta: number, price: number): void {
     const current = this.positions.get(asset) ?? { quantity: 0, totalCost: 0 };
+    const reducing = current.quantity !== 0 && Math.sign(quantityDelta) !== Math.sign(current.quantity);
 
-    if (quantityDelta > 0) {
-      // Buying - add to position
-      current.totalCost += quantityDelta * price;
-      current.quantity += quantityDelta;
+    if (!reducing) {
+      // Opening or adding to a position
+      if (quantityDelta > 0 || this.margin) {
+        current.totalCost += quantityDelta * price;
+        current.quantity += quantityDelta;
+      }
     } else {
-      // Selling - reduce position
-      const sellQuantity = Math.abs(quantityDelta);
-      if (current.quantity > 0) {
-        const avgPrice = current.totalCost / current.quantity;
-        current.totalCost -= sellQuantity * avgPrice;
-        current.quantity -= sellQuantity;
+      // Reduce at the average entry price; on margin any excess flips the position
+      const closing = Math.sign(quantityDelta) * Math.min(Math.abs(quantityDelta), Math.abs(current.quantity));
+      const avgPrice = current.totalCost / current.quantity;
+      current.totalCost += closing * avgPrice;
+      current.quantity += closing;
+
+      const opening = quantityDelta - closing;
+      if (this.margin && Math.abs(opening) > DUST) {
+        current.totalCost += opening * price;
+        current.quantity += opening;
       }
     }
 
-    if (current.quantity <= 0) {
+    if (Math.abs(current.quantity) <= DUST) {
       this.positions.delete(asset);
     } else {
       this.positions.set(asset, current);
@@ -296,7 +721,8 @@ export class PaperTradingEngine {
     symbol: string,
     side: 'buy' | 'sell',
     quantity: number,
-    price: number
+    price: number,
+    fee?: number
   ): void {
     this.trades.push({
       id: uuidv4(),
@@ -305,6 +731,7 @@ export class PaperTradingEngine {
       side,
       quantity,
       price,
+      ...(fee !== undefined && { fee }),
       timestamp: new Date()
     });
   }
@@ -313,8 +740,19 @@ export class PaperTradingEngine {
    * Process pending limit orders
    */
   async processPendingOrders(): Promise<void> {
+    if (this.fillModel) {
+      await this.processDepthOrders(this.fillModel);
+    } else {
+      await this.processLimitOrders();
+    }
+
+    await this.processConditionalOrders();
+    this.checkMargin();
+  }
+
+  private async processLimitOrders(): Promise<void> {
     for (const order of this.orders.values()) {
-      if (order.status !== 'pending') continue;
+      if (order.status !== 'pending' || order.type !== 'limit' || !this.isArmed(order)) continue;
 
       const currentPrice = this.getPrice(order.symbol);
       const [base, quote] = order.symbol.split('/');
@@ -322,9 +760,11 @@ export class PaperTradingEngine {
       if (order.side === 'buy' && order.price! >= currentPrice) {
         // Limit buy fills when price drops to limit
         this.executeBuy(order, base, quote, order.quantity, currentPrice);
+        this.cancelOcoSiblings(order);
       } else if (order.side === 'sell' && order.price! <= currentPrice) {
         // Limit sell fills when price rises to limit
         this.executeSell(order, base, quote, order.quantity, currentPrice);
+        this.cancelOcoSiblings(order);
       }
     }
   }
@@ -344,14 +784,14 @@ export class PaperTradingEngine {
   }
 
   /**
-   * Get open (pending) orders
+   * Get open (pending or partially filled) orders
    */
   getOpenOrders(): Order[] {
-    return this.getOrders().filter(o => o.status === 'pending');
+    return this.getOrders().filter(o => o.status === 'pending' || o.status === 'partially_filled');
   }
 
   /**
-   * Cancel an order
+   * Cancel an order, along with its bracket exits and OCO sibling
    */
   async cancelOrder(orderId: string): Promise<Order> {
     const order = this.orders.get(orderId);
@@ -367,26 +807,411 @@ export class PaperTradingEngine {
       throw new Error('Order already cancelled');
     }
 
-    // Release locked funds
+    this.releaseAndClose(order);
+
+    for (const linked of this.getOpenOrders()) {
+      const isChild = linked.parentOrderId === order.id;
+      const isSibling = order.ocoGroupId !== undefined && linked.ocoGroupId === order.ocoGroupId;
+      if (isChild || isSibling) {
+        this.releaseAndClose(linked);
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Modify an open order. Limit orders re-reserve funds for the new terms;
+   * quantity changes carry over to linked stop and target orders.
+   */
+  async modifyOrder(orderId: string, updates: OrderModification): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.status !== 'pending') {
+      throw new Error('Only pending orders can be modified');
+    }
+
+    if (updates.quantity !== undefined && updates.quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+
+    if (updates.trailingOffset !== undefined) {
+      if (order.type !== 'trailing_stop') {
+        throw new Error('Trailing offset can only be changed on trailing stops');
+      }
+      validateTrailingOffset(updates.trailingOffset, order.trailingOffsetType);
+    }
+
+    if (order.type === 'limit') {
+      this.rereserve(order, updates.quantity ?? order.quantity, updates.price ?? order.price!);
+    }
+
+    if (updates.price !== undefined) order.price = updates.price;
+    if (updates.stopPrice !== undefined) order.stopPrice = updates.stopPrice;
+
+    if (updates.trailingOffset !== undefined) {
+      order.trailingOffset = updates.trailingOffset;
+      if (order.trailingReferencePrice !== undefined) {
+        order.stopPrice = computeTrailingStopPrice(
+          order.side,
+          order.trailingReferencePrice,
+          order.trailingOffset,
+          order.trailingOffsetType
+        );
+      }
+    }
+
+    if (updates.quantity !== undefined) {
+      order.quantity = updates.quantity;
+
+      for (const linked of this.getOpenOrders()) {
+        const isLinked = linked.parentOrderId === order.id ||
+          (order.ocoGroupId !== undefined && linked.ocoGroupId === order.ocoGroupId && linked.id !== order.id);
+        // Linked limit legs hold their own reservation and are modified separately
+        if (isLinked && isConditional(linked.type)) {
+          linked.quantity = updates.quantity;
+          linked.updatedAt = new Date();
+        }
+      }
+    }
+
+    order.updatedAt = new Date();
+    return order;
+  }
+
+  /**
+   * Release what a limit order holds and lock funds for its new quantity and price
+   */
+  private rereserve(order: Order, quantity: number, price: number): void {
     const [base, quote] = order.symbol.split('/');
+    const reserved = this.reservedPerUnit.get(order.id);
+    // Keep the fee reserve ratio the depth fill model applied at placement
+    const perUnit = reserved !== undefined ? price * (reserved / order.price!) : price;
+
+    this.releaseLocked(order);
+    try {
+      if (order.side === 'buy') {
+        this.validateAndLockQuote(quote, quantity * perUnit);
+      } else {
+        this.validateAndLockBase(base, quantity);
+      }
+    } catch (error) {
+      // Restore the original reservation before surfacing the error
+      if (order.side === 'buy') {
+        this.validateAndLockQuote(quote, order.quantity * (reserved ?? order.price!));
+      } else {
+        this.validateAndLockBase(base, order.quantity);
+      }
+      throw error;
+    }
+
+    if (reserved !== undefined) {
+      this.reservedPerUnit.set(order.id, perUnit);
+    }
+  }
+
+  private releaseAndClose(order: Order, status: 'cancelled' | 'expired' = 'cancelled'): void {
+    this.releaseLocked(order);
+    this.reservedPerUnit.delete(order.id);
+    order.status = status;
+    order.updatedAt = new Date();
+  }
+
+  /**
+   * Expire GTD and day orders past their expiry, releasing what they locked.
+   * Bracket exits and OCO siblings of an expired order expire with it.
+   */
+  expireOrders(now: Date = new Date()): Order[] {
+    const expired: Order[] = [];
+
+    for (const order of this.getOpenOrders()) {
+      // May already have expired alongside a linked order
+      if (order.status !== 'pending' && order.status !== 'partially_filled') continue;
+      if (!order.expiresAt || order.expiresAt > now) continue;
+
+      this.releaseAndClose(order, 'expired');
+      expired.push(order);
+
+      for (const linked of this.getOpenOrders()) {
+        const isChild = linked.parentOrderId === order.id;
+        const isSibling = order.ocoGroupId !== undefined && linked.ocoGroupId === order.ocoGroupId;
+        if (isChild || isSibling) {
+          this.releaseAndClose(linked, 'expired');
+          expired.push(linked);
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Release funds locked for the unfilled remainder. Conditional orders hold
+   * nothing until they trigger.
+   */
+  private releaseLocked(order: Order): void {
+    if (isConditional(order.type)) return;
+
+    const [base, quote] = order.symbol.split('/');
+    const remaining = order.quantity - order.filledQuantity;
 
     if (order.side === 'buy') {
-      const cost = order.quantity * order.price!;
+      const cost = remaining * (this.reservedPerUnit.get(order.id) ?? order.price!);
       const quoteBalance = this.balances.get(quote)!;
       quoteBalance.locked -= cost;
       quoteBalance.available += cost;
+      this.settleDebt(quote);
     } else {
       const baseBalance = this.balances.get(base)!;
-      baseBalance.locked -= order.quantity;
-      baseBalance.available += order.quantity;
+      baseBalance.locked -= remaining;
+      baseBalance.available += remaining;
+      this.settleDebt(base);
     }
+  }
 
-    order.status = 'cancelled';
-    order.updatedAt = new Date();
+  // ============================================================================
+  // Conditional and Linked Orders
+  // ============================================================================
+
+  /**
+   * Create two orders that cancel each other once either fills
+   */
+  async createOcoOrder(request: OcoOrderRequest): Promise<Order[]> {
+    const { legs, ...base } = request;
+
+    if (legs.length !== 2) {
+      throw new Error('OCO orders require exactly two legs');
+    }
+    if (legs.some(leg => leg.type === 'market')) {
+      throw new Error('OCO legs cannot be market orders');
+    }
+
+    const ocoGroupId = uuidv4();
+    const orders = await this.createLinked(legs.map(leg => ({ ...base, ...leg })), { ocoGroupId });
+
+    // A marketable limit leg fills on placement and takes the other leg with it
+    const filled = orders.find(o => o.status === 'filled' || o.status === 'partially_filled');
+    if (filled) {
+      this.cancelOcoSiblings(filled);
+    }
+
+    return orders;
+  }
+
+  /**
+   * Create an entry with stop loss and take profit exits that arm once the
+   * entry fills. The exits cancel each other.
+   */
+  async createBracketOrder(
+    request: BracketOrderRequest
+  ): Promise<{ entry: Order; stopLoss: Order; takeProfit: Order }> {
+    const { stopLoss, takeProfit, ...entryRequest } = request;
+
+    if (entryRequest.type !== 'market' && entryRequest.type !== 'limit') {
+      throw new Error('Bracket entries must be market or limit orders');
+    }
+    if (stopLoss.stopPrice === undefined && stopLoss.trailingOffset === undefined) {
+      throw new Error('Bracket orders require a stop loss price or trailing offset');
+    }
+
+    const isLong = entryRequest.side === 'buy';
+    if (stopLoss.stopPrice !== undefined && (isLong ? stopLoss.stopPrice >= takeProfit.price : stopLoss.stopPrice <= takeProfit.price)) {
+      throw new Error(`Bracket stop loss must be ${isLong ? 'below' : 'above'} the take profit`);
+    }
+
+    const entry = await this.createOrder(entryRequest);
+    const exit = { symbol: entry.symbol, side: (isLong ? 'sell' : 'buy') as Order['side'], quantity: entry.quantity };
+    const [stopOrder, targetOrder] = await this.createLinked(
+      [
+        stopLoss.trailingOffset !== undefined
+          ? { ...exit, type: 'trailing_stop', ...stopLoss }
+          : { ...exit, type: 'stop_loss', stopPrice: stopLoss.stopPrice },
+        { ...exit, type: 'take_profit', stopPrice: takeProfit.price },
+      ],
+      { parentOrderId: entry.id, ocoGroupId: uuidv4() }
+    );
+
+    return { entry, stopLoss: stopOrder, takeProfit: targetOrder };
+  }
+
+  /**
+   * Create orders sharing links; if one is rejected the others are rolled back
+   */
+  private async createLinked(
+    requests: OrderRequest[],
+    links: { parentOrderId?: string; ocoGroupId?: string }
+  ): Promise<Order[]> {
+    const created: Order[] = [];
+
+    try {
+      for (const request of requests) {
+        const order = await this.createOrder(request);
+        Object.assign(order, links);
+        created.push(order);
+      }
+    } catch (error) {
+      for (const order of created) {
+        if (order.status === 'pending') {
+          this.releaseAndClose(order);
+        }
+        this.orders.delete(order.id);
+      }
+      throw error;
+    }
+
+    return created;
+  }
+
+  /**
+   * Stop, take profit and trailing stop orders rest without reserving funds
+   * and execute as market orders once triggered
+   */
+  private createConditionalOrder(request: OrderRequest & { timeInForce: TimeInForce }): Order {
+    const { symbol, side, type, quantity, stopPrice, trailingOffset, trailingOffsetType, timeInForce, expiresAt } = request;
+
+    if (quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+    if (type === 'trailing_stop') {
+      validateTrailingOffset(trailingOffset, trailingOffsetType);
+    } else if (stopPrice === undefined) {
+      throw new Error('Stop orders require a stop price');
+    }
+
+    const order: Order = {
+      id: uuidv4(),
+      symbol,
+      side,
+      type,
+      quantity,
+      stopPrice,
+      ...(type === 'trailing_stop' && {
+        trailingOffset,
+        trailingOffsetType: trailingOffsetType ?? 'percent'
+      }),
+      timeInForce,
+      expiresAt,
+      status: 'pending',
+      filledQuantity: 0,
+      averagePrice: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
 
+    this.orders.set(order.id, order);
     return order;
   }
 
+  /**
+   * Trigger armed stop, take profit and trailing stop orders at the current price
+   */
+  private async processConditionalOrders(): Promise<void> {
+    const conditional = this.getOpenOrders().filter(o => isConditional(o.type) && this.isArmed(o));
+    const symbols = [...new Set(conditional.map(o => o.symbol))];
+
+    for (const symbol of symbols) {
+      const snapshot = this.fillModel ? await this.snapshot(symbol, this.fillModel) : undefined;
+      const currentPrice = this.mockPrices.get(symbol);
+      if (!currentPrice) continue;
+
+      for (const order of conditional.filter(o => o.symbol === symbol)) {
+        // An OCO sibling may have triggered earlier in this pass
+        if (order.status !== 'pending') continue;
+
+        if (order.type === 'trailing_stop') {
+          this.trailStop(order, currentPrice);
+        }
+        if (!isTriggered(order, currentPrice)) continue;
+
+        // Free whatever the other leg reserved before executing this one
+        this.cancelOcoSiblings(order);
+        this.executeTriggered(order, currentPrice, snapshot);
+      }
+    }
+  }
+
+  /**
+   * Fill a triggered order as a market order, rejecting it if funds ran out
+   */
+  private executeTriggered(
+    order: Order,
+    currentPrice: number,
+    snapshot?: { book: OrderBook; fees: TradingFees }
+  ): void {
+    const [base, quote] = order.symbol.split('/');
+
+    try {
+      if (!snapshot) {
+        if (order.side === 'buy') {
+          this.validateAndLockQuote(quote, order.quantity * currentPrice);
+          this.executeBuy(order, base, quote, order.quantity, currentPrice);
+        } else {
+          this.validateAndLockBase(base, order.quantity);
+          this.executeSell(order, base, quote, order.quantity, currentPrice);
+        }
+        return;
+      }
+
+      const fills = walkOrderBook(snapshot.book, order.side, order.quantity);
+      const takenQuantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+      if (takenQuantity <= DUST) {
+        throw new Error(`No liquidity available for ${order.symbol}`);
+      }
+
+      if (order.side === 'buy') {
+        this.validateAndLockQuote(quote, fills.reduce((sum, fill) => sum + fill.quantity * fill.price * (1 + snapshot.fees.taker), 0));
+      } else {
+        this.validateAndLockBase(base, takenQuantity);
+      }
+
+      order.fee = 0;
+      for (const fill of fills) {
+        this.applyFill(order, base, quote, fill.quantity, fill.price, snapshot.fees.taker);
+      }
+      order.status = order.quantity - order.filledQuantity > DUST ? 'cancelled' : 'filled';
+    } catch {
+      order.status = 'rejected';
+      order.updatedAt = new Date();
+    }
+  }
+
+  /**
+   * Move a trailing stop behind the best price seen; it only ratchets towards the market
+   */
+  private trailStop(order: Order, currentPrice: number): void {
+    const previous = order.trailingReferencePrice;
+    const reference = previous === undefined
+      ? currentPrice
+      : order.side === 'sell' ? Math.max(previous, currentPrice) : Math.min(previous, currentPrice);
+    const trailed = computeTrailingStopPrice(order.side, reference, order.trailingOffset!, order.trailingOffsetType);
+
+    order.trailingReferencePrice = reference;
+    order.stopPrice = order.stopPrice === undefined
+      ? trailed
+      : order.side === 'sell' ? Math.max(order.stopPrice, trailed) : Math.min(order.stopPrice, trailed);
+  }
+
+  private cancelOcoSiblings(order: Order): void {
+    if (!order.ocoGroupId) return;
+
+    for (const sibling of this.getOpenOrders()) {
+      if (sibling.id !== order.id && sibling.ocoGroupId === order.ocoGroupId) {
+        this.releaseAndClose(sibling);
+      }
+    }
+  }
+
+  /**
+   * Bracket exits stay dormant until their entry has filled
+   */
+  private isArmed(order: Order): boolean {
+    if (!order.parentOrderId) return true;
+    return this.orders.get(order.parentOrderId)?.status === 'filled';
+  }
+
   /**
    * Get all positions
    */
@@ -397,13 +1222,14 @@ export class PaperTradingEngine {
       // Find a symbol for this asset to get current price
       const symbol = `${asset}/USDT`;
       const currentPrice = this.mockPrices.get(symbol) ?? 0;
-      const avgEntryPrice = position.quantity > 0
+      const avgEntryPrice = position.quantity !== 0
         ? position.totalCost / position.quantity
         : 0;
 
       result[asset] = {
         symbol: asset,
-        quantity: position.quantity,
+        side: position.quantity < 0 ? 'short' : 'long',
+        quantity: Math.abs(position.quantity),
         averageEntryPrice: avgEntryPrice,
         currentPrice,
         unrealizedPnl: (currentPrice - avgEntryPrice) * position.quantity
@@ -434,6 +1260,11 @@ export class PaperTradingEngine {
       total += (balance.available + balance.locked) * price;
     }
 
+    // Margin loans count against the account
+    for (const [asset, debt] of this.borrowed.entries()) {
+      total -= debt * this.assetPrice(asset);
+    }
+
     return total;
   }
 
@@ -443,4 +1274,271 @@ export class PaperTradingEngine {
   getTrades(): Trade[] {
     return [...this.trades];
   }
+
+  // ============================================================================
+  // Margin
+  // ============================================================================
+
+  /**
+   * On a margin account, borrow whatever `amount` exceeds the available
+   * balance. Loans are refused once liabilities would exceed
+   * (maxLeverage - 1) x equity, unless forced by a liquidation.
+   */
+  private borrowShortfall(asset: string, amount: number, force: boolean): void {
+    if (!this.margin) return;
+
+    const balance = this.balances.get(asset) ?? { available: 0, locked: 0 };
+    const shortfall = amount - balance.available;
+    if (shortfall <= DUST) return;
+
+    this.accrueInterest();
+    const price = asset === MARGIN_QUOTE ? 1 : this.getPrice(`${asset}/${MARGIN_QUOTE}`);
+    const account = this.getMarginAccount()!;
+    const borrowLimit = (this.margin.maxLeverage - 1) * account.equity;
+
+    if (!force && account.totalLiabilities + shortfall * price > borrowLimit + DUST) {
+      throw new Error(`Insufficient margin: borrowing ${shortfall} ${asset} would exceed ${this.margin.maxLeverage}x leverage`);
+    }
+
+    balance.available += shortfall;
+    this.balances.set(asset, balance);
+    this.borrowed.set(asset, (this.borrowed.get(asset) ?? 0) + shortfall);
+  }
+
+  /**
+   * Repay margin loans in `asset` from its available balance
+   */
+  private settleDebt(asset: string): void {
+    if (!this.borrowed.has(asset)) return;
+
+    const balance = this.balances.get(asset);
+    if (!balance || balance.available <= 0) return;
+
+    this.accrueInterest();
+    const debt = this.borrowed.get(asset)!;
+    const repaid = Math.min(balance.available, debt);
+    balance.available -= repaid;
+
+    if (debt - repaid > DUST) {
+      this.borrowed.set(asset, debt - repaid);
+    } else {
+      this.borrowed.delete(asset);
+    }
+  }
+
+  /**
+   * Charge borrow interest since the last accrual. Interest is added to the
+   * loan it was charged on; returns the amount charged per asset.
+   */
+  accrueInterest(now: Date = new Date()): Record<string, number> {
+    const charged: Record<string, number> = {};
+    const elapsed = now.getTime() - this.interestAccruedAt.getTime();
+    if (!this.margin || elapsed <= 0) return charged;
+
+    this.interestAccruedAt = now;
+    for (const [asset, debt] of this.borrowed.entries()) {
+      const rate = this.margin.borrowRates[asset] ?? this.margin.defaultBorrowRate;
+      const interest = (debt * rate * elapsed) / YEAR_MS;
+      this.borrowed.set(asset, debt + interest);
+      this.interestAccrued.set(asset, (this.interestAccrued.get(asset) ?? 0) + interest);
+      charged[asset] = interest;
+    }
+
+    return charged;
+  }
+
+  /**
+   * Assets, loans, leverage and liquidation history of a margin account;
+   * null for cash accounts
+   */
+  getMarginAccount(): MarginAccount | null {
+    if (!this.margin) return null;
+
+    let totalAssets = 0;
+    for (const [asset, balance] of this.balances.entries()) {
+      totalAssets += (balance.available + balance.locked) * this.assetPrice(asset);
+    }
+
+    let totalLiabilities = 0;
+    for (const [asset, debt] of this.borrowed.entries()) {
+      totalLiabilities += debt * this.assetPrice(asset);
+    }
+
+    const equity = totalAssets - totalLiabilities;
+
+    return {
+      maxLeverage: this.margin.maxLeverage,
+      maintenanceMarginRate: this.margin.maintenanceMarginRate,
+      totalAssets,
+      totalLiabilities,
+      equity,
+      leverage: equity > 0 ? totalAssets / equity : null,
+      maintenanceMargin: totalAssets * this.margin.maintenanceMarginRate,
+      borrowed: Object.fromEntries(this.borrowed),
+      interestAccrued: Object.fromEntries(this.interestAccrued),
+      liquidations: [...this.liquidations],
+    };
+  }
+
+  /**
+   * Accrue interest and liquidate the account if equity has fallen below the
+   * maintenance margin. Runs after every processPendingOrders pass.
+   */
+  checkMargin(now: Date = new Date()): LiquidationEvent | null {
+    if (!this.margin) return null;
+
+    this.accrueInterest(now);
+    const account = this.getMarginAccount()!;
+    if (account.totalLiabilities <= 0 || account.equity >= account.maintenanceMargin) {
+      return null;
+    }
+
+    return this.liquidate(account, now);
+  }
+
+  /**
+   * Cancel every open order and close every position at the current price,
+   * repaying loans from the proceeds
+   */
+  private liquidate(account: MarginAccount, now: Date): LiquidationEvent {
+    for (const order of this.getOpenOrders()) {
+      if (order.status === 'pending' || order.status === 'partially_filled') {
+        this.releaseAndClose(order);
+      }
+    }
+
+    const orderIds: string[] = [];
+    const assets = new Set([...this.balances.keys(), ...this.borrowed.keys()]);
+
+    for (const asset of assets) {
+      if (asset === MARGIN_QUOTE) continue;
+      const symbol = `${asset}/${MARGIN_QUOTE}`;
+      const price = this.mockPrices.get(symbol);
+      if (!price) continue;
+
+      const net = (this.balances.get(asset)?.available ?? 0) - (this.borrowed.get(asset) ?? 0);
+      if (Math.abs(net) <= DUST) {
+        this.settleDebt(asset);
+        continue;
+      }
+
+      const quantity = Math.abs(net);
+      const order: Order = {
+        id: uuidv4(),
+        symbol,
+        side: net < 0 ? 'buy' : 'sell',
+        type: 'market',
+        quantity,
+        price,
+        timeInForce: 'GTC',
+        status: 'pending',
+        filledQuantity: 0,
+        averagePrice: 0,
+        liquidation: true,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      if (net < 0) {
+        // Buy back borrowed coins, borrowing quote if the account is bankrupt
+        this.validateAndLockQuote(MARGIN_QUOTE, quantity * price, true);
+        this.executeBuy(order, asset, MARGIN_QUOTE, quantity, price);
+      } else {
+        this.validateAndLockBase(asset, quantity);
+        this.executeSell(order, asset, MARGIN_QUOTE, quantity, price);
+      }
+
+      this.orders.set(order.id, order);
+      orderIds.push(order.id);
+    }
+
+    this.settleDebt(MARGIN_QUOTE);
+
+    const event: LiquidationEvent = {
+      timestamp: now,
+      equity: account.equity,
+      maintenanceMargin: account.maintenanceMargin,
+      orderIds,
+      remainingDebt: Object.fromEntries(this.borrowed),
+    };
+    this.liquidations.push(event);
+    return event;
+  }
+
+  private assetPrice(asset: string): number {
+    if (asset === MARGIN_QUOTE) return 1;
+    return this.mockPrices.get(`${asset}/${MARGIN_QUOTE}`) ?? 0;
+  }
+}
+
+/**
+ * Walk the opposite side of the book for up to `quantity`, stopping at the
+ * limit price if one is given. Returns the fills level by level.
+ */
+export function walkOrderBook(
+  book: OrderBook,
+  side: 'buy' | 'sell',
+  quantity: number,
+  limitPrice?: number
+): OrderBookEntry[] {
+  const levels = side === 'buy'
+    ? [...book.asks].sort((a, b) => a.price - b.price)
+    : [...book.bids].sort((a, b) => b.price - a.price);
+
+  const fills: OrderBookEntry[] = [];
+  let remaining = quantity;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (limitPrice !== undefined && (side === 'buy' ? level.price > limitPrice : level.price < limitPrice)) break;
+    if (level.quantity <= 0) continue;
+
+    const take = Math.min(remaining, level.quantity);
+    fills.push({ price: level.price, quantity: take });
+    remaining -= take;
+  }
+
+  return fills;
+}
+
+/**
+ * Highest margin leverage a paper account may use on the given tier
+ */
+export function getMaxMarginLeverage(tier: string): number {
+  return MARGIN_LEVERAGE_LIMITS[tier] ?? MARGIN_LEVERAGE_LIMITS.free;
+}
+
+/**
+ * Market data for the fill model backed by a user's exchange connection
+ */
+export function exchangeMarketData(exchangeService: ExchangeService, connectionId: string): MarketDataSource {
+  return {
+    getOrderBook: (symbol) => exchangeService.getOrderBook(connectionId, symbol),
+    getTradingFees: () => exchangeService.getTradingFees(connectionId)
+  };
+}
+
+function isImmediate(timeInForce: TimeInForce): boolean {
+  return timeInForce === 'IOC' || timeInForce === 'FOK';
+}
+
+function isConditional(type: PaperOrderType): boolean {
+  return type === 'stop_loss' || type === 'take_profit' || type === 'trailing_stop';
+}
+
+function isTriggered(order: Order, currentPrice: number): boolean {
+  const stopPrice = order.stopPrice!;
+  if (order.type === 'take_profit') {
+    return order.side === 'sell' ? currentPrice >= stopPrice : currentPrice <= stopPrice;
+  }
+  return order.side === 'sell' ? currentPrice <= stopPrice : currentPrice >= stopPrice;
+}
+
+function validateTrailingOffset(offset: number | undefined, offsetType: TrailingOffsetType = 'percent'): void {
+  if (offset === undefined || offset <= 0) {
+    throw new Error('Trailing stops require a positive trailing offset');
+  }
+  if (offsetType === 'percent' && offset >= 100) {
+    throw new Error('Trailing stop percent must be below 100');
+  }
 }
@@ -296,6 +296,36 @@ describe('TradingModeManager', () => {
       expect(result.isLive).toBe(true);
       expect(result.warning).toContain('REAL FUNDS');
     });
+
+    it('should_block_live_trading_while_halted', async () => {
+      modeManager.setExchanges('user_1', {
+        live: mockLiveExchange,
+        paper: mockPaperExchange
+      });
+      const confirmation = { confirmed: true, password: 'password', acknowledgement: 'I understand' };
+      await modeManager.switchMode('user_1', TradingMode.LIVE, confirmation);
+
+      modeManager.haltTrading('user_1', 'Drawdown 25.0% breached the 20.0% limit');
+
+      expect(modeManager.getCurrentMode('user_1')).toBe(TradingMode.PAPER);
+      expect(modeManager.getModeStatus('user_1')).toMatchObject({
+        canSwitchToLive: false,
+        halt: { reason: 'Drawdown 25.0% breached the 20.0% limit' }
+      });
+      await expect(modeManager.switchMode('user_1', TradingMode.LIVE, confirmation)).rejects.toThrow(
+        'Live trading is halted: Drawdown 25.0% breached the 20.0% limit'
+      );
+
+      modeManager.resumeTrading('user_1');
+      expect(modeManager.getCurrentMode('user_1')).toBe(TradingMode.PAPER);
+      await modeManager.switchMode('user_1', TradingMode.LIVE, confirmation);
+      expect(modeManager.getAuditLogs('user_1').map(l => l.action)).toEqual([
+        'mode_switched_to_live',
+        'trading_halted',
+        'trading_resumed',
+        'mode_switched_to_live'
+      ]);
+    });
   });
 
   describe('Mode Status', () => {
@@ -25,6 +25,8 @@ export interface OrderRequest {
   type: 'market' | 'limit';
   quantity: number;
   price?: number;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTD' | 'DAY'; // Passed through to the exchange adapter
+  expiresAt?: Date;
 }
 
 export interface OrderResult {
@@ -59,6 +61,12 @@ export interface ModeStatus {
   isLive: boolean;
   canSwitchToLive: boolean;
   modeStartedAt: Date;
+  halt?: TradingHalt;
+}
+
+export interface TradingHalt {
+  reason: string;
+  haltedAt: Date;
 }
 
 interface UserModeState {
@@ -70,6 +78,7 @@ export class TradingModeManager {
   private userModes: Map<string, UserModeState> = new Map();
   private userExchanges: Map<string, UserExchanges> = new Map();
   private auditLogs: Map<string, AuditLogEntry[]> = new Map();
+  private halts: Map<string, TradingHalt> = new Map();
 
   /**
    * Get current trading mode for a user
@@ -114,6 +123,56 @@ export class TradingModeManager {
     });
   }
 
+  /**
+   * Halt live trading for a user (e.g. from the risk kill switch).
+   * Moves the user to PAPER and blocks switching back until resumed.
+   */
+  haltTrading(userId: string, reason: string): void {
+    const previousMode = this.getCurrentMode(userId);
+    const haltedAt = new Date();
+
+    this.halts.set(userId, { reason, haltedAt });
+    this.userModes.set(userId, {
+      mode: TradingMode.PAPER,
+      modeStartedAt: haltedAt
+    });
+
+    this.addAuditLog(userId, {
+      userId,
+      action: 'trading_halted',
+      timestamp: haltedAt,
+      previousMode,
+      newMode: TradingMode.PAPER,
+      metadata: { reason }
+    });
+  }
+
+  /**
+   * Lift a trading halt. The user stays in PAPER until they switch to
+   * LIVE again with full confirmation.
+   */
+  resumeTrading(userId: string): void {
+    const halt = this.halts.get(userId);
+    if (!halt) {
+      return;
+    }
+
+    this.halts.delete(userId);
+    const mode = this.getCurrentMode(userId);
+    this.addAuditLog(userId, {
+      userId,
+      action: 'trading_resumed',
+      timestamp: new Date(),
+      previousMode: mode,
+      newMode: mode,
+      metadata: { reason: halt.reason }
+    });
+  }
+
+  isHalted(userId: string): boolean {
+    return this.halts.has(userId);
+  }
+
   /**
    * Validate all requirements for switching to live mode
    */
@@ -121,6 +180,12 @@ export class TradingModeManager {
     userId: string,
     confirmation?: ModeSwithConfirmation
   ): Promise<void> {
+    // A halted account cannot go live until the halt is lifted
+    const halt = this.halts.get(userId);
+    if (halt) {
+      throw new Error(`Live trading is halted: ${halt.reason}`);
+    }
+
     // Check confirmation object exists
     if (!confirmation) {
       throw new Error('Confirmation required to switch to live trading');
@@ -226,16 +291,19 @@ export class TradingModeManager {
     const mode = state?.mode ?? TradingMode.PAPER;
 
     // Can switch to live if exchange is configured and not testnet
+    const halt = this.halts.get(userId);
     const canSwitchToLive = !!(
       exchanges?.live &&
-      !exchanges.live.isTestnet()
+      !exchanges.live.isTestnet() &&
+      !halt
     );
 
     return {
       mode,
       isLive: mode === TradingMode.LIVE,
       canSwitchToLive,
-      modeStartedAt: state?.modeStartedAt ?? new Date()
+      modeStartedAt: state?.modeStartedAt ?? new Date(),
+      ...(halt && { halt })
     };
   }
 }
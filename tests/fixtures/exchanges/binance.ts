@@ -0,0 +1,86 @@
+/**
+ * Binance spot API responses for adapter tests, in the shape the REST API
+ * returns them (see the examples in the Binance spot API documentation).
+ */
+
+export const newOrderResponse = {
+  symbol: 'BTCUSDT',
+  orderId: 28,
+  orderListId: -1,
+  clientOrderId: '6gCrw2kRUAF9CvJDGP16IP',
+  transactTime: 1507725176595,
+  price: '50000.00000000',
+  origQty: '0.10000000',
+  executedQty: '0.00000000',
+  cummulativeQuoteQty: '0.00000000',
+  status: 'NEW',
+  timeInForce: 'GTC',
+  type: 'LIMIT',
+  side: 'BUY',
+  workingTime: 1507725176595,
+  selfTradePreventionMode: 'NONE',
+};
+
+export const queryOrderResponse = {
+  symbol: 'BTCUSDT',
+  orderId: 28,
+  orderListId: -1,
+  clientOrderId: '6gCrw2kRUAF9CvJDGP16IP',
+  price: '50000.00000000',
+  origQty: '0.10000000',
+  executedQty: '0.04000000',
+  cummulativeQuoteQty: '2000.00000000',
+  status: 'PARTIALLY_FILLED',
+  timeInForce: 'GTC',
+  type: 'LIMIT',
+  side: 'BUY',
+  stopPrice: '0.00000000',
+  icebergQty: '0.00000000',
+  time: 1507725176595,
+  updateTime: 1507725176800,
+  isWorking: true,
+  workingTime: 1507725176595,
+  origQuoteOrderQty: '0.00000000',
+  selfTradePreventionMode: 'NONE',
+};
+
+export const openOrdersResponse = [queryOrderResponse];
+
+export const allOrdersResponse = [
+  {
+    ...queryOrderResponse,
+    orderId: 27,
+    clientOrderId: 'web_4f1c0c4b1e6d4a1c',
+    type: 'MARKET',
+    side: 'SELL',
+    price: '0.00000000',
+    executedQty: '0.20000000',
+    cummulativeQuoteQty: '9900.00000000',
+    status: 'FILLED',
+    time: 1507725000000,
+  },
+  queryOrderResponse,
+];
+
+export const cancelOrderResponse = {
+  symbol: 'BTCUSDT',
+  origClientOrderId: '6gCrw2kRUAF9CvJDGP16IP',
+  orderId: 28,
+  orderListId: -1,
+  clientOrderId: 'cancelMyOrder1',
+  transactTime: 1684804350068,
+  price: '50000.00000000',
+  origQty: '0.10000000',
+  executedQty: '0.04000000',
+  cummulativeQuoteQty: '2000.00000000',
+  status: 'CANCELED',
+  timeInForce: 'GTC',
+  type: 'LIMIT',
+  side: 'BUY',
+  selfTradePreventionMode: 'NONE',
+};
+
+export const insufficientBalanceResponse = {
+  code: -2010,
+  msg: 'Account has insufficient balance for requested action.',
+};
@@ -0,0 +1,208 @@
+/**
+ * Bybit V5 API responses for adapter tests, in the shape the REST API
+ * returns them (see the examples in the Bybit V5 API documentation).
+ */
+
+export const tickersResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    category: 'spot',
+    list: [
+      {
+        symbol: 'BTCUSDT',
+        bid1Price: '20517.96',
+        bid1Size: '2',
+        ask1Price: '20527.77',
+        ask1Size: '1.862172',
+        lastPrice: '20533.13',
+        prevPrice24h: '20393.48',
+        price24hPcnt: '0.0068',
+        highPrice24h: '21128.12',
+        lowPrice24h: '20318.89',
+        turnover24h: '243765620.65899866',
+        volume24h: '11801.27771',
+        usdIndexPrice: '20784.12009279',
+      },
+    ],
+  },
+  retExtInfo: {},
+  time: 1673859087947,
+};
+
+export const orderbookResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    s: 'BTCUSDT',
+    a: [['16638.64', '0.008479'], ['16640.00', '0.5']],
+    b: [['16638.27', '0.305749'], ['16638.00', '1.2']],
+    ts: 1672765737733,
+    u: 5277055,
+  },
+  retExtInfo: {},
+  time: 1672765737734,
+};
+
+// Newest first, as Bybit returns them
+export const klineResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    symbol: 'BTCUSDT',
+    category: 'spot',
+    list: [
+      ['1670608800000', '17071', '17073', '17027', '17055.5', '268611', '15.74462667'],
+      ['1670605200000', '17071.5', '17071.5', '17061', '17071', '4177', '0.24469757'],
+    ],
+  },
+  retExtInfo: {},
+  time: 1672025956592,
+};
+
+export const instrumentsResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    category: 'spot',
+    list: [
+      {
+        symbol: 'BTCUSDT',
+        baseCoin: 'BTC',
+        quoteCoin: 'USDT',
+        innovation: '0',
+        status: 'Trading',
+        marginTrading: 'both',
+        lotSizeFilter: {
+          basePrecision: '0.000001',
+          quotePrecision: '0.00000001',
+          minOrderQty: '0.000048',
+          maxOrderQty: '71.73956243',
+          minOrderAmt: '1',
+          maxOrderAmt: '2000000',
+        },
+        priceFilter: { tickSize: '0.01' },
+      },
+      {
+        symbol: 'OLDUSDT',
+        baseCoin: 'OLD',
+        quoteCoin: 'USDT',
+        status: 'Closed',
+        lotSizeFilter: { basePrecision: '0.01', minOrderQty: '1', maxOrderQty: '100', minOrderAmt: '1' },
+        priceFilter: { tickSize: '0.0001' },
+      },
+    ],
+  },
+  retExtInfo: {},
+  time: 1672712468011,
+};
+
+export const walletBalanceResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    list: [
+      {
+        accountType: 'UNIFIED',
+        totalEquity: '3.31216591',
+        coin: [
+          { coin: 'BTC', equity: '0.5', walletBalance: '0.5', locked: '0.1', usdValue: '10000' },
+          { coin: 'USDT', equity: '1200', walletBalance: '1200', locked: '0', usdValue: '1200' },
+          { coin: 'ETH', equity: '0', walletBalance: '0', locked: '0', usdValue: '0' },
+        ],
+      },
+    ],
+  },
+  retExtInfo: {},
+  time: 1690872862481,
+};
+
+export const feeRateResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    list: [{ symbol: '', takerFeeRate: '0.0006', makerFeeRate: '0.0001' }],
+  },
+  retExtInfo: {},
+  time: 1676360412576,
+};
+
+export const invalidKeyResponse = {
+  retCode: 10003,
+  retMsg: 'API key is invalid.',
+  result: {},
+  retExtInfo: {},
+  time: 1676360412576,
+};
+
+export const linearInstrumentsResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    category: 'linear',
+    list: [
+      {
+        symbol: 'BTCUSDT',
+        contractType: 'LinearPerpetual',
+        status: 'Trading',
+        baseCoin: 'BTC',
+        quoteCoin: 'USDT',
+        settleCoin: 'USDT',
+        priceScale: '2',
+        leverageFilter: { minLeverage: '1', maxLeverage: '100.00', leverageStep: '0.01' },
+        priceFilter: { minPrice: '0.10', maxPrice: '199999.80', tickSize: '0.10' },
+        lotSizeFilter: {
+          maxOrderQty: '100.000',
+          minOrderQty: '0.001',
+          qtyStep: '0.001',
+          postOnlyMaxOrderQty: '1000.000',
+        },
+        fundingInterval: 480,
+      },
+    ],
+  },
+  retExtInfo: {},
+  time: 1672712495660,
+};
+
+export const fundingHistoryResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    category: 'linear',
+    list: [
+      { symbol: 'BTCUSDT', fundingRate: '0.0001', fundingRateTimestamp: '1672041600000' },
+      { symbol: 'BTCUSDT', fundingRate: '-0.00005', fundingRateTimestamp: '1672012800000' },
+    ],
+  },
+  retExtInfo: {},
+  time: 1672051897447,
+};
+
+export const linearTickersResponse = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    category: 'linear',
+    list: [
+      {
+        symbol: 'BTCUSDT',
+        lastPrice: '16597.00',
+        indexPrice: '16598.54',
+        markPrice: '16596.00',
+        prevPrice24h: '16464.50',
+        price24hPcnt: '0.008047',
+        highPrice24h: '30912.50',
+        lowPrice24h: '15700.00',
+        openInterest: '373504107',
+        fundingRate: '-0.0001',
+        nextFundingTime: '1673280000000',
+        bid1Price: '16596.00',
+        ask1Price: '16597.50',
+        volume24h: '49337318',
+      },
+    ],
+  },
+  retExtInfo: {},
+  time: 1672376496682,
+};
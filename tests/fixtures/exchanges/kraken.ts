@@ -0,0 +1,112 @@
+/**
+ * Kraken spot API responses for adapter tests, in the shape the REST API
+ * returns them (see the examples in the Kraken REST API documentation).
+ */
+
+export const addOrderResponse = {
+  error: [],
+  result: {
+    descr: { order: 'buy 1.25000000 XBTUSD @ limit 37500.0' },
+    txid: ['OUF4EM-FRGI2-MQMWZD'],
+  },
+};
+
+const openOrder = {
+  refid: null,
+  userref: 0,
+  cl_ord_id: 'client-1',
+  status: 'open',
+  opentm: 1616665496.7808,
+  starttm: 0,
+  expiretm: 0,
+  descr: {
+    pair: 'XBTUSD',
+    type: 'buy',
+    ordertype: 'limit',
+    price: '37500.0',
+    price2: '0',
+    leverage: 'none',
+    order: 'buy 1.25000000 XBTUSD @ limit 37500.0',
+    close: '',
+  },
+  vol: '1.25000000',
+  vol_exec: '0.37500000',
+  cost: '14062.50000',
+  fee: '22.50000',
+  price: '37500.0',
+  stopprice: '0.00000',
+  limitprice: '0.00000',
+  misc: '',
+  oflags: 'fciq',
+};
+
+const otherPairOrder = {
+  ...openOrder,
+  cl_ord_id: undefined,
+  userref: 120,
+  opentm: 1616665500.1234,
+  descr: {
+    ...openOrder.descr,
+    pair: 'ETHUSD',
+    type: 'sell',
+    order: 'sell 2.00000000 ETHUSD @ limit 2000.0',
+  },
+  vol_exec: '0.00000000',
+  cost: '0.00000',
+};
+
+export const openOrdersResponse = {
+  error: [],
+  result: {
+    open: {
+      'OUF4EM-FRGI2-MQMWZD': openOrder,
+      'OB5VMB-B4U2U-DK2WRW': otherPairOrder,
+    },
+  },
+};
+
+export const queryOrdersResponse = {
+  error: [],
+  result: {
+    'OUF4EM-FRGI2-MQMWZD': openOrder,
+  },
+};
+
+export const closedOrdersResponse = {
+  error: [],
+  result: {
+    closed: {
+      'O37652-RJWRT-IMO74O': {
+        ...openOrder,
+        cl_ord_id: undefined,
+        status: 'canceled',
+        opentm: 1616148493.7708,
+        closetm: 1616148610.0482,
+        reason: 'User requested',
+        vol_exec: '0.00000000',
+        cost: '0.00000',
+      },
+      'OGTT3Y-C6I3P-XRI6HX': {
+        ...openOrder,
+        cl_ord_id: undefined,
+        status: 'closed',
+        opentm: 1616148800.1234,
+        closetm: 1616148800.5678,
+        descr: { ...openOrder.descr, ordertype: 'market', type: 'sell' },
+        vol_exec: '1.25000000',
+        cost: '46875.00000',
+        price: '37500.0',
+      },
+    },
+    count: 2,
+  },
+};
+
+export const cancelOrderResponse = {
+  error: [],
+  result: { count: 1 },
+};
+
+export const insufficientFundsResponse = {
+  error: ['EOrder:Insufficient funds'],
+};
@@ -0,0 +1,176 @@
+/**
+ * OKX V5 API responses for adapter tests, in the shape the REST API
+ * returns them (see the examples in the OKX V5 API documentation).
+ */
+
+export const tickerResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      instType: 'SPOT',
+      instId: 'BTC-USDT',
+      last: '9999.99',
+      lastSz: '0.1',
+      askPx: '9999.99',
+      askSz: '11',
+      bidPx: '8888.88',
+      bidSz: '5',
+      open24h: '9000',
+      high24h: '10000',
+      low24h: '8888.88',
+      volCcy24h: '2222',
+      vol24h: '2222',
+      sodUtc0: '2222',
+      sodUtc8: '2222',
+      ts: '1597026383085',
+    },
+  ],
+};
+
+export const booksResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      asks: [['41006.8', '0.60038921', '0', '1'], ['41007.0', '1.2', '0', '3']],
+      bids: [['41006.3', '0.30178218', '0', '2'], ['41006.0', '0.5', '0', '1']],
+      ts: '1629966436396',
+    },
+  ],
+};
+
+// Newest first, as OKX returns them
+export const candlesResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    ['1597026443085', '3.721', '3.743', '3.677', '3.708', '8422410', '22698348.04828491', '12698348.04828491', '0'],
+    ['1597026383085', '3.731', '3.799', '3.494', '3.72', '24912403', '67632347.24399722', '37632347.24399722', '1'],
+  ],
+};
+
+export const instrumentsResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      instType: 'SPOT',
+      instId: 'BTC-USDT',
+      baseCcy: 'BTC',
+      quoteCcy: 'USDT',
+      tickSz: '0.1',
+      lotSz: '0.00000001',
+      minSz: '0.00001',
+      maxLmtSz: '9999999999',
+      maxMktSz: '1000000',
+      state: 'live',
+    },
+    {
+      instType: 'SPOT',
+      instId: 'OLD-USDT',
+      baseCcy: 'OLD',
+      quoteCcy: 'USDT',
+      tickSz: '0.0001',
+      lotSz: '1',
+      minSz: '1',
+      maxLmtSz: '100000',
+      state: 'suspend',
+    },
+  ],
+};
+
+export const balanceResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      totalEq: '41624.32',
+      uTime: '1614846244194',
+      details: [
+        { ccy: 'BTC', eq: '1.5', cashBal: '1.5', availBal: '1.25', frozenBal: '0.25' },
+        { ccy: 'USDT', eq: '3000', cashBal: '3000', availBal: '3000', frozenBal: '0' },
+      ],
+    },
+  ],
+};
+
+export const tradeFeeResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      category: '1',
+      instType: 'SPOT',
+      level: 'Lv1',
+      maker: '-0.0008',
+      taker: '-0.001',
+      ts: '1608623351857',
+    },
+  ],
+};
+
+export const invalidSignResponse = {
+  code: '50113',
+  msg: 'Invalid Sign',
+  data: [],
+};
+
+export const swapInstrumentsResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      uly: 'BTC-USDT',
+      settleCcy: 'USDT',
+      ctVal: '0.01',
+      ctMult: '1',
+      ctValCcy: 'BTC',
+      ctType: 'linear',
+      lever: '125',
+      tickSz: '0.1',
+      lotSz: '1',
+      minSz: '1',
+      maxLmtSz: '100000000',
+      state: 'live',
+    },
+  ],
+};
+
+export const fundingRateHistoryResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    { instType: 'SWAP', instId: 'BTC-USDT-SWAP', fundingRate: '0.00011', realizedRate: '0.0001', fundingTime: '1703232000000', method: 'current_period' },
+    { instType: 'SWAP', instId: 'BTC-USDT-SWAP', fundingRate: '-0.00003', realizedRate: '-0.00003', fundingTime: '1703203200000', method: 'current_period' },
+  ],
+};
+
+export const markPriceResponse = {
+  code: '0',
+  msg: '',
+  data: [{ instType: 'SWAP', instId: 'BTC-USDT-SWAP', markPx: '43652.4', ts: '1703236052300' }],
+};
+
+export const indexTickersResponse = {
+  code: '0',
+  msg: '',
+  data: [{ instId: 'BTC-USDT', idxPx: '43650.1', high24h: '44100', low24h: '43000', open24h: '43500', ts: '1703236052100' }],
+};
+
+export const fundingRateResponse = {
+  code: '0',
+  msg: '',
+  data: [
+    {
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      fundingRate: '0.00012',
+      nextFundingRate: '',
+      fundingTime: '1703260800000',
+      nextFundingTime: '1703289600000',
+    },
+  ],
+};
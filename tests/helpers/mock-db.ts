@@ -33,6 +33,9 @@ export class MockDatabase {
   private _exchangeConnections: Map<string, any> = new Map();
   private _aiProviderConnections: Map<string, any> = new Map();
   private _auditLogs: Map<string, AuditLog> = new Map();
+  private _datasets: Map<string, any> = new Map();
+  private _candles: Map<string, any> = new Map();
+  private _candleGaps: Map<string, any> = new Map();
 
   // ============================================================================
   // Encryption Helpers
@@ -524,6 +527,129 @@ export class MockDatabase {
     },
   };
 
+  // ============================================================================
+  // Backtest Datasets
+  // ============================================================================
+
+  datasetOps = {
+    create: async (input: {
+      userId: string;
+      name: string;
+      symbol: string;
+      timeframe?: string;
+      startTime: number;
+      endTime: number;
+      candles: Array<{ timestamp: number; open: number; high: number; low: number; close: number; volume: number }>;
+    }): Promise<any> => {
+      const dataset = {
+        id: uuidv4(),
+        userId: input.userId,
+        name: input.name,
+        symbol: input.symbol,
+        timeframe: input.timeframe || null,
+        candleCount: input.candles.length,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        candles: input.candles.map(candle => ({ ...candle })),
+        createdAt: new Date(),
+      };
+
+      this._datasets.set(dataset.id, dataset);
+
+      const { candles, ...summary } = dataset;
+      return summary;
+    },
+
+    findById: async (id: string): Promise<any | null> => {
+      return this._datasets.get(id) || null;
+    },
+
+    findByUserId: async (userId: string): Promise<any[]> => {
+      const result: any[] = [];
+      for (const dataset of this._datasets.values()) {
+        if (dataset.userId === userId) {
+          const { candles, ...summary } = dataset;
+          result.push(summary);
+        }
+      }
+      return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+
+    delete: async (id: string): Promise<void> => {
+      this._datasets.delete(id);
+    },
+  };
+
+  // ============================================================================
+  // OHLCV Candles
+  // ============================================================================
+
+  candleOps = {
+    upsertMany: async (rows: Array<{
+      exchange: string;
+      symbol: string;
+      timeframe: string;
+      timestamp: number;
+      open: number;
+      high: number;
+      low: number;
+      close: number;
+      volume: number;
+    }>): Promise<number> => {
+      for (const row of rows) {
+        this._candles.set(`${row.exchange}:${row.symbol}:${row.timeframe}:${row.timestamp}`, { ...row });
+      }
+      return rows.length;
+    },
+
+    findRange: async (exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<any[]> => {
+      const result: any[] = [];
+      for (const candle of this._candles.values()) {
+        if (
+          candle.exchange === exchange &&
+          candle.symbol === symbol &&
+          candle.timeframe === timeframe &&
+          candle.timestamp >= start &&
+          candle.timestamp <= end
+        ) {
+          result.push({ ...candle });
+        }
+      }
+      return result.sort((a, b) => a.timestamp - b.timestamp);
+    },
+  };
+
+  candleGapOps = {
+    insertMany: async (rows: Array<{
+      exchange: string;
+      symbol: string;
+      timeframe: string;
+      startTime: number;
+      endTime: number;
+    }>): Promise<number> => {
+      for (const row of rows) {
+        this._candleGaps.set(`${row.exchange}:${row.symbol}:${row.timeframe}:${row.startTime}`, { ...row });
+      }
+      return rows.length;
+    },
+
+    findOverlapping: async (exchange: string, symbol: string, timeframe: string, start: number, end: number): Promise<any[]> => {
+      const result: any[] = [];
+      for (const gap of this._candleGaps.values()) {
+        if (
+          gap.exchange === exchange &&
+          gap.symbol === symbol &&
+          gap.timeframe === timeframe &&
+          gap.startTime <= end &&
+          gap.endTime >= start
+        ) {
+          result.push({ ...gap });
+        }
+      }
+      return result.sort((a, b) => a.startTime - b.startTime);
+    },
+  };
+
   // Expose as db-like interface
   get users() { return this.userOps; }
   get strategies() { return this.strategyOps; }
@@ -531,6 +657,9 @@ export class MockDatabase {
   get exchangeConnections() { return this.exchangeOps; }
   get aiProviders() { return this.aiProviderOps; }
   get auditLogs() { return this.auditLogOps; }
+  get datasets() { return this.datasetOps; }
+  get candles() { return this.candleOps; }
+  get candleGaps() { return this.candleGapOps; }
 
   // Clear all data (for test isolation)
   clear() {
@@ -540,6 +669,9 @@ export class MockDatabase {
     this._exchangeConnections.clear();
     this._aiProviderConnections.clear();
     this._auditLogs.clear();
+    this._datasets.clear();
+    this._candles.clear();
+    this._candleGaps.clear();
   }
 }
 